@@ -0,0 +1,37 @@
+-- Migration: Add nested ABAC policy groups
+-- Date: 2025-09-18
+-- Description: Menambahkan group AND/OR/NOT pada tabel policies agar policy dapat dikomposisi
+
+-- Tambahkan kolom untuk struktur tree policy
+ALTER TABLE "policies" ADD COLUMN "parent_id" INTEGER;
+ALTER TABLE "policies" ADD COLUMN "combinator" VARCHAR(3);
+
+-- Row group tidak memiliki attribute/operator/value
+ALTER TABLE "policies" ALTER COLUMN "attribute" DROP NOT NULL;
+ALTER TABLE "policies" ALTER COLUMN "operator" DROP NOT NULL;
+ALTER TABLE "policies" ALTER COLUMN "value" DROP NOT NULL;
+
+-- Tambahkan foreign key constraint (hapus child saat parent group dihapus)
+DO $$ BEGIN
+ ALTER TABLE "policies" ADD CONSTRAINT "policies_parent_id_policies_id_fk" FOREIGN KEY ("parent_id") REFERENCES "policies"("id") ON DELETE CASCADE;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+-- Tambahkan constraint untuk combinator yang valid
+ALTER TABLE "policies" ADD CONSTRAINT "policies_combinator_check"
+  CHECK ("combinator" IN ('AND', 'OR', 'NOT'));
+
+-- Row harus berupa condition atau group, tidak keduanya
+ALTER TABLE "policies" ADD CONSTRAINT "policies_node_type_check"
+  CHECK (
+    ("combinator" IS NULL AND "attribute" IS NOT NULL AND "operator" IS NOT NULL AND "value" IS NOT NULL)
+    OR ("combinator" IS NOT NULL AND "attribute" IS NULL AND "operator" IS NULL AND "value" IS NULL)
+  );
+
+-- Tambahkan index untuk traversal tree
+CREATE INDEX IF NOT EXISTS "idx_policies_parent_id" ON "policies" ("parent_id");
+
+-- Tambahkan comment untuk dokumentasi
+COMMENT ON COLUMN "policies"."parent_id" IS 'Parent group policy; NULL berarti root policy untuk feature';
+COMMENT ON COLUMN "policies"."combinator" IS 'Combinator group: AND, OR, NOT (NULL untuk condition)';
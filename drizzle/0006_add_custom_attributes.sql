@@ -0,0 +1,52 @@
+-- Migration: Add custom ABAC user attributes
+-- Date: 2025-09-19
+-- Description: Menambahkan registry custom attribute dan nilai attribute per user untuk ABAC
+
+-- Tabel attribute_definitions untuk registry custom attribute
+CREATE TABLE IF NOT EXISTS "attribute_definitions" (
+	"id" SERIAL PRIMARY KEY NOT NULL,
+	"name" VARCHAR(100) NOT NULL,
+	"type" VARCHAR(20) NOT NULL,
+	"allowed_values" TEXT,
+	"description" TEXT,
+	"created_at" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+	"updated_at" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+	CONSTRAINT "attribute_definitions_name_unique" UNIQUE("name")
+);
+
+-- Tabel user_attribute_values untuk nilai custom attribute per user
+CREATE TABLE IF NOT EXISTS "user_attribute_values" (
+	"id" SERIAL PRIMARY KEY NOT NULL,
+	"user_id" INTEGER NOT NULL,
+	"attribute_id" INTEGER NOT NULL,
+	"value" TEXT NOT NULL,
+	"updated_at" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Tambahkan foreign key constraints
+DO $$ BEGIN
+ ALTER TABLE "user_attribute_values" ADD CONSTRAINT "user_attribute_values_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "user_attribute_values" ADD CONSTRAINT "user_attribute_values_attribute_id_attribute_definitions_id_fk" FOREIGN KEY ("attribute_id") REFERENCES "attribute_definitions"("id") ON DELETE CASCADE;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+-- Tambahkan constraint untuk tipe attribute yang valid
+ALTER TABLE "attribute_definitions" ADD CONSTRAINT "attribute_definitions_type_check"
+  CHECK ("type" IN ('string', 'number', 'boolean', 'date', 'list'));
+
+-- Satu nilai per attribute per user
+CREATE UNIQUE INDEX IF NOT EXISTS "user_attribute_values_user_attribute_unique" ON "user_attribute_values" ("user_id", "attribute_id");
+
+-- Tambahkan index untuk pencarian user berdasarkan attribute
+CREATE INDEX IF NOT EXISTS "idx_user_attribute_values_attribute_id" ON "user_attribute_values" ("attribute_id");
+
+-- Tambahkan comment untuk dokumentasi
+COMMENT ON TABLE "attribute_definitions" IS 'Registry custom user attribute untuk ABAC (selain department, region, level)';
+COMMENT ON COLUMN "attribute_definitions"."allowed_values" IS 'JSON array nilai yang diperbolehkan; NULL berarti nilai bebas';
+COMMENT ON COLUMN "user_attribute_values"."value" IS 'Nilai attribute sebagai text; tipe list disimpan sebagai JSON array';
@@ -0,0 +1,12 @@
+-- Migration: Add request context attributes to ABAC policies
+-- Date: 2025-09-20
+-- Description: Menambahkan operator 'contains' untuk attribute context request (user agent, dll)
+
+-- Ganti constraint operator agar mendukung 'contains'
+ALTER TABLE "policies" DROP CONSTRAINT IF EXISTS "policies_operator_check";
+ALTER TABLE "policies" ADD CONSTRAINT "policies_operator_check"
+  CHECK ("operator" IS NULL OR "operator" IN ('==', '!=', '>', '>=', '<', '<=', 'in', 'contains'));
+
+-- Komentar untuk dokumentasi
+COMMENT ON COLUMN "policies"."attribute" IS 'Attribute user (department, region, level, custom) atau context request (context.time_of_day, context.day_of_week, context.ip, context.user_agent, context.method)';
+COMMENT ON COLUMN "policies"."operator" IS 'Operator perbandingan: ==, !=, >, >=, <, <=, in, contains';
@@ -0,0 +1,10 @@
+-- Migration: Add resource attributes to ABAC policies
+-- Date: 2025-09-21
+-- Description: Mengizinkan attribute policy berprefix user./context./resource. dan value referensi ($user.department)
+
+-- Attribute tidak lagi terbatas pada kolom users; validasi dilakukan oleh PolicyManagementService
+ALTER TABLE "policies" DROP CONSTRAINT IF EXISTS "policies_attribute_check";
+
+-- Komentar untuk dokumentasi
+COMMENT ON COLUMN "policies"."attribute" IS 'Attribute user (department, region, level, custom, user.id), context request (context.*) atau resource yang diakses (resource.*)';
+COMMENT ON COLUMN "policies"."value" IS 'Nilai pembanding atau referensi attribute dengan prefix $, contoh: $user.department';
@@ -0,0 +1,23 @@
+-- Migration: Add explicit deny permissions to role features
+-- Date: 2025-09-22
+-- Description: Menambahkan flag deny per action sehingga permission role_features menjadi tri-state (allow/deny/unset)
+
+ALTER TABLE "role_features" ADD COLUMN "deny_create" BOOLEAN DEFAULT false;
+ALTER TABLE "role_features" ADD COLUMN "deny_read" BOOLEAN DEFAULT false;
+ALTER TABLE "role_features" ADD COLUMN "deny_update" BOOLEAN DEFAULT false;
+ALTER TABLE "role_features" ADD COLUMN "deny_delete" BOOLEAN DEFAULT false;
+
+-- Satu action tidak boleh allow dan deny sekaligus
+ALTER TABLE "role_features" ADD CONSTRAINT "role_features_effect_check"
+  CHECK (
+    NOT (COALESCE("can_create", false) AND COALESCE("deny_create", false)) AND
+    NOT (COALESCE("can_read", false) AND COALESCE("deny_read", false)) AND
+    NOT (COALESCE("can_update", false) AND COALESCE("deny_update", false)) AND
+    NOT (COALESCE("can_delete", false) AND COALESCE("deny_delete", false))
+  );
+
+-- Komentar untuk dokumentasi
+COMMENT ON COLUMN "role_features"."deny_create" IS 'Explicit deny create; mengalahkan can_create dari role lain milik user';
+COMMENT ON COLUMN "role_features"."deny_read" IS 'Explicit deny read; mengalahkan can_read dari role lain milik user';
+COMMENT ON COLUMN "role_features"."deny_update" IS 'Explicit deny update; mengalahkan can_update dari role lain milik user';
+COMMENT ON COLUMN "role_features"."deny_delete" IS 'Explicit deny delete; mengalahkan can_delete dari role lain milik user';
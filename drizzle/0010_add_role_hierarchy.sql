@@ -0,0 +1,21 @@
+-- Migration: Add role hierarchy
+-- Date: 2025-09-23
+-- Description: Menambahkan parent role sehingga permissions role_features dapat diwariskan (Viewer -> Editor -> Manager)
+
+ALTER TABLE "roles" ADD COLUMN "parent_role_id" INTEGER;
+
+-- Child role tetap ada (parent di-set NULL) ketika parent role dihapus
+DO $$ BEGIN
+ ALTER TABLE "roles" ADD CONSTRAINT "roles_parent_role_id_roles_id_fk" FOREIGN KEY ("parent_role_id") REFERENCES "roles"("id") ON DELETE SET NULL;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+-- Role tidak boleh menjadi parent dirinya sendiri (siklus lebih panjang dicegah di RoleService)
+ALTER TABLE "roles" ADD CONSTRAINT "roles_parent_not_self_check"
+  CHECK ("parent_role_id" IS NULL OR "parent_role_id" <> "id");
+
+CREATE INDEX IF NOT EXISTS "idx_roles_parent_role_id" ON "roles" ("parent_role_id");
+
+-- Komentar untuk dokumentasi
+COMMENT ON COLUMN "roles"."parent_role_id" IS 'Parent role; permissions parent diwariskan ke role ini kecuali di-override';
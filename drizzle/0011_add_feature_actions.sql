@@ -0,0 +1,60 @@
+-- Migration: Add custom feature actions
+-- Date: 2025-09-24
+-- Description: Menambahkan action custom per feature di luar CRUD (contoh: export, approve, impersonate)
+-- Kolom can_* / deny_* di role_features tetap menjadi sumber permission CRUD sehingga data lama
+-- tidak perlu dimigrasi; action CRUD berlaku implisit untuk semua feature
+
+-- Tabel feature_actions untuk deklarasi action custom per feature
+CREATE TABLE IF NOT EXISTS "feature_actions" (
+	"id" SERIAL PRIMARY KEY NOT NULL,
+	"feature_id" INTEGER NOT NULL,
+	"name" VARCHAR(50) NOT NULL,
+	"description" TEXT,
+	"created_at" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Tabel role_feature_actions untuk grant action custom ke role
+CREATE TABLE IF NOT EXISTS "role_feature_actions" (
+	"id" SERIAL PRIMARY KEY NOT NULL,
+	"role_id" INTEGER NOT NULL,
+	"feature_action_id" INTEGER NOT NULL,
+	"effect" VARCHAR(5) NOT NULL
+);
+
+-- Tambahkan foreign key constraints
+DO $$ BEGIN
+ ALTER TABLE "feature_actions" ADD CONSTRAINT "feature_actions_feature_id_features_id_fk" FOREIGN KEY ("feature_id") REFERENCES "features"("id") ON DELETE CASCADE;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "role_feature_actions" ADD CONSTRAINT "role_feature_actions_role_id_roles_id_fk" FOREIGN KEY ("role_id") REFERENCES "roles"("id") ON DELETE CASCADE;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "role_feature_actions" ADD CONSTRAINT "role_feature_actions_feature_action_id_feature_actions_id_fk" FOREIGN KEY ("feature_action_id") REFERENCES "feature_actions"("id") ON DELETE CASCADE;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+-- Nama action custom: snake_case dan tidak bentrok dengan action CRUD bawaan
+ALTER TABLE "feature_actions" ADD CONSTRAINT "feature_actions_name_check"
+  CHECK ("name" ~ '^[a-z][a-z0-9_]*$' AND "name" NOT IN ('create', 'read', 'update', 'delete'));
+
+-- Effect grant: tidak ada row berarti unset
+ALTER TABLE "role_feature_actions" ADD CONSTRAINT "role_feature_actions_effect_check"
+  CHECK ("effect" IN ('allow', 'deny'));
+
+-- Satu action dengan nama yang sama per feature, satu grant per role per action
+CREATE UNIQUE INDEX IF NOT EXISTS "feature_actions_feature_name_unique" ON "feature_actions" ("feature_id", "name");
+CREATE UNIQUE INDEX IF NOT EXISTS "role_feature_actions_role_action_unique" ON "role_feature_actions" ("role_id", "feature_action_id");
+
+-- Tambahkan index untuk pencarian grant berdasarkan action
+CREATE INDEX IF NOT EXISTS "idx_role_feature_actions_feature_action_id" ON "role_feature_actions" ("feature_action_id");
+
+-- Tambahkan comment untuk dokumentasi
+COMMENT ON TABLE "feature_actions" IS 'Action custom per feature di luar CRUD; CRUD tetap di kolom role_features';
+COMMENT ON TABLE "role_feature_actions" IS 'Grant action custom ke role (allow/deny); tidak ada row berarti unset';
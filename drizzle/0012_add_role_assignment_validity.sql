@@ -0,0 +1,17 @@
+-- Migration: Add time-bound role assignments
+-- Date: 2025-09-25
+-- Description: Menambahkan masa berlaku (valid_from/valid_until) pada user_roles untuk assignment terjadwal dan sementara
+-- Assignment lama tetap berlaku tanpa batas karena kedua kolom bernilai NULL
+
+ALTER TABLE "user_roles" ADD COLUMN "valid_from" TIMESTAMP WITH TIME ZONE;
+ALTER TABLE "user_roles" ADD COLUMN "valid_until" TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE "user_roles" ADD CONSTRAINT "user_roles_validity_range_check"
+  CHECK ("valid_from" IS NULL OR "valid_until" IS NULL OR "valid_until" > "valid_from");
+
+-- Index untuk expiry sweep yang mencari assignment yang sudah lewat valid_until
+CREATE INDEX IF NOT EXISTS "idx_user_roles_valid_until" ON "user_roles" ("valid_until") WHERE "valid_until" IS NOT NULL;
+
+-- Komentar untuk dokumentasi
+COMMENT ON COLUMN "user_roles"."valid_from" IS 'Assignment mulai berlaku pada waktu ini; NULL berarti langsung berlaku';
+COMMENT ON COLUMN "user_roles"."valid_until" IS 'Assignment berakhir pada waktu ini dan dihapus oleh expiry sweep; NULL berarti permanen';
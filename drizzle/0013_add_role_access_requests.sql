@@ -0,0 +1,76 @@
+-- Migration: Add role access request workflow
+-- Date: 2025-09-26
+-- Description: Menambahkan approver per role dan access request sehingga user dapat meminta role
+-- Request yang disetujui di-assign ke user_roles (dengan valid_until jika durasi diisi)
+
+-- Tabel role_approvers untuk user yang ditunjuk menyetujui request sebuah role
+CREATE TABLE IF NOT EXISTS "role_approvers" (
+	"id" SERIAL PRIMARY KEY NOT NULL,
+	"role_id" INTEGER NOT NULL,
+	"user_id" INTEGER NOT NULL,
+	"created_at" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Tabel role_access_requests untuk permintaan role beserta keputusan approver
+CREATE TABLE IF NOT EXISTS "role_access_requests" (
+	"id" SERIAL PRIMARY KEY NOT NULL,
+	"user_id" INTEGER NOT NULL,
+	"role_id" INTEGER NOT NULL,
+	"justification" TEXT NOT NULL,
+	"duration_days" INTEGER,
+	"status" VARCHAR(20) DEFAULT 'pending' NOT NULL,
+	"reviewer_id" INTEGER,
+	"review_note" TEXT,
+	"created_at" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+	"reviewed_at" TIMESTAMP WITH TIME ZONE
+);
+
+-- Tambahkan foreign key constraints
+DO $$ BEGIN
+ ALTER TABLE "role_approvers" ADD CONSTRAINT "role_approvers_role_id_roles_id_fk" FOREIGN KEY ("role_id") REFERENCES "roles"("id") ON DELETE CASCADE;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "role_approvers" ADD CONSTRAINT "role_approvers_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "role_access_requests" ADD CONSTRAINT "role_access_requests_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "role_access_requests" ADD CONSTRAINT "role_access_requests_role_id_roles_id_fk" FOREIGN KEY ("role_id") REFERENCES "roles"("id") ON DELETE CASCADE;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "role_access_requests" ADD CONSTRAINT "role_access_requests_reviewer_id_users_id_fk" FOREIGN KEY ("reviewer_id") REFERENCES "users"("id") ON DELETE SET NULL;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE "role_access_requests" ADD CONSTRAINT "role_access_requests_status_check"
+  CHECK ("status" IN ('pending', 'approved', 'rejected', 'cancelled'));
+
+ALTER TABLE "role_access_requests" ADD CONSTRAINT "role_access_requests_duration_check"
+  CHECK ("duration_days" IS NULL OR "duration_days" > 0);
+
+-- Satu approver terdaftar sekali per role
+CREATE UNIQUE INDEX IF NOT EXISTS "role_approvers_role_user_unique" ON "role_approvers" ("role_id", "user_id");
+
+-- Tambahkan index untuk antrian approval dan riwayat request user
+CREATE INDEX IF NOT EXISTS "idx_role_approvers_user_id" ON "role_approvers" ("user_id");
+CREATE INDEX IF NOT EXISTS "idx_role_access_requests_role_status" ON "role_access_requests" ("role_id", "status");
+CREATE INDEX IF NOT EXISTS "idx_role_access_requests_user_id" ON "role_access_requests" ("user_id");
+
+-- Tambahkan comment untuk dokumentasi
+COMMENT ON TABLE "role_approvers" IS 'User yang ditunjuk untuk menyetujui access request sebuah role';
+COMMENT ON TABLE "role_access_requests" IS 'Permintaan role oleh user; approval meng-assign role melalui user_roles';
+COMMENT ON COLUMN "role_access_requests"."duration_days" IS 'Durasi assignment dalam hari sejak disetujui; NULL berarti permanen';
@@ -0,0 +1,92 @@
+-- Migration: Add access review campaigns
+-- Date: 2025-09-27
+-- Description: Menambahkan campaign recertification yang men-snapshot user_roles untuk sebuah scope
+-- (role, department, region) beserta keputusan keep/revoke dari reviewer
+
+-- Tabel access_review_campaigns untuk campaign recertification
+CREATE TABLE IF NOT EXISTS "access_review_campaigns" (
+	"id" SERIAL PRIMARY KEY NOT NULL,
+	"name" VARCHAR(150) NOT NULL,
+	"description" TEXT,
+	"scope_type" VARCHAR(20) NOT NULL,
+	"scope_value" VARCHAR(100) NOT NULL,
+	"status" VARCHAR(20) DEFAULT 'open' NOT NULL,
+	"due_date" TIMESTAMP WITH TIME ZONE,
+	"created_by" INTEGER,
+	"closed_by" INTEGER,
+	"created_at" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+	"closed_at" TIMESTAMP WITH TIME ZONE
+);
+
+-- Tabel access_review_items untuk snapshot assignment dan keputusan reviewer
+CREATE TABLE IF NOT EXISTS "access_review_items" (
+	"id" SERIAL PRIMARY KEY NOT NULL,
+	"campaign_id" INTEGER NOT NULL,
+	"user_id" INTEGER NOT NULL,
+	"role_id" INTEGER NOT NULL,
+	"valid_until" TIMESTAMP WITH TIME ZONE,
+	"reviewer_id" INTEGER,
+	"decision" VARCHAR(20) DEFAULT 'pending' NOT NULL,
+	"decision_note" TEXT,
+	"decided_at" TIMESTAMP WITH TIME ZONE,
+	"applied_at" TIMESTAMP WITH TIME ZONE,
+	"created_at" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Tambahkan foreign key constraints
+DO $$ BEGIN
+ ALTER TABLE "access_review_campaigns" ADD CONSTRAINT "access_review_campaigns_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE SET NULL;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "access_review_campaigns" ADD CONSTRAINT "access_review_campaigns_closed_by_users_id_fk" FOREIGN KEY ("closed_by") REFERENCES "users"("id") ON DELETE SET NULL;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "access_review_items" ADD CONSTRAINT "access_review_items_campaign_id_access_review_campaigns_id_fk" FOREIGN KEY ("campaign_id") REFERENCES "access_review_campaigns"("id") ON DELETE CASCADE;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "access_review_items" ADD CONSTRAINT "access_review_items_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "access_review_items" ADD CONSTRAINT "access_review_items_role_id_roles_id_fk" FOREIGN KEY ("role_id") REFERENCES "roles"("id") ON DELETE CASCADE;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "access_review_items" ADD CONSTRAINT "access_review_items_reviewer_id_users_id_fk" FOREIGN KEY ("reviewer_id") REFERENCES "users"("id") ON DELETE SET NULL;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE "access_review_campaigns" ADD CONSTRAINT "access_review_campaigns_scope_type_check"
+  CHECK ("scope_type" IN ('role', 'department', 'region'));
+
+ALTER TABLE "access_review_campaigns" ADD CONSTRAINT "access_review_campaigns_status_check"
+  CHECK ("status" IN ('open', 'closed'));
+
+ALTER TABLE "access_review_items" ADD CONSTRAINT "access_review_items_decision_check"
+  CHECK ("decision" IN ('pending', 'keep', 'revoke'));
+
+-- Satu item per user+role dalam sebuah campaign
+CREATE UNIQUE INDEX IF NOT EXISTS "access_review_items_campaign_user_role_unique" ON "access_review_items" ("campaign_id", "user_id", "role_id");
+
+-- Tambahkan index untuk antrian reviewer dan daftar campaign
+CREATE INDEX IF NOT EXISTS "idx_access_review_items_reviewer_decision" ON "access_review_items" ("reviewer_id", "decision");
+CREATE INDEX IF NOT EXISTS "idx_access_review_campaigns_status" ON "access_review_campaigns" ("status");
+
+-- Tambahkan comment untuk dokumentasi
+COMMENT ON TABLE "access_review_campaigns" IS 'Campaign recertification role assignment untuk scope role, department, atau region';
+COMMENT ON TABLE "access_review_items" IS 'Snapshot user_roles per campaign beserta keputusan keep/revoke reviewer';
+COMMENT ON COLUMN "access_review_items"."applied_at" IS 'Waktu keputusan revoke diterapkan ke user_roles saat campaign ditutup';
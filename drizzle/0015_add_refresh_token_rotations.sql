@@ -0,0 +1,31 @@
+-- Migration: Add refresh token rotations
+-- Date: 2025-09-28
+-- Description: Menyimpan hash refresh token yang sudah dirotasi agar reuse token lama
+-- dapat dideteksi dan seluruh token family (session) dicabut
+
+-- Tabel refresh_token_rotations untuk jejak rotasi refresh token
+CREATE TABLE IF NOT EXISTS "refresh_token_rotations" (
+	"id" SERIAL PRIMARY KEY NOT NULL,
+	"session_id" INTEGER NOT NULL,
+	"user_id" INTEGER NOT NULL,
+	"token_hash" VARCHAR(64) NOT NULL,
+	"expires_at" TIMESTAMP WITH TIME ZONE NOT NULL,
+	"rotated_at" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+	CONSTRAINT "refresh_token_rotations_token_hash_unique" UNIQUE("token_hash")
+);
+
+-- Tambahkan foreign key constraints
+DO $$ BEGIN
+ ALTER TABLE "refresh_token_rotations" ADD CONSTRAINT "refresh_token_rotations_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+-- Index untuk mencabut token family dan membersihkan jejak rotasi yang expired
+CREATE INDEX IF NOT EXISTS "idx_refresh_token_rotations_session_id" ON "refresh_token_rotations" ("session_id");
+CREATE INDEX IF NOT EXISTS "idx_refresh_token_rotations_expires_at" ON "refresh_token_rotations" ("expires_at");
+
+-- Komentar untuk dokumentasi
+COMMENT ON TABLE "refresh_token_rotations" IS 'Refresh token yang sudah dirotasi, dipakai untuk deteksi reuse';
+COMMENT ON COLUMN "refresh_token_rotations"."session_id" IS 'Session asal (token family) dari refresh token';
+COMMENT ON COLUMN "refresh_token_rotations"."token_hash" IS 'SHA-256 hex dari refresh token yang sudah tidak berlaku';
@@ -0,0 +1,24 @@
+-- Migration: Add rate limit buckets
+-- Date: 2025-09-29
+-- Description: Menyimpan counter sliding window rate limit agar persisten antar restart
+-- dan dapat dibagi antar instance aplikasi
+
+-- Tabel rate_limit_buckets untuk counter per key dan fixed window
+CREATE TABLE IF NOT EXISTS "rate_limit_buckets" (
+	"id" SERIAL PRIMARY KEY NOT NULL,
+	"key" VARCHAR(255) NOT NULL,
+	"window_start" TIMESTAMP WITH TIME ZONE NOT NULL,
+	"count" INTEGER DEFAULT 0 NOT NULL,
+	"expires_at" TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Satu counter per key dan window (dipakai untuk upsert increment)
+CREATE UNIQUE INDEX IF NOT EXISTS "rate_limit_buckets_key_window_unique" ON "rate_limit_buckets" ("key", "window_start");
+
+-- Index untuk membersihkan bucket yang sudah expired
+CREATE INDEX IF NOT EXISTS "idx_rate_limit_buckets_expires_at" ON "rate_limit_buckets" ("expires_at");
+
+-- Komentar untuk dokumentasi
+COMMENT ON TABLE "rate_limit_buckets" IS 'Counter sliding window rate limit per key (IP, akun, atau route)';
+COMMENT ON COLUMN "rate_limit_buckets"."window_start" IS 'Awal fixed window; estimasi sliding window memakai window saat ini dan sebelumnya';
+COMMENT ON COLUMN "rate_limit_buckets"."expires_at" IS 'Bucket tidak lagi dibutuhkan setelah waktu ini';
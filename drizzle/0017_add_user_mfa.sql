@@ -0,0 +1,51 @@
+-- Migration: Add TOTP multi-factor authentication
+-- Date: 2025-09-30
+-- Description: Menyimpan enrollment TOTP dan recovery code per user,
+-- serta menambahkan setting "MFA required" per role
+
+-- Tabel user_mfa untuk secret TOTP (terenkripsi) per user
+CREATE TABLE IF NOT EXISTS "user_mfa" (
+	"id" SERIAL PRIMARY KEY NOT NULL,
+	"user_id" INTEGER NOT NULL,
+	"secret_encrypted" TEXT NOT NULL,
+	"enabled_at" TIMESTAMP WITH TIME ZONE,
+	"last_used_step" INTEGER,
+	"created_at" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+	CONSTRAINT "user_mfa_user_id_unique" UNIQUE("user_id")
+);
+
+-- Tabel mfa_recovery_codes untuk recovery code sekali pakai
+CREATE TABLE IF NOT EXISTS "mfa_recovery_codes" (
+	"id" SERIAL PRIMARY KEY NOT NULL,
+	"user_id" INTEGER NOT NULL,
+	"code_hash" VARCHAR(64) NOT NULL,
+	"used_at" TIMESTAMP WITH TIME ZONE,
+	"created_at" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Setting MFA wajib per role
+ALTER TABLE "roles" ADD COLUMN IF NOT EXISTS "mfa_required" BOOLEAN DEFAULT false NOT NULL;
+
+-- Tambahkan foreign key constraints
+DO $$ BEGIN
+ ALTER TABLE "user_mfa" ADD CONSTRAINT "user_mfa_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "mfa_recovery_codes" ADD CONSTRAINT "mfa_recovery_codes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+-- Index untuk lookup recovery code milik user
+CREATE INDEX IF NOT EXISTS "idx_mfa_recovery_codes_user_id" ON "mfa_recovery_codes" ("user_id");
+
+-- Komentar untuk dokumentasi
+COMMENT ON TABLE "user_mfa" IS 'Enrollment TOTP (RFC 6238) per user';
+COMMENT ON COLUMN "user_mfa"."secret_encrypted" IS 'Secret TOTP terenkripsi AES-256-GCM (iv:authTag:ciphertext)';
+COMMENT ON COLUMN "user_mfa"."enabled_at" IS 'Waktu enrollment dikonfirmasi; NULL berarti enrollment belum selesai';
+COMMENT ON COLUMN "user_mfa"."last_used_step" IS 'Time step TOTP terakhir yang diterima, untuk mencegah replay kode';
+COMMENT ON TABLE "mfa_recovery_codes" IS 'Recovery code MFA sekali pakai (hanya hash yang disimpan)';
+COMMENT ON COLUMN "roles"."mfa_required" IS 'User dengan role ini wajib login memakai MFA';
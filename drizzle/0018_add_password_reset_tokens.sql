@@ -0,0 +1,31 @@
+-- Migration: Add password reset tokens
+-- Date: 2025-10-01
+-- Description: Menyimpan token forgot/reset password sekali pakai yang di-hash dan memiliki masa berlaku
+
+-- Tabel password_reset_tokens
+CREATE TABLE IF NOT EXISTS "password_reset_tokens" (
+	"id" SERIAL PRIMARY KEY NOT NULL,
+	"user_id" INTEGER NOT NULL,
+	"token_hash" VARCHAR(64) NOT NULL,
+	"expires_at" TIMESTAMP WITH TIME ZONE NOT NULL,
+	"used_at" TIMESTAMP WITH TIME ZONE,
+	"requested_ip" VARCHAR(45),
+	"created_at" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+	CONSTRAINT "password_reset_tokens_token_hash_unique" UNIQUE("token_hash")
+);
+
+-- Tambahkan foreign key constraint
+DO $$ BEGIN
+ ALTER TABLE "password_reset_tokens" ADD CONSTRAINT "password_reset_tokens_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+-- Index untuk invalidasi token milik user dan cleanup token expired
+CREATE INDEX IF NOT EXISTS "idx_password_reset_tokens_user_id" ON "password_reset_tokens" ("user_id");
+CREATE INDEX IF NOT EXISTS "idx_password_reset_tokens_expires_at" ON "password_reset_tokens" ("expires_at");
+
+-- Komentar untuk dokumentasi
+COMMENT ON TABLE "password_reset_tokens" IS 'Token reset password sekali pakai (hanya hash yang disimpan)';
+COMMENT ON COLUMN "password_reset_tokens"."token_hash" IS 'SHA-256 hex dari token yang dikirim lewat email';
+COMMENT ON COLUMN "password_reset_tokens"."used_at" IS 'Waktu token dipakai atau diinvalidasi; NULL berarti belum dipakai';
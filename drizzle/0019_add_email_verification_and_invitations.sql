@@ -0,0 +1,92 @@
+-- Migration: Add email verification and user invitations
+-- Date: 2025-10-02
+-- Description: Verifikasi email untuk self-registration dan onboarding user lewat undangan email
+--              dengan role dan ABAC attributes yang ditentukan admin
+
+-- Kolom email_verified_at pada users
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "email_verified_at" TIMESTAMP WITH TIME ZONE;
+
+-- User yang sudah ada dianggap terverifikasi agar tetap dapat login
+UPDATE "users" SET "email_verified_at" = "created_at" WHERE "email_verified_at" IS NULL;
+
+-- Tabel email_verification_tokens
+CREATE TABLE IF NOT EXISTS "email_verification_tokens" (
+	"id" SERIAL PRIMARY KEY NOT NULL,
+	"user_id" INTEGER NOT NULL,
+	"token_hash" VARCHAR(64) NOT NULL,
+	"expires_at" TIMESTAMP WITH TIME ZONE NOT NULL,
+	"used_at" TIMESTAMP WITH TIME ZONE,
+	"created_at" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+	CONSTRAINT "email_verification_tokens_token_hash_unique" UNIQUE("token_hash")
+);
+
+-- Tabel user_invitations
+CREATE TABLE IF NOT EXISTS "user_invitations" (
+	"id" SERIAL PRIMARY KEY NOT NULL,
+	"email" VARCHAR(255) NOT NULL,
+	"name" VARCHAR(100),
+	"token_hash" VARCHAR(64) NOT NULL,
+	"department" VARCHAR(100),
+	"region" VARCHAR(100),
+	"level" INTEGER,
+	"custom_attributes" TEXT,
+	"invited_by" INTEGER,
+	"expires_at" TIMESTAMP WITH TIME ZONE NOT NULL,
+	"accepted_at" TIMESTAMP WITH TIME ZONE,
+	"accepted_user_id" INTEGER,
+	"revoked_at" TIMESTAMP WITH TIME ZONE,
+	"created_at" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+	"updated_at" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+	CONSTRAINT "user_invitations_token_hash_unique" UNIQUE("token_hash")
+);
+
+-- Tabel user_invitation_roles
+CREATE TABLE IF NOT EXISTS "user_invitation_roles" (
+	"id" SERIAL PRIMARY KEY NOT NULL,
+	"invitation_id" INTEGER NOT NULL,
+	"role_id" INTEGER NOT NULL
+);
+
+-- Tambahkan foreign key constraints
+DO $$ BEGIN
+ ALTER TABLE "email_verification_tokens" ADD CONSTRAINT "email_verification_tokens_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "user_invitations" ADD CONSTRAINT "user_invitations_invited_by_users_id_fk" FOREIGN KEY ("invited_by") REFERENCES "users"("id") ON DELETE SET NULL;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "user_invitations" ADD CONSTRAINT "user_invitations_accepted_user_id_users_id_fk" FOREIGN KEY ("accepted_user_id") REFERENCES "users"("id") ON DELETE SET NULL;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "user_invitation_roles" ADD CONSTRAINT "user_invitation_roles_invitation_id_user_invitations_id_fk" FOREIGN KEY ("invitation_id") REFERENCES "user_invitations"("id") ON DELETE CASCADE;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "user_invitation_roles" ADD CONSTRAINT "user_invitation_roles_role_id_roles_id_fk" FOREIGN KEY ("role_id") REFERENCES "roles"("id") ON DELETE CASCADE;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+-- Index untuk lookup token, daftar undangan, dan cleanup
+CREATE INDEX IF NOT EXISTS "idx_email_verification_tokens_user_id" ON "email_verification_tokens" ("user_id");
+CREATE INDEX IF NOT EXISTS "idx_user_invitations_email" ON "user_invitations" ("email");
+CREATE INDEX IF NOT EXISTS "idx_user_invitations_created_at" ON "user_invitations" ("created_at");
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_user_invitation_roles_unique" ON "user_invitation_roles" ("invitation_id", "role_id");
+
+-- Komentar untuk dokumentasi
+COMMENT ON COLUMN "users"."email_verified_at" IS 'Waktu email diverifikasi; NULL berarti belum diverifikasi';
+COMMENT ON TABLE "email_verification_tokens" IS 'Token verifikasi email sekali pakai (hanya hash yang disimpan)';
+COMMENT ON TABLE "user_invitations" IS 'Undangan user lewat email dengan role dan ABAC attributes yang ditentukan admin';
+COMMENT ON COLUMN "user_invitations"."custom_attributes" IS 'JSON custom ABAC attributes yang diterapkan saat undangan diterima';
+COMMENT ON TABLE "user_invitation_roles" IS 'Role yang di-assign ke user saat undangan diterima';
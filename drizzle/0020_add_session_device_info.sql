@@ -0,0 +1,21 @@
+-- Migration: Add device info to sessions
+-- Date: 2025-10-03
+-- Description: Menyimpan IP, user agent, label device, dan waktu terakhir aktif per session
+--              agar user dapat melihat dan sign-out session per device, dan admin dapat revoke session
+
+ALTER TABLE "sessions" ADD COLUMN IF NOT EXISTS "ip_address" VARCHAR(45);
+ALTER TABLE "sessions" ADD COLUMN IF NOT EXISTS "user_agent" TEXT;
+ALTER TABLE "sessions" ADD COLUMN IF NOT EXISTS "device_label" VARCHAR(100);
+ALTER TABLE "sessions" ADD COLUMN IF NOT EXISTS "last_seen_at" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL;
+ALTER TABLE "sessions" ADD COLUMN IF NOT EXISTS "revoked_at" TIMESTAMP WITH TIME ZONE;
+
+-- Session lama belum pernah terlihat setelah dibuat
+UPDATE "sessions" SET "last_seen_at" = "created_at";
+
+-- Index untuk daftar session per user
+CREATE INDEX IF NOT EXISTS "idx_sessions_user_id" ON "sessions" ("user_id");
+
+-- Komentar untuk dokumentasi
+COMMENT ON COLUMN "sessions"."device_label" IS 'Label device hasil parsing user agent (contoh: Chrome 120 on Windows)';
+COMMENT ON COLUMN "sessions"."last_seen_at" IS 'Waktu terakhir session dipakai (login atau refresh token)';
+COMMENT ON COLUMN "sessions"."revoked_at" IS 'Waktu session dicabut; NULL berarti belum dicabut';
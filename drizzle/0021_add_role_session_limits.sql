@@ -0,0 +1,26 @@
+-- Migration: Add concurrent session limit per role
+-- Date: 2025-10-04
+-- Description: Batas session aktif bersamaan per role beserta aksinya (tolak login baru atau
+--              keluarkan session terlama), dan alasan revoke session untuk session logs
+
+ALTER TABLE "roles" ADD COLUMN IF NOT EXISTS "max_concurrent_sessions" INTEGER;
+ALTER TABLE "roles" ADD COLUMN IF NOT EXISTS "session_limit_action" VARCHAR(20) DEFAULT 'evict_oldest' NOT NULL;
+
+DO $$ BEGIN
+ ALTER TABLE "roles" ADD CONSTRAINT "roles_max_concurrent_sessions_check" CHECK ("max_concurrent_sessions" IS NULL OR "max_concurrent_sessions" > 0);
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "roles" ADD CONSTRAINT "roles_session_limit_action_check" CHECK ("session_limit_action" IN ('reject', 'evict_oldest'));
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE "sessions" ADD COLUMN IF NOT EXISTS "revoked_reason" VARCHAR(255);
+
+-- Komentar untuk dokumentasi
+COMMENT ON COLUMN "roles"."max_concurrent_sessions" IS 'Batas session aktif bersamaan per user dengan role ini; NULL memakai default aplikasi';
+COMMENT ON COLUMN "roles"."session_limit_action" IS 'Aksi saat batas tercapai: reject (tolak login baru) atau evict_oldest (keluarkan session terlama)';
+COMMENT ON COLUMN "sessions"."revoked_reason" IS 'Alasan session di-revoke, ditampilkan di session logs';
@@ -0,0 +1,78 @@
+-- Migration: Add service accounts and personal access tokens
+-- Date: 2025-10-05
+-- Description: Service account untuk automation dan personal access token ber-scope
+--              (hash at rest, expiry, last used) yang diaudit ke access_logs
+
+-- Penanda service account pada users
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "is_service_account" BOOLEAN DEFAULT false NOT NULL;
+
+-- Tabel personal_access_tokens (hanya hash token yang disimpan)
+CREATE TABLE IF NOT EXISTS "personal_access_tokens" (
+	"id" SERIAL PRIMARY KEY NOT NULL,
+	"user_id" INTEGER NOT NULL,
+	"name" VARCHAR(100) NOT NULL,
+	"token_prefix" VARCHAR(16) NOT NULL,
+	"token_hash" VARCHAR(64) NOT NULL,
+	"expires_at" TIMESTAMP WITH TIME ZONE NOT NULL,
+	"last_used_at" TIMESTAMP WITH TIME ZONE,
+	"last_used_ip" VARCHAR(45),
+	"created_by" INTEGER,
+	"revoked_at" TIMESTAMP WITH TIME ZONE,
+	"created_at" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+	CONSTRAINT "personal_access_tokens_token_hash_unique" UNIQUE("token_hash")
+);
+
+-- Tabel personal_access_token_scopes (subset feature/action yang boleh diakses token)
+CREATE TABLE IF NOT EXISTS "personal_access_token_scopes" (
+	"id" SERIAL PRIMARY KEY NOT NULL,
+	"token_id" INTEGER NOT NULL,
+	"feature_id" INTEGER NOT NULL,
+	"action" VARCHAR(50) NOT NULL
+);
+
+-- Token yang dipakai pada access log
+ALTER TABLE "access_logs" ADD COLUMN IF NOT EXISTS "access_token_id" INTEGER;
+
+-- Tambahkan foreign key constraints
+DO $$ BEGIN
+ ALTER TABLE "personal_access_tokens" ADD CONSTRAINT "personal_access_tokens_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "personal_access_tokens" ADD CONSTRAINT "personal_access_tokens_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE SET NULL;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "personal_access_token_scopes" ADD CONSTRAINT "personal_access_token_scopes_token_id_fk" FOREIGN KEY ("token_id") REFERENCES "personal_access_tokens"("id") ON DELETE CASCADE;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "personal_access_token_scopes" ADD CONSTRAINT "personal_access_token_scopes_feature_id_features_id_fk" FOREIGN KEY ("feature_id") REFERENCES "features"("id") ON DELETE CASCADE;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "access_logs" ADD CONSTRAINT "access_logs_access_token_id_fk" FOREIGN KEY ("access_token_id") REFERENCES "personal_access_tokens"("id") ON DELETE SET NULL;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+-- Index untuk daftar token per user dan scope per token
+CREATE INDEX IF NOT EXISTS "idx_personal_access_tokens_user_id" ON "personal_access_tokens" ("user_id");
+CREATE UNIQUE INDEX IF NOT EXISTS "personal_access_token_scopes_unique" ON "personal_access_token_scopes" ("token_id", "feature_id", "action");
+CREATE INDEX IF NOT EXISTS "idx_access_logs_access_token_id" ON "access_logs" ("access_token_id");
+
+-- Komentar untuk dokumentasi
+COMMENT ON COLUMN "users"."is_service_account" IS 'User non-manusia untuk automation; tidak bisa login dengan password';
+COMMENT ON TABLE "personal_access_tokens" IS 'Personal access token untuk automation (hanya hash yang disimpan)';
+COMMENT ON COLUMN "personal_access_tokens"."token_prefix" IS 'Awal token plaintext untuk identifikasi token di UI';
+COMMENT ON COLUMN "personal_access_tokens"."token_hash" IS 'SHA-256 hex dari token';
+COMMENT ON TABLE "personal_access_token_scopes" IS 'Feature/action yang boleh diakses personal access token';
+COMMENT ON COLUMN "access_logs"."access_token_id" IS 'Personal access token yang dipakai request (NULL untuk login biasa)';
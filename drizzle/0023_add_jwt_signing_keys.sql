@@ -0,0 +1,27 @@
+-- Migration: Add JWT signing keys
+-- Date: 2025-10-06
+-- Description: Key pair asimetris (RS256/ES256) penandatangan access token dengan kid,
+--              rotasi terjadwal, dan overlap window untuk key yang sudah dirotasi
+
+-- Tabel jwt_signing_keys (private key disimpan terenkripsi)
+CREATE TABLE IF NOT EXISTS "jwt_signing_keys" (
+	"id" SERIAL PRIMARY KEY NOT NULL,
+	"kid" VARCHAR(64) NOT NULL,
+	"algorithm" VARCHAR(10) NOT NULL,
+	"public_key" TEXT NOT NULL,
+	"private_key" TEXT NOT NULL,
+	"retired_at" TIMESTAMP WITH TIME ZONE,
+	"expires_at" TIMESTAMP WITH TIME ZONE,
+	"created_at" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+	CONSTRAINT "jwt_signing_keys_kid_unique" UNIQUE("kid")
+);
+
+-- Index untuk memuat key yang masih dapat dipakai verifikasi
+CREATE INDEX IF NOT EXISTS "idx_jwt_signing_keys_expires_at" ON "jwt_signing_keys" ("expires_at");
+
+-- Komentar untuk dokumentasi
+COMMENT ON TABLE "jwt_signing_keys" IS 'Key pair penandatangan access token; public key dipublikasikan di /.well-known/jwks.json';
+COMMENT ON COLUMN "jwt_signing_keys"."kid" IS 'Key ID di header JWT dan JWKS';
+COMMENT ON COLUMN "jwt_signing_keys"."private_key" IS 'PEM PKCS#8 terenkripsi AES-256-GCM (iv:authTag:ciphertext)';
+COMMENT ON COLUMN "jwt_signing_keys"."retired_at" IS 'Waktu key berhenti menandatangani token baru (NULL untuk key aktif)';
+COMMENT ON COLUMN "jwt_signing_keys"."expires_at" IS 'Akhir overlap window; setelahnya token dengan kid ini ditolak';
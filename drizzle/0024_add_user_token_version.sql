@@ -0,0 +1,9 @@
+-- Migration: Add user token version
+-- Date: 2025-10-07
+-- Description: Versi token per user untuk mencabut access token secara langsung
+--              saat role berubah, user dinonaktifkan, ganti password, atau force sign-out
+
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "token_version" INTEGER DEFAULT 0 NOT NULL;
+
+-- Komentar untuk dokumentasi
+COMMENT ON COLUMN "users"."token_version" IS 'Dibandingkan dengan claim ver access token; dinaikkan untuk mencabut semua access token user';
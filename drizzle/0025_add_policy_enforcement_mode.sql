@@ -0,0 +1,13 @@
+-- Migration: Add policy enforcement mode
+-- Date: 2025-10-08
+-- Description: Mode enforcement per root policy ABAC (enforce, audit, disabled)
+--              dan penanda shadow pada policy_violations untuk policy yang masih diuji
+
+ALTER TABLE "policies" ADD COLUMN IF NOT EXISTS "enforcement_mode" VARCHAR(10) DEFAULT 'enforce' NOT NULL;
+ALTER TABLE "policy_violations" ADD COLUMN IF NOT EXISTS "shadow" BOOLEAN DEFAULT false NOT NULL;
+
+CREATE INDEX IF NOT EXISTS "idx_policy_violations_shadow_policy" ON "policy_violations" ("shadow", "policy_id", "created_at");
+
+-- Komentar untuk dokumentasi
+COMMENT ON COLUMN "policies"."enforcement_mode" IS 'enforce memblokir akses, audit hanya mencatat shadow violation, disabled tidak dievaluasi';
+COMMENT ON COLUMN "policy_violations"."shadow" IS 'true jika penolakan berasal dari policy mode audit (akses tidak diblokir)';
@@ -0,0 +1,52 @@
+-- Migration: Add policy and role-feature versions
+-- Date: 2025-10-09
+-- Description: Snapshot immutable setiap perubahan root policy ABAC dan permission role-feature
+--              beserta author, waktu, dan komentar sebagai dasar history dan rollback
+
+-- Tabel policy_versions (tanpa foreign key ke policies agar riwayat bertahan setelah policy dihapus)
+CREATE TABLE IF NOT EXISTS "policy_versions" (
+	"id" SERIAL PRIMARY KEY NOT NULL,
+	"policy_id" INTEGER NOT NULL,
+	"feature_id" INTEGER NOT NULL,
+	"version" INTEGER NOT NULL,
+	"expression" TEXT,
+	"enforcement_mode" VARCHAR(10),
+	"action" VARCHAR(20) NOT NULL,
+	"comment" TEXT,
+	"author_id" INTEGER,
+	"created_at" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+	CONSTRAINT "policy_versions_policy_version_unique" UNIQUE("policy_id", "version")
+);
+
+-- Tabel role_feature_versions (tanpa foreign key ke roles/features agar riwayat bertahan setelah dihapus)
+CREATE TABLE IF NOT EXISTS "role_feature_versions" (
+	"id" SERIAL PRIMARY KEY NOT NULL,
+	"role_id" INTEGER NOT NULL,
+	"feature_id" INTEGER NOT NULL,
+	"version" INTEGER NOT NULL,
+	"permissions" TEXT,
+	"action" VARCHAR(20) NOT NULL,
+	"comment" TEXT,
+	"author_id" INTEGER,
+	"created_at" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+	CONSTRAINT "role_feature_versions_role_feature_version_unique" UNIQUE("role_id", "feature_id", "version")
+);
+
+-- Tambahkan foreign key constraints
+DO $$ BEGIN
+ ALTER TABLE "policy_versions" ADD CONSTRAINT "policy_versions_author_id_users_id_fk" FOREIGN KEY ("author_id") REFERENCES "users"("id") ON DELETE SET NULL;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "role_feature_versions" ADD CONSTRAINT "role_feature_versions_author_id_users_id_fk" FOREIGN KEY ("author_id") REFERENCES "users"("id") ON DELETE SET NULL;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+-- Komentar untuk dokumentasi
+COMMENT ON TABLE "policy_versions" IS 'Snapshot immutable root policy ABAC per perubahan (create, update, delete, rollback)';
+COMMENT ON COLUMN "policy_versions"."expression" IS 'JSON expression tree policy; NULL jika versi berupa penghapusan';
+COMMENT ON TABLE "role_feature_versions" IS 'Snapshot immutable permission role-feature per perubahan';
+COMMENT ON COLUMN "role_feature_versions"."permissions" IS 'JSON { allow: string[], deny: string[] } berisi action CRUD dan custom; NULL jika permission dihapus';
@@ -0,0 +1,56 @@
+-- Migration: Add separation-of-duties constraints
+-- Date: 2025-10-10
+-- Description: Aturan separation-of-duties statis berupa set role yang saling eksklusif
+--              dengan batas maksimal role dari set yang boleh dipegang satu user
+
+-- Tabel sod_constraints untuk aturan separation-of-duties
+CREATE TABLE IF NOT EXISTS "sod_constraints" (
+	"id" SERIAL PRIMARY KEY NOT NULL,
+	"name" VARCHAR(100) NOT NULL,
+	"description" TEXT,
+	"max_roles" INTEGER DEFAULT 1 NOT NULL,
+	"created_by" INTEGER,
+	"created_at" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+	"updated_at" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+	CONSTRAINT "sod_constraints_name_unique" UNIQUE("name")
+);
+
+-- Tabel sod_constraint_roles untuk set role dalam constraint
+CREATE TABLE IF NOT EXISTS "sod_constraint_roles" (
+	"id" SERIAL PRIMARY KEY NOT NULL,
+	"constraint_id" INTEGER NOT NULL,
+	"role_id" INTEGER NOT NULL
+);
+
+-- Tambahkan foreign key constraints
+DO $$ BEGIN
+ ALTER TABLE "sod_constraints" ADD CONSTRAINT "sod_constraints_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE SET NULL;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "sod_constraint_roles" ADD CONSTRAINT "sod_constraint_roles_constraint_id_sod_constraints_id_fk" FOREIGN KEY ("constraint_id") REFERENCES "sod_constraints"("id") ON DELETE CASCADE;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "sod_constraint_roles" ADD CONSTRAINT "sod_constraint_roles_role_id_roles_id_fk" FOREIGN KEY ("role_id") REFERENCES "roles"("id") ON DELETE CASCADE;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE "sod_constraints" ADD CONSTRAINT "sod_constraints_max_roles_check"
+  CHECK ("max_roles" >= 1);
+
+-- Satu role hanya sekali dalam sebuah constraint
+CREATE UNIQUE INDEX IF NOT EXISTS "sod_constraint_roles_constraint_role_unique" ON "sod_constraint_roles" ("constraint_id", "role_id");
+
+-- Tambahkan index untuk pencarian constraint berdasarkan role saat assign role
+CREATE INDEX IF NOT EXISTS "idx_sod_constraint_roles_role_id" ON "sod_constraint_roles" ("role_id");
+
+-- Tambahkan comment untuk dokumentasi
+COMMENT ON TABLE "sod_constraints" IS 'Aturan separation-of-duties statis: set role yang saling eksklusif';
+COMMENT ON COLUMN "sod_constraints"."max_roles" IS 'Jumlah maksimal role dari set yang boleh dipegang satu user (1 = saling eksklusif)';
+COMMENT ON TABLE "sod_constraint_roles" IS 'Role anggota set constraint separation-of-duties';
@@ -0,0 +1,24 @@
+-- Migration: Add access review item assignment
+-- Date: 2025-10-11
+-- Description: Simpan ID role assignment yang di-snapshot item access review sehingga revoke
+--              tidak mencabut assignment yang diberikan ulang setelah snapshot
+
+ALTER TABLE "access_review_items" ADD COLUMN IF NOT EXISTS "user_role_id" INTEGER;
+
+DO $$ BEGIN
+ ALTER TABLE "access_review_items" ADD CONSTRAINT "access_review_items_user_role_id_user_roles_id_fk" FOREIGN KEY ("user_role_id") REFERENCES "user_roles"("id") ON DELETE SET NULL;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+-- Item yang belum diterapkan diisi dengan assignment user-role saat ini
+UPDATE "access_review_items" AS "item"
+SET "user_role_id" = "user_roles"."id"
+FROM "user_roles"
+WHERE "item"."user_role_id" IS NULL
+  AND "item"."applied_at" IS NULL
+  AND "user_roles"."user_id" = "item"."user_id"
+  AND "user_roles"."role_id" = "item"."role_id";
+
+-- Komentar untuk dokumentasi
+COMMENT ON COLUMN "access_review_items"."user_role_id" IS 'Role assignment yang di-snapshot; hanya assignment ini yang dicabut oleh keputusan revoke';
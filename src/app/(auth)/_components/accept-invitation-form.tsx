@@ -0,0 +1,248 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { cn } from "@/lib/utils"
+import { Button } from "@/components/shadcn/ui/button"
+import { Card, CardContent } from "@/components/shadcn/ui/card"
+import { Input } from "@/components/shadcn/ui/input"
+import { Label } from "@/components/shadcn/ui/label"
+import { Alert, AlertDescription } from "@/components/shadcn/ui/alert"
+import { publicApi } from "@/lib/apiClient"
+import { useAuthForm, useAuthValidation, authValidationRules } from '../_hook'
+
+/**
+ * Interface untuk data form penerimaan undangan
+ */
+interface AcceptInvitationFormData {
+  name: string
+  password: string
+  confirmPassword: string
+}
+
+/**
+ * Ringkasan undangan dari /auth/accept-invitation
+ */
+interface InvitationPreview {
+  email: string
+  name: string | null
+  roles: string[]
+  expiresAt: string
+}
+
+/**
+ * Komponen form penerimaan undangan user
+ * Invitee menentukan nama dan password sendiri; role dan attributes sudah ditetapkan admin
+ */
+export function AcceptInvitationForm({
+  className,
+  ...props
+}: React.ComponentProps<"div">) {
+  const router = useRouter()
+  // Token undangan dari link email (?token=...)
+  const token = useSearchParams().get('token') ?? ''
+  const [invitation, setInvitation] = useState<InvitationPreview | null>(null)
+  const [invitationError, setInvitationError] = useState<string | null>(
+    token ? null : 'Link undangan tidak valid. Minta admin mengirim ulang undangan.'
+  )
+
+  // State untuk form data
+  const [formData, setFormData] = useState<AcceptInvitationFormData>({
+    name: '',
+    password: '',
+    confirmPassword: ''
+  })
+
+  // Custom hooks untuk mengelola form state dan lifecycle
+  const { isLoading, error, success, handleSubmit } = useAuthForm()
+  
+  // Custom hook untuk validasi form dengan toast notifications
+  const { 
+    validateFormWithToast, 
+    handleFieldChange, 
+    errors, 
+    touched, 
+    showSuccessToast 
+  } = useAuthValidation({
+    name: authValidationRules.name,
+    password: authValidationRules.password,
+    confirmPassword: authValidationRules.confirmPassword
+  })
+
+  // Ambil ringkasan undangan sekali saat halaman dibuka
+  useEffect(() => {
+    if (!token) {
+      return
+    }
+
+    publicApi.get<{ invitation: InvitationPreview }>(`/auth/accept-invitation?token=${encodeURIComponent(token)}`)
+      .then((response) => {
+        const preview = response.data?.invitation ?? null
+        setInvitation(preview)
+        if (preview?.name) {
+          setFormData(prev => ({ ...prev, name: preview.name ?? '' }))
+        }
+      })
+      .catch((err: unknown) => {
+        setInvitationError(err instanceof Error ? err.message : 'Link undangan tidak valid atau sudah kedaluwarsa')
+      })
+  }, [token])
+
+  /**
+   * Handler untuk perubahan input field
+   * @param field - Nama field yang berubah
+   * @param value - Nilai baru field
+   */
+  const handleInputChange = (field: keyof AcceptInvitationFormData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }))
+    handleFieldChange(field, value)
+  }
+
+  /**
+   * Handler untuk submit form penerimaan undangan
+   * @param e - Form submit event
+   */
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    
+    // Validasi form sebelum submit dengan toast notification
+    const validation = validateFormWithToast({
+      name: formData.name,
+      password: formData.password,
+      confirmPassword: formData.confirmPassword
+    })
+    if (!validation.isValid) {
+      return
+    }
+
+    await handleSubmit(async () => {
+      await publicApi.post('/auth/accept-invitation', {
+        token,
+        name: formData.name,
+        password: formData.password
+      })
+      
+      // Tampilkan success toast lalu arahkan ke halaman login
+      showSuccessToast('Akun berhasil dibuat! Silakan login.')
+      router.push('/login')
+    })
+  }
+
+  return (
+    <div className={cn("flex flex-col gap-6", className)} {...props}>
+      <Card className="overflow-hidden p-0">
+        <CardContent className="grid p-0">
+          <form className="p-6 md:p-8" onSubmit={onSubmit}>
+            <div className="flex flex-col gap-6">
+              <div className="flex flex-col items-center text-center">
+                <h1 className="text-2xl font-bold">Terima Undangan</h1>
+                <p className="text-muted-foreground text-balance">
+                  {invitation
+                    ? `Buat akun untuk ${invitation.email}`
+                    : 'Buat akun Anda dari undangan admin'}
+                </p>
+                {invitation && invitation.roles.length > 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    Role: {invitation.roles.join(', ')}
+                  </p>
+                )}
+              </div>
+
+              {/* Error Alert */}
+              {(invitationError || error) && (
+                <Alert variant="destructive">
+                  <AlertDescription>{invitationError || error}</AlertDescription>
+                </Alert>
+              )}
+
+              {/* Success Alert */}
+              {success && (
+                <Alert>
+                  <AlertDescription>{success}</AlertDescription>
+                </Alert>
+              )}
+
+              <div className="grid gap-3">
+                <Label htmlFor="name">Nama</Label>
+                <Input
+                  id="name"
+                  type="text"
+                  placeholder="Nama lengkap"
+                  value={formData.name}
+                  onChange={(e) => handleInputChange('name', e.target.value)}
+                  className={cn(
+                    errors.name && touched.name && "border-destructive"
+                  )}
+                  disabled={!invitation}
+                  required
+                />
+                {errors.name && touched.name && (
+                  <p className="text-sm text-destructive">{errors.name}</p>
+                )}
+              </div>
+
+              <div className="grid gap-3">
+                <Label htmlFor="password">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  placeholder="Masukkan password"
+                  value={formData.password}
+                  onChange={(e) => handleInputChange('password', e.target.value)}
+                  className={cn(
+                    errors.password && touched.password && "border-destructive"
+                  )}
+                  disabled={!invitation}
+                  required
+                />
+                {errors.password && touched.password && (
+                  <p className="text-sm text-destructive">{errors.password}</p>
+                )}
+              </div>
+              
+              <div className="grid gap-3">
+                <Label htmlFor="confirmPassword">Konfirmasi Password</Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  placeholder="Konfirmasi password"
+                  value={formData.confirmPassword}
+                  onChange={(e) => handleInputChange('confirmPassword', e.target.value)}
+                  className={cn(
+                    errors.confirmPassword && touched.confirmPassword && "border-destructive"
+                  )}
+                  disabled={!invitation}
+                  required
+                />
+                {errors.confirmPassword && touched.confirmPassword && (
+                  <p className="text-sm text-destructive">{errors.confirmPassword}</p>
+                )}
+              </div>
+              
+              <Button 
+                type="submit" 
+                className="w-full"
+                disabled={isLoading || !invitation}
+              >
+                {isLoading ? 'Membuat akun...' : 'Buat Akun'}
+              </Button>
+              
+              <div className="text-center text-sm">
+                <span className="text-muted-foreground">Sudah punya akun? </span>
+                <a
+                  href="/login"
+                  className="underline underline-offset-2 hover:text-primary"
+                >
+                  Login
+                </a>
+              </div>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+// Export default untuk kompatibilitas import
+export default AcceptInvitationForm
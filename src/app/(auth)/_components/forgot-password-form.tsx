@@ -7,6 +7,7 @@ import { Card, CardContent } from "@/components/shadcn/ui/card"
 import { Input } from "@/components/shadcn/ui/input"
 import { Label } from "@/components/shadcn/ui/label"
 import { Alert, AlertDescription } from "@/components/shadcn/ui/alert"
+import { publicApi } from "@/lib/apiClient"
 import { useAuthForm, useAuthValidation, authValidationRules } from '../_hook'
 
 /**
@@ -69,12 +70,11 @@ export function ForgotPasswordForm({
     }
 
     await handleSubmit(async () => {
-      // Simulasi API call untuk forgot password
-      // TODO: Implement actual forgot password API call
-      await new Promise(resolve => setTimeout(resolve, 2000))
+      // Server selalu merespons sukses agar keberadaan akun tidak bocor
+      await publicApi.post('/auth/forgot-password', { email: formData.email })
       
       // Tampilkan success toast
-      showSuccessToast('Link reset password telah dikirim ke email Anda!')
+      showSuccessToast('Jika email terdaftar, link reset password telah dikirim ke email Anda!')
     })
   }
   return (
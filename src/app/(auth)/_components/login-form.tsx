@@ -7,10 +7,11 @@ import { Card, CardContent } from "@/components/shadcn/ui/card"
 import { Input } from "@/components/shadcn/ui/input"
 import { Label } from "@/components/shadcn/ui/label"
 import { Alert, AlertDescription } from "@/components/shadcn/ui/alert"
-import { useAuth } from "@/contexts/AuthContext";
+import { useAuth, type MfaLoginChallenge } from "@/contexts/AuthContext";
 import { useAuthForm, useAuthValidation, useAuthRedirect, authValidationRules, type LoginFormData } from '../_hook'
 import { RateLimitNotification, isRateLimitError } from "@/components/ui/RateLimitNotification";
 import { InvalidLoginNotification, isInvalidLoginError } from "@/components/ui/InvalidLoginNotification";
+import { SessionLimitNotification, isSessionLimitError } from "@/components/ui/SessionLimitNotification";
 
 /**
  * Komponen LoginForm yang terintegrasi dengan custom hooks
@@ -27,8 +28,12 @@ export function LoginForm({
   })
 
   // Custom hooks untuk mengelola form state dan lifecycle
-  const { login, isLoading: authLoading } = useAuth()
-  const { isLoading, error, success, handleSubmit, setError, resetState } = useAuthForm()
+  const { login, verifyMfaLogin, isLoading: authLoading } = useAuth()
+  const { isLoading, error, success, handleSubmit, setLoading, setSuccess, setError, resetState } = useAuthForm()
+
+  // State untuk langkah kedua login (kode authenticator app atau recovery code)
+  const [mfaChallenge, setMfaChallenge] = useState<MfaLoginChallenge | null>(null)
+  const [mfaCode, setMfaCode] = useState('')
   
   // Custom hook untuk validasi form
   const { 
@@ -58,10 +63,20 @@ export function LoginForm({
 
   /**
     * Handler untuk submit form login
+    * Jika user mengaktifkan MFA, form berpindah ke langkah verifikasi kode
     * @param e - Form submit event
     */
    const onSubmit = async (e: React.FormEvent) => {
      e.preventDefault()
+
+     if (mfaChallenge) {
+       await handleSubmit(async () => {
+         await verifyMfaLogin(mfaChallenge.challengeToken, mfaCode.trim())
+         showSuccessToast('Login berhasil!')
+         redirectAfterLogin()
+       })
+       return
+     }
      
      // Validasi form sebelum submit dengan toast notification
      const validation = validateFormWithToast({
@@ -72,18 +87,36 @@ export function LoginForm({
        return
      }
 
-     await handleSubmit(async () => {
+     setLoading(true)
+     try {
        // Gunakan AuthContext untuk login yang akan menyimpan token ke localStorage
-       await login(formData.email, formData.password)
+       const challenge = await login(formData.email, formData.password)
+       if (challenge) {
+         resetState()
+         setMfaChallenge(challenge)
+         return
+       }
        
        // Tampilkan success toast
        showSuccessToast('Login berhasil!')
        
        // Redirect setelah login berhasil
        redirectAfterLogin()
-     })
+       setSuccess(true)
+     } catch (error) {
+       setError(error instanceof Error ? error.message : 'Terjadi kesalahan')
+     }
    }
 
+  /**
+   * Kembali ke langkah email/password (misal: challenge MFA kedaluwarsa)
+   */
+  const cancelMfa = () => {
+    setMfaChallenge(null)
+    setMfaCode('')
+    resetState()
+  }
+
   return (
     <div className={cn("flex flex-col gap-6", className)} {...props}>
       <Card className="overflow-hidden p-0">
@@ -103,6 +136,8 @@ export function LoginForm({
                   <RateLimitNotification message={error} />
                 ) : isInvalidLoginError(error) ? (
                   <InvalidLoginNotification message={error} />
+                ) : isSessionLimitError(error) ? (
+                  <SessionLimitNotification message={error} />
                 ) : (
                   <Alert variant="destructive">
                     <AlertDescription>{error}</AlertDescription>
@@ -117,49 +152,79 @@ export function LoginForm({
                 </Alert>
               )}
               
-              <div className="grid gap-3">
-                <Label htmlFor="email">Email</Label>
-                <Input
-                  id="email"
-                  type="email"
-                  placeholder="m@example.com"
-                  value={formData.email}
-                  onChange={(e) => handleInputChange('email', e.target.value)}
-                  className={errors.email && touched.email ? 'border-red-500' : ''}
-                  disabled={isLoading}
-                  required
-                />
-                {errors.email && touched.email && (
-                  <p className="text-sm text-red-500">{errors.email}</p>
-                )}
-              </div>
-              
-              <div className="grid gap-3">
-                <div className="flex items-center">
-                  <Label htmlFor="password">Password</Label>
-                  <a
-                    href="/forgot-password"
-                    className="ml-auto text-sm underline-offset-2 hover:underline"
+              {mfaChallenge ? (
+                <div className="grid gap-3">
+                  <Label htmlFor="mfaCode">Kode verifikasi</Label>
+                  <Input
+                    id="mfaCode"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    placeholder="123456"
+                    value={mfaCode}
+                    onChange={(e) => setMfaCode(e.target.value)}
+                    disabled={isLoading}
+                    autoFocus
+                    required
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    Masukkan kode 6 digit dari authenticator app, atau salah satu recovery code.
+                  </p>
+                  <button
+                    type="button"
+                    onClick={cancelMfa}
+                    className="text-left text-sm underline-offset-2 hover:underline"
                   >
-                    Forgot your password?
-                  </a>
+                    Kembali ke login
+                  </button>
                 </div>
-                <Input 
-                  id="password" 
-                  type="password" 
-                  value={formData.password}
-                  onChange={(e) => handleInputChange('password', e.target.value)}
-                  className={errors.password && touched.password ? 'border-red-500' : ''}
-                  disabled={isLoading}
-                  required 
-                />
-                {errors.password && touched.password && (
-                  <p className="text-sm text-red-500">{errors.password}</p>
-                )}
-              </div>
+              ) : (
+                <>
+                  <div className="grid gap-3">
+                    <Label htmlFor="email">Email</Label>
+                    <Input
+                      id="email"
+                      type="email"
+                      placeholder="m@example.com"
+                      value={formData.email}
+                      onChange={(e) => handleInputChange('email', e.target.value)}
+                      className={errors.email && touched.email ? 'border-red-500' : ''}
+                      disabled={isLoading}
+                      required
+                    />
+                    {errors.email && touched.email && (
+                      <p className="text-sm text-red-500">{errors.email}</p>
+                    )}
+                  </div>
+              
+                  <div className="grid gap-3">
+                    <div className="flex items-center">
+                      <Label htmlFor="password">Password</Label>
+                      <a
+                        href="/forgot-password"
+                        className="ml-auto text-sm underline-offset-2 hover:underline"
+                      >
+                        Forgot your password?
+                      </a>
+                    </div>
+                    <Input 
+                      id="password" 
+                      type="password" 
+                      value={formData.password}
+                      onChange={(e) => handleInputChange('password', e.target.value)}
+                      className={errors.password && touched.password ? 'border-red-500' : ''}
+                      disabled={isLoading}
+                      required 
+                    />
+                    {errors.password && touched.password && (
+                      <p className="text-sm text-red-500">{errors.password}</p>
+                    )}
+                  </div>
+              
+                </>
+              )}
               
               <Button type="submit" className="w-full" disabled={isLoading}>
-                {isLoading ? 'Logging in...' : 'Login'}
+                {isLoading ? 'Logging in...' : mfaChallenge ? 'Verify' : 'Login'}
               </Button>
               <div className="after:border-border relative text-center text-sm after:absolute after:inset-0 after:top-1/2 after:z-0 after:flex after:items-center after:border-t">
                 <span className="bg-card text-muted-foreground relative z-10 px-2">
@@ -98,8 +98,8 @@ export function RegisterForm({
       // Gunakan AuthContext untuk registrasi
       await register(formData.name, formData.email, formData.password)
       
-      // Tampilkan success toast
-      showSuccessToast('Registrasi berhasil! Silakan login.')
+      // Tampilkan success toast; akun aktif setelah email diverifikasi
+      showSuccessToast('Registrasi berhasil! Buka link verifikasi yang dikirim ke email Anda, lalu login.')
       
       // Redirect ke halaman login setelah registrasi berhasil
       window.location.href = '/login'
@@ -1,12 +1,14 @@
 "use client"
 
 import { useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
 import { cn } from "@/lib/utils"
 import { Button } from "@/components/shadcn/ui/button"
 import { Card, CardContent } from "@/components/shadcn/ui/card"
 import { Input } from "@/components/shadcn/ui/input"
 import { Label } from "@/components/shadcn/ui/label"
 import { Alert, AlertDescription } from "@/components/shadcn/ui/alert"
+import { publicApi } from "@/lib/apiClient"
 import { useAuthForm, useAuthValidation, authValidationRules } from '../_hook'
 
 /**
@@ -25,6 +27,10 @@ export function ResetPasswordForm({
   className,
   ...props
 }: React.ComponentProps<"div">) {
+  const router = useRouter()
+  // Token reset dari link email (?token=...)
+  const token = useSearchParams().get('token') ?? ''
+
   // State untuk form data
   const [formData, setFormData] = useState<ResetPasswordFormData>({
     password: '',
@@ -73,12 +79,18 @@ export function ResetPasswordForm({
     }
 
     await handleSubmit(async () => {
-      // Simulasi API call untuk reset password
-      // TODO: Implement actual reset password API call
-      await new Promise(resolve => setTimeout(resolve, 2000))
+      if (!token) {
+        throw new Error('Link reset password tidak valid. Silakan minta link baru.')
+      }
+
+      await publicApi.post('/auth/reset-password', {
+        token,
+        password: formData.password
+      })
       
-      // Tampilkan success toast
+      // Tampilkan success toast lalu arahkan ke halaman login
       showSuccessToast('Password berhasil direset! Silakan login dengan password baru.')
+      router.push('/login')
     })
   }
   return (
@@ -161,6 +173,17 @@ export function ResetPasswordForm({
                   Kembali ke login
                 </a>
               </div>
+
+              {!token && (
+                <div className="text-center text-sm">
+                  <a
+                    href="/forgot-password"
+                    className="underline underline-offset-2 hover:text-primary"
+                  >
+                    Minta link reset password baru
+                  </a>
+                </div>
+              )}
             </div>
           </form>
         </CardContent>
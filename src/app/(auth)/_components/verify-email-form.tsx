@@ -0,0 +1,173 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { useSearchParams } from 'next/navigation'
+import { cn } from "@/lib/utils"
+import { Button } from "@/components/shadcn/ui/button"
+import { Card, CardContent } from "@/components/shadcn/ui/card"
+import { Input } from "@/components/shadcn/ui/input"
+import { Label } from "@/components/shadcn/ui/label"
+import { Alert, AlertDescription } from "@/components/shadcn/ui/alert"
+import { publicApi } from "@/lib/apiClient"
+import { useAuthForm, useAuthValidation, authValidationRules } from '../_hook'
+
+/**
+ * Status verifikasi token dari link email
+ */
+type VerificationStatus = 'verifying' | 'verified' | 'failed'
+
+/**
+ * Komponen verifikasi email registrasi
+ * Token dari link email diverifikasi otomatis; jika token tidak ada atau gagal,
+ * user dapat meminta link verifikasi baru
+ */
+export function VerifyEmailForm({
+  className,
+  ...props
+}: React.ComponentProps<"div">) {
+  // Token verifikasi dari link email (?token=...)
+  const token = useSearchParams().get('token') ?? ''
+  const [status, setStatus] = useState<VerificationStatus>(token ? 'verifying' : 'failed')
+  const [verifyError, setVerifyError] = useState<string | null>(null)
+  const [email, setEmail] = useState('')
+
+  // Custom hooks untuk mengelola form state dan lifecycle
+  const { isLoading, error, success, handleSubmit } = useAuthForm()
+  
+  // Custom hook untuk validasi form dengan toast notifications
+  const { 
+    validateFormWithToast, 
+    handleFieldChange, 
+    errors, 
+    touched, 
+    showSuccessToast 
+  } = useAuthValidation({
+    email: authValidationRules.email
+  })
+
+  // Verifikasi token sekali saat halaman dibuka
+  useEffect(() => {
+    if (!token) {
+      return
+    }
+
+    publicApi.post('/auth/verify-email', { token })
+      .then(() => setStatus('verified'))
+      .catch((err: unknown) => {
+        setVerifyError(err instanceof Error ? err.message : 'Link verifikasi email tidak valid atau sudah kedaluwarsa')
+        setStatus('failed')
+      })
+  }, [token])
+
+  /**
+   * Handler untuk submit form kirim ulang link verifikasi
+   * @param e - Form submit event
+   */
+  const onResend = async (e: React.FormEvent) => {
+    e.preventDefault()
+    
+    // Validasi form sebelum submit dengan toast notification
+    const validation = validateFormWithToast({ email })
+    if (!validation.isValid) {
+      return
+    }
+
+    await handleSubmit(async () => {
+      // Server selalu merespons sukses agar keberadaan akun tidak bocor
+      await publicApi.post('/auth/verify-email/resend', { email })
+      showSuccessToast('Jika email terdaftar dan belum diverifikasi, link verifikasi baru telah dikirim!')
+    })
+  }
+
+  return (
+    <div className={cn("flex flex-col gap-6", className)} {...props}>
+      <Card className="overflow-hidden p-0">
+        <CardContent className="grid p-0">
+          <div className="p-6 md:p-8">
+            <div className="flex flex-col gap-6">
+              <div className="flex flex-col items-center text-center">
+                <h1 className="text-2xl font-bold">Verifikasi Email</h1>
+                <p className="text-muted-foreground text-balance">
+                  {status === 'verifying' && 'Memverifikasi email Anda...'}
+                  {status === 'verified' && 'Email Anda berhasil diverifikasi. Akun Anda sudah aktif.'}
+                  {status === 'failed' && 'Masukkan email Anda untuk menerima link verifikasi baru'}
+                </p>
+              </div>
+
+              {verifyError && status === 'failed' && (
+                <Alert variant="destructive">
+                  <AlertDescription>{verifyError}</AlertDescription>
+                </Alert>
+              )}
+
+              {status === 'verified' && (
+                <Button asChild className="w-full">
+                  <a href="/login">Login</a>
+                </Button>
+              )}
+
+              {status === 'failed' && (
+                <form className="flex flex-col gap-6" onSubmit={onResend}>
+                  {/* Error Alert */}
+                  {error && (
+                    <Alert variant="destructive">
+                      <AlertDescription>{error}</AlertDescription>
+                    </Alert>
+                  )}
+
+                  {/* Success Alert */}
+                  {success && (
+                    <Alert>
+                      <AlertDescription>Periksa email Anda untuk link verifikasi baru.</AlertDescription>
+                    </Alert>
+                  )}
+
+                  <div className="grid gap-3">
+                    <Label htmlFor="email">Email</Label>
+                    <Input
+                      id="email"
+                      type="email"
+                      placeholder="mail@example.com"
+                      value={email}
+                      onChange={(e) => {
+                        setEmail(e.target.value)
+                        handleFieldChange('email', e.target.value)
+                      }}
+                      className={cn(
+                        errors.email && touched.email && "border-destructive"
+                      )}
+                      required
+                    />
+                    {errors.email && touched.email && (
+                      <p className="text-sm text-destructive">{errors.email}</p>
+                    )}
+                  </div>
+
+                  <Button 
+                    type="submit" 
+                    className="w-full"
+                    disabled={isLoading}
+                  >
+                    {isLoading ? 'Mengirim...' : 'Kirim Ulang Link Verifikasi'}
+                  </Button>
+                </form>
+              )}
+
+              <div className="text-center text-sm">
+                <a
+                  href="/login"
+                  className="underline underline-offset-2 hover:text-primary"
+                >
+                  Kembali ke login
+                </a>
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+// Export default untuk kompatibilitas import
+export default VerifyEmailForm
@@ -0,0 +1,19 @@
+import { Suspense } from "react"
+import { AcceptInvitationForm } from "../_components/accept-invitation-form"
+
+/**
+ * Halaman penerimaan undangan user dengan token dari email
+ * Bagian dari authentication layer dalam grup route (auth)
+ */
+export default function AcceptInvitationPage() {
+  return (
+    <div className="bg-muted flex min-h-svh flex-col items-center justify-center p-6 md:p-10">
+      <div className="w-full max-w-sm md:max-w-3xl">
+        {/* Suspense dibutuhkan karena form membaca token dari search params */}
+        <Suspense fallback={null}>
+          <AcceptInvitationForm />
+        </Suspense>
+      </div>
+    </div>
+  )
+}
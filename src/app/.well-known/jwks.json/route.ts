@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { signingKeyService, SIGNING_KEY_CONFIG } from "@/lib/auth/authService/signingKeyService";
+
+/**
+ * GET /.well-known/jwks.json
+ * Public key set (JWKS, RFC 7517) untuk verifikasi access token oleh service lain
+ * Berisi key aktif dan key yang masih dalam overlap window rotasi
+ * Tidak memerlukan authentication (path dengan titik tidak diproses middleware)
+ */
+export async function GET() {
+  try {
+    const jwks = await signingKeyService.getJwks();
+
+    return NextResponse.json(jwks, {
+      status: 200,
+      headers: {
+        'Cache-Control': `public, max-age=${SIGNING_KEY_CONFIG.JWKS_MAX_AGE_SECONDS}`
+      }
+    });
+  } catch (error) {
+    console.error("Error loading JWKS:", error);
+    return NextResponse.json({
+      error: "Gagal memuat JWKS"
+    }, { status: 500 });
+  }
+}
@@ -1,4 +1,5 @@
 import { NextRequest } from "next/server";
+import { getClientIp } from "@/lib/http/clientIp";
 import { RequestContext } from '../types';
 
 /**
@@ -36,6 +37,17 @@ export class AuthRequestHandler {
     return authHeader.substring(7); // Remove "Bearer " prefix
   }
 
+  /**
+   * Ekstrak IP address (lihat getClientIp) dan user agent client
+   * untuk dicatat pada session yang dibuat saat login
+   */
+  static getClientInfo(request: NextRequest): { ipAddress?: string; userAgent?: string } {
+    const ipAddress = getClientIp(request.headers) || undefined;
+    const userAgent = request.headers.get("user-agent") || undefined;
+
+    return { ipAddress, userAgent };
+  }
+
   /**
    * Buat context dari request untuk logging dan debugging
    */
@@ -105,6 +105,38 @@ export class AuthResponseBuilder {
     return authResponseBuilderInstance.createRefreshSuccessResponse(user, accessToken);
   }
 
+  /**
+   * Response login untuk user dengan MFA aktif: token pair belum diterbitkan,
+   * client harus mengirim challenge token dan kode MFA ke /auth/login/mfa
+   */
+  static createMfaChallengeResponse(
+    challenge: { mfaRequired: true; challengeToken: string; expiresIn: number }
+  ): NextResponse {
+    return authResponseBuilderInstance.success(challenge, "Verifikasi MFA diperlukan");
+  }
+
+  /**
+   * Response registrasi: akun nonaktif sampai email diverifikasi, token belum diterbitkan
+   */
+  static createRegistrationResponse(
+    registration: { user: unknown; verificationRequired: boolean }
+  ): NextResponse {
+    return authResponseBuilderInstance.success(
+      registration,
+      "Registrasi berhasil. Buka link verifikasi yang dikirim ke email Anda untuk mengaktifkan akun.",
+      201
+    );
+  }
+
+  /**
+   * Response ringkasan undangan untuk halaman penerimaan undangan
+   */
+  static createInvitationPreviewResponse(
+    invitation: { email: string; name: string | null; roles: string[]; expiresAt: Date }
+  ): NextResponse {
+    return authResponseBuilderInstance.success({ invitation }, "Undangan valid");
+  }
+
   static createSimpleSuccessResponse(
     message: string,
     status: number = 200
@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { ConflictError, ErrorHandler } from "@/lib/errors/errorHandler";
+import {
+  RBACError,
+  AccessRequestNotFoundError,
+  RoleNotFoundError,
+  UserNotFoundError,
+  NotRoleApproverError,
+  AccessRequestNotPendingError,
+  DuplicateAccessRequestError,
+  RoleAssignmentExistsError,
+  AccessReviewCampaignNotFoundError,
+  AccessReviewItemNotFoundError,
+  AccessReviewCampaignClosedError,
+  NotAccessReviewerError,
+  SodConstraintNotFoundError,
+  DuplicateSodConstraintError
+} from "@/services/rbac/types";
+
+/**
+ * Tentukan HTTP status untuk error workflow access request, access review, dan separation-of-duties
+ * @param error - RBACError dari AccessRequestService, AccessReviewService, atau SeparationOfDutiesService
+ * @returns number - HTTP status code
+ */
+function getAccessRequestErrorStatus(error: RBACError): number {
+  if (
+    error instanceof AccessRequestNotFoundError ||
+    error instanceof AccessReviewCampaignNotFoundError ||
+    error instanceof AccessReviewItemNotFoundError ||
+    error instanceof SodConstraintNotFoundError ||
+    error instanceof RoleNotFoundError ||
+    error instanceof UserNotFoundError
+  ) {
+    return 404;
+  }
+  if (
+    error instanceof NotRoleApproverError ||
+    error instanceof NotAccessReviewerError ||
+    error.code === 'SELF_APPROVAL_NOT_ALLOWED' ||
+    error.code === 'SELF_REVIEW_NOT_ALLOWED'
+  ) {
+    return 403;
+  }
+  if (
+    error instanceof AccessRequestNotPendingError ||
+    error instanceof DuplicateAccessRequestError ||
+    error instanceof AccessReviewCampaignClosedError ||
+    error instanceof RoleAssignmentExistsError ||
+    error instanceof DuplicateSodConstraintError
+  ) {
+    return 409;
+  }
+  return 400;
+}
+
+/**
+ * Ubah error workflow access request, access review, dan separation-of-duties menjadi response API
+ * Dipakai bersama oleh route access request (requester, approver, admin), access review, dan constraint SoD
+ * @param error - Error yang terjadi
+ * @param defaultMessage - Pesan untuk error yang tidak dikenal
+ * @returns NextResponse - Response error { success: false, message }
+ */
+export function handleAccessRequestError(error: unknown, defaultMessage: string): NextResponse {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { success: false, message: 'Data tidak valid', errors: error.issues },
+      { status: 400 }
+    );
+  }
+
+  // Role assignment yang melanggar separation-of-duties (contoh: approve access request)
+  if (error instanceof ConflictError) {
+    return ErrorHandler.createErrorResponse(error);
+  }
+
+  if (error instanceof RBACError) {
+    return NextResponse.json(
+      { success: false, message: error.message, code: error.code },
+      { status: getAccessRequestErrorStatus(error) }
+    );
+  }
+
+  console.error(`${defaultMessage}:`, error);
+  return NextResponse.json(
+    { success: false, message: defaultMessage },
+    { status: 500 }
+  );
+}
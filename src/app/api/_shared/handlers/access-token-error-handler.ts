@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { BaseError, ErrorHandler } from "@/lib/errors/errorHandler";
+
+/**
+ * Ubah error service account dan personal access token (buat, cabut) menjadi response API
+ * Dipakai bersama oleh route admin service account dan access token user
+ * @param error - Error yang terjadi
+ * @param defaultMessage - Pesan untuk error yang tidak dikenal
+ * @returns NextResponse - Response error { success: false, message }
+ */
+export function handleAccessTokenError(error: unknown, defaultMessage: string): NextResponse {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { success: false, message: 'Data tidak valid', errors: error.issues },
+      { status: 400 }
+    );
+  }
+
+  // ValidationError (400), NotFoundError (404), ConflictError (409)
+  if (error instanceof BaseError) {
+    return ErrorHandler.createErrorResponse(error);
+  }
+
+  console.error(`${defaultMessage}:`, error);
+  return NextResponse.json(
+    { success: false, message: defaultMessage },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { RBACError, UserNotFoundError } from "@/services/rbac/types";
+
+/**
+ * Ubah error explain keputusan otorisasi menjadi response API
+ * @param error - Error yang terjadi
+ * @param defaultMessage - Pesan untuk error yang tidak dikenal
+ * @returns NextResponse - Response error { success: false, message }
+ */
+export function handleAuthorizationExplainError(error: unknown, defaultMessage: string): NextResponse {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { success: false, message: 'Data tidak valid', errors: error.issues },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof RBACError) {
+    return NextResponse.json(
+      { success: false, message: error.message, code: error.code },
+      { status: error instanceof UserNotFoundError ? 404 : 400 }
+    );
+  }
+
+  console.error(`${defaultMessage}:`, error);
+  return NextResponse.json(
+    { success: false, message: defaultMessage },
+    { status: 500 }
+  );
+}
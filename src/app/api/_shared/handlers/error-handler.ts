@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { ErrorContext } from '../types';
 import { AuthResponseBuilder, authResponseBuilder } from '../auth/auth-response-builder';
 import { ResponseBuilder } from '../builders/ResponseBuilder';
+import { ConflictError, RateLimitError, SessionLimitError } from '@/lib/errors/errorHandler';
 
 /**
  * Class untuk menangani error secara terpusat dengan auth-specific logic
@@ -110,18 +111,41 @@ export class AuthErrorHandler {
     context: ErrorContext,
     serviceName: string
   ): NextResponse {
+    // RateLimitError - 429 dengan header Retry-After dan RateLimit-*
+    if (error instanceof RateLimitError) {
+      authErrorHandlerInstance.logError(error, context, 'warn');
+      const response = authErrorHandlerInstance.error(error.message, error.statusCode);
+      for (const [name, value] of Object.entries(error.getHeaders())) {
+        response.headers.set(name, value);
+      }
+      return response;
+    }
+
+    // SessionLimitError - 409, login baru ditolak karena batas session aktif
+    if (error instanceof SessionLimitError) {
+      authErrorHandlerInstance.logError(error, context, 'warn');
+      return authErrorHandlerInstance.error(error.message, error.statusCode);
+    }
+
     // Handle specific error types by class name
     if (error && typeof error === 'object' && 'constructor' in error) {
       const errorName = error.constructor.name;
       
-      // ConflictError - untuk duplicate data
-         if (errorName === 'ConflictError') {
+      // ConflictError - untuk duplicate data atau turunannya (mis. pelanggaran separation-of-duties)
+         if (errorName === 'ConflictError' || error instanceof ConflictError) {
            const message = error instanceof Error ? error.message : 'Data sudah ada';
            authErrorHandlerInstance.logError(error, context, 'info');
            // Return error message langsung dengan pesan spesifik
            return authErrorHandlerInstance.error(message, 409);
          }
       
+      // AuthenticationError - kredensial, challenge token, atau kode MFA tidak valid
+      if (errorName === 'AuthenticationError') {
+        const message = error instanceof Error ? error.message : 'Autentikasi gagal';
+        authErrorHandlerInstance.logError(error, context, 'warn');
+        return authErrorHandlerInstance.unauthorized(message);
+      }
+      
       // ValidationError - untuk validation errors
       if (errorName === 'ValidationError') {
         const message = error instanceof Error ? error.message : 'Data tidak valid';
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { BaseError, ErrorHandler } from "@/lib/errors/errorHandler";
+
+/**
+ * Schema body untuk endpoint MFA yang membutuhkan kode TOTP atau recovery code
+ */
+export const mfaCodeSchema = z.object({
+  code: z.string().trim().min(6, "Kode MFA minimal 6 karakter").max(20, "Kode MFA maksimal 20 karakter"),
+});
+
+/**
+ * Ubah error MFA (enrollment, verifikasi, reset) menjadi response API
+ * Dipakai bersama oleh route MFA profil dan route admin reset MFA
+ * @param error - Error yang terjadi
+ * @param defaultMessage - Pesan untuk error yang tidak dikenal
+ * @returns NextResponse - Response error { success: false, message }
+ */
+export function handleMfaError(error: unknown, defaultMessage: string): NextResponse {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { success: false, message: 'Data tidak valid', errors: error.issues },
+      { status: 400 }
+    );
+  }
+
+  // ValidationError (400), AuthenticationError (401), RateLimitError (429 + header)
+  if (error instanceof BaseError) {
+    return ErrorHandler.createErrorResponse(error);
+  }
+
+  console.error(`${defaultMessage}:`, error);
+  return NextResponse.json(
+    { success: false, message: defaultMessage },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { YAMLError } from "yaml";
+import { InvalidPolicyDocumentError, RBACError } from "@/services/rbac/types";
+
+/**
+ * Ubah error export/import dokumen policy-as-code menjadi response API
+ * @param error - Error yang terjadi
+ * @param defaultMessage - Pesan untuk error yang tidak dikenal
+ * @returns NextResponse - Response error { success: false, message, errors? }
+ */
+export function handlePolicyDocumentError(error: unknown, defaultMessage: string): NextResponse {
+  if (error instanceof SyntaxError || error instanceof YAMLError) {
+    return NextResponse.json(
+      { success: false, message: 'Dokumen policy harus berupa JSON atau YAML yang valid' },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { success: false, message: 'Struktur dokumen policy tidak valid', errors: error.issues },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof InvalidPolicyDocumentError) {
+    return NextResponse.json(
+      { success: false, message: error.message, code: error.code, errors: error.issues },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof RBACError) {
+    return NextResponse.json(
+      { success: false, message: error.message, code: error.code },
+      { status: 400 }
+    );
+  }
+
+  console.error(`${defaultMessage}:`, error);
+  return NextResponse.json(
+    { success: false, message: defaultMessage },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+
+/**
+ * Cek apakah header Content-Type/Accept meminta format YAML
+ * (application/yaml, application/x-yaml, text/yaml, text/x-yaml)
+ */
+function isYamlMediaType(header: string | null): boolean {
+  return header !== null && /\b(?:application|text)\/(?:x-)?yaml\b/i.test(header);
+}
+
+/**
+ * Baca body dokumen policy-as-code sesuai Content-Type request
+ * Content-Type YAML di-parse sebagai YAML, selain itu sebagai JSON
+ * @param request - Request import
+ * @returns Promise<unknown> - Dokumen mentah untuk divalidasi service
+ * @throws SyntaxError / YAMLParseError jika body tidak valid
+ */
+export async function readPolicyDocument(request: NextRequest): Promise<unknown> {
+  if (isYamlMediaType(request.headers.get('content-type'))) {
+    return parseYaml(await request.text());
+  }
+
+  return request.json();
+}
+
+/**
+ * Buat response download dokumen policy-as-code sesuai header Accept
+ * Accept YAML menghasilkan access-policies.yaml, selain itu access-policies.json
+ * @param request - Request export
+ * @param document - Dokumen hasil export
+ * @returns NextResponse - Response attachment dokumen
+ */
+export function policyDocumentResponse(request: NextRequest, document: unknown): NextResponse {
+  if (isYamlMediaType(request.headers.get('accept'))) {
+    return new NextResponse(stringifyYaml(document), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/yaml; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="access-policies.yaml"'
+      }
+    });
+  }
+
+  return new NextResponse(`${JSON.stringify(document, null, 2)}\n`, {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/json; charset=utf-8',
+      'Content-Disposition': 'attachment; filename="access-policies.json"'
+    }
+  });
+}
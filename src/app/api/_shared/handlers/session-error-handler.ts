@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { BaseError, ErrorHandler } from "@/lib/errors/errorHandler";
+
+/**
+ * Ubah error pengelolaan session (daftar session, sign-out/revoke session) menjadi response API
+ * Dipakai bersama oleh route session di halaman profil dan audit session logs
+ * @param error - Error yang terjadi
+ * @param defaultMessage - Pesan untuk error yang tidak dikenal
+ * @returns NextResponse - Response error { success: false, message }
+ */
+export function handleSessionError(error: unknown, defaultMessage: string): NextResponse {
+  // NotFoundError (404) untuk session yang tidak ada, sudah tidak aktif, atau bukan milik user
+  if (error instanceof BaseError) {
+    return ErrorHandler.createErrorResponse(error);
+  }
+
+  console.error(`${defaultMessage}:`, error);
+  return NextResponse.json(
+    { success: false, message: defaultMessage },
+    { status: 500 }
+  );
+}
@@ -53,6 +53,92 @@ export class AuthValidationHandler {
     return this.validate(data, loginSchema);
   }
 
+  /**
+   * Validasi data langkah kedua login (verifikasi MFA)
+   */
+  static validateMfaLoginData(data: unknown): ValidationResult<{
+    challengeToken: string;
+    code: string;
+  }> {
+    const mfaLoginSchema = z.object({
+      challengeToken: z.string().min(1, "Challenge token harus diisi"),
+      code: z.string().trim().min(6, "Kode MFA minimal 6 karakter").max(20, "Kode MFA maksimal 20 karakter"),
+    });
+
+    return this.validate(data, mfaLoginSchema);
+  }
+
+  /**
+   * Validasi data permintaan link reset password (forgot password)
+   */
+  static validateForgotPasswordData(data: unknown): ValidationResult<{
+    email: string;
+  }> {
+    const forgotPasswordSchema = z.object({
+      email: z.string().trim().email("Format email tidak valid"),
+    });
+
+    return this.validate(data, forgotPasswordSchema);
+  }
+
+  /**
+   * Validasi data reset password dengan token dari email
+   */
+  static validateResetPasswordData(data: unknown): ValidationResult<{
+    token: string;
+    password: string;
+  }> {
+    const resetPasswordSchema = z.object({
+      token: z.string().trim().min(1, "Token reset harus diisi"),
+      password: z.string().min(8, "Password minimal 8 karakter"),
+    });
+
+    return this.validate(data, resetPasswordSchema);
+  }
+
+  /**
+   * Validasi data verifikasi email dengan token dari link
+   */
+  static validateVerifyEmailData(data: unknown): ValidationResult<{
+    token: string;
+  }> {
+    const verifyEmailSchema = z.object({
+      token: z.string().trim().min(1, "Token verifikasi harus diisi"),
+    });
+
+    return this.validate(data, verifyEmailSchema);
+  }
+
+  /**
+   * Validasi data kirim ulang email verifikasi
+   */
+  static validateResendVerificationData(data: unknown): ValidationResult<{
+    email: string;
+  }> {
+    const resendVerificationSchema = z.object({
+      email: z.string().trim().email("Format email tidak valid"),
+    });
+
+    return this.validate(data, resendVerificationSchema);
+  }
+
+  /**
+   * Validasi data penerimaan undangan user
+   */
+  static validateAcceptInvitationData(data: unknown): ValidationResult<{
+    token: string;
+    name: string;
+    password: string;
+  }> {
+    const acceptInvitationSchema = z.object({
+      token: z.string().trim().min(1, "Token undangan harus diisi"),
+      name: z.string().trim().min(1, "Nama harus diisi").max(100, "Nama maksimal 100 karakter"),
+      password: z.string().min(8, "Password minimal 8 karakter"),
+    });
+
+    return this.validate(data, acceptInvitationSchema);
+  }
+
   /**
    * Validasi register data
    */
@@ -32,6 +32,16 @@ export { AuthCookieManager } from './auth/cookie-manager';
 export { AuthValidationHandler } from './handlers/validation-handler';
 export { AuthErrorHandler, authErrorHandler } from './handlers/error-handler';
 
+// RBAC Components
+export { handleAccessRequestError } from './handlers/access-request-error-handler';
+export { handleMfaError, mfaCodeSchema } from './handlers/mfa-error-handler';
+export { handleInvitationError } from './handlers/invitation-error-handler';
+export { handleSessionError } from './handlers/session-error-handler';
+export { handleAccessTokenError } from './handlers/access-token-error-handler';
+export { handleAuthorizationExplainError } from './handlers/authorization-explain-error-handler';
+export { handlePolicyDocumentError } from './handlers/policy-document-error-handler';
+export { readPolicyDocument, policyDocumentResponse } from './handlers/policy-document-format';
+
 // Dashboard Components
 export { CrudHandler, CrudHandlerBuilder, createCrudHandler } from './handlers/CrudHandler';
 export { DashboardReadHandler, createDashboardReadHandler, DashboardHandlers } from './handlers/DashboardReadHandler';
@@ -1,9 +1,87 @@
 import { NextRequest, NextResponse } from "next/server";
 import { abacService } from "@/services";
+import { updatePolicyEnforcementModeSchema, versionCommentSchema } from "@/db/schema";
+import { getUserFromRequest } from "@/lib/withFeature";
+import { z } from "zod";
+
+/**
+ * PATCH /api/abac/policies/[id]
+ * Ubah enforcement mode root policy: enforce, audit (shadow, hanya dicatat), atau disabled
+ * Perubahan dicatat ke change_history
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const currentUser = getUserFromRequest(request);
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: "User tidak terautentikasi" },
+        { status: 401 }
+      );
+    }
+
+    const resolvedParams = await params;
+    const policyId = parseInt(resolvedParams.id, 10);
+    
+    if (isNaN(policyId)) {
+      return NextResponse.json(
+        { error: "Policy ID harus berupa angka" },
+        { status: 400 }
+      );
+    }
+
+    const existingPolicy = await abacService.getPolicyById(policyId);
+    
+    if (!existingPolicy) {
+      return NextResponse.json(
+        { error: "Policy tidak ditemukan" },
+        { status: 404 }
+      );
+    }
+
+    if (existingPolicy.parentId !== null) {
+      return NextResponse.json(
+        { error: "Enforcement mode hanya berlaku untuk root policy" },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const { enforcementMode } = updatePolicyEnforcementModeSchema.parse(body);
+    const { comment } = versionCommentSchema.parse(body);
+
+    const policy = await abacService.updatePolicyEnforcementMode(policyId, enforcementMode, currentUser.id, comment);
+
+    return NextResponse.json({
+      success: true,
+      message: `Enforcement mode policy diubah menjadi ${enforcementMode}`,
+      data: policy
+    }, { status: 200 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { 
+          error: "Data tidak valid",
+          details: error.issues 
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error mengubah enforcement mode policy:", error);
+    return NextResponse.json(
+      { error: "Gagal mengubah enforcement mode policy" },
+      { status: 500 }
+    );
+  }
+}
 
 /**
  * DELETE /api/abac/policies/[id]
  * Hapus policy ABAC berdasarkan ID
+ * Penghapusan dicatat sebagai versi baru; alasan dapat dikirim lewat query ?comment=
  */
 export async function DELETE(
   request: NextRequest,
@@ -20,7 +98,14 @@ export async function DELETE(
       );
     }
 
-    const success = await abacService.deletePolicy(policyId);
+    const { comment } = versionCommentSchema.parse({
+      comment: new URL(request.url).searchParams.get("comment") ?? undefined
+    });
+
+    const success = await abacService.deletePolicy(policyId, {
+      authorId: getUserFromRequest(request)?.id ?? null,
+      comment
+    });
     
     if (!success) {
       return NextResponse.json(
@@ -34,6 +119,16 @@ export async function DELETE(
       { status: 200 }
     );
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { 
+          error: "Data tidak valid",
+          details: error.issues 
+        },
+        { status: 400 }
+      );
+    }
+
     console.error("Error menghapus policy:", error);
     return NextResponse.json(
       { error: "Gagal menghapus policy" },
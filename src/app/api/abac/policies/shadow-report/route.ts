@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { abacService } from "@/services";
+import { shadowPolicyReportQuerySchema } from "@/db/schema";
+
+/**
+ * GET /api/abac/policies/shadow-report
+ * Laporan policy mode audit: shadow violation per policy dibandingkan dengan
+ * violation policy enforce pada feature yang sama, sebelum policy di-promote ke enforce
+ * Query parameter days (default 30) menentukan panjang periode laporan
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const queryResult = shadowPolicyReportQuerySchema.safeParse({
+      days: searchParams.get("days") || undefined
+    });
+
+    if (!queryResult.success) {
+      return NextResponse.json(
+        { 
+          error: "Query parameter tidak valid",
+          details: queryResult.error.issues 
+        },
+        { status: 400 }
+      );
+    }
+
+    const report = await abacService.getShadowPolicyReport(queryResult.data.days);
+
+    return NextResponse.json({
+      success: true,
+      data: report
+    }, { status: 200 });
+  } catch (error) {
+    console.error("Error mengambil laporan shadow policy:", error);
+    return NextResponse.json(
+      { error: "Gagal mengambil laporan shadow policy" },
+      { status: 500 }
+    );
+  }
+}
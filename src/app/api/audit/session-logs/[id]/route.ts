@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withFeature, getUserFromRequest } from "@/lib/withFeature";
+import { authService } from "@/services";
+import { changeHistoryService } from "@/services/audit/changeHistoryService";
+import { handleSessionError } from "../../../_shared";
+
+/**
+ * DELETE /api/audit/session-logs/{id}
+ * Revoke satu session user (remote sign-out oleh admin)
+ * Refresh token session langsung tidak berlaku; revoke dicatat ke change_history
+ * Memerlukan permission 'user_management' dengan action 'update'
+ */
+async function handleRevokeSession(request: NextRequest): Promise<NextResponse> {
+  try {
+    const adminUser = getUserFromRequest(request);
+    const pathSegments = new URL(request.url).pathname.split('/');
+    const sessionId = parseInt(pathSegments[pathSegments.findIndex(segment => segment === 'session-logs') + 1], 10);
+    if (isNaN(sessionId)) {
+      return NextResponse.json(
+        { success: false, message: 'ID session tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    const session = await authService.revokeSession(sessionId);
+    await changeHistoryService.logChangeHistory({
+      adminUserId: adminUser?.id ?? null,
+      targetUserId: session.userId,
+      action: 'revokeSession',
+      before: JSON.stringify({
+        sessionId: session.id,
+        deviceLabel: session.deviceLabel ?? null,
+        ipAddress: session.ipAddress ?? null,
+        expiresAt: session.expiresAt
+      })
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { sessionId, userId: session.userId },
+      message: 'Session berhasil di-revoke'
+    });
+  } catch (error) {
+    return handleSessionError(error, 'Gagal revoke session');
+  }
+}
+
+export const DELETE = withFeature({ feature: 'user_management', action: 'update' })(handleRevokeSession);
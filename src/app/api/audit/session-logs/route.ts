@@ -3,6 +3,8 @@ import { z } from "zod";
 import { sessionRepository } from "@/repositories/session/sessionRepository";
 import { userRepository } from "@/repositories/user/userRepository";
 import { withAuthentication } from "@/lib/auth/authMiddleware";
+import { parseDeviceLabel, isRejectedLoginRecord } from "@/lib/auth/authService/sessionService";
+import type { Session, User } from "@/db/schema";
 
 /**
  * Schema untuk validasi query parameters session logs
@@ -23,6 +25,41 @@ const sessionLogsBodySchema = z.object({
   limit: z.number().int().positive().max(100).optional().default(20),
 });
 
+/**
+ * Konversi session ke format session log
+ * Action diturunkan dari status session: aktif (login), di-revoke (token_revoke), atau expired (logout);
+ * login yang ditolak karena batas session aktif dicatat sebagai login gagal
+ * @param session - Session dari database
+ * @param user - Pemilik session (jika masih ada)
+ */
+function toSessionLog(session: Session, user: User | undefined) {
+  const isActive = session.expiresAt > new Date();
+  const rejected = isRejectedLoginRecord(session);
+  const action = isActive || rejected ? 'login' : session.revokedAt ? 'token_revoke' : 'logout';
+
+  return {
+    id: session.id,
+    userId: session.userId,
+    sessionId: session.refreshToken.substring(0, 8) + '...', // Tampilkan sebagian token saja
+    action,
+    ipAddress: session.ipAddress,
+    userAgent: session.userAgent,
+    deviceLabel: session.deviceLabel ?? parseDeviceLabel(session.userAgent),
+    isActive,
+    success: !rejected,
+    reason: session.revokedReason ?? (session.revokedAt ? `Revoked at ${session.revokedAt.toISOString()}` : null),
+    createdAt: session.createdAt,
+    lastSeenAt: session.lastSeenAt,
+    user: user ? {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      department: user.department || undefined,
+      region: user.region || undefined,
+    } : undefined,
+  };
+}
+
 /**
  * GET /api/audit/session-logs
  * Mengambil data session logs dengan filtering dan pagination
@@ -58,29 +95,7 @@ export const GET = withAuthentication(async (request: NextRequest) => {
         // Ambil data user
         const user = await userRepository.findById(session.userId);
         
-        // Tentukan action berdasarkan status session
-        const now = new Date();
-        const isExpired = session.expiresAt < now;
-        const action = isExpired ? 'logout' : 'login';
-        
-        return {
-          id: session.id,
-          userId: session.userId,
-          sessionId: session.refreshToken.substring(0, 8) + '...', // Tampilkan sebagian token saja
-          action,
-          ipAddress: null, // Tidak ada data IP di tabel sessions
-          userAgent: null, // Tidak ada data user agent di tabel sessions
-          success: true, // Semua session di database dianggap sukses
-          reason: null,
-          createdAt: session.createdAt,
-          user: user ? {
-            id: user.id,
-            name: user.name,
-            email: user.email,
-            department: user.department || undefined,
-            region: user.region || undefined,
-          } : undefined,
-        };
+        return toSessionLog(session, user);
       })
     );
     
@@ -90,6 +105,11 @@ export const GET = withAuthentication(async (request: NextRequest) => {
       finalSessions = sessionLogs.filter(log => log.action === validatedQuery.action);
     }
     
+    // Filter berdasarkan IP address jika ada
+    if (validatedQuery.ipAddress) {
+      finalSessions = finalSessions.filter(log => log.ipAddress?.includes(validatedQuery.ipAddress!));
+    }
+    
     // Filter berdasarkan success jika ada
     if (validatedQuery.success) {
       const successFilter = validatedQuery.success === 'true';
@@ -161,29 +181,7 @@ export const POST = withAuthentication(async (request: NextRequest) => {
     const sessionLogs = await Promise.all(
       recentSessions.map(async (session) => {
         const user = await userRepository.findById(session.userId);
-        
-        const now = new Date();
-        const isExpired = session.expiresAt < now;
-        const action = isExpired ? 'logout' : 'login';
-        
-        return {
-          id: session.id,
-          userId: session.userId,
-          sessionId: session.refreshToken.substring(0, 8) + '...',
-          action,
-          ipAddress: null,
-          userAgent: null,
-          success: true,
-          reason: null,
-          createdAt: session.createdAt,
-          user: user ? {
-            id: user.id,
-            name: user.name,
-            email: user.email,
-            department: user.department || undefined,
-            region: user.region || undefined,
-          } : undefined,
-        };
+        return toSessionLog(session, user);
       })
     );
     
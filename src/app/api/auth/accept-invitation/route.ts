@@ -0,0 +1,98 @@
+import { NextRequest } from "next/server";
+import { userInvitationService } from "@/services/user/userInvitationService";
+import {
+  AuthRequestHandler,
+  AuthResponseBuilder,
+  AuthValidationHandler,
+  AuthErrorHandler,
+} from "../../_shared";
+
+/**
+ * API route untuk ringkasan undangan user
+ * GET /api/auth/accept-invitation?token=...
+ * 
+ * Response:
+ * {
+ *   "success": true,
+ *   "data": { "invitation": { "email", "name", "roles", "expiresAt" } }
+ * }
+ */
+export async function GET(request: NextRequest) {
+  const context = AuthRequestHandler.createRequestContext(request, "/api/auth/accept-invitation");
+  
+  try {
+    const token = new URL(request.url).searchParams.get('token')?.trim();
+    if (!token) {
+      return AuthErrorHandler.handleValidationError(
+        new Error("Token undangan harus diisi"),
+        context
+      );
+    }
+    
+    const invitation = await userInvitationService.getInvitationPreview(token);
+    
+    return AuthResponseBuilder.createInvitationPreviewResponse(invitation);
+    
+  } catch (error) {
+    return AuthErrorHandler.handleServiceError(
+      error,
+      context,
+      "userInvitationService.getInvitationPreview"
+    );
+  }
+}
+
+/**
+ * API route untuk menerima undangan user
+ * POST /api/auth/accept-invitation
+ * 
+ * Invitee menentukan nama dan password sendiri. Akun langsung aktif
+ * (email terverifikasi lewat link undangan) dengan role dan ABAC attributes
+ * dari undangan.
+ * 
+ * Body:
+ * {
+ *   "token": "string",    // token dari link undangan
+ *   "name": "string",
+ *   "password": "string"
+ * }
+ * 
+ * Response:
+ * {
+ *   "success": true,
+ *   "message": "Undangan diterima. Silakan login."
+ * }
+ */
+export async function POST(request: NextRequest) {
+  const context = AuthRequestHandler.createRequestContext(request, "/api/auth/accept-invitation");
+  
+  try {
+    // Parse request body
+    const body = await AuthRequestHandler.parseJsonBody(request);
+    
+    // Validasi input menggunakan validation handler
+    const validation = AuthValidationHandler.validateAcceptInvitationData(body);
+    if (!validation.success) {
+      return AuthErrorHandler.handleValidationError(
+        new Error(validation.error),
+        context
+      );
+    }
+    
+    // Buat akun dari undangan, lalu terapkan role dan attributes
+    const { token, name, password } = validation.data!;
+    await userInvitationService.acceptInvitation(token, { name, password });
+    
+    return AuthResponseBuilder.createSimpleSuccessResponse(
+      "Undangan diterima. Silakan login.",
+      201
+    );
+    
+  } catch (error) {
+    return AuthErrorHandler.handleServiceError(
+      error,
+      context,
+      "userInvitationService.acceptInvitation"
+    );
+  }
+}
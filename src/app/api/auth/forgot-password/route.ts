@@ -0,0 +1,58 @@
+import { NextRequest } from "next/server";
+import { authService } from "@/services";
+import {
+  AuthRequestHandler,
+  AuthResponseBuilder,
+  AuthValidationHandler,
+  AuthErrorHandler,
+} from "../../_shared";
+
+/**
+ * API route untuk meminta link reset password (forgot password)
+ * POST /api/auth/forgot-password
+ * 
+ * Body:
+ * {
+ *   "email": "string"
+ * }
+ * 
+ * Response selalu sama untuk email terdaftar maupun tidak,
+ * agar endpoint ini tidak dapat dipakai untuk menebak akun:
+ * {
+ *   "success": true,
+ *   "message": "Jika email terdaftar, link reset password telah dikirim"
+ * }
+ */
+export async function POST(request: NextRequest) {
+  const context = AuthRequestHandler.createRequestContext(request, "/api/auth/forgot-password");
+  
+  try {
+    // Parse request body
+    const body = await AuthRequestHandler.parseJsonBody(request);
+    
+    // Validasi input menggunakan validation handler
+    const validation = AuthValidationHandler.validateForgotPasswordData(body);
+    if (!validation.success) {
+      return AuthErrorHandler.handleValidationError(
+        new Error(validation.error),
+        context
+      );
+    }
+    
+    // Buat token reset dan kirim email (jika akun ada dan aktif)
+    const ipAddress = context.ip !== "unknown" ? context.ip.split(",")[0].trim() : undefined;
+    await authService.requestPasswordReset(validation.data!.email, { ipAddress });
+    
+    return AuthResponseBuilder.createSimpleSuccessResponse(
+      "Jika email terdaftar, link reset password telah dikirim",
+      200
+    );
+    
+  } catch (error) {
+    return AuthErrorHandler.handleServiceError(
+      error,
+      context,
+      "authService.requestPasswordReset"
+    );
+  }
+}
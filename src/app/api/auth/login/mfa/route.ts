@@ -0,0 +1,72 @@
+import { NextRequest } from "next/server";
+import { authService } from "@/services";
+import {
+  AuthRequestHandler,
+  AuthResponseBuilder,
+  AuthCookieManager,
+  AuthValidationHandler,
+  AuthErrorHandler,
+} from "../../../_shared";
+
+/**
+ * API route untuk langkah kedua login (verifikasi MFA)
+ * POST /api/auth/login/mfa
+ * 
+ * Body:
+ * {
+ *   "challengeToken": "string", // dari response POST /api/auth/login
+ *   "code": "string"            // kode TOTP 6 digit atau recovery code
+ * }
+ * 
+ * Response:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "user": { ... },
+ *     "accessToken": "string"
+ *   }
+ * }
+ */
+export async function POST(request: NextRequest) {
+  const context = AuthRequestHandler.createRequestContext(request, "/api/auth/login/mfa");
+  
+  try {
+    // Parse request body
+    const body = await AuthRequestHandler.parseJsonBody(request);
+    
+    // Validasi input menggunakan validation handler
+    const validation = AuthValidationHandler.validateMfaLoginData(body);
+    if (!validation.success) {
+      return AuthErrorHandler.handleValidationError(
+        new Error(validation.error),
+        context
+      );
+    }
+    
+    // Verifikasi kode MFA dan terbitkan token pair
+    const authResponse = await authService.verifyMfaLogin(
+      validation.data!.challengeToken,
+      validation.data!.code,
+      AuthRequestHandler.getClientInfo(request)
+    );
+    
+    const response = await AuthResponseBuilder.createAuthSuccessResponse(
+      "Login berhasil",
+      authResponse,
+      200
+    );
+    
+    // Set refresh token cookie
+    return AuthCookieManager.setRefreshTokenOnResponse(
+      response,
+      authResponse.refreshToken
+    );
+    
+  } catch (error) {
+    return AuthErrorHandler.handleServiceError(
+      error,
+      context,
+      "authService.verifyMfaLogin"
+    );
+  }
+}
@@ -12,7 +12,9 @@ import {
  * API route untuk refresh access token
  * POST /api/auth/refresh
  * 
- * Menggunakan refresh token dari cookie untuk generate access token baru
+ * Menggunakan refresh token dari cookie untuk generate access token baru.
+ * Refresh token bersifat one-time-use: cookie diganti dengan refresh token baru,
+ * dan pemakaian ulang token lama mencabut seluruh session terkait (401)
  * 
  * Response:
  * {
@@ -48,14 +50,14 @@ export async function POST(request: NextRequest) {
       message: "Token berhasil diperbarui",
       data: {
         accessToken: refreshResponse.accessToken,
-        refreshToken: validation.data! // Tambahkan refresh token ke response untuk localStorage
+        refreshToken: refreshResponse.refreshToken // Tambahkan refresh token ke response untuk localStorage
       }
     }, { status: 200 });
     
-    // Refresh token tetap sama, set ulang cookie
+    // Refresh token lama sudah dirotasi, set cookie dengan refresh token baru
     return AuthCookieManager.setRefreshTokenOnResponse(
       response,
-      validation.data!
+      refreshResponse.refreshToken
     );
     
   } catch (error) {
@@ -0,0 +1,63 @@
+import { NextRequest } from "next/server";
+import { authService } from "@/services";
+import {
+  AuthRequestHandler,
+  AuthResponseBuilder,
+  AuthValidationHandler,
+  AuthErrorHandler,
+} from "../../_shared";
+
+/**
+ * API route untuk reset password dengan token dari email
+ * POST /api/auth/reset-password
+ * 
+ * Token hanya dapat dipakai sekali. Setelah berhasil, semua session user dicabut
+ * sehingga user harus login ulang dengan password baru.
+ * 
+ * Body:
+ * {
+ *   "token": "string",    // token dari link reset password
+ *   "password": "string"  // password baru
+ * }
+ * 
+ * Response:
+ * {
+ *   "success": true,
+ *   "message": "Password berhasil direset"
+ * }
+ */
+export async function POST(request: NextRequest) {
+  const context = AuthRequestHandler.createRequestContext(request, "/api/auth/reset-password");
+  
+  try {
+    // Parse request body
+    const body = await AuthRequestHandler.parseJsonBody(request);
+    
+    // Validasi input menggunakan validation handler
+    const validation = AuthValidationHandler.validateResetPasswordData(body);
+    if (!validation.success) {
+      return AuthErrorHandler.handleValidationError(
+        new Error(validation.error),
+        context
+      );
+    }
+    
+    // Pakai token, ganti password, dan cabut semua session
+    await authService.resetPasswordWithToken(
+      validation.data!.token,
+      validation.data!.password
+    );
+    
+    return AuthResponseBuilder.createSimpleSuccessResponse(
+      "Password berhasil direset",
+      200
+    );
+    
+  } catch (error) {
+    return AuthErrorHandler.handleServiceError(
+      error,
+      context,
+      "authService.resetPasswordWithToken"
+    );
+  }
+}
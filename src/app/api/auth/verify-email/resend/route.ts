@@ -0,0 +1,56 @@
+import { NextRequest } from "next/server";
+import { authService } from "@/services";
+import {
+  AuthRequestHandler,
+  AuthResponseBuilder,
+  AuthValidationHandler,
+  AuthErrorHandler,
+} from "../../../_shared";
+
+/**
+ * API route untuk mengirim ulang link verifikasi email
+ * POST /api/auth/verify-email/resend
+ * 
+ * Body:
+ * {
+ *   "email": "string"
+ * }
+ * 
+ * Response selalu sama untuk email terdaftar maupun tidak,
+ * agar endpoint ini tidak dapat dipakai untuk menebak akun:
+ * {
+ *   "success": true,
+ *   "message": "Jika email terdaftar dan belum diverifikasi, link verifikasi telah dikirim"
+ * }
+ */
+export async function POST(request: NextRequest) {
+  const context = AuthRequestHandler.createRequestContext(request, "/api/auth/verify-email/resend");
+  
+  try {
+    // Parse request body
+    const body = await AuthRequestHandler.parseJsonBody(request);
+    
+    // Validasi input menggunakan validation handler
+    const validation = AuthValidationHandler.validateResendVerificationData(body);
+    if (!validation.success) {
+      return AuthErrorHandler.handleValidationError(
+        new Error(validation.error),
+        context
+      );
+    }
+    
+    await authService.resendEmailVerification(validation.data!.email);
+    
+    return AuthResponseBuilder.createSimpleSuccessResponse(
+      "Jika email terdaftar dan belum diverifikasi, link verifikasi telah dikirim",
+      200
+    );
+    
+  } catch (error) {
+    return AuthErrorHandler.handleServiceError(
+      error,
+      context,
+      "authService.resendEmailVerification"
+    );
+  }
+}
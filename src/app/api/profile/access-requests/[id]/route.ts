@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withFeature, getUserFromRequest } from '@/lib/withFeature';
+import { accessRequestService } from '@/services/rbac/accessRequestService';
+import { handleAccessRequestError } from '../../../_shared';
+
+/**
+ * Handler untuk membatalkan access request milik sendiri yang masih pending
+ * Memerlukan permission 'profile:update'
+ */
+async function handleCancelAccessRequest(req: NextRequest): Promise<NextResponse> {
+  try {
+    const currentUser = getUserFromRequest(req);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        message: 'User tidak terautentikasi'
+      }, { status: 401 });
+    }
+
+    const pathSegments = new URL(req.url).pathname.split('/');
+    const requestId = parseInt(pathSegments[pathSegments.findIndex(segment => segment === 'access-requests') + 1], 10);
+    if (isNaN(requestId)) {
+      return NextResponse.json({
+        success: false,
+        message: 'ID access request tidak valid'
+      }, { status: 400 });
+    }
+
+    const request = await accessRequestService.cancelRequest(requestId, currentUser.id);
+
+    return NextResponse.json({
+      success: true,
+      data: { request },
+      message: 'Access request berhasil dibatalkan'
+    });
+  } catch (error) {
+    return handleAccessRequestError(error, 'Gagal membatalkan access request');
+  }
+}
+
+export const DELETE = withFeature({ feature: 'profile', action: 'update' })(handleCancelAccessRequest);
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withFeature, getUserFromRequest } from '@/lib/withFeature';
+import { accessRequestService } from '@/services/rbac/accessRequestService';
+import { handleAccessRequestError } from '../../_shared';
+
+/**
+ * Handler untuk mengambil access request role milik user yang sedang login
+ * beserta daftar role yang dapat diminta
+ * Memerlukan permission 'profile:read'
+ */
+async function handleGetMyAccessRequests(req: NextRequest): Promise<NextResponse> {
+  try {
+    const currentUser = getUserFromRequest(req);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        message: 'User tidak terautentikasi'
+      }, { status: 401 });
+    }
+
+    const [requests, requestableRoles] = await Promise.all([
+      accessRequestService.getUserRequests(currentUser.id),
+      accessRequestService.getRequestableRoles()
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: { requests, requestableRoles },
+      message: 'Berhasil mengambil access request'
+    });
+  } catch (error) {
+    return handleAccessRequestError(error, 'Gagal mengambil access request');
+  }
+}
+
+/**
+ * Handler untuk meminta role dengan justifikasi dan durasi
+ * Request diputuskan oleh approver yang ditunjuk untuk role tersebut
+ * Memerlukan permission 'profile:update'
+ */
+async function handleCreateAccessRequest(req: NextRequest): Promise<NextResponse> {
+  try {
+    const currentUser = getUserFromRequest(req);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        message: 'User tidak terautentikasi'
+      }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const request = await accessRequestService.requestRole(currentUser.id, body);
+
+    return NextResponse.json({
+      success: true,
+      data: { request },
+      message: 'Access request berhasil dikirim'
+    }, { status: 201 });
+  } catch (error) {
+    return handleAccessRequestError(error, 'Gagal mengirim access request');
+  }
+}
+
+export const GET = withFeature({ feature: 'profile', action: 'read' })(handleGetMyAccessRequests);
+export const POST = withFeature({ feature: 'profile', action: 'update' })(handleCreateAccessRequest);
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withFeature, getUserFromRequest } from '@/lib/withFeature';
+import { accessReviewService } from '@/services/rbac/accessReviewService';
+import { handleAccessRequestError } from '../../../_shared';
+
+/**
+ * Handler untuk mencatat keputusan keep/revoke atas item access review
+ * Body: { decision: 'keep' | 'revoke', note?: string }
+ * Hanya reviewer item yang dapat memutuskan; memerlukan permission 'profile:update'
+ */
+async function handleDecideAccessReview(req: NextRequest): Promise<NextResponse> {
+  try {
+    const currentUser = getUserFromRequest(req);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        message: 'User tidak terautentikasi'
+      }, { status: 401 });
+    }
+
+    const pathSegments = new URL(req.url).pathname.split('/');
+    const itemId = parseInt(pathSegments[pathSegments.findIndex(segment => segment === 'access-reviews') + 1], 10);
+    if (isNaN(itemId)) {
+      return NextResponse.json({
+        success: false,
+        message: 'ID item tidak valid'
+      }, { status: 400 });
+    }
+
+    const body = await req.json();
+    const item = await accessReviewService.decideItem(itemId, currentUser.id, body);
+
+    return NextResponse.json({
+      success: true,
+      data: { item },
+      message: 'Keputusan access review berhasil disimpan'
+    });
+  } catch (error) {
+    return handleAccessRequestError(error, 'Gagal menyimpan keputusan access review');
+  }
+}
+
+export const POST = withFeature({ feature: 'profile', action: 'update' })(handleDecideAccessReview);
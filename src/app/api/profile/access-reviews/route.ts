@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withFeature, getUserFromRequest } from '@/lib/withFeature';
+import { accessReviewService } from '@/services/rbac/accessReviewService';
+import { handleAccessRequestError } from '../../_shared';
+
+/**
+ * Handler untuk mengambil item access review yang ditugaskan ke user yang sedang login
+ * Hanya item dalam campaign yang masih open
+ * Memerlukan permission 'profile:read'
+ */
+async function handleGetMyAccessReviews(req: NextRequest): Promise<NextResponse> {
+  try {
+    const currentUser = getUserFromRequest(req);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        message: 'User tidak terautentikasi'
+      }, { status: 401 });
+    }
+
+    const items = await accessReviewService.getReviewerItems(currentUser.id);
+
+    return NextResponse.json({
+      success: true,
+      data: { items },
+      message: 'Berhasil mengambil access review'
+    });
+  } catch (error) {
+    return handleAccessRequestError(error, 'Gagal mengambil access review');
+  }
+}
+
+export const GET = withFeature({ feature: 'profile', action: 'read' })(handleGetMyAccessReviews);
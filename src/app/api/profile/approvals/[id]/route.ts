@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withFeature, getUserFromRequest } from '@/lib/withFeature';
+import { accessRequestService } from '@/services/rbac/accessRequestService';
+import { handleAccessRequestError } from '../../../_shared';
+import { z } from 'zod';
+
+// Keputusan approver; note diteruskan ke service untuk divalidasi
+const decisionSchema = z.object({
+  decision: z.enum(['approve', 'reject'])
+});
+
+/**
+ * Handler untuk menyetujui atau menolak access request
+ * Approval meng-assign role ke user yang meminta; hanya approver role yang dapat memutuskan
+ * Memerlukan permission 'profile:update'
+ */
+async function handleReviewAccessRequest(req: NextRequest): Promise<NextResponse> {
+  try {
+    const currentUser = getUserFromRequest(req);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        message: 'User tidak terautentikasi'
+      }, { status: 401 });
+    }
+
+    const pathSegments = new URL(req.url).pathname.split('/');
+    const requestId = parseInt(pathSegments[pathSegments.findIndex(segment => segment === 'approvals') + 1], 10);
+    if (isNaN(requestId)) {
+      return NextResponse.json({
+        success: false,
+        message: 'ID access request tidak valid'
+      }, { status: 400 });
+    }
+
+    const body = await req.json();
+    const { decision } = decisionSchema.parse(body);
+
+    const request = decision === 'approve'
+      ? await accessRequestService.approveRequest(requestId, currentUser.id, { note: body.note })
+      : await accessRequestService.rejectRequest(requestId, currentUser.id, { note: body.note });
+
+    return NextResponse.json({
+      success: true,
+      data: { request },
+      message: decision === 'approve' ? 'Access request disetujui' : 'Access request ditolak'
+    });
+  } catch (error) {
+    return handleAccessRequestError(error, 'Gagal memproses access request');
+  }
+}
+
+export const POST = withFeature({ feature: 'profile', action: 'update' })(handleReviewAccessRequest);
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withFeature, getUserFromRequest } from '@/lib/withFeature';
+import { accessRequestService } from '@/services/rbac/accessRequestService';
+import { handleAccessRequestError } from '../../_shared';
+
+/**
+ * Handler untuk mengambil access request pending yang dapat diputuskan user yang sedang login
+ * Hanya berisi request untuk role di mana user ditunjuk sebagai approver
+ * Memerlukan permission 'profile:read'
+ */
+async function handleGetPendingApprovals(req: NextRequest): Promise<NextResponse> {
+  try {
+    const currentUser = getUserFromRequest(req);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        message: 'User tidak terautentikasi'
+      }, { status: 401 });
+    }
+
+    const requests = await accessRequestService.getPendingApprovals(currentUser.id);
+
+    return NextResponse.json({
+      success: true,
+      data: { requests },
+      message: 'Berhasil mengambil antrian approval'
+    });
+  } catch (error) {
+    return handleAccessRequestError(error, 'Gagal mengambil antrian approval');
+  }
+}
+
+export const GET = withFeature({ feature: 'profile', action: 'read' })(handleGetPendingApprovals);
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withFeature, getUserFromRequest } from '@/lib/withFeature';
+import { mfaService } from '@/lib/auth/authService/mfaService';
+import { handleMfaError, mfaCodeSchema } from '../../../_shared';
+
+/**
+ * Handler untuk menonaktifkan MFA, membutuhkan kode TOTP atau recovery code
+ * Memerlukan permission 'profile:update'
+ */
+async function handleDisableMfa(req: NextRequest): Promise<NextResponse> {
+  try {
+    const currentUser = getUserFromRequest(req);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        message: 'User tidak terautentikasi'
+      }, { status: 401 });
+    }
+
+    const { code } = mfaCodeSchema.parse(await req.json());
+    await mfaService.disable(currentUser.id, code);
+
+    return NextResponse.json({
+      success: true,
+      data: null,
+      message: 'MFA berhasil dinonaktifkan'
+    });
+  } catch (error) {
+    return handleMfaError(error, 'Gagal menonaktifkan MFA');
+  }
+}
+
+export const POST = withFeature({ feature: 'profile', action: 'update' })(handleDisableMfa);
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withFeature, getUserFromRequest } from '@/lib/withFeature';
+import { authService } from '@/services';
+import { mfaService } from '@/lib/auth/authService/mfaService';
+import { AuthCookieManager, AuthRequestHandler, handleMfaError, mfaCodeSchema } from '../../../_shared';
+
+/**
+ * Handler untuk mengaktifkan MFA dengan mengonfirmasi kode pertama dari authenticator app
+ * Recovery code hanya dikembalikan sekali pada response ini.
+ * Session saat ini di-upgrade menjadi terverifikasi MFA (token baru dengan claim mfa)
+ * agar user dengan role yang mewajibkan MFA tidak langsung terkunci
+ * Memerlukan permission 'profile:update'
+ */
+async function handleEnableMfa(req: NextRequest): Promise<NextResponse> {
+  try {
+    const currentUser = getUserFromRequest(req);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        message: 'User tidak terautentikasi'
+      }, { status: 401 });
+    }
+
+    const { code } = mfaCodeSchema.parse(await req.json());
+    const recoveryCodes = await mfaService.confirmEnrollment(currentUser.id, code);
+
+    const currentRefreshToken = AuthRequestHandler.getRefreshTokenFromCookie(req);
+    const tokens = currentRefreshToken
+      ? await authService.upgradeSessionToMfa(currentUser.id, currentRefreshToken)
+      : null;
+
+    const response = NextResponse.json({
+      success: true,
+      data: {
+        recoveryCodes,
+        accessToken: tokens?.accessToken ?? null,
+        refreshToken: tokens?.refreshToken ?? null
+      },
+      message: 'MFA berhasil diaktifkan. Simpan recovery code di tempat yang aman'
+    });
+
+    if (tokens) {
+      AuthCookieManager.setRefreshTokenCookie(response, tokens.refreshToken);
+    }
+
+    return response;
+  } catch (error) {
+    return handleMfaError(error, 'Gagal mengaktifkan MFA');
+  }
+}
+
+export const POST = withFeature({ feature: 'profile', action: 'update' })(handleEnableMfa);
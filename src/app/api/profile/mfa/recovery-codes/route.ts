@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withFeature, getUserFromRequest } from '@/lib/withFeature';
+import { mfaService } from '@/lib/auth/authService/mfaService';
+import { handleMfaError, mfaCodeSchema } from '../../../_shared';
+
+/**
+ * Handler untuk membuat ulang recovery code MFA
+ * Recovery code lama langsung tidak berlaku; membutuhkan kode TOTP atau recovery code
+ * Memerlukan permission 'profile:update'
+ */
+async function handleRegenerateRecoveryCodes(req: NextRequest): Promise<NextResponse> {
+  try {
+    const currentUser = getUserFromRequest(req);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        message: 'User tidak terautentikasi'
+      }, { status: 401 });
+    }
+
+    const { code } = mfaCodeSchema.parse(await req.json());
+    const recoveryCodes = await mfaService.regenerateRecoveryCodes(currentUser.id, code);
+
+    return NextResponse.json({
+      success: true,
+      data: { recoveryCodes },
+      message: 'Recovery code baru berhasil dibuat. Simpan di tempat yang aman'
+    });
+  } catch (error) {
+    return handleMfaError(error, 'Gagal membuat ulang recovery code');
+  }
+}
+
+export const POST = withFeature({ feature: 'profile', action: 'update' })(handleRegenerateRecoveryCodes);
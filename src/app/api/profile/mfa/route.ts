@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withFeature, getUserFromRequest } from '@/lib/withFeature';
+import { mfaService } from '@/lib/auth/authService/mfaService';
+import { handleMfaError } from '../../_shared';
+
+/**
+ * Handler untuk mengambil status MFA user yang sedang login
+ * Memerlukan permission 'profile:read'
+ */
+async function handleGetMfaStatus(req: NextRequest): Promise<NextResponse> {
+  try {
+    const currentUser = getUserFromRequest(req);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        message: 'User tidak terautentikasi'
+      }, { status: 401 });
+    }
+
+    const status = await mfaService.getStatus(currentUser.id);
+
+    return NextResponse.json({
+      success: true,
+      data: { status },
+      message: 'Berhasil mengambil status MFA'
+    });
+  } catch (error) {
+    return handleMfaError(error, 'Gagal mengambil status MFA');
+  }
+}
+
+/**
+ * Handler untuk memulai enrollment MFA
+ * Mengembalikan secret dan otpauth:// URI untuk authenticator app;
+ * MFA baru aktif setelah kode pertama dikonfirmasi di /api/profile/mfa/enable
+ * Memerlukan permission 'profile:update'
+ */
+async function handleStartMfaEnrollment(req: NextRequest): Promise<NextResponse> {
+  try {
+    const currentUser = getUserFromRequest(req);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        message: 'User tidak terautentikasi'
+      }, { status: 401 });
+    }
+
+    const enrollment = await mfaService.startEnrollment(currentUser.id, currentUser.email);
+
+    return NextResponse.json({
+      success: true,
+      data: { enrollment },
+      message: 'Scan secret dengan authenticator app lalu konfirmasi kode'
+    }, { status: 201 });
+  } catch (error) {
+    return handleMfaError(error, 'Gagal memulai enrollment MFA');
+  }
+}
+
+export const GET = withFeature({ feature: 'profile', action: 'read' })(handleGetMfaStatus);
+export const POST = withFeature({ feature: 'profile', action: 'update' })(handleStartMfaEnrollment);
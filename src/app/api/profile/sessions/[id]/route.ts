@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withFeature, getUserFromRequest } from '@/lib/withFeature';
+import { authService } from '@/services';
+import { handleSessionError } from '../../../_shared';
+
+/**
+ * Handler untuk sign-out satu session milik user yang sedang login (misal: device yang hilang)
+ * Refresh token session tersebut langsung tidak dapat dipakai lagi
+ * Memerlukan permission 'profile:update'
+ */
+async function handleRevokeSession(req: NextRequest): Promise<NextResponse> {
+  try {
+    const currentUser = getUserFromRequest(req);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        message: 'User tidak terautentikasi'
+      }, { status: 401 });
+    }
+
+    const pathSegments = new URL(req.url).pathname.split('/');
+    const sessionId = parseInt(pathSegments[pathSegments.findIndex(segment => segment === 'sessions') + 1], 10);
+    if (isNaN(sessionId)) {
+      return NextResponse.json(
+        { success: false, message: 'ID session tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    await authService.revokeSession(sessionId, currentUser.id);
+
+    return NextResponse.json({
+      success: true,
+      data: { sessionId },
+      message: 'Session berhasil di-sign-out'
+    });
+  } catch (error) {
+    return handleSessionError(error, 'Gagal sign-out session');
+  }
+}
+
+export const DELETE = withFeature({ feature: 'profile', action: 'update' })(handleRevokeSession);
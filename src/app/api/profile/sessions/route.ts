@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withFeature, getUserFromRequest } from '@/lib/withFeature';
+import { authService } from '@/services';
+import { AuthRequestHandler, handleSessionError } from '../../_shared';
+
+/**
+ * Handler untuk mengambil daftar session aktif user yang sedang login ("Your sessions")
+ * Setiap session berisi label device, IP, dan waktu terakhir aktif;
+ * session dari request ini ditandai current berdasarkan cookie refresh token
+ * Memerlukan permission 'profile:read'
+ */
+async function handleGetSessions(req: NextRequest): Promise<NextResponse> {
+  try {
+    const currentUser = getUserFromRequest(req);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        message: 'User tidak terautentikasi'
+      }, { status: 401 });
+    }
+
+    const sessions = await authService.getUserSessions(
+      currentUser.id,
+      AuthRequestHandler.getRefreshTokenFromCookie(req)
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: { sessions },
+      message: 'Berhasil mengambil daftar session'
+    });
+  } catch (error) {
+    return handleSessionError(error, 'Gagal mengambil daftar session');
+  }
+}
+
+export const GET = withFeature({ feature: 'profile', action: 'read' })(handleGetSessions);
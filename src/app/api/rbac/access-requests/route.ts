@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withFeature } from "@/lib/withFeature";
+import { accessRequestService } from "@/services/rbac/accessRequestService";
+import { ACCESS_REQUEST_STATUSES, type AccessRequestStatus } from "@/services/rbac/types";
+import { handleAccessRequestError } from "../../_shared";
+
+/**
+ * Handler untuk mengambil semua access request role (overview admin)
+ * Query parameter opsional: status=pending|approved|rejected|cancelled
+ * Memerlukan permission 'role_management' dengan action 'read'
+ */
+async function handleGetAccessRequests(request: NextRequest): Promise<NextResponse> {
+  try {
+    const status = new URL(request.url).searchParams.get('status');
+    if (status && !ACCESS_REQUEST_STATUSES.includes(status as AccessRequestStatus)) {
+      return NextResponse.json({
+        success: false,
+        message: `Status tidak valid. Gunakan salah satu dari: ${ACCESS_REQUEST_STATUSES.join(', ')}`
+      }, { status: 400 });
+    }
+
+    const requests = await accessRequestService.getAllRequests(
+      (status as AccessRequestStatus | null) ?? undefined
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: { requests },
+      message: 'Berhasil mengambil access request'
+    });
+  } catch (error) {
+    return handleAccessRequestError(error, 'Terjadi kesalahan saat mengambil access request');
+  }
+}
+
+export const GET = withFeature({ feature: 'role_management', action: 'read' })(handleGetAccessRequests);
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withFeature, getUserFromRequest } from "@/lib/withFeature";
+import { accessReviewService } from "@/services/rbac/accessReviewService";
+import { handleAccessRequestError } from "../../../../_shared";
+
+/**
+ * Handler untuk menutup campaign access review
+ * Keputusan revoke diterapkan ke role assignment user saat campaign ditutup;
+ * menutup ulang campaign yang sudah ditutup mengulang revoke yang gagal
+ * Memerlukan permission 'role_management' dengan action 'update'
+ */
+async function handleCloseCampaign(request: NextRequest): Promise<NextResponse> {
+  try {
+    const currentUser = getUserFromRequest(request);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        message: 'User tidak terautentikasi'
+      }, { status: 401 });
+    }
+
+    const pathSegments = new URL(request.url).pathname.split('/');
+    const campaignId = parseInt(pathSegments[pathSegments.findIndex(segment => segment === 'access-reviews') + 1], 10);
+    if (isNaN(campaignId)) {
+      return NextResponse.json(
+        { success: false, message: 'ID campaign tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    const result = await accessReviewService.closeCampaign(campaignId, currentUser.id);
+
+    return NextResponse.json({
+      success: true,
+      data: { result },
+      message: `Campaign ditutup, ${result.revoked} role assignment dicabut` +
+        (result.failed > 0 ? `, ${result.failed} gagal (tutup ulang campaign untuk mengulang)` : '')
+    });
+  } catch (error) {
+    return handleAccessRequestError(error, 'Terjadi kesalahan saat menutup access review campaign');
+  }
+}
+
+export const POST = withFeature({ feature: 'role_management', action: 'update' })(handleCloseCampaign);
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withFeature } from "@/lib/withFeature";
+import { accessReviewService } from "@/services/rbac/accessReviewService";
+import { handleAccessRequestError } from "../../../../_shared";
+
+/**
+ * Handler untuk export keputusan campaign access review ke CSV (bukti audit)
+ * Memerlukan permission 'role_management' dengan action 'read'
+ */
+async function handleExportCampaign(request: NextRequest): Promise<NextResponse> {
+  try {
+    const pathSegments = new URL(request.url).pathname.split('/');
+    const campaignId = parseInt(pathSegments[pathSegments.findIndex(segment => segment === 'access-reviews') + 1], 10);
+    if (isNaN(campaignId)) {
+      return NextResponse.json(
+        { success: false, message: 'ID campaign tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    const csv = await accessReviewService.exportDecisionsCsv(campaignId);
+
+    return new NextResponse(csv, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="access-review-${campaignId}.csv"`
+      }
+    });
+  } catch (error) {
+    return handleAccessRequestError(error, 'Terjadi kesalahan saat export access review campaign');
+  }
+}
+
+export const GET = withFeature({ feature: 'role_management', action: 'read' })(handleExportCampaign);
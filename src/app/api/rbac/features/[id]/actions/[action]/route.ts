@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { featureService } from '@/services/rbac/featureService';
+import { withFeature } from '@/lib/withFeature';
+import type { AuthenticatedRequest } from '@/lib/auth/authMiddleware';
+import { RBACError } from '@/services/rbac/types';
+
+/**
+ * Handler untuk menghapus action custom dari feature
+ * Grant role untuk action tersebut ikut terhapus
+ * Memerlukan permission 'feature_management' dengan action 'update'
+ */
+async function handleDeleteFeatureAction(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const pathSegments = new URL(request.url).pathname.split('/');
+    const featureId = parseInt(pathSegments[pathSegments.findIndex(segment => segment === 'features') + 1], 10);
+    const actionName = decodeURIComponent(pathSegments[pathSegments.length - 1]);
+
+    if (isNaN(featureId)) {
+      return NextResponse.json(
+        { success: false, message: 'Feature ID harus berupa angka' },
+        { status: 400 }
+      );
+    }
+
+    await featureService.removeFeatureAction(featureId, actionName);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Action berhasil dihapus'
+    });
+  } catch (error) {
+    if (error instanceof RBACError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error('Delete feature action error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Terjadi kesalahan saat menghapus action feature' },
+      { status: 500 }
+    );
+  }
+}
+
+// Export handlers dengan withFeature wrapper
+export const DELETE = withFeature({ feature: 'feature_management', action: 'update' })(handleDeleteFeatureAction);
@@ -17,13 +17,16 @@ async function handleGetFeatures(request: NextRequest): Promise<NextResponse> {
     // Ambil semua features
     const features = await featureService.getAllFeatures();
     
-    // Tambahkan roleCount untuk setiap feature
+    const featureActions = await featureService.getAllFeatureActions();
+    
+    // Tambahkan roleCount dan action custom untuk setiap feature
     const featuresWithRoleCount = await Promise.all(
       features.map(async (feature) => {
         const roleCount = await roleFeatureRepository.countRolesByFeature(feature.id);
         return {
           ...feature,
-          roleCount
+          roleCount,
+          actions: featureActions.filter(action => action.featureId === feature.id)
         };
       })
     );
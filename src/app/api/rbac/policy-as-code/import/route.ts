@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withFeature, getUserFromRequest } from "@/lib/withFeature";
+import { policyAsCodeService } from "@/services/rbac/policyAsCodeService";
+import { handlePolicyDocumentError, readPolicyDocument } from "../../../_shared";
+
+/**
+ * Handler untuk import dokumen policy-as-code
+ * Body: dokumen hasil export, JSON atau YAML (Content-Type application/yaml). Query parameter dryRun (default true) hanya menghitung diff;
+ * dryRun=false menerapkan seluruh perubahan dalam satu transaksi dan mencatatnya ke change_history.
+ * Entity yang tidak ada di dokumen akan dihapus.
+ * Memerlukan permission 'role_management' dengan action 'update'
+ */
+async function handleImportPolicyDocument(request: NextRequest): Promise<NextResponse> {
+  try {
+    const currentUser = getUserFromRequest(request);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        message: 'User tidak terautentikasi'
+      }, { status: 401 });
+    }
+
+    const dryRun = new URL(request.url).searchParams.get('dryRun') !== 'false';
+    const body = await readPolicyDocument(request);
+    const result = await policyAsCodeService.importDocument(currentUser.id, body, { dryRun });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: result.dryRun
+        ? `Dry-run: ${result.diff.changes.length} perubahan akan diterapkan`
+        : `${result.diff.changes.length} perubahan berhasil diterapkan`
+    });
+  } catch (error) {
+    return handlePolicyDocumentError(error, 'Terjadi kesalahan saat import dokumen policy');
+  }
+}
+
+export const POST = withFeature({ feature: 'role_management', action: 'update' })(handleImportPolicyDocument);
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withFeature, getUserFromRequest } from "@/lib/withFeature";
+import { separationOfDutiesService } from "@/services/rbac/separationOfDutiesService";
+import { handleAccessRequestError } from "../../_shared";
+
+/**
+ * Handler untuk mengambil semua constraint separation-of-duties beserta role-nya
+ * Memerlukan permission 'role_management' dengan action 'read'
+ */
+async function handleGetConstraints(): Promise<NextResponse> {
+  try {
+    const constraints = await separationOfDutiesService.getConstraints();
+
+    return NextResponse.json({
+      success: true,
+      data: { constraints },
+      message: 'Berhasil mengambil constraint separation-of-duties'
+    });
+  } catch (error) {
+    return handleAccessRequestError(error, 'Terjadi kesalahan saat mengambil constraint separation-of-duties');
+  }
+}
+
+/**
+ * Handler untuk membuat constraint separation-of-duties
+ * Body: { name, description?, roleIds, maxRoles? } - maxRoles default 1 (role saling eksklusif)
+ * Memerlukan permission 'role_management' dengan action 'create'
+ */
+async function handleCreateConstraint(request: NextRequest): Promise<NextResponse> {
+  try {
+    const currentUser = getUserFromRequest(request);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        message: 'User tidak terautentikasi'
+      }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const constraint = await separationOfDutiesService.createConstraint(currentUser.id, body);
+
+    return NextResponse.json({
+      success: true,
+      data: { constraint },
+      message: 'Constraint separation-of-duties berhasil dibuat'
+    }, { status: 201 });
+  } catch (error) {
+    return handleAccessRequestError(error, 'Terjadi kesalahan saat membuat constraint separation-of-duties');
+  }
+}
+
+export const GET = withFeature({ feature: 'role_management', action: 'read' })(handleGetConstraints);
+export const POST = withFeature({ feature: 'role_management', action: 'create' })(handleCreateConstraint);
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { withFeature } from "@/lib/withFeature";
+import { separationOfDutiesService } from "@/services/rbac/separationOfDutiesService";
+import { handleAccessRequestError } from "../../../_shared";
+
+/**
+ * Handler untuk laporan user yang saat ini melanggar constraint separation-of-duties
+ * (contoh: assignment yang sudah ada sebelum constraint dibuat)
+ * Memerlukan permission 'role_management' dengan action 'read'
+ */
+async function handleGetViolations(): Promise<NextResponse> {
+  try {
+    const report = await separationOfDutiesService.getViolationReport();
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+      message: 'Berhasil mengambil laporan pelanggaran separation-of-duties'
+    });
+  } catch (error) {
+    return handleAccessRequestError(error, 'Terjadi kesalahan saat mengambil laporan pelanggaran separation-of-duties');
+  }
+}
+
+export const GET = withFeature({ feature: 'role_management', action: 'read' })(handleGetViolations);
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { rbacService } from '@/services';
+import { rbacService, userRoleService } from '@/services';
 import { withFeature, getUserFromRequest } from '@/lib/withFeature';
 
 /**
@@ -29,7 +29,10 @@ async function handleGetUserRoles(
     }
 
     console.log(`Fetching roles for user ID: ${userId}`);
-    const roles = await rbacService.getUserRoles(userId);
+    // includeInactive=true menyertakan assignment terjadwal/expired beserta status-nya
+    const roles = url.searchParams.get('includeInactive') === 'true'
+      ? await userRoleService.getUserRoleAssignments(Number(userId))
+      : await rbacService.getUserRoles(userId);
     console.log(`Found ${roles.length} roles for user ${userId}:`, roles);
     
     return NextResponse.json({
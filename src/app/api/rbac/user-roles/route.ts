@@ -2,11 +2,15 @@ import { NextRequest, NextResponse } from "next/server";
 import { userRoleService } from "@/services";
 import { withFeature, getUserFromRequest } from "@/lib/withFeature";
 import { z } from "zod";
+import { ConflictError, ErrorHandler } from "@/lib/errors/errorHandler";
 
 // Schema validasi untuk assign role
 const assignRoleSchema = z.object({
   userId: z.number().int().positive("User ID harus berupa angka positif"),
-  roleId: z.number().int().positive("Role ID harus berupa angka positif")
+  roleId: z.number().int().positive("Role ID harus berupa angka positif"),
+  // Masa berlaku opsional (ISO date string); tanpa validUntil assignment permanen
+  validFrom: z.coerce.date().nullable().optional(),
+  validUntil: z.coerce.date().nullable().optional()
 });
 
 /**
@@ -42,6 +46,11 @@ async function handleAssignRole(request: NextRequest): Promise<NextResponse> {
       }, { status: 400 });
     }
     
+    // Role yang melanggar separation-of-duties (409)
+    if (error instanceof ConflictError) {
+      return ErrorHandler.createErrorResponse(error);
+    }
+    
     if (error instanceof Error) {
       return NextResponse.json({
         success: false,
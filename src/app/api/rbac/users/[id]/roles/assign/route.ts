@@ -2,12 +2,16 @@ import { NextRequest, NextResponse } from "next/server";
 import { userRoleService } from "@/services";
 import { withFeature, getUserFromRequest } from "@/lib/withFeature";
 import { z } from "zod";
+import { ConflictError, ErrorHandler } from "@/lib/errors/errorHandler";
 
 /**
  * Schema validasi untuk assign role
  */
 const assignRoleSchema = z.object({
-  roleId: z.number().int().positive("Role ID harus berupa integer positif")
+  roleId: z.number().int().positive("Role ID harus berupa integer positif"),
+  // Masa berlaku opsional (ISO date string); tanpa validUntil assignment permanen
+  validFrom: z.coerce.date().nullable().optional(),
+  validUntil: z.coerce.date().nullable().optional()
 });
 
 /**
@@ -39,7 +43,7 @@ async function handleAssignRole(
     
     const userRole = await userRoleService.assignRole({
       userId,
-      roleId: validatedData.roleId
+      ...validatedData
     });
     
     return NextResponse.json({
@@ -57,6 +61,11 @@ async function handleAssignRole(
       }, { status: 400 });
     }
     
+    // Role yang melanggar separation-of-duties (409)
+    if (error instanceof ConflictError) {
+      return ErrorHandler.createErrorResponse(error);
+    }
+    
     if (error instanceof Error) {
       return NextResponse.json({
         success: false,
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { rbacService } from '@/services/rbac/rbacService';
+import { roleService } from '@/services/rbac/roleService';
+import { withFeature } from "@/lib/withFeature";
+import type { AuthenticatedRequest } from "@/lib/auth/authMiddleware";
+import { RBACError } from '@/services/rbac/types';
+
+/**
+ * Handler untuk mendapatkan permission efektif role (langsung + diwariskan dari parent role)
+ * Memerlukan permission 'role_management' dengan action 'read'
+ */
+async function handleGetEffectivePermissions(request: AuthenticatedRequest): Promise<NextResponse> {
+  // Extract params from URL
+  const url = new URL(request.url);
+  const pathSegments = url.pathname.split('/');
+  const roleIdIndex = pathSegments.findIndex(segment => segment === 'roles') + 1;
+  const roleIdParam = pathSegments[roleIdIndex];
+  try {
+    const roleId = parseInt(roleIdParam)
+    if (isNaN(roleId)) {
+      return NextResponse.json(
+        { error: 'Invalid role ID' },
+        { status: 400 }
+      )
+    }
+
+    // Lineage: role itu sendiri diikuti parent role hingga root
+    const [, ...ancestors] = await roleService.getRoleLineage(roleId);
+    const permissions = await rbacService.getEffectiveRolePermissions(roleId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ancestors: ancestors.map(role => ({ id: role.id, name: role.name })),
+        permissions
+      }
+    })
+  } catch (error) {
+    console.error('Error fetching effective role permissions:', error);
+    
+    // Handle RBACError (role tidak ditemukan)
+    if (error instanceof RBACError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Export handlers dengan withFeature wrapper
+export const GET = withFeature({ feature: 'role_management', action: 'read' })(handleGetEffectivePermissions);
@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { withFeature } from "@/lib/withFeature";
+import type { AuthenticatedRequest } from "@/lib/auth/authMiddleware";
+import { roleFeatureService } from "@/services/rbac/roleFeatureService";
+import { RBACError } from "@/services/rbac/types";
+import { versionCommentSchema } from "@/db/schema";
+import { z } from "zod";
+
+/**
+ * Ambil role ID, feature ID, dan versi dari URL path (/roles/[id]/features/[featureId]/versions/[version]/rollback)
+ * @param request - Request object
+ * @returns { roleId, featureId, version } - NaN jika tidak valid
+ */
+function getPathIds(request: AuthenticatedRequest): { roleId: number; featureId: number; version: number } {
+  const pathSegments = new URL(request.url).pathname.split('/');
+  return {
+    roleId: parseInt(pathSegments[pathSegments.findIndex(segment => segment === 'roles') + 1], 10),
+    featureId: parseInt(pathSegments[pathSegments.findIndex(segment => segment === 'features') + 1], 10),
+    version: parseInt(pathSegments[pathSegments.findIndex(segment => segment === 'versions') + 1], 10)
+  };
+}
+
+/**
+ * Handler untuk mengembalikan permission role-feature ke versi tertentu
+ * Body: { comment?: string }
+ * Rollback dicatat sebagai versi baru dan ke change_history
+ * Memerlukan permission 'role_management' dengan action 'update'
+ */
+async function handleRollbackRoleFeature(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const { roleId, featureId, version } = getPathIds(request);
+    if (isNaN(roleId) || isNaN(featureId) || isNaN(version)) {
+      return NextResponse.json(
+        { success: false, message: 'ID role, feature, atau versi tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    if (!request.user) {
+      return NextResponse.json(
+        { success: false, message: 'User tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { comment } = versionCommentSchema.parse(body);
+
+    const rollbackVersion = await roleFeatureService.rollbackToVersion(roleId, featureId, version, request.user.id, comment);
+
+    return NextResponse.json({
+      success: true,
+      data: { version: rollbackVersion },
+      message: `Permission dikembalikan ke versi ${version}`
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, message: 'Data tidak valid', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    // Role, feature, atau versi tidak ditemukan
+    if (error instanceof RBACError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error('Error rolling back role feature:', error);
+    return NextResponse.json(
+      { success: false, message: 'Terjadi kesalahan saat rollback permission' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withFeature({ feature: 'role_management', action: 'update' })(handleRollbackRoleFeature);
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { roleService } from '@/services/rbac/roleService'
 import { withFeature, getUserFromRequest } from '@/lib/withFeature'
+import { versionCommentSchema } from '@/db/schema'
+import { RoleHierarchyCycleError } from '@/services/rbac/types'
 
 /**
  * Handler untuk mendapatkan detail role berdasarkan ID
@@ -93,7 +95,11 @@ async function handleUpdateRole(
     }
 
     // Update role - biarkan roleService yang handle mapping grants_all
-    const updatedRole = await roleService.updateRole(roleId, body);
+    const { comment } = versionCommentSchema.parse(body);
+    const updatedRole = await roleService.updateRole(roleId, body, {
+      authorId: authenticatedUser?.id ?? null,
+      comment
+    });
 
     return NextResponse.json({
       success: true,
@@ -103,6 +109,13 @@ async function handleUpdateRole(
     }, { status: 200 });
     
   } catch (error) {
+    if (error instanceof RoleHierarchyCycleError) {
+      return NextResponse.json({
+        success: false,
+        message: error.message,
+      }, { status: 400 });
+    }
+
     if (error instanceof Error) {
       return NextResponse.json({
         success: false,
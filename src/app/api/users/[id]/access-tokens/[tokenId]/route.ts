@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { changeHistoryService } from '@/services/audit/changeHistoryService';
+import { accessTokenService } from '@/lib/auth/authService/accessTokenService';
+import { withFeature, getUserFromRequest, resourceIdFromPath } from '@/lib/withFeature';
+import { handleAccessTokenError } from '../../../../_shared';
+
+/**
+ * Ambil user ID dan token ID dari URL path (/users/{id}/access-tokens/{tokenId})
+ * @param request - NextRequest
+ * @returns ID user dan token, atau null jika tidak valid
+ */
+function getTargetIds(request: NextRequest): { userId: number; tokenId: number } | null {
+  const pathSegments = new URL(request.url).pathname.split('/');
+  const usersIndex = pathSegments.findIndex(segment => segment === 'users');
+  const userId = parseInt(pathSegments[usersIndex + 1], 10);
+  const tokenId = parseInt(pathSegments[usersIndex + 3], 10);
+  return isNaN(userId) || isNaN(tokenId) ? null : { userId, tokenId };
+}
+
+/**
+ * Handler untuk mencabut personal access token milik user
+ * Token yang dicabut langsung ditolak pada request berikutnya
+ * Memerlukan permission 'user_management' dengan action 'update'
+ */
+async function handleRevokeAccessToken(request: NextRequest): Promise<NextResponse> {
+  try {
+    const adminUser = getUserFromRequest(request);
+    const ids = getTargetIds(request);
+    if (!ids) {
+      return NextResponse.json(
+        { success: false, message: 'ID user atau token tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    const accessToken = await accessTokenService.revokeToken(ids.tokenId, ids.userId);
+
+    await changeHistoryService.logChangeHistory({
+      adminUserId: adminUser?.id ?? null,
+      targetUserId: ids.userId,
+      action: 'revokeAccessToken',
+      before: JSON.stringify({ tokenId: accessToken.id, name: accessToken.name, status: accessToken.status })
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { tokenId: accessToken.id },
+      message: `Access token ${accessToken.name} berhasil dicabut`
+    });
+  } catch (error) {
+    return handleAccessTokenError(error, 'Gagal mencabut access token');
+  }
+}
+
+// Export handler dengan withFeature wrapper untuk otorisasi
+export const DELETE = withFeature({ feature: 'user_management', action: 'update', resourceId: resourceIdFromPath(2) })(handleRevokeAccessToken);
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { userRoleService } from '@/services';
-import { withFeature, getUserFromRequest } from '@/lib/withFeature';
+import { withFeature, getUserFromRequest, resourceIdFromPath } from '@/lib/withFeature';
 import { z } from 'zod';
+import { ConflictError, ErrorHandler } from '@/lib/errors/errorHandler';
 
 /**
  * Schema validasi untuk update user roles
@@ -39,7 +40,10 @@ async function handleGetUserRoles(
     }
 
     console.log(`Fetching roles for user ID: ${userId}`);
-    const roles = await userRoleService.getUserRoles(parseInt(userId));
+    // includeInactive=true menyertakan assignment terjadwal/expired beserta status-nya
+    const roles = url.searchParams.get('includeInactive') === 'true'
+      ? await userRoleService.getUserRoleAssignments(parseInt(userId))
+      : await userRoleService.getUserRoles(parseInt(userId));
     console.log(`Found ${roles.length} roles for user ${userId}:`, roles);
     
     return NextResponse.json({
@@ -125,6 +129,11 @@ async function handleUpdateUserRoles(
       }, { status: 400 });
     }
     
+    // Role yang melanggar separation-of-duties (409)
+    if (error instanceof ConflictError) {
+      return ErrorHandler.createErrorResponse(error);
+    }
+    
     if (error instanceof Error) {
       console.error('Update user roles error details:', {
         message: error.message,
@@ -146,5 +155,5 @@ async function handleUpdateUserRoles(
 }
 
 // Export handlers dengan withFeature wrapper untuk otorisasi
-export const GET = withFeature({ feature: 'user_management', action: 'read' })(handleGetUserRoles);
-export const PUT = withFeature({ feature: 'user_management', action: 'update' })(handleUpdateUserRoles);
\ No newline at end of file
+export const GET = withFeature({ feature: 'user_management', action: 'read', resourceId: resourceIdFromPath(1) })(handleGetUserRoles);
+export const PUT = withFeature({ feature: 'user_management', action: 'update', resourceId: resourceIdFromPath(1) })(handleUpdateUserRoles);
\ No newline at end of file
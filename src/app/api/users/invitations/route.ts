@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withFeature, getUserFromRequest } from "@/lib/withFeature";
+import { userInvitationService } from "@/services/user/userInvitationService";
+import { USER_INVITATION_STATUSES, type UserInvitationStatus } from "@/services/user/types";
+import { handleInvitationError } from "../../_shared";
+
+/**
+ * Handler untuk mengambil daftar undangan user beserta status dan role
+ * Query parameter opsional: status=pending|accepted|expired|revoked
+ * Memerlukan permission 'user_management' dengan action 'read'
+ */
+async function handleGetInvitations(request: NextRequest): Promise<NextResponse> {
+  try {
+    const status = new URL(request.url).searchParams.get('status');
+    if (status && !USER_INVITATION_STATUSES.includes(status as UserInvitationStatus)) {
+      return NextResponse.json({
+        success: false,
+        message: `Status tidak valid. Gunakan salah satu dari: ${USER_INVITATION_STATUSES.join(', ')}`
+      }, { status: 400 });
+    }
+
+    const invitations = await userInvitationService.getInvitations(
+      (status as UserInvitationStatus | null) ?? undefined
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: { invitations },
+      message: 'Berhasil mengambil undangan user'
+    });
+  } catch (error) {
+    return handleInvitationError(error, 'Terjadi kesalahan saat mengambil undangan user');
+  }
+}
+
+/**
+ * Handler untuk mengundang user baru lewat email
+ * Role dan ABAC attributes ditetapkan sekarang dan diterapkan saat undangan diterima
+ * Body: { email, name?, roleIds?, attributes?: { department?, region?, level?, customAttributes? } }
+ * Memerlukan permission 'user_management' dengan action 'create'
+ */
+async function handleCreateInvitation(request: NextRequest): Promise<NextResponse> {
+  try {
+    const currentUser = getUserFromRequest(request);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        message: 'User tidak terautentikasi'
+      }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const invitation = await userInvitationService.createInvitation(currentUser.id, body);
+
+    return NextResponse.json({
+      success: true,
+      data: { invitation },
+      message: `Undangan berhasil dikirim ke ${invitation.email}`
+    }, { status: 201 });
+  } catch (error) {
+    return handleInvitationError(error, 'Terjadi kesalahan saat membuat undangan user');
+  }
+}
+
+export const GET = withFeature({ feature: 'user_management', action: 'read' })(handleGetInvitations);
+export const POST = withFeature({ feature: 'user_management', action: 'create' })(handleCreateInvitation);
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withFeature, getUserFromRequest } from "@/lib/withFeature";
+import { serviceAccountService } from "@/services/user/serviceAccountService";
+import { handleAccessTokenError } from "../../_shared";
+
+/**
+ * Handler untuk mengambil daftar service account beserta role dan jumlah token aktif
+ * Memerlukan permission 'user_management' dengan action 'read'
+ */
+async function handleGetServiceAccounts(): Promise<NextResponse> {
+  try {
+    const serviceAccounts = await serviceAccountService.getServiceAccounts();
+
+    return NextResponse.json({
+      success: true,
+      data: { serviceAccounts },
+      message: 'Berhasil mengambil service account'
+    });
+  } catch (error) {
+    return handleAccessTokenError(error, 'Terjadi kesalahan saat mengambil service account');
+  }
+}
+
+/**
+ * Handler untuk membuat service account untuk automation
+ * Service account tidak dapat login dengan password; akses API memakai personal access token
+ * Body: { name, department?, region?, roleIds? }
+ * Memerlukan permission 'user_management' dengan action 'create'
+ */
+async function handleCreateServiceAccount(request: NextRequest): Promise<NextResponse> {
+  try {
+    const currentUser = getUserFromRequest(request);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        message: 'User tidak terautentikasi'
+      }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const serviceAccount = await serviceAccountService.createServiceAccount(currentUser.id, body);
+
+    return NextResponse.json({
+      success: true,
+      data: { serviceAccount },
+      message: `Service account ${serviceAccount.name} berhasil dibuat`
+    }, { status: 201 });
+  } catch (error) {
+    return handleAccessTokenError(error, 'Terjadi kesalahan saat membuat service account');
+  }
+}
+
+export const GET = withFeature({ feature: 'user_management', action: 'read' })(handleGetServiceAccounts);
+export const POST = withFeature({ feature: 'user_management', action: 'create' })(handleCreateServiceAccount);
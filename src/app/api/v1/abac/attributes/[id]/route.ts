@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from "next/server";
+import { attributeDefinitionService } from "@/services/abac/attributeDefinitionService";
+import { updateAttributeDefinitionSchema } from "@/db/schema";
+import { z } from "zod";
+
+/**
+ * GET /api/v1/abac/attributes/[id]
+ * Ambil custom attribute berdasarkan ID
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const attributeId = parseInt(resolvedParams.id, 10);
+
+    if (isNaN(attributeId)) {
+      return NextResponse.json(
+        { error: "Attribute ID harus berupa angka" },
+        { status: 400 }
+      );
+    }
+
+    const definition = await attributeDefinitionService.getDefinitionById(attributeId);
+
+    if (!definition) {
+      return NextResponse.json(
+        { error: "Attribute tidak ditemukan" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...definition,
+        allowedValues: attributeDefinitionService.getAllowedValues(definition)
+      }
+    });
+  } catch (error) {
+    console.error("Error mengambil attribute definition:", error);
+    return NextResponse.json(
+      { error: "Gagal mengambil attribute" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/v1/abac/attributes/[id]
+ * Update tipe, allowed values, atau deskripsi custom attribute
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const attributeId = parseInt(resolvedParams.id, 10);
+
+    if (isNaN(attributeId)) {
+      return NextResponse.json(
+        { error: "Attribute ID harus berupa angka" },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+
+    // Validasi input dengan Zod
+    const validatedData = updateAttributeDefinitionSchema.parse(body);
+
+    const definition = await attributeDefinitionService.updateDefinition(attributeId, validatedData);
+
+    return NextResponse.json(
+      {
+        message: "Attribute berhasil diupdate",
+        attribute: {
+          ...definition,
+          allowedValues: attributeDefinitionService.getAllowedValues(definition)
+        }
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Data tidak valid",
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message.includes("tidak ditemukan")) {
+      return NextResponse.json(
+        { error: "Attribute tidak ditemukan" },
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof Error && error.message.includes("Allowed values")) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error mengupdate attribute definition:", error);
+    return NextResponse.json(
+      { error: "Gagal mengupdate attribute" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/v1/abac/attributes/[id]
+ * Hapus custom attribute beserta seluruh nilai user-nya
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const attributeId = parseInt(resolvedParams.id, 10);
+
+    if (isNaN(attributeId)) {
+      return NextResponse.json(
+        { error: "Attribute ID harus berupa angka" },
+        { status: 400 }
+      );
+    }
+
+    await attributeDefinitionService.deleteDefinition(attributeId);
+
+    return NextResponse.json(
+      { message: "Attribute berhasil dihapus" },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("tidak ditemukan")) {
+      return NextResponse.json(
+        { error: "Attribute tidak ditemukan" },
+        { status: 404 }
+      );
+    }
+
+    console.error("Error menghapus attribute definition:", error);
+    return NextResponse.json(
+      { error: "Gagal menghapus attribute" },
+      { status: 500 }
+    );
+  }
+}
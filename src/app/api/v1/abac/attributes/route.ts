@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { attributeDefinitionService } from "@/services/abac/attributeDefinitionService";
+import { createAttributeDefinitionSchema } from "@/db/schema";
+import { z } from "zod";
+
+/**
+ * GET /api/v1/abac/attributes
+ * Ambil semua custom attribute yang terdaftar di registry
+ */
+export async function GET() {
+  try {
+    const definitions = await attributeDefinitionService.getAllDefinitions();
+
+    return NextResponse.json({
+      success: true,
+      data: definitions.map(definition => ({
+        ...definition,
+        allowedValues: attributeDefinitionService.getAllowedValues(definition)
+      }))
+    });
+  } catch (error) {
+    console.error("Error mengambil attribute definitions:", error);
+    return NextResponse.json(
+      { error: "Gagal mengambil attribute definitions" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/v1/abac/attributes
+ * Daftarkan custom attribute baru (nama, tipe, dan allowed values)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Validasi input dengan Zod
+    const validatedData = createAttributeDefinitionSchema.parse(body);
+
+    const definition = await attributeDefinitionService.createDefinition(validatedData);
+
+    return NextResponse.json(
+      {
+        message: "Attribute berhasil dibuat",
+        attribute: {
+          ...definition,
+          allowedValues: attributeDefinitionService.getAllowedValues(definition)
+        }
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Data tidak valid",
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message.includes("sudah ada")) {
+      return NextResponse.json(
+        { error: "Attribute dengan nama tersebut sudah terdaftar" },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof Error && error.message.includes("Allowed values")) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error membuat attribute definition:", error);
+    return NextResponse.json(
+      { error: "Gagal membuat attribute" },
+      { status: 500 }
+    );
+  }
+}
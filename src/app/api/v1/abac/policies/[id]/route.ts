@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { abacService } from "@/services";
+import { policyExpressionSchema, createPolicyConditionSchema, updatePolicyEnforcementModeSchema, versionCommentSchema } from "@/db/schema";
+import { getUserFromRequest } from "@/lib/withFeature";
+import { z } from "zod";
 
 /**
  * GET /api/v1/abac/policies/[id]
- * Ambil policy ABAC berdasarkan ID
+ * Ambil policy ABAC berdasarkan ID beserta expression tree-nya
  */
 export async function GET(
   request: NextRequest,
@@ -20,7 +23,7 @@ export async function GET(
       );
     }
 
-    const policy = await abacService.getPolicyById(policyId);
+    const policy = await abacService.getPolicyWithExpression(policyId);
     
     if (!policy) {
       return NextResponse.json(
@@ -42,9 +45,162 @@ export async function GET(
   }
 }
 
+/**
+ * Schema body untuk update policy: expression tree atau condition tunggal
+ */
+const updatePolicyBodySchema = z.union([
+  z.object({ expression: policyExpressionSchema }),
+  createPolicyConditionSchema.omit({ featureId: true })
+]);
+
+/**
+ * PUT /api/v1/abac/policies/[id]
+ * Ganti isi policy ABAC (condition atau group AND/OR/NOT)
+ * Isi sebelumnya tetap tersimpan di history versi; body boleh berisi comment
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const policyId = parseInt(resolvedParams.id, 10);
+    
+    if (isNaN(policyId)) {
+      return NextResponse.json(
+        { error: "Policy ID harus berupa angka" },
+        { status: 400 }
+      );
+    }
+
+    const existingPolicy = await abacService.getPolicyById(policyId);
+    
+    if (!existingPolicy) {
+      return NextResponse.json(
+        { error: "Policy tidak ditemukan" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = updatePolicyBodySchema.parse(body);
+    const { comment } = versionCommentSchema.parse(body);
+
+    const expression = "expression" in validatedData
+      ? validatedData.expression
+      : {
+          type: "condition" as const,
+          attribute: validatedData.attribute,
+          operator: validatedData.operator,
+          value: validatedData.value
+        };
+
+    const policy = await abacService.updatePolicyExpression(policyId, expression, {
+      authorId: getUserFromRequest(request)?.id ?? null,
+      comment
+    });
+
+    return NextResponse.json({
+      message: "Policy berhasil diupdate",
+      policy
+    }, { status: 200 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { 
+          error: "Data tidak valid",
+          details: error.issues 
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error mengupdate policy:", error);
+    return NextResponse.json(
+      { error: "Gagal mengupdate policy" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/v1/abac/policies/[id]
+ * Ubah enforcement mode root policy: enforce, audit (shadow, hanya dicatat), atau disabled
+ * Perubahan dicatat ke change_history
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const currentUser = getUserFromRequest(request);
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: "User tidak terautentikasi" },
+        { status: 401 }
+      );
+    }
+
+    const resolvedParams = await params;
+    const policyId = parseInt(resolvedParams.id, 10);
+    
+    if (isNaN(policyId)) {
+      return NextResponse.json(
+        { error: "Policy ID harus berupa angka" },
+        { status: 400 }
+      );
+    }
+
+    const existingPolicy = await abacService.getPolicyById(policyId);
+    
+    if (!existingPolicy) {
+      return NextResponse.json(
+        { error: "Policy tidak ditemukan" },
+        { status: 404 }
+      );
+    }
+
+    if (existingPolicy.parentId !== null) {
+      return NextResponse.json(
+        { error: "Enforcement mode hanya berlaku untuk root policy" },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const { enforcementMode } = updatePolicyEnforcementModeSchema.parse(body);
+    const { comment } = versionCommentSchema.parse(body);
+
+    const policy = await abacService.updatePolicyEnforcementMode(policyId, enforcementMode, currentUser.id, comment);
+
+    return NextResponse.json({
+      success: true,
+      message: `Enforcement mode policy diubah menjadi ${enforcementMode}`,
+      data: policy
+    }, { status: 200 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { 
+          error: "Data tidak valid",
+          details: error.issues 
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error mengubah enforcement mode policy:", error);
+    return NextResponse.json(
+      { error: "Gagal mengubah enforcement mode policy" },
+      { status: 500 }
+    );
+  }
+}
+
 /**
  * DELETE /api/v1/abac/policies/[id]
  * Hapus policy ABAC berdasarkan ID
+ * Penghapusan dicatat sebagai versi baru; alasan dapat dikirim lewat query ?comment=
  */
 export async function DELETE(
   request: NextRequest,
@@ -61,7 +217,14 @@ export async function DELETE(
       );
     }
 
-    const success = await abacService.deletePolicy(policyId);
+    const { comment } = versionCommentSchema.parse({
+      comment: new URL(request.url).searchParams.get("comment") ?? undefined
+    });
+
+    const success = await abacService.deletePolicy(policyId, {
+      authorId: getUserFromRequest(request)?.id ?? null,
+      comment
+    });
     
     if (!success) {
       return NextResponse.json(
@@ -75,6 +238,16 @@ export async function DELETE(
       { status: 200 }
     );
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { 
+          error: "Data tidak valid",
+          details: error.issues 
+        },
+        { status: 400 }
+      );
+    }
+
     console.error("Error menghapus policy:", error);
     return NextResponse.json(
       { error: "Gagal menghapus policy" },
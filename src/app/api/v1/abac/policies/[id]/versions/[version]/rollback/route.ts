@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { abacService } from "@/services";
+import { versionCommentSchema } from "@/db/schema";
+import { getUserFromRequest } from "@/lib/withFeature";
+import { z } from "zod";
+
+/**
+ * POST /api/v1/abac/policies/[id]/versions/[version]/rollback
+ * Kembalikan expression dan enforcement mode policy ke versi tertentu
+ * Rollback dicatat sebagai versi baru dan ke change_history; body boleh berisi comment
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; version: string }> }
+) {
+  try {
+    const currentUser = getUserFromRequest(request);
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: "User tidak terautentikasi" },
+        { status: 401 }
+      );
+    }
+
+    const resolvedParams = await params;
+    const policyId = parseInt(resolvedParams.id, 10);
+    const version = parseInt(resolvedParams.version, 10);
+    
+    if (isNaN(policyId) || isNaN(version)) {
+      return NextResponse.json(
+        { error: "Policy ID dan versi harus berupa angka" },
+        { status: 400 }
+      );
+    }
+
+    const existingPolicy = await abacService.getPolicyById(policyId);
+    
+    if (!existingPolicy) {
+      return NextResponse.json(
+        { error: "Policy tidak ditemukan" },
+        { status: 404 }
+      );
+    }
+
+    if (existingPolicy.parentId !== null) {
+      return NextResponse.json(
+        { error: "Hanya root policy yang memiliki versi" },
+        { status: 400 }
+      );
+    }
+
+    const targetVersion = await abacService.getPolicyVersion(policyId, version);
+
+    if (!targetVersion) {
+      return NextResponse.json(
+        { error: `Versi ${version} tidak ditemukan` },
+        { status: 404 }
+      );
+    }
+
+    if (targetVersion.expression === null) {
+      return NextResponse.json(
+        { error: `Versi ${version} adalah penghapusan policy dan tidak dapat dipulihkan` },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { comment } = versionCommentSchema.parse(body);
+
+    const policy = await abacService.rollbackPolicy(policyId, version, currentUser.id, comment);
+
+    return NextResponse.json({
+      success: true,
+      message: `Policy dikembalikan ke versi ${version}`,
+      data: policy
+    }, { status: 200 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { 
+          error: "Data tidak valid",
+          details: error.issues 
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error rollback policy:", error);
+    return NextResponse.json(
+      { error: "Gagal mengembalikan policy ke versi sebelumnya" },
+      { status: 500 }
+    );
+  }
+}
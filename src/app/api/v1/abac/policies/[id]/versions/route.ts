@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { abacService } from "@/services";
+
+/**
+ * GET /api/v1/abac/policies/[id]/versions
+ * History versi policy (terbaru lebih dulu) dengan author, waktu, komentar,
+ * dan diff expression/enforcement mode terhadap versi sebelumnya
+ * History tetap dapat dibaca setelah policy dihapus
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const policyId = parseInt(resolvedParams.id, 10);
+    
+    if (isNaN(policyId)) {
+      return NextResponse.json(
+        { error: "Policy ID harus berupa angka" },
+        { status: 400 }
+      );
+    }
+
+    const versions = await abacService.getPolicyVersions(policyId);
+
+    return NextResponse.json({
+      success: true,
+      data: versions
+    }, { status: 200 });
+  } catch (error) {
+    console.error("Error mengambil history versi policy:", error);
+    return NextResponse.json(
+      { error: "Gagal mengambil history versi policy" },
+      { status: 500 }
+    );
+  }
+}
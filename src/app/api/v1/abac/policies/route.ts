@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { abacService } from "@/services";
-import { createPolicySchema } from "@/db/schema";
+import { createPolicySchema, versionCommentSchema } from "@/db/schema";
+import { getUserFromRequest } from "@/lib/withFeature";
 import { z } from "zod";
 
 /**
@@ -48,13 +49,21 @@ export async function POST(request: NextRequest) {
     
     // Validasi input dengan Zod
     const validatedData = createPolicySchema.parse(body);
+    const { comment } = versionCommentSchema.parse(body);
+
+    // Versi pertama policy dicatat dengan author dan komentar (opsional)
+    const meta = { authorId: getUserFromRequest(request)?.id ?? null, comment };
     
-    const policy = await abacService.createPolicy({
-      featureId: validatedData.featureId,
-      attribute: validatedData.attribute,
-      operator: validatedData.operator,
-      value: validatedData.value
-    });
+    // Policy berupa expression tree (group AND/OR/NOT) atau condition tunggal
+    const policy = "expression" in validatedData
+      ? await abacService.createPolicyExpression(validatedData, meta)
+      : await abacService.createPolicy({
+          featureId: validatedData.featureId,
+          attribute: validatedData.attribute,
+          operator: validatedData.operator,
+          value: validatedData.value,
+          enforcementMode: validatedData.enforcementMode
+        }, meta);
     
     return NextResponse.json(
       { 
@@ -3,9 +3,46 @@ import { abacService } from "@/services";
 import { updateUserAbacSchema } from "@/db/schema";
 import { z } from "zod";
 
+/**
+ * GET /api/abac/users/[id]/attributes
+ * Ambil user ABAC attributes (bawaan dan custom)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const userId = parseInt(resolvedParams.id, 10);
+
+    if (isNaN(userId)) {
+      return NextResponse.json(
+        { error: "User ID harus berupa angka" },
+        { status: 400 }
+      );
+    }
+
+    const attributes = await abacService.getUserAttributes(userId);
+    return NextResponse.json({ attributes });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("tidak ditemukan")) {
+      return NextResponse.json(
+        { error: "User tidak ditemukan" },
+        { status: 404 }
+      );
+    }
+
+    console.error("Error mengambil user attributes:", error);
+    return NextResponse.json(
+      { error: "Gagal mengambil user attributes" },
+      { status: 500 }
+    );
+  }
+}
+
 /**
  * PUT /api/abac/users/[id]/attributes
- * Update user ABAC attributes (department, region, level)
+ * Update user ABAC attributes (department, region, level, dan custom attributes terdaftar)
  */
 export async function PUT(
   request: NextRequest,
@@ -39,6 +76,8 @@ export async function PUT(
       );
     }
 
+    const { attributes } = await abacService.getUserAttributes(userId);
+
     return NextResponse.json(
       { 
         message: "User attributes berhasil diupdate",
@@ -48,7 +87,8 @@ export async function PUT(
           email: updatedUser.email,
           department: updatedUser.department,
           region: updatedUser.region,
-          level: updatedUser.level
+          level: updatedUser.level,
+          attributes
         }
       },
       { status: 200 }
@@ -64,6 +104,24 @@ export async function PUT(
       );
     }
     
+    // Attribute tidak terdaftar atau nilai tidak sesuai tipe/allowed values
+    if (
+      error instanceof Error &&
+      (error.message.includes("tidak terdaftar") || error.message.includes("tidak valid"))
+    ) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message.includes("tidak ditemukan")) {
+      return NextResponse.json(
+        { error: "User tidak ditemukan" },
+        { status: 404 }
+      );
+    }
+
     console.error("Error mengupdate user attributes:", error);
     return NextResponse.json(
       { error: "Gagal mengupdate user attributes" },
@@ -11,6 +11,8 @@ const policyViolationsQuerySchema = z.object({
   featureId: z.string().optional().transform(val => val ? parseInt(val) : undefined),
   policyId: z.string().optional().transform(val => val ? parseInt(val) : undefined),
   attribute: z.string().optional(),
+  // true: hanya shadow violation (policy mode audit), false: hanya violation yang memblokir akses
+  shadow: z.enum(['true', 'false']).optional().transform(val => val === undefined ? undefined : val === 'true'),
   startDate: z.string().optional().transform(val => val ? new Date(val) : undefined),
   endDate: z.string().optional().transform(val => val ? new Date(val) : undefined),
   limit: z.string().optional().transform(val => val ? parseInt(val) : 50),
@@ -31,6 +33,7 @@ export const GET = withAuthentication(async (request: NextRequest) => {
       featureId: searchParams.get('featureId') || undefined,
       policyId: searchParams.get('policyId') || undefined,
       attribute: searchParams.get('attribute') || undefined,
+      shadow: searchParams.get('shadow') || undefined,
       startDate: searchParams.get('startDate') || undefined,
       endDate: searchParams.get('endDate') || undefined,
       limit: searchParams.get('limit') || undefined,
@@ -62,6 +65,9 @@ export const GET = withAuthentication(async (request: NextRequest) => {
     if (filters.attribute) {
       violations = violations.filter(v => v.attribute === filters.attribute);
     }
+    if (filters.shadow !== undefined) {
+      violations = violations.filter(v => v.shadow === filters.shadow);
+    }
     if (filters.startDate) {
       violations = violations.filter(v => new Date(v.createdAt) >= filters.startDate!);
     }
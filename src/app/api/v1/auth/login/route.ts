@@ -26,6 +26,17 @@ import {
  *     "accessToken": "string"
  *   }
  * }
+ * 
+ * Jika user mengaktifkan MFA, token belum diterbitkan:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "mfaRequired": true,
+ *     "challengeToken": "string",
+ *     "expiresIn": 300
+ *   }
+ * }
+ * Challenge token ditukar dengan token pair melalui POST /api/v1/auth/login/mfa
  */
 export async function POST(request: NextRequest) {
   const context = AuthRequestHandler.createRequestContext(request, "/api/auth/login");
@@ -43,8 +54,16 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    // Login user melalui service layer
-    const authResponse = await authService.login(validation.data!);
+    // Login user melalui service layer (IP dan user agent dicatat di session)
+    const authResponse = await authService.login({
+      ...validation.data!,
+      ...AuthRequestHandler.getClientInfo(request)
+    });
+    
+    // Faktor kedua diperlukan sebelum token diterbitkan
+    if ('mfaRequired' in authResponse) {
+      return AuthResponseBuilder.createMfaChallengeResponse(authResponse);
+    }
     
     // Buat response dengan token dan jalankan route discovery
     const response = await AuthResponseBuilder.createAuthSuccessResponse(
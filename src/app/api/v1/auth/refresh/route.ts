@@ -12,7 +12,9 @@ import {
  * API route untuk refresh access token
  * POST /api/v1/auth/refresh
  * 
- * Menggunakan refresh token dari cookie untuk generate access token baru
+ * Menggunakan refresh token dari cookie untuk generate access token baru.
+ * Refresh token bersifat one-time-use: cookie diganti dengan refresh token baru,
+ * dan pemakaian ulang token lama mencabut seluruh session terkait (401)
  * 
  * Response:
  * {
@@ -51,10 +53,10 @@ export async function POST(request: NextRequest) {
       }
     }, { status: 200 });
     
-    // Refresh token tetap sama, set ulang cookie
+    // Refresh token lama sudah dirotasi, set cookie dengan refresh token baru
     return AuthCookieManager.setRefreshTokenOnResponse(
       response,
-      validation.data!
+      refreshResponse.refreshToken
     );
     
   } catch (error) {
@@ -3,7 +3,6 @@ import { authService } from "@/lib/auth/authService";
 import {
   AuthRequestHandler,
   AuthResponseBuilder,
-  AuthCookieManager,
   AuthValidationHandler,
   AuthErrorHandler,
 } from "../../../_shared";
@@ -19,12 +18,15 @@ import {
  *   "password": "string"
  * }
  * 
+ * Akun dibuat nonaktif dan link verifikasi dikirim ke email user.
+ * Token tidak diterbitkan sampai email diverifikasi (POST /api/v1/auth/verify-email).
+ * 
  * Response:
  * {
  *   "success": true,
  *   "data": {
  *     "user": { ... },
- *     "accessToken": "string"
+ *     "verificationRequired": true
  *   }
  * }
  */
@@ -54,21 +56,10 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    // Registrasi user melalui service layer
-    const authResponse = await authService.register(validation.data!);
-    
-    // Buat response dengan token dan jalankan route discovery
-    const response = await AuthResponseBuilder.createAuthSuccessResponse(
-      "Registrasi berhasil",
-      authResponse,
-      201
-    );
+    // Registrasi user melalui service layer (mengirim email verifikasi)
+    const registration = await authService.register(validation.data!);
     
-    // Set refresh token cookie
-    return AuthCookieManager.setRefreshTokenOnResponse(
-      response,
-      authResponse.refreshToken
-    );
+    return AuthResponseBuilder.createRegistrationResponse(registration);
     
   } catch (error) {
     return AuthErrorHandler.handleServiceError(
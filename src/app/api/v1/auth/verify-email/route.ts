@@ -0,0 +1,59 @@
+import { NextRequest } from "next/server";
+import { authService } from "@/services";
+import {
+  AuthRequestHandler,
+  AuthResponseBuilder,
+  AuthValidationHandler,
+  AuthErrorHandler,
+} from "../../../_shared";
+
+/**
+ * API route untuk verifikasi email self-registration
+ * POST /api/v1/auth/verify-email
+ * 
+ * Token hanya dapat dipakai sekali. Setelah berhasil, akun diaktifkan
+ * dan user dapat login.
+ * 
+ * Body:
+ * {
+ *   "token": "string" // token dari link verifikasi email
+ * }
+ * 
+ * Response:
+ * {
+ *   "success": true,
+ *   "message": "Email berhasil diverifikasi"
+ * }
+ */
+export async function POST(request: NextRequest) {
+  const context = AuthRequestHandler.createRequestContext(request, "/api/v1/auth/verify-email");
+  
+  try {
+    // Parse request body
+    const body = await AuthRequestHandler.parseJsonBody(request);
+    
+    // Validasi input menggunakan validation handler
+    const validation = AuthValidationHandler.validateVerifyEmailData(body);
+    if (!validation.success) {
+      return AuthErrorHandler.handleValidationError(
+        new Error(validation.error),
+        context
+      );
+    }
+    
+    // Pakai token dan aktifkan akun
+    await authService.verifyEmail(validation.data!.token);
+    
+    return AuthResponseBuilder.createSimpleSuccessResponse(
+      "Email berhasil diverifikasi. Silakan login.",
+      200
+    );
+    
+  } catch (error) {
+    return AuthErrorHandler.handleServiceError(
+      error,
+      context,
+      "authService.verifyEmail"
+    );
+  }
+}
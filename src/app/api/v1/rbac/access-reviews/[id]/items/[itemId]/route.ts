@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withFeature } from "@/lib/withFeature";
+import { accessReviewService } from "@/services/rbac/accessReviewService";
+import { handleAccessRequestError } from "../../../../../../_shared";
+
+/**
+ * Handler untuk memindahkan item access review ke reviewer lain
+ * Body: { reviewerId: number }
+ * Memerlukan permission 'role_management' dengan action 'update'
+ */
+async function handleReassignItem(request: NextRequest): Promise<NextResponse> {
+  try {
+    const pathSegments = new URL(request.url).pathname.split('/');
+    const itemId = parseInt(pathSegments[pathSegments.findIndex(segment => segment === 'items') + 1], 10);
+    if (isNaN(itemId)) {
+      return NextResponse.json(
+        { success: false, message: 'ID item tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const item = await accessReviewService.reassignItem(itemId, body);
+
+    return NextResponse.json({
+      success: true,
+      data: { item },
+      message: 'Reviewer item berhasil dipindahkan'
+    });
+  } catch (error) {
+    return handleAccessRequestError(error, 'Terjadi kesalahan saat memindahkan reviewer item');
+  }
+}
+
+export const PUT = withFeature({ feature: 'role_management', action: 'update' })(handleReassignItem);
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withFeature } from "@/lib/withFeature";
+import { accessReviewService } from "@/services/rbac/accessReviewService";
+import { handleAccessRequestError } from "../../../../_shared";
+
+/**
+ * Handler untuk mengambil detail campaign access review beserta progress dan item-nya
+ * Memerlukan permission 'role_management' dengan action 'read'
+ */
+async function handleGetCampaign(request: NextRequest): Promise<NextResponse> {
+  try {
+    const pathSegments = new URL(request.url).pathname.split('/');
+    const campaignId = parseInt(pathSegments[pathSegments.findIndex(segment => segment === 'access-reviews') + 1], 10);
+    if (isNaN(campaignId)) {
+      return NextResponse.json(
+        { success: false, message: 'ID campaign tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    const [campaign, items] = await Promise.all([
+      accessReviewService.getCampaignById(campaignId),
+      accessReviewService.getCampaignItems(campaignId)
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: { campaign, items },
+      message: 'Berhasil mengambil access review campaign'
+    });
+  } catch (error) {
+    return handleAccessRequestError(error, 'Terjadi kesalahan saat mengambil access review campaign');
+  }
+}
+
+export const GET = withFeature({ feature: 'role_management', action: 'read' })(handleGetCampaign);
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withFeature, getUserFromRequest } from "@/lib/withFeature";
+import { accessReviewService } from "@/services/rbac/accessReviewService";
+import { ACCESS_REVIEW_CAMPAIGN_STATUSES, type AccessReviewCampaignStatus } from "@/services/rbac/types";
+import { handleAccessRequestError } from "../../../_shared";
+
+/**
+ * Handler untuk mengambil semua campaign access review beserta progress
+ * Query parameter opsional: status=open|closed
+ * Memerlukan permission 'role_management' dengan action 'read'
+ */
+async function handleGetCampaigns(request: NextRequest): Promise<NextResponse> {
+  try {
+    const status = new URL(request.url).searchParams.get('status');
+    if (status && !ACCESS_REVIEW_CAMPAIGN_STATUSES.includes(status as AccessReviewCampaignStatus)) {
+      return NextResponse.json({
+        success: false,
+        message: `Status tidak valid. Gunakan salah satu dari: ${ACCESS_REVIEW_CAMPAIGN_STATUSES.join(', ')}`
+      }, { status: 400 });
+    }
+
+    const campaigns = await accessReviewService.getCampaigns(
+      (status as AccessReviewCampaignStatus | null) ?? undefined
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: { campaigns },
+      message: 'Berhasil mengambil access review campaign'
+    });
+  } catch (error) {
+    return handleAccessRequestError(error, 'Terjadi kesalahan saat mengambil access review campaign');
+  }
+}
+
+/**
+ * Handler untuk membuat campaign access review dan snapshot role assignment dalam scope
+ * Body: { name, description?, scopeType: role|department|region, scopeValue, reviewerIds, dueDate? }
+ * Memerlukan permission 'role_management' dengan action 'create'
+ */
+async function handleCreateCampaign(request: NextRequest): Promise<NextResponse> {
+  try {
+    const currentUser = getUserFromRequest(request);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        message: 'User tidak terautentikasi'
+      }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const campaign = await accessReviewService.createCampaign(currentUser.id, body);
+
+    return NextResponse.json({
+      success: true,
+      data: { campaign },
+      message: 'Access review campaign berhasil dibuat'
+    }, { status: 201 });
+  } catch (error) {
+    return handleAccessRequestError(error, 'Terjadi kesalahan saat membuat access review campaign');
+  }
+}
+
+export const GET = withFeature({ feature: 'role_management', action: 'read' })(handleGetCampaigns);
+export const POST = withFeature({ feature: 'role_management', action: 'create' })(handleCreateCampaign);
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withFeature } from "@/lib/withFeature";
+import { authorizationHandler } from "@/middleware/auth/authorizationHandler";
+import { authorizationExplainService } from "@/services/rbac/authorizationExplainService";
+import { handleAuthorizationExplainError } from "../../../../_shared";
+
+/**
+ * Handler untuk menjelaskan keputusan otorisasi user ("kenapa akses ditolak?")
+ * Body: { userId, method, path } atau { userId, feature, action }, opsional context { timeOfDay, dayOfWeek, ip, userAgent }
+ * Mengembalikan route_features yang cocok, role kandidat beserta flag role_features, bypass grantsAll,
+ * dan hasil setiap ABAC policy (nilai aktual vs nilai yang diharapkan)
+ * Memerlukan permission 'user_management' dengan action 'read'
+ */
+async function handleExplainAuthorization(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body = await request.json();
+    const explanation = await authorizationExplainService.explain(
+      body,
+      authorizationHandler.collectRequestContext(request)
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: { explanation },
+      message: explanation.allowed ? 'Akses diizinkan' : 'Akses ditolak'
+    });
+  } catch (error) {
+    return handleAuthorizationExplainError(error, 'Terjadi kesalahan saat menjelaskan keputusan otorisasi');
+  }
+}
+
+export const POST = withFeature({ feature: 'user_management', action: 'read' })(handleExplainAuthorization);
@@ -0,0 +1,104 @@
+import { NextResponse } from 'next/server';
+import { featureService } from '@/services/rbac/featureService';
+import { withFeature } from '@/lib/withFeature';
+import type { AuthenticatedRequest } from '@/lib/auth/authMiddleware';
+import { CRUD_ACTIONS, RBACError, DuplicateFeatureActionError } from '@/services/rbac/types';
+import { z } from 'zod';
+
+/**
+ * Ambil feature ID dari segment setelah 'features' pada URL
+ * @param request - Request dengan path /features/{id}/actions
+ * @returns number - Feature ID (NaN jika tidak valid)
+ */
+function getFeatureId(request: AuthenticatedRequest): number {
+  const pathSegments = new URL(request.url).pathname.split('/');
+  return parseInt(pathSegments[pathSegments.findIndex(segment => segment === 'features') + 1], 10);
+}
+
+/**
+ * Handler untuk mengambil action yang tersedia untuk feature
+ * Memerlukan permission 'feature_management' dengan action 'read'
+ */
+async function handleGetFeatureActions(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const featureId = getFeatureId(request);
+    if (isNaN(featureId)) {
+      return NextResponse.json(
+        { success: false, message: 'Feature ID harus berupa angka' },
+        { status: 400 }
+      );
+    }
+
+    const customActions = await featureService.getFeatureActions(featureId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        crudActions: CRUD_ACTIONS,
+        actions: customActions
+      }
+    });
+  } catch (error) {
+    if (error instanceof RBACError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error('Get feature actions error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Terjadi kesalahan saat mengambil action feature' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Handler untuk mendeklarasikan action custom baru pada feature
+ * Memerlukan permission 'feature_management' dengan action 'update'
+ */
+async function handleCreateFeatureAction(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const featureId = getFeatureId(request);
+    if (isNaN(featureId)) {
+      return NextResponse.json(
+        { success: false, message: 'Feature ID harus berupa angka' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const action = await featureService.addFeatureAction(featureId, body);
+
+    return NextResponse.json({
+      success: true,
+      data: { action },
+      message: 'Action berhasil ditambahkan'
+    }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, message: 'Data tidak valid', errors: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof RBACError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: error instanceof DuplicateFeatureActionError ? 409 : 404 }
+      );
+    }
+
+    console.error('Create feature action error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Terjadi kesalahan saat menambahkan action feature' },
+      { status: 500 }
+    );
+  }
+}
+
+// Export handlers dengan withFeature wrapper
+export const GET = withFeature({ feature: 'feature_management', action: 'read' })(handleGetFeatureActions);
+export const POST = withFeature({ feature: 'feature_management', action: 'update' })(handleCreateFeatureAction);
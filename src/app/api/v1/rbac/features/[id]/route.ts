@@ -47,6 +47,9 @@ class FeatureDetailHandler extends BaseApiHandler {
     // Ambil policies yang terkait dengan feature ini
     const policies = await policyManagementService.getPoliciesByFeature(featureId);
 
+    // Ambil action custom yang dideklarasikan feature (selain CRUD)
+    const actions = await featureService.getFeatureActions(featureId);
+
     // Group roles by ID to avoid duplicates
     const uniqueRoles = new Map();
     roleFeatures.forEach((rf: any) => {
@@ -88,12 +91,15 @@ class FeatureDetailHandler extends BaseApiHandler {
       description: feature.description,
       category: feature.category,
       createdAt: feature.createdAt,
+      actions,
       roles: Array.from(uniqueRoles.values()),
       policies: policies.map((policy: any) => ({
         id: policy.id,
         attribute: policy.attribute,
         operator: policy.operator,
         value: policy.value,
+        combinator: policy.combinator,
+        expression: policy.expression,
         description: policy.description,
         createdAt: policy.createdAt
       }))
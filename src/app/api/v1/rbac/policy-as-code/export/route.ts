@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withFeature } from "@/lib/withFeature";
+import { policyAsCodeService } from "@/services/rbac/policyAsCodeService";
+import { handlePolicyDocumentError, policyDocumentResponse } from "../../../../_shared";
+
+/**
+ * Handler untuk export roles, features, role_features, route_features, dan ABAC policies
+ * sebagai dokumen policy-as-code untuk di-review di PR
+ * Format JSON secara default, YAML jika header Accept meminta application/yaml
+ * Dokumen dapat langsung dikirim kembali ke endpoint import
+ * Memerlukan permission 'role_management' dengan action 'read'
+ */
+async function handleExportPolicyDocument(request: NextRequest): Promise<NextResponse> {
+  try {
+    const document = await policyAsCodeService.exportDocument();
+
+    return policyDocumentResponse(request, document);
+  } catch (error) {
+    return handlePolicyDocumentError(error, 'Terjadi kesalahan saat export dokumen policy');
+  }
+}
+
+export const GET = withFeature({ feature: 'role_management', action: 'read' })(handleExportPolicyDocument);
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withFeature } from "@/lib/withFeature";
+import { accessRequestService } from "@/services/rbac/accessRequestService";
+import { handleAccessRequestError } from "../../../../../_shared";
+
+/**
+ * Ambil role ID dari URL path (/roles/[id]/approvers)
+ * @param request - Request object
+ * @returns number - Role ID (NaN jika tidak valid)
+ */
+function getRoleId(request: NextRequest): number {
+  const pathSegments = new URL(request.url).pathname.split('/');
+  return parseInt(pathSegments[pathSegments.findIndex(segment => segment === 'roles') + 1], 10);
+}
+
+/**
+ * Handler untuk mengambil daftar approver yang ditunjuk untuk role
+ * Memerlukan permission 'role_management' dengan action 'read'
+ */
+async function handleGetRoleApprovers(request: NextRequest): Promise<NextResponse> {
+  try {
+    const roleId = getRoleId(request);
+    if (isNaN(roleId)) {
+      return NextResponse.json(
+        { success: false, message: 'ID role tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    const approvers = await accessRequestService.getRoleApprovers(roleId);
+
+    return NextResponse.json({
+      success: true,
+      data: { approvers },
+      message: 'Berhasil mengambil approver role'
+    });
+  } catch (error) {
+    return handleAccessRequestError(error, 'Terjadi kesalahan saat mengambil approver role');
+  }
+}
+
+/**
+ * Handler untuk mengganti daftar approver role
+ * Body: { userIds: number[] }
+ * Memerlukan permission 'role_management' dengan action 'update'
+ */
+async function handleSetRoleApprovers(request: NextRequest): Promise<NextResponse> {
+  try {
+    const roleId = getRoleId(request);
+    if (isNaN(roleId)) {
+      return NextResponse.json(
+        { success: false, message: 'ID role tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const approvers = await accessRequestService.setRoleApprovers(roleId, body);
+
+    return NextResponse.json({
+      success: true,
+      data: { approvers },
+      message: 'Approver role berhasil diperbarui'
+    });
+  } catch (error) {
+    return handleAccessRequestError(error, 'Terjadi kesalahan saat memperbarui approver role');
+  }
+}
+
+export const GET = withFeature({ feature: 'role_management', action: 'read' })(handleGetRoleApprovers);
+export const PUT = withFeature({ feature: 'role_management', action: 'update' })(handleSetRoleApprovers);
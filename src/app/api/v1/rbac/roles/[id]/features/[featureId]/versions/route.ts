@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withFeature } from "@/lib/withFeature";
+import { roleFeatureService } from "@/services/rbac/roleFeatureService";
+
+/**
+ * Ambil role ID dan feature ID dari URL path (/roles/[id]/features/[featureId]/versions)
+ * @param request - Request object
+ * @returns { roleId, featureId } - NaN jika tidak valid
+ */
+function getPathIds(request: NextRequest): { roleId: number; featureId: number } {
+  const pathSegments = new URL(request.url).pathname.split('/');
+  return {
+    roleId: parseInt(pathSegments[pathSegments.findIndex(segment => segment === 'roles') + 1], 10),
+    featureId: parseInt(pathSegments[pathSegments.findIndex(segment => segment === 'features') + 1], 10)
+  };
+}
+
+/**
+ * Handler untuk mengambil history versi permission role-feature (terbaru lebih dulu)
+ * beserta author, waktu, komentar, dan perubahan effect per action
+ * Memerlukan permission 'role_management' dengan action 'read'
+ */
+async function handleGetRoleFeatureVersions(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { roleId, featureId } = getPathIds(request);
+    if (isNaN(roleId) || isNaN(featureId)) {
+      return NextResponse.json(
+        { success: false, message: 'ID role atau feature tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    const versions = await roleFeatureService.getVersionHistory(roleId, featureId);
+
+    return NextResponse.json({
+      success: true,
+      data: { versions }
+    });
+  } catch (error) {
+    console.error('Error fetching role feature versions:', error);
+    return NextResponse.json(
+      { success: false, message: 'Terjadi kesalahan saat mengambil history versi permission' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withFeature({ feature: 'role_management', action: 'read' })(handleGetRoleFeatureVersions);
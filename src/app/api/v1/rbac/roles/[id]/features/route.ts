@@ -2,9 +2,15 @@ import { NextRequest, NextResponse } from "next/server";
 import { roleFeatureService } from '@/services/rbac/roleFeatureService';
 import { withFeature } from "@/lib/withFeature";
 import type { AuthenticatedRequest } from "@/lib/auth/authMiddleware";
-import { RBACError } from '@/services/rbac/types';
+import { featureService } from '@/services/rbac/featureService';
+import { RBACError, actionNameSchema } from '@/services/rbac/types';
+import { versionCommentSchema } from '@/db/schema';
+import { z } from "zod";
 
 
+// Effect action custom per feature: { export: 'allow', approve: 'deny' }
+const customActionsSchema = z.record(actionNameSchema, z.enum(['allow', 'deny', 'unset'])).optional();
+
 /**
  * Handler untuk mendapatkan features/permissions untuk role tertentu
  * Memerlukan permission 'role_management' dengan action 'read'
@@ -30,6 +36,16 @@ async function handleGetRoleFeatures(request: AuthenticatedRequest): Promise<Nex
 
     // Ambil role features menggunakan service layer
     const roleFeaturesList = await roleFeatureService.getRolePermissionsWithFeatures(roleId);
+    const roleActionPermissions = await roleFeatureService.getRoleActionPermissions(roleId);
+
+    // Kelompokkan grant action custom per feature
+    const actionsByFeature = new Map<number, Record<string, string>>();
+    for (const { grant, action } of roleActionPermissions) {
+      actionsByFeature.set(action.featureId, {
+        ...actionsByFeature.get(action.featureId),
+        [action.name]: grant.effect
+      });
+    }
 
     // Format data untuk frontend
     const formattedFeatures = roleFeaturesList.map((rf: any) => ({
@@ -41,9 +57,36 @@ async function handleGetRoleFeatures(request: AuthenticatedRequest): Promise<Nex
       canCreate: rf.canCreate,
       canRead: rf.canRead,
       canUpdate: rf.canUpdate,
-      canDelete: rf.canDelete
+      canDelete: rf.canDelete,
+      denyCreate: rf.denyCreate,
+      denyRead: rf.denyRead,
+      denyUpdate: rf.denyUpdate,
+      denyDelete: rf.denyDelete,
+      actions: actionsByFeature.get(rf.featureId) ?? {}
     }))
 
+    // Feature yang hanya memiliki grant action custom (tanpa row CRUD)
+    for (const [featureId, actions] of actionsByFeature) {
+      if (roleFeaturesList.some(rf => rf.featureId === featureId)) continue;
+      const feature = await featureService.getFeatureById(featureId);
+      formattedFeatures.push({
+        id: `actions-${featureId}`,
+        featureId,
+        name: feature.name,
+        description: feature.description,
+        category: feature.category,
+        canCreate: false,
+        canRead: false,
+        canUpdate: false,
+        canDelete: false,
+        denyCreate: false,
+        denyRead: false,
+        denyUpdate: false,
+        denyDelete: false,
+        actions
+      });
+    }
+
     return NextResponse.json({
       success: true,
       data: {
@@ -71,6 +114,7 @@ async function handleGetRoleFeatures(request: AuthenticatedRequest): Promise<Nex
 /**
  * Handler untuk menambah feature/permission ke role
  * Memerlukan permission 'role_management' dengan action 'create'
+ * Hasilnya disimpan sebagai versi baru permission role-feature; body boleh berisi comment
  */
 async function handlePostRoleFeatures(request: AuthenticatedRequest): Promise<NextResponse> {
   // Extract params from URL
@@ -92,7 +136,12 @@ async function handlePostRoleFeatures(request: AuthenticatedRequest): Promise<Ne
     }
 
     const body = await request.json()
-    const { featureId, canCreate, canRead, canUpdate, canDelete } = body
+    const {
+      featureId,
+      canCreate, canRead, canUpdate, canDelete,
+      denyCreate, denyRead, denyUpdate, denyDelete,
+      actions
+    } = body
 
     // Validasi input
     if (!featureId || typeof featureId !== 'number') {
@@ -102,6 +151,9 @@ async function handlePostRoleFeatures(request: AuthenticatedRequest): Promise<Ne
       )
     }
 
+    const customActions = customActionsSchema.parse(actions) ?? {};
+    const { comment } = versionCommentSchema.parse(body);
+
     // Set permission menggunakan service layer
     const newRoleFeature = await roleFeatureService.setPermission({
       roleId,
@@ -109,19 +161,42 @@ async function handlePostRoleFeatures(request: AuthenticatedRequest): Promise<Ne
       canCreate: Boolean(canCreate),
       canRead: Boolean(canRead),
       canUpdate: Boolean(canUpdate),
-      canDelete: Boolean(canDelete)
+      canDelete: Boolean(canDelete),
+      denyCreate: Boolean(denyCreate),
+      denyRead: Boolean(denyRead),
+      denyUpdate: Boolean(denyUpdate),
+      denyDelete: Boolean(denyDelete)
+    });
+
+    // Set effect action custom yang dideklarasikan feature
+    for (const [action, effect] of Object.entries(customActions)) {
+      await roleFeatureService.setActionPermission({ roleId, featureId, action, effect });
+    }
+
+    await roleFeatureService.recordVersion(roleId, featureId, {
+      authorId: authenticatedUser?.id ?? null,
+      comment
     });
 
     return NextResponse.json({
       success: true,
       data: {
-        roleFeature: newRoleFeature
+        roleFeature: newRoleFeature,
+        actions: customActions
       }
     })
   } catch (error) {
     console.error('Error adding role feature:', error);
     
-    // Handle RBACError (role/feature tidak ditemukan)
+    // Handle validasi (misalnya allow dan deny untuk action yang sama)
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Data tidak valid', details: error.issues },
+        { status: 400 }
+      );
+    }
+    
+    // Handle RBACError (role/feature/action tidak ditemukan)
     if (error instanceof RBACError) {
       return NextResponse.json(
         { error: error.message },
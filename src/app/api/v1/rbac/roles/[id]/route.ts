@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { roleService } from "@/services";
 import { withFeature, getUserFromRequest } from "@/lib/withFeature";
+import { versionCommentSchema } from "@/db/schema";
 import { z } from "zod";
 
 /**
@@ -75,7 +76,11 @@ async function handleUpdateRole(
     }
 
     const body = await request.json();
-    const updatedRole = await roleService.updateRole(roleId, body);
+    const { comment } = versionCommentSchema.parse(body);
+    const updatedRole = await roleService.updateRole(roleId, body, {
+      authorId: authenticatedUser?.id ?? null,
+      comment
+    });
     
     return NextResponse.json({
       success: true,
@@ -2,10 +2,19 @@ import { NextRequest, NextResponse } from 'next/server'
 import { withFeature, getUserFromRequest } from '@/lib/withFeature'
 import { db } from '@/db'
 import { users, userRoles, roles } from '@/db/schema'
-import { eq, and } from 'drizzle-orm'
+import { and, eq, gt, isNull, or } from 'drizzle-orm'
+import { ConflictError, ErrorHandler } from '@/lib/errors/errorHandler'
+import { userRoleService } from '@/services/rbac/userRoleService'
+import {
+  RBACError,
+  RoleNotFoundError,
+  UserNotFoundError,
+  RoleAssignmentExistsError
+} from '@/services/rbac/types'
 
 /**
  * Handler untuk mengambil semua user yang memiliki role tertentu
+ * Assignment yang masa berlakunya sudah berakhir tidak ikut ditampilkan
  * Memerlukan permission 'role_management' dengan action 'read'
  */
 async function handleGetRoleUsers(
@@ -54,11 +63,15 @@ async function handleGetRoleUsers(
         email: users.email,
         fullName: users.name,
         status: users.active,
-        assignedAt: users.createdAt // menggunakan user createdAt sebagai fallback
+        assignedAt: users.createdAt, // menggunakan user createdAt sebagai fallback
+        validUntil: userRoles.validUntil
       })
       .from(userRoles)
       .innerJoin(users, eq(userRoles.userId, users.id))
-      .where(eq(userRoles.roleId, roleId))
+      .where(and(
+        eq(userRoles.roleId, roleId),
+        or(isNull(userRoles.validUntil), gt(userRoles.validUntil, new Date()))
+      ))
 
     // Format response sesuai dengan interface UserMapping
     const formattedUsers = userMappings.map((user: any) => ({
@@ -68,7 +81,7 @@ async function handleGetRoleUsers(
       status: user.status ? 'active' : 'inactive',
       assignedAt: user.assignedAt?.toISOString() || new Date().toISOString(),
       assignedBy: 'system',
-      expiresAt: null
+      expiresAt: user.validUntil?.toISOString() ?? null
     }))
 
     return NextResponse.json({
@@ -126,65 +139,40 @@ async function handleAssignUserToRole(
       }, { status: 400 });
     }
 
-    if (!db) {
-      throw new Error('Database not initialized');
-    }
+    // Assign lewat service agar session user diinvalidasi dan access token lama dicabut
+    const newUserRole = await userRoleService.assignRole({
+      userId: parseInt(userId),
+      roleId
+    });
 
-    // Verifikasi role dan user exists
-    const [role, user] = await Promise.all([
-      db.select().from(roles).where(eq(roles.id, roleId)).limit(1),
-      db.select().from(users).where(eq(users.id, parseInt(userId))).limit(1)
-    ]);
+    return NextResponse.json({
+      success: true,
+      data: {
+        userRole: newUserRole,
+      },
+      message: 'User berhasil di-assign ke role'
+    }, { status: 201 });
     
-    if (role.length === 0) {
-      return NextResponse.json({
-        success: false,
-        message: "Role tidak ditemukan",
-      }, { status: 404 });
-    }
-
-    if (user.length === 0) {
+  } catch (error) {
+    if (error instanceof RoleNotFoundError || error instanceof UserNotFoundError) {
       return NextResponse.json({
         success: false,
-        message: "User tidak ditemukan",
+        message: error.message,
       }, { status: 404 });
     }
 
-    // Check apakah user sudah memiliki role ini
-    const existingUserRole = await db
-      .select()
-      .from(userRoles)
-      .where(and(
-        eq(userRoles.userId, parseInt(userId)),
-        eq(userRoles.roleId, roleId)
-      ))
-      .limit(1);
-
-    if (existingUserRole.length > 0) {
+    if (error instanceof RoleAssignmentExistsError) {
       return NextResponse.json({
         success: false,
         message: "User sudah memiliki role ini",
       }, { status: 409 });
     }
 
-    // Assign role ke user
-    const newUserRole = await db
-      .insert(userRoles)
-      .values({
-        userId: parseInt(userId),
-        roleId: roleId
-      })
-      .returning();
+    // Role yang melanggar separation-of-duties (409)
+    if (error instanceof ConflictError) {
+      return ErrorHandler.createErrorResponse(error);
+    }
 
-    return NextResponse.json({
-      success: true,
-      data: {
-        userRole: newUserRole[0],
-      },
-      message: 'User berhasil di-assign ke role'
-    }, { status: 201 });
-    
-  } catch (error) {
     if (error instanceof Error) {
       return NextResponse.json({
         success: false,
@@ -234,32 +222,30 @@ async function handleRemoveUserFromRole(
       }, { status: 400 });
     }
 
-    if (!db) {
-      throw new Error('Database not initialized');
-    }
+    // Remove lewat service agar role yang dicabut tidak lagi berlaku di access token yang sudah terbit
+    await userRoleService.removeRole(parseInt(userId), roleId);
 
-    // Remove user dari role
-    const deletedUserRole = await db
-      .delete(userRoles)
-      .where(and(
-        eq(userRoles.userId, parseInt(userId)),
-        eq(userRoles.roleId, roleId)
-      ))
-      .returning();
+    return NextResponse.json({
+      success: true,
+      message: "User berhasil di-remove dari role",
+    }, { status: 200 });
+    
+  } catch (error) {
+    if (error instanceof RoleNotFoundError || error instanceof UserNotFoundError) {
+      return NextResponse.json({
+        success: false,
+        message: error.message,
+      }, { status: 404 });
+    }
 
-    if (deletedUserRole.length === 0) {
+    // User tidak memiliki assignment role ini
+    if (error instanceof RBACError) {
       return NextResponse.json({
         success: false,
         message: "User role assignment tidak ditemukan",
       }, { status: 404 });
     }
 
-    return NextResponse.json({
-      success: true,
-      message: "User berhasil di-remove dari role",
-    }, { status: 200 });
-    
-  } catch (error) {
     if (error instanceof Error) {
       return NextResponse.json({
         success: false,
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withFeature, getUserFromRequest } from "@/lib/withFeature";
+import { separationOfDutiesService } from "@/services/rbac/separationOfDutiesService";
+import { handleAccessRequestError } from "../../../../_shared";
+
+/**
+ * Ambil ID constraint dari path URL
+ * @param request - Request dengan path .../sod-constraints/[id]
+ * @returns number - ID constraint (NaN jika tidak valid)
+ */
+function getConstraintId(request: NextRequest): number {
+  const pathSegments = new URL(request.url).pathname.split('/');
+  return parseInt(pathSegments[pathSegments.findIndex(segment => segment === 'sod-constraints') + 1], 10);
+}
+
+/**
+ * Response 400 untuk ID constraint yang tidak valid
+ */
+function invalidIdResponse(): NextResponse {
+  return NextResponse.json(
+    { success: false, message: 'ID constraint tidak valid' },
+    { status: 400 }
+  );
+}
+
+/**
+ * Handler untuk mengambil detail constraint separation-of-duties
+ * Memerlukan permission 'role_management' dengan action 'read'
+ */
+async function handleGetConstraint(request: NextRequest): Promise<NextResponse> {
+  try {
+    const constraintId = getConstraintId(request);
+    if (isNaN(constraintId)) {
+      return invalidIdResponse();
+    }
+
+    const constraint = await separationOfDutiesService.getConstraintById(constraintId);
+
+    return NextResponse.json({
+      success: true,
+      data: { constraint },
+      message: 'Berhasil mengambil constraint separation-of-duties'
+    });
+  } catch (error) {
+    return handleAccessRequestError(error, 'Terjadi kesalahan saat mengambil constraint separation-of-duties');
+  }
+}
+
+/**
+ * Handler untuk mengubah constraint separation-of-duties (set role diganti seluruhnya)
+ * Body: { name, description?, roleIds, maxRoles? }
+ * Memerlukan permission 'role_management' dengan action 'update'
+ */
+async function handleUpdateConstraint(request: NextRequest): Promise<NextResponse> {
+  try {
+    const currentUser = getUserFromRequest(request);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        message: 'User tidak terautentikasi'
+      }, { status: 401 });
+    }
+
+    const constraintId = getConstraintId(request);
+    if (isNaN(constraintId)) {
+      return invalidIdResponse();
+    }
+
+    const body = await request.json();
+    const constraint = await separationOfDutiesService.updateConstraint(currentUser.id, constraintId, body);
+
+    return NextResponse.json({
+      success: true,
+      data: { constraint },
+      message: 'Constraint separation-of-duties berhasil diupdate'
+    });
+  } catch (error) {
+    return handleAccessRequestError(error, 'Terjadi kesalahan saat mengupdate constraint separation-of-duties');
+  }
+}
+
+/**
+ * Handler untuk menghapus constraint separation-of-duties
+ * Memerlukan permission 'role_management' dengan action 'delete'
+ */
+async function handleDeleteConstraint(request: NextRequest): Promise<NextResponse> {
+  try {
+    const currentUser = getUserFromRequest(request);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        message: 'User tidak terautentikasi'
+      }, { status: 401 });
+    }
+
+    const constraintId = getConstraintId(request);
+    if (isNaN(constraintId)) {
+      return invalidIdResponse();
+    }
+
+    await separationOfDutiesService.deleteConstraint(currentUser.id, constraintId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Constraint separation-of-duties berhasil dihapus'
+    });
+  } catch (error) {
+    return handleAccessRequestError(error, 'Terjadi kesalahan saat menghapus constraint separation-of-duties');
+  }
+}
+
+export const GET = withFeature({ feature: 'role_management', action: 'read' })(handleGetConstraint);
+export const PUT = withFeature({ feature: 'role_management', action: 'update' })(handleUpdateConstraint);
+export const DELETE = withFeature({ feature: 'role_management', action: 'delete' })(handleDeleteConstraint);
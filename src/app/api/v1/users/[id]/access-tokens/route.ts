@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { changeHistoryService } from '@/services/audit/changeHistoryService';
+import { accessTokenService } from '@/lib/auth/authService/accessTokenService';
+import { withFeature, getUserFromRequest, resourceIdFromPath } from '@/lib/withFeature';
+import { handleAccessTokenError } from '../../../../_shared';
+
+/**
+ * Ambil user ID dari URL path (/users/{id}/access-tokens)
+ * @param request - NextRequest
+ * @returns number | null - ID user atau null jika tidak valid
+ */
+function getTargetUserId(request: NextRequest): number | null {
+  const pathSegments = new URL(request.url).pathname.split('/');
+  const userId = parseInt(pathSegments[pathSegments.findIndex(segment => segment === 'users') + 1], 10);
+  return isNaN(userId) ? null : userId;
+}
+
+/**
+ * Handler untuk mengambil personal access token milik user (tanpa token plaintext)
+ * Memerlukan permission 'user_management' dengan action 'read'
+ */
+async function handleGetAccessTokens(request: NextRequest): Promise<NextResponse> {
+  try {
+    const userId = getTargetUserId(request);
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, message: 'ID user tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    const accessTokens = await accessTokenService.listTokens(userId);
+
+    return NextResponse.json({
+      success: true,
+      data: { accessTokens },
+      message: 'Berhasil mengambil access token user'
+    });
+  } catch (error) {
+    return handleAccessTokenError(error, 'Gagal mengambil access token user');
+  }
+}
+
+/**
+ * Handler untuk membuat personal access token untuk user atau service account
+ * Token plaintext hanya dikembalikan sekali di response ini
+ * Body: { name, scopes: [{ feature, action }], expiresInDays? }
+ * Memerlukan permission 'user_management' dengan action 'update'
+ */
+async function handleCreateAccessToken(request: NextRequest): Promise<NextResponse> {
+  try {
+    const adminUser = getUserFromRequest(request);
+    const userId = getTargetUserId(request);
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, message: 'ID user tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const { token, accessToken } = await accessTokenService.createToken(userId, body, adminUser?.id ?? null);
+
+    await changeHistoryService.logChangeHistory({
+      adminUserId: adminUser?.id ?? null,
+      targetUserId: userId,
+      action: 'createAccessToken',
+      after: JSON.stringify({
+        tokenId: accessToken.id,
+        name: accessToken.name,
+        scopes: accessToken.scopes,
+        expiresAt: accessToken.expiresAt
+      })
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { token, accessToken },
+      message: 'Access token berhasil dibuat. Simpan token sekarang; token tidak akan ditampilkan lagi'
+    }, { status: 201 });
+  } catch (error) {
+    return handleAccessTokenError(error, 'Gagal membuat access token');
+  }
+}
+
+// Export handler dengan withFeature wrapper untuk otorisasi
+export const GET = withFeature({ feature: 'user_management', action: 'read', resourceId: resourceIdFromPath(1) })(handleGetAccessTokens);
+export const POST = withFeature({ feature: 'user_management', action: 'update', resourceId: resourceIdFromPath(1) })(handleCreateAccessToken);
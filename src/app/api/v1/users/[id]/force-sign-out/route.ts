@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authService } from '@/services';
+import { changeHistoryService } from '@/services/audit/changeHistoryService';
+import { userRepository } from '@/repositories';
+import { withFeature, getUserFromRequest, resourceIdFromPath } from '@/lib/withFeature';
+import { handleSessionError } from '../../../../_shared';
+
+/**
+ * Ambil user ID dari URL path (/users/{id}/force-sign-out)
+ * @param request - NextRequest
+ * @returns number | null - ID user atau null jika tidak valid
+ */
+function getTargetUserId(request: NextRequest): number | null {
+  const pathSegments = new URL(request.url).pathname.split('/');
+  const userId = parseInt(pathSegments[pathSegments.findIndex(segment => segment === 'users') + 1], 10);
+  return isNaN(userId) ? null : userId;
+}
+
+/**
+ * Handler untuk memaksa user sign-out dari semua device
+ * Mengakhiri semua session dan menaikkan versi token sehingga access token
+ * yang sudah terbit langsung ditolak, lalu mencatatnya ke change_history
+ * Memerlukan permission 'user_management' dengan action 'update'
+ */
+async function handleForceSignOut(request: NextRequest): Promise<NextResponse> {
+  try {
+    const adminUser = getUserFromRequest(request);
+    const userId = getTargetUserId(request);
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, message: 'ID user tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    const user = await userRepository.findById(userId);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'User tidak ditemukan' },
+        { status: 404 }
+      );
+    }
+
+    const tokenVersion = await authService.forceSignOut(userId);
+    await changeHistoryService.logChangeHistory({
+      adminUserId: adminUser?.id ?? null,
+      targetUserId: userId,
+      action: 'forceSignOut',
+      before: JSON.stringify({ tokenVersion: user.tokenVersion }),
+      after: JSON.stringify({ tokenVersion })
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { userId, tokenVersion },
+      message: 'User berhasil dipaksa sign-out dari semua device'
+    });
+  } catch (error) {
+    return handleSessionError(error, 'Gagal memaksa sign-out user');
+  }
+}
+
+// Export handler dengan withFeature wrapper untuk otorisasi
+export const POST = withFeature({ feature: 'user_management', action: 'update', resourceId: resourceIdFromPath(1) })(handleForceSignOut);
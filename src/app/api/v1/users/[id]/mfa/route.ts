@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authService } from '@/services';
+import { changeHistoryService } from '@/services/audit/changeHistoryService';
+import { mfaService } from '@/lib/auth/authService/mfaService';
+import { withFeature, getUserFromRequest, resourceIdFromPath } from '@/lib/withFeature';
+import { handleMfaError } from '../../../../_shared';
+
+/**
+ * Ambil user ID dari URL path (/users/{id}/mfa)
+ * @param request - NextRequest
+ * @returns number | null - ID user atau null jika tidak valid
+ */
+function getTargetUserId(request: NextRequest): number | null {
+  const pathSegments = new URL(request.url).pathname.split('/');
+  const userId = parseInt(pathSegments[pathSegments.findIndex(segment => segment === 'users') + 1], 10);
+  return isNaN(userId) ? null : userId;
+}
+
+/**
+ * Handler untuk mengambil status MFA user tertentu
+ * Memerlukan permission 'user_management' dengan action 'read'
+ */
+async function handleGetUserMfaStatus(request: NextRequest): Promise<NextResponse> {
+  try {
+    const userId = getTargetUserId(request);
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, message: 'ID user tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    const status = await mfaService.getStatus(userId);
+
+    return NextResponse.json({
+      success: true,
+      data: { status },
+      message: 'Berhasil mengambil status MFA user'
+    });
+  } catch (error) {
+    return handleMfaError(error, 'Gagal mengambil status MFA user');
+  }
+}
+
+/**
+ * Handler untuk reset MFA user (misal: user kehilangan authenticator dan recovery code)
+ * Menghapus secret dan recovery code, mengakhiri semua session user,
+ * dan mencatat reset ke change_history
+ * Memerlukan permission 'user_management' dengan action 'update'
+ */
+async function handleResetUserMfa(request: NextRequest): Promise<NextResponse> {
+  try {
+    const adminUser = getUserFromRequest(request);
+    const userId = getTargetUserId(request);
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, message: 'ID user tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    const before = await mfaService.getStatus(userId);
+    const reset = await mfaService.reset(userId);
+    if (!reset) {
+      return NextResponse.json(
+        { success: false, message: 'User belum mendaftarkan MFA' },
+        { status: 404 }
+      );
+    }
+
+    await authService.logoutAllDevices(userId);
+    await changeHistoryService.logChangeHistory({
+      adminUserId: adminUser?.id ?? null,
+      targetUserId: userId,
+      action: 'resetMfa',
+      before: JSON.stringify({ enabled: before.enabled, enabledAt: before.enabledAt })
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { userId },
+      message: 'MFA user berhasil direset. User harus mendaftarkan ulang MFA'
+    });
+  } catch (error) {
+    return handleMfaError(error, 'Gagal reset MFA user');
+  }
+}
+
+// Export handler dengan withFeature wrapper untuk otorisasi
+export const GET = withFeature({ feature: 'user_management', action: 'read', resourceId: resourceIdFromPath(1) })(handleGetUserMfaStatus);
+export const DELETE = withFeature({ feature: 'user_management', action: 'update', resourceId: resourceIdFromPath(1) })(handleResetUserMfa);
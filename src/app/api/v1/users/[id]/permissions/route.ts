@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { rbacService } from '@/services';
-import { withFeature, getUserFromRequest } from '@/lib/withFeature';
+import { withFeature, getUserFromRequest, resourceIdFromPath } from '@/lib/withFeature';
 
 /**
  * Handler untuk mengambil permissions untuk user tertentu
@@ -49,4 +49,4 @@ async function handleGetUserPermissions(
 }
 
 // Export handler dengan withFeature wrapper untuk otorisasi
-export const GET = withFeature({ feature: 'user_management', action: 'read' })(handleGetUserPermissions);
\ No newline at end of file
+export const GET = withFeature({ feature: 'user_management', action: 'read', resourceId: resourceIdFromPath(1) })(handleGetUserPermissions);
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { rbacService } from '@/services';
-import { withFeature, getUserFromRequest } from '@/lib/withFeature';
+import { rbacService, userRoleService } from '@/services';
+import { withFeature, getUserFromRequest, resourceIdFromPath } from '@/lib/withFeature';
 
 /**
  * Handler untuk mengambil roles untuk user tertentu
@@ -29,7 +29,10 @@ async function handleGetUserRoles(
     }
 
     console.log(`Fetching roles for user ID: ${userId}`);
-    const roles = await rbacService.getUserRoles(userId);
+    // includeInactive=true menyertakan assignment terjadwal/expired beserta status-nya
+    const roles = url.searchParams.get('includeInactive') === 'true'
+      ? await userRoleService.getUserRoleAssignments(Number(userId))
+      : await rbacService.getUserRoles(userId);
     console.log(`Found ${roles.length} roles for user ${userId}:`, roles);
     
     return NextResponse.json({
@@ -59,4 +62,4 @@ async function handleGetUserRoles(
 }
 
 // Export handler dengan withFeature wrapper untuk otorisasi
-export const GET = withFeature({ feature: 'user_management', action: 'read' })(handleGetUserRoles);
\ No newline at end of file
+export const GET = withFeature({ feature: 'user_management', action: 'read', resourceId: resourceIdFromPath(1) })(handleGetUserRoles);
\ No newline at end of file
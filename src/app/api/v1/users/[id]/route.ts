@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { userService } from '@/services';
-import { withFeature, getUserFromRequest } from "@/lib/withFeature";
+import { withFeature, getUserFromRequest, resourceIdFromPath } from "@/lib/withFeature";
 import { userRepository } from "@/repositories";
+import { tokenRevocationService } from "@/lib/auth/authService/tokenRevocationService";
 import { db } from "@/db";
 import { users, userRoles, roles, roleFeatures, features } from "@/db/schema";
 import { eq } from "drizzle-orm";
@@ -160,6 +161,9 @@ async function handleUpdateUser(
         message: "Gagal mengupdate user",
       }, { status: 500 });
     }
+
+    // Menonaktifkan user langsung mencabut access token yang sudah terbit
+    await tokenRevocationService.applyStatusChange(userId, existingUser.active, updatedUser.active);
     
     // Return updated user tanpa password hash
     const { passwordHash, ...safeUser } = updatedUser;
@@ -231,6 +235,8 @@ async function handleDeleteUser(
         message: "Gagal menghapus user",
       }, { status: 500 });
     }
+
+    await tokenRevocationService.applyStatusChange(userId, existingUser.active, false);
     
     return NextResponse.json({
       success: true,
@@ -254,6 +260,6 @@ async function handleDeleteUser(
 }
 
 // Export handlers dengan authorization wrapper
-export const GET = withFeature({ feature: 'user_management', action: 'read' })(handleGetUserById);
-export const PUT = withFeature({ feature: 'user_management', action: 'update' })(handleUpdateUser);
-export const DELETE = withFeature({ feature: 'user_management', action: 'delete' })(handleDeleteUser);
\ No newline at end of file
+export const GET = withFeature({ feature: 'user_management', action: 'read', resourceId: resourceIdFromPath() })(handleGetUserById);
+export const PUT = withFeature({ feature: 'user_management', action: 'update', resourceId: resourceIdFromPath() })(handleUpdateUser);
+export const DELETE = withFeature({ feature: 'user_management', action: 'delete', resourceId: resourceIdFromPath() })(handleDeleteUser);
\ No newline at end of file
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withFeature, getUserFromRequest } from "@/lib/withFeature";
+import { userInvitationService } from "@/services/user/userInvitationService";
+import { handleInvitationError } from "../../../../../_shared";
+
+/**
+ * Handler untuk mengirim ulang undangan user
+ * Token baru diterbitkan dan masa berlaku diperpanjang; link lama tidak berlaku lagi
+ * Memerlukan permission 'user_management' dengan action 'update'
+ */
+async function handleResendInvitation(request: NextRequest): Promise<NextResponse> {
+  try {
+    const currentUser = getUserFromRequest(request);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        message: 'User tidak terautentikasi'
+      }, { status: 401 });
+    }
+
+    const pathSegments = new URL(request.url).pathname.split('/');
+    const invitationId = parseInt(pathSegments[pathSegments.findIndex(segment => segment === 'invitations') + 1], 10);
+    if (isNaN(invitationId)) {
+      return NextResponse.json(
+        { success: false, message: 'ID undangan tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    const invitation = await userInvitationService.resendInvitation(currentUser.id, invitationId);
+
+    return NextResponse.json({
+      success: true,
+      data: { invitation },
+      message: `Undangan berhasil dikirim ulang ke ${invitation.email}`
+    });
+  } catch (error) {
+    return handleInvitationError(error, 'Terjadi kesalahan saat mengirim ulang undangan user');
+  }
+}
+
+export const POST = withFeature({ feature: 'user_management', action: 'update' })(handleResendInvitation);
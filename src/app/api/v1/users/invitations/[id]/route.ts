@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withFeature, getUserFromRequest } from "@/lib/withFeature";
+import { userInvitationService } from "@/services/user/userInvitationService";
+import { handleInvitationError } from "../../../../_shared";
+
+/**
+ * Handler untuk mencabut undangan user yang belum diterima
+ * Link undangan langsung tidak berlaku lagi
+ * Memerlukan permission 'user_management' dengan action 'delete'
+ */
+async function handleRevokeInvitation(request: NextRequest): Promise<NextResponse> {
+  try {
+    const currentUser = getUserFromRequest(request);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        message: 'User tidak terautentikasi'
+      }, { status: 401 });
+    }
+
+    const pathSegments = new URL(request.url).pathname.split('/');
+    const invitationId = parseInt(pathSegments[pathSegments.findIndex(segment => segment === 'invitations') + 1], 10);
+    if (isNaN(invitationId)) {
+      return NextResponse.json(
+        { success: false, message: 'ID undangan tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    await userInvitationService.revokeInvitation(currentUser.id, invitationId);
+
+    return NextResponse.json({
+      success: true,
+      data: { invitationId },
+      message: 'Undangan berhasil dicabut'
+    });
+  } catch (error) {
+    return handleInvitationError(error, 'Terjadi kesalahan saat mencabut undangan user');
+  }
+}
+
+export const DELETE = withFeature({ feature: 'user_management', action: 'delete' })(handleRevokeInvitation);
@@ -0,0 +1,230 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/shadcn/ui/card"
+import { Button } from "@/components/shadcn/ui/button"
+import { Input } from "@/components/shadcn/ui/input"
+import { Label } from "@/components/shadcn/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/shadcn/ui/select"
+import { SearchIcon } from "lucide-react"
+import { toast } from "sonner"
+import { useAuth } from "@/contexts/AuthContext"
+import { ExplainResult, type AuthorizationExplanation } from "./explain-result"
+
+interface UserOption {
+  id: number
+  name: string
+  email: string
+}
+
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE']
+const DAYS_OF_WEEK = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday']
+
+/**
+ * Tool explain keputusan otorisasi
+ * Pilih user, lalu method + path (seperti middleware) atau feature + action (seperti withFeature)
+ * Waktu dan hari opsional untuk mensimulasikan context.* pada ABAC policy
+ */
+export function AccessExplainer() {
+  const { accessToken } = useAuth()
+  const [users, setUsers] = useState<UserOption[]>([])
+  const [userId, setUserId] = useState('')
+  const [mode, setMode] = useState<'route' | 'feature'>('route')
+  const [method, setMethod] = useState('GET')
+  const [path, setPath] = useState('')
+  const [feature, setFeature] = useState('')
+  const [action, setAction] = useState('read')
+  const [timeOfDay, setTimeOfDay] = useState('')
+  const [dayOfWeek, setDayOfWeek] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [explanation, setExplanation] = useState<AuthorizationExplanation | null>(null)
+
+  /**
+   * Ambil daftar user untuk dipilih
+   */
+  const fetchUsers = useCallback(async () => {
+    if (!accessToken) return
+
+    const response = await fetch('/api/users', {
+      headers: { 'Authorization': `Bearer ${accessToken}` },
+    })
+    if (response.ok) {
+      const result = await response.json()
+      setUsers(result.data?.users || [])
+    }
+  }, [accessToken])
+
+  useEffect(() => {
+    fetchUsers()
+  }, [fetchUsers])
+
+  /**
+   * Kirim permintaan explain
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const target = mode === 'route'
+      ? { method, path: path.trim() }
+      : { feature: feature.trim(), action: action.trim() }
+    if (!userId || Object.values(target).some(value => !value)) {
+      toast.error(mode === 'route' ? 'User, method, dan path wajib diisi' : 'User, feature, dan action wajib diisi')
+      return
+    }
+
+    try {
+      setSubmitting(true)
+      const response = await fetch('/api/rbac/authorization/explain', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          userId: Number(userId),
+          ...target,
+          context: {
+            ...(timeOfDay ? { timeOfDay } : {}),
+            ...(dayOfWeek ? { dayOfWeek } : {}),
+          },
+        }),
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Gagal menjelaskan keputusan otorisasi')
+      }
+      setExplanation(result.data.explanation)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Gagal menjelaskan keputusan otorisasi')
+      setExplanation(null)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Kenapa Akses Ditolak?</CardTitle>
+          <CardDescription>
+            Keputusan dihitung dengan jalur yang sama dengan middleware tanpa mencatat policy violation
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="explain-user">User</Label>
+                <Select value={userId} onValueChange={setUserId}>
+                  <SelectTrigger id="explain-user">
+                    <SelectValue placeholder="Pilih user" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {users.map(user => (
+                      <SelectItem key={user.id} value={user.id.toString()}>
+                        {user.name} ({user.email})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="explain-mode">Target</Label>
+                <Select value={mode} onValueChange={(value) => setMode(value as 'route' | 'feature')}>
+                  <SelectTrigger id="explain-mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="route">Method + path</SelectItem>
+                    <SelectItem value="feature">Feature + action</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {mode === 'route' ? (
+              <div className="grid gap-4 md:grid-cols-[10rem_1fr]">
+                <div className="space-y-2">
+                  <Label htmlFor="explain-method">Method</Label>
+                  <Select value={method} onValueChange={setMethod}>
+                    <SelectTrigger id="explain-method">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {HTTP_METHODS.map(item => (
+                        <SelectItem key={item} value={item}>{item}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="explain-path">Path</Label>
+                  <Input
+                    id="explain-path"
+                    placeholder="/api/v1/users/42"
+                    value={path}
+                    onChange={(e) => setPath(e.target.value)}
+                  />
+                </div>
+              </div>
+            ) : (
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="explain-feature">Feature</Label>
+                  <Input
+                    id="explain-feature"
+                    placeholder="user_management"
+                    value={feature}
+                    onChange={(e) => setFeature(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="explain-action">Action</Label>
+                  <Input
+                    id="explain-action"
+                    placeholder="read"
+                    value={action}
+                    onChange={(e) => setAction(e.target.value)}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="explain-time">Waktu (opsional)</Label>
+                <Input
+                  id="explain-time"
+                  type="time"
+                  value={timeOfDay}
+                  onChange={(e) => setTimeOfDay(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="explain-day">Hari (opsional)</Label>
+                <Select value={dayOfWeek || 'now'} onValueChange={(value) => setDayOfWeek(value === 'now' ? '' : value)}>
+                  <SelectTrigger id="explain-day">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="now">Hari ini</SelectItem>
+                    {DAYS_OF_WEEK.map(day => (
+                      <SelectItem key={day} value={day}>{day}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <Button type="submit" disabled={submitting}>
+              <SearchIcon className="mr-2 h-4 w-4" />
+              {submitting ? 'Menjelaskan...' : 'Jelaskan'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {explanation && <ExplainResult explanation={explanation} />}
+    </div>
+  )
+}
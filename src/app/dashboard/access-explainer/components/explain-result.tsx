@@ -0,0 +1,257 @@
+"use client"
+
+import { Badge } from "@/components/shadcn/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/shadcn/ui/card"
+
+type PermissionEffect = 'allow' | 'deny' | 'unset'
+
+interface RolePermissionTrace {
+  roleId: number
+  roleName: string
+  grantsAll: boolean
+  flags: Record<string, boolean | null> | null
+  effect: PermissionEffect | null
+}
+
+interface PermissionDecisionTrace {
+  allowed: boolean
+  reason: string
+  feature: { id: number; name: string } | null
+  action: string
+  actionDeclared: boolean
+  grantsAllRole: string | null
+  roles: RolePermissionTrace[]
+}
+
+interface PolicyExpressionTrace {
+  id?: number
+  type: 'condition' | 'group'
+  description: string
+  passed: boolean
+  indeterminate: boolean
+  attribute?: string
+  operator: string
+  expectedValue?: string
+  actualValue?: string | null
+  reason?: string
+  children?: PolicyExpressionTrace[]
+}
+
+interface PolicyEvaluationTrace {
+  isValid: boolean
+  policies: {
+    policyId: number
+    description: string
+    enforcementMode: 'enforce' | 'audit' | 'disabled'
+    skipped: boolean
+    passed: boolean
+    trace: PolicyExpressionTrace
+  }[]
+}
+
+export interface AuthorizationExplanation {
+  user: { id: number; name: string; email: string; active: boolean; roles: string[]; hasGrantsAll: boolean }
+  allowed: boolean
+  reason: string
+  context: { timeOfDay: string; dayOfWeek: string; ip: string | null; method: string }
+  route: {
+    method: string
+    path: string
+    action: string
+    publicRoute: boolean
+    grantsAllBypass: boolean
+    matchedRoute: { id: number; path: string; method: string | null; featureId: number } | null
+    feature: { id: number; name: string } | null
+    permission: PermissionDecisionTrace | null
+    policies: PolicyEvaluationTrace | null
+  } | null
+  feature: {
+    grantsAllBypass: boolean
+    permission: PermissionDecisionTrace
+    policies: PolicyEvaluationTrace | null
+  } | null
+}
+
+const FLAG_LABELS: Record<string, string> = {
+  canCreate: 'C', canRead: 'R', canUpdate: 'U', canDelete: 'D',
+  denyCreate: '¬C', denyRead: '¬R', denyUpdate: '¬U', denyDelete: '¬D',
+}
+
+/**
+ * Badge lolos/gagal satu langkah
+ */
+function PassBadge({ passed, label }: { passed: boolean; label?: string }) {
+  return (
+    <Badge variant={passed ? 'default' : 'destructive'}>
+      {label ?? (passed ? 'Lolos' : 'Gagal')}
+    </Badge>
+  )
+}
+
+/**
+ * Node expression policy beserta anak-anaknya (nilai aktual vs nilai yang diharapkan)
+ */
+function PolicyNode({ node }: { node: PolicyExpressionTrace }) {
+  return (
+    <li className="space-y-1">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <PassBadge passed={node.passed} label={node.indeterminate ? 'Indeterminate' : undefined} />
+        {node.type === 'group' ? (
+          <span className="font-medium">{node.operator}</span>
+        ) : (
+          <>
+            <code>{node.attribute}</code>
+            <span className="text-muted-foreground">aktual</span>
+            <code>{node.actualValue ?? '(tidak ada)'}</code>
+            <span className="text-muted-foreground">diharapkan</span>
+            <code>{node.operator} {node.expectedValue}</code>
+          </>
+        )}
+      </div>
+      {node.reason && !node.passed && (
+        <p className="text-xs text-muted-foreground">{node.reason}</p>
+      )}
+      {node.children && (
+        <ul className="ml-4 border-l pl-4 space-y-2">
+          {node.children.map((child, index) => <PolicyNode key={child.id ?? index} node={child} />)}
+        </ul>
+      )}
+    </li>
+  )
+}
+
+/**
+ * Hasil explain: keputusan akhir, route_features yang cocok, role kandidat, dan ABAC policy
+ */
+export function ExplainResult({ explanation }: { explanation: AuthorizationExplanation }) {
+  const trace = explanation.route ?? explanation.feature
+  const permission = trace?.permission ?? null
+  const policies = trace?.policies ?? null
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>{explanation.allowed ? 'Akses diizinkan' : 'Akses ditolak'}</CardTitle>
+            <PassBadge passed={explanation.allowed} label={explanation.allowed ? 'Allow' : 'Deny'} />
+          </div>
+          <CardDescription>{explanation.reason}</CardDescription>
+        </CardHeader>
+        <CardContent className="text-sm space-y-1">
+          <p>
+            User: {explanation.user.name} ({explanation.user.email})
+            {!explanation.user.active && <Badge variant="destructive" className="ml-2">Tidak aktif</Badge>}
+          </p>
+          <p>Role aktif: {explanation.user.roles.length > 0 ? explanation.user.roles.join(', ') : '-'}</p>
+          <p className="text-muted-foreground">
+            Context: {explanation.context.method}, {explanation.context.dayOfWeek} {explanation.context.timeOfDay}
+            {explanation.context.ip ? `, IP ${explanation.context.ip}` : ''}
+          </p>
+          {trace?.grantsAllBypass && (
+            <p><Badge variant="outline">grantsAll bypass</Badge></p>
+          )}
+        </CardContent>
+      </Card>
+
+      {explanation.route && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Route</CardTitle>
+            <CardDescription>
+              {explanation.route.method} {explanation.route.path} → action {explanation.route.action}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="text-sm space-y-1">
+            {explanation.route.publicRoute ? (
+              <p>Route public, tidak memerlukan otorisasi</p>
+            ) : explanation.route.matchedRoute ? (
+              <>
+                <p>
+                  Pattern route_features: <code>{explanation.route.matchedRoute.method ?? '*'} {explanation.route.matchedRoute.path}</code>
+                </p>
+                <p>Feature: {explanation.route.feature?.name ?? `ID ${explanation.route.matchedRoute.featureId} (tidak ditemukan)`}</p>
+              </>
+            ) : (
+              <p>Tidak ada route_features yang cocok</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {permission && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>RBAC</CardTitle>
+              <PassBadge passed={permission.allowed} />
+            </div>
+            <CardDescription>{permission.reason}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="py-1">Role</th>
+                  <th className="py-1">grantsAll</th>
+                  <th className="py-1">Flag role_features</th>
+                  <th className="py-1">Effect {permission.action}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {permission.roles.map(role => (
+                  <tr key={role.roleId} className="border-t">
+                    <td className="py-1">{role.roleName}</td>
+                    <td className="py-1">{role.grantsAll ? 'Ya' : '-'}</td>
+                    <td className="py-1 space-x-1">
+                      {role.flags
+                        ? Object.entries(role.flags).filter(([, value]) => value).map(([flag]) => (
+                            <Badge key={flag} variant="outline">{FLAG_LABELS[flag] ?? flag}</Badge>
+                          ))
+                        : <span className="text-muted-foreground">tidak ada entry</span>}
+                    </td>
+                    <td className="py-1">{role.effect ?? '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+
+      {policies && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>ABAC Policy</CardTitle>
+              <PassBadge passed={policies.isValid} />
+            </div>
+            <CardDescription>
+              {policies.policies.length === 0 ? 'Feature tidak memiliki policy' : 'Semua root policy mode enforce harus terpenuhi'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-4">
+              {policies.policies.map(policy => (
+                <li key={policy.policyId} className="space-y-2">
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="font-medium">Policy #{policy.policyId}</span>
+                    {policy.skipped
+                      ? <Badge variant="secondary">Disabled</Badge>
+                      : <PassBadge passed={policy.passed} />}
+                    {policy.enforcementMode === 'audit' && (
+                      <Badge variant="outline">Audit (tidak memblokir)</Badge>
+                    )}
+                  </div>
+                  <ul className="ml-2">
+                    <PolicyNode node={policy.trace} />
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
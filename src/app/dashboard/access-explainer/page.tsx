@@ -0,0 +1,46 @@
+"use client"
+
+import { AppSidebar } from "@/components/app-sidebar"
+import { SiteHeader } from "@/components/site-header"
+import {
+  SidebarInset,
+  SidebarProvider,
+} from "@/components/shadcn/ui/sidebar"
+import { AccessExplainer } from "./components/access-explainer"
+
+/**
+ * Halaman Access Explainer
+ * Support menelusuri kenapa request user diizinkan atau ditolak (route, role, grantsAll, ABAC policy)
+ */
+export default function AccessExplainerPage() {
+  return (
+    <SidebarProvider
+      style={
+        {
+          "--sidebar-width": "calc(var(--spacing) * 72)",
+          "--header-height": "calc(var(--spacing) * 12)",
+        } as React.CSSProperties
+      }
+    >
+      <AppSidebar variant="inset" />
+      <SidebarInset>
+        <SiteHeader />
+        <div className="flex flex-1 flex-col">
+          <div className="@container/main flex flex-1 flex-col gap-2">
+            <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6">
+              <div className="px-4 lg:px-6">
+                <div className="mb-6">
+                  <h1 className="text-3xl font-bold tracking-tight">Access Explainer</h1>
+                  <p className="text-muted-foreground">
+                    Jelaskan keputusan otorisasi user untuk method + path atau feature + action
+                  </p>
+                </div>
+                <AccessExplainer />
+              </div>
+            </div>
+          </div>
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  )
+}
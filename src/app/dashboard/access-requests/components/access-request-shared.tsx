@@ -0,0 +1,52 @@
+"use client"
+
+import { Badge } from "@/components/shadcn/ui/badge"
+import { format } from "date-fns"
+import { id } from "date-fns/locale"
+
+export type AccessRequestStatus = 'pending' | 'approved' | 'rejected' | 'cancelled'
+
+export interface AccessRequest {
+  id: number
+  userId: number
+  roleId: number
+  justification: string
+  durationDays: number | null
+  status: AccessRequestStatus
+  reviewerId: number | null
+  reviewNote: string | null
+  createdAt: string
+  reviewedAt: string | null
+  user: { id: number; name: string; email: string } | null
+  role: { id: number; name: string } | null
+  reviewer: { id: number; name: string; email: string } | null
+}
+
+const STATUS_BADGES: Record<AccessRequestStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  pending: { label: 'Pending', variant: 'secondary' },
+  approved: { label: 'Approved', variant: 'default' },
+  rejected: { label: 'Rejected', variant: 'destructive' },
+  cancelled: { label: 'Cancelled', variant: 'outline' },
+}
+
+/**
+ * Badge status access request
+ */
+export function AccessRequestStatusBadge({ status }: { status: AccessRequestStatus }) {
+  const badge = STATUS_BADGES[status] ?? STATUS_BADGES.pending
+  return <Badge variant={badge.variant}>{badge.label}</Badge>
+}
+
+/**
+ * Format tanggal access request untuk tabel
+ */
+export function formatRequestDate(value: string | null): string {
+  return value ? format(new Date(value), 'dd MMM yyyy HH:mm', { locale: id }) : '-'
+}
+
+/**
+ * Format durasi yang diminta; null berarti permanen
+ */
+export function formatDuration(durationDays: number | null): string {
+  return durationDays ? `${durationDays} hari` : 'Permanen'
+}
@@ -0,0 +1,37 @@
+"use client"
+
+import { useState } from "react"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/shadcn/ui/tabs"
+import { MyAccessRequestsTab } from "./my-access-requests-tab"
+import { PendingApprovalsTab } from "./pending-approvals-tab"
+import { AllAccessRequestsTab } from "./all-access-requests-tab"
+
+/**
+ * Komponen tabs untuk Access Requests
+ * Mengelola navigasi antar tab: My Requests, Pending Approvals, All Requests
+ */
+export function AccessRequestTabs() {
+  const [activeTab, setActiveTab] = useState("my-requests")
+
+  return (
+    <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+      <TabsList className="grid w-full grid-cols-3">
+        <TabsTrigger value="my-requests">My Requests</TabsTrigger>
+        <TabsTrigger value="pending-approvals">Pending Approvals</TabsTrigger>
+        <TabsTrigger value="all-requests">All Requests</TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="my-requests" className="mt-6">
+        <MyAccessRequestsTab />
+      </TabsContent>
+
+      <TabsContent value="pending-approvals" className="mt-6">
+        <PendingApprovalsTab />
+      </TabsContent>
+
+      <TabsContent value="all-requests" className="mt-6">
+        <AllAccessRequestsTab />
+      </TabsContent>
+    </Tabs>
+  )
+}
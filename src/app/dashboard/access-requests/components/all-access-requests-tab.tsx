@@ -0,0 +1,140 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/shadcn/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/shadcn/ui/table"
+import { Button } from "@/components/shadcn/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/shadcn/ui/select"
+import { RefreshCwIcon } from "lucide-react"
+import { toast } from "sonner"
+import { useAuth } from "@/contexts/AuthContext"
+import {
+  type AccessRequest,
+  AccessRequestStatusBadge,
+  formatRequestDate,
+  formatDuration,
+} from "./access-request-shared"
+
+/**
+ * Tab overview semua access request (memerlukan permission role_management)
+ */
+export function AllAccessRequestsTab() {
+  const { accessToken } = useAuth()
+  const [requests, setRequests] = useState<AccessRequest[]>([])
+  const [status, setStatus] = useState('all')
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * Mengambil semua access request sesuai filter status
+   */
+  const fetchRequests = useCallback(async () => {
+    if (!accessToken) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+      const query = status !== 'all' ? `?status=${status}` : ''
+      const response = await fetch(`/api/rbac/access-requests${query}`, {
+        headers: { 'Authorization': `Bearer ${accessToken}` },
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Gagal mengambil access request')
+      }
+      setRequests(result.data.requests || [])
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Gagal mengambil access request'
+      setError(errorMessage)
+      toast.error(errorMessage)
+      setRequests([])
+    } finally {
+      setLoading(false)
+    }
+  }, [accessToken, status])
+
+  useEffect(() => {
+    fetchRequests()
+  }, [fetchRequests])
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>All Requests</CardTitle>
+          <CardDescription>Semua access request role beserta keputusan approver</CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Semua Status</SelectItem>
+              <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="approved">Approved</SelectItem>
+              <SelectItem value="rejected">Rejected</SelectItem>
+              <SelectItem value="cancelled">Cancelled</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={fetchRequests} disabled={loading}>
+            <RefreshCwIcon className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <div className="text-center text-muted-foreground py-8">{error}</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>User</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Justifikasi</TableHead>
+                <TableHead>Durasi</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Reviewer</TableHead>
+                <TableHead>Diajukan</TableHead>
+                <TableHead>Diputuskan</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {requests.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground">
+                    {loading ? 'Memuat...' : 'Tidak ada access request'}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                requests.map(request => (
+                  <TableRow key={request.id}>
+                    <TableCell>
+                      <div className="font-medium">{request.user?.name ?? `#${request.userId}`}</div>
+                      <div className="text-xs text-muted-foreground">{request.user?.email}</div>
+                    </TableCell>
+                    <TableCell>{request.role?.name ?? `#${request.roleId}`}</TableCell>
+                    <TableCell className="max-w-xs truncate">{request.justification}</TableCell>
+                    <TableCell>{formatDuration(request.durationDays)}</TableCell>
+                    <TableCell><AccessRequestStatusBadge status={request.status} /></TableCell>
+                    <TableCell>
+                      {request.reviewer?.name ?? '-'}
+                      {request.reviewNote && (
+                        <div className="text-xs text-muted-foreground">{request.reviewNote}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{formatRequestDate(request.createdAt)}</TableCell>
+                    <TableCell>{formatRequestDate(request.reviewedAt)}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,253 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/shadcn/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/shadcn/ui/table"
+import { Button } from "@/components/shadcn/ui/button"
+import { Input } from "@/components/shadcn/ui/input"
+import { Label } from "@/components/shadcn/ui/label"
+import { Textarea } from "@/components/shadcn/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/shadcn/ui/select"
+import { RefreshCwIcon, SendIcon, XIcon } from "lucide-react"
+import { toast } from "sonner"
+import { useAuth } from "@/contexts/AuthContext"
+import {
+  type AccessRequest,
+  AccessRequestStatusBadge,
+  formatRequestDate,
+  formatDuration,
+} from "./access-request-shared"
+
+interface RequestableRole {
+  id: number
+  name: string
+}
+
+/**
+ * Tab untuk membuat access request role dan melihat status request milik sendiri
+ */
+export function MyAccessRequestsTab() {
+  const { accessToken } = useAuth()
+  const [requests, setRequests] = useState<AccessRequest[]>([])
+  const [requestableRoles, setRequestableRoles] = useState<RequestableRole[]>([])
+  const [loading, setLoading] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+
+  // Form state
+  const [roleId, setRoleId] = useState('')
+  const [justification, setJustification] = useState('')
+  const [durationDays, setDurationDays] = useState('')
+
+  /**
+   * Mengambil access request milik user dan role yang dapat diminta
+   */
+  const fetchRequests = useCallback(async () => {
+    if (!accessToken) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      const response = await fetch('/api/profile/access-requests', {
+        headers: { 'Authorization': `Bearer ${accessToken}` },
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Gagal mengambil access request')
+      }
+      setRequests(result.data.requests || [])
+      setRequestableRoles(result.data.requestableRoles || [])
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Gagal mengambil access request')
+    } finally {
+      setLoading(false)
+    }
+  }, [accessToken])
+
+  useEffect(() => {
+    fetchRequests()
+  }, [fetchRequests])
+
+  /**
+   * Kirim access request baru
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!roleId || !justification.trim()) {
+      toast.error('Role dan justifikasi wajib diisi')
+      return
+    }
+
+    try {
+      setSubmitting(true)
+      const response = await fetch('/api/profile/access-requests', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          roleId: parseInt(roleId, 10),
+          justification: justification.trim(),
+          durationDays: durationDays ? parseInt(durationDays, 10) : null,
+        }),
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Gagal mengirim access request')
+      }
+
+      toast.success('Access request berhasil dikirim')
+      setRoleId('')
+      setJustification('')
+      setDurationDays('')
+      await fetchRequests()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Gagal mengirim access request')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  /**
+   * Batalkan access request yang masih pending
+   */
+  const handleCancel = async (requestId: number) => {
+    try {
+      const response = await fetch(`/api/profile/access-requests/${requestId}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${accessToken}` },
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Gagal membatalkan access request')
+      }
+
+      toast.success('Access request dibatalkan')
+      await fetchRequests()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Gagal membatalkan access request')
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Request Role</CardTitle>
+          <CardDescription>
+            Request akan diputuskan oleh approver yang ditunjuk untuk role tersebut
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="request-role">Role</Label>
+                <Select value={roleId} onValueChange={setRoleId}>
+                  <SelectTrigger id="request-role">
+                    <SelectValue placeholder="Pilih role" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {requestableRoles.map(role => (
+                      <SelectItem key={role.id} value={role.id.toString()}>
+                        {role.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="request-duration">Durasi (hari)</Label>
+                <Input
+                  id="request-duration"
+                  type="number"
+                  min={1}
+                  max={365}
+                  placeholder="Kosongkan untuk permanen"
+                  value={durationDays}
+                  onChange={(e) => setDurationDays(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="request-justification">Justifikasi</Label>
+              <Textarea
+                id="request-justification"
+                placeholder="Jelaskan mengapa Anda membutuhkan role ini"
+                maxLength={1000}
+                value={justification}
+                onChange={(e) => setJustification(e.target.value)}
+              />
+            </div>
+            <Button type="submit" disabled={submitting || requestableRoles.length === 0}>
+              <SendIcon className="mr-2 h-4 w-4" />
+              {submitting ? 'Mengirim...' : 'Kirim Request'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>My Requests</CardTitle>
+            <CardDescription>Riwayat access request Anda</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={fetchRequests} disabled={loading}>
+            <RefreshCwIcon className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Role</TableHead>
+                <TableHead>Justifikasi</TableHead>
+                <TableHead>Durasi</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Reviewer</TableHead>
+                <TableHead>Diajukan</TableHead>
+                <TableHead className="text-right">Aksi</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {requests.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    {loading ? 'Memuat...' : 'Belum ada access request'}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                requests.map(request => (
+                  <TableRow key={request.id}>
+                    <TableCell className="font-medium">{request.role?.name ?? `#${request.roleId}`}</TableCell>
+                    <TableCell className="max-w-xs truncate">{request.justification}</TableCell>
+                    <TableCell>{formatDuration(request.durationDays)}</TableCell>
+                    <TableCell><AccessRequestStatusBadge status={request.status} /></TableCell>
+                    <TableCell>
+                      {request.reviewer?.name ?? '-'}
+                      {request.reviewNote && (
+                        <div className="text-xs text-muted-foreground">{request.reviewNote}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{formatRequestDate(request.createdAt)}</TableCell>
+                    <TableCell className="text-right">
+                      {request.status === 'pending' && (
+                        <Button variant="ghost" size="sm" onClick={() => handleCancel(request.id)}>
+                          <XIcon className="mr-1 h-4 w-4" />
+                          Batalkan
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
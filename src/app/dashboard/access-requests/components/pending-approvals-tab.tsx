@@ -0,0 +1,160 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/shadcn/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/shadcn/ui/table"
+import { Button } from "@/components/shadcn/ui/button"
+import { Input } from "@/components/shadcn/ui/input"
+import { CheckIcon, RefreshCwIcon, XIcon } from "lucide-react"
+import { toast } from "sonner"
+import { useAuth } from "@/contexts/AuthContext"
+import { type AccessRequest, formatRequestDate, formatDuration } from "./access-request-shared"
+
+/**
+ * Tab antrian approval: access request pending untuk role di mana user ditunjuk sebagai approver
+ */
+export function PendingApprovalsTab() {
+  const { accessToken } = useAuth()
+  const [requests, setRequests] = useState<AccessRequest[]>([])
+  const [notes, setNotes] = useState<Record<number, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [processingId, setProcessingId] = useState<number | null>(null)
+
+  /**
+   * Mengambil antrian approval
+   */
+  const fetchApprovals = useCallback(async () => {
+    if (!accessToken) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      const response = await fetch('/api/profile/approvals', {
+        headers: { 'Authorization': `Bearer ${accessToken}` },
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Gagal mengambil antrian approval')
+      }
+      setRequests(result.data.requests || [])
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Gagal mengambil antrian approval')
+    } finally {
+      setLoading(false)
+    }
+  }, [accessToken])
+
+  useEffect(() => {
+    fetchApprovals()
+  }, [fetchApprovals])
+
+  /**
+   * Setujui atau tolak access request
+   */
+  const handleDecision = async (requestId: number, decision: 'approve' | 'reject') => {
+    try {
+      setProcessingId(requestId)
+      const response = await fetch(`/api/profile/approvals/${requestId}`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ decision, note: notes[requestId] || undefined }),
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Gagal memproses access request')
+      }
+
+      toast.success(result.message)
+      await fetchApprovals()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Gagal memproses access request')
+    } finally {
+      setProcessingId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Pending Approvals</CardTitle>
+          <CardDescription>
+            Access request untuk role di mana Anda ditunjuk sebagai approver
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={fetchApprovals} disabled={loading}>
+          <RefreshCwIcon className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>User</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Justifikasi</TableHead>
+              <TableHead>Durasi</TableHead>
+              <TableHead>Diajukan</TableHead>
+              <TableHead>Catatan</TableHead>
+              <TableHead className="text-right">Aksi</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {requests.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground">
+                  {loading ? 'Memuat...' : 'Tidak ada request yang menunggu approval'}
+                </TableCell>
+              </TableRow>
+            ) : (
+              requests.map(request => (
+                <TableRow key={request.id}>
+                  <TableCell>
+                    <div className="font-medium">{request.user?.name ?? `#${request.userId}`}</div>
+                    <div className="text-xs text-muted-foreground">{request.user?.email}</div>
+                  </TableCell>
+                  <TableCell>{request.role?.name ?? `#${request.roleId}`}</TableCell>
+                  <TableCell className="max-w-xs whitespace-normal">{request.justification}</TableCell>
+                  <TableCell>{formatDuration(request.durationDays)}</TableCell>
+                  <TableCell>{formatRequestDate(request.createdAt)}</TableCell>
+                  <TableCell>
+                    <Input
+                      placeholder="Opsional"
+                      maxLength={500}
+                      value={notes[request.id] ?? ''}
+                      onChange={(e) => setNotes(prev => ({ ...prev, [request.id]: e.target.value }))}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right space-x-2 whitespace-nowrap">
+                    <Button
+                      size="sm"
+                      disabled={processingId === request.id}
+                      onClick={() => handleDecision(request.id, 'approve')}
+                    >
+                      <CheckIcon className="mr-1 h-4 w-4" />
+                      Approve
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      disabled={processingId === request.id}
+                      onClick={() => handleDecision(request.id, 'reject')}
+                    >
+                      <XIcon className="mr-1 h-4 w-4" />
+                      Reject
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
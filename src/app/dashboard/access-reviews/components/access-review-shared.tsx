@@ -0,0 +1,74 @@
+"use client"
+
+import { Badge } from "@/components/shadcn/ui/badge"
+import { format } from "date-fns"
+import { id } from "date-fns/locale"
+
+export type AccessReviewDecision = 'pending' | 'keep' | 'revoke'
+
+interface UserSummary {
+  id: number
+  name: string
+  email: string
+}
+
+export interface AccessReviewItem {
+  id: number
+  campaignId: number
+  userId: number
+  roleId: number
+  validUntil: string | null
+  reviewerId: number | null
+  decision: AccessReviewDecision
+  decisionNote: string | null
+  decidedAt: string | null
+  appliedAt: string | null
+  user: UserSummary | null
+  role: { id: number; name: string } | null
+  reviewer: UserSummary | null
+  campaign?: { id: number; name: string; dueDate: string | null }
+}
+
+export interface AccessReviewProgress {
+  total: number
+  pending: number
+  kept: number
+  revoked: number
+  unassigned: number
+  percentComplete: number
+  byReviewer: Array<{ reviewer: UserSummary | null; total: number; decided: number }>
+}
+
+export interface AccessReviewCampaign {
+  id: number
+  name: string
+  description: string | null
+  scopeType: 'role' | 'department' | 'region'
+  scopeValue: string
+  status: 'open' | 'closed'
+  dueDate: string | null
+  createdAt: string
+  closedAt: string | null
+  progress: AccessReviewProgress
+}
+
+const DECISION_BADGES: Record<AccessReviewDecision, { label: string; variant: "default" | "secondary" | "destructive" }> = {
+  pending: { label: 'Pending', variant: 'secondary' },
+  keep: { label: 'Keep', variant: 'default' },
+  revoke: { label: 'Revoke', variant: 'destructive' },
+}
+
+/**
+ * Badge keputusan item access review
+ */
+export function DecisionBadge({ decision }: { decision: AccessReviewDecision }) {
+  const badge = DECISION_BADGES[decision] ?? DECISION_BADGES.pending
+  return <Badge variant={badge.variant}>{badge.label}</Badge>
+}
+
+/**
+ * Format tanggal access review untuk tabel
+ */
+export function formatReviewDate(value: string | null): string {
+  return value ? format(new Date(value), 'dd MMM yyyy HH:mm', { locale: id }) : '-'
+}
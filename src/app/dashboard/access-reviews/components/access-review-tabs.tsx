@@ -0,0 +1,31 @@
+"use client"
+
+import { useState } from "react"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/shadcn/ui/tabs"
+import { MyReviewsTab } from "./my-reviews-tab"
+import { CampaignsTab } from "./campaigns-tab"
+
+/**
+ * Komponen tabs untuk Access Reviews
+ * Mengelola navigasi antar tab: My Reviews, Campaigns
+ */
+export function AccessReviewTabs() {
+  const [activeTab, setActiveTab] = useState("my-reviews")
+
+  return (
+    <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+      <TabsList className="grid w-full grid-cols-2">
+        <TabsTrigger value="my-reviews">My Reviews</TabsTrigger>
+        <TabsTrigger value="campaigns">Campaigns</TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="my-reviews" className="mt-6">
+        <MyReviewsTab />
+      </TabsContent>
+
+      <TabsContent value="campaigns" className="mt-6">
+        <CampaignsTab />
+      </TabsContent>
+    </Tabs>
+  )
+}
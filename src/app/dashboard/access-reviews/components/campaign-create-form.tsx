@@ -0,0 +1,169 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/shadcn/ui/card"
+import { Button } from "@/components/shadcn/ui/button"
+import { Input } from "@/components/shadcn/ui/input"
+import { Label } from "@/components/shadcn/ui/label"
+import { Checkbox } from "@/components/shadcn/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/shadcn/ui/select"
+import { PlusIcon } from "lucide-react"
+import { toast } from "sonner"
+import { useAuth } from "@/contexts/AuthContext"
+
+export interface ReviewerOption {
+  id: number
+  name: string
+  email: string
+}
+
+interface CampaignCreateFormProps {
+  users: ReviewerOption[]
+  onCreated: (campaignId: number) => void
+}
+
+const SCOPE_PLACEHOLDERS: Record<string, string> = {
+  role: 'Role ID, contoh: 3',
+  department: 'Nama department, contoh: Finance',
+  region: 'Nama region, contoh: Jakarta',
+}
+
+/**
+ * Form pembuatan campaign access review
+ * Snapshot role assignment dalam scope diambil saat campaign dibuat
+ */
+export function CampaignCreateForm({ users, onCreated }: CampaignCreateFormProps) {
+  const { accessToken } = useAuth()
+  const [name, setName] = useState('')
+  const [scopeType, setScopeType] = useState('role')
+  const [scopeValue, setScopeValue] = useState('')
+  const [dueDate, setDueDate] = useState('')
+  const [reviewerIds, setReviewerIds] = useState<number[]>([])
+  const [submitting, setSubmitting] = useState(false)
+
+  /**
+   * Toggle user sebagai reviewer campaign
+   */
+  const toggleReviewer = (userId: number, checked: boolean) => {
+    setReviewerIds(prev => checked ? [...prev, userId] : prev.filter(id => id !== userId))
+  }
+
+  /**
+   * Kirim campaign baru
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim() || !scopeValue.trim() || reviewerIds.length === 0) {
+      toast.error('Nama, scope, dan minimal satu reviewer wajib diisi')
+      return
+    }
+
+    try {
+      setSubmitting(true)
+      const response = await fetch('/api/rbac/access-reviews', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: name.trim(),
+          scopeType,
+          scopeValue: scopeValue.trim(),
+          reviewerIds,
+          dueDate: dueDate ? new Date(dueDate).toISOString() : null,
+        }),
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Gagal membuat access review campaign')
+      }
+
+      setName('')
+      setScopeValue('')
+      setDueDate('')
+      setReviewerIds([])
+      onCreated(result.data.campaign.id)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Gagal membuat access review campaign')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Campaign Baru</CardTitle>
+        <CardDescription>
+          Role assignment dalam scope di-snapshot dan dibagi ke reviewer secara bergiliran
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="campaign-name">Nama</Label>
+              <Input
+                id="campaign-name"
+                placeholder="Q3 2025 Finance Recertification"
+                maxLength={150}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="campaign-due-date">Due Date</Label>
+              <Input
+                id="campaign-due-date"
+                type="datetime-local"
+                value={dueDate}
+                onChange={(e) => setDueDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="campaign-scope-type">Scope</Label>
+              <Select value={scopeType} onValueChange={setScopeType}>
+                <SelectTrigger id="campaign-scope-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="role">Role</SelectItem>
+                  <SelectItem value="department">Department</SelectItem>
+                  <SelectItem value="region">Region</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="campaign-scope-value">Nilai Scope</Label>
+              <Input
+                id="campaign-scope-value"
+                placeholder={SCOPE_PLACEHOLDERS[scopeType]}
+                value={scopeValue}
+                onChange={(e) => setScopeValue(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Reviewer</Label>
+            <div className="grid gap-2 md:grid-cols-3 max-h-40 overflow-y-auto rounded-md border p-3">
+              {users.map(user => (
+                <label key={user.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={reviewerIds.includes(user.id)}
+                    onCheckedChange={(checked) => toggleReviewer(user.id, checked === true)}
+                  />
+                  {user.name}
+                </label>
+              ))}
+            </div>
+          </div>
+          <Button type="submit" disabled={submitting}>
+            <PlusIcon className="mr-2 h-4 w-4" />
+            {submitting ? 'Membuat...' : 'Buat Campaign'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,260 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/shadcn/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/shadcn/ui/table"
+import { Button } from "@/components/shadcn/ui/button"
+import { Progress } from "@/components/shadcn/ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/shadcn/ui/select"
+import { DownloadIcon, LockIcon, RotateCcwIcon } from "lucide-react"
+import { toast } from "sonner"
+import { useAuth } from "@/contexts/AuthContext"
+import {
+  type AccessReviewCampaign,
+  type AccessReviewItem,
+  DecisionBadge,
+  formatReviewDate,
+} from "./access-review-shared"
+import { type ReviewerOption } from "./campaign-create-form"
+
+interface CampaignDetailProps {
+  campaignId: number
+  users: ReviewerOption[]
+  onChanged: () => void
+}
+
+/**
+ * Detail campaign access review: progress per reviewer, item, reassign reviewer,
+ * penutupan campaign, dan export CSV keputusan
+ */
+export function CampaignDetail({ campaignId, users, onChanged }: CampaignDetailProps) {
+  const { accessToken } = useAuth()
+  const [campaign, setCampaign] = useState<AccessReviewCampaign | null>(null)
+  const [items, setItems] = useState<AccessReviewItem[]>([])
+  const [closing, setClosing] = useState(false)
+
+  /**
+   * Mengambil detail campaign beserta item-nya
+   */
+  const fetchDetail = useCallback(async () => {
+    if (!accessToken) return
+
+    try {
+      const response = await fetch(`/api/rbac/access-reviews/${campaignId}`, {
+        headers: { 'Authorization': `Bearer ${accessToken}` },
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Gagal mengambil detail campaign')
+      }
+      setCampaign(result.data.campaign)
+      setItems(result.data.items || [])
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Gagal mengambil detail campaign')
+    }
+  }, [accessToken, campaignId])
+
+  useEffect(() => {
+    fetchDetail()
+  }, [fetchDetail])
+
+  /**
+   * Pindahkan item ke reviewer lain
+   */
+  const handleReassign = async (itemId: number, reviewerId: string) => {
+    try {
+      const response = await fetch(`/api/rbac/access-reviews/${campaignId}/items/${itemId}`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ reviewerId: parseInt(reviewerId, 10) }),
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Gagal memindahkan reviewer')
+      }
+
+      toast.success('Reviewer berhasil dipindahkan')
+      await fetchDetail()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Gagal memindahkan reviewer')
+    }
+  }
+
+  /**
+   * Tutup campaign dan terapkan keputusan revoke
+   */
+  const handleClose = async () => {
+    const question = campaign?.status === 'open'
+      ? 'Tutup campaign? Semua keputusan revoke akan langsung diterapkan.'
+      : 'Ulangi penerapan keputusan revoke yang gagal?'
+    if (!confirm(question)) return
+
+    try {
+      setClosing(true)
+      const response = await fetch(`/api/rbac/access-reviews/${campaignId}/close`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${accessToken}` },
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Gagal menutup campaign')
+      }
+
+      toast.success(result.message)
+      await fetchDetail()
+      onChanged()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Gagal menutup campaign')
+    } finally {
+      setClosing(false)
+    }
+  }
+
+  /**
+   * Download CSV keputusan campaign (memerlukan Authorization header sehingga tidak memakai link langsung)
+   */
+  const handleExport = async () => {
+    try {
+      const response = await fetch(`/api/rbac/access-reviews/${campaignId}/export`, {
+        headers: { 'Authorization': `Bearer ${accessToken}` },
+      })
+      if (!response.ok) {
+        throw new Error('Gagal export CSV')
+      }
+
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `access-review-${campaignId}.csv`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Gagal export CSV')
+    }
+  }
+
+  if (!campaign) {
+    return null
+  }
+
+  const isOpen = campaign.status === 'open'
+  // Revoke yang gagal saat campaign ditutup dapat diulang
+  const hasUnappliedRevocations = !isOpen && items.some(item => item.decision === 'revoke' && !item.appliedAt)
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div>
+          <CardTitle>{campaign.name}</CardTitle>
+          <CardDescription>
+            Scope {campaign.scopeType}: {campaign.scopeValue} · dibuat {formatReviewDate(campaign.createdAt)}
+            {campaign.closedAt && ` · ditutup ${formatReviewDate(campaign.closedAt)}`}
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={handleExport}>
+            <DownloadIcon className="mr-2 h-4 w-4" />
+            Export CSV
+          </Button>
+          {isOpen && (
+            <Button variant="destructive" size="sm" onClick={handleClose} disabled={closing}>
+              <LockIcon className="mr-2 h-4 w-4" />
+              {closing ? 'Menutup...' : 'Tutup Campaign'}
+            </Button>
+          )}
+          {hasUnappliedRevocations && (
+            <Button variant="destructive" size="sm" onClick={handleClose} disabled={closing}>
+              <RotateCcwIcon className="mr-2 h-4 w-4" />
+              {closing ? 'Menerapkan...' : 'Ulangi Revoke'}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-4">
+          <div>
+            <div className="text-sm text-muted-foreground">Progress</div>
+            <div className="text-2xl font-bold">{campaign.progress.percentComplete}%</div>
+            <Progress value={campaign.progress.percentComplete} />
+          </div>
+          <div>
+            <div className="text-sm text-muted-foreground">Keep</div>
+            <div className="text-2xl font-bold">{campaign.progress.kept}</div>
+          </div>
+          <div>
+            <div className="text-sm text-muted-foreground">Revoke</div>
+            <div className="text-2xl font-bold">{campaign.progress.revoked}</div>
+          </div>
+          <div>
+            <div className="text-sm text-muted-foreground">Pending / Unassigned</div>
+            <div className="text-2xl font-bold">
+              {campaign.progress.pending} / {campaign.progress.unassigned}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-4 text-sm">
+          {campaign.progress.byReviewer.map(entry => (
+            <div key={entry.reviewer?.id ?? 'unassigned'} className="rounded-md border px-3 py-2">
+              <div className="font-medium">{entry.reviewer?.name ?? 'Unassigned'}</div>
+              <div className="text-muted-foreground">{entry.decided}/{entry.total} diputuskan</div>
+            </div>
+          ))}
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>User</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Reviewer</TableHead>
+              <TableHead>Keputusan</TableHead>
+              <TableHead>Catatan</TableHead>
+              <TableHead>Diputuskan</TableHead>
+              <TableHead>Diterapkan</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.map(item => (
+              <TableRow key={item.id}>
+                <TableCell>
+                  <div className="font-medium">{item.user?.name ?? `#${item.userId}`}</div>
+                  <div className="text-xs text-muted-foreground">{item.user?.email}</div>
+                </TableCell>
+                <TableCell>{item.role?.name ?? `#${item.roleId}`}</TableCell>
+                <TableCell>
+                  {isOpen ? (
+                    <Select
+                      value={item.reviewerId?.toString() ?? ''}
+                      onValueChange={(value) => handleReassign(item.id, value)}
+                    >
+                      <SelectTrigger className="w-44">
+                        <SelectValue placeholder="Unassigned" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {users.filter(user => user.id !== item.userId).map(user => (
+                          <SelectItem key={user.id} value={user.id.toString()}>
+                            {user.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    item.reviewer?.name ?? 'Unassigned'
+                  )}
+                </TableCell>
+                <TableCell><DecisionBadge decision={item.decision} /></TableCell>
+                <TableCell className="max-w-xs truncate">{item.decisionNote ?? '-'}</TableCell>
+                <TableCell>{formatReviewDate(item.decidedAt)}</TableCell>
+                <TableCell>{formatReviewDate(item.appliedAt)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
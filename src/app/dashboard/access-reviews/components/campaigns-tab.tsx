@@ -0,0 +1,165 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/shadcn/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/shadcn/ui/table"
+import { Badge } from "@/components/shadcn/ui/badge"
+import { Button } from "@/components/shadcn/ui/button"
+import { Progress } from "@/components/shadcn/ui/progress"
+import { RefreshCwIcon } from "lucide-react"
+import { toast } from "sonner"
+import { useAuth } from "@/contexts/AuthContext"
+import { type AccessReviewCampaign, formatReviewDate } from "./access-review-shared"
+import { CampaignCreateForm, type ReviewerOption } from "./campaign-create-form"
+import { CampaignDetail } from "./campaign-detail"
+
+/**
+ * Tab campaign access review (memerlukan permission role_management)
+ * Menampilkan daftar campaign beserta progress, form campaign baru, dan detail campaign terpilih
+ */
+export function CampaignsTab() {
+  const { accessToken } = useAuth()
+  const [campaigns, setCampaigns] = useState<AccessReviewCampaign[]>([])
+  const [users, setUsers] = useState<ReviewerOption[]>([])
+  const [selectedCampaignId, setSelectedCampaignId] = useState<number | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * Mengambil daftar campaign dan user untuk pilihan reviewer
+   */
+  const fetchCampaigns = useCallback(async () => {
+    if (!accessToken) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+      const [campaignsResponse, usersResponse] = await Promise.all([
+        fetch('/api/rbac/access-reviews', {
+          headers: { 'Authorization': `Bearer ${accessToken}` },
+        }),
+        fetch('/api/users', {
+          headers: { 'Authorization': `Bearer ${accessToken}` },
+        })
+      ])
+
+      const result = await campaignsResponse.json()
+      if (!campaignsResponse.ok || !result.success) {
+        throw new Error(result.message || 'Gagal mengambil access review campaign')
+      }
+      setCampaigns(result.data.campaigns || [])
+
+      if (usersResponse.ok) {
+        const usersData = await usersResponse.json()
+        setUsers(usersData.data?.users || [])
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Gagal mengambil access review campaign'
+      setError(errorMessage)
+      setCampaigns([])
+    } finally {
+      setLoading(false)
+    }
+  }, [accessToken])
+
+  useEffect(() => {
+    fetchCampaigns()
+  }, [fetchCampaigns])
+
+  /**
+   * Handle campaign baru dibuat: refresh daftar dan tampilkan detailnya
+   */
+  const handleCreated = async (campaignId: number) => {
+    toast.success('Access review campaign berhasil dibuat')
+    setSelectedCampaignId(campaignId)
+    await fetchCampaigns()
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="text-center text-muted-foreground py-8">{error}</CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <CampaignCreateForm users={users} onCreated={handleCreated} />
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Campaigns</CardTitle>
+            <CardDescription>Campaign recertification beserta progress keputusan reviewer</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={fetchCampaigns} disabled={loading}>
+            <RefreshCwIcon className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nama</TableHead>
+                <TableHead>Scope</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-48">Progress</TableHead>
+                <TableHead>Due Date</TableHead>
+                <TableHead className="text-right">Aksi</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {campaigns.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    {loading ? 'Memuat...' : 'Belum ada access review campaign'}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                campaigns.map(campaign => (
+                  <TableRow key={campaign.id}>
+                    <TableCell className="font-medium">{campaign.name}</TableCell>
+                    <TableCell>
+                      <span className="capitalize">{campaign.scopeType}</span>: {campaign.scopeValue}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={campaign.status === 'open' ? 'default' : 'secondary'}>
+                        {campaign.status === 'open' ? 'Open' : 'Closed'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="space-y-1">
+                        <Progress value={campaign.progress.percentComplete} />
+                        <div className="text-xs text-muted-foreground">
+                          {campaign.progress.total - campaign.progress.pending}/{campaign.progress.total} diputuskan
+                        </div>
+                      </div>
+                    </TableCell>
+                    <TableCell>{formatReviewDate(campaign.dueDate)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="outline" size="sm" onClick={() => setSelectedCampaignId(campaign.id)}>
+                        Detail
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {selectedCampaignId !== null && (
+        <CampaignDetail
+          campaignId={selectedCampaignId}
+          users={users}
+          onChanged={fetchCampaigns}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,176 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/shadcn/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/shadcn/ui/table"
+import { Button } from "@/components/shadcn/ui/button"
+import { Input } from "@/components/shadcn/ui/input"
+import { CheckIcon, RefreshCwIcon, XIcon } from "lucide-react"
+import { toast } from "sonner"
+import { useAuth } from "@/contexts/AuthContext"
+import {
+  type AccessReviewItem,
+  type AccessReviewDecision,
+  DecisionBadge,
+  formatReviewDate,
+} from "./access-review-shared"
+
+/**
+ * Tab review milik reviewer: role assignment dalam campaign open yang perlu diputuskan keep/revoke
+ */
+export function MyReviewsTab() {
+  const { accessToken } = useAuth()
+  const [items, setItems] = useState<AccessReviewItem[]>([])
+  const [notes, setNotes] = useState<Record<number, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [processingId, setProcessingId] = useState<number | null>(null)
+
+  /**
+   * Mengambil item access review yang ditugaskan ke user
+   */
+  const fetchItems = useCallback(async () => {
+    if (!accessToken) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      const response = await fetch('/api/profile/access-reviews', {
+        headers: { 'Authorization': `Bearer ${accessToken}` },
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Gagal mengambil access review')
+      }
+      setItems(result.data.items || [])
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Gagal mengambil access review')
+    } finally {
+      setLoading(false)
+    }
+  }, [accessToken])
+
+  useEffect(() => {
+    fetchItems()
+  }, [fetchItems])
+
+  /**
+   * Simpan keputusan keep/revoke
+   */
+  const handleDecision = async (itemId: number, decision: Exclude<AccessReviewDecision, 'pending'>) => {
+    try {
+      setProcessingId(itemId)
+      const response = await fetch(`/api/profile/access-reviews/${itemId}`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ decision, note: notes[itemId] || undefined }),
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Gagal menyimpan keputusan')
+      }
+
+      setItems(prev => prev.map(item => item.id === itemId ? { ...item, ...result.data.item } : item))
+      toast.success('Keputusan disimpan')
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Gagal menyimpan keputusan')
+    } finally {
+      setProcessingId(null)
+    }
+  }
+
+  const pendingCount = items.filter(item => item.decision === 'pending').length
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>My Reviews</CardTitle>
+          <CardDescription>
+            {pendingCount} dari {items.length} role assignment menunggu keputusan Anda.
+            Keputusan dapat diubah sampai campaign ditutup.
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={fetchItems} disabled={loading}>
+          <RefreshCwIcon className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Campaign</TableHead>
+              <TableHead>User</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Berlaku Sampai</TableHead>
+              <TableHead>Keputusan</TableHead>
+              <TableHead>Catatan</TableHead>
+              <TableHead className="text-right">Aksi</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground">
+                  {loading ? 'Memuat...' : 'Tidak ada access review yang ditugaskan ke Anda'}
+                </TableCell>
+              </TableRow>
+            ) : (
+              items.map(item => (
+                <TableRow key={item.id}>
+                  <TableCell>
+                    <div className="font-medium">{item.campaign?.name ?? `#${item.campaignId}`}</div>
+                    {item.campaign?.dueDate && (
+                      <div className="text-xs text-muted-foreground">
+                        Due {formatReviewDate(item.campaign.dueDate)}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="font-medium">{item.user?.name ?? `#${item.userId}`}</div>
+                    <div className="text-xs text-muted-foreground">{item.user?.email}</div>
+                  </TableCell>
+                  <TableCell>{item.role?.name ?? `#${item.roleId}`}</TableCell>
+                  <TableCell>{item.validUntil ? formatReviewDate(item.validUntil) : 'Permanen'}</TableCell>
+                  <TableCell><DecisionBadge decision={item.decision} /></TableCell>
+                  <TableCell>
+                    <Input
+                      placeholder={item.decisionNote ?? 'Opsional'}
+                      maxLength={500}
+                      value={notes[item.id] ?? ''}
+                      onChange={(e) => setNotes(prev => ({ ...prev, [item.id]: e.target.value }))}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right space-x-2 whitespace-nowrap">
+                    <Button
+                      size="sm"
+                      variant={item.decision === 'keep' ? 'default' : 'outline'}
+                      disabled={processingId === item.id}
+                      onClick={() => handleDecision(item.id, 'keep')}
+                    >
+                      <CheckIcon className="mr-1 h-4 w-4" />
+                      Keep
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={item.decision === 'revoke' ? 'destructive' : 'outline'}
+                      disabled={processingId === item.id}
+                      onClick={() => handleDecision(item.id, 'revoke')}
+                    >
+                      <XIcon className="mr-1 h-4 w-4" />
+                      Revoke
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,46 @@
+"use client"
+
+import { AppSidebar } from "@/components/app-sidebar"
+import { SiteHeader } from "@/components/site-header"
+import {
+  SidebarInset,
+  SidebarProvider,
+} from "@/components/shadcn/ui/sidebar"
+import { AccessReviewTabs } from "./components/access-review-tabs"
+
+/**
+ * Halaman Access Reviews
+ * Reviewer memutuskan keep/revoke role assignment, admin mengelola campaign recertification
+ */
+export default function AccessReviewsPage() {
+  return (
+    <SidebarProvider
+      style={
+        {
+          "--sidebar-width": "calc(var(--spacing) * 72)",
+          "--header-height": "calc(var(--spacing) * 12)",
+        } as React.CSSProperties
+      }
+    >
+      <AppSidebar variant="inset" />
+      <SidebarInset>
+        <SiteHeader />
+        <div className="flex flex-1 flex-col">
+          <div className="@container/main flex flex-1 flex-col gap-2">
+            <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6">
+              <div className="px-4 lg:px-6">
+                <div className="mb-6">
+                  <h1 className="text-3xl font-bold tracking-tight">Access Reviews</h1>
+                  <p className="text-muted-foreground">
+                    Recertification periodik role assignment: review keep/revoke dan campaign untuk audit
+                  </p>
+                </div>
+                <AccessReviewTabs />
+              </div>
+            </div>
+          </div>
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  )
+}
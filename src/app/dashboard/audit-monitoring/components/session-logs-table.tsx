@@ -20,9 +20,12 @@ interface SessionLog {
   action: string; // 'login', 'logout', 'token_refresh', 'token_revoke'
   ipAddress: string | null;
   userAgent: string | null;
+  deviceLabel: string | null;
+  isActive: boolean;
   success: boolean;
   reason: string | null;
   createdAt: Date;
+  lastSeenAt: Date | null;
   user?: {
     id: number;
     name: string;
@@ -42,13 +45,14 @@ interface SessionStats {
 
 /**
  * Komponen untuk menampilkan tabel session logs
- * Menampilkan user login/logout, refresh token revoke
+ * Menampilkan user login/logout, refresh token revoke, dan revoke session aktif oleh admin
  */
 export function SessionLogsTable() {
   const [sessionLogs, setSessionLogs] = useState<SessionLog[]>([]);
   const [stats, setStats] = useState<SessionStats | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<number | null>(null);
   
   const { accessToken } = useAuth();
   
@@ -123,6 +127,40 @@ export function SessionLogsTable() {
     }
   };
 
+  /**
+   * Revoke session aktif (remote sign-out); refresh token session langsung tidak berlaku
+   */
+  const handleRevokeSession = async (session: SessionLog) => {
+    const owner = session.user ? session.user.email : `User ID ${session.userId}`;
+    if (!confirm(`Revoke session ${session.deviceLabel || ''} milik ${owner}?`)) {
+      return;
+    }
+
+    try {
+      setRevokingId(session.id);
+      const response = await fetch(`/api/audit/session-logs/${session.id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || 'Gagal revoke session');
+      }
+
+      toast.success(result.message || 'Session berhasil di-revoke');
+      await fetchSessionLogs();
+    } catch (err) {
+      console.error('Error revoking session:', err);
+      toast.error(err instanceof Error ? err.message : 'Terjadi kesalahan saat revoke session');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
   /**
    * Effect untuk mengambil data saat komponen dimount atau filter berubah
    */
@@ -438,15 +476,17 @@ export function SessionLogsTable() {
                   <TableHead>Action</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>IP Address</TableHead>
-                  <TableHead>User Agent</TableHead>
+                  <TableHead>Device</TableHead>
+                  <TableHead>Terakhir Aktif</TableHead>
                   <TableHead>Session ID</TableHead>
                   <TableHead>Reason</TableHead>
+                  <TableHead>Aksi</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {currentSessionLogs.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                    <TableCell colSpan={10} className="text-center py-8 text-muted-foreground">
                       Tidak ada data session logs
                     </TableCell>
                   </TableRow>
@@ -492,9 +532,12 @@ export function SessionLogsTable() {
                       </TableCell>
                       <TableCell className="max-w-48">
                         <div className="text-xs text-muted-foreground truncate" title={session.userAgent || ''}>
-                          {formatUserAgent(session.userAgent)}
+                          {session.deviceLabel || formatUserAgent(session.userAgent)}
                         </div>
                       </TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {session.lastSeenAt ? formatDate(session.lastSeenAt) : '-'}
+                      </TableCell>
                       <TableCell>
                         <code className="text-xs bg-muted px-2 py-1 rounded">
                           {session.sessionId.substring(0, 8)}...
@@ -509,6 +552,21 @@ export function SessionLogsTable() {
                           <span className="text-muted-foreground">-</span>
                         )}
                       </TableCell>
+                      <TableCell>
+                        {session.isActive ? (
+                          <Button
+                            onClick={() => handleRevokeSession(session)}
+                            variant="destructive"
+                            size="sm"
+                            disabled={revokingId !== null}
+                          >
+                            <ShieldOffIcon className="h-4 w-4 mr-1" />
+                            {revokingId === session.id ? 'Revoking...' : 'Revoke'}
+                          </Button>
+                        ) : (
+                          <span className="text-muted-foreground">-</span>
+                        )}
+                      </TableCell>
                     </TableRow>
                   ))
                 )}
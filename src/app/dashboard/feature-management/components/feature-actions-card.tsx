@@ -0,0 +1,220 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/shadcn/ui/button";
+import { Badge } from "@/components/shadcn/ui/badge";
+import { Input } from "@/components/shadcn/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/shadcn/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/shadcn/ui/table";
+import { IconPlus, IconTrash } from "@tabler/icons-react";
+import { toast } from "sonner";
+
+interface FeatureAction {
+  id: number;
+  name: string;
+  description: string | null;
+}
+
+interface FeatureActionsCardProps {
+  featureId: number;
+}
+
+/**
+ * Buat header request dengan token dari localStorage
+ */
+function getHeaders(): HeadersInit {
+  const token = localStorage.getItem('accessToken');
+  return {
+    'Content-Type': 'application/json',
+    ...(token && { 'Authorization': `Bearer ${token}` }),
+  };
+}
+
+/**
+ * Card untuk mengelola action feature
+ * Action CRUD selalu tersedia; action custom (contoh: export, approve) dapat ditambah dan dihapus
+ */
+export function FeatureActionsCard({ featureId }: FeatureActionsCardProps) {
+  const [crudActions, setCrudActions] = useState<string[]>([]);
+  const [actions, setActions] = useState<FeatureAction[]>([]);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  /**
+   * Fetch action CRUD dan action custom feature dari API
+   */
+  const fetchActions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/rbac/features/${featureId}/actions`, {
+        headers: getHeaders(),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Gagal mengambil action feature');
+      }
+
+      setCrudActions(result.data.crudActions);
+      setActions(result.data.actions);
+    } catch (error) {
+      console.error('Error fetching feature actions:', error);
+      toast.error(error instanceof Error ? error.message : 'Gagal mengambil action feature');
+    }
+  }, [featureId]);
+
+  useEffect(() => {
+    fetchActions();
+  }, [fetchActions]);
+
+  /**
+   * Tambah action custom baru
+   */
+  const handleAddAction = async () => {
+    if (!name.trim()) {
+      toast.error('Nama action harus diisi');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/rbac/features/${featureId}/actions`, {
+        method: 'POST',
+        headers: getHeaders(),
+        body: JSON.stringify({
+          name: name.trim(),
+          description: description.trim() || undefined,
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.errors?.[0]?.message || result.message || 'Gagal menambahkan action');
+      }
+
+      toast.success(`Action ${result.data.action.name} berhasil ditambahkan`);
+      setName("");
+      setDescription("");
+      await fetchActions();
+    } catch (error) {
+      console.error('Error adding feature action:', error);
+      toast.error(error instanceof Error ? error.message : 'Gagal menambahkan action');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * Hapus action custom beserta semua grant role untuk action tersebut
+   */
+  const handleDeleteAction = async (actionName: string) => {
+    if (!confirm(`Hapus action "${actionName}"? Semua grant role untuk action ini ikut terhapus.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/rbac/features/${featureId}/actions/${encodeURIComponent(actionName)}`, {
+        method: 'DELETE',
+        headers: getHeaders(),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Gagal menghapus action');
+      }
+
+      toast.success(`Action ${actionName} berhasil dihapus`);
+      await fetchActions();
+    } catch (error) {
+      console.error('Error deleting feature action:', error);
+      toast.error(error instanceof Error ? error.message : 'Gagal menghapus action');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Actions</CardTitle>
+        <CardDescription>
+          Action yang dapat di-grant ke role untuk feature ini. Action CRUD tersedia untuk semua feature.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {crudActions.map(action => (
+            <Badge key={action} variant="secondary">{action}</Badge>
+          ))}
+        </div>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Custom Action</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead className="w-16"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {actions.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center py-6 text-gray-500">
+                    No custom actions defined for this feature
+                  </TableCell>
+                </TableRow>
+              ) : (
+                actions.map(action => (
+                  <TableRow key={action.id}>
+                    <TableCell className="font-medium">{action.name}</TableCell>
+                    <TableCell className="text-gray-600">{action.description || '-'}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDeleteAction(action.name)}
+                        aria-label={`Delete action ${action.name}`}
+                      >
+                        <IconTrash className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Action name (e.g. export)"
+            className="max-w-[200px]"
+          />
+          <Input
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Description (optional)"
+          />
+          <Button onClick={handleAddAction} disabled={isSaving}>
+            <IconPlus className="mr-2 h-4 w-4" />
+            {isSaving ? 'Adding...' : 'Add Action'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
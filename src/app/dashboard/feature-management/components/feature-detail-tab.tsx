@@ -19,6 +19,7 @@ import {
   TableRow,
 } from "@/components/shadcn/ui/table";
 import { IconEdit, IconArrowLeft, IconShield, IconCheck, IconX } from "@tabler/icons-react";
+import { FeatureActionsCard } from "./feature-actions-card";
 
 interface Role {
   id: number;
@@ -58,7 +59,7 @@ interface FeatureDetailTabProps {
 
 /**
  * Komponen untuk menampilkan detail feature
- * Menampilkan role yang memiliki akses dan policy yang berlaku
+ * Menampilkan action feature, role yang memiliki akses, dan policy yang berlaku
  */
 export function FeatureDetailTab({
   featureId,
@@ -331,6 +332,9 @@ export function FeatureDetailTab({
         </CardContent>
       </Card>
 
+      {/* Actions (CRUD + custom) */}
+      <FeatureActionsCard featureId={featureDetail.id} />
+
       {/* Roles with Access */}
       <Card>
         <CardHeader>
@@ -5,7 +5,6 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { Button } from '@/components/shadcn/ui/button';
-import { Input } from '@/components/shadcn/ui/input';
 import { Label } from '@/components/shadcn/ui/label';
 import {
   Select,
@@ -16,12 +15,22 @@ import {
 } from '@/components/shadcn/ui/select';
 import { Card, CardContent, CardHeader } from '@/components/shadcn/ui/card';
 import { IconDeviceFloppy, IconX } from '@tabler/icons-react';
-import { createPolicySchema } from '@/db/schema';
-import type { Feature, Policy } from '@/db/schema';
+import { createPolicyExpressionSchema } from '@/db/schema';
+import type { Feature, Policy, PolicyEnforcementMode, PolicyExpressionInput, PolicyGroupInput } from '@/db/schema';
 import { toast } from 'sonner';
+import PolicyExpressionEditor, {
+  availableAttributes,
+  contextAttributes,
+  resourceAttributes,
+  createEmptyGroup,
+  toAttributeOptions,
+  toExpressionInput,
+  type AttributeOption,
+} from './policy-expression-editor';
+import { ENFORCEMENT_MODE_OPTIONS } from './policy-enforcement-mode';
 
 // Schema validasi untuk form policy (menggunakan schema dari database)
-const policyFormSchema = createPolicySchema;
+const policyFormSchema = createPolicyExpressionSchema;
 
 type PolicyFormData = z.infer<typeof policyFormSchema>;
 
@@ -32,9 +41,29 @@ interface PolicyCreateEditTabProps {
   onCancel?: () => void;
 }
 
+/**
+ * Bungkus expression menjadi group agar root editor selalu berupa group
+ */
+function toEditorRoot(expression: PolicyExpressionInput): PolicyGroupInput {
+  return expression.type === 'group'
+    ? expression
+    : { type: 'group', combinator: 'AND', children: [expression] };
+}
+
+/**
+ * Sederhanakan root editor: group AND dengan satu condition disimpan sebagai condition tunggal
+ */
+function fromEditorRoot(root: PolicyGroupInput): PolicyExpressionInput {
+  const [onlyChild] = root.children;
+  if (root.combinator === 'AND' && root.children.length === 1 && onlyChild.type === 'condition') {
+    return onlyChild;
+  }
+  return root;
+}
+
 /**
  * Komponen untuk membuat dan mengedit policy ABAC
- * Menyediakan form dengan pilihan feature, attribute, operator, dan value
+ * Menyediakan form dengan pilihan feature dan editor tree kondisi (group AND/OR/NOT)
  */
 export default function PolicyCreateEditTab({
   policyId,
@@ -47,37 +76,23 @@ export default function PolicyCreateEditTab({
   const [features, setFeatures] = useState<Feature[]>([]);
   const [isLoadingFeatures, setIsLoadingFeatures] = useState(true);
   const [policyData, setPolicyData] = useState<Policy | null>(null);
-
-  // Daftar attributes yang tersedia (sesuai schema database)
-  const availableAttributes = [
-    { value: 'department', label: 'Department' },
-    { value: 'region', label: 'Region' },
-    { value: 'level', label: 'Level' },
-  ] as const;
-
-  // Daftar operators yang tersedia (sesuai schema database)
-  const availableOperators = [
-    { value: '==', label: 'Equals (==)' },
-    { value: '!=', label: 'Not Equals (!=)' },
-    { value: '>', label: 'Greater Than (>)' },
-    { value: '>=', label: 'Greater Than or Equal (>=)' },
-    { value: '<', label: 'Less Than (<)' },
-    { value: '<=', label: 'Less Than or Equal (<=)' },
-    { value: 'in', label: 'In (comma separated)' },
-  ] as const;
+  const [attributeOptions, setAttributeOptions] = useState<AttributeOption[]>([
+    ...availableAttributes,
+    ...contextAttributes,
+    ...resourceAttributes,
+  ]);
 
   const form = useForm<PolicyFormData>({
     resolver: zodResolver(policyFormSchema),
     defaultValues: {
       featureId: 0,
-      attribute: 'department',
-      operator: '==',
-      value: '',
+      expression: createEmptyGroup(),
+      // Policy baru dimulai dalam mode audit agar dampaknya bisa dipantau sebelum di-enforce
+      enforcementMode: 'audit',
     },
   });
 
   const {
-    register,
     handleSubmit,
     setValue,
     watch,
@@ -86,8 +101,8 @@ export default function PolicyCreateEditTab({
   } = form;
 
   const watchedFeatureId = watch('featureId');
-  const watchedAttribute = watch('attribute');
-  const watchedOperator = watch('operator');
+  const watchedExpression = watch('expression');
+  const watchedEnforcementMode = watch('enforcementMode');
 
   /**
    * Load features dari API
@@ -111,6 +126,26 @@ export default function PolicyCreateEditTab({
     fetchFeatures();
   }, []);
 
+  /**
+   * Load custom attributes dari registry untuk pilihan attribute editor
+   */
+  useEffect(() => {
+    const fetchAttributes = async () => {
+      try {
+        const response = await fetch('/api/v1/abac/attributes');
+        const data = await response.json();
+        if (data.success) {
+          setAttributeOptions(toAttributeOptions(data.data));
+        }
+      } catch (error) {
+        console.error('Error fetching attributes:', error);
+        toast.error('Gagal memuat daftar custom attributes');
+      }
+    };
+
+    fetchAttributes();
+  }, []);
+
   /**
    * Load data policy jika dalam mode edit
    */
@@ -129,9 +164,7 @@ export default function PolicyCreateEditTab({
             setPolicyData(policy);
             reset({
               featureId: policy.featureId,
-              attribute: policy.attribute,
-              operator: policy.operator,
-              value: policy.value,
+              expression: toEditorRoot(toExpressionInput(policy.expression)),
             });
           } else {
             toast.error('Policy tidak ditemukan');
@@ -160,13 +193,17 @@ export default function PolicyCreateEditTab({
         : '/api/v1/abac/policies';
       
       const method = isEditMode ? 'PUT' : 'POST';
+      const expression = fromEditorRoot(toEditorRoot(data.expression));
       
       const response = await fetch(url, {
         method,
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(data),
+        // Enforcement mode policy yang sudah ada diubah dari tab detail
+        body: JSON.stringify(isEditMode
+          ? { featureId: data.featureId, expression }
+          : { featureId: data.featureId, expression, enforcementMode: data.enforcementMode }),
       });
       
       if (response.ok) {
@@ -184,47 +221,6 @@ export default function PolicyCreateEditTab({
     }
   };
 
-  /**
-   * Render helper text berdasarkan attribute dan operator yang dipilih
-   */
-  const renderValueHelper = () => {
-    if (!watchedAttribute || !watchedOperator) return null;
-
-    const helpers: Record<string, Record<string, string>> = {
-      department: {
-        '==': 'Contoh: Finance, HR, IT, Marketing',
-        '!=': 'Contoh: Finance (semua kecuali Finance)',
-        'in': 'Contoh: Finance,HR,IT (pisahkan dengan koma)',
-        'not_in': 'Contoh: Finance,HR (semua kecuali yang disebutkan)',
-      },
-      level: {
-        '==': 'Contoh: 3 (level tepat 3)',
-        '!=': 'Contoh: 1 (semua kecuali level 1)',
-        '>': 'Contoh: 2 (level di atas 2)',
-        '<': 'Contoh: 5 (level di bawah 5)',
-        '>=': 'Contoh: 3 (level 3 ke atas)',
-        '<=': 'Contoh: 4 (level 4 ke bawah)',
-        'in': 'Contoh: 3,4,5 (level 3, 4, atau 5)',
-      },
-      region: {
-        '==': 'Contoh: Jakarta, Surabaya, Bandung',
-        '!=': 'Contoh: Jakarta (semua kecuali Jakarta)',
-        'in': 'Contoh: Jakarta,Surabaya,Bandung',
-        'not_in': 'Contoh: Jakarta,Surabaya',
-      },
-    };
-
-    const helper = helpers[watchedAttribute]?.[watchedOperator];
-    if (helper) {
-      return (
-        <p className="text-sm text-gray-600 mt-1">
-          {helper}
-        </p>
-      );
-    }
-    return null;
-  };
-
   if (isLoading) {
     return (
       <Card>
@@ -279,68 +275,49 @@ export default function PolicyCreateEditTab({
               )}
             </div>
 
-            {/* Attribute Selection */}
-            <div className="space-y-2">
-              <Label htmlFor="attribute">Attribute *</Label>
-              <Select
-                value={watchedAttribute}
-                onValueChange={(value) => setValue('attribute', value as "department" | "region" | "level")}
-              >
-                <SelectTrigger>
-                  <SelectValue placeholder="Pilih attribute pengguna" />
-                </SelectTrigger>
-                <SelectContent>
-                  {availableAttributes.map((attribute) => (
-                    <SelectItem key={attribute.value} value={attribute.value}>
-                      {attribute.label}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-              {errors.attribute && (
-                <p className="text-sm text-red-600">{errors.attribute.message}</p>
-              )}
-            </div>
-
-            {/* Operator Selection */}
-            <div className="space-y-2">
-              <Label htmlFor="operator">Operator *</Label>
-              <Select
-                value={watchedOperator}
-                onValueChange={(value) => setValue('operator', value as "==" | "!=" | ">" | ">=" | "<" | "<=" | "in")}
-              >
-                <SelectTrigger>
-                  <SelectValue placeholder="Pilih operator perbandingan" />
-                </SelectTrigger>
-                <SelectContent>
-                  {availableOperators.map((operator) => (
-                    <SelectItem key={operator.value} value={operator.value}>
-                      {operator.label}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-              {errors.operator && (
-                <p className="text-sm text-red-600">{errors.operator.message}</p>
-              )}
-            </div>
+            {/* Enforcement Mode (hanya saat membuat policy) */}
+            {!isEditMode && (
+              <div className="space-y-2">
+                <Label htmlFor="enforcementMode">Enforcement Mode</Label>
+                <Select
+                  value={watchedEnforcementMode}
+                  onValueChange={(value) => setValue('enforcementMode', value as PolicyEnforcementMode)}
+                >
+                  <SelectTrigger id="enforcementMode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ENFORCEMENT_MODE_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-gray-600 text-sm">
+                  {ENFORCEMENT_MODE_OPTIONS.find(option => option.value === watchedEnforcementMode)?.description}
+                </p>
+              </div>
+            )}
 
-            {/* Value Input */}
+            {/* Expression Tree */}
             <div className="space-y-2">
-              <Label htmlFor="value">Value *</Label>
-              <Input
-                id="value"
-                {...register('value')}
-                placeholder="Masukkan value untuk perbandingan"
+              <Label>Kondisi *</Label>
+              <p className="text-gray-600 text-sm">
+                Gabungkan kondisi dengan group AND, OR, dan NOT. Kondisi yang attribute-nya tidak dimiliki pengguna selalu ditolak.
+              </p>
+              <PolicyExpressionEditor
+                value={toEditorRoot(watchedExpression)}
+                onChange={(expression) => setValue('expression', expression, { shouldValidate: true })}
+                attributes={attributeOptions}
               />
-              {renderValueHelper()}
-              {errors.value && (
-                <p className="text-sm text-red-600">{errors.value.message}</p>
+              {errors.expression && (
+                <p className="text-sm text-red-600">
+                  {errors.expression.message || 'Periksa kembali kondisi policy, semua value wajib diisi'}
+                </p>
               )}
             </div>
 
-
-
             {/* Action Buttons */}
             <div className="flex justify-end space-x-4 pt-6">
               <Button
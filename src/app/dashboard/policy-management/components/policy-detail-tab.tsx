@@ -12,8 +12,19 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/shadcn/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/shadcn/ui/select';
 import { Card, CardContent, CardHeader } from '@/components/shadcn/ui/card';
-import { IconArrowLeft, IconEdit, IconShield, IconUsers, IconClock } from '@tabler/icons-react';
+import { IconArrowLeft, IconEdit, IconShield, IconUsers, IconClock, IconHistory } from '@tabler/icons-react';
+import type { PolicyEnforcementMode, PolicyExpressionInput } from '@/db/schema';
+import { describeExpression } from './policy-expression-editor';
+import { ENFORCEMENT_MODE_OPTIONS, EnforcementModeBadge, updateEnforcementMode } from './policy-enforcement-mode';
+import PolicyHistoryTab from './policy-history-tab';
 
 // Interface untuk Policy Detail
 interface PolicyDetail {
@@ -24,7 +35,8 @@ interface PolicyDetail {
   attribute: string;
   operator: string;
   value: string;
-  isActive: boolean;
+  expression: PolicyExpressionInput | null;
+  enforcementMode: PolicyEnforcementMode;
   createdAt: string;
   updatedAt: string;
   createdBy: string;
@@ -67,7 +79,9 @@ export default function PolicyDetailTab({
 }: PolicyDetailTabProps) {
   const [policyDetail, setPolicyDetail] = useState<PolicyDetail | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'overview' | 'users' | 'related'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'users' | 'related' | 'history'>('overview');
+  const [isUpdatingMode, setIsUpdatingMode] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
 
   // Tidak menggunakan mock data - semua data dari database
 
@@ -90,15 +104,20 @@ export default function PolicyDetailTab({
         
         if (result.success && result.data) {
           // Transform data untuk match dengan interface PolicyDetail
+          // Policy group ditampilkan dengan combinator dan ringkasan expression
+          const isGroup = Boolean(result.data.combinator);
           const transformedPolicy: PolicyDetail = {
             id: result.data.id,
             name: `Policy for ${result.data.feature}`,
-            description: `Policy untuk memberikan akses ${result.data.feature} berdasarkan ${result.data.attribute}`,
+            description: isGroup
+              ? `Policy untuk memberikan akses ${result.data.feature} berdasarkan group kondisi ${result.data.combinator}`
+              : `Policy untuk memberikan akses ${result.data.feature} berdasarkan ${result.data.attribute}`,
             feature: result.data.feature,
-            attribute: result.data.attribute,
-            operator: result.data.operator,
-            value: result.data.value,
-            isActive: result.data.isActive,
+            attribute: isGroup ? 'group' : result.data.attribute,
+            operator: isGroup ? result.data.combinator : result.data.operator,
+            value: isGroup && result.data.expression ? describeExpression(result.data.expression) : result.data.value,
+            expression: result.data.expression ?? null,
+            enforcementMode: result.data.enforcementMode ?? 'enforce',
             createdAt: result.data.createdAt,
             updatedAt: result.data.updatedAt,
             createdBy: 'System',
@@ -125,7 +144,30 @@ export default function PolicyDetailTab({
     };
     
     fetchPolicyDetail();
-  }, [policyId]);
+  }, [policyId, reloadKey]);
+
+  /**
+   * Handler untuk mengubah enforcement mode (contoh: promote policy audit ke enforce)
+   */
+  const handleEnforcementModeChange = async (enforcementMode: PolicyEnforcementMode) => {
+    if (!policyDetail || enforcementMode === policyDetail.enforcementMode) return;
+
+    setIsUpdatingMode(true);
+    try {
+      const error = await updateEnforcementMode(policyDetail.id, enforcementMode);
+      if (error) {
+        toast.error(error);
+        return;
+      }
+      setPolicyDetail({ ...policyDetail, enforcementMode });
+      toast.success('Enforcement mode policy berhasil diubah');
+    } catch (error) {
+      console.error('Error updating enforcement mode:', error);
+      toast.error('Terjadi error saat mengubah enforcement mode');
+    } finally {
+      setIsUpdatingMode(false);
+    }
+  };
 
   /**
    * Render operator dengan styling yang sesuai
@@ -140,6 +182,9 @@ export default function PolicyDetailTab({
       '<=': 'Less Than or Equal',
       'in': 'In',
       'not_in': 'Not In',
+      'AND': 'Semua kondisi',
+      'OR': 'Salah satu kondisi',
+      'NOT': 'Negasi',
     };
 
     return (
@@ -155,6 +200,23 @@ export default function PolicyDetailTab({
   const renderPolicyRule = () => {
     if (!policyDetail) return null;
 
+    if (policyDetail.expression?.type === 'group') {
+      return (
+        <div className="bg-gray-50 p-4 rounded-lg border">
+          <h4 className="font-semibold mb-2">Aturan Policy:</h4>
+          <div className="font-mono text-sm bg-white p-3 rounded border">
+            <span className="text-blue-600">{describeExpression(policyDetail.expression)}</span>
+            <span className="mx-2 text-gray-600">→</span>
+            <span className="text-purple-600">access to {policyDetail.feature}</span>
+          </div>
+          <p className="text-sm text-gray-600 mt-2">
+            Pengguna yang memenuhi group kondisi {policyDetail.operator} di atas
+            akan mendapat akses ke feature {policyDetail.feature}
+          </p>
+        </div>
+      );
+    }
+
     return (
       <div className="bg-gray-50 p-4 rounded-lg border">
         <h4 className="font-semibold mb-2">Aturan Policy:</h4>
@@ -219,12 +281,22 @@ export default function PolicyDetailTab({
           </div>
         </div>
         <div className="flex items-center gap-2">
-          <Badge 
-            variant={policyDetail.isActive ? "default" : "secondary"}
-            className={policyDetail.isActive ? "bg-green-100 text-green-800" : ""}
+          <Select
+            value={policyDetail.enforcementMode}
+            onValueChange={(value) => handleEnforcementModeChange(value as PolicyEnforcementMode)}
+            disabled={isUpdatingMode}
           >
-            {policyDetail.isActive ? 'Aktif' : 'Nonaktif'}
-          </Badge>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ENFORCEMENT_MODE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
           <Button
             onClick={() => onEdit(policyDetail.id)}
             className="flex items-center gap-2"
@@ -271,6 +343,17 @@ export default function PolicyDetailTab({
             <IconClock size={16} className="inline mr-2" />
             Related Policies ({policyDetail.relatedPolicies.length})
           </button>
+          <button
+            onClick={() => setActiveTab('history')}
+            className={`py-2 px-1 border-b-2 font-medium text-sm ${
+              activeTab === 'history'
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            <IconHistory size={16} className="inline mr-2" />
+            History
+          </button>
         </nav>
       </div>
 
@@ -291,14 +374,12 @@ export default function PolicyDetailTab({
                   </p>
                 </div>
                 <div>
-                  <label className="text-sm font-medium text-gray-600">Status</label>
+                  <label className="text-sm font-medium text-gray-600">Enforcement Mode</label>
                   <p className="mt-1">
-                    <Badge 
-                      variant={policyDetail.isActive ? "default" : "secondary"}
-                      className={policyDetail.isActive ? "bg-green-100 text-green-800" : ""}
-                    >
-                      {policyDetail.isActive ? 'Aktif' : 'Nonaktif'}
-                    </Badge>
+                    <EnforcementModeBadge mode={policyDetail.enforcementMode} />
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {ENFORCEMENT_MODE_OPTIONS.find(option => option.value === policyDetail.enforcementMode)?.description}
                   </p>
                 </div>
                 <div>
@@ -442,6 +523,13 @@ export default function PolicyDetailTab({
           </CardContent>
         </Card>
       )}
+
+      {activeTab === 'history' && (
+        <PolicyHistoryTab
+          policyId={policyDetail.id}
+          onRolledBack={() => setReloadKey(key => key + 1)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
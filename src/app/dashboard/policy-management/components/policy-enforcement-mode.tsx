@@ -0,0 +1,53 @@
+'use client';
+
+import { Badge } from '@/components/shadcn/ui/badge';
+import type { PolicyEnforcementMode } from '@/db/schema';
+
+/**
+ * Pilihan enforcement mode policy beserta penjelasannya
+ */
+export const ENFORCEMENT_MODE_OPTIONS: { value: PolicyEnforcementMode; label: string; description: string }[] = [
+  { value: 'enforce', label: 'Enforce', description: 'Policy menolak akses yang tidak memenuhi kondisi' },
+  { value: 'audit', label: 'Audit (shadow)', description: 'Penolakan hanya dicatat sebagai shadow violation, akses tidak diblokir' },
+  { value: 'disabled', label: 'Disabled', description: 'Policy tidak dievaluasi' },
+];
+
+const ENFORCEMENT_MODE_COLORS: Record<PolicyEnforcementMode, string> = {
+  enforce: 'bg-green-100 text-green-800',
+  audit: 'bg-yellow-100 text-yellow-800',
+  disabled: 'bg-gray-100 text-gray-800',
+};
+
+/**
+ * Badge enforcement mode policy
+ */
+export function EnforcementModeBadge({ mode }: { mode: PolicyEnforcementMode }) {
+  const option = ENFORCEMENT_MODE_OPTIONS.find(item => item.value === mode);
+
+  return (
+    <Badge className={ENFORCEMENT_MODE_COLORS[mode] ?? 'bg-gray-100 text-gray-800'}>
+      {option?.label ?? mode}
+    </Badge>
+  );
+}
+
+/**
+ * Ubah enforcement mode policy melalui API
+ * @returns Pesan error dari API jika gagal, null jika berhasil
+ */
+export async function updateEnforcementMode(policyId: number, enforcementMode: PolicyEnforcementMode): Promise<string | null> {
+  const response = await fetch(`/api/v1/abac/policies/${policyId}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ enforcementMode }),
+  });
+
+  if (response.ok) {
+    return null;
+  }
+
+  const errorData = await response.json().catch(() => ({}));
+  return errorData.error || 'Gagal mengubah enforcement mode policy';
+}
@@ -0,0 +1,429 @@
+'use client';
+
+import { Button } from '@/components/shadcn/ui/button';
+import { Input } from '@/components/shadcn/ui/input';
+import { Badge } from '@/components/shadcn/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/shadcn/ui/select';
+import { IconPlus, IconFolderPlus, IconTrash } from '@tabler/icons-react';
+import { MAX_POLICY_EXPRESSION_DEPTH } from '@/db/schema';
+import type {
+  AttributeDefinition,
+  AttributeType,
+  PolicyConditionInput,
+  PolicyExpressionInput,
+  PolicyGroupInput,
+} from '@/db/schema';
+
+/**
+ * Pilihan attribute pada editor: attribute bawaan atau custom attribute dari registry
+ */
+export interface AttributeOption {
+  value: string;
+  label: string;
+  type?: AttributeType;
+  allowedValues?: string[] | null;
+  description?: string | null;
+}
+
+/**
+ * Custom attribute dari GET /api/v1/abac/attributes
+ */
+export type AttributeDefinitionResponse = Omit<AttributeDefinition, 'allowedValues'> & {
+  allowedValues: string[] | null;
+};
+
+// Daftar attributes bawaan (sesuai kolom tabel users)
+export const availableAttributes: AttributeOption[] = [
+  { value: 'department', label: 'Department' },
+  { value: 'region', label: 'Region' },
+  { value: 'level', label: 'Level' },
+];
+
+// Daftar context attributes yang dikumpulkan middleware dari request
+export const contextAttributes: AttributeOption[] = [
+  { value: 'context.time_of_day', label: 'Jam (context)' },
+  { value: 'context.day_of_week', label: 'Hari (context)' },
+  { value: 'context.ip', label: 'IP Client (context)' },
+  { value: 'context.user_agent', label: 'User Agent (context)' },
+  { value: 'context.method', label: 'HTTP Method (context)' },
+];
+
+// Daftar resource attributes yang dimuat resource loader (contoh: user record pada user_management)
+// Value bisa mereferensikan attribute user dengan prefix $, contoh: $user.department
+export const resourceAttributes: AttributeOption[] = [
+  { value: 'resource.owner_id', label: 'Pemilik (resource)' },
+  { value: 'resource.department', label: 'Department (resource)' },
+  { value: 'resource.region', label: 'Region (resource)' },
+  { value: 'resource.level', label: 'Level (resource)' },
+];
+
+/**
+ * Gabungkan attribute bawaan dengan custom attribute dari registry
+ */
+export function toAttributeOptions(definitions: AttributeDefinitionResponse[]): AttributeOption[] {
+  return [
+    ...availableAttributes,
+    ...contextAttributes,
+    ...resourceAttributes,
+    ...definitions.map((definition) => ({
+      value: definition.name,
+      label: definition.name,
+      type: definition.type as AttributeType,
+      allowedValues: definition.allowedValues,
+      description: definition.description,
+    })),
+  ];
+}
+
+// Daftar operators yang tersedia (sesuai schema database)
+export const availableOperators = [
+  { value: '==', label: 'Equals (==)' },
+  { value: '!=', label: 'Not Equals (!=)' },
+  { value: '>', label: 'Greater Than (>)' },
+  { value: '>=', label: 'Greater Than or Equal (>=)' },
+  { value: '<', label: 'Less Than (<)' },
+  { value: '<=', label: 'Less Than or Equal (<=)' },
+  { value: 'in', label: 'In (JSON array)' },
+  { value: 'contains', label: 'Contains (mengandung teks)' },
+] as const;
+
+// Daftar combinator untuk group
+const availableCombinators = [
+  { value: 'AND', label: 'AND (semua terpenuhi)' },
+  { value: 'OR', label: 'OR (salah satu terpenuhi)' },
+  { value: 'NOT', label: 'NOT (negasi)' },
+] as const;
+
+// Contoh value berdasarkan attribute dan operator
+const valueHelpers: Record<string, Record<string, string>> = {
+  department: {
+    '==': 'Contoh: Finance, HR, IT, Marketing',
+    '!=': 'Contoh: Finance (semua kecuali Finance)',
+    'in': 'Contoh: ["Finance","HR","IT"]',
+  },
+  level: {
+    '==': 'Contoh: 3 (level tepat 3)',
+    '!=': 'Contoh: 1 (semua kecuali level 1)',
+    '>': 'Contoh: 2 (level di atas 2)',
+    '<': 'Contoh: 5 (level di bawah 5)',
+    '>=': 'Contoh: 3 (level 3 ke atas)',
+    '<=': 'Contoh: 4 (level 4 ke bawah)',
+    'in': 'Contoh: [3,4,5] (level 3, 4, atau 5)',
+  },
+  region: {
+    '==': 'Contoh: Jakarta, Surabaya, Bandung',
+    '!=': 'Contoh: Jakarta (semua kecuali Jakarta)',
+    'in': 'Contoh: ["Jakarta","Surabaya","Bandung"]',
+  },
+  'context.time_of_day': {
+    '>=': 'Contoh: 09:00 (mulai jam kerja, format HH:mm)',
+    '<': 'Contoh: 17:00 (sebelum jam pulang, format HH:mm)',
+    '==': 'Contoh: 12:00',
+  },
+  'context.day_of_week': {
+    '==': 'Contoh: monday',
+    '!=': 'Contoh: sunday (semua kecuali minggu)',
+    'in': 'Contoh: ["monday","tuesday","wednesday","thursday","friday"]',
+  },
+  'context.ip': {
+    '==': 'Contoh: 10.0.0.0/8 (IP atau CIDR)',
+    '!=': 'Contoh: 203.0.113.10',
+    'in': 'Contoh: ["10.0.0.0/8","192.168.1.0/24"]',
+  },
+  'context.user_agent': {
+    'contains': 'Contoh: Mozilla (tidak case-sensitive)',
+    '==': 'Contoh: user agent lengkap',
+  },
+  'context.method': {
+    '==': 'Contoh: GET',
+    'in': 'Contoh: ["GET","POST"]',
+  },
+  'resource.owner_id': {
+    '==': 'Contoh: $user.id (hanya pemilik resource)',
+    '!=': 'Contoh: $user.id (semua kecuali pemilik)',
+  },
+  'resource.department': {
+    '==': 'Contoh: $user.department (department yang sama dengan user)',
+    'in': 'Contoh: ["Finance","HR"]',
+  },
+  'resource.region': {
+    '==': 'Contoh: $user.region (region yang sama dengan user)',
+  },
+  'resource.level': {
+    '<': 'Contoh: $user.level (level resource di bawah user)',
+    '<=': 'Contoh: $user.level',
+  },
+};
+
+/**
+ * Buat contoh value untuk custom attribute berdasarkan tipe dan allowed values
+ */
+function getCustomValueHelper(attribute: AttributeOption, operator: string): string | undefined {
+  if (!attribute.type) return undefined;
+
+  const sample = attribute.allowedValues?.length
+    ? attribute.allowedValues.slice(0, 3)
+    : {
+        string: ['nilai'],
+        number: ['10'],
+        boolean: ['true'],
+        date: ['2025-01-31'],
+        list: ['nilai'],
+      }[attribute.type];
+
+  if (operator === 'in') {
+    return `Tipe ${attribute.type}. Contoh: ${JSON.stringify(sample)}`;
+  }
+  if (attribute.type === 'list') {
+    return `Tipe list, kondisi terpenuhi jika list user memuat value. Contoh: ${sample[0]}`;
+  }
+  return `Tipe ${attribute.type}. Contoh: ${sample.join(', ')}`;
+}
+
+/**
+ * Buat condition kosong untuk ditambahkan ke group
+ */
+export function createEmptyCondition(): PolicyConditionInput {
+  return { type: 'condition', attribute: 'department', operator: '==', value: '' };
+}
+
+/**
+ * Buat group baru dengan satu condition kosong
+ */
+export function createEmptyGroup(combinator: PolicyGroupInput['combinator'] = 'AND'): PolicyGroupInput {
+  return { type: 'group', combinator, children: [createEmptyCondition()] };
+}
+
+/**
+ * Buang field tambahan (seperti id) dari expression hasil API
+ * sehingga bisa langsung dikirim ulang saat update
+ */
+export function toExpressionInput(expression: PolicyExpressionInput): PolicyExpressionInput {
+  if (expression.type === 'condition') {
+    const { attribute, operator, value } = expression;
+    return { type: 'condition', attribute, operator, value };
+  }
+  return {
+    type: 'group',
+    combinator: expression.combinator,
+    children: expression.children.map(toExpressionInput),
+  };
+}
+
+/**
+ * Buat ringkasan expression untuk ditampilkan di list dan detail
+ */
+export function describeExpression(expression: PolicyExpressionInput): string {
+  if (expression.type === 'condition') {
+    return `${expression.attribute} ${expression.operator} ${expression.value}`;
+  }
+  if (expression.combinator === 'NOT') {
+    return `NOT (${expression.children.map(describeExpression).join(', ')})`;
+  }
+  return expression.children
+    .map((child) => (child.type === 'group' ? `(${describeExpression(child)})` : describeExpression(child)))
+    .join(` ${expression.combinator} `);
+}
+
+interface PolicyExpressionEditorProps {
+  value: PolicyGroupInput;
+  onChange: (value: PolicyGroupInput) => void;
+  onRemove?: () => void;
+  attributes?: AttributeOption[];
+  depth?: number;
+}
+
+/**
+ * Editor tree untuk expression policy ABAC
+ * Setiap group dapat berisi condition maupun group lain dengan combinator AND/OR/NOT
+ */
+export default function PolicyExpressionEditor({
+  value,
+  onChange,
+  onRemove,
+  attributes = [...availableAttributes, ...contextAttributes, ...resourceAttributes],
+  depth = 1,
+}: PolicyExpressionEditorProps) {
+  const isNot = value.combinator === 'NOT';
+  const canAddChild = !isNot || value.children.length === 0;
+  const canAddGroup = canAddChild && depth < MAX_POLICY_EXPRESSION_DEPTH;
+
+  /**
+   * Ganti child pada index tertentu
+   */
+  const updateChild = (index: number, child: PolicyExpressionInput) => {
+    const children = [...value.children];
+    children[index] = child;
+    onChange({ ...value, children });
+  };
+
+  /**
+   * Hapus child pada index tertentu
+   */
+  const removeChild = (index: number) => {
+    onChange({ ...value, children: value.children.filter((_, i) => i !== index) });
+  };
+
+  /**
+   * Ubah combinator group, NOT hanya menyimpan child pertama
+   */
+  const changeCombinator = (combinator: PolicyGroupInput['combinator']) => {
+    onChange({
+      ...value,
+      combinator,
+      children: combinator === 'NOT' ? value.children.slice(0, 1) : value.children,
+    });
+  };
+
+  return (
+    <div className={`space-y-3 rounded-md border p-3 ${depth > 1 ? 'bg-muted/40' : ''}`}>
+      <div className="flex items-center gap-2">
+        <Badge variant="outline">Group</Badge>
+        <Select
+          value={value.combinator}
+          onValueChange={(combinator) => changeCombinator(combinator as PolicyGroupInput['combinator'])}
+        >
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {availableCombinators.map((combinator) => (
+              <SelectItem key={combinator.value} value={combinator.value}>
+                {combinator.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {onRemove && (
+          <Button type="button" variant="ghost" size="sm" onClick={onRemove} className="ml-auto">
+            <IconTrash size={16} />
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-3 pl-4 border-l">
+        {value.children.length === 0 && (
+          <p className="text-sm text-red-600">Group minimal memiliki satu kondisi</p>
+        )}
+        {value.children.map((child, index) =>
+          child.type === 'group' ? (
+            <PolicyExpressionEditor
+              key={index}
+              value={child}
+              onChange={(updated) => updateChild(index, updated)}
+              onRemove={() => removeChild(index)}
+              attributes={attributes}
+              depth={depth + 1}
+            />
+          ) : (
+            <PolicyConditionRow
+              key={index}
+              value={child}
+              onChange={(updated) => updateChild(index, updated)}
+              onRemove={() => removeChild(index)}
+              attributes={attributes}
+            />
+          )
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={!canAddChild}
+          onClick={() => onChange({ ...value, children: [...value.children, createEmptyCondition()] })}
+        >
+          <IconPlus size={16} className="mr-1" />
+          Tambah Kondisi
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={!canAddGroup}
+          onClick={() => onChange({ ...value, children: [...value.children, createEmptyGroup()] })}
+        >
+          <IconFolderPlus size={16} className="mr-1" />
+          Tambah Group
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface PolicyConditionRowProps {
+  value: PolicyConditionInput;
+  onChange: (value: PolicyConditionInput) => void;
+  onRemove: () => void;
+  attributes: AttributeOption[];
+}
+
+/**
+ * Satu baris condition: attribute, operator, dan value
+ */
+function PolicyConditionRow({ value, onChange, onRemove, attributes }: PolicyConditionRowProps) {
+  const selectedAttribute = attributes.find((attribute) => attribute.value === value.attribute);
+  const helper = valueHelpers[value.attribute]?.[value.operator]
+    ?? (selectedAttribute && getCustomValueHelper(selectedAttribute, value.operator));
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <Select
+          value={value.attribute}
+          onValueChange={(attribute) =>
+            onChange({ ...value, attribute })
+          }
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue placeholder="Attribute" />
+          </SelectTrigger>
+          <SelectContent>
+            {attributes.map((attribute) => (
+              <SelectItem key={attribute.value} value={attribute.value}>
+                {attribute.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={value.operator}
+          onValueChange={(operator) =>
+            onChange({ ...value, operator: operator as PolicyConditionInput['operator'] })
+          }
+        >
+          <SelectTrigger className="w-56">
+            <SelectValue placeholder="Operator" />
+          </SelectTrigger>
+          <SelectContent>
+            {availableOperators.map((operator) => (
+              <SelectItem key={operator.value} value={operator.value}>
+                {operator.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={value.value}
+          onChange={(event) => onChange({ ...value, value: event.target.value })}
+          placeholder="Value"
+        />
+        <Button type="button" variant="ghost" size="sm" onClick={onRemove}>
+          <IconTrash size={16} />
+        </Button>
+      </div>
+      {helper && <p className="text-sm text-gray-600">{helper}</p>}
+      {selectedAttribute?.description && (
+        <p className="text-sm text-gray-500">{selectedAttribute.description}</p>
+      )}
+    </div>
+  );
+}
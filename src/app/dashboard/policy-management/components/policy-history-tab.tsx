@@ -0,0 +1,206 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/shadcn/ui/button';
+import { Badge } from '@/components/shadcn/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/shadcn/ui/table';
+import { Card, CardContent, CardHeader } from '@/components/shadcn/ui/card';
+import { IconArrowBackUp } from '@tabler/icons-react';
+import type { PolicyEnforcementMode } from '@/db/schema';
+import { EnforcementModeBadge } from './policy-enforcement-mode';
+
+// Interface untuk satu versi policy
+interface PolicyVersionEntry {
+  version: number;
+  action: string;
+  description: string | null;
+  enforcementMode: PolicyEnforcementMode | null;
+  comment: string | null;
+  authorName: string | null;
+  createdAt: string;
+  changes: { field: 'expression' | 'enforcementMode'; before: string | null; after: string | null }[];
+}
+
+interface PolicyHistoryTabProps {
+  policyId: number;
+  onRolledBack: () => void;
+}
+
+const ACTION_COLORS: Record<string, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+  rollback: 'bg-purple-100 text-purple-800',
+};
+
+const CHANGE_LABELS: Record<string, string> = {
+  expression: 'Expression',
+  enforcementMode: 'Enforcement Mode',
+};
+
+/**
+ * Tab history versi policy
+ * Menampilkan siapa yang mengubah policy, kapan, alasannya, dan diff terhadap versi sebelumnya,
+ * serta rollback ke versi tertentu
+ */
+export default function PolicyHistoryTab({ policyId, onRolledBack }: PolicyHistoryTabProps) {
+  const [versions, setVersions] = useState<PolicyVersionEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [rollingBackVersion, setRollingBackVersion] = useState<number | null>(null);
+
+  /**
+   * Fetch history versi policy
+   */
+  const fetchVersions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/v1/abac/policies/${policyId}/versions`);
+      const result = await response.json();
+      if (response.ok && result.success) {
+        setVersions(result.data);
+      } else {
+        toast.error(result.error || 'Gagal memuat history policy');
+      }
+    } catch (error) {
+      console.error('Error fetching policy versions:', error);
+      toast.error('Terjadi error saat memuat history policy');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [policyId]);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions]);
+
+  /**
+   * Handler rollback policy ke versi tertentu
+   */
+  const handleRollback = async (version: number) => {
+    const comment = prompt(`Alasan rollback ke versi ${version} (opsional):`);
+    if (comment === null) return;
+
+    setRollingBackVersion(version);
+    try {
+      const response = await fetch(`/api/v1/abac/policies/${policyId}/versions/${version}/rollback`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(comment.trim() ? { comment: comment.trim() } : {}),
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        toast.error(result.error || 'Gagal melakukan rollback policy');
+        return;
+      }
+      toast.success(result.message || `Policy dikembalikan ke versi ${version}`);
+      await fetchVersions();
+      onRolledBack();
+    } catch (error) {
+      console.error('Error rolling back policy:', error);
+      toast.error('Terjadi error saat melakukan rollback policy');
+    } finally {
+      setRollingBackVersion(null);
+    }
+  };
+
+  const latestVersion = versions[0]?.version;
+
+  return (
+    <Card>
+      <CardHeader>
+        <h4 className="text-lg font-semibold">History Versi</h4>
+        <p className="text-sm text-gray-600">
+          Setiap perubahan policy disimpan sebagai versi baru. Rollback juga dicatat sebagai versi baru.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            <span className="ml-2">Memuat history...</span>
+          </div>
+        ) : versions.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-500">Belum ada history versi untuk policy ini.</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Versi</TableHead>
+                <TableHead>Aksi</TableHead>
+                <TableHead>Perubahan</TableHead>
+                <TableHead>Enforcement Mode</TableHead>
+                <TableHead>Oleh</TableHead>
+                <TableHead>Komentar</TableHead>
+                <TableHead className="text-right">Rollback</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {versions.map((entry) => (
+                <TableRow key={entry.version}>
+                  <TableCell className="font-medium">v{entry.version}</TableCell>
+                  <TableCell>
+                    <Badge className={ACTION_COLORS[entry.action] ?? 'bg-gray-100 text-gray-800'}>
+                      {entry.action}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="space-y-1">
+                    {entry.changes.length > 0
+                      ? entry.changes.map((change) => (
+                          <div key={change.field} className="text-xs">
+                            <span className="font-medium">{CHANGE_LABELS[change.field]}:</span>{' '}
+                            <span className="font-mono text-red-600 line-through">{change.before ?? '-'}</span>
+                            <span className="mx-1 text-gray-600">→</span>
+                            <span className="font-mono text-green-600">{change.after ?? '-'}</span>
+                          </div>
+                        ))
+                      : <span className="text-xs text-gray-500">Tidak ada perubahan</span>}
+                  </TableCell>
+                  <TableCell>
+                    {entry.enforcementMode
+                      ? <EnforcementModeBadge mode={entry.enforcementMode} />
+                      : <span className="text-gray-500">-</span>}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    <div>{entry.authorName ?? 'System'}</div>
+                    <div className="text-xs text-gray-500">
+                      {new Date(entry.createdAt).toLocaleString('id-ID')}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-700">{entry.comment ?? '-'}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleRollback(entry.version)}
+                      disabled={
+                        entry.version === latestVersion ||
+                        entry.description === null ||
+                        rollingBackVersion !== null
+                      }
+                      className="flex items-center gap-1 ml-auto"
+                    >
+                      <IconArrowBackUp size={16} />
+                      Rollback
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -14,6 +14,9 @@ import {
 } from '@/components/shadcn/ui/table';
 import { Card, CardContent, CardHeader } from '@/components/shadcn/ui/card';
 import { IconPlus, IconEdit, IconEye, IconTrash } from '@tabler/icons-react';
+import type { PolicyEnforcementMode } from '@/db/schema';
+import { describeExpression } from './policy-expression-editor';
+import { EnforcementModeBadge } from './policy-enforcement-mode';
 
 // Interface untuk Policy ABAC
 interface Policy {
@@ -23,7 +26,7 @@ interface Policy {
   attribute: string;
   operator: string;
   value: string;
-  isActive: boolean;
+  enforcementMode: PolicyEnforcementMode;
   createdAt: string;
   updatedAt: string;
 }
@@ -81,14 +84,15 @@ export default function PolicyListTab({
               
               if (policiesResult.policies && Array.isArray(policiesResult.policies)) {
                 // Transform data untuk match dengan interface Policy
+                // Policy group ditampilkan sebagai ringkasan expression
                 const transformedPolicies: Policy[] = policiesResult.policies.map((policy: any) => ({
                   id: policy.id,
                   name: `Policy for ${feature.name}`,
                   feature: feature.name,
-                  attribute: policy.attribute,
-                  operator: policy.operator,
-                  value: policy.value,
-                  isActive: true, // Default karena API belum mengembalikan isActive
+                  attribute: policy.combinator ? 'group' : policy.attribute,
+                  operator: policy.combinator || policy.operator,
+                  value: policy.combinator ? describeExpression(policy.expression) : policy.value,
+                  enforcementMode: policy.enforcementMode ?? 'enforce',
                   createdAt: policy.createdAt || new Date().toISOString(),
                   updatedAt: policy.updatedAt || new Date().toISOString(),
                 }));
@@ -167,6 +171,9 @@ export default function PolicyListTab({
       '<=': 'bg-yellow-100 text-yellow-800',
       'in': 'bg-purple-100 text-purple-800',
       'not_in': 'bg-gray-100 text-gray-800',
+      'AND': 'bg-indigo-100 text-indigo-800',
+      'OR': 'bg-orange-100 text-orange-800',
+      'NOT': 'bg-red-100 text-red-800',
     };
 
     return (
@@ -214,7 +221,7 @@ export default function PolicyListTab({
                 <TableHead>Attribute</TableHead>
                 <TableHead>Operator</TableHead>
                 <TableHead>Value</TableHead>
-                <TableHead>Status</TableHead>
+                <TableHead>Mode</TableHead>
                 <TableHead>Dibuat</TableHead>
                 <TableHead className="text-right">Aksi</TableHead>
               </TableRow>
@@ -238,12 +245,7 @@ export default function PolicyListTab({
                     </span>
                   </TableCell>
                   <TableCell>
-                    <Badge 
-                      variant={policy.isActive ? "default" : "secondary"}
-                      className={policy.isActive ? "bg-green-100 text-green-800" : ""}
-                    >
-                      {policy.isActive ? 'Aktif' : 'Nonaktif'}
-                    </Badge>
+                    <EnforcementModeBadge mode={policy.enforcementMode} />
                   </TableCell>
                   <TableCell className="text-sm text-gray-600">
                     {new Date(policy.createdAt).toLocaleDateString('id-ID')}
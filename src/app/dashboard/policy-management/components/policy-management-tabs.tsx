@@ -5,10 +5,11 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/shadcn/ui
 import PolicyListTab from "./policy-list-tab"
 import PolicyDetailTab from "./policy-detail-tab"
 import PolicyCreateEditTab from "./policy-create-edit-tab"
+import ShadowReportTab from "./shadow-report-tab"
 
 /**
  * Komponen tabs untuk Policy Management
- * Mengelola navigasi antar tab: Policy List, Policy Detail, Policy Create/Edit
+ * Mengelola navigasi antar tab: Policy List, Policy Detail, Policy Create/Edit, Shadow Report
  */
 export function PolicyManagementTabs() {
   const [activeTab, setActiveTab] = useState("policy-list")
@@ -46,12 +47,13 @@ export function PolicyManagementTabs() {
 
   return (
     <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-      <TabsList className="grid w-full grid-cols-3">
+      <TabsList className="grid w-full grid-cols-4">
         <TabsTrigger value="policy-list">Policy List</TabsTrigger>
         <TabsTrigger value="policy-detail">Policy Detail</TabsTrigger>
         <TabsTrigger value="policy-create-edit">
           {editMode === 'create' ? 'Create Policy' : 'Edit Policy'}
         </TabsTrigger>
+        <TabsTrigger value="shadow-report">Shadow Report</TabsTrigger>
       </TabsList>
 
       <TabsContent value="policy-list" className="mt-6">
@@ -78,6 +80,10 @@ export function PolicyManagementTabs() {
            onCancel={() => setActiveTab("policy-list")}
          />
        </TabsContent>
+
+       <TabsContent value="shadow-report" className="mt-6">
+         <ShadowReportTab />
+       </TabsContent>
     </Tabs>
   )
 }
\ No newline at end of file
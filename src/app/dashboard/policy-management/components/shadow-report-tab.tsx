@@ -0,0 +1,215 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/shadcn/ui/button';
+import { Badge } from '@/components/shadcn/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/shadcn/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/shadcn/ui/table';
+import { Card, CardContent } from '@/components/shadcn/ui/card';
+import { IconShieldCheck, IconPlayerPause } from '@tabler/icons-react';
+import { updateEnforcementMode } from './policy-enforcement-mode';
+
+// Interface untuk satu baris laporan shadow policy
+interface ShadowPolicyReportEntry {
+  policyId: number;
+  featureId: number;
+  featureName: string | null;
+  description: string;
+  createdAt: string;
+  shadowViolations: number;
+  affectedUsers: number;
+  firstSeenAt: string | null;
+  lastSeenAt: string | null;
+  topAttributes: { attribute: string; count: number }[];
+  enforcedViolations: number;
+  enforcedAffectedUsers: number;
+}
+
+const PERIOD_OPTIONS = [7, 30, 90];
+
+/**
+ * Tab laporan policy mode audit (shadow)
+ * Menampilkan penolakan yang akan terjadi jika policy di-enforce, dibandingkan dengan
+ * penolakan policy enforce pada feature yang sama, lalu policy dapat di-promote ke enforce
+ */
+export default function ShadowReportTab() {
+  const [days, setDays] = useState(30);
+  const [entries, setEntries] = useState<ShadowPolicyReportEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [updatingPolicyId, setUpdatingPolicyId] = useState<number | null>(null);
+
+  /**
+   * Fetch laporan shadow policy untuk periode terpilih
+   */
+  const fetchReport = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/v1/abac/policies/shadow-report?days=${days}`);
+      const result = await response.json();
+      if (response.ok && result.success) {
+        setEntries(result.data.policies);
+      } else {
+        toast.error(result.error || 'Gagal memuat laporan shadow policy');
+      }
+    } catch (error) {
+      console.error('Error fetching shadow policy report:', error);
+      toast.error('Terjadi error saat memuat laporan shadow policy');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  /**
+   * Handler untuk promote policy ke enforce atau menonaktifkannya
+   * Policy yang tidak lagi dalam mode audit dihapus dari laporan
+   */
+  const handleChangeMode = async (policyId: number, enforcementMode: 'enforce' | 'disabled') => {
+    setUpdatingPolicyId(policyId);
+    try {
+      const error = await updateEnforcementMode(policyId, enforcementMode);
+      if (error) {
+        toast.error(error);
+        return;
+      }
+      setEntries(prev => prev.filter(entry => entry.policyId !== policyId));
+      toast.success(enforcementMode === 'enforce'
+        ? `Policy #${policyId} sekarang di-enforce`
+        : `Policy #${policyId} dinonaktifkan`);
+    } catch (error) {
+      console.error('Error updating enforcement mode:', error);
+      toast.error('Terjadi error saat mengubah enforcement mode');
+    } finally {
+      setUpdatingPolicyId(null);
+    }
+  };
+
+  const formatDate = (value: string | null) =>
+    value ? new Date(value).toLocaleString('id-ID') : '-';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold">Laporan Shadow Policy</h3>
+          <p className="text-gray-600 text-sm mt-1">
+            Policy mode audit dievaluasi pada setiap request tanpa memblokir akses. Bandingkan penolakannya sebelum di-enforce.
+          </p>
+        </div>
+        <Select value={days.toString()} onValueChange={(value) => setDays(parseInt(value))}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIOD_OPTIONS.map((option) => (
+              <SelectItem key={option} value={option.toString()}>
+                {option} hari terakhir
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              <span className="ml-2">Memuat laporan...</span>
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="text-center py-8">
+              <p className="text-gray-500">Tidak ada policy dalam mode audit.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Policy</TableHead>
+                  <TableHead>Feature</TableHead>
+                  <TableHead className="text-right">Shadow Violation</TableHead>
+                  <TableHead className="text-right">User Terdampak</TableHead>
+                  <TableHead className="text-right">Violation Enforce (feature)</TableHead>
+                  <TableHead>Attribute Teratas</TableHead>
+                  <TableHead>Terakhir Terlihat</TableHead>
+                  <TableHead className="text-right">Aksi</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <TableRow key={entry.policyId}>
+                    <TableCell>
+                      <div className="font-medium">Policy #{entry.policyId}</div>
+                      <div className="text-xs font-mono text-gray-600">{entry.description}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{entry.featureName ?? `ID ${entry.featureId}`}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{entry.shadowViolations}</TableCell>
+                    <TableCell className="text-right">{entry.affectedUsers}</TableCell>
+                    <TableCell className="text-right">
+                      {entry.enforcedViolations}
+                      <span className="text-xs text-gray-500 ml-1">({entry.enforcedAffectedUsers} user)</span>
+                    </TableCell>
+                    <TableCell className="space-x-1">
+                      {entry.topAttributes.length > 0
+                        ? entry.topAttributes.map((item) => (
+                            <Badge key={item.attribute} variant="secondary" className="font-mono">
+                              {item.attribute}: {item.count}
+                            </Badge>
+                          ))
+                        : <span className="text-gray-500">-</span>}
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">
+                      {formatDate(entry.lastSeenAt)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => handleChangeMode(entry.policyId, 'enforce')}
+                          disabled={updatingPolicyId === entry.policyId}
+                          className="flex items-center gap-1"
+                        >
+                          <IconShieldCheck size={16} />
+                          Enforce
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleChangeMode(entry.policyId, 'disabled')}
+                          disabled={updatingPolicyId === entry.policyId}
+                          className="flex items-center gap-1"
+                        >
+                          <IconPlayerPause size={16} />
+                          Disable
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
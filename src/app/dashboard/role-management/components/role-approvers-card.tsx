@@ -0,0 +1,166 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useAuth } from "@/contexts/AuthContext"
+import { Button } from "@/components/shadcn/ui/button"
+import { Badge } from "@/components/shadcn/ui/badge"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/shadcn/ui/card"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/shadcn/ui/select"
+import { IconPlus, IconX } from "@tabler/icons-react"
+import { toast } from "sonner"
+
+interface Approver {
+  id: number
+  name: string
+  email: string
+}
+
+interface RoleApproversCardProps {
+  roleId: number
+}
+
+/**
+ * Card untuk mengelola approver access request sebuah role
+ * Role tanpa approver tidak dapat diminta melalui access request
+ */
+export function RoleApproversCard({ roleId }: RoleApproversCardProps) {
+  const { accessToken } = useAuth()
+  const [approvers, setApprovers] = useState<Approver[]>([])
+  const [users, setUsers] = useState<Approver[]>([])
+  const [selectedUserId, setSelectedUserId] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  /**
+   * Fetch approver role dan daftar user yang dapat ditunjuk
+   */
+  const fetchApprovers = useCallback(async () => {
+    if (!accessToken) return
+
+    try {
+      const [approversResponse, usersResponse] = await Promise.all([
+        fetch(`/api/rbac/roles/${roleId}/approvers`, {
+          headers: { 'Authorization': `Bearer ${accessToken}` }
+        }),
+        fetch('/api/users', {
+          headers: { 'Authorization': `Bearer ${accessToken}` }
+        })
+      ])
+
+      if (approversResponse.ok) {
+        const approversData = await approversResponse.json()
+        setApprovers(approversData.data?.approvers || [])
+      }
+      if (usersResponse.ok) {
+        const usersData = await usersResponse.json()
+        setUsers(usersData.data?.users || [])
+      }
+    } catch (err) {
+      console.error('Error fetching role approvers:', err)
+    }
+  }, [accessToken, roleId])
+
+  useEffect(() => {
+    fetchApprovers()
+  }, [fetchApprovers])
+
+  /**
+   * Simpan daftar approver baru
+   */
+  const saveApprovers = async (userIds: number[]) => {
+    try {
+      setSaving(true)
+      const response = await fetch(`/api/rbac/roles/${roleId}/approvers`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ userIds })
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Failed to update approvers')
+      }
+
+      setApprovers(result.data.approvers || [])
+      setSelectedUserId('')
+      toast.success('Approver role berhasil diperbarui')
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update approvers')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const availableUsers = users.filter(user => !approvers.some(approver => approver.id === user.id))
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Access Request Approvers</CardTitle>
+        <CardDescription>
+          User yang dapat menyetujui atau menolak access request untuk role ini
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {approvers.length === 0 ? (
+            <span className="text-sm text-muted-foreground">
+              Belum ada approver. Role ini tidak dapat diminta melalui access request.
+            </span>
+          ) : (
+            approvers.map(approver => (
+              <Badge key={approver.id} variant="secondary" className="gap-1">
+                {approver.name}
+                <button
+                  type="button"
+                  title={`Remove ${approver.email}`}
+                  disabled={saving}
+                  onClick={() => saveApprovers(
+                    approvers.filter(a => a.id !== approver.id).map(a => a.id)
+                  )}
+                >
+                  <IconX className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))
+          )}
+        </div>
+        <div className="flex gap-2">
+          <Select value={selectedUserId} onValueChange={setSelectedUserId}>
+            <SelectTrigger className="w-72">
+              <SelectValue placeholder="Select user" />
+            </SelectTrigger>
+            <SelectContent>
+              {availableUsers.map(user => (
+                <SelectItem key={user.id} value={user.id.toString()}>
+                  {user.name} ({user.email})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            disabled={!selectedUserId || saving}
+            onClick={() => saveApprovers([...approvers.map(a => a.id), parseInt(selectedUserId, 10)])}
+          >
+            <IconPlus className="h-4 w-4 mr-2" />
+            Add Approver
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,12 +1,19 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useCallback } from "react"
 import { Button } from "@/components/shadcn/ui/button"
 import { Input } from "@/components/shadcn/ui/input"
 import { Label } from "@/components/shadcn/ui/label"
 import { Textarea } from "@/components/shadcn/ui/textarea"
 import { Switch } from "@/components/shadcn/ui/switch"
 import { Checkbox } from "@/components/shadcn/ui/checkbox"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/shadcn/ui/select"
 import {
   Card,
   CardContent,
@@ -25,12 +32,14 @@ import {
 import { IconDeviceFloppy, IconArrowLeft } from "@tabler/icons-react"
 import { toast } from "sonner"
 import { useAuth } from "@/contexts/AuthContext"
+import type { ActionType, PermissionEffect } from "@/services/rbac/types"
 
 interface Feature {
   id: number
   name: string
   description: string
   category: string
+  actions?: { id: number; name: string; description: string | null }[]
 }
 
 interface RoleCreateEditTabProps {
@@ -39,24 +48,79 @@ interface RoleCreateEditTabProps {
   onSuccess: () => void
 }
 
-interface FeaturePermission {
-  featureId: string
-  canCreate: boolean
-  canRead: boolean
-  canUpdate: boolean
-  canDelete: boolean
+/**
+ * Permission tri-state per action: allow, deny (mengalahkan allow dari role lain), atau unset
+ * actions berisi effect action custom feature (di luar CRUD)
+ */
+type FeaturePermission = { featureId: string; actions: Record<string, PermissionEffect> } & Record<ActionType, PermissionEffect>
+
+// Field allow/deny CRUD pada API role features (snake_case)
+type PermissionFlagKey =
+  | 'can_create' | 'can_read' | 'can_update' | 'can_delete'
+  | 'deny_create' | 'deny_read' | 'deny_update' | 'deny_delete'
+
+// Field yang sama dalam camelCase
+type CamelPermissionFlagKey =
+  | 'canCreate' | 'canRead' | 'canUpdate' | 'canDelete'
+  | 'denyCreate' | 'denyRead' | 'denyUpdate' | 'denyDelete'
+
+const camelPermissionFlagKeys: Record<PermissionFlagKey, CamelPermissionFlagKey> = {
+  can_create: 'canCreate',
+  can_read: 'canRead',
+  can_update: 'canUpdate',
+  can_delete: 'canDelete',
+  deny_create: 'denyCreate',
+  deny_read: 'denyRead',
+  deny_update: 'denyUpdate',
+  deny_delete: 'denyDelete',
+}
+
+/**
+ * Data role feature dari API: flag allow/deny CRUD (snake_case maupun camelCase)
+ * dan effect grant action custom per nama action
+ */
+interface RoleFeatureResponse extends Partial<Record<PermissionFlagKey | CamelPermissionFlagKey, boolean>> {
+  feature_id?: number
+  featureId?: number
+  actions?: Record<string, PermissionEffect>
+}
+
+// Kolom matrix CRUD beserta field allow/deny pada API role features
+const permissionActions: { action: ActionType; label: string; allowKey: PermissionFlagKey; denyKey: PermissionFlagKey }[] = [
+  { action: 'create', label: 'Create', allowKey: 'can_create', denyKey: 'deny_create' },
+  { action: 'read', label: 'Read', allowKey: 'can_read', denyKey: 'deny_read' },
+  { action: 'update', label: 'Update', allowKey: 'can_update', denyKey: 'deny_update' },
+  { action: 'delete', label: 'Delete', allowKey: 'can_delete', denyKey: 'deny_delete' },
+]
+
+/**
+ * Ambil effect permission dari data role feature API (snake_case maupun camelCase)
+ */
+function toPermissionEffect(feature: RoleFeatureResponse, allowKey: PermissionFlagKey, denyKey: PermissionFlagKey): PermissionEffect {
+  if (feature[denyKey] || feature[camelPermissionFlagKeys[denyKey]]) return 'deny'
+  if (feature[allowKey] || feature[camelPermissionFlagKeys[allowKey]]) return 'allow'
+  return 'unset'
 }
 
 interface RoleFormData {
   name: string
   description: string
   grantsAll: boolean
+  mfaRequired: boolean
+  maxConcurrentSessions: string // kosong berarti memakai batas default aplikasi
+  sessionLimitAction: SessionLimitAction
+  parentRoleId: string | null
   features: FeaturePermission[]
 }
 
+// Nilai Select untuk role tanpa parent
+const NO_PARENT_ROLE = 'none'
+
+type SessionLimitAction = 'reject' | 'evict_oldest'
+
 /**
  * Komponen tab untuk membuat atau mengedit role
- * Mengelola role baru, set grantsAll, pilih fitur yang diizinkan, dan set CRUD flags
+ * Mengelola role baru, set grantsAll, parent role, pilih fitur yang diizinkan, dan set CRUD allow/deny/unset
  */
 export function RoleCreateEditTab({ roleId, mode, onSuccess }: RoleCreateEditTabProps) {
   const { accessToken } = useAuth()
@@ -66,15 +130,20 @@ export function RoleCreateEditTab({ roleId, mode, onSuccess }: RoleCreateEditTab
     name: '',
     description: '',
     grantsAll: false,
+    mfaRequired: false,
+    maxConcurrentSessions: '',
+    sessionLimitAction: 'evict_oldest',
+    parentRoleId: null,
     features: []
   })
   const [availableFeatures, setAvailableFeatures] = useState<Feature[]>([])
+  const [availableRoles, setAvailableRoles] = useState<{ id: number; name: string }[]>([])
   const [errors, setErrors] = useState<{[key: string]: string}>({})
 
   /**
    * Fetch available features dari API
    */
-  const fetchFeatures = async () => {
+  const fetchFeatures = useCallback(async () => {
     if (!accessToken) return
 
     try {
@@ -93,18 +162,48 @@ export function RoleCreateEditTab({ roleId, mode, onSuccess }: RoleCreateEditTab
       }
 
       if (result.success && result.data) {
-        setAvailableFeatures(result.data)
+        setAvailableFeatures(result.data.features ?? result.data)
       }
     } catch (error) {
       console.error('Error fetching features:', error)
       toast.error('Gagal mengambil data features')
     }
-  }
+  }, [accessToken])
+
+  /**
+   * Fetch daftar role untuk pilihan parent role
+   */
+  const fetchRoles = useCallback(async () => {
+    if (!accessToken) return
+
+    try {
+      const response = await fetch('/api/rbac/roles', {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.message || 'Gagal mengambil data roles')
+      }
+
+      if (result.success && result.data) {
+        setAvailableRoles(result.data.roles ?? result.data)
+      }
+    } catch (error) {
+      console.error('Error fetching roles:', error)
+      toast.error('Gagal mengambil data roles')
+    }
+  }, [accessToken])
 
   /**
    * Fetch role data untuk edit mode
    */
-  const fetchRoleData = async (id: string) => {
+  const fetchRoleData = useCallback(async (id: string) => {
     if (!accessToken) return
 
     try {
@@ -124,21 +223,40 @@ export function RoleCreateEditTab({ roleId, mode, onSuccess }: RoleCreateEditTab
       }
 
       if (result.success && result.data) {
-        const roleData = result.data
+        const roleData = result.data.role ?? result.data
+
+        // Ambil permission role per feature (termasuk explicit deny)
+        let roleFeatures: RoleFeatureResponse[] = roleData.features ?? []
+        if (!roleData.features) {
+          const featuresResponse = await fetch(`/api/roles/${id}/features`, {
+            headers: {
+              'Authorization': `Bearer ${accessToken}`,
+            },
+          })
+          if (featuresResponse.ok) {
+            const featuresData = await featuresResponse.json()
+            roleFeatures = featuresData.data?.features || []
+          }
+        }
         
         // Map features dari API response ke format yang dibutuhkan frontend
-        const mappedFeatures = roleData.features ? roleData.features.map((feature: any) => ({
+        const mappedFeatures: FeaturePermission[] = roleFeatures.map((feature) => ({
           featureId: feature.feature_id?.toString() || feature.featureId?.toString() || '',
-          canCreate: feature.can_create || feature.canCreate || false,
-          canRead: feature.can_read || feature.canRead || false,
-          canUpdate: feature.can_update || feature.canUpdate || false,
-          canDelete: feature.can_delete || feature.canDelete || false
-        })) : []
+          ...Object.fromEntries(permissionActions.map(({ action, allowKey, denyKey }) => [
+            action,
+            toPermissionEffect(feature, allowKey, denyKey)
+          ])) as Record<ActionType, PermissionEffect>,
+          actions: feature.actions ?? {}
+        }))
         
         setFormData({
            name: roleData.name || '',
            description: roleData.description || '',
            grantsAll: roleData.grants_all || roleData.grantsAll || false,
+           mfaRequired: roleData.mfa_required ?? roleData.mfaRequired ?? false,
+           maxConcurrentSessions: (roleData.max_concurrent_sessions ?? roleData.maxConcurrentSessions)?.toString() ?? '',
+           sessionLimitAction: roleData.session_limit_action ?? roleData.sessionLimitAction ?? 'evict_oldest',
+           parentRoleId: (roleData.parent_role_id ?? roleData.parentRoleId)?.toString() ?? null,
            features: mappedFeatures
          })
       }
@@ -148,13 +266,14 @@ export function RoleCreateEditTab({ roleId, mode, onSuccess }: RoleCreateEditTab
     } finally {
       setLoadingData(false)
     }
-  }
+  }, [accessToken])
 
   /**
    * Load data saat komponen dimount atau roleId berubah
    */
   useEffect(() => {
     fetchFeatures()
+    fetchRoles()
     
     if (mode === 'edit' && roleId) {
       fetchRoleData(roleId)
@@ -164,15 +283,19 @@ export function RoleCreateEditTab({ roleId, mode, onSuccess }: RoleCreateEditTab
          name: '',
          description: '',
          grantsAll: false,
+         mfaRequired: false,
+         maxConcurrentSessions: '',
+         sessionLimitAction: 'evict_oldest',
+         parentRoleId: null,
          features: []
        })
     }
-  }, [mode, roleId, accessToken])
+  }, [mode, roleId, fetchFeatures, fetchRoles, fetchRoleData])
 
   /**
    * Handle perubahan input form
    */
-  const handleInputChange = (field: string, value: string | boolean) => {
+  const handleInputChange = (field: string, value: string | boolean | null) => {
     setFormData(prev => {
       const newData = {
         ...prev,
@@ -200,10 +323,11 @@ export function RoleCreateEditTab({ roleId, mode, onSuccess }: RoleCreateEditTab
           ...prev.features,
           {
             featureId,
-            canCreate: false,
-            canRead: false,
-            canUpdate: false,
-            canDelete: false
+            create: 'unset',
+            read: 'unset',
+            update: 'unset',
+            delete: 'unset',
+            actions: {}
           }
         ]
       }))
@@ -217,16 +341,16 @@ export function RoleCreateEditTab({ roleId, mode, onSuccess }: RoleCreateEditTab
   }
 
   /**
-   * Handle perubahan CRUD permissions
+   * Handle perubahan CRUD permissions (allow/deny/unset)
    */
-  const handlePermissionChange = (featureId: string, permission: string, checked: boolean) => {
+  const handlePermissionChange = (featureId: string, action: ActionType, effect: PermissionEffect) => {
     setFormData(prev => ({
       ...prev,
       features: prev.features.map(feature => {
         if (feature.featureId === featureId) {
           return {
             ...feature,
-            [permission]: checked
+            [action]: effect
           }
         }
         return feature
@@ -234,6 +358,20 @@ export function RoleCreateEditTab({ roleId, mode, onSuccess }: RoleCreateEditTab
     }))
   }
 
+  /**
+   * Handle perubahan effect action custom feature (allow/deny/unset)
+   */
+  const handleCustomActionChange = (featureId: string, action: string, effect: PermissionEffect) => {
+    setFormData(prev => ({
+      ...prev,
+      features: prev.features.map(feature =>
+        feature.featureId === featureId
+          ? { ...feature, actions: { ...feature.actions, [action]: effect } }
+          : feature
+      )
+    }))
+  }
+
   /**
    * Handle form submission
    */
@@ -248,9 +386,9 @@ export function RoleCreateEditTab({ roleId, mode, onSuccess }: RoleCreateEditTab
       return
     }
 
-    // Validasi: jika tidak grantsAll, harus ada minimal 1 feature
-    if (!formData.grantsAll && formData.features.length === 0) {
-      toast.error("Please select at least one feature or enable 'Grants All'")
+    // Validasi: jika tidak grantsAll dan tidak mewarisi parent role, harus ada minimal 1 feature
+    if (!formData.grantsAll && !formData.parentRoleId && formData.features.length === 0) {
+      toast.error("Please select at least one feature, a parent role, or enable 'Grants All'")
       return
     }
 
@@ -267,14 +405,29 @@ export function RoleCreateEditTab({ roleId, mode, onSuccess }: RoleCreateEditTab
         name: formData.name.trim(),
         description: formData.description.trim(),
         grants_all: formData.grantsAll,
+        // Create memakai createRoleSchema (camelCase), update memakai mapping snake_case
+        ...(mode === 'create'
+          ? {
+              parentRoleId: formData.parentRoleId ? parseInt(formData.parentRoleId) : null,
+              mfaRequired: formData.mfaRequired,
+              maxConcurrentSessions: formData.maxConcurrentSessions ? parseInt(formData.maxConcurrentSessions) : null,
+              sessionLimitAction: formData.sessionLimitAction
+            }
+          : {
+              parent_role_id: formData.parentRoleId ? parseInt(formData.parentRoleId) : null,
+              mfa_required: formData.mfaRequired,
+              max_concurrent_sessions: formData.maxConcurrentSessions ? parseInt(formData.maxConcurrentSessions) : null,
+              session_limit_action: formData.sessionLimitAction
+            }),
         // Jika grantsAll true, kirim array kosong untuk features
         // Jika grantsAll false, kirim features yang dipilih
         features: formData.grantsAll ? [] : formData.features.map(feature => ({
           feature_id: parseInt(feature.featureId),
-          can_create: feature.canCreate,
-          can_read: feature.canRead,
-          can_update: feature.canUpdate,
-          can_delete: feature.canDelete
+          ...Object.fromEntries(permissionActions.flatMap(({ action, allowKey, denyKey }) => [
+            [allowKey, feature[action] === 'allow'],
+            [denyKey, feature[action] === 'deny']
+          ])),
+          actions: feature.actions
         }))
       }
       
@@ -381,6 +534,74 @@ export function RoleCreateEditTab({ roleId, mode, onSuccess }: RoleCreateEditTab
               </div>
             </div>
           </div>
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="mfaRequired"
+                checked={formData.mfaRequired}
+                onCheckedChange={(checked) => handleInputChange('mfaRequired', checked)}
+              />
+              <Label htmlFor="mfaRequired">Require multi-factor authentication</Label>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              User dengan role ini hanya dapat mengakses aplikasi setelah login memakai kode MFA (TOTP).
+            </p>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="maxConcurrentSessions">Max Concurrent Sessions</Label>
+              <Input
+                id="maxConcurrentSessions"
+                type="number"
+                min={1}
+                value={formData.maxConcurrentSessions}
+                onChange={(e) => handleInputChange('maxConcurrentSessions', e.target.value)}
+                placeholder="Default aplikasi"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sessionLimitAction">When Limit Is Reached</Label>
+              <Select
+                value={formData.sessionLimitAction}
+                onValueChange={(value) => handleInputChange('sessionLimitAction', value)}
+              >
+                <SelectTrigger id="sessionLimitAction">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="evict_oldest">Sign out oldest session</SelectItem>
+                  <SelectItem value="reject">Reject new login</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="text-sm text-muted-foreground md:col-span-2">
+              Jika user memiliki beberapa role dengan batas session, batas terkecil yang berlaku. Kosongkan untuk memakai batas default aplikasi.
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="parentRole">Parent Role</Label>
+            <Select
+              value={formData.parentRoleId ?? NO_PARENT_ROLE}
+              onValueChange={(value) => handleInputChange('parentRoleId', value === NO_PARENT_ROLE ? null : value)}
+            >
+              <SelectTrigger id="parentRole">
+                <SelectValue placeholder="No parent role" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_PARENT_ROLE}>No parent role</SelectItem>
+                {availableRoles
+                  .filter(role => role.id.toString() !== roleId)
+                  .map(role => (
+                    <SelectItem key={role.id} value={role.id.toString()}>
+                      {role.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">
+              Role ini mewarisi permission parent role; permission yang di-set di bawah meng-override permission warisan.
+            </p>
+          </div>
           <div className="space-y-2">
             <Label htmlFor="description">Description</Label>
             <Textarea
@@ -400,7 +621,8 @@ export function RoleCreateEditTab({ roleId, mode, onSuccess }: RoleCreateEditTab
           <CardHeader>
             <CardTitle>Feature Permissions</CardTitle>
             <CardDescription>
-              Select features and configure CRUD permissions for this role
+              Select features and set each CRUD or custom action to Allow, Deny, or Unset.
+              Deny overrides Allow granted by any other role of the same user.
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -411,10 +633,10 @@ export function RoleCreateEditTab({ roleId, mode, onSuccess }: RoleCreateEditTab
                     <TableHead className="w-12">Select</TableHead>
                     <TableHead>Feature</TableHead>
                     <TableHead>Category</TableHead>
-                    <TableHead>Create</TableHead>
-                    <TableHead>Read</TableHead>
-                    <TableHead>Update</TableHead>
-                    <TableHead>Delete</TableHead>
+                    {permissionActions.map(({ action, label }) => (
+                      <TableHead key={action}>{label}</TableHead>
+                    ))}
+                    <TableHead>Custom Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -443,41 +665,63 @@ export function RoleCreateEditTab({ roleId, mode, onSuccess }: RoleCreateEditTab
                         <TableCell className="text-sm text-muted-foreground">
                           {feature.category}
                         </TableCell>
+                        {permissionActions.map(({ action, label }) => (
+                          <TableCell key={action}>
+                            <Select
+                              value={permissions?.[action] ?? 'unset'}
+                              disabled={!isSelected}
+                              onValueChange={(value) =>
+                                handlePermissionChange(feature.id.toString(), action, value as PermissionEffect)
+                              }
+                            >
+                              <SelectTrigger
+                                className={`w-[100px] ${permissions?.[action] === 'deny' ? 'text-destructive' : ''}`}
+                                aria-label={`${label} permission`}
+                              >
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="unset">Unset</SelectItem>
+                                <SelectItem value="allow">Allow</SelectItem>
+                                <SelectItem value="deny">Deny</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                        ))}
                         <TableCell>
-                          <Checkbox
-                            checked={permissions?.canCreate || false}
-                            disabled={!isSelected}
-                            onCheckedChange={(checked) => 
-                              handlePermissionChange(feature.id.toString(), 'canCreate', checked as boolean)
-                            }
-                          />
-                        </TableCell>
-                        <TableCell>
-                          <Checkbox
-                            checked={permissions?.canRead || false}
-                            disabled={!isSelected}
-                            onCheckedChange={(checked) => 
-                              handlePermissionChange(feature.id.toString(), 'canRead', checked as boolean)
-                            }
-                          />
-                        </TableCell>
-                        <TableCell>
-                          <Checkbox
-                            checked={permissions?.canUpdate || false}
-                            disabled={!isSelected}
-                            onCheckedChange={(checked) => 
-                              handlePermissionChange(feature.id.toString(), 'canUpdate', checked as boolean)
-                            }
-                          />
-                        </TableCell>
-                        <TableCell>
-                          <Checkbox
-                            checked={permissions?.canDelete || false}
-                            disabled={!isSelected}
-                            onCheckedChange={(checked) => 
-                              handlePermissionChange(feature.id.toString(), 'canDelete', checked as boolean)
-                            }
-                          />
+                          {feature.actions && feature.actions.length > 0 ? (
+                            <div className="space-y-1">
+                              {feature.actions.map(({ name, description }) => {
+                                const effect = permissions?.actions[name] ?? 'unset'
+                                return (
+                                  <div key={name} className="flex items-center gap-2" title={description ?? undefined}>
+                                    <span className="text-sm w-24 truncate">{name}</span>
+                                    <Select
+                                      value={effect}
+                                      disabled={!isSelected}
+                                      onValueChange={(value) =>
+                                        handleCustomActionChange(feature.id.toString(), name, value as PermissionEffect)
+                                      }
+                                    >
+                                      <SelectTrigger
+                                        className={`w-[100px] ${effect === 'deny' ? 'text-destructive' : ''}`}
+                                        aria-label={`${name} permission`}
+                                      >
+                                        <SelectValue />
+                                      </SelectTrigger>
+                                      <SelectContent>
+                                        <SelectItem value="unset">Unset</SelectItem>
+                                        <SelectItem value="allow">Allow</SelectItem>
+                                        <SelectItem value="deny">Deny</SelectItem>
+                                      </SelectContent>
+                                    </Select>
+                                  </div>
+                                )
+                              })}
+                            </div>
+                          ) : (
+                            <span className="text-sm text-muted-foreground">-</span>
+                          )}
                         </TableCell>
                       </TableRow>
                     )
@@ -19,7 +19,8 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/shadcn/ui/table"
-import { IconEdit, IconUsers, IconCheck, IconX } from "@tabler/icons-react"
+import { IconEdit, IconUsers, IconCheck, IconX, IconMinus } from "@tabler/icons-react"
+import { RoleApproversCard } from "./role-approvers-card"
 
 // Interface untuk role detail
 interface RoleFeature {
@@ -32,6 +33,25 @@ interface RoleFeature {
   canRead: boolean
   canUpdate: boolean
   canDelete: boolean
+  denyCreate?: boolean
+  denyRead?: boolean
+  denyUpdate?: boolean
+  denyDelete?: boolean
+  actions?: Record<string, string> // effect action custom: { export: 'allow' }
+}
+
+// Permission efektif per action, inheritedFrom null berarti ditentukan langsung oleh role
+interface EffectiveAction {
+  effect: 'allow' | 'deny' | 'unset'
+  inheritedFrom: { id: number; name: string } | null
+}
+
+interface EffectivePermission {
+  featureId: number
+  featureName: string
+  featureDescription: string | null
+  direct: boolean
+  actions: Record<string, EffectiveAction> // CRUD dan action custom feature
 }
 
 interface RoleDetail {
@@ -43,6 +63,8 @@ interface RoleDetail {
   updated_at: string
   userCount?: number
   features: RoleFeature[]
+  ancestors: { id: number; name: string }[]
+  effectivePermissions: EffectivePermission[]
 }
 
 interface RoleDetailTabProps {
@@ -53,7 +75,8 @@ interface RoleDetailTabProps {
 
 /**
  * Komponen tab untuk menampilkan detail role
- * Menampilkan informasi role dan fitur-fitur yang dimilikinya via RoleFeature
+ * Menampilkan informasi role, fitur-fitur yang dimilikinya via RoleFeature,
+ * dan permission efektif setelah pewarisan dari parent role
  */
 export function RoleDetailTab({ roleId, onEdit, onUserMapping }: RoleDetailTabProps) {
   const { accessToken, isAuthenticated } = useAuth()
@@ -99,10 +122,27 @@ export function RoleDetailTab({ roleId, onEdit, onUserMapping }: RoleDetailTabPr
         features = featuresData.data?.features || []
       }
 
+      // Fetch permission efektif (langsung + diwariskan dari parent role)
+      const effectiveResponse = await fetch(`/api/roles/${id}/effective-permissions`, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`
+        }
+      })
+
+      let ancestors: RoleDetail['ancestors'] = []
+      let effectivePermissions: EffectivePermission[] = []
+      if (effectiveResponse.ok) {
+        const effectiveData = await effectiveResponse.json()
+        ancestors = effectiveData.data?.ancestors || []
+        effectivePermissions = effectiveData.data?.permissions || []
+      }
+
       // Combine data
       const combinedData: RoleDetail = {
         ...roleData.data.role,
         features,
+        ancestors,
+        effectivePermissions,
         userCount: 0 // TODO: Implement user count API
       }
 
@@ -124,36 +164,135 @@ export function RoleDetailTab({ roleId, onEdit, onUserMapping }: RoleDetailTabPr
   }, [roleId, isAuthenticated, accessToken])
 
   /**
-   * Render CRUD permission badges
+   * Render CRUD permission badges (allow, deny, atau unset)
    */
   const renderCRUDPermissions = (feature: any) => {
     const permissions = [
-      { key: 'canCreate', label: 'C', title: 'Create' },
-      { key: 'canRead', label: 'R', title: 'Read' },
-      { key: 'canUpdate', label: 'U', title: 'Update' },
-      { key: 'canDelete', label: 'D', title: 'Delete' }
+      { allowKey: 'canCreate', denyKey: 'denyCreate', label: 'C', title: 'Create' },
+      { allowKey: 'canRead', denyKey: 'denyRead', label: 'R', title: 'Read' },
+      { allowKey: 'canUpdate', denyKey: 'denyUpdate', label: 'U', title: 'Update' },
+      { allowKey: 'canDelete', denyKey: 'denyDelete', label: 'D', title: 'Delete' }
     ]
 
     return (
       <div className="flex gap-1">
-        {permissions.map(({ key, label, title }) => (
+        {permissions.map(({ allowKey, denyKey, title }) => {
+          const effect = feature[denyKey] ? 'deny' : feature[allowKey] ? 'allow' : 'unset'
+
+          return (
+            <Badge
+              key={allowKey}
+              variant={effect === 'allow' ? "default" : effect === 'deny' ? "destructive" : "secondary"}
+              className="w-6 h-6 p-0 flex items-center justify-center text-xs"
+              title={`${title}: ${effect === 'allow' ? 'Allowed' : effect === 'deny' ? 'Denied (override)' : 'Not set'}`}
+            >
+              {effect === 'allow' ? (
+                <IconCheck className="h-3 w-3" />
+              ) : effect === 'deny' ? (
+                <IconX className="h-3 w-3" />
+              ) : (
+                <IconMinus className="h-3 w-3" />
+              )}
+            </Badge>
+          )
+        })}
+      </div>
+    )
+  }
+
+  /**
+   * Render effect action custom feature (di luar CRUD) yang di-set langsung pada role
+   */
+  const renderCustomActions = (actions?: Record<string, string>) => {
+    const entries = Object.entries(actions ?? {})
+    if (entries.length === 0) return null
+
+    return (
+      <div className="flex flex-wrap gap-1 mt-1">
+        {entries.map(([action, effect]) => (
           <Badge
-            key={key}
-            variant={feature[key] ? "default" : "secondary"}
-            className="w-6 h-6 p-0 flex items-center justify-center text-xs"
-            title={`${title}: ${feature[key] ? 'Allowed' : 'Denied'}`}
+            key={action}
+            variant={effect === 'deny' ? "destructive" : "default"}
+            className="h-6 text-xs"
+            title={`${action}: ${effect === 'deny' ? 'Denied (override)' : 'Allowed'}`}
           >
-            {feature[key] ? (
-              <IconCheck className="h-3 w-3" />
-            ) : (
-              <IconX className="h-3 w-3" />
-            )}
+            {action}
           </Badge>
         ))}
       </div>
     )
   }
 
+  /**
+   * Render permission efektif per action, dengan penanda permission yang diwariskan
+   */
+  const renderEffectivePermissions = (permission: EffectivePermission) => {
+    const actions = [
+      { action: 'create', title: 'Create' },
+      { action: 'read', title: 'Read' },
+      { action: 'update', title: 'Update' },
+      { action: 'delete', title: 'Delete' }
+    ] as const
+
+    return (
+      <div className="flex gap-1">
+        {actions.map(({ action, title }) => {
+          const { effect, inheritedFrom } = permission.actions[action]
+          const source = inheritedFrom ? ` (inherited from ${inheritedFrom.name})` : ''
+
+          return (
+            <Badge
+              key={action}
+              variant={effect === 'allow' ? "default" : effect === 'deny' ? "destructive" : "secondary"}
+              className={`w-6 h-6 p-0 flex items-center justify-center text-xs ${inheritedFrom ? 'opacity-60 border-dashed' : ''}`}
+              title={`${title}: ${effect === 'allow' ? 'Allowed' : effect === 'deny' ? 'Denied (override)' : 'Not set'}${source}`}
+            >
+              {effect === 'allow' ? (
+                <IconCheck className="h-3 w-3" />
+              ) : effect === 'deny' ? (
+                <IconX className="h-3 w-3" />
+              ) : (
+                <IconMinus className="h-3 w-3" />
+              )}
+            </Badge>
+          )
+        })}
+        {Object.entries(permission.actions)
+          .filter(([action]) => !actions.some(crud => crud.action === action))
+          .map(([action, { effect, inheritedFrom }]) => (
+            <Badge
+              key={action}
+              variant={effect === 'allow' ? "default" : effect === 'deny' ? "destructive" : "secondary"}
+              className={`h-6 text-xs ${inheritedFrom ? 'opacity-60 border-dashed' : ''}`}
+              title={`${action}: ${effect === 'allow' ? 'Allowed' : effect === 'deny' ? 'Denied (override)' : 'Not set'}${inheritedFrom ? ` (inherited from ${inheritedFrom.name})` : ''}`}
+            >
+              {action}
+            </Badge>
+          ))}
+      </div>
+    )
+  }
+
+  /**
+   * Render sumber permission efektif: Direct, Inherited, atau keduanya
+   */
+  const renderPermissionSource = (permission: EffectivePermission) => {
+    const inheritedFrom = [...new Set(
+      Object.values(permission.actions)
+        .map(({ inheritedFrom }) => inheritedFrom?.name)
+        .filter((name): name is string => Boolean(name))
+    )]
+
+    return (
+      <div className="flex flex-wrap gap-1">
+        {permission.direct && <Badge variant="outline">Direct</Badge>}
+        {inheritedFrom.map(name => (
+          <Badge key={name} variant="secondary">Inherited from {name}</Badge>
+        ))}
+      </div>
+    )
+  }
+
   /**
    * Render grantsAll badge
    */
@@ -244,6 +383,14 @@ export function RoleDetailTab({ roleId, onEdit, onUserMapping }: RoleDetailTabPr
                 {new Date(roleDetail.updated_at).toLocaleDateString()}
               </span>
             </div>
+            <div className="col-span-2">
+              <span className="font-medium">Inherits From:</span>
+              <span className="ml-2 text-muted-foreground">
+                {roleDetail.ancestors.length > 0
+                  ? roleDetail.ancestors.map(ancestor => ancestor.name).join(' → ')
+                  : 'None (root role)'}
+              </span>
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -253,7 +400,7 @@ export function RoleDetailTab({ roleId, onEdit, onUserMapping }: RoleDetailTabPr
         <CardHeader>
           <CardTitle>Role Features & Permissions</CardTitle>
           <CardDescription>
-            Fitur-fitur yang dapat diakses oleh role ini dengan CRUD permissions
+            Permission yang diberikan langsung ke role ini dengan CRUD permissions
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -273,7 +420,7 @@ export function RoleDetailTab({ roleId, onEdit, onUserMapping }: RoleDetailTabPr
                   <TableRow>
                     <TableHead>Feature Name</TableHead>
                     <TableHead>Description</TableHead>
-                    <TableHead>CRUD Permissions</TableHead>
+                    <TableHead>Permissions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -287,6 +434,7 @@ export function RoleDetailTab({ roleId, onEdit, onUserMapping }: RoleDetailTabPr
                       </TableCell>
                       <TableCell>
                         {renderCRUDPermissions(feature)}
+                        {renderCustomActions(feature.actions)}
                       </TableCell>
                     </TableRow>
                   ))}
@@ -302,6 +450,56 @@ export function RoleDetailTab({ roleId, onEdit, onUserMapping }: RoleDetailTabPr
           )}
         </CardContent>
       </Card>
+
+      {/* Effective Permissions */}
+      {!roleDetail.grants_all && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Effective Permissions</CardTitle>
+            <CardDescription>
+              Permission langsung digabung dengan permission dari parent role. Permission langsung
+              meng-override permission yang diwariskan; All Access tidak diwariskan.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {roleDetail.effectivePermissions.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                No effective permissions for this role.
+              </div>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Feature Name</TableHead>
+                      <TableHead>Source</TableHead>
+                      <TableHead>Effective Permissions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {roleDetail.effectivePermissions.map(permission => (
+                      <TableRow key={permission.featureId}>
+                        <TableCell className="font-medium">
+                          {permission.featureName}
+                        </TableCell>
+                        <TableCell>
+                          {renderPermissionSource(permission)}
+                        </TableCell>
+                        <TableCell>
+                          {renderEffectivePermissions(permission)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Approver access request */}
+      <RoleApproversCard roleId={roleDetail.id} />
     </div>
   )
 }
\ No newline at end of file
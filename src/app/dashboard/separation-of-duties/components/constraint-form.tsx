@@ -0,0 +1,171 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/shadcn/ui/card"
+import { Button } from "@/components/shadcn/ui/button"
+import { Input } from "@/components/shadcn/ui/input"
+import { Label } from "@/components/shadcn/ui/label"
+import { Checkbox } from "@/components/shadcn/ui/checkbox"
+import { PlusIcon, SaveIcon } from "lucide-react"
+import { toast } from "sonner"
+import { useAuth } from "@/contexts/AuthContext"
+import { type RoleOption, type SodConstraint } from "./sod-shared"
+
+interface ConstraintFormProps {
+  roles: RoleOption[]
+  constraint: SodConstraint | null
+  onSaved: () => void
+  onCancel: () => void
+}
+
+/**
+ * Form pembuatan dan edit constraint separation-of-duties
+ * Set role diganti seluruhnya saat constraint diupdate
+ */
+export function ConstraintForm({ roles, constraint, onSaved, onCancel }: ConstraintFormProps) {
+  const { accessToken } = useAuth()
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [maxRoles, setMaxRoles] = useState('1')
+  const [roleIds, setRoleIds] = useState<number[]>([])
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    setName(constraint?.name ?? '')
+    setDescription(constraint?.description ?? '')
+    setMaxRoles(String(constraint?.maxRoles ?? 1))
+    setRoleIds(constraint?.roles.map(role => role.id) ?? [])
+  }, [constraint])
+
+  /**
+   * Toggle role sebagai anggota set constraint
+   */
+  const toggleRole = (roleId: number, checked: boolean) => {
+    setRoleIds(prev => checked ? [...prev, roleId] : prev.filter(id => id !== roleId))
+  }
+
+  /**
+   * Simpan constraint baru atau perubahan constraint
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const limit = parseInt(maxRoles, 10)
+    if (!name.trim() || roleIds.length < 2) {
+      toast.error('Nama dan minimal dua role wajib diisi')
+      return
+    }
+    if (isNaN(limit) || limit < 1 || limit >= roleIds.length) {
+      toast.error('Batas role harus antara 1 dan jumlah role dikurangi satu')
+      return
+    }
+
+    try {
+      setSubmitting(true)
+      const response = await fetch(
+        constraint ? `/api/rbac/sod-constraints/${constraint.id}` : '/api/rbac/sod-constraints',
+        {
+          method: constraint ? 'PUT' : 'POST',
+          headers: {
+            'Authorization': `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            name: name.trim(),
+            description: description.trim() || null,
+            roleIds,
+            maxRoles: limit,
+          }),
+        }
+      )
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Gagal menyimpan constraint')
+      }
+
+      if (!constraint) {
+        setName('')
+        setDescription('')
+        setMaxRoles('1')
+        setRoleIds([])
+      }
+      toast.success(result.message || 'Constraint berhasil disimpan')
+      onSaved()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Gagal menyimpan constraint')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{constraint ? `Edit Constraint: ${constraint.name}` : 'Constraint Baru'}</CardTitle>
+        <CardDescription>
+          User tidak boleh memegang lebih dari batas role dari set ini. Batas 1 berarti role saling eksklusif.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="sod-name">Nama</Label>
+              <Input
+                id="sod-name"
+                placeholder="Pembayaran: pembuat vs approver"
+                maxLength={100}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sod-description">Deskripsi</Label>
+              <Input
+                id="sod-description"
+                placeholder="Temuan audit Q3"
+                maxLength={1000}
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sod-max-roles">Maksimal Role per User</Label>
+              <Input
+                id="sod-max-roles"
+                type="number"
+                min={1}
+                value={maxRoles}
+                onChange={(e) => setMaxRoles(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Role dalam Set ({roleIds.length} dipilih)</Label>
+            <div className="grid gap-2 md:grid-cols-3 max-h-40 overflow-y-auto rounded-md border p-3">
+              {roles.map(role => (
+                <label key={role.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={roleIds.includes(role.id)}
+                    onCheckedChange={(checked) => toggleRole(role.id, checked === true)}
+                  />
+                  {role.name}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button type="submit" disabled={submitting}>
+              {constraint ? <SaveIcon className="mr-2 h-4 w-4" /> : <PlusIcon className="mr-2 h-4 w-4" />}
+              {submitting ? 'Menyimpan...' : constraint ? 'Simpan Perubahan' : 'Buat Constraint'}
+            </Button>
+            {constraint && (
+              <Button type="button" variant="outline" onClick={onCancel}>
+                Batal
+              </Button>
+            )}
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,187 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/shadcn/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/shadcn/ui/table"
+import { Badge } from "@/components/shadcn/ui/badge"
+import { Button } from "@/components/shadcn/ui/button"
+import { PencilIcon, RefreshCwIcon, Trash2Icon } from "lucide-react"
+import { toast } from "sonner"
+import { useAuth } from "@/contexts/AuthContext"
+import { type RoleOption, type SodConstraint, formatSodDate } from "./sod-shared"
+import { ConstraintForm } from "./constraint-form"
+
+/**
+ * Tab constraint separation-of-duties (memerlukan permission role_management)
+ * Menampilkan daftar constraint beserta set role-nya, form constraint baru/edit, dan hapus constraint
+ */
+export function ConstraintsTab() {
+  const { accessToken } = useAuth()
+  const [constraints, setConstraints] = useState<SodConstraint[]>([])
+  const [roles, setRoles] = useState<RoleOption[]>([])
+  const [editing, setEditing] = useState<SodConstraint | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * Mengambil daftar constraint dan role untuk pilihan set
+   */
+  const fetchConstraints = useCallback(async () => {
+    if (!accessToken) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+      const [constraintsResponse, rolesResponse] = await Promise.all([
+        fetch('/api/rbac/sod-constraints', {
+          headers: { 'Authorization': `Bearer ${accessToken}` },
+        }),
+        fetch('/api/rbac/roles', {
+          headers: { 'Authorization': `Bearer ${accessToken}` },
+        })
+      ])
+
+      const result = await constraintsResponse.json()
+      if (!constraintsResponse.ok || !result.success) {
+        throw new Error(result.message || 'Gagal mengambil constraint separation-of-duties')
+      }
+      setConstraints(result.data.constraints || [])
+
+      if (rolesResponse.ok) {
+        const rolesData = await rolesResponse.json()
+        setRoles(rolesData.data?.roles || [])
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Gagal mengambil constraint separation-of-duties'
+      setError(errorMessage)
+      setConstraints([])
+    } finally {
+      setLoading(false)
+    }
+  }, [accessToken])
+
+  useEffect(() => {
+    fetchConstraints()
+  }, [fetchConstraints])
+
+  /**
+   * Handle constraint tersimpan: tutup mode edit dan refresh daftar
+   */
+  const handleSaved = async () => {
+    setEditing(null)
+    await fetchConstraints()
+  }
+
+  /**
+   * Hapus constraint setelah konfirmasi
+   */
+  const handleDelete = async (constraint: SodConstraint) => {
+    if (!confirm(`Hapus constraint "${constraint.name}"? Role dalam set ini dapat kembali di-assign bersamaan.`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/rbac/sod-constraints/${constraint.id}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${accessToken}` },
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Gagal menghapus constraint')
+      }
+      toast.success('Constraint berhasil dihapus')
+      if (editing?.id === constraint.id) {
+        setEditing(null)
+      }
+      await fetchConstraints()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Gagal menghapus constraint')
+    }
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="text-center text-muted-foreground py-8">{error}</CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <ConstraintForm
+        roles={roles}
+        constraint={editing}
+        onSaved={handleSaved}
+        onCancel={() => setEditing(null)}
+      />
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Constraints</CardTitle>
+            <CardDescription>Assignment role yang melanggar constraint ditolak</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={fetchConstraints} disabled={loading}>
+            <RefreshCwIcon className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nama</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Maksimal</TableHead>
+                <TableHead>Diupdate</TableHead>
+                <TableHead className="text-right">Aksi</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {constraints.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    {loading ? 'Memuat...' : 'Belum ada constraint separation-of-duties'}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                constraints.map(constraint => (
+                  <TableRow key={constraint.id}>
+                    <TableCell>
+                      <div className="font-medium">{constraint.name}</div>
+                      {constraint.description && (
+                        <div className="text-xs text-muted-foreground">{constraint.description}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {constraint.roles.map(role => (
+                          <Badge key={role.id} variant="outline">{role.name}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>{constraint.maxRoles} dari {constraint.roles.length} role</TableCell>
+                    <TableCell>{formatSodDate(constraint.updatedAt)}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="outline" size="sm" onClick={() => setEditing(constraint)}>
+                          <PencilIcon className="h-4 w-4" />
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => handleDelete(constraint)}>
+                          <Trash2Icon className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,41 @@
+"use client"
+
+import { format } from "date-fns"
+import { id } from "date-fns/locale"
+
+export interface RoleOption {
+  id: number
+  name: string
+}
+
+export interface SodConstraint {
+  id: number
+  name: string
+  description: string | null
+  maxRoles: number
+  createdAt: string
+  updatedAt: string
+  roles: RoleOption[]
+}
+
+export interface SodViolation {
+  constraintId: number
+  constraintName: string
+  maxRoles: number
+  roles: RoleOption[]
+  user: { id: number; name: string; email: string } | null
+}
+
+export interface SodViolationReport {
+  generatedAt: string
+  constraints: number
+  affectedUsers: number
+  violations: SodViolation[]
+}
+
+/**
+ * Format tanggal separation-of-duties untuk tabel
+ */
+export function formatSodDate(value: string | null): string {
+  return value ? format(new Date(value), 'dd MMM yyyy HH:mm', { locale: id }) : '-'
+}
@@ -0,0 +1,31 @@
+"use client"
+
+import { useState } from "react"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/shadcn/ui/tabs"
+import { ConstraintsTab } from "./constraints-tab"
+import { ViolationsTab } from "./violations-tab"
+
+/**
+ * Komponen tabs untuk Separation of Duties
+ * Mengelola navigasi antar tab: Constraints, Violations
+ */
+export function SodTabs() {
+  const [activeTab, setActiveTab] = useState("constraints")
+
+  return (
+    <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+      <TabsList className="grid w-full grid-cols-2">
+        <TabsTrigger value="constraints">Constraints</TabsTrigger>
+        <TabsTrigger value="violations">Violations</TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="constraints" className="mt-6">
+        <ConstraintsTab />
+      </TabsContent>
+
+      <TabsContent value="violations" className="mt-6">
+        <ViolationsTab />
+      </TabsContent>
+    </Tabs>
+  )
+}
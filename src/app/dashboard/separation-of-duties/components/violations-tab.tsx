@@ -0,0 +1,121 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/shadcn/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/shadcn/ui/table"
+import { Badge } from "@/components/shadcn/ui/badge"
+import { Button } from "@/components/shadcn/ui/button"
+import { RefreshCwIcon } from "lucide-react"
+import { useAuth } from "@/contexts/AuthContext"
+import { type SodViolationReport, formatSodDate } from "./sod-shared"
+
+/**
+ * Tab laporan pelanggaran separation-of-duties
+ * Menampilkan user yang sudah memegang role melebihi batas constraint
+ * (contoh: assignment yang dibuat sebelum constraint ditambahkan)
+ */
+export function ViolationsTab() {
+  const { accessToken } = useAuth()
+  const [report, setReport] = useState<SodViolationReport | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * Mengambil laporan pelanggaran terbaru
+   */
+  const fetchReport = useCallback(async () => {
+    if (!accessToken) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+      const response = await fetch('/api/rbac/sod-constraints/violations', {
+        headers: { 'Authorization': `Bearer ${accessToken}` },
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Gagal mengambil laporan pelanggaran')
+      }
+      setReport(result.data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Gagal mengambil laporan pelanggaran')
+      setReport(null)
+    } finally {
+      setLoading(false)
+    }
+  }, [accessToken])
+
+  useEffect(() => {
+    fetchReport()
+  }, [fetchReport])
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="text-center text-muted-foreground py-8">{error}</CardContent>
+      </Card>
+    )
+  }
+
+  const violations = report?.violations ?? []
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Violations</CardTitle>
+          <CardDescription>
+            {report
+              ? `${report.affectedUsers} user melanggar ${report.constraints} constraint aktif · dibuat ${formatSodDate(report.generatedAt)}`
+              : 'User yang memegang role melebihi batas constraint'}
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={fetchReport} disabled={loading}>
+          <RefreshCwIcon className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>User</TableHead>
+              <TableHead>Constraint</TableHead>
+              <TableHead>Role yang Dipegang</TableHead>
+              <TableHead>Maksimal</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {violations.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-muted-foreground">
+                  {loading ? 'Memuat...' : 'Tidak ada user yang melanggar constraint'}
+                </TableCell>
+              </TableRow>
+            ) : (
+              violations.map(violation => (
+                <TableRow key={`${violation.constraintId}-${violation.user?.id}`}>
+                  <TableCell>
+                    <div className="font-medium">{violation.user?.name ?? '-'}</div>
+                    <div className="text-xs text-muted-foreground">{violation.user?.email}</div>
+                  </TableCell>
+                  <TableCell>{violation.constraintName}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {violation.roles.map(role => (
+                        <Badge key={role.id} variant="destructive">{role.name}</Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>{violation.maxRoles}</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,46 @@
+"use client"
+
+import { AppSidebar } from "@/components/app-sidebar"
+import { SiteHeader } from "@/components/site-header"
+import {
+  SidebarInset,
+  SidebarProvider,
+} from "@/components/shadcn/ui/sidebar"
+import { SodTabs } from "./components/sod-tabs"
+
+/**
+ * Halaman Separation of Duties
+ * Admin mengelola set role yang saling eksklusif dan memantau user yang melanggarnya
+ */
+export default function SeparationOfDutiesPage() {
+  return (
+    <SidebarProvider
+      style={
+        {
+          "--sidebar-width": "calc(var(--spacing) * 72)",
+          "--header-height": "calc(var(--spacing) * 12)",
+        } as React.CSSProperties
+      }
+    >
+      <AppSidebar variant="inset" />
+      <SidebarInset>
+        <SiteHeader />
+        <div className="flex flex-1 flex-col">
+          <div className="@container/main flex flex-1 flex-col gap-2">
+            <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6">
+              <div className="px-4 lg:px-6">
+                <div className="mb-6">
+                  <h1 className="text-3xl font-bold tracking-tight">Separation of Duties</h1>
+                  <p className="text-muted-foreground">
+                    Role yang tidak boleh dipegang satu user bersamaan, contoh: pembuat dan approver pembayaran
+                  </p>
+                </div>
+                <SodTabs />
+              </div>
+            </div>
+          </div>
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  )
+}
@@ -25,7 +25,23 @@ export const USER_ENDPOINTS = {
   
   // User permissions and roles
   USER_PERMISSIONS: (id: string) => `${API_BASE.USERS}/${id}/permissions`,
-  USER_ROLES: (id: string) => `${API_BASE.USERS}/${id}/roles`
+  USER_ROLES: (id: string) => `${API_BASE.USERS}/${id}/roles`,
+
+  // User MFA (status dan reset oleh admin)
+  USER_MFA: (id: string) => `${API_BASE.USERS}/${id}/mfa`,
+
+  // Paksa sign-out user dari semua device
+  USER_FORCE_SIGN_OUT: (id: string) => `${API_BASE.USERS}/${id}/force-sign-out`,
+
+  // User invitations (undang, kirim ulang, cabut)
+  INVITATIONS: `${API_BASE.USERS}/invitations`,
+  INVITATION_DETAIL: (id: string) => `${API_BASE.USERS}/invitations/${id}`,
+  INVITATION_RESEND: (id: string) => `${API_BASE.USERS}/invitations/${id}/resend`,
+
+  // Service accounts dan personal access token
+  SERVICE_ACCOUNTS: `${API_BASE.USERS}/service-accounts`,
+  USER_ACCESS_TOKENS: (id: string) => `${API_BASE.USERS}/${id}/access-tokens`,
+  USER_ACCESS_TOKEN_DETAIL: (id: string, tokenId: string) => `${API_BASE.USERS}/${id}/access-tokens/${tokenId}`
 } as const
 
 // RBAC (Role-Based Access Control) Endpoints
@@ -43,7 +59,10 @@ export const RBAC_ENDPOINTS = {
   ROLE_FEATURES: `${API_BASE.RBAC}/role-features`,
   
   // Route-Feature assignments
-  ROUTE_FEATURES: `${API_BASE.RBAC}/route-features`
+  ROUTE_FEATURES: `${API_BASE.RBAC}/route-features`,
+
+  // Features beserta action custom (untuk scope access token)
+  FEATURES: `${API_BASE.RBAC}/features`
 } as const
 
 // Authentication Endpoints
@@ -53,7 +72,10 @@ export const AUTH_ENDPOINTS = {
   REFRESH: `${API_BASE.AUTH}/refresh`,
   LOGOUT: `${API_BASE.AUTH}/logout`,
   FORGOT_PASSWORD: `${API_BASE.AUTH}/forgot-password`,
-  RESET_PASSWORD: `${API_BASE.AUTH}/reset-password`
+  RESET_PASSWORD: `${API_BASE.AUTH}/reset-password`,
+  VERIFY_EMAIL: `${API_BASE.AUTH}/verify-email`,
+  RESEND_VERIFICATION: `${API_BASE.AUTH}/verify-email/resend`,
+  ACCEPT_INVITATION: `${API_BASE.AUTH}/accept-invitation`
 } as const
 
 // HTTP Methods Constants
@@ -78,6 +100,28 @@ export const ERROR_MESSAGES = {
     ASSIGN_FAILED: 'Gagal menugaskan role ke pengguna',
     REVOKE_FAILED: 'Gagal mencabut role dari pengguna'
   },
+  MFA: {
+    LOAD_FAILED: 'Gagal memuat status MFA pengguna',
+    RESET_FAILED: 'Gagal mereset MFA pengguna'
+  },
+  SIGN_OUT: {
+    FORCE_FAILED: 'Gagal memaksa sign-out pengguna'
+  },
+  INVITATION: {
+    LOAD_FAILED: 'Gagal memuat undangan pengguna',
+    CREATE_FAILED: 'Gagal mengirim undangan',
+    RESEND_FAILED: 'Gagal mengirim ulang undangan',
+    REVOKE_FAILED: 'Gagal mencabut undangan'
+  },
+  SERVICE_ACCOUNT: {
+    LOAD_FAILED: 'Gagal memuat service account',
+    CREATE_FAILED: 'Gagal membuat service account'
+  },
+  ACCESS_TOKEN: {
+    LOAD_FAILED: 'Gagal memuat access token',
+    CREATE_FAILED: 'Gagal membuat access token',
+    REVOKE_FAILED: 'Gagal mencabut access token'
+  },
   GENERAL: {
     NETWORK_ERROR: 'Terjadi kesalahan jaringan',
     UNAUTHORIZED: 'Anda tidak memiliki akses',
@@ -88,13 +132,31 @@ export const ERROR_MESSAGES = {
 // Success Messages Constants
 export const SUCCESS_MESSAGES = {
   USER: {
-    CREATED: 'Pengguna berhasil dibuat',
+    CREATED: 'Pengguna berhasil dibuat. Link verifikasi telah dikirim ke email pengguna',
     UPDATED: 'Data pengguna berhasil diperbarui',
     DELETED: 'Pengguna berhasil dihapus'
   },
   ROLE: {
     ASSIGNED: 'Role berhasil ditugaskan',
     REVOKED: 'Role berhasil dicabut'
+  },
+  MFA: {
+    RESET: 'MFA pengguna berhasil direset'
+  },
+  SIGN_OUT: {
+    FORCED: 'Pengguna berhasil di-sign-out dari semua device'
+  },
+  INVITATION: {
+    CREATED: 'Undangan berhasil dikirim',
+    RESENT: 'Undangan berhasil dikirim ulang',
+    REVOKED: 'Undangan berhasil dicabut'
+  },
+  SERVICE_ACCOUNT: {
+    CREATED: 'Service account berhasil dibuat'
+  },
+  ACCESS_TOKEN: {
+    CREATED: 'Access token berhasil dibuat. Salin token sekarang; token tidak akan ditampilkan lagi',
+    REVOKED: 'Access token berhasil dicabut'
   }
 } as const
 
@@ -1,4 +1,4 @@
-import { useState, useCallback, useRef, useEffect } from 'react'
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react'
 
 /**
  * Interface untuk cache entry
@@ -171,7 +171,8 @@ export function useCache<T = any>(config: CacheConfig = {}): UseCacheReturn<T> {
     return cacheRef.current.has(key) && !isExpired(key)
   }, [isExpired])
 
-  return {
+  // Memoize return value agar callback yang bergantung pada cache (execute di useApiCall) tetap stabil
+  return useMemo(() => ({
     get,
     set,
     remove,
@@ -179,5 +180,5 @@ export function useCache<T = any>(config: CacheConfig = {}): UseCacheReturn<T> {
     has,
     isExpired,
     size
-  }
+  }), [get, set, remove, clear, has, isExpired, size])
 }
\ No newline at end of file
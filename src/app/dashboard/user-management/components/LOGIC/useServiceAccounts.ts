@@ -0,0 +1,95 @@
+"use client"
+
+import { useEffect, useCallback } from 'react'
+import { toast } from 'sonner'
+import { useApiCall } from './hooks'
+import { USER_ENDPOINTS, RBAC_ENDPOINTS, ERROR_MESSAGES, SUCCESS_MESSAGES, HTTP_METHODS } from './constants'
+import type { Role } from './useUserRoleAssignment'
+
+/**
+ * Interface untuk service account yang dikembalikan dari API
+ */
+export interface ServiceAccount {
+  id: number
+  name: string
+  email: string
+  active: boolean | null
+  department: string | null
+  region: string | null
+  roles: { id: number; name: string }[]
+  activeTokens: number
+  createdAt: string
+}
+
+/**
+ * Data form service account
+ */
+export interface ServiceAccountFormData {
+  name: string
+  roleIds: number[]
+  department: string
+  region: string
+}
+
+/**
+ * Custom hook untuk daftar service account dan pembuatan service account baru
+ */
+export function useServiceAccounts() {
+  const {
+    data: serviceAccounts,
+    loading,
+    execute: fetchServiceAccounts
+  } = useApiCall<ServiceAccount[]>({
+    endpoint: USER_ENDPOINTS.SERVICE_ACCOUNTS,
+    errorMessage: ERROR_MESSAGES.SERVICE_ACCOUNT.LOAD_FAILED,
+    transform: (data: { serviceAccounts: ServiceAccount[] }) => data.serviceAccounts
+  })
+
+  const { data: roles, execute: fetchRoles } = useApiCall<Role[]>({
+    endpoint: RBAC_ENDPOINTS.ROLES,
+    errorMessage: ERROR_MESSAGES.ROLE.LOAD_FAILED
+  })
+
+  const { loading: submitting, execute: executeCreate } = useApiCall({
+    endpoint: USER_ENDPOINTS.SERVICE_ACCOUNTS,
+    method: HTTP_METHODS.POST,
+    errorMessage: ERROR_MESSAGES.SERVICE_ACCOUNT.CREATE_FAILED
+  })
+
+  useEffect(() => {
+    fetchServiceAccounts()
+    fetchRoles()
+  }, [fetchServiceAccounts, fetchRoles])
+
+  /**
+   * Buat service account lalu muat ulang daftar service account
+   * @returns boolean - true jika service account berhasil dibuat
+   */
+  const createServiceAccount = useCallback(async (formData: ServiceAccountFormData): Promise<boolean> => {
+    const result = await executeCreate({
+      body: {
+        name: formData.name,
+        roleIds: formData.roleIds,
+        department: formData.department || undefined,
+        region: formData.region || undefined
+      }
+    })
+
+    if (result === null) {
+      toast.error(ERROR_MESSAGES.SERVICE_ACCOUNT.CREATE_FAILED)
+      return false
+    }
+
+    toast.success(SUCCESS_MESSAGES.SERVICE_ACCOUNT.CREATED)
+    fetchServiceAccounts()
+    return true
+  }, [executeCreate, fetchServiceAccounts])
+
+  return {
+    serviceAccounts: serviceAccounts ?? [],
+    roles: roles ?? [],
+    loading,
+    submitting,
+    createServiceAccount
+  }
+}
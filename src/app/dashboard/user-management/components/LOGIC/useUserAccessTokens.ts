@@ -0,0 +1,157 @@
+"use client"
+
+import { useEffect, useCallback, useState } from 'react'
+import { toast } from 'sonner'
+import { useApiCall } from './hooks'
+import { USER_ENDPOINTS, RBAC_ENDPOINTS, ERROR_MESSAGES, SUCCESS_MESSAGES, HTTP_METHODS } from './constants'
+
+/**
+ * Status personal access token
+ */
+export type AccessTokenStatus = 'active' | 'expired' | 'revoked'
+
+/**
+ * Pasangan feature dan action yang boleh diakses token
+ */
+export interface AccessTokenScope {
+  feature: string
+  action: string
+}
+
+/**
+ * Interface untuk personal access token yang dikembalikan dari API (tanpa token plaintext)
+ */
+export interface UserAccessToken {
+  id: number
+  name: string
+  tokenPrefix: string
+  scopes: AccessTokenScope[]
+  status: AccessTokenStatus
+  expiresAt: string
+  lastUsedAt: string | null
+  lastUsedIp: string | null
+  revokedAt: string | null
+  createdAt: string
+}
+
+/**
+ * Feature beserta action custom untuk pilihan scope token
+ */
+export interface ScopeFeature {
+  id: number
+  name: string
+  actions: { name: string }[]
+}
+
+/**
+ * Data form access token
+ */
+export interface AccessTokenFormData {
+  name: string
+  expiresInDays: string
+  scopes: AccessTokenScope[]
+}
+
+/**
+ * Custom hook untuk personal access token user: daftar, buat, dan cabut
+ * Token plaintext hasil pembuatan hanya disimpan di state sampai ditutup admin
+ */
+export function useUserAccessTokens(userId: string | null) {
+  const [createdToken, setCreatedToken] = useState<string | null>(null)
+
+  const {
+    data: accessTokens,
+    loading,
+    execute: fetchAccessTokens,
+    reset
+  } = useApiCall<UserAccessToken[]>({
+    errorMessage: ERROR_MESSAGES.ACCESS_TOKEN.LOAD_FAILED,
+    transform: (data: { accessTokens: UserAccessToken[] }) => data.accessTokens
+  })
+
+  const { data: features, execute: fetchFeatures } = useApiCall<ScopeFeature[]>({
+    endpoint: RBAC_ENDPOINTS.FEATURES,
+    transform: (data: { features: ScopeFeature[] }) => data.features
+  })
+
+  const { loading: submitting, execute: executeCreate } = useApiCall<{ token: string }>({
+    method: HTTP_METHODS.POST,
+    errorMessage: ERROR_MESSAGES.ACCESS_TOKEN.CREATE_FAILED
+  })
+
+  const { execute: executeRevoke } = useApiCall({
+    method: HTTP_METHODS.DELETE,
+    errorMessage: ERROR_MESSAGES.ACCESS_TOKEN.REVOKE_FAILED
+  })
+
+  // Token plaintext hanya untuk user yang sedang dibuka
+  useEffect(() => {
+    setCreatedToken(null)
+  }, [userId])
+
+  useEffect(() => {
+    if (!userId) {
+      reset()
+      return
+    }
+
+    fetchAccessTokens({ endpoint: USER_ENDPOINTS.USER_ACCESS_TOKENS(userId) })
+  }, [userId, reset, fetchAccessTokens])
+
+  useEffect(() => {
+    fetchFeatures()
+  }, [fetchFeatures])
+
+  /**
+   * Buat access token lalu muat ulang daftar token
+   * @returns boolean - true jika token berhasil dibuat
+   */
+  const createAccessToken = useCallback(async (formData: AccessTokenFormData): Promise<boolean> => {
+    if (!userId) return false
+
+    const result = await executeCreate({
+      endpoint: USER_ENDPOINTS.USER_ACCESS_TOKENS(userId),
+      body: {
+        name: formData.name,
+        scopes: formData.scopes,
+        expiresInDays: formData.expiresInDays ? parseInt(formData.expiresInDays, 10) : undefined
+      }
+    })
+
+    if (result === null) {
+      toast.error(ERROR_MESSAGES.ACCESS_TOKEN.CREATE_FAILED)
+      return false
+    }
+
+    setCreatedToken(result.token)
+    toast.success(SUCCESS_MESSAGES.ACCESS_TOKEN.CREATED)
+    fetchAccessTokens({ endpoint: USER_ENDPOINTS.USER_ACCESS_TOKENS(userId) })
+    return true
+  }, [userId, executeCreate, fetchAccessTokens])
+
+  /**
+   * Cabut access token lalu muat ulang daftar token
+   */
+  const revokeAccessToken = useCallback(async (tokenId: number) => {
+    if (!userId) return
+
+    const result = await executeRevoke({ endpoint: USER_ENDPOINTS.USER_ACCESS_TOKEN_DETAIL(userId, tokenId.toString()) })
+    if (result !== null) {
+      toast.success(SUCCESS_MESSAGES.ACCESS_TOKEN.REVOKED)
+      fetchAccessTokens({ endpoint: USER_ENDPOINTS.USER_ACCESS_TOKENS(userId) })
+    } else {
+      toast.error(ERROR_MESSAGES.ACCESS_TOKEN.REVOKE_FAILED)
+    }
+  }, [userId, executeRevoke, fetchAccessTokens])
+
+  return {
+    accessTokens: accessTokens ?? [],
+    features: features ?? [],
+    createdToken,
+    dismissCreatedToken: () => setCreatedToken(null),
+    loading,
+    submitting,
+    createAccessToken,
+    revokeAccessToken
+  }
+}
@@ -0,0 +1,148 @@
+"use client"
+
+import { useEffect, useCallback } from 'react'
+import { toast } from 'sonner'
+import { useApiCall } from './hooks'
+import { USER_ENDPOINTS, RBAC_ENDPOINTS, ERROR_MESSAGES, SUCCESS_MESSAGES, HTTP_METHODS } from './constants'
+import type { Role } from './useUserRoleAssignment'
+
+/**
+ * Status undangan user
+ */
+export type UserInvitationStatus = 'pending' | 'accepted' | 'expired' | 'revoked'
+
+/**
+ * Interface untuk undangan user yang dikembalikan dari API
+ */
+export interface UserInvitation {
+  id: number
+  email: string
+  name: string | null
+  department: string | null
+  region: string | null
+  level: number | null
+  status: UserInvitationStatus
+  roles: { id: number; name: string }[]
+  expiresAt: string
+  acceptedAt: string | null
+  revokedAt: string | null
+  createdAt: string
+  invitedByUser: { id: number; name: string; email: string } | null
+}
+
+/**
+ * Data form undangan user
+ */
+export interface UserInvitationFormData {
+  email: string
+  name: string
+  roleIds: number[]
+  department: string
+  region: string
+  level: string
+}
+
+/**
+ * Custom hook untuk daftar undangan user, kirim undangan, kirim ulang, dan cabut undangan
+ */
+export function useUserInvitations() {
+  const {
+    data: invitations,
+    loading,
+    execute: fetchInvitations
+  } = useApiCall<UserInvitation[]>({
+    endpoint: USER_ENDPOINTS.INVITATIONS,
+    errorMessage: ERROR_MESSAGES.INVITATION.LOAD_FAILED,
+    transform: (data: { invitations: UserInvitation[] }) => data.invitations
+  })
+
+  const { data: roles, execute: fetchRoles } = useApiCall<Role[]>({
+    endpoint: RBAC_ENDPOINTS.ROLES,
+    errorMessage: ERROR_MESSAGES.ROLE.LOAD_FAILED
+  })
+
+  const { loading: submitting, execute: executeCreate } = useApiCall({
+    endpoint: USER_ENDPOINTS.INVITATIONS,
+    method: HTTP_METHODS.POST,
+    errorMessage: ERROR_MESSAGES.INVITATION.CREATE_FAILED
+  })
+
+  const { execute: executeResend } = useApiCall({
+    method: HTTP_METHODS.POST,
+    errorMessage: ERROR_MESSAGES.INVITATION.RESEND_FAILED
+  })
+
+  const { execute: executeRevoke } = useApiCall({
+    method: HTTP_METHODS.DELETE,
+    errorMessage: ERROR_MESSAGES.INVITATION.REVOKE_FAILED
+  })
+
+  useEffect(() => {
+    fetchInvitations()
+    fetchRoles()
+  }, [fetchInvitations, fetchRoles])
+
+  /**
+   * Kirim undangan baru lalu muat ulang daftar undangan
+   * @returns boolean - true jika undangan berhasil dikirim
+   */
+  const createInvitation = useCallback(async (formData: UserInvitationFormData): Promise<boolean> => {
+    const result = await executeCreate({
+      body: {
+        email: formData.email,
+        name: formData.name || undefined,
+        roleIds: formData.roleIds,
+        attributes: {
+          department: formData.department || undefined,
+          region: formData.region || undefined,
+          level: formData.level ? parseInt(formData.level, 10) : undefined
+        }
+      }
+    })
+
+    if (result === null) {
+      toast.error(ERROR_MESSAGES.INVITATION.CREATE_FAILED)
+      return false
+    }
+
+    toast.success(SUCCESS_MESSAGES.INVITATION.CREATED)
+    fetchInvitations()
+    return true
+  }, [executeCreate, fetchInvitations])
+
+  /**
+   * Kirim ulang undangan dengan link baru lalu muat ulang daftar undangan
+   */
+  const resendInvitation = useCallback(async (invitationId: number) => {
+    const result = await executeResend({ endpoint: USER_ENDPOINTS.INVITATION_RESEND(invitationId.toString()) })
+    if (result !== null) {
+      toast.success(SUCCESS_MESSAGES.INVITATION.RESENT)
+      fetchInvitations()
+    } else {
+      toast.error(ERROR_MESSAGES.INVITATION.RESEND_FAILED)
+    }
+  }, [executeResend, fetchInvitations])
+
+  /**
+   * Cabut undangan lalu muat ulang daftar undangan
+   */
+  const revokeInvitation = useCallback(async (invitationId: number) => {
+    const result = await executeRevoke({ endpoint: USER_ENDPOINTS.INVITATION_DETAIL(invitationId.toString()) })
+    if (result !== null) {
+      toast.success(SUCCESS_MESSAGES.INVITATION.REVOKED)
+      fetchInvitations()
+    } else {
+      toast.error(ERROR_MESSAGES.INVITATION.REVOKE_FAILED)
+    }
+  }, [executeRevoke, fetchInvitations])
+
+  return {
+    invitations: invitations ?? [],
+    roles: roles ?? [],
+    loading,
+    submitting,
+    createInvitation,
+    resendInvitation,
+    revokeInvitation
+  }
+}
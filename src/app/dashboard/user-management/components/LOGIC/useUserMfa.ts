@@ -0,0 +1,69 @@
+"use client"
+
+import { useEffect, useCallback } from 'react'
+import { toast } from 'sonner'
+import { useApiCall } from './hooks'
+import { USER_ENDPOINTS, ERROR_MESSAGES, SUCCESS_MESSAGES, HTTP_METHODS } from './constants'
+
+/**
+ * Interface untuk status MFA user yang dikembalikan dari API
+ */
+export interface UserMfaStatus {
+  enabled: boolean
+  pending: boolean
+  enabledAt: string | null
+  recoveryCodesRemaining: number
+  required: boolean
+}
+
+/**
+ * Custom hook untuk status MFA user dan reset MFA oleh admin
+ * Reset menghapus secret + recovery code dan mengakhiri semua session user
+ */
+export function useUserMfa(userId: string | null) {
+  const {
+    data: mfaStatus,
+    loading,
+    execute: fetchMfaStatus,
+    reset
+  } = useApiCall<UserMfaStatus>({
+    errorMessage: ERROR_MESSAGES.MFA.LOAD_FAILED,
+    transform: (data: { status: UserMfaStatus }) => data.status
+  })
+
+  const { loading: resetting, execute: executeReset } = useApiCall({
+    method: HTTP_METHODS.DELETE,
+    errorMessage: ERROR_MESSAGES.MFA.RESET_FAILED
+  })
+
+  useEffect(() => {
+    if (!userId) {
+      reset()
+      return
+    }
+
+    fetchMfaStatus({ endpoint: USER_ENDPOINTS.USER_MFA(userId) })
+  }, [userId, reset, fetchMfaStatus])
+
+  /**
+   * Reset MFA user lalu muat ulang status
+   */
+  const resetMfa = useCallback(async () => {
+    if (!userId) return
+
+    const result = await executeReset({ endpoint: USER_ENDPOINTS.USER_MFA(userId) })
+    if (result !== null) {
+      toast.success(SUCCESS_MESSAGES.MFA.RESET)
+      fetchMfaStatus({ endpoint: USER_ENDPOINTS.USER_MFA(userId) })
+    } else {
+      toast.error(ERROR_MESSAGES.MFA.RESET_FAILED)
+    }
+  }, [userId, executeReset, fetchMfaStatus])
+
+  return {
+    mfaStatus,
+    loading,
+    resetting,
+    resetMfa
+  }
+}
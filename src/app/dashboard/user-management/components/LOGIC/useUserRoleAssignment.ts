@@ -44,9 +44,17 @@ export interface UserRole {
   id: number
   userId: number
   roleId: number
+  validFrom: string | null
+  validUntil: string | null
+  status: UserRoleStatus
   role: Role
 }
 
+/**
+ * Status masa berlaku role assignment (lihat getRoleAssignmentStatus di services/rbac)
+ */
+export type UserRoleStatus = 'active' | 'scheduled' | 'expired'
+
 /**
  * Service class untuk operasi user role assignment
  * Mengikuti prinsip Single Responsibility Principle (SRP)
@@ -63,12 +71,13 @@ class UserRoleService {
    * Assign role ke user
    * Mengikuti prinsip Single Responsibility Principle (SRP)
    */
-  async assignRole(userId: number, roleId: number, expiryDate?: string) {
+  async assignRole(userId: number, roleId: number, startDate?: string, expiryDate?: string) {
     return await this.assignRoleToUser({
       body: {
         userId,
         roleId,
-        expiresAt: expiryDate || null
+        validFrom: startDate ? new Date(startDate).toISOString() : null,
+        validUntil: expiryDate ? new Date(expiryDate).toISOString() : null
       }
     })
   }
@@ -87,12 +96,12 @@ class UserRoleService {
   }
 
   /**
-   * Load user roles untuk user tertentu
+   * Load user roles untuk user tertentu, termasuk assignment terjadwal dan expired
    * Mengikuti prinsip Single Responsibility Principle (SRP)
    */
   async fetchUserRoles(userId: number) {
     return await this.loadUserRoles({ 
-      endpoint: RBAC_ENDPOINTS.USER_ROLES + `/${userId}` 
+      endpoint: RBAC_ENDPOINTS.USER_ROLES + `/${userId}?includeInactive=true` 
     })
   }
 }
@@ -144,13 +153,13 @@ class DataUtility {
   }
 
   /**
-   * Get available roles untuk assignment (yang belum di-assign)
+   * Get available roles untuk assignment (yang belum di-assign atau assignment-nya sudah expired)
    * Mengikuti prinsip Single Responsibility Principle (SRP)
    */
   static getAvailableRoles(roles: Role[], userRoles: UserRole[]): Role[] {
     if (!Array.isArray(roles) || !Array.isArray(userRoles)) return []
     const assignedRoleIds = userRoles
-      .filter(ur => ur.role)
+      .filter(ur => ur.role && ur.status !== 'expired')
       .map(ur => ur.roleId)
     return roles.filter(role => !assignedRoleIds.includes(role.id))
   }
@@ -166,6 +175,20 @@ class DataUtility {
       day: 'numeric'
     })
   }
+
+  /**
+   * Format date dan jam untuk display masa berlaku assignment
+   * Mengikuti prinsip Single Responsibility Principle (SRP)
+   */
+  static formatDateTime(dateString: string): string {
+    return new Date(dateString).toLocaleString('id-ID', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+  }
 }
 
 /**
@@ -188,6 +211,7 @@ export function useUserRoleAssignment(selectedUserId?: string) {
   const [searchTerm, setSearchTerm] = useState('')
   const [assignDialogOpen, setAssignDialogOpen] = useState(false)
   const [selectedRole, setSelectedRole] = useState('')
+  const [startDate, setStartDate] = useState('')
   const [expiryDate, setExpiryDate] = useState('')
   
   // API calls untuk data fetching
@@ -211,7 +235,8 @@ export function useUserRoleAssignment(selectedUserId?: string) {
     data: userRoles,
     execute: loadUserRoles
   } = useApiCall<UserRole[]>({
-    errorMessage: ERROR_MESSAGES.ROLE.LOAD_FAILED
+    errorMessage: ERROR_MESSAGES.ROLE.LOAD_FAILED,
+    transform: (data) => data?.roles ?? data
   })
   
   // API calls untuk operations
@@ -282,12 +307,14 @@ export function useUserRoleAssignment(selectedUserId?: string) {
       await userRoleService.assignRole(
         parseInt(selectedUser),
         parseInt(selectedRole),
+        startDate,
         expiryDate
       )
       
       await userRoleService.fetchUserRoles(parseInt(selectedUser))
       setAssignDialogOpen(false)
       setSelectedRole('')
+      setStartDate('')
       setExpiryDate('')
       
       toast.success(SUCCESS_MESSAGES.ROLE.ASSIGNED)
@@ -328,6 +355,14 @@ export function useUserRoleAssignment(selectedUserId?: string) {
     return DataUtility.formatDate(dateString)
   }
 
+  /**
+   * Format date dan jam untuk display
+   * Menggunakan utility class untuk operasi data
+   */
+  const formatDateTime = (dateString: string) => {
+    return DataUtility.formatDateTime(dateString)
+  }
+
   /**
    * Refresh all data
    * Mengikuti prinsip Single Responsibility Principle (SRP)
@@ -363,6 +398,7 @@ export function useUserRoleAssignment(selectedUserId?: string) {
     dataLoading,
     assignDialogOpen,
     selectedRole,
+    startDate,
     expiryDate,
     filteredUsers,
     
@@ -371,6 +407,7 @@ export function useUserRoleAssignment(selectedUserId?: string) {
     setSearchTerm,
     setAssignDialogOpen,
     setSelectedRole,
+    setStartDate,
     setExpiryDate,
     
     // Functions
@@ -380,6 +417,7 @@ export function useUserRoleAssignment(selectedUserId?: string) {
     handleAssignRole,
     handleRevokeRole,
     formatDate,
+    formatDateTime,
     refreshData
   }
 }
\ No newline at end of file
@@ -0,0 +1,36 @@
+"use client"
+
+import { useCallback } from 'react'
+import { toast } from 'sonner'
+import { useApiCall } from './hooks'
+import { USER_ENDPOINTS, ERROR_MESSAGES, SUCCESS_MESSAGES, HTTP_METHODS } from './constants'
+
+/**
+ * Custom hook untuk memaksa user sign-out dari semua device oleh admin
+ * Semua session diakhiri dan access token yang sudah terbit langsung ditolak
+ */
+export function useUserSignOut(userId: string | null) {
+  const { loading: signingOut, execute } = useApiCall({
+    method: HTTP_METHODS.POST,
+    errorMessage: ERROR_MESSAGES.SIGN_OUT.FORCE_FAILED
+  })
+
+  /**
+   * Paksa sign-out user
+   */
+  const forceSignOut = useCallback(async () => {
+    if (!userId) return
+
+    const result = await execute({ endpoint: USER_ENDPOINTS.USER_FORCE_SIGN_OUT(userId) })
+    if (result !== null) {
+      toast.success(SUCCESS_MESSAGES.SIGN_OUT.FORCED)
+    } else {
+      toast.error(ERROR_MESSAGES.SIGN_OUT.FORCE_FAILED)
+    }
+  }, [userId, execute])
+
+  return {
+    signingOut,
+    forceSignOut
+  }
+}
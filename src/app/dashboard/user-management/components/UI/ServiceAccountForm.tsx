@@ -0,0 +1,128 @@
+import { useState } from "react"
+import { IconRobot } from "@tabler/icons-react"
+import { Button } from "@/components/shadcn/ui/button"
+import { Checkbox } from "@/components/shadcn/ui/checkbox"
+import { Label } from "@/components/shadcn/ui/label"
+import { BaseFormCard, FormField } from './base'
+import type { Role } from '../LOGIC/useUserRoleAssignment'
+import type { ServiceAccountFormData } from '../LOGIC/useServiceAccounts'
+
+interface ServiceAccountFormProps {
+  roles: Role[]
+  submitting: boolean
+  onSubmit: (formData: ServiceAccountFormData) => Promise<boolean>
+}
+
+const EMPTY_SERVICE_ACCOUNT_FORM: ServiceAccountFormData = {
+  name: '',
+  roleIds: [],
+  department: '',
+  region: ''
+}
+
+/**
+ * Form untuk membuat service account (user non-manusia untuk automation)
+ * Service account tidak memiliki password; akses API memakai personal access token
+ */
+export function ServiceAccountForm({ roles, submitting, onSubmit }: ServiceAccountFormProps) {
+  const [formData, setFormData] = useState<ServiceAccountFormData>(EMPTY_SERVICE_ACCOUNT_FORM)
+
+  const handleInputChange = (field: keyof Omit<ServiceAccountFormData, 'roleIds'>, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }))
+  }
+
+  const toggleRole = (roleId: number, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      roleIds: checked ? [...prev.roleIds, roleId] : prev.roleIds.filter(id => id !== roleId)
+    }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (await onSubmit(formData)) {
+      setFormData(EMPTY_SERVICE_ACCOUNT_FORM)
+    }
+  }
+
+  return (
+    <BaseFormCard
+      title="Create Service Account"
+      description="Akun automation tanpa login password; permission mengikuti role yang ditetapkan"
+      icon={<IconRobot className="h-5 w-5" />}
+    >
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <FormField
+            type="input"
+            id="service-account-name"
+            label="Nama"
+            required={true}
+            value={formData.name}
+            onChange={(value) => handleInputChange('name', value)}
+            placeholder="contoh: CI Deploy Bot"
+            disabled={submitting}
+          />
+          <FormField
+            type="select"
+            id="service-account-department"
+            label="Department"
+            value={formData.department}
+            onChange={(value) => handleInputChange('department', value)}
+            placeholder="Select department"
+            options={[
+              { value: 'IT', label: 'IT' },
+              { value: 'Sales', label: 'Sales' },
+              { value: 'Marketing', label: 'Marketing' },
+              { value: 'Finance', label: 'Finance' },
+              { value: 'HR', label: 'HR' },
+              { value: 'Operations', label: 'Operations' }
+            ]}
+          />
+          <FormField
+            type="select"
+            id="service-account-region"
+            label="Region"
+            value={formData.region}
+            onChange={(value) => handleInputChange('region', value)}
+            placeholder="Select region"
+            options={[
+              { value: 'Jakarta', label: 'Jakarta' },
+              { value: 'Surabaya', label: 'Surabaya' },
+              { value: 'Bandung', label: 'Bandung' },
+              { value: 'Medan', label: 'Medan' },
+              { value: 'Semarang', label: 'Semarang' },
+              { value: 'Yogyakarta', label: 'Yogyakarta' }
+            ]}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Roles</Label>
+          {roles.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Belum ada role</p>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {roles.map((role) => (
+                <label key={role.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={formData.roleIds.includes(role.id)}
+                    onCheckedChange={(checked) => toggleRole(role.id, checked === true)}
+                    disabled={submitting}
+                  />
+                  {role.name}
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={submitting || !formData.name.trim()}>
+            {submitting ? 'Membuat...' : 'Buat Service Account'}
+          </Button>
+        </div>
+      </form>
+    </BaseFormCard>
+  )
+}
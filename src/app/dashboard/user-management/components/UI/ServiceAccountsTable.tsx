@@ -0,0 +1,56 @@
+import { Badge } from "@/components/shadcn/ui/badge"
+import { Button } from "@/components/shadcn/ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/shadcn/ui/table"
+import type { ServiceAccount } from '../LOGIC/useServiceAccounts'
+import { formatDateToIndonesian } from './utils/userDetailUtils'
+
+interface ServiceAccountsTableProps {
+  serviceAccounts: ServiceAccount[]
+  onManageTokens: (userId: string) => void
+}
+
+/**
+ * Tabel service account dengan role dan jumlah access token aktif
+ * Access token dikelola di halaman detail user
+ */
+export function ServiceAccountsTable({ serviceAccounts, onManageTokens }: ServiceAccountsTableProps) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Nama</TableHead>
+          <TableHead>Roles</TableHead>
+          <TableHead>Active Tokens</TableHead>
+          <TableHead>Created</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead>Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {serviceAccounts.map((account) => (
+          <TableRow key={account.id}>
+            <TableCell>
+              <div>{account.name}</div>
+              <div className="text-xs text-muted-foreground">{account.email}</div>
+            </TableCell>
+            <TableCell>
+              {account.roles.length > 0 ? account.roles.map(role => role.name).join(', ') : '-'}
+            </TableCell>
+            <TableCell>{account.activeTokens}</TableCell>
+            <TableCell>{formatDateToIndonesian(account.createdAt)}</TableCell>
+            <TableCell>
+              <Badge variant={account.active ? "default" : "secondary"}>
+                {account.active ? "Active" : "Inactive"}
+              </Badge>
+            </TableCell>
+            <TableCell>
+              <Button variant="outline" size="sm" onClick={() => onManageTokens(account.id.toString())}>
+                Manage Tokens
+              </Button>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
@@ -0,0 +1,224 @@
+import { useState } from "react"
+import { Button } from "@/components/shadcn/ui/button"
+import { Badge } from "@/components/shadcn/ui/badge"
+import { Checkbox } from "@/components/shadcn/ui/checkbox"
+import { Input } from "@/components/shadcn/ui/input"
+import { Label } from "@/components/shadcn/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/shadcn/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/shadcn/ui/table"
+import { IconCopy, IconTicket } from "@tabler/icons-react"
+import { toast } from "sonner"
+import {
+  useUserAccessTokens,
+  type AccessTokenFormData,
+  type AccessTokenScope,
+  type AccessTokenStatus
+} from '../LOGIC/useUserAccessTokens'
+import { formatDateToIndonesian } from './utils/userDetailUtils'
+
+interface UserAccessTokensCardProps {
+  userId: string
+}
+
+const CRUD_ACTIONS = ['create', 'read', 'update', 'delete']
+
+const EMPTY_ACCESS_TOKEN_FORM: AccessTokenFormData = {
+  name: '',
+  expiresInDays: '90',
+  scopes: []
+}
+
+const STATUS_BADGES: Record<AccessTokenStatus, { label: string; variant: "default" | "secondary" | "destructive" }> = {
+  active: { label: 'Active', variant: 'default' },
+  expired: { label: 'Expired', variant: 'secondary' },
+  revoked: { label: 'Revoked', variant: 'destructive' }
+}
+
+/**
+ * Komponen untuk mengelola personal access token user atau service account
+ * Token dibatasi scope feature/action; token plaintext hanya ditampilkan sekali setelah dibuat
+ */
+export function UserAccessTokensCard({ userId }: UserAccessTokensCardProps) {
+  const {
+    accessTokens,
+    features,
+    createdToken,
+    dismissCreatedToken,
+    loading,
+    submitting,
+    createAccessToken,
+    revokeAccessToken
+  } = useUserAccessTokens(userId)
+  const [formData, setFormData] = useState<AccessTokenFormData>(EMPTY_ACCESS_TOKEN_FORM)
+
+  const hasScope = (scope: AccessTokenScope) =>
+    formData.scopes.some(s => s.feature === scope.feature && s.action === scope.action)
+
+  const toggleScope = (scope: AccessTokenScope, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      scopes: checked
+        ? [...prev.scopes, scope]
+        : prev.scopes.filter(s => s.feature !== scope.feature || s.action !== scope.action)
+    }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (await createAccessToken(formData)) {
+      setFormData(EMPTY_ACCESS_TOKEN_FORM)
+    }
+  }
+
+  const copyToken = async () => {
+    if (!createdToken) return
+    await navigator.clipboard.writeText(createdToken)
+    toast.success('Token disalin ke clipboard')
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <IconTicket className="h-5 w-5" />
+          <CardTitle>Personal Access Tokens</CardTitle>
+        </div>
+        <CardDescription>
+          Token API untuk automation, dibatasi scope feature/action dan permission pemiliknya
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {createdToken && (
+          <div className="rounded border border-amber-300 bg-amber-50 p-4 space-y-2">
+            <p className="text-sm font-medium text-amber-800">
+              Salin token sekarang. Token tidak akan ditampilkan lagi.
+            </p>
+            <div className="flex gap-2">
+              <Input readOnly value={createdToken} className="font-mono text-xs" />
+              <Button type="button" variant="outline" size="sm" onClick={copyToken}>
+                <IconCopy className="h-4 w-4" />
+              </Button>
+              <Button type="button" variant="outline" size="sm" onClick={dismissCreatedToken}>
+                Tutup
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="access-token-name">Nama Token</Label>
+              <Input
+                id="access-token-name"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="contoh: nightly-report"
+                disabled={submitting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="access-token-expiry">Masa Berlaku (hari)</Label>
+              <Input
+                id="access-token-expiry"
+                type="number"
+                min={1}
+                value={formData.expiresInDays}
+                onChange={(e) => setFormData(prev => ({ ...prev, expiresInDays: e.target.value }))}
+                disabled={submitting}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Scopes</Label>
+            {features.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Belum ada feature</p>
+            ) : (
+              <div className="space-y-2 max-h-64 overflow-y-auto">
+                {features.map((feature) => (
+                  <div key={feature.id} className="flex flex-wrap items-center gap-3 text-sm">
+                    <span className="w-48 font-medium truncate">{feature.name}</span>
+                    {[...CRUD_ACTIONS, ...feature.actions.map(action => action.name)].map((action) => (
+                      <label key={action} className="flex items-center gap-1">
+                        <Checkbox
+                          checked={hasScope({ feature: feature.name, action })}
+                          onCheckedChange={(checked) => toggleScope({ feature: feature.name, action }, checked === true)}
+                          disabled={submitting}
+                        />
+                        {action}
+                      </label>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={submitting || !formData.name.trim() || formData.scopes.length === 0}>
+              {submitting ? 'Membuat...' : 'Buat Token'}
+            </Button>
+          </div>
+        </form>
+
+        {loading ? (
+          <div className="text-center py-6 text-muted-foreground">
+            <p>Memuat access token...</p>
+          </div>
+        ) : accessTokens.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">
+            <p>Belum ada access token</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nama</TableHead>
+                <TableHead>Scopes</TableHead>
+                <TableHead>Last Used</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {accessTokens.map((token) => (
+                <TableRow key={token.id}>
+                  <TableCell>
+                    <div>{token.name}</div>
+                    <div className="text-xs text-muted-foreground font-mono">{token.tokenPrefix}…</div>
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {token.scopes.map(scope => `${scope.feature}:${scope.action}`).join(', ')}
+                  </TableCell>
+                  <TableCell>
+                    {token.lastUsedAt ? (
+                      <>
+                        <div>{formatDateToIndonesian(token.lastUsedAt)}</div>
+                        {token.lastUsedIp && <div className="text-xs text-muted-foreground">{token.lastUsedIp}</div>}
+                      </>
+                    ) : 'Belum pernah'}
+                  </TableCell>
+                  <TableCell>{formatDateToIndonesian(token.expiresAt)}</TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_BADGES[token.status].variant}>
+                      {STATUS_BADGES[token.status].label}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    {token.status === 'active' && (
+                      <Button variant="destructive" size="sm" onClick={() => revokeAccessToken(token.id)}>
+                        Revoke
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
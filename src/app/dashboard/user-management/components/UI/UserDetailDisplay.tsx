@@ -3,6 +3,9 @@ import { UserDetailStates } from './UserDetailStates'
 import { UserProfileCard } from './UserProfileCard'
 import { UserRolesCard } from './UserRolesCard'
 import { UserPermissionsCard } from './UserPermissionsCard'
+import { UserMfaCard } from './UserMfaCard'
+import { UserSignOutCard } from './UserSignOutCard'
+import { UserAccessTokensCard } from './UserAccessTokensCard'
 
 interface UserDetailDisplayProps {
   userDetail: UserDetail | null
@@ -53,6 +56,15 @@ export function UserDetailDisplay({
 
       {/* User Permissions Information */}
       <UserPermissionsCard userDetail={userDetail} />
+
+      {/* User MFA Information */}
+      <UserMfaCard userId={userId} />
+
+      {/* Force Sign-out */}
+      <UserSignOutCard userId={userId} />
+
+      {/* User Personal Access Tokens */}
+      <UserAccessTokensCard userId={userId} />
     </div>
   )
 }
\ No newline at end of file
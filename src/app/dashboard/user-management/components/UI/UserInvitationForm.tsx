@@ -0,0 +1,157 @@
+import { useState } from "react"
+import { IconMailForward } from "@tabler/icons-react"
+import { Button } from "@/components/shadcn/ui/button"
+import { Checkbox } from "@/components/shadcn/ui/checkbox"
+import { Input } from "@/components/shadcn/ui/input"
+import { Label } from "@/components/shadcn/ui/label"
+import { BaseFormCard, FormField } from './base'
+import type { Role } from '../LOGIC/useUserRoleAssignment'
+import type { UserInvitationFormData } from '../LOGIC/useUserInvitations'
+
+interface UserInvitationFormProps {
+  roles: Role[]
+  submitting: boolean
+  onSubmit: (formData: UserInvitationFormData) => Promise<boolean>
+}
+
+const EMPTY_INVITATION_FORM: UserInvitationFormData = {
+  email: '',
+  name: '',
+  roleIds: [],
+  department: '',
+  region: '',
+  level: ''
+}
+
+/**
+ * Form untuk mengundang user baru lewat email
+ * Role dan ABAC attributes ditetapkan admin dan diterapkan saat undangan diterima
+ */
+export function UserInvitationForm({ roles, submitting, onSubmit }: UserInvitationFormProps) {
+  const [formData, setFormData] = useState<UserInvitationFormData>(EMPTY_INVITATION_FORM)
+
+  const handleInputChange = (field: keyof Omit<UserInvitationFormData, 'roleIds'>, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }))
+  }
+
+  const toggleRole = (roleId: number, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      roleIds: checked ? [...prev.roleIds, roleId] : prev.roleIds.filter(id => id !== roleId)
+    }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (await onSubmit(formData)) {
+      setFormData(EMPTY_INVITATION_FORM)
+    }
+  }
+
+  return (
+    <BaseFormCard
+      title="Invite User"
+      description="Kirim link undangan; invitee menentukan nama dan password sendiri"
+      icon={<IconMailForward className="h-5 w-5" />}
+    >
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            type="input"
+            inputType="email"
+            id="invitation-email"
+            label="Email"
+            required={true}
+            value={formData.email}
+            onChange={(value) => handleInputChange('email', value)}
+            placeholder="user@example.com"
+            disabled={submitting}
+          />
+          <FormField
+            type="input"
+            id="invitation-name"
+            label="Nama"
+            value={formData.name}
+            onChange={(value) => handleInputChange('name', value)}
+            placeholder="Opsional, dapat diubah invitee"
+            disabled={submitting}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <FormField
+            type="select"
+            id="invitation-department"
+            label="Department"
+            value={formData.department}
+            onChange={(value) => handleInputChange('department', value)}
+            placeholder="Select department"
+            options={[
+              { value: 'IT', label: 'IT' },
+              { value: 'Sales', label: 'Sales' },
+              { value: 'Marketing', label: 'Marketing' },
+              { value: 'Finance', label: 'Finance' },
+              { value: 'HR', label: 'HR' },
+              { value: 'Operations', label: 'Operations' }
+            ]}
+          />
+          <FormField
+            type="select"
+            id="invitation-region"
+            label="Region"
+            value={formData.region}
+            onChange={(value) => handleInputChange('region', value)}
+            placeholder="Select region"
+            options={[
+              { value: 'Jakarta', label: 'Jakarta' },
+              { value: 'Surabaya', label: 'Surabaya' },
+              { value: 'Bandung', label: 'Bandung' },
+              { value: 'Medan', label: 'Medan' },
+              { value: 'Semarang', label: 'Semarang' },
+              { value: 'Yogyakarta', label: 'Yogyakarta' }
+            ]}
+          />
+          <div className="space-y-2">
+            <Label htmlFor="invitation-level">Level</Label>
+            <Input
+              id="invitation-level"
+              type="number"
+              min={1}
+              max={10}
+              value={formData.level}
+              onChange={(e) => handleInputChange('level', e.target.value)}
+              placeholder="1 - 10"
+              disabled={submitting}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Roles</Label>
+          {roles.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Belum ada role</p>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {roles.map((role) => (
+                <label key={role.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={formData.roleIds.includes(role.id)}
+                    onCheckedChange={(checked) => toggleRole(role.id, checked === true)}
+                    disabled={submitting}
+                  />
+                  {role.name}
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={submitting || !formData.email.trim()}>
+            {submitting ? 'Mengirim...' : 'Kirim Undangan'}
+          </Button>
+        </div>
+      </form>
+    </BaseFormCard>
+  )
+}
@@ -0,0 +1,71 @@
+import { Badge } from "@/components/shadcn/ui/badge"
+import { Button } from "@/components/shadcn/ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/shadcn/ui/table"
+import type { UserInvitation, UserInvitationStatus } from '../LOGIC/useUserInvitations'
+import { formatDateToIndonesian } from './utils/userDetailUtils'
+
+interface UserInvitationsTableProps {
+  invitations: UserInvitation[]
+  onResend: (invitationId: number) => void
+  onRevoke: (invitationId: number) => void
+}
+
+const STATUS_BADGES: Record<UserInvitationStatus, { label: string; variant: "default" | "secondary" | "outline" | "destructive" }> = {
+  pending: { label: 'Pending', variant: 'outline' },
+  accepted: { label: 'Accepted', variant: 'default' },
+  expired: { label: 'Expired', variant: 'secondary' },
+  revoked: { label: 'Revoked', variant: 'destructive' }
+}
+
+/**
+ * Tabel undangan user dengan status dan aksi kirim ulang / cabut
+ * Undangan expired dapat dikirim ulang; undangan yang diterima atau dicabut tidak dapat diubah
+ */
+export function UserInvitationsTable({ invitations, onResend, onRevoke }: UserInvitationsTableProps) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Email</TableHead>
+          <TableHead>Roles</TableHead>
+          <TableHead>Invited By</TableHead>
+          <TableHead>Expires</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead>Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {invitations.map((invitation) => (
+          <TableRow key={invitation.id}>
+            <TableCell>
+              <div>{invitation.email}</div>
+              {invitation.name && <div className="text-xs text-muted-foreground">{invitation.name}</div>}
+            </TableCell>
+            <TableCell>
+              {invitation.roles.length > 0 ? invitation.roles.map(role => role.name).join(', ') : '-'}
+            </TableCell>
+            <TableCell>{invitation.invitedByUser?.name || '-'}</TableCell>
+            <TableCell>{formatDateToIndonesian(invitation.expiresAt)}</TableCell>
+            <TableCell>
+              <Badge variant={STATUS_BADGES[invitation.status].variant}>
+                {STATUS_BADGES[invitation.status].label}
+              </Badge>
+            </TableCell>
+            <TableCell>
+              {(invitation.status === 'pending' || invitation.status === 'expired') && (
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => onResend(invitation.id)}>
+                    Resend
+                  </Button>
+                  <Button variant="destructive" size="sm" onClick={() => onRevoke(invitation.id)}>
+                    Revoke
+                  </Button>
+                </div>
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
@@ -0,0 +1,104 @@
+import { Button } from "@/components/shadcn/ui/button"
+import { Badge } from "@/components/shadcn/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/shadcn/ui/card"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/shadcn/ui/alert-dialog"
+import { IconKey } from "@tabler/icons-react"
+import { useUserMfa } from '../LOGIC/useUserMfa'
+import { formatDateToIndonesian } from './utils/userDetailUtils'
+
+interface UserMfaCardProps {
+  userId: string
+}
+
+/**
+ * Komponen untuk menampilkan status MFA user dan reset MFA oleh admin
+ * Reset dipakai saat user kehilangan authenticator app dan recovery code
+ */
+export function UserMfaCard({ userId }: UserMfaCardProps) {
+  const { mfaStatus, loading, resetting, resetMfa } = useUserMfa(userId)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <IconKey className="h-5 w-5" />
+            <CardTitle>Multi-Factor Authentication</CardTitle>
+          </div>
+          {mfaStatus && (
+            <div className="flex gap-2">
+              {mfaStatus.required && <Badge variant="outline">Diwajibkan role</Badge>}
+              <Badge variant={mfaStatus.enabled ? "default" : "secondary"}>
+                {mfaStatus.enabled ? "Aktif" : "Tidak aktif"}
+              </Badge>
+            </div>
+          )}
+        </div>
+        <CardDescription>
+          Status enrollment TOTP dan recovery code user
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading || !mfaStatus ? (
+          <div className="text-center py-6 text-muted-foreground">
+            <p>Memuat status MFA...</p>
+          </div>
+        ) : (
+          <div className="flex items-center justify-between">
+            <div className="text-sm text-muted-foreground space-y-1">
+              {mfaStatus.enabled ? (
+                <>
+                  <p>Diaktifkan: {mfaStatus.enabledAt ? formatDateToIndonesian(mfaStatus.enabledAt) : '-'}</p>
+                  <p>Sisa recovery code: {mfaStatus.recoveryCodesRemaining}</p>
+                </>
+              ) : (
+                <p>
+                  {mfaStatus.pending
+                    ? 'Enrollment dimulai tetapi belum dikonfirmasi'
+                    : 'User belum mendaftarkan MFA'}
+                </p>
+              )}
+            </div>
+            {(mfaStatus.enabled || mfaStatus.pending) && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="destructive" disabled={resetting}>
+                    Reset MFA
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Reset MFA</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Secret authenticator dan semua recovery code user akan dihapus, dan semua session
+                      user diakhiri. User harus login ulang dan mendaftarkan MFA kembali.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Batal</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={resetMfa}
+                      className="bg-red-600 hover:bg-red-700"
+                    >
+                      Reset
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
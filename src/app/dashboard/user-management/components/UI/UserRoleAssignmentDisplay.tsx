@@ -8,7 +8,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/shadcn/ui/dialog'
 import { Label } from '@/components/shadcn/ui/label'
 import { Loader2, Plus, Trash2, Search } from 'lucide-react'
-import { User, Role, UserRole } from '../LOGIC/useUserRoleAssignment'
+import { User, Role, UserRole, UserRoleStatus } from '../LOGIC/useUserRoleAssignment'
 
 /**
  * Props untuk UserRoleAssignmentDisplay component
@@ -24,6 +24,7 @@ interface UserRoleAssignmentDisplayProps {
   dataLoading: boolean
   assignDialogOpen: boolean
   selectedRole: string
+  startDate: string
   expiryDate: string
   filteredUsers: User[]
   
@@ -32,6 +33,7 @@ interface UserRoleAssignmentDisplayProps {
   setSearchTerm: (term: string) => void
   setAssignDialogOpen: (open: boolean) => void
   setSelectedRole: (roleId: string) => void
+  setStartDate: (date: string) => void
   setExpiryDate: (date: string) => void
   
   // Functions
@@ -41,6 +43,14 @@ interface UserRoleAssignmentDisplayProps {
   handleAssignRole: () => Promise<void>
   handleRevokeRole: (userRoleId: number, roleId: number) => Promise<void>
   formatDate: (dateString: string) => string
+  formatDateTime: (dateString: string) => string
+}
+
+// Badge untuk status masa berlaku role assignment
+const ASSIGNMENT_STATUS_BADGES: Record<UserRoleStatus, { label: string; variant: 'secondary' | 'outline' | 'destructive' }> = {
+  active: { label: 'Active', variant: 'secondary' },
+  scheduled: { label: 'Scheduled', variant: 'outline' },
+  expired: { label: 'Expired', variant: 'destructive' }
 }
 
 /**
@@ -57,19 +67,21 @@ export function UserRoleAssignmentDisplay({
   dataLoading,
   assignDialogOpen,
   selectedRole,
+  startDate,
   expiryDate,
   filteredUsers,
   setSelectedUser,
   setSearchTerm,
   setAssignDialogOpen,
   setSelectedRole,
+  setStartDate,
   setExpiryDate,
   getRoleName,
   getUserName,
   getAvailableRoles,
   handleAssignRole,
   handleRevokeRole,
-  formatDate
+  formatDateTime
 }: UserRoleAssignmentDisplayProps) {
   
   if (dataLoading) {
@@ -150,7 +162,8 @@ export function UserRoleAssignmentDisplay({
                 <TableHeader>
                   <TableRow>
                     <TableHead>Role</TableHead>
-                    <TableHead>Assigned Date</TableHead>
+                    <TableHead>Valid From</TableHead>
+                    <TableHead>Expires</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
@@ -162,10 +175,15 @@ export function UserRoleAssignmentDisplay({
                         {userRole.role?.name || getRoleName(userRole.roleId)}
                       </TableCell>
                       <TableCell>
-                        {userRole.role?.createdAt ? formatDate(userRole.role.createdAt) : 'N/A'}
+                        {userRole.validFrom ? formatDateTime(userRole.validFrom) : 'Immediately'}
                       </TableCell>
                       <TableCell>
-                        <Badge variant="secondary">Active</Badge>
+                        {userRole.validUntil ? formatDateTime(userRole.validUntil) : 'Never'}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={ASSIGNMENT_STATUS_BADGES[userRole.status ?? 'active'].variant}>
+                          {ASSIGNMENT_STATUS_BADGES[userRole.status ?? 'active'].label}
+                        </Badge>
                       </TableCell>
                       <TableCell className="text-right">
                         <Button
@@ -222,14 +240,31 @@ export function UserRoleAssignmentDisplay({
               </Select>
             </div>
             
+            <div className="space-y-2">
+              <Label htmlFor="start">Start Date (Optional)</Label>
+              <Input
+                id="start"
+                type="datetime-local"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+              />
+              <p className="text-sm text-muted-foreground">
+                Leave empty to grant the role immediately
+              </p>
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="expiry">Expiry Date (Optional)</Label>
               <Input
                 id="expiry"
-                type="date"
+                type="datetime-local"
                 value={expiryDate}
+                min={startDate || undefined}
                 onChange={(e) => setExpiryDate(e.target.value)}
               />
+              <p className="text-sm text-muted-foreground">
+                The role is revoked automatically once it expires
+              </p>
             </div>
           </div>
           
@@ -239,6 +274,7 @@ export function UserRoleAssignmentDisplay({
               onClick={() => {
                 setAssignDialogOpen(false)
                 setSelectedRole('')
+                setStartDate('')
                 setExpiryDate('')
               }}
             >
@@ -0,0 +1,73 @@
+import { Button } from "@/components/shadcn/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/shadcn/ui/card"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/shadcn/ui/alert-dialog"
+import { IconLogout } from "@tabler/icons-react"
+import { useUserSignOut } from '../LOGIC/useUserSignOut'
+
+interface UserSignOutCardProps {
+  userId: string
+}
+
+/**
+ * Komponen untuk memaksa user sign-out dari semua device
+ * Dipakai saat akun dicurigai disalahgunakan atau akses user harus segera dihentikan
+ */
+export function UserSignOutCard({ userId }: UserSignOutCardProps) {
+  const { signingOut, forceSignOut } = useUserSignOut(userId)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <IconLogout className="h-5 w-5" />
+          <CardTitle>Session & Token</CardTitle>
+        </div>
+        <CardDescription>
+          Akhiri semua session user dan cabut access token yang sudah terbit
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            User harus login ulang di semua device setelah dipaksa sign-out
+          </p>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="destructive" disabled={signingOut}>
+                Paksa Sign-out
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Paksa Sign-out</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Semua session user diakhiri dan access token yang sudah terbit langsung ditolak.
+                  Personal access token tidak terpengaruh.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Batal</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={forceSignOut}
+                  className="bg-red-600 hover:bg-red-700"
+                >
+                  Sign-out
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
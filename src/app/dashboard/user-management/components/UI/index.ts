@@ -7,6 +7,8 @@ export { UserBasicInfoForm } from './UserBasicInfoForm'
 export { UserPasswordForm } from './UserPasswordForm'
 export { UserRoleAssignmentForm } from './UserRoleAssignmentForm'
 export { UserAbacAttributesForm } from './UserAbacAttributesForm'
+export { UserInvitationForm } from './UserInvitationForm'
+export { ServiceAccountForm } from './ServiceAccountForm'
 
 // Display components
 export { UserDetailDisplay } from './UserDetailDisplay'
@@ -14,9 +16,14 @@ export { UserDetailStates } from './UserDetailStates'
 export { UserProfileCard } from './UserProfileCard'
 export { UserRolesCard } from './UserRolesCard'
 export { UserPermissionsCard } from './UserPermissionsCard'
+export { UserMfaCard } from './UserMfaCard'
+export { UserSignOutCard } from './UserSignOutCard'
+export { UserAccessTokensCard } from './UserAccessTokensCard'
 export { UserCreateEditDisplay } from './UserCreateEditDisplay'
 export { UserRoleAssignmentDisplay } from './UserRoleAssignmentDisplay'
 export { UserListTable } from './UserListTable'
+export { UserInvitationsTable } from './UserInvitationsTable'
+export { ServiceAccountsTable } from './ServiceAccountsTable'
 
 // Shared types
 export type * from './types/FormTypes'
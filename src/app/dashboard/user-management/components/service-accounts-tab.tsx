@@ -0,0 +1,51 @@
+"use client"
+
+import React from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/shadcn/ui/card"
+import { useServiceAccounts } from "./LOGIC/useServiceAccounts"
+import { ServiceAccountForm } from "./UI/ServiceAccountForm"
+import { ServiceAccountsTable } from "./UI/ServiceAccountsTable"
+
+interface ServiceAccountsTabProps {
+  onManageTokens: (userId: string) => void
+}
+
+/**
+ * Komponen untuk membuat dan memantau service account
+ * Personal access token service account dikelola di tab User Detail
+ */
+export function ServiceAccountsTab({ onManageTokens }: ServiceAccountsTabProps) {
+  const {
+    serviceAccounts,
+    roles,
+    loading,
+    submitting,
+    createServiceAccount
+  } = useServiceAccounts()
+
+  return (
+    <div className="space-y-6">
+      <ServiceAccountForm roles={roles} submitting={submitting} onSubmit={createServiceAccount} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Service Accounts</CardTitle>
+          <CardDescription>Akun automation beserta role dan access token aktif</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-6 text-muted-foreground">
+              <p>Memuat service account...</p>
+            </div>
+          ) : serviceAccounts.length === 0 ? (
+            <div className="text-center py-6 text-muted-foreground">
+              <p>Belum ada service account</p>
+            </div>
+          ) : (
+            <ServiceAccountsTable serviceAccounts={serviceAccounts} onManageTokens={onManageTokens} />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,73 @@
+"use client"
+
+import React, { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/shadcn/ui/card"
+import { Tabs, TabsList, TabsTrigger } from "@/components/shadcn/ui/tabs"
+import { useUserInvitations, type UserInvitationStatus } from "./LOGIC/useUserInvitations"
+import { UserInvitationForm } from "./UI/UserInvitationForm"
+import { UserInvitationsTable } from "./UI/UserInvitationsTable"
+
+type InvitationFilter = 'all' | UserInvitationStatus
+
+/**
+ * Komponen untuk mengundang user dan memantau undangan
+ * Menampilkan undangan pending, accepted, expired, dan revoked
+ */
+export function UserInvitationsTab() {
+  const [filter, setFilter] = useState<InvitationFilter>('pending')
+  const {
+    invitations,
+    roles,
+    loading,
+    submitting,
+    createInvitation,
+    resendInvitation,
+    revokeInvitation
+  } = useUserInvitations()
+
+  const filteredInvitations = filter === 'all'
+    ? invitations
+    : invitations.filter(invitation => invitation.status === filter)
+
+  return (
+    <div className="space-y-6">
+      <UserInvitationForm roles={roles} submitting={submitting} onSubmit={createInvitation} />
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Invitations</CardTitle>
+              <CardDescription>Undangan yang sudah dikirim dan statusnya</CardDescription>
+            </div>
+            <Tabs value={filter} onValueChange={(value) => setFilter(value as InvitationFilter)}>
+              <TabsList>
+                <TabsTrigger value="pending">Pending</TabsTrigger>
+                <TabsTrigger value="accepted">Accepted</TabsTrigger>
+                <TabsTrigger value="expired">Expired</TabsTrigger>
+                <TabsTrigger value="all">All</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-6 text-muted-foreground">
+              <p>Memuat undangan...</p>
+            </div>
+          ) : filteredInvitations.length === 0 ? (
+            <div className="text-center py-6 text-muted-foreground">
+              <p>Tidak ada undangan</p>
+            </div>
+          ) : (
+            <UserInvitationsTable
+              invitations={filteredInvitations}
+              onResend={resendInvitation}
+              onRevoke={revokeInvitation}
+            />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -6,10 +6,12 @@ import { UserListTab } from "./user-list-tab"
 import { UserDetailTab } from "./user-detail-tab"
 import { UserCreateEditTab } from "./user-create-edit-tab"
 import { UserRoleAssignmentTab } from "./user-role-assignment-tab"
+import { UserInvitationsTab } from "./user-invitations-tab"
+import { ServiceAccountsTab } from "./service-accounts-tab"
 
 /**
  * Komponen tabs untuk User Management
- * Mengelola navigasi antar tab: User List, User Detail, User Create/Edit, User Role Assignment
+ * Mengelola navigasi antar tab: User List, User Detail, User Create/Edit, User Role Assignment, Invitations, Service Accounts
  */
 export function UserManagementTabs() {
   const [activeTab, setActiveTab] = useState("user-list")
@@ -56,13 +58,15 @@ export function UserManagementTabs() {
 
   return (
     <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-      <TabsList className="grid w-full grid-cols-4">
+      <TabsList className="grid w-full grid-cols-6">
         <TabsTrigger value="user-list">User List</TabsTrigger>
         <TabsTrigger value="user-detail">User Detail</TabsTrigger>
         <TabsTrigger value="user-create-edit">
           {editMode === 'create' ? 'Create User' : 'Edit User'}
         </TabsTrigger>
         <TabsTrigger value="user-role-assignment">Role Assignment</TabsTrigger>
+        <TabsTrigger value="user-invitations">Invitations</TabsTrigger>
+        <TabsTrigger value="service-accounts">Service Accounts</TabsTrigger>
       </TabsList>
 
       <TabsContent value="user-list" className="mt-6">
@@ -95,6 +99,14 @@ export function UserManagementTabs() {
           selectedUserId={selectedUserId || undefined}
         />
       </TabsContent>
+
+      <TabsContent value="user-invitations" className="mt-6">
+        <UserInvitationsTab />
+      </TabsContent>
+
+      <TabsContent value="service-accounts" className="mt-6">
+        <ServiceAccountsTab onManageTokens={handleUserSelect} />
+      </TabsContent>
     </Tabs>
   )
 }
\ No newline at end of file
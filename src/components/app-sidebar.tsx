@@ -17,6 +17,7 @@ import {
   IconPuzzle,
   IconReport,
   IconRoute,
+  IconScale,
   IconSearch,
   IconSettings,
   IconShield,
@@ -60,6 +61,26 @@ const data = {
       url: "/dashboard/role-management",
       icon: IconShield,
     },
+    {
+      title: "Access Requests",
+      url: "/dashboard/access-requests",
+      icon: IconFileDescription,
+    },
+    {
+      title: "Access Reviews",
+      url: "/dashboard/access-reviews",
+      icon: IconListDetails,
+    },
+    {
+      title: "Separation of Duties",
+      url: "/dashboard/separation-of-duties",
+      icon: IconScale,
+    },
+    {
+      title: "Access Explainer",
+      url: "/dashboard/access-explainer",
+      icon: IconSearch,
+    },
     {
       title: "Feature Management",
       url: "/dashboard/feature-management",
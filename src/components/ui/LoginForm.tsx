@@ -1,12 +1,13 @@
 "use client";
 
 import React, { useState } from "react";
-import { useAuth } from "@/contexts/AuthContext";
+import { useAuth, type MfaLoginChallenge } from "@/contexts/AuthContext";
 import { Button } from "./Button";
 import { Input } from "./Input";
 import { Card, CardHeader, CardContent } from "./Card";
 import { RateLimitNotification, isRateLimitError } from "./RateLimitNotification";
 import { InvalidLoginNotification, isInvalidLoginError } from "./InvalidLoginNotification";
+import { SessionLimitNotification, isSessionLimitError } from "./SessionLimitNotification";
 
 /**
  * Props untuk LoginForm component
@@ -21,13 +22,15 @@ interface LoginFormProps {
  * Mengikuti prinsip Single Responsibility - hanya menangani UI dan input handling
  */
 export function LoginForm({ onSuccess, onSwitchToRegister }: LoginFormProps) {
-  const { login, isLoading } = useAuth();
+  const { login, verifyMfaLogin, isLoading } = useAuth();
   const [formData, setFormData] = useState({
     email: "",
     password: "",
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [submitError, setSubmitError] = useState<string>("");
+  const [mfaChallenge, setMfaChallenge] = useState<MfaLoginChallenge | null>(null);
+  const [mfaCode, setMfaCode] = useState("");
 
   /**
    * Handler untuk perubahan input form
@@ -80,13 +83,28 @@ export function LoginForm({ onSuccess, onSwitchToRegister }: LoginFormProps) {
    */
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    // Langkah kedua: verifikasi kode MFA
+    if (mfaChallenge) {
+      try {
+        await verifyMfaLogin(mfaChallenge.challengeToken, mfaCode.trim());
+        onSuccess?.();
+      } catch (error) {
+        setSubmitError(error instanceof Error ? error.message : "Verifikasi MFA gagal");
+      }
+      return;
+    }
     
     if (!validateForm()) {
       return;
     }
     
     try {
-      await login(formData.email, formData.password);
+      const challenge = await login(formData.email, formData.password);
+      if (challenge) {
+        setMfaChallenge(challenge);
+        return;
+      }
       onSuccess?.();
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : "Login gagal";
@@ -112,6 +130,8 @@ export function LoginForm({ onSuccess, onSwitchToRegister }: LoginFormProps) {
                   <RateLimitNotification message={submitError} />
                 ) : isInvalidLoginError(submitError) ? (
                   <InvalidLoginNotification message={submitError} />
+                ) : isSessionLimitError(submitError) ? (
+                  <SessionLimitNotification message={submitError} />
                 ) : (
                   <div className="p-4 bg-red-50 border border-red-200 text-red-700 rounded-lg flex items-center gap-3">
                     <svg className="h-5 w-5 text-red-500 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
@@ -124,41 +144,81 @@ export function LoginForm({ onSuccess, onSwitchToRegister }: LoginFormProps) {
             )}
             
             <form onSubmit={handleSubmit} className="space-y-5">
-              {/* Email Input */}
-              <Input
-                type="email"
-                name="email"
-                label="Email"
-                value={formData.email}
-                onChange={handleInputChange}
-                error={errors.email}
-                placeholder="Masukkan email Anda"
-                disabled={isLoading}
-                leftIcon={
-                  <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 12a4 4 0 10-8 0 4 4 0 008 0zm0 0v1.5a2.5 2.5 0 005 0V12a9 9 0 10-9 9m4.5-1.206a8.959 8.959 0 01-4.5 1.207" />
-                  </svg>
-                }
-                fullWidth
-              />
+              {mfaChallenge ? (
+                <div className="space-y-3">
+                  {/* MFA Code Input */}
+                  <Input
+                    type="text"
+                    name="mfaCode"
+                    label="Kode Verifikasi"
+                    value={mfaCode}
+                    onChange={(e) => {
+                      setMfaCode(e.target.value);
+                      setSubmitError("");
+                    }}
+                    placeholder="Kode 6 digit atau recovery code"
+                    autoComplete="one-time-code"
+                    disabled={isLoading}
+                    fullWidth
+                  />
+                  <p className="text-sm text-gray-600">
+                    Masukkan kode dari authenticator app Anda, atau salah satu recovery code.
+                  </p>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setMfaChallenge(null);
+                      setMfaCode("");
+                      setSubmitError("");
+                    }}
+                    disabled={isLoading}
+                    className="p-0 h-auto text-blue-600 hover:text-blue-800"
+                  >
+                    Kembali ke login
+                  </Button>
+                </div>
+              ) : (
+                <>
+                  {/* Email Input */}
+                  <Input
+                    type="email"
+                    name="email"
+                    label="Email"
+                    value={formData.email}
+                    onChange={handleInputChange}
+                    error={errors.email}
+                    placeholder="Masukkan email Anda"
+                    disabled={isLoading}
+                    leftIcon={
+                      <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 12a4 4 0 10-8 0 4 4 0 008 0zm0 0v1.5a2.5 2.5 0 005 0V12a9 9 0 10-9 9m4.5-1.206a8.959 8.959 0 01-4.5 1.207" />
+                      </svg>
+                    }
+                    fullWidth
+                  />
               
-              {/* Password Input */}
-              <Input
-                type="password"
-                name="password"
-                label="Password"
-                value={formData.password}
-                onChange={handleInputChange}
-                error={errors.password}
-                placeholder="Masukkan password Anda"
-                disabled={isLoading}
-                leftIcon={
-                  <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
-                  </svg>
-                }
-                fullWidth
-              />
+                  {/* Password Input */}
+                  <Input
+                    type="password"
+                    name="password"
+                    label="Password"
+                    value={formData.password}
+                    onChange={handleInputChange}
+                    error={errors.password}
+                    placeholder="Masukkan password Anda"
+                    disabled={isLoading}
+                    leftIcon={
+                      <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+                      </svg>
+                    }
+                    fullWidth
+                  />
+              
+                </>
+              )}
               
               {/* Submit Button */}
               <Button
@@ -169,7 +229,7 @@ export function LoginForm({ onSuccess, onSwitchToRegister }: LoginFormProps) {
                 fullWidth
                 className="mt-6"
               >
-                Masuk
+                {mfaChallenge ? "Verifikasi" : "Masuk"}
               </Button>
             </form>
             
@@ -0,0 +1,276 @@
+"use client";
+
+import * as React from "react";
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { api } from "@/lib/apiClient";
+import { TokenService } from "@/lib/auth/tokenService";
+import { Card, CardHeader, CardContent } from "./Card";
+import { Input } from "./Input";
+import { Button } from "./Button";
+import { Badge } from "./Badge";
+
+/**
+ * Interface untuk status MFA dari /api/profile/mfa
+ */
+interface MfaStatus {
+  enabled: boolean;
+  pending: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  required: boolean;
+}
+
+/**
+ * Interface untuk data enrollment (secret dan otpauth:// URI)
+ */
+interface MfaEnrollment {
+  secret: string;
+  provisioningUri: string;
+  issuer: string;
+  accountName: string;
+}
+
+/**
+ * Aksi yang sedang menunggu konfirmasi kode
+ */
+type MfaCodeAction = 'enable' | 'regenerate' | 'disable';
+
+/**
+ * Card pengaturan multi-factor authentication (TOTP) di halaman profil
+ * Menangani enrollment, recovery code, dan menonaktifkan MFA
+ */
+export function MfaSettingsCard() {
+  const { user, refreshToken } = useAuth();
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<MfaEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [codeAction, setCodeAction] = useState<MfaCodeAction | null>(null);
+  const [code, setCode] = useState("");
+  const [error, setError] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  /**
+   * Load status MFA user
+   */
+  const loadStatus = useCallback(async () => {
+    try {
+      const response = await api.get<{ status: MfaStatus }>('/profile/mfa');
+      setStatus(response.data?.status ?? null);
+    } catch (error) {
+      console.error('Error loading MFA status:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user?.id) {
+      loadStatus();
+    }
+  }, [user?.id, loadStatus]);
+
+  /**
+   * Reset form kode
+   */
+  const resetCodeForm = () => {
+    setCodeAction(null);
+    setCode("");
+    setError("");
+  };
+
+  /**
+   * Mulai enrollment: tampilkan secret untuk authenticator app
+   */
+  const handleStartEnrollment = async () => {
+    try {
+      setIsSubmitting(true);
+      setError("");
+      setRecoveryCodes([]);
+      const response = await api.post<{ enrollment: MfaEnrollment }>('/profile/mfa');
+      setEnrollment(response.data?.enrollment ?? null);
+      setCodeAction('enable');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Gagal memulai enrollment MFA");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Submit kode untuk aksi yang dipilih (aktifkan, buat ulang recovery code, nonaktifkan)
+   */
+  const handleSubmitCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!codeAction || !code.trim()) {
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError("");
+
+      if (codeAction === 'enable') {
+        const response = await api.post<{
+          recoveryCodes: string[];
+          accessToken: string | null;
+          refreshToken: string | null;
+        }>('/profile/mfa/enable', { code: code.trim() });
+        setRecoveryCodes(response.data?.recoveryCodes ?? []);
+        setEnrollment(null);
+
+        // Session di-upgrade server: simpan token baru lalu sinkronkan state auth
+        if (response.data?.accessToken && response.data.refreshToken) {
+          TokenService.setTokens({
+            accessToken: response.data.accessToken,
+            refreshToken: response.data.refreshToken,
+            expiresAt: TokenService.getTokenExpiration(response.data.accessToken) || undefined
+          });
+          await refreshToken();
+        }
+      } else if (codeAction === 'regenerate') {
+        const response = await api.post<{ recoveryCodes: string[] }>('/profile/mfa/recovery-codes', { code: code.trim() });
+        setRecoveryCodes(response.data?.recoveryCodes ?? []);
+      } else {
+        await api.post('/profile/mfa/disable', { code: code.trim() });
+        setRecoveryCodes([]);
+      }
+
+      resetCodeForm();
+      await loadStatus();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Kode MFA tidak valid");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!status) {
+    return null;
+  }
+
+  return (
+    <Card variant="elevated" padding="lg">
+      <CardHeader
+        title="Multi-Factor Authentication"
+        subtitle="Lindungi akun dengan kode dari authenticator app (TOTP)"
+        action={
+          <div className="flex items-center gap-2">
+            {status.required && (
+              <Badge variant="warning" size="sm">Diwajibkan role</Badge>
+            )}
+            <Badge variant={status.enabled ? "success" : "default"} size="sm">
+              {status.enabled ? "Aktif" : "Tidak aktif"}
+            </Badge>
+          </div>
+        }
+      />
+      <CardContent>
+        <div className="space-y-4">
+          {error && (
+            <div className="p-3 bg-red-100 border border-red-400 text-red-700 rounded">
+              {error}
+            </div>
+          )}
+
+          {status.required && !status.enabled && (
+            <div className="p-3 bg-yellow-50 border border-yellow-300 text-yellow-800 rounded text-sm">
+              Role Anda mewajibkan MFA. Aktifkan MFA untuk dapat mengakses fitur aplikasi.
+            </div>
+          )}
+
+          {recoveryCodes.length > 0 && (
+            <div className="p-4 bg-gray-50 border border-gray-200 rounded space-y-2">
+              <p className="text-sm font-medium text-gray-800">
+                Simpan recovery code berikut di tempat yang aman. Setiap code hanya dapat dipakai sekali
+                dan tidak akan ditampilkan lagi.
+              </p>
+              <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+                {recoveryCodes.map((recoveryCode) => (
+                  <span key={recoveryCode} className="bg-white px-2 py-1 rounded border">
+                    {recoveryCode}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {enrollment && (
+            <div className="space-y-2 text-sm text-gray-700">
+              <p>
+                Tambahkan akun ke authenticator app dengan membuka{" "}
+                <a href={enrollment.provisioningUri} className="text-blue-600 underline">
+                  link otpauth
+                </a>{" "}
+                atau masukkan secret berikut secara manual:
+              </p>
+              <p className="font-mono bg-gray-100 px-2 py-1 rounded break-all">{enrollment.secret}</p>
+              <p>Lalu masukkan kode 6 digit yang ditampilkan aplikasi untuk mengaktifkan MFA.</p>
+            </div>
+          )}
+
+          {status.enabled && !codeAction && (
+            <p className="text-sm text-gray-600">
+              Sisa recovery code: {status.recoveryCodesRemaining}
+            </p>
+          )}
+
+          {codeAction ? (
+            <form onSubmit={handleSubmitCode} className="space-y-3">
+              <Input
+                type="text"
+                name="mfaCode"
+                label={codeAction === 'enable' ? "Kode Verifikasi" : "Kode Verifikasi atau Recovery Code"}
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                autoComplete="one-time-code"
+                disabled={isSubmitting}
+                fullWidth
+              />
+              <div className="flex justify-end space-x-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => {
+                    resetCodeForm();
+                    setEnrollment(null);
+                  }}
+                  disabled={isSubmitting}
+                >
+                  Batal
+                </Button>
+                <Button
+                  type="submit"
+                  variant={codeAction === 'disable' ? "destructive" : "primary"}
+                  disabled={isSubmitting || !code.trim()}
+                  loading={isSubmitting}
+                >
+                  {codeAction === 'enable' && "Aktifkan MFA"}
+                  {codeAction === 'regenerate' && "Buat Ulang Recovery Code"}
+                  {codeAction === 'disable' && "Nonaktifkan MFA"}
+                </Button>
+              </div>
+            </form>
+          ) : status.enabled ? (
+            <div className="flex flex-wrap gap-3">
+              <Button variant="outline" size="sm" onClick={() => setCodeAction('regenerate')}>
+                Buat Ulang Recovery Code
+              </Button>
+              <Button variant="destructive" size="sm" onClick={() => setCodeAction('disable')}>
+                Nonaktifkan MFA
+              </Button>
+            </div>
+          ) : (
+            <Button
+              variant="primary"
+              size="sm"
+              onClick={handleStartEnrollment}
+              disabled={isSubmitting}
+              loading={isSubmitting}
+            >
+              Aktifkan MFA
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
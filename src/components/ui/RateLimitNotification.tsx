@@ -129,6 +129,7 @@ export function RateLimitNotification({
  */
 export function isRateLimitError(errorMessage: string): boolean {
   return errorMessage.includes("Terlalu banyak percobaan login") || 
+         errorMessage.includes("Terlalu banyak request") ||
          errorMessage.includes("rate limit") ||
          errorMessage.includes("too many attempts");
 }
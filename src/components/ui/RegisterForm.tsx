@@ -28,6 +28,7 @@ export function RegisterForm({ onSuccess, onSwitchToLogin }: RegisterFormProps)
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [submitError, setSubmitError] = useState<string>("");
+  const [submitSuccess, setSubmitSuccess] = useState<string>("");
 
   /**
    * Handler untuk perubahan input form
@@ -103,6 +104,8 @@ export function RegisterForm({ onSuccess, onSwitchToLogin }: RegisterFormProps)
     
     try {
       await register(formData.name, formData.email, formData.password);
+      // Akun aktif setelah email diverifikasi
+      setSubmitSuccess("Registrasi berhasil. Buka link verifikasi yang dikirim ke email Anda, lalu login.");
       onSuccess?.();
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : "Registrasi gagal";
@@ -130,6 +133,13 @@ export function RegisterForm({ onSuccess, onSwitchToLogin }: RegisterFormProps)
                 <span className="text-sm">{submitError}</span>
               </div>
             )}
+
+            {/* Success Message */}
+            {submitSuccess && (
+              <div className="p-4 bg-green-50 border border-green-200 text-green-700 rounded-lg">
+                <span className="text-sm">{submitSuccess}</span>
+              </div>
+            )}
             
             <form onSubmit={handleSubmit} className="space-y-5">
               {/* Name Input */}
@@ -0,0 +1,83 @@
+"use client";
+
+import React from "react";
+import { Alert, AlertDescription } from "@/components/shadcn/ui/alert";
+import { MonitorSmartphone, LogOut } from "lucide-react";
+
+/**
+ * Props untuk SessionLimitNotification component
+ */
+interface SessionLimitNotificationProps {
+  message: string;
+  className?: string;
+}
+
+/**
+ * Komponen notifikasi khusus untuk login yang ditolak karena batas session aktif
+ * Menjelaskan batas session dan cara melanjutkan login
+ * Mengikuti prinsip Single Responsibility dan DRY
+ */
+export function SessionLimitNotification({
+  message,
+  className = ""
+}: SessionLimitNotificationProps) {
+  const maxSessions = extractMaxSessions(message);
+
+  return (
+    <div className={`${className} mb-4`}>
+      <Alert className="bg-amber-50 border-amber-200 border-l-4">
+        <div className="flex items-start gap-3">
+          <div className="text-amber-600 mt-0.5">
+            <MonitorSmartphone className="h-5 w-5" />
+          </div>
+
+          <div className="flex-1">
+            <AlertDescription className="text-amber-800 font-medium">
+              <div className="mb-2">
+                💻 <strong>Batas Session Tercapai</strong>
+              </div>
+
+              <div className="text-sm mb-3">
+                {message}
+              </div>
+
+              {maxSessions && (
+                <div className="flex items-center gap-2 text-sm">
+                  <MonitorSmartphone className="h-4 w-4" />
+                  <span>
+                    Maksimal session aktif: <strong>{maxSessions} device</strong>
+                  </span>
+                </div>
+              )}
+
+              <div className="mt-3 text-xs opacity-75 flex items-center gap-1">
+                <LogOut className="h-3 w-3" />
+                <span>
+                  <strong>Tips:</strong> Sign out dari device lain melalui halaman profil, atau tunggu hingga session lama berakhir.
+                </span>
+              </div>
+            </AlertDescription>
+          </div>
+        </div>
+      </Alert>
+    </div>
+  );
+}
+
+/**
+ * Utility function untuk mengecek apakah error adalah penolakan karena batas session
+ */
+export function isSessionLimitError(errorMessage: string): boolean {
+  return errorMessage.includes("Batas session aktif tercapai") ||
+         errorMessage.includes("session limit");
+}
+
+/**
+ * Utility function untuk mengekstrak batas session dari pesan error
+ */
+export function extractMaxSessions(errorMessage: string): number | null {
+  const limitMatch = errorMessage.match(/maksimal\s+(\d+)\s+session/);
+  return limitMatch ? parseInt(limitMatch[1]) : null;
+}
+
+export default SessionLimitNotification;
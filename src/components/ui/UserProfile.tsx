@@ -7,6 +7,8 @@ import { Card, CardHeader, CardContent } from "./Card";
 import { Input } from "./Input";
 import { Button } from "./Button";
 import { Badge } from "./Badge";
+import { MfaSettingsCard } from "./MfaSettingsCard";
+import { UserSessionsCard } from "./UserSessionsCard";
 
 /**
  * Interface untuk role data
@@ -426,6 +428,12 @@ export function UserProfile({ onProfileUpdate, className = "" }: UserProfileProp
         </CardContent>
       </Card>
 
+      {/* Multi-Factor Authentication Card */}
+      <MfaSettingsCard />
+
+      {/* Active Sessions Card */}
+      <UserSessionsCard />
+
       {/* Roles and Permissions Card */}
       <Card variant="elevated" padding="lg">
         <CardHeader title="Role & Hak Akses" subtitle="Daftar role dan permission yang dimiliki" />
@@ -0,0 +1,140 @@
+"use client";
+
+import * as React from "react";
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { api } from "@/lib/apiClient";
+import { Card, CardHeader, CardContent } from "./Card";
+import { Button } from "./Button";
+import { Badge } from "./Badge";
+
+/**
+ * Interface untuk session aktif dari /api/profile/sessions
+ */
+interface UserSession {
+  id: number;
+  ipAddress: string | null;
+  deviceLabel: string;
+  userAgent: string | null;
+  lastSeenAt: string;
+  expiresAt: string;
+  createdAt: string;
+  current: boolean;
+}
+
+/**
+ * Card "Your sessions" di halaman profil
+ * Menampilkan device tempat user sedang login dan sign-out per session
+ */
+export function UserSessionsCard() {
+  const { user, logout } = useAuth();
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [revokingId, setRevokingId] = useState<number | null>(null);
+  const [error, setError] = useState("");
+
+  /**
+   * Load session aktif user
+   */
+  const loadSessions = useCallback(async () => {
+    try {
+      const response = await api.get<{ sessions: UserSession[] }>('/profile/sessions');
+      setSessions(response.data?.sessions ?? []);
+    } catch (error) {
+      console.error('Error loading sessions:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user?.id) {
+      loadSessions();
+    }
+  }, [user?.id, loadSessions]);
+
+  /**
+   * Sign-out satu session; sign-out session saat ini sama dengan logout
+   */
+  const handleRevoke = async (session: UserSession) => {
+    try {
+      setRevokingId(session.id);
+      setError("");
+      await api.delete(`/profile/sessions/${session.id}`);
+
+      if (session.current) {
+        await logout();
+        return;
+      }
+      await loadSessions();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Gagal sign-out session");
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  /**
+   * Format tanggal untuk display
+   */
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString('id-ID', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  return (
+    <Card variant="elevated" padding="lg">
+      <CardHeader
+        title="Session Anda"
+        subtitle="Device tempat akun Anda sedang login"
+        action={<Badge variant="default" size="sm">{sessions.length} aktif</Badge>}
+      />
+      <CardContent>
+        <div className="space-y-3">
+          {error && (
+            <div className="p-3 bg-red-100 border border-red-400 text-red-700 rounded">
+              {error}
+            </div>
+          )}
+
+          {sessions.length === 0 ? (
+            <span className="text-gray-500 text-sm italic">Tidak ada session aktif</span>
+          ) : (
+            sessions.map((session) => (
+              <div
+                key={session.id}
+                className="flex items-center justify-between gap-4 p-3 border border-gray-200 rounded"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium text-gray-900 truncate" title={session.userAgent || ''}>
+                      {session.deviceLabel}
+                    </p>
+                    {session.current && (
+                      <Badge variant="success" size="sm">Session ini</Badge>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    {session.ipAddress || 'IP tidak diketahui'} · Terakhir aktif {formatDate(session.lastSeenAt)}
+                  </p>
+                  <p className="text-xs text-gray-500">Login {formatDate(session.createdAt)}</p>
+                </div>
+                <Button
+                  variant={session.current ? "outline" : "destructive"}
+                  size="sm"
+                  onClick={() => handleRevoke(session)}
+                  disabled={revokingId !== null}
+                  loading={revokingId === session.id}
+                >
+                  Sign out
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
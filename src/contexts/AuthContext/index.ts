@@ -33,6 +33,8 @@ export type {
   AuthAction, 
   AuthContextType,
   AuthApiResponse,
+  LoginApiResponse,
+  MfaLoginChallenge,
   UpdateProfileResponse 
 } from './types';
 
@@ -6,6 +6,8 @@ import { AuthContext } from './context';
 import { authReducer } from './reducer';
 import { 
   AuthApiResponse, 
+  LoginApiResponse,
+  MfaLoginChallenge,
   UpdateProfileResponse, 
   initialAuthState,
   AuthUser 
@@ -108,30 +110,63 @@ export function AuthProvider({ children }: AuthProviderProps) {
     };
   }, [state.user, state.accessToken]);
 
+  /**
+   * Simpan tokens hasil login dan update state
+   */
+  const startSession = ({ user, accessToken, refreshToken }: AuthApiResponse['data']): void => {
+    // Simpan tokens menggunakan TokenService
+    const expiresAt = TokenService.getTokenExpiration(accessToken);
+    TokenService.setTokens({
+      accessToken,
+      refreshToken,
+      expiresAt: expiresAt || undefined
+    });
+
+    dispatch(loginSuccessAction(user, accessToken));
+  };
+
   /**
    * Function untuk melakukan login
+   * @returns Challenge MFA jika user mengaktifkan MFA, null jika session sudah dibuat
    */
-  const login = async (email: string, password: string): Promise<void> => {
+  const login = async (email: string, password: string): Promise<MfaLoginChallenge | null> => {
     try {
       dispatch(setLoadingAction(true));
       
-      const response = await publicApi.post('/auth/login', { email, password }) as AuthApiResponse;
+      const response = await publicApi.post('/auth/login', { email, password }) as LoginApiResponse;
       
       if (!response.success) {
         throw new Error(response.message || 'Login gagal');
       }
+
+      // Password benar tetapi faktor kedua masih diperlukan
+      if ('mfaRequired' in response.data) {
+        dispatch(setLoadingAction(false));
+        return response.data;
+      }
       
-      const { user, accessToken, refreshToken } = response.data;
-      
-      // Simpan tokens menggunakan TokenService
-       const expiresAt = TokenService.getTokenExpiration(accessToken);
-       TokenService.setTokens({
-         accessToken,
-         refreshToken,
-         expiresAt: expiresAt || undefined
-       });
-      
-      dispatch(loginSuccessAction(user, accessToken));
+      startSession(response.data);
+      return null;
+    } catch (error) {
+      dispatch(setLoadingAction(false));
+      throw error;
+    }
+  };
+
+  /**
+   * Function untuk menyelesaikan login dengan kode TOTP atau recovery code
+   */
+  const verifyMfaLogin = async (challengeToken: string, code: string): Promise<void> => {
+    try {
+      dispatch(setLoadingAction(true));
+
+      const response = await publicApi.post('/auth/login/mfa', { challengeToken, code }) as AuthApiResponse;
+
+      if (!response.success) {
+        throw new Error(response.message || 'Verifikasi MFA gagal');
+      }
+
+      startSession(response.data);
     } catch (error) {
       dispatch(setLoadingAction(false));
       throw error;
@@ -140,6 +175,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
   /**
    * Function untuk melakukan registrasi
+   * Akun baru nonaktif sampai email diverifikasi, sehingga session belum dimulai
    */
   const register = async (name: string, email: string, password: string): Promise<void> => {
     try {
@@ -151,7 +187,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
         throw new Error(response.message || 'Registrasi gagal');
       }
       
-      dispatch(loginSuccessAction(response.data.user, response.data.accessToken));
+      dispatch(setLoadingAction(false));
     } catch (error) {
       dispatch(setLoadingAction(false));
       throw error;
@@ -223,6 +259,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
   const contextValue = {
     ...state,
     login,
+    verifyMfaLogin,
     register,
     logout,
     updateProfile,
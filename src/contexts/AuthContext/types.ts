@@ -18,6 +18,25 @@ export interface AuthApiResponse {
   };
 }
 
+/**
+ * Challenge login dua langkah untuk user yang mengaktifkan MFA
+ * Dikembalikan login() sebagai pengganti session; selesaikan dengan verifyMfaLogin()
+ */
+export interface MfaLoginChallenge {
+  mfaRequired: true;
+  challengeToken: string;
+  expiresIn: number;
+}
+
+/**
+ * Interface untuk response API login (session atau challenge MFA)
+ */
+export interface LoginApiResponse {
+  success: boolean;
+  message?: string;
+  data: AuthApiResponse['data'] | MfaLoginChallenge;
+}
+
 /**
  * Interface untuk response update profile
  */
@@ -52,7 +71,8 @@ export type AuthAction =
  * Interface untuk context type yang akan diexpose
  */
 export interface AuthContextType extends AuthState {
-  login: (email: string, password: string) => Promise<void>;
+  login: (email: string, password: string) => Promise<MfaLoginChallenge | null>;
+  verifyMfaLogin: (challengeToken: string, code: string) => Promise<void>;
   register: (name: string, email: string, password: string) => Promise<void>;
   logout: () => Promise<void>;
   updateProfile: (data: { name?: string; email?: string }) => Promise<void>;
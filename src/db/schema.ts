@@ -1,4 +1,4 @@
-import { pgTable, serial, integer, varchar, text, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, serial, integer, varchar, text, boolean, timestamp, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
@@ -15,10 +15,17 @@ export const users = pgTable("users", {
   passwordHash: text("password_hash").notNull(),
   active: boolean("active").default(true),
   rolesUpdatedAt: timestamp("roles_updated_at", { withTimezone: true }),
+  // Versi token: naik saat role berubah, user dinonaktifkan, ganti password, atau force sign-out;
+  // access token dengan claim ver yang berbeda langsung ditolak
+  tokenVersion: integer("token_version").notNull().default(0),
   // ABAC attributes untuk attribute-based access control
   department: varchar("department", { length: 100 }),
   region: varchar("region", { length: 100 }),
   level: integer("level"), // seniority/grade level
+  // NULL berarti email belum diverifikasi (self-registration tetap nonaktif sampai diverifikasi)
+  emailVerifiedAt: timestamp("email_verified_at", { withTimezone: true }),
+  // Service account: user non-manusia untuk automation, tidak bisa login dengan password (hanya personal access token)
+  isServiceAccount: boolean("is_service_account").notNull().default(false),
   createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
 });
@@ -31,10 +38,176 @@ export const sessions = pgTable("sessions", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   refreshToken: text("refresh_token").notNull().unique(),
+  // Informasi device untuk daftar session user dan revoke per session
+  ipAddress: varchar("ip_address", { length: 45 }),
+  userAgent: text("user_agent"),
+  deviceLabel: varchar("device_label", { length: 100 }), // contoh: "Chrome 120 on Windows"
+  lastSeenAt: timestamp("last_seen_at", { withTimezone: true }).notNull().defaultNow(), // diperbarui setiap refresh token
+  revokedAt: timestamp("revoked_at", { withTimezone: true }), // diisi saat session di-sign-out dari device lain atau oleh admin
+  revokedReason: varchar("revoked_reason", { length: 255 }), // alasan revoke, contoh: dikeluarkan karena batas session aktif
   expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
   createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
 });
 
+/**
+ * Tabel refresh_token_rotations untuk menyimpan refresh token yang sudah dirotasi
+ * Dipakai untuk mendeteksi reuse: token lama yang dipakai lagi mencabut seluruh token family (session)
+ */
+export const refreshTokenRotations = pgTable("refresh_token_rotations", {
+  id: serial("id").primaryKey(),
+  // Token family = session asal; sengaja tanpa FK agar jejak rotasi tetap ada setelah session dicabut
+  sessionId: integer("session_id").notNull(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(), // SHA-256 hex dari refresh token lama
+  expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+  rotatedAt: timestamp("rotated_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+/**
+ * Tabel rate_limit_buckets untuk counter sliding window rate limit
+ * Satu row per key dan fixed window; estimasi sliding window memakai window saat ini dan sebelumnya
+ */
+export const rateLimitBuckets = pgTable("rate_limit_buckets", {
+  id: serial("id").primaryKey(),
+  key: varchar("key", { length: 255 }).notNull(), // contoh: 'api:ip:10.0.0.1', 'login:account:user@example.com'
+  windowStart: timestamp("window_start", { withTimezone: true }).notNull(),
+  count: integer("count").notNull().default(0),
+  expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+}, (table) => [
+  uniqueIndex("rate_limit_buckets_key_window_unique").on(table.key, table.windowStart),
+]);
+
+/**
+ * Tabel jwt_signing_keys untuk key pair asimetris (RS256/ES256) penandatangan access token
+ * Key aktif menandatangani token baru; key yang sudah dirotasi tetap dipublikasikan di JWKS
+ * sampai expiresAt (overlap window) agar token yang sudah terbit tetap dapat diverifikasi
+ */
+export const jwtSigningKeys = pgTable("jwt_signing_keys", {
+  id: serial("id").primaryKey(),
+  kid: varchar("kid", { length: 64 }).notNull().unique(), // key ID di header JWT dan JWKS
+  algorithm: varchar("algorithm", { length: 10 }).notNull(), // 'RS256' atau 'ES256'
+  publicKey: text("public_key").notNull(), // PEM (SPKI)
+  privateKey: text("private_key").notNull(), // PEM (PKCS#8) terenkripsi AES-256-GCM
+  retiredAt: timestamp("retired_at", { withTimezone: true }), // berhenti menandatangani token baru
+  expiresAt: timestamp("expires_at", { withTimezone: true }), // akhir overlap window; tidak lagi dipakai verifikasi
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+/**
+ * Tabel user_mfa untuk menyimpan enrollment TOTP (RFC 6238) per user
+ * Secret disimpan terenkripsi; enabledAt null berarti enrollment belum dikonfirmasi
+ */
+export const userMfa = pgTable("user_mfa", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }).unique(),
+  secretEncrypted: text("secret_encrypted").notNull(), // AES-256-GCM: iv:authTag:ciphertext (base64)
+  enabledAt: timestamp("enabled_at", { withTimezone: true }),
+  lastUsedStep: integer("last_used_step"), // time step TOTP terakhir yang dipakai, mencegah replay kode
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+/**
+ * Tabel mfa_recovery_codes untuk recovery code sekali pakai
+ * Hanya hash yang disimpan; kode plaintext ditampilkan sekali saat dibuat
+ */
+export const mfaRecoveryCodes = pgTable("mfa_recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  codeHash: varchar("code_hash", { length: 64 }).notNull(), // SHA-256 hex dari recovery code
+  usedAt: timestamp("used_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+/**
+ * Tabel password_reset_tokens untuk token reset password sekali pakai
+ * Hanya hash token yang disimpan; token plaintext hanya dikirim lewat email
+ */
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(), // SHA-256 hex dari token
+  expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+  usedAt: timestamp("used_at", { withTimezone: true }),
+  requestedIp: varchar("requested_ip", { length: 45 }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+/**
+ * Tabel email_verification_tokens untuk verifikasi email self-registration
+ * Hanya hash token yang disimpan; token sekali pakai dan memiliki masa berlaku
+ */
+export const emailVerificationTokens = pgTable("email_verification_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(), // SHA-256 hex dari token
+  expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+  usedAt: timestamp("used_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+/**
+ * Tabel user_invitations untuk onboarding user lewat undangan email
+ * Role dan ABAC attributes ditentukan admin saat mengundang dan diterapkan saat undangan diterima
+ */
+export const userInvitations = pgTable("user_invitations", {
+  id: serial("id").primaryKey(),
+  email: varchar("email", { length: 255 }).notNull(),
+  name: varchar("name", { length: 100 }),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(), // SHA-256 hex dari token
+  // ABAC attributes bawaan
+  department: varchar("department", { length: 100 }),
+  region: varchar("region", { length: 100 }),
+  level: integer("level"),
+  customAttributes: text("custom_attributes"), // JSON string custom ABAC attributes
+  invitedBy: integer("invited_by").references(() => users.id, { onDelete: "set null" }),
+  expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+  acceptedAt: timestamp("accepted_at", { withTimezone: true }),
+  acceptedUserId: integer("accepted_user_id").references(() => users.id, { onDelete: "set null" }),
+  revokedAt: timestamp("revoked_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+/**
+ * Tabel user_invitation_roles untuk role yang di-assign saat undangan diterima
+ */
+export const userInvitationRoles = pgTable("user_invitation_roles", {
+  id: serial("id").primaryKey(),
+  invitationId: integer("invitation_id").notNull().references(() => userInvitations.id, { onDelete: "cascade" }),
+  roleId: integer("role_id").notNull().references(() => roles.id, { onDelete: "cascade" }),
+});
+
+/**
+ * Tabel personal_access_tokens untuk bearer token automation (script, service lain)
+ * Hanya hash yang disimpan; token plaintext ditampilkan sekali saat dibuat
+ */
+export const personalAccessTokens = pgTable("personal_access_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }), // pemilik token (user atau service account)
+  name: varchar("name", { length: 100 }).notNull(),
+  tokenPrefix: varchar("token_prefix", { length: 16 }).notNull(), // awal token untuk identifikasi di UI, contoh: "ymp_AbCd1234"
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(), // SHA-256 hex dari token
+  expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+  lastUsedAt: timestamp("last_used_at", { withTimezone: true }),
+  lastUsedIp: varchar("last_used_ip", { length: 45 }),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  revokedAt: timestamp("revoked_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+/**
+ * Tabel personal_access_token_scopes untuk membatasi token ke subset feature/action
+ * Akses token = permission pemilik token yang juga tercakup scope token
+ */
+export const personalAccessTokenScopes = pgTable("personal_access_token_scopes", {
+  id: serial("id").primaryKey(),
+  tokenId: integer("token_id").notNull().references(() => personalAccessTokens.id, { onDelete: "cascade" }),
+  featureId: integer("feature_id").notNull().references(() => features.id, { onDelete: "cascade" }),
+  action: varchar("action", { length: 50 }).notNull(), // create/read/update/delete atau action custom feature
+}, (table) => [
+  uniqueIndex("personal_access_token_scopes_unique").on(table.tokenId, table.featureId, table.action),
+]);
+
 /**
  * Tabel roles untuk menyimpan role/peran dalam sistem
  */
@@ -42,6 +215,14 @@ export const roles = pgTable("roles", {
   id: serial("id").primaryKey(),
   name: varchar("name", { length: 100 }).notNull().unique(),
   grantsAll: boolean("grants_all").default(false),
+  // User dengan role ini wajib login memakai multi-factor authentication
+  mfaRequired: boolean("mfa_required").notNull().default(false),
+  // Batas session aktif bersamaan per user; null berarti memakai default aplikasi
+  maxConcurrentSessions: integer("max_concurrent_sessions"),
+  // Aksi saat batas tercapai: 'reject' menolak login baru, 'evict_oldest' mengeluarkan session terlama
+  sessionLimitAction: varchar("session_limit_action", { length: 20 }).notNull().default("evict_oldest"),
+  // Parent role: permissions parent diwariskan ke role ini (contoh: Editor -> Viewer)
+  parentRoleId: integer("parent_role_id").references((): AnyPgColumn => roles.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
 });
 
@@ -58,11 +239,14 @@ export const features = pgTable("features", {
 
 /**
  * Tabel user_roles untuk many-to-many relationship antara users dan roles
+ * validFrom/validUntil membatasi masa berlaku assignment (null = tanpa batas)
  */
 export const userRoles = pgTable("user_roles", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   roleId: integer("role_id").notNull().references(() => roles.id, { onDelete: "cascade" }),
+  validFrom: timestamp("valid_from", { withTimezone: true }),
+  validUntil: timestamp("valid_until", { withTimezone: true }),
 });
 
 /**
@@ -77,8 +261,135 @@ export const roleFeatures = pgTable("role_features", {
   canRead: boolean("can_read").default(false),
   canUpdate: boolean("can_update").default(false),
   canDelete: boolean("can_delete").default(false),
+  // Explicit deny: mengalahkan allow dari role lain (deny-override)
+  denyCreate: boolean("deny_create").default(false),
+  denyRead: boolean("deny_read").default(false),
+  denyUpdate: boolean("deny_update").default(false),
+  denyDelete: boolean("deny_delete").default(false),
 });
 
+/**
+ * Tabel feature_actions untuk action custom per feature di luar CRUD
+ * (contoh: audit_logs -> export, user_management -> impersonate)
+ * Action CRUD berlaku untuk semua feature dan tetap disimpan di kolom can_* / deny_* role_features
+ */
+export const featureActions = pgTable("feature_actions", {
+  id: serial("id").primaryKey(),
+  featureId: integer("feature_id").notNull().references(() => features.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 50 }).notNull(), // 'export', 'approve', 'impersonate'
+  description: text("description"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("feature_actions_feature_name_unique").on(table.featureId, table.name),
+]);
+
+/**
+ * Tabel role_feature_actions untuk grant action custom ke role
+ * Tidak ada row berarti unset; effect 'deny' mengalahkan 'allow' dari role lain (deny-override)
+ */
+export const roleFeatureActions = pgTable("role_feature_actions", {
+  id: serial("id").primaryKey(),
+  roleId: integer("role_id").notNull().references(() => roles.id, { onDelete: "cascade" }),
+  featureActionId: integer("feature_action_id").notNull().references(() => featureActions.id, { onDelete: "cascade" }),
+  effect: varchar("effect", { length: 5 }).notNull(), // 'allow' atau 'deny'
+}, (table) => [
+  uniqueIndex("role_feature_actions_role_action_unique").on(table.roleId, table.featureActionId),
+]);
+
+/**
+ * Tabel role_approvers untuk user yang ditunjuk menyetujui access request sebuah role
+ */
+export const roleApprovers = pgTable("role_approvers", {
+  id: serial("id").primaryKey(),
+  roleId: integer("role_id").notNull().references(() => roles.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("role_approvers_role_user_unique").on(table.roleId, table.userId),
+]);
+
+/**
+ * Tabel role_access_requests untuk permintaan role oleh user
+ * Request yang disetujui di-assign melalui UserRoleService.assignRole (durationDays null = permanen)
+ */
+export const roleAccessRequests = pgTable("role_access_requests", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  roleId: integer("role_id").notNull().references(() => roles.id, { onDelete: "cascade" }),
+  justification: text("justification").notNull(),
+  durationDays: integer("duration_days"),
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // 'pending', 'approved', 'rejected', 'cancelled'
+  reviewerId: integer("reviewer_id").references(() => users.id, { onDelete: "set null" }),
+  reviewNote: text("review_note"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  reviewedAt: timestamp("reviewed_at", { withTimezone: true }),
+});
+
+/**
+ * Tabel access_review_campaigns untuk recertification role assignment secara periodik
+ * Scope campaign: satu role, atau semua user dalam department/region tertentu
+ */
+export const accessReviewCampaigns = pgTable("access_review_campaigns", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 150 }).notNull(),
+  description: text("description"),
+  scopeType: varchar("scope_type", { length: 20 }).notNull(), // 'role', 'department', 'region'
+  scopeValue: varchar("scope_value", { length: 100 }).notNull(), // role ID atau nama department/region
+  status: varchar("status", { length: 20 }).notNull().default("open"), // 'open', 'closed'
+  dueDate: timestamp("due_date", { withTimezone: true }),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  closedBy: integer("closed_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  closedAt: timestamp("closed_at", { withTimezone: true }),
+});
+
+/**
+ * Tabel access_review_items untuk snapshot user→role assignment dalam campaign beserta keputusan reviewer
+ * Keputusan 'revoke' diterapkan saat campaign ditutup (appliedAt terisi) dan hanya mencabut assignment yang di-snapshot
+ */
+export const accessReviewItems = pgTable("access_review_items", {
+  id: serial("id").primaryKey(),
+  campaignId: integer("campaign_id").notNull().references(() => accessReviewCampaigns.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  roleId: integer("role_id").notNull().references(() => roles.id, { onDelete: "cascade" }),
+  // Assignment yang di-snapshot; null jika assignment sudah dihapus (revoke dilewati sebagai alreadyRemoved)
+  userRoleId: integer("user_role_id").references(() => userRoles.id, { onDelete: "set null" }),
+  validUntil: timestamp("valid_until", { withTimezone: true }), // snapshot masa berlaku assignment
+  reviewerId: integer("reviewer_id").references(() => users.id, { onDelete: "set null" }),
+  decision: varchar("decision", { length: 20 }).notNull().default("pending"), // 'pending', 'keep', 'revoke'
+  decisionNote: text("decision_note"),
+  decidedAt: timestamp("decided_at", { withTimezone: true }),
+  appliedAt: timestamp("applied_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("access_review_items_campaign_user_role_unique").on(table.campaignId, table.userId, table.roleId),
+]);
+
+/**
+ * Tabel sod_constraints untuk aturan separation-of-duties statis antar role
+ * User tidak boleh memegang lebih dari maxRoles role dari set constraint (default 1 = saling eksklusif)
+ */
+export const sodConstraints = pgTable("sod_constraints", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 100 }).notNull().unique(),
+  description: text("description"),
+  maxRoles: integer("max_roles").notNull().default(1),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+/**
+ * Tabel sod_constraint_roles untuk set role yang saling eksklusif dalam satu constraint
+ */
+export const sodConstraintRoles = pgTable("sod_constraint_roles", {
+  id: serial("id").primaryKey(),
+  constraintId: integer("constraint_id").notNull().references(() => sodConstraints.id, { onDelete: "cascade" }),
+  roleId: integer("role_id").notNull().references(() => roles.id, { onDelete: "cascade" }),
+}, (table) => [
+  uniqueIndex("sod_constraint_roles_constraint_role_unique").on(table.constraintId, table.roleId),
+]);
+
 /**
  * Tabel route_features untuk mapping route patterns ke features
  */
@@ -92,16 +403,50 @@ export const routeFeatures = pgTable("route_features", {
 /**
  * Tabel policies untuk ABAC (Attribute-Based Access Control)
  * Menyimpan aturan akses berdasarkan atribut user
+ * Setiap row adalah condition (attribute/operator/value) atau group (combinator AND/OR/NOT)
+ * Group dan condition dapat di-nest melalui parentId; row tanpa parentId adalah root policy
  */
 export const policies = pgTable("policies", {
   id: serial("id").primaryKey(),
   featureId: integer("feature_id").notNull().references(() => features.id, { onDelete: "cascade" }),
-  attribute: varchar("attribute", { length: 100 }).notNull(), // 'department', 'region', 'level'
-  operator: varchar("operator", { length: 10 }).notNull(), // '==', '!=', '>', '>=', '<', '<=', 'in'
-  value: text("value").notNull(), // 'Finance', 'Jakarta', '[1,2,3]'
+  parentId: integer("parent_id").references((): AnyPgColumn => policies.id, { onDelete: "cascade" }),
+  combinator: varchar("combinator", { length: 3 }), // 'AND', 'OR', 'NOT' (hanya untuk group)
+  attribute: varchar("attribute", { length: 100 }), // 'department', 'region', 'level'
+  operator: varchar("operator", { length: 10 }), // '==', '!=', '>', '>=', '<', '<=', 'in'
+  value: text("value"), // 'Finance', 'Jakarta', '[1,2,3]'
+  // Hanya berlaku pada root policy: 'enforce', 'audit' (shadow, tidak memblokir), 'disabled'
+  enforcementMode: varchar("enforcement_mode", { length: 10 }).notNull().default("enforce"),
   createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
 });
 
+/**
+ * Tabel attribute_definitions untuk registry custom user attributes ABAC
+ * Attribute bawaan (department, region, level) tetap disimpan di tabel users
+ */
+export const attributeDefinitions = pgTable("attribute_definitions", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 100 }).notNull().unique(), // 'cost_center', 'employment_type', 'clearance'
+  type: varchar("type", { length: 20 }).notNull(), // 'string', 'number', 'boolean', 'date', 'list'
+  allowedValues: text("allowed_values"), // JSON array, NULL berarti nilai bebas
+  description: text("description"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+/**
+ * Tabel user_attribute_values untuk nilai custom attribute per user
+ * Value disimpan sebagai text: angka/boolean/tanggal ISO sebagai string, list sebagai JSON array
+ */
+export const userAttributeValues = pgTable("user_attribute_values", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  attributeId: integer("attribute_id").notNull().references(() => attributeDefinitions.id, { onDelete: "cascade" }),
+  value: text("value").notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("user_attribute_values_user_attribute_unique").on(table.userId, table.attributeId),
+]);
+
 /**
  * =====================
  * AUDIT & MONITORING
@@ -121,6 +466,8 @@ export const accessLogs = pgTable("access_logs", {
   method: varchar("method", { length: 10 }),
   decision: varchar("decision", { length: 10 }).notNull(), // 'allow' / 'deny'
   reason: text("reason"),
+  // Diisi jika request memakai personal access token
+  accessTokenId: integer("access_token_id").references(() => personalAccessTokens.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
 });
 
@@ -136,6 +483,7 @@ export const policyViolations = pgTable("policy_violations", {
   attribute: varchar("attribute", { length: 100 }).notNull(),
   expectedValue: text("expected_value").notNull(),
   actualValue: text("actual_value"),
+  shadow: boolean("shadow").notNull().default(false), // true jika policy dalam mode audit (tidak memblokir)
   createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
 });
 
@@ -153,12 +501,55 @@ export const changeHistory = pgTable("change_history", {
   createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
 });
 
+/**
+ * Tabel policy_versions untuk snapshot immutable root policy ABAC setiap kali berubah
+ * policyId dan featureId tanpa foreign key agar riwayat tetap ada setelah policy dihapus
+ */
+export const policyVersions = pgTable("policy_versions", {
+  id: serial("id").primaryKey(),
+  policyId: integer("policy_id").notNull(),
+  featureId: integer("feature_id").notNull(),
+  version: integer("version").notNull(),
+  expression: text("expression"), // JSON expression tree, NULL jika versi berupa penghapusan
+  enforcementMode: varchar("enforcement_mode", { length: 10 }),
+  action: varchar("action", { length: 20 }).notNull(), // 'create', 'update', 'delete', 'rollback'
+  comment: text("comment"),
+  authorId: integer("author_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("policy_versions_policy_version_unique").on(table.policyId, table.version),
+]);
+
+/**
+ * Tabel role_feature_versions untuk snapshot immutable permission role-feature setiap kali berubah
+ * Snapshot berisi action allow/deny (CRUD maupun custom), NULL jika permission dihapus
+ */
+export const roleFeatureVersions = pgTable("role_feature_versions", {
+  id: serial("id").primaryKey(),
+  roleId: integer("role_id").notNull(),
+  featureId: integer("feature_id").notNull(),
+  version: integer("version").notNull(),
+  permissions: text("permissions"), // JSON { allow: string[], deny: string[] }
+  action: varchar("action", { length: 20 }).notNull(), // 'create', 'update', 'delete', 'rollback'
+  comment: text("comment"),
+  authorId: integer("author_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("role_feature_versions_role_feature_version_unique").on(table.roleId, table.featureId, table.version),
+]);
+
 // Relations untuk Drizzle ORM
 export const usersRelations = relations(users, ({ many }) => ({
   userRoles: many(userRoles),
   sessions: many(sessions),
   accessLogs: many(accessLogs),
   policyViolations: many(policyViolations),
+  attributeValues: many(userAttributeValues),
+  roleApprovals: many(roleApprovers),
+  accessRequests: many(roleAccessRequests, { relationName: "requestedAccess" }),
+  reviewedAccessRequests: many(roleAccessRequests, { relationName: "reviewedAccess" }),
+  accessReviewItems: many(accessReviewItems, { relationName: "reviewedUser" }),
+  assignedAccessReviews: many(accessReviewItems, { relationName: "accessReviewer" }),
   adminChangeHistory: many(changeHistory, { relationName: "adminChanges" }),
   targetChangeHistory: many(changeHistory, { relationName: "targetChanges" }),
 }));
@@ -166,11 +557,17 @@ export const usersRelations = relations(users, ({ many }) => ({
 export const rolesRelations = relations(roles, ({ many }) => ({
   userRoles: many(userRoles),
   roleFeatures: many(roleFeatures),
+  roleFeatureActions: many(roleFeatureActions),
+  approvers: many(roleApprovers),
+  accessRequests: many(roleAccessRequests),
+  accessReviewItems: many(accessReviewItems),
+  sodConstraints: many(sodConstraintRoles),
   accessLogs: many(accessLogs),
 }));
 
 export const featuresRelations = relations(features, ({ many }) => ({
   roleFeatures: many(roleFeatures),
+  actions: many(featureActions),
   routeFeatures: many(routeFeatures),
   policies: many(policies),
   accessLogs: many(accessLogs),
@@ -199,6 +596,101 @@ export const roleFeaturesRelations = relations(roleFeatures, ({ one }) => ({
   }),
 }));
 
+export const featureActionsRelations = relations(featureActions, ({ one, many }) => ({
+  feature: one(features, {
+    fields: [featureActions.featureId],
+    references: [features.id],
+  }),
+  roleGrants: many(roleFeatureActions),
+}));
+
+export const roleFeatureActionsRelations = relations(roleFeatureActions, ({ one }) => ({
+  role: one(roles, {
+    fields: [roleFeatureActions.roleId],
+    references: [roles.id],
+  }),
+  featureAction: one(featureActions, {
+    fields: [roleFeatureActions.featureActionId],
+    references: [featureActions.id],
+  }),
+}));
+
+export const roleApproversRelations = relations(roleApprovers, ({ one }) => ({
+  role: one(roles, {
+    fields: [roleApprovers.roleId],
+    references: [roles.id],
+  }),
+  user: one(users, {
+    fields: [roleApprovers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const roleAccessRequestsRelations = relations(roleAccessRequests, ({ one }) => ({
+  user: one(users, {
+    fields: [roleAccessRequests.userId],
+    references: [users.id],
+    relationName: "requestedAccess",
+  }),
+  role: one(roles, {
+    fields: [roleAccessRequests.roleId],
+    references: [roles.id],
+  }),
+  reviewer: one(users, {
+    fields: [roleAccessRequests.reviewerId],
+    references: [users.id],
+    relationName: "reviewedAccess",
+  }),
+}));
+
+export const accessReviewCampaignsRelations = relations(accessReviewCampaigns, ({ one, many }) => ({
+  creator: one(users, {
+    fields: [accessReviewCampaigns.createdBy],
+    references: [users.id],
+  }),
+  items: many(accessReviewItems),
+}));
+
+export const accessReviewItemsRelations = relations(accessReviewItems, ({ one }) => ({
+  campaign: one(accessReviewCampaigns, {
+    fields: [accessReviewItems.campaignId],
+    references: [accessReviewCampaigns.id],
+  }),
+  user: one(users, {
+    fields: [accessReviewItems.userId],
+    references: [users.id],
+    relationName: "reviewedUser",
+  }),
+  role: one(roles, {
+    fields: [accessReviewItems.roleId],
+    references: [roles.id],
+  }),
+  reviewer: one(users, {
+    fields: [accessReviewItems.reviewerId],
+    references: [users.id],
+    relationName: "accessReviewer",
+  }),
+}));
+
+export const sodConstraintsRelations = relations(sodConstraints, ({ one, many }) => ({
+  creator: one(users, {
+    fields: [sodConstraints.createdBy],
+    references: [users.id],
+  }),
+  roles: many(sodConstraintRoles),
+}));
+
+export const sodConstraintRolesRelations = relations(sodConstraintRoles, ({ one }) => ({
+  constraint: one(sodConstraints, {
+    fields: [sodConstraintRoles.constraintId],
+    references: [sodConstraints.id],
+  }),
+  role: one(roles, {
+    fields: [sodConstraintRoles.roleId],
+    references: [roles.id],
+  }),
+}));
+
 export const routeFeaturesRelations = relations(routeFeatures, ({ one }) => ({
   feature: one(features, {
     fields: [routeFeatures.featureId],
@@ -218,9 +710,30 @@ export const policiesRelations = relations(policies, ({ one, many }) => ({
     fields: [policies.featureId],
     references: [features.id],
   }),
+  parent: one(policies, {
+    fields: [policies.parentId],
+    references: [policies.id],
+    relationName: "policyTree",
+  }),
+  children: many(policies, { relationName: "policyTree" }),
   policyViolations: many(policyViolations),
 }));
 
+export const attributeDefinitionsRelations = relations(attributeDefinitions, ({ many }) => ({
+  values: many(userAttributeValues),
+}));
+
+export const userAttributeValuesRelations = relations(userAttributeValues, ({ one }) => ({
+  user: one(users, {
+    fields: [userAttributeValues.userId],
+    references: [users.id],
+  }),
+  attribute: one(attributeDefinitions, {
+    fields: [userAttributeValues.attributeId],
+    references: [attributeDefinitions.id],
+  }),
+}));
+
 // Relations untuk audit tables
 export const accessLogsRelations = relations(accessLogs, ({ one }) => ({
   user: one(users, {
@@ -300,14 +813,19 @@ export const selectRouteFeatureSchema = createSelectSchema(routeFeatures);
 
 // ABAC Policy schemas
 export const insertPolicySchema = createInsertSchema(policies, {
-  attribute: z.string().min(1, "Attribute diperlukan").max(100, "Attribute maksimal 100 karakter"),
+  combinator: z.enum(["AND", "OR", "NOT"], {
+    message: "Combinator harus salah satu dari: AND, OR, NOT",
+  }).nullable().optional(),
+  attribute: z.string().min(1, "Attribute diperlukan").max(100, "Attribute maksimal 100 karakter").nullable().optional(),
   operator: z.enum(["==", "!=", ">", ">=", "<", "<=", "in"], {
     message: "Operator harus salah satu dari: ==, !=, >, >=, <, <=, in",
-  }),
-  value: z.string().min(1, "Value diperlukan"),
+  }).nullable().optional(),
+  value: z.string().min(1, "Value diperlukan").nullable().optional(),
 });
 
 export const selectPolicySchema = createSelectSchema(policies);
+export const selectAttributeDefinitionSchema = createSelectSchema(attributeDefinitions);
+export const selectUserAttributeValueSchema = createSelectSchema(userAttributeValues);
 
 // Audit tables schemas
 export const insertAccessLogSchema = createInsertSchema(accessLogs, {
@@ -342,6 +860,28 @@ export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
 export type Session = typeof sessions.$inferSelect;
 export type NewSession = typeof sessions.$inferInsert;
+export type RefreshTokenRotation = typeof refreshTokenRotations.$inferSelect;
+export type NewRefreshTokenRotation = typeof refreshTokenRotations.$inferInsert;
+export type RateLimitBucket = typeof rateLimitBuckets.$inferSelect;
+export type NewRateLimitBucket = typeof rateLimitBuckets.$inferInsert;
+export type JwtSigningKey = typeof jwtSigningKeys.$inferSelect;
+export type NewJwtSigningKey = typeof jwtSigningKeys.$inferInsert;
+export type UserMfa = typeof userMfa.$inferSelect;
+export type NewUserMfa = typeof userMfa.$inferInsert;
+export type MfaRecoveryCode = typeof mfaRecoveryCodes.$inferSelect;
+export type NewMfaRecoveryCode = typeof mfaRecoveryCodes.$inferInsert;
+export type PersonalAccessToken = typeof personalAccessTokens.$inferSelect;
+export type NewPersonalAccessToken = typeof personalAccessTokens.$inferInsert;
+export type PersonalAccessTokenScope = typeof personalAccessTokenScopes.$inferSelect;
+export type NewPersonalAccessTokenScope = typeof personalAccessTokenScopes.$inferInsert;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type NewPasswordResetToken = typeof passwordResetTokens.$inferInsert;
+export type EmailVerificationToken = typeof emailVerificationTokens.$inferSelect;
+export type NewEmailVerificationToken = typeof emailVerificationTokens.$inferInsert;
+export type UserInvitation = typeof userInvitations.$inferSelect;
+export type NewUserInvitation = typeof userInvitations.$inferInsert;
+export type UserInvitationRole = typeof userInvitationRoles.$inferSelect;
+export type NewUserInvitationRole = typeof userInvitationRoles.$inferInsert;
 
 // RBAC Types
 export type Role = typeof roles.$inferSelect;
@@ -352,16 +892,40 @@ export type UserRole = typeof userRoles.$inferSelect;
 export type NewUserRole = typeof userRoles.$inferInsert;
 export type RoleFeature = typeof roleFeatures.$inferSelect;
 export type NewRoleFeature = typeof roleFeatures.$inferInsert;
+export type FeatureAction = typeof featureActions.$inferSelect;
+export type NewFeatureAction = typeof featureActions.$inferInsert;
+export type RoleFeatureAction = typeof roleFeatureActions.$inferSelect;
+export type NewRoleFeatureAction = typeof roleFeatureActions.$inferInsert;
+export type RoleApprover = typeof roleApprovers.$inferSelect;
+export type NewRoleApprover = typeof roleApprovers.$inferInsert;
+export type RoleAccessRequest = typeof roleAccessRequests.$inferSelect;
+export type NewRoleAccessRequest = typeof roleAccessRequests.$inferInsert;
+export type AccessReviewCampaign = typeof accessReviewCampaigns.$inferSelect;
+export type NewAccessReviewCampaign = typeof accessReviewCampaigns.$inferInsert;
+export type AccessReviewItem = typeof accessReviewItems.$inferSelect;
+export type NewAccessReviewItem = typeof accessReviewItems.$inferInsert;
+export type SodConstraint = typeof sodConstraints.$inferSelect;
+export type NewSodConstraint = typeof sodConstraints.$inferInsert;
+export type SodConstraintRole = typeof sodConstraintRoles.$inferSelect;
+export type NewSodConstraintRole = typeof sodConstraintRoles.$inferInsert;
 export type RouteFeature = typeof routeFeatures.$inferSelect;
 export type NewRouteFeature = typeof routeFeatures.$inferInsert;
 export type Policy = typeof policies.$inferSelect;
 export type NewPolicy = typeof policies.$inferInsert;
+export type AttributeDefinition = typeof attributeDefinitions.$inferSelect;
+export type NewAttributeDefinition = typeof attributeDefinitions.$inferInsert;
+export type UserAttributeValue = typeof userAttributeValues.$inferSelect;
+export type NewUserAttributeValue = typeof userAttributeValues.$inferInsert;
 export type AccessLog = typeof accessLogs.$inferSelect;
 export type NewAccessLog = typeof accessLogs.$inferInsert;
 export type PolicyViolation = typeof policyViolations.$inferSelect;
 export type NewPolicyViolation = typeof policyViolations.$inferInsert;
 export type ChangeHistory = typeof changeHistory.$inferSelect;
 export type NewChangeHistory = typeof changeHistory.$inferInsert;
+export type PolicyVersion = typeof policyVersions.$inferSelect;
+export type NewPolicyVersion = typeof policyVersions.$inferInsert;
+export type RoleFeatureVersion = typeof roleFeatureVersions.$inferSelect;
+export type NewRoleFeatureVersion = typeof roleFeatureVersions.$inferInsert;
 
 // Validation schemas untuk API
 export const createUserSchema = z.object({
@@ -412,22 +976,181 @@ export const createRouteFeatureSchema = z.object({
 });
 
 // ABAC Policy API schema
-export const createPolicySchema = z.object({
+// Attribute dapat berupa attribute bawaan (department, region, level) atau custom attribute terdaftar
+const attributeNameSchema = z.string()
+  .min(1, "Attribute diperlukan")
+  .max(100, "Attribute maksimal 100 karakter")
+  .regex(/^[a-z][a-z0-9_]*$/, "Attribute hanya boleh berisi huruf kecil, angka, dan underscore");
+
+// Attribute policy: attribute user (bawaan/custom, boleh dengan prefix 'user.'),
+// context request ('context.') atau attribute resource yang diakses ('resource.')
+const policyAttributeSchema = z.string()
+  .min(1, "Attribute diperlukan")
+  .max(100, "Attribute maksimal 100 karakter")
+  .regex(
+    /^((user|context|resource)\.)?[a-z][a-z0-9_]*$/,
+    "Attribute hanya boleh berisi huruf kecil, angka, dan underscore (boleh diawali 'user.', 'context.', atau 'resource.')"
+  );
+
+const policyOperatorSchema = z.enum(["==", "!=", ">", ">=", "<", "<=", "in", "contains"], {
+  message: "Operator harus salah satu dari: ==, !=, >, >=, <, <=, in, contains",
+});
+
+/**
+ * Kedalaman maksimal nested policy group
+ */
+export const MAX_POLICY_EXPRESSION_DEPTH = 5;
+
+/**
+ * Struktur expression policy ABAC (condition tunggal atau group AND/OR/NOT)
+ */
+export type PolicyConditionInput = {
+  type: "condition";
+  attribute: z.infer<typeof policyAttributeSchema>;
+  operator: z.infer<typeof policyOperatorSchema>;
+  value: string;
+};
+
+export type PolicyGroupInput = {
+  type: "group";
+  combinator: "AND" | "OR" | "NOT";
+  children: PolicyExpressionInput[];
+};
+
+export type PolicyExpressionInput = PolicyConditionInput | PolicyGroupInput;
+
+export const policyConditionSchema = z.object({
+  type: z.literal("condition"),
+  attribute: policyAttributeSchema,
+  operator: policyOperatorSchema,
+  value: z.string().min(1, "Value diperlukan"),
+});
+
+export const policyGroupSchema: z.ZodType<PolicyGroupInput, PolicyGroupInput> = z.lazy(() =>
+  z.object({
+    type: z.literal("group"),
+    combinator: z.enum(["AND", "OR", "NOT"], {
+      message: "Combinator harus salah satu dari: AND, OR, NOT",
+    }),
+    children: z.array(policyExpressionSchema).min(1, "Group minimal memiliki satu kondisi"),
+  }).refine(
+    (group) => group.combinator !== "NOT" || group.children.length === 1,
+    { message: "Group NOT harus memiliki tepat satu kondisi", path: ["children"] }
+  )
+);
+
+export const policyExpressionSchema: z.ZodType<PolicyExpressionInput, PolicyExpressionInput> = z.lazy(() =>
+  z.union([policyConditionSchema, policyGroupSchema])
+);
+
+/**
+ * Hitung kedalaman expression (condition tunggal = 1)
+ */
+export function getPolicyExpressionDepth(expression: PolicyExpressionInput): number {
+  if (expression.type === "condition") {
+    return 1;
+  }
+  return 1 + Math.max(...expression.children.map(getPolicyExpressionDepth));
+}
+
+/**
+ * Mode enforcement root policy
+ * audit mengevaluasi policy dan mencatat penolakan sebagai shadow violation tanpa memblokir akses
+ */
+export const POLICY_ENFORCEMENT_MODES = ["enforce", "audit", "disabled"] as const;
+
+export const policyEnforcementModeSchema = z.enum(POLICY_ENFORCEMENT_MODES, {
+  message: "Enforcement mode harus salah satu dari: enforce, audit, disabled",
+});
+
+export type PolicyEnforcementMode = z.infer<typeof policyEnforcementModeSchema>;
+
+export const createPolicyConditionSchema = z.object({
   featureId: z.number().int().positive("Feature ID harus berupa integer positif"),
-  attribute: z.enum(["department", "region", "level"], {
-    message: "Attribute harus salah satu dari: department, region, level",
-  }),
-  operator: z.enum(["==", "!=", ">", ">=", "<", "<=", "in"], {
-    message: "Operator harus salah satu dari: ==, !=, >, >=, <, <=, in",
-  }),
+  attribute: policyAttributeSchema,
+  operator: policyOperatorSchema,
   value: z.string().min(1, "Value diperlukan"),
+  enforcementMode: policyEnforcementModeSchema.optional(),
+});
+
+export const createPolicyExpressionSchema = z.object({
+  featureId: z.number().int().positive("Feature ID harus berupa integer positif"),
+  expression: policyExpressionSchema,
+  enforcementMode: policyEnforcementModeSchema.optional(),
+}).refine(
+  (data) => getPolicyExpressionDepth(data.expression) <= MAX_POLICY_EXPRESSION_DEPTH,
+  { message: `Kedalaman group maksimal ${MAX_POLICY_EXPRESSION_DEPTH} level`, path: ["expression"] }
+);
+
+export const updatePolicyEnforcementModeSchema = z.object({
+  enforcementMode: policyEnforcementModeSchema,
+});
+
+/**
+ * Jenis perubahan yang menghasilkan versi policy atau permission role-feature
+ */
+export const VERSION_ACTIONS = ["create", "update", "delete", "rollback"] as const;
+
+export type VersionAction = (typeof VERSION_ACTIONS)[number];
+
+// Komentar opsional yang disimpan bersama versi (alasan perubahan)
+export const versionCommentSchema = z.object({
+  comment: z.string().trim().max(500, "Komentar maksimal 500 karakter").optional(),
 });
 
+/**
+ * Author dan komentar yang dicatat bersama versi policy atau permission role-feature
+ */
+export interface VersionChangeMeta {
+  authorId?: number | null;
+  comment?: string | null;
+}
+
+// Periode laporan shadow violation policy mode audit (dalam hari)
+export const shadowPolicyReportQuerySchema = z.object({
+  days: z.coerce.number().int().min(1, "Periode minimal 1 hari").max(365, "Periode maksimal 365 hari").default(30),
+});
+
+/**
+ * Policy dapat dibuat sebagai condition tunggal (format lama)
+ * atau sebagai expression bertingkat dengan group AND/OR/NOT
+ */
+export const createPolicySchema = z.union([createPolicyConditionSchema, createPolicyExpressionSchema]);
+
+// Custom attribute registry schemas
+export const BUILT_IN_USER_ATTRIBUTES = ["department", "region", "level"] as const;
+
+export const attributeTypeSchema = z.enum(["string", "number", "boolean", "date", "list"], {
+  message: "Type harus salah satu dari: string, number, boolean, date, list",
+});
+
+export const createAttributeDefinitionSchema = z.object({
+  name: attributeNameSchema.refine(
+    (name) => !(BUILT_IN_USER_ATTRIBUTES as readonly string[]).includes(name),
+    { message: "Nama attribute bentrok dengan attribute bawaan (department, region, level)" }
+  ),
+  type: attributeTypeSchema,
+  allowedValues: z.array(z.string().min(1, "Allowed value tidak boleh kosong")).min(1, "Allowed values minimal satu nilai").nullable().optional(),
+  description: z.string().max(500, "Description maksimal 500 karakter").nullable().optional(),
+});
+
+export const updateAttributeDefinitionSchema = createAttributeDefinitionSchema.omit({ name: true }).partial();
+
+// Nilai custom attribute per user; null berarti hapus nilai
+export const userAttributeValueInputSchema = z.union([
+  z.string(),
+  z.number(),
+  z.boolean(),
+  z.array(z.string()),
+  z.null(),
+]);
+
 // Update user ABAC attributes schema
 export const updateUserAbacSchema = z.object({
   department: z.string().max(100, "Department maksimal 100 karakter").optional(),
   region: z.string().max(100, "Region maksimal 100 karakter").optional(),
   level: z.number().int().min(1, "Level minimal 1").max(10, "Level maksimal 10").optional(),
+  attributes: z.record(z.string(), userAttributeValueInputSchema).optional(),
 });
 
 // Audit API schemas
@@ -450,6 +1173,7 @@ export const createPolicyViolationSchema = z.object({
   attribute: z.string().min(1, "Attribute diperlukan").max(100, "Attribute maksimal 100 karakter"),
   expectedValue: z.string().min(1, "Expected value diperlukan"),
   actualValue: z.string().optional(),
+  shadow: z.boolean().optional(),
 });
 
 export const createChangeHistorySchema = z.object({
@@ -471,7 +1195,13 @@ export type SetRoleFeatureInput = z.infer<typeof setRoleFeatureSchema>;
 export type CreateRouteFeatureInput = z.infer<typeof createRouteFeatureSchema>;
 // ABAC types
 export type CreatePolicyInput = z.infer<typeof createPolicySchema>;
+export type CreatePolicyConditionInput = z.infer<typeof createPolicyConditionSchema>;
+export type CreatePolicyExpressionInput = z.infer<typeof createPolicyExpressionSchema>;
 export type UpdateUserAbacInput = z.infer<typeof updateUserAbacSchema>;
+export type AttributeType = z.infer<typeof attributeTypeSchema>;
+export type CreateAttributeDefinitionInput = z.infer<typeof createAttributeDefinitionSchema>;
+export type UpdateAttributeDefinitionInput = z.infer<typeof updateAttributeDefinitionSchema>;
+export type UserAttributeValueInput = z.infer<typeof userAttributeValueInputSchema>;
 
 // Audit types
 export type CreateAccessLogInput = z.infer<typeof createAccessLogSchema>;
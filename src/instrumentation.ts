@@ -0,0 +1,20 @@
+/**
+ * Next.js instrumentation hook, dipanggil sekali saat server runtime dimulai
+ * Dipakai untuk menjalankan background job yang membutuhkan koneksi database
+ */
+export async function register(): Promise<void> {
+  // Background job hanya berjalan di Node.js runtime (bukan edge/middleware)
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  // Dynamic import agar dependency database tidak ikut dimuat di edge runtime
+  const { roleAssignmentExpiryService } = await import('@/services/rbac/roleAssignmentExpiryService');
+  const { signingKeyService } = await import('@/lib/auth/authService/signingKeyService');
+
+  const intervalMs = Number(process.env.ROLE_EXPIRY_SWEEP_INTERVAL_MS) || undefined;
+  roleAssignmentExpiryService.startAutomaticSweep(intervalMs);
+
+  const keyRotationIntervalMs = Number(process.env.JWT_KEY_ROTATION_CHECK_INTERVAL_MS) || undefined;
+  signingKeyService.startAutomaticRotation(keyRotationIntervalMs);
+}
@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
-import { authService, AuthErrorHandler } from "./authService";
-import type { AuthenticatedUser, RbacAction } from "../types";
+import { authService, AuthErrorHandler, verifyAccessTokenAndGetUserContext } from "./authService";
+import { resourceAccessChecker, PermissionCheckResult } from "./authService/permissionService";
+import { isAccessTokenFormat, hasAccessTokenScope } from "./authService/accessTokenService";
+import { authorizationHandler } from "@/middleware/auth/authorizationHandler";
+import { getClientIp } from "@/lib/http/clientIp";
+import type { AuthenticatedUser, AccessTokenContext, RbacAction } from "../types";
 
 /**
  * Interface untuk authorization middleware options
@@ -9,6 +13,13 @@ interface AuthMiddlewareOptions {
   feature: string;
   action: RbacAction;
   requireAuth?: boolean;
+  /**
+   * Ambil ID resource yang diakses dari request
+   * Jika diset, ABAC policies resource.* dievaluasi terhadap resource tersebut dan resource yang tidak ada dijawab 404
+   * Path route harus juga dideklarasikan di resource loader feature (ResourceLoaderService) agar middleware
+   * route tidak menolak policy resource.* sebelum handler dijalankan
+   */
+  resourceId?: (req: NextRequest) => string | null;
 }
 
 /**
@@ -41,6 +52,53 @@ function extractTokenFromRequest(req: NextRequest): string | null {
   return null;
 }
 
+/**
+ * Verifikasi bearer token: JWT access token atau personal access token
+ * @param req - NextRequest object
+ * @param token - Token dari request
+ * @returns User, dan personal access token jika dipakai, atau null jika token tidak valid
+ */
+async function verifyRequestToken(
+  req: NextRequest,
+  token: string
+): Promise<{ user: AuthenticatedUser; accessToken?: AccessTokenContext } | null> {
+  if (isAccessTokenFormat(token)) {
+    const userContext = await verifyAccessTokenAndGetUserContext(token, {
+      path: new URL(req.url).pathname,
+      method: req.method,
+      ipAddress: getClientIp(req.headers),
+      userAgent: req.headers.get('user-agent')
+    });
+    if (!userContext) {
+      return null;
+    }
+
+    return {
+      user: {
+        id: userContext.user.id,
+        email: userContext.user.email,
+        name: userContext.user.name,
+        active: userContext.user.active === true
+      },
+      accessToken: userContext.accessToken
+    };
+  }
+
+  const payload = await authService.verifyToken(token);
+  if (!payload) {
+    return null;
+  }
+
+  return {
+    user: {
+      id: payload.userId,
+      email: payload.email,
+      name: '', // Will be filled from user permission summary if needed
+      active: true
+    }
+  };
+}
+
 /**
  * Utility untuk mengekstrak user info dari headers
  * Digunakan ketika user info sudah di-inject oleh middleware sebelumnya
@@ -65,6 +123,19 @@ function getUserFromHeaders(req: NextRequest): AuthenticatedUser | null {
   return null;
 }
 
+/**
+ * Buat extractor resource ID dari segment URL path untuk option resourceId
+ * @param offsetFromEnd - Posisi segment dihitung dari akhir path (0 = segment terakhir)
+ * @returns Function yang mengembalikan resource ID atau null
+ * @example resourceIdFromPath(1) untuk /api/v1/users/12/roles menghasilkan '12'
+ */
+function resourceIdFromPath(offsetFromEnd: number = 0) {
+  return (req: NextRequest): string | null => {
+    const segments = new URL(req.url).pathname.split('/').filter(Boolean);
+    return segments[segments.length - 1 - offsetFromEnd] || null;
+  };
+}
+
 /**
  * Higher-Order Function untuk authorization berbasis feature dan action
  * Menggunakan Hybrid RBAC + ABAC system untuk validasi lengkap
@@ -74,7 +145,7 @@ function getUserFromHeaders(req: NextRequest): AuthenticatedUser | null {
  * @returns Function wrapper untuk API handler
  */
 export function withAuthorization(options: AuthMiddlewareOptions) {
-  const { feature, action, requireAuth = true } = options;
+  const { feature, action, requireAuth = true, resourceId } = options;
 
   return function (handler: (req: AuthenticatedRequest) => Promise<NextResponse>) {
     return async function (req: NextRequest): Promise<NextResponse> {
@@ -87,6 +158,7 @@ export function withAuthorization(options: AuthMiddlewareOptions) {
         // Cek apakah user info sudah ada di headers (dari middleware sebelumnya)
         let user = getUserFromHeaders(req);
         let userId: number;
+        let accessToken: AccessTokenContext | undefined;
 
         if (user) {
           userId = user.id;
@@ -112,21 +184,28 @@ export function withAuthorization(options: AuthMiddlewareOptions) {
           }
 
           // Verifikasi token
-          const payload = await authService.verifyToken(token);
-          if (!payload) {
+          const verified = await verifyRequestToken(req, token);
+          if (!verified) {
             return NextResponse.json(
               AuthErrorHandler.createErrorResponse('Token tidak valid', 401),
               { status: 401 }
             );
           }
 
-          userId = payload.userId;
-          user = {
-            id: payload.userId,
-            email: payload.email,
-            name: '', // Will be filled from user permission summary if needed
-            active: true
-          };
+          user = verified.user;
+          userId = user.id;
+          accessToken = verified.accessToken;
+        }
+
+        // Personal access token dibatasi scope-nya meskipun pemiliknya memiliki permission
+        if (accessToken && !hasAccessTokenScope(accessToken.scopes, feature, action)) {
+          return NextResponse.json(
+            AuthErrorHandler.createErrorResponse(
+              `Akses ditolak: ${action} untuk ${feature} di luar scope access token`,
+              403
+            ),
+            { status: 403 }
+          );
         }
 
         // Cek permission menggunakan Hybrid RBAC + ABAC
@@ -142,6 +221,34 @@ export function withAuthorization(options: AuthMiddlewareOptions) {
           );
         }
         
+        // Cek ABAC policies terhadap resource yang diakses (ownership, department, dll)
+        const targetResourceId = resourceId?.(req);
+        if (targetResourceId) {
+          const resourceAccess = await resourceAccessChecker.checkPolicyResourceAccess({
+            userId,
+            featureName: feature,
+            resourceId: targetResourceId,
+            context: authorizationHandler.collectRequestContext(req)
+          });
+
+          if (resourceAccess.result === PermissionCheckResult.NOT_FOUND) {
+            return NextResponse.json(
+              AuthErrorHandler.createErrorResponse(resourceAccess.reason || `Resource ${feature} tidak ditemukan`, 404),
+              { status: 404 }
+            );
+          }
+
+          if (resourceAccess.result !== PermissionCheckResult.GRANTED) {
+            return NextResponse.json(
+              AuthErrorHandler.createErrorResponse(
+                `Akses ditolak: ${resourceAccess.reason || `Tidak memiliki akses ke resource ${feature}`}`,
+                403
+              ),
+              { status: 403 }
+            );
+          }
+        }
+        
         // Tambahkan user info ke request untuk digunakan di handler
         const authenticatedReq = req as AuthenticatedRequest;
         authenticatedReq.user = user;
@@ -209,21 +316,16 @@ export function withAuthentication(
         }
 
         // Verifikasi token
-        const payload = await authService.verifyToken(token);
-        if (!payload) {
+        const verified = await verifyRequestToken(req, token);
+        if (!verified) {
           return NextResponse.json(
             AuthErrorHandler.createErrorResponse('Token tidak valid', 401),
             { status: 401 }
           );
         }
 
-        userId = payload.userId;
-        user = {
-          id: payload.userId,
-          email: payload.email,
-          name: '',
-          active: true
-        };
+        user = verified.user;
+        userId = user.id;
       }
 
       // Tambahkan user info ke request
@@ -255,4 +357,4 @@ export function withAuthentication(
 
 // Backward compatibility exports
 export const withFeature = withAuthorization;
-export { extractTokenFromRequest, getUserFromHeaders };
\ No newline at end of file
+export { extractTokenFromRequest, getUserFromHeaders, resourceIdFromPath };
\ No newline at end of file
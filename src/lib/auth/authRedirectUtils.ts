@@ -48,7 +48,7 @@ export function saveRedirectPath(currentPath?: string): void {
   const pathToSave = currentPath || window.location.pathname;
   
   // Jangan simpan jika sudah di halaman auth
-  const authPages = ['/login', '/register', '/forgot-password', '/reset-password'];
+  const authPages = ['/login', '/register', '/forgot-password', '/reset-password', '/verify-email', '/accept-invitation'];
   if (!authPages.includes(pathToSave)) {
     localStorage.setItem('redirectAfterLogin', pathToSave);
   }
@@ -1,24 +1,34 @@
 import { ValidationService } from "../validation/validator";
 import { ErrorHandler, ValidationError, AuthenticationError, NotFoundError, ConflictError } from "../errors/errorHandler";
 import { userCreateSchema, userLoginSchema } from "../validation/schemas";
-import { userRepository, sessionRepository, userRoleRepository, roleRepository, roleFeatureRepository, featureRepository } from "@/repositories";
-import type { User } from "@/db/schema";
+import { userRepository, sessionRepository, refreshTokenRotationRepository, userRoleRepository, roleRepository, roleFeatureRepository, featureRepository, changeHistoryRepository } from "@/repositories";
+import type { User, Session as DbSession } from "@/db/schema";
+import { rbacService } from "@/services/rbac/rbacService";
+import { featureService } from "@/services/rbac/featureService";
 import type { 
   JWTPayload, 
   AuthResponse, 
+  RegistrationResponse,
   IAuthService, 
   AuthenticatedUserContext,
+  PermissionDecisionTrace,
   ErrorResponse 
 } from "./types";
 
 // Import service-service kecil
 import { TokenService } from './authService/tokenService/index';
-import { PasswordService } from './authService/passwordService';
+import { PasswordService, createPasswordService } from './authService/passwordService';
 import { PermissionService } from './authService/permissionService';
 import { SessionService } from './authService/sessionService';
 import { UserRegistrationService } from './authService/userRegistrationService/index';
-import { UserAuthenticationService } from './authService/userAuthenticationService';
-import type { Session } from './authService/sessionService';
+import { UserAuthenticationService, type LoginResponse } from './authService/userAuthenticationService';
+import type { MfaChallengeResponse } from './authService/mfaService';
+import { PasswordResetService, createPasswordResetService, type PasswordResetRequestOptions } from './authService/passwordResetService';
+import { EmailVerificationService, createEmailVerificationService } from './authService/emailVerificationService';
+import type { Session, UserSessionSummary } from './authService/sessionService';
+import { accessTokenService, type AccessTokenClient } from './authService/accessTokenService';
+import { signingKeyService } from './authService/signingKeyService';
+import { tokenRevocationService } from './authService/tokenRevocationService';
 
 // Service instances will be created in AuthService class
 
@@ -36,6 +46,8 @@ export class AuthService implements IAuthService {
   private sessionService: SessionService;
   private userRegistrationService: UserRegistrationService;
   private userAuthenticationService: UserAuthenticationService;
+  private passwordResetService: PasswordResetService;
+  private emailVerificationService: EmailVerificationService;
 
   constructor() {
     // Initialize services with proper dependencies
@@ -50,24 +62,67 @@ export class AuthService implements IAuthService {
           active: user.active ?? true
         };
       },
+      // Status token di-cache agar validasi access token di setiap request tidak query database
       findById: async (id: number) => {
-        const user = await userRepository.findById(id);
+        return await tokenRevocationService.getUserTokenState(id);
+      },
+      updateLastLogin: async (id: number, loginData: { lastLoginAt: Date; lastLoginIp?: string }) => {
+        await userRepository.updateLastLogin(id);
+      }
+    };
+    
+    // Access token ditandatangani key set asimetris (RS256/ES256) yang dirotasi dan dipublikasikan di JWKS
+    this.tokenService = new TokenService(tokenServiceUserAdapter, undefined, signingKeyService);
+
+    // Adapter UserRepository untuk PasswordManager (change/reset password)
+    const passwordUserRepositoryAdapter = {
+      findById: async (userId: number) => {
+        const user = await userRepository.findById(userId);
         if (!user) return null;
         return {
           id: user.id,
+          password: user.passwordHash,
           email: user.email,
-          active: user.active ?? true
+          name: user.name
         };
       },
-      updateLastLogin: async (id: number, loginData: { lastLoginAt: Date; lastLoginIp?: string }) => {
-        await userRepository.updateLastLogin(id);
+      updatePassword: async (userId: number, hashedPassword: string) => {
+        await userRepository.update(userId, { passwordHash: hashedPassword });
+        // Access token yang terbit dengan password lama langsung tidak berlaku
+        await tokenRevocationService.revokeAccessTokens(userId, 'password_changed');
       }
     };
-    
-    this.tokenService = new TokenService(tokenServiceUserAdapter);
-    this.passwordService = new PasswordService();
+
+    // Audit perubahan password dicatat ke change_history
+    const passwordAuditLogger = {
+      logPasswordChange: async (userId: number, action: 'change' | 'reset', metadata?: { adminUserId?: number; strengthLevel?: string }) => {
+        await changeHistoryRepository.create({
+          adminUserId: metadata?.adminUserId ?? null,
+          targetUserId: userId,
+          action: action === 'reset' ? 'resetPassword' : 'changePassword',
+          after: JSON.stringify({ strengthLevel: metadata?.strengthLevel ?? null })
+        });
+      }
+    };
+
+    this.passwordService = createPasswordService(passwordUserRepositoryAdapter, passwordAuditLogger);
     this.permissionService = new PermissionService();
     
+    // Transform database session (termasuk info device) ke Session interface
+    const toSession = (dbSession: DbSession): Session => ({
+      id: dbSession.id,
+      userId: dbSession.userId,
+      refreshToken: dbSession.refreshToken,
+      ipAddress: dbSession.ipAddress,
+      userAgent: dbSession.userAgent,
+      deviceLabel: dbSession.deviceLabel,
+      lastSeenAt: dbSession.lastSeenAt,
+      revokedAt: dbSession.revokedAt,
+      revokedReason: dbSession.revokedReason,
+      expiresAt: dbSession.expiresAt,
+      createdAt: dbSession.createdAt
+    });
+
     // Create a proper SessionService implementation using sessionRepository
     const simpleSessionRepository = {
       create: async (data: Omit<Session, 'id' | 'createdAt'>) => {
@@ -75,30 +130,23 @@ export class AuthService implements IAuthService {
         const dbSession = await sessionRepository.create({
           userId: data.userId,
           refreshToken: data.refreshToken || '',
+          ipAddress: data.ipAddress,
+          userAgent: data.userAgent,
+          deviceLabel: data.deviceLabel,
+          revokedAt: data.revokedAt,
+          revokedReason: data.revokedReason,
           expiresAt: data.expiresAt
         });
         
         // Transform database session to Session interface
-        return {
-          id: dbSession.id,
-          userId: dbSession.userId,
-          refreshToken: dbSession.refreshToken,
-          expiresAt: dbSession.expiresAt,
-          createdAt: dbSession.createdAt
-        };
+        return toSession(dbSession);
       },
       findById: async (id: number) => {
         const dbSession = await sessionRepository.findById(id);
         if (!dbSession) return null;
         
         // Transform database session to Session interface
-        return {
-          id: dbSession.id,
-          userId: dbSession.userId,
-          refreshToken: dbSession.refreshToken,
-          expiresAt: dbSession.expiresAt,
-          createdAt: dbSession.createdAt
-        };
+        return toSession(dbSession);
       },
       findByToken: async (token: string) => {
         // Implementasi sederhana - dalam production harus menggunakan token mapping
@@ -108,28 +156,19 @@ export class AuthService implements IAuthService {
         const dbSession = await sessionRepository.findByRefreshToken(refreshToken);
         if (!dbSession) return null;
         
-        return {
-          id: dbSession.id,
-          userId: dbSession.userId,
-          refreshToken: dbSession.refreshToken,
-          expiresAt: dbSession.expiresAt,
-          createdAt: dbSession.createdAt
-        };
+        return toSession(dbSession);
       },
       findByUserId: async (userId: number) => {
         const dbSessions = await sessionRepository.findByUserId(userId);
-        return dbSessions.map(dbSession => ({
-          id: dbSession.id,
-          userId: dbSession.userId,
-          refreshToken: dbSession.refreshToken,
-          expiresAt: dbSession.expiresAt,
-          createdAt: dbSession.createdAt
-        }));
+        return dbSessions.map(toSession);
       },
       update: async (id: number, data: Partial<Session>) => {
         const dbSession = await sessionRepository.update(id, {
           userId: data.userId,
           refreshToken: data.refreshToken,
+          lastSeenAt: data.lastSeenAt,
+          revokedAt: data.revokedAt,
+          revokedReason: data.revokedReason,
           expiresAt: data.expiresAt
         });
         
@@ -137,13 +176,7 @@ export class AuthService implements IAuthService {
           throw new Error(`Session with id ${id} not found for update`);
         }
         
-        return {
-          id: dbSession.id,
-          userId: dbSession.userId,
-          refreshToken: dbSession.refreshToken,
-          expiresAt: dbSession.expiresAt,
-          createdAt: dbSession.createdAt
-        };
+        return toSession(dbSession);
       },
       delete: async (id: number) => {
         await sessionRepository.delete(id);
@@ -152,7 +185,30 @@ export class AuthService implements IAuthService {
         await sessionRepository.deleteByUserId(userId);
       },
       deleteExpired: async () => {
+        await refreshTokenRotationRepository.deleteExpired();
         return await sessionRepository.deleteExpiredSessions();
+      },
+      rotateRefreshToken: async (
+        sessionId: number,
+        currentToken: string,
+        currentTokenHash: string,
+        newToken: string
+      ) => {
+        const dbSession = await sessionRepository.rotateRefreshToken(sessionId, currentToken, currentTokenHash, newToken);
+        if (!dbSession) return null;
+
+        return toSession(dbSession);
+      },
+      findRotatedRefreshToken: async (tokenHash: string) => {
+        const rotation = await refreshTokenRotationRepository.findByTokenHash(tokenHash);
+        if (!rotation) return null;
+
+        return {
+          sessionId: rotation.sessionId,
+          userId: rotation.userId,
+          expiresAt: rotation.expiresAt,
+          rotatedAt: rotation.rotatedAt
+        };
       }
     };
     
@@ -210,6 +266,51 @@ export class AuthService implements IAuthService {
       this.passwordService,
       this.permissionService
     );
+
+    // PasswordResetService memakai PasswordManager dan SessionService milik AuthService
+    this.passwordResetService = createPasswordResetService({
+      findUserByEmail: async (email: string) => {
+        const user = await userRepository.findByEmail(email);
+        if (!user) return null;
+        return {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          active: user.active
+        };
+      },
+      validateNewPassword: async (userId: number, newPassword: string) => {
+        const user = await userRepository.findById(userId);
+        const personalInfo = user ? [user.email, user.name].filter(Boolean) : [];
+        const validation = await this.passwordService.validateNewPassword(newPassword, personalInfo);
+        if (!validation.isValid) {
+          throw new ValidationError(validation.errors.join(', '));
+        }
+      },
+      setPassword: async (userId: number, newPassword: string) => {
+        await this.passwordService.resetPassword(userId, newPassword);
+      },
+      revokeAllSessions: async (userId: number) => {
+        await this.logoutAllDevices(userId);
+      }
+    });
+
+    // EmailVerificationService mengaktifkan akun self-registration setelah email diverifikasi
+    this.emailVerificationService = createEmailVerificationService({
+      findUserByEmail: async (email: string) => {
+        const user = await userRepository.findByEmail(email);
+        if (!user) return null;
+        return {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          emailVerifiedAt: user.emailVerifiedAt
+        };
+      },
+      markEmailVerified: async (userId: number) => {
+        await userRepository.update(userId, { active: true, emailVerifiedAt: new Date() });
+      }
+    });
   }
 
   /**
@@ -231,6 +332,16 @@ export class AuthService implements IAuthService {
     return await this.tokenService.verifyRefreshToken(token);
   }
 
+  /**
+   * Pastikan refresh token masih aktif pada session-nya (tidak dirotasi, dihapus, dicabut, atau expired)
+   * Refresh token yang sudah pernah dirotasi diperlakukan sebagai reuse dan mencabut token family
+   * @param token - Refresh token
+   * @throws AuthenticationError jika session refresh token tidak aktif
+   */
+  async assertActiveRefreshSession(token: string): Promise<void> {
+    await this.sessionService.assertActiveRefreshToken(token);
+  }
+
   /**
    * Mendapatkan ringkasan permission user
    * @param userId - ID user
@@ -244,7 +355,7 @@ export class AuthService implements IAuthService {
     }
     
     // Get user role with permissions
-    const userRoles = await userRoleRepository.findByUserId(userId);
+    const userRoles = await userRoleRepository.findActiveByUserId(userId);
     if (userRoles.length === 0) {
       return null;
     }
@@ -279,44 +390,126 @@ export class AuthService implements IAuthService {
 
   /**
    * Memeriksa apakah user memiliki permission untuk feature dan action tertentu
+   * Permission dari semua role (termasuk warisan parent role) digabung dengan deny-override (lihat PermissionChecker)
    * @param userId - ID user
    * @param feature - Nama feature
-   * @param action - Action yang akan dilakukan (create, read, update, delete)
+   * @param action - Action yang akan dilakukan (create, read, update, delete, atau action custom feature)
    * @returns true jika memiliki permission, false jika tidak
    */
   async checkPermission(userId: number, feature: string, action: string): Promise<boolean> {
+    return (await this.evaluatePermission(userId, feature, action)).allowed;
+  }
+
+  /**
+   * Jelaskan keputusan permission user: role kandidat, flag role_features, bypass grantsAll, dan alasan keputusan
+   * Keputusan dihitung dengan logika yang sama dengan checkPermission
+   * @param userId - ID user
+   * @param feature - Nama feature
+   * @param action - Action yang akan dilakukan
+   * @returns Promise<PermissionDecisionTrace> - Jejak keputusan RBAC
+   */
+  async explainPermission(userId: number, feature: string, action: string): Promise<PermissionDecisionTrace> {
+    const trace = await this.evaluatePermission(userId, feature, action);
+    if (!trace.feature) {
+      return trace;
+    }
+
+    const featureId = trace.feature.id;
+    const roles = await Promise.all(trace.roles.map(async (roleTrace) => {
+      const roleFeature = await roleFeatureRepository.findByRoleAndFeature(roleTrace.roleId, featureId);
+      if (!roleFeature) {
+        return roleTrace;
+      }
+      const { id, roleId, featureId: _featureId, ...flags } = roleFeature;
+      return { ...roleTrace, flags };
+    }));
+
+    return { ...trace, roles };
+  }
+
+  /**
+   * Hitung keputusan permission beserta alasannya (dasar checkPermission dan explainPermission)
+   * Hanya memuat data yang dibutuhkan keputusan; flag role_features dimuat terpisah oleh explainPermission
+   * @param userId - ID user
+   * @param feature - Nama feature
+   * @param action - Action yang akan dilakukan
+   * @returns Promise<PermissionDecisionTrace> - Keputusan RBAC tanpa flag role_features
+   */
+  async evaluatePermission(userId: number, feature: string, action: string): Promise<PermissionDecisionTrace> {
+    const trace: PermissionDecisionTrace = {
+      allowed: false,
+      reason: '',
+      feature: null,
+      action,
+      actionDeclared: false,
+      grantsAllRole: null,
+      roles: []
+    };
+    const deny = (reason: string): PermissionDecisionTrace => ({ ...trace, allowed: false, reason });
+
     // Get user data first
     const user = await userRepository.findById(userId);
     if (!user) {
-      return false;
+      return deny('User tidak ditemukan');
     }
     
     // Get user roles with permissions
-    const userRoles = await userRoleRepository.findByUserId(userId);
+    const userRoles = await userRoleRepository.findActiveByUserId(userId);
     if (userRoles.length === 0) {
-      return false;
+      return deny('User tidak memiliki role aktif');
     }
+
+    const roles = await Promise.all(userRoles.map(ur => roleRepository.findById(ur.roleId)));
+    trace.roles = userRoles.map((userRole, index) => ({
+      roleId: userRole.roleId,
+      roleName: roles[index]?.name ?? `Role ${userRole.roleId}`,
+      grantsAll: roles[index]?.grantsAll === true,
+      flags: null,
+      effect: null
+    }));
     
     // Check if any role has grants_all = true
-    for (const userRole of userRoles) {
-      const role = await roleRepository.findById(userRole.roleId);
-      if (role && role.grantsAll) {
-        console.log(`User ${userId} has grants_all access via role ${role.name}`);
-        return true; // Bypass all permission checks
-      }
+    const grantsAllRole = roles.find(role => role?.grantsAll);
+    if (grantsAllRole) {
+      console.log(`User ${userId} has grants_all access via role ${grantsAllRole.name}`);
+      trace.grantsAllRole = grantsAllRole.name;
+      return { ...trace, allowed: true, reason: `Role '${grantsAllRole.name}' memiliki grantsAll (bypass semua cek)` };
     }
     
     // If no grants_all role, check specific permissions
-    const role = await roleRepository.findById(userRoles[0].roleId);
+    const role = roles[0];
     if (!role) {
-      return false;
+      return deny('Role user tidak ditemukan');
     }
     
-    // Get role permissions
-    const roleFeatures = await roleFeatureRepository.findByRoleId(role.id);
-    const permissions = await Promise.all(
-      roleFeatures.map(rf => featureRepository.findById(rf.featureId))
+    // Kumpulkan permission feature:action dari semua role beserta effect-nya (allow/deny)
+    // sehingga PermissionChecker dapat menerapkan deny-override antar role
+    const targetFeature = await featureRepository.findByName(feature);
+    if (!targetFeature) {
+      return deny(`Feature '${feature}' tidak ditemukan`);
+    }
+    trace.feature = { id: targetFeature.id, name: targetFeature.name };
+
+    // Action harus CRUD atau action custom yang dideklarasikan feature
+    if (!(await featureService.hasAction(targetFeature.id, action))) {
+      console.warn(`Action '${action}' tidak dideklarasikan untuk feature ${feature}`);
+      return deny(`Action '${action}' tidak dideklarasikan untuk feature '${feature}'`);
+    }
+    trace.actionDeclared = true;
+    
+    // Effect setiap role sudah termasuk permission yang diwariskan dari parent role
+    const effects = await Promise.all(
+      userRoles.map(ur => rbacService.getEffectiveRoleEffect(ur.roleId, targetFeature.id, action))
     );
+    trace.roles = trace.roles.map((roleTrace, index) => ({ ...roleTrace, effect: effects[index] }));
+    const permissions = effects
+      .filter(effect => effect !== 'unset')
+      .map(effect => ({
+        id: targetFeature.id.toString(),
+        name: `${feature}:${action}`,
+        description: targetFeature.description ?? undefined,
+        effect
+      }));
     
     const userWithRole = {
        ...user,
@@ -324,15 +517,25 @@ export class AuthService implements IAuthService {
        role: {
          ...role,
          id: role.id.toString(),
-         permissions: permissions.filter(Boolean).map(p => ({
-            id: p!.id.toString(),
-            name: p!.name,
-            description: p!.description ?? undefined
-          }))
+         permissions
        }
      };
      
-     return this.permissionService.hasPermission(userWithRole, `${feature}:${action}`);
+    const allowed = this.permissionService.hasPermission(userWithRole, `${feature}:${action}`);
+    const deniedBy = trace.roles.filter(roleTrace => roleTrace.effect === 'deny').map(roleTrace => roleTrace.roleName);
+    const allowedBy = trace.roles.filter(roleTrace => roleTrace.effect === 'allow').map(roleTrace => roleTrace.roleName);
+
+    return {
+      ...trace,
+      allowed,
+      reason: deniedBy.length > 0
+        ? `Ditolak secara eksplisit oleh role ${deniedBy.join(', ')} (deny-override)`
+        : allowedBy.length > 0
+          ? `Diizinkan oleh role ${allowedBy.join(', ')}`
+          : allowed
+            ? 'Diizinkan sebagai super admin'
+            : `Tidak ada role yang mengizinkan ${action} pada '${feature}' (default deny)`
+    };
   }
 
   /**
@@ -349,7 +552,7 @@ export class AuthService implements IAuthService {
     }
     
     // Get user role
-    const userRoles = await userRoleRepository.findByUserId(userId);
+    const userRoles = await userRoleRepository.findActiveByUserId(userId);
     if (userRoles.length === 0) {
       return false;
     }
@@ -388,16 +591,17 @@ export class AuthService implements IAuthService {
   }
 
   /**
-   * Register user baru dengan authentication
+   * Register user baru (self-registration)
    * Business rules:
    * - Validasi input menggunakan ValidationService
    * - Email harus unik
    * - Password di-hash menggunakan bcrypt
-   * - Auto-assign role berdasarkan urutan user
+   * - Akun nonaktif sampai email diverifikasi; token tidak diterbitkan saat registrasi
+   * - Link verifikasi dikirim ke email user
    * @param userData - Data user baru
-   * @returns Promise<AuthResponse> - Response dengan token
+   * @returns Promise<RegistrationResponse> - User baru dan status verifikasi
    */
-  async register(userData: unknown): Promise<AuthResponse> {
+  async register(userData: unknown): Promise<RegistrationResponse> {
     try {
       // Validasi dan parse input data menggunakan method yang sudah ada
       const registrationData = this.validateRegistrationData(userData);
@@ -410,89 +614,137 @@ export class AuthService implements IAuthService {
         password: registrationData.password,
         department: registrationData.department,
         region: registrationData.region,
-        level: registrationData.level
+        level: registrationData.level,
+        requireEmailVerification: true
       }, null);
       
-      // Generate tokens untuk user yang baru dibuat
-      const tokens = this.tokenService.generateTokens({
-        userId: parseInt(userResponse.id),
-        email: userResponse.email
-      });
-      
-      // Buat session untuk user
-      await sessionRepository.create({
-        userId: parseInt(userResponse.id),
-        refreshToken: tokens.refreshToken,
-        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // 7 hari
+      const userId = parseInt(userResponse.id);
+
+      // Kirim link verifikasi email; akun aktif setelah link dibuka
+      await this.emailVerificationService.sendVerification({
+        id: userId,
+        email: userResponse.email,
+        name: userResponse.name,
+        emailVerifiedAt: userResponse.emailVerifiedAt
       });
       
-      // Konversi response ke format AuthResponse
-      const authResponse: AuthResponse = {
+      // Konversi response ke format RegistrationResponse
+      return {
         user: {
-          id: parseInt(userResponse.id),
+          id: userId,
           name: userResponse.name,
           email: userResponse.email,
-          active: true,
+          active: userResponse.active,
           department: userResponse.department,
           region: userResponse.region,
           level: userResponse.level,
           rolesUpdatedAt: null,
+          tokenVersion: 0,
+          emailVerifiedAt: userResponse.emailVerifiedAt,
+          isServiceAccount: false,
           createdAt: userResponse.createdAt,
           updatedAt: userResponse.createdAt
         },
-        accessToken: tokens.accessToken,
-        refreshToken: tokens.refreshToken
+        verificationRequired: true
       };
-      
-      return authResponse;
     } catch (error) {
       console.error('Registration error:', error);
       throw error;
     }
   }
 
+  /**
+   * Verifikasi email dengan token dari link email dan aktifkan akun
+   * @param token - Token verifikasi dari link email
+   * @throws ValidationError jika token tidak valid/expired/sudah dipakai
+   */
+  async verifyEmail(token: string): Promise<void> {
+    await this.emailVerificationService.verifyEmail(token);
+  }
+
+  /**
+   * Kirim ulang link verifikasi email
+   * Tidak membocorkan apakah email terdaftar
+   * @param email - Email user
+   * @throws RateLimitError jika permintaan untuk email ini terlalu sering
+   */
+  async resendEmailVerification(email: string): Promise<void> {
+    await this.emailVerificationService.resendVerification(email);
+  }
+
   /**
    * Login user
    * Business rules:
    * - Validasi input
    * - Verifikasi password
    * - User harus aktif
+   * - User dengan MFA aktif menerima challenge token, bukan token pair
    * @param loginData - Data login
-   * @returns Promise<AuthResponse> - Response dengan token
+   * @returns Promise<AuthResponse | MfaChallengeResponse> - Response dengan token, atau MFA challenge
    */
-  async login(loginData: unknown): Promise<AuthResponse> {
+  async login(loginData: unknown): Promise<AuthResponse | MfaChallengeResponse> {
     try {
       // Validasi dan parse input data
       const credentials = this.validateLoginData(loginData);
       
       // Gunakan UserAuthenticationService untuk proses login
       const loginResponse = await this.userAuthenticationService.login(credentials);
+      if ('mfaRequired' in loginResponse) {
+        return loginResponse;
+      }
       
-      // Konversi response ke format AuthResponse
-       const authResponse: AuthResponse = {
-         user: {
-           id: parseInt(loginResponse.user.id),
-           name: loginResponse.user.name,
-           email: loginResponse.user.email,
-           active: true,
-           department: loginResponse.user.department,
-           region: loginResponse.user.region,
-           level: loginResponse.user.level,
-           rolesUpdatedAt: null,
-           createdAt: new Date(),
-           updatedAt: new Date()
-         },
-         accessToken: loginResponse.tokens.accessToken,
-         refreshToken: loginResponse.tokens.refreshToken
-       };
-      
-      return authResponse;
+      return this.toAuthResponse(loginResponse);
     } catch (error) {
       console.error('Login error:', error);
       throw error;
     }
   }
 
+  /**
+   * Langkah kedua login: tukar challenge token dan kode MFA dengan token pair
+   * @param challengeToken - Challenge token dari response login
+   * @param code - Kode TOTP atau recovery code
+   * @param client - IP address dan user agent client (dicatat di session)
+   * @returns Promise<AuthResponse> - Response dengan token (claim mfa)
+   * @throws AuthenticationError jika challenge token atau kode tidak valid
+   */
+  async verifyMfaLogin(
+    challengeToken: string,
+    code: string,
+    client: { ipAddress?: string; userAgent?: string } = {}
+  ): Promise<AuthResponse> {
+    const loginResponse = await this.userAuthenticationService.verifyMfaLogin({ challengeToken, code, ...client });
+    return this.toAuthResponse(loginResponse);
+  }
+
+  /**
+   * Konversi LoginResponse dari UserAuthenticationService ke format AuthResponse
+   * @param loginResponse - Response login dengan tokens dan session
+   * @returns AuthResponse - Response untuk route auth
+   */
+  private toAuthResponse(loginResponse: LoginResponse): AuthResponse {
+    return {
+      user: {
+        id: parseInt(loginResponse.user.id),
+        name: loginResponse.user.name,
+        email: loginResponse.user.email,
+        active: true,
+        department: loginResponse.user.department,
+        region: loginResponse.user.region,
+        level: loginResponse.user.level,
+        rolesUpdatedAt: null,
+        tokenVersion: 0,
+        emailVerifiedAt: null,
+        // Service account ditolak saat login password
+        isServiceAccount: false,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      },
+      accessToken: loginResponse.tokens.accessToken,
+      refreshToken: loginResponse.tokens.refreshToken
+    };
+  }
+
   /**
    * Validasi data registrasi
    * @param registrationData - Data registrasi yang akan divalidasi
@@ -581,13 +833,41 @@ export class AuthService implements IAuthService {
 
   /**
    * Refresh access token menggunakan refresh token
+   * Refresh token bersifat one-time-use: setiap refresh menerbitkan refresh token baru
+   * dan token lama tidak dapat dipakai lagi
    * @param refreshToken - Refresh token
-   * @returns Object dengan access token baru
-   * @throws AuthenticationError jika refresh token tidak valid
+   * @param options - mfaVerified: tandai token pair baru sebagai MFA-verified
+   * @returns Object dengan access token dan refresh token baru
+   * @throws AuthenticationError jika refresh token tidak valid atau sudah pernah dipakai
+   */
+  async refreshAccessToken(
+    refreshToken: string,
+    options: { mfaVerified?: boolean } = {}
+  ): Promise<{ accessToken: string; refreshToken: string }> {
+    const refreshResponse = await this.userAuthenticationService.refreshToken({
+      refreshToken,
+      mfaVerified: options.mfaVerified
+    });
+    return {
+      accessToken: refreshResponse.accessToken,
+      refreshToken: refreshResponse.refreshToken
+    };
+  }
+
+  /**
+   * Naikkan session yang sedang aktif menjadi MFA-verified setelah user mengonfirmasi enrollment MFA
+   * Refresh token dirotasi dan token pair baru membawa claim mfa
+   * @param userId - ID user yang mengonfirmasi enrollment
+   * @param refreshToken - Refresh token session saat ini
+   * @returns Object dengan access token dan refresh token baru
+   * @throws AuthenticationError jika refresh token bukan milik user
    */
-  async refreshAccessToken(refreshToken: string): Promise<{ accessToken: string }> {
-    const refreshResponse = await this.userAuthenticationService.refreshToken({ refreshToken });
-    return { accessToken: refreshResponse.accessToken };
+  async upgradeSessionToMfa(userId: number, refreshToken: string): Promise<{ accessToken: string; refreshToken: string }> {
+    const payload = await this.tokenService.verifyRefreshToken(refreshToken);
+    if (payload.userId !== userId) {
+      throw new AuthenticationError('Refresh token bukan milik user yang sedang login');
+    }
+    return this.refreshAccessToken(refreshToken, { mfaVerified: true });
   }
 
   /**
@@ -617,6 +897,49 @@ export class AuthService implements IAuthService {
     return true;
   }
 
+  /**
+   * Paksa sign-out user dari semua device (aksi admin)
+   * Semua session diakhiri dan access token yang sudah terbit langsung ditolak
+   * @param userId - ID user
+   * @returns Promise<number | null> - Versi token user yang baru, null jika user tidak ditemukan
+   */
+  async forceSignOut(userId: number): Promise<number | null> {
+    const tokenVersion = await tokenRevocationService.revokeAccessTokens(userId, 'force_sign_out');
+    await this.logoutAllDevices(userId);
+    return tokenVersion;
+  }
+
+  /**
+   * Daftar session aktif user beserta device, IP, dan waktu terakhir aktif
+   * @param userId - ID user
+   * @param currentRefreshToken - Refresh token request saat ini (untuk menandai session yang sedang dipakai)
+   * @returns Promise<UserSessionSummary[]> - Session aktif tanpa refresh token
+   */
+  async getUserSessions(userId: number, currentRefreshToken?: string | null): Promise<UserSessionSummary[]> {
+    return this.sessionService.getUserSessionSummaries(userId.toString(), currentRefreshToken);
+  }
+
+  /**
+   * Sign-out satu session (remote revocation)
+   * Refresh token session tidak dapat dipakai lagi; access token yang sudah terbit berlaku sampai expired
+   * @param sessionId - ID session
+   * @param ownerUserId - Jika diisi, session harus milik user ini (sign-out dari halaman profil)
+   * @returns Promise<Session> - Session yang dicabut
+   * @throws NotFoundError jika session tidak ditemukan, sudah tidak aktif, atau bukan milik user
+   */
+  async revokeSession(sessionId: number, ownerUserId?: number): Promise<Session> {
+    const session = await this.sessionService.getSessionById(sessionId.toString());
+    if (!session || session.expiresAt <= new Date() || (ownerUserId !== undefined && session.userId !== ownerUserId)) {
+      throw new NotFoundError('Session', sessionId);
+    }
+
+    await this.sessionService.deactivateSession(sessionId.toString(), {
+      reason: ownerUserId !== undefined ? 'Signed out by user' : 'Revoked by admin',
+      logActivity: true
+    });
+    return session;
+  }
+
   /**
    * Reset password user (untuk admin atau forgot password)
    * @param userId - ID user
@@ -624,8 +947,30 @@ export class AuthService implements IAuthService {
    * @returns Promise<boolean> - true jika berhasil
    */
   async resetPassword(userId: number, newPassword: string): Promise<boolean> {
-    // Delegate to password service - method needs to be implemented
-    throw new Error('resetPassword method not implemented in PasswordService');
+    await this.passwordService.resetPassword(userId, newPassword);
+    await this.logoutAllDevices(userId);
+    return true;
+  }
+
+  /**
+   * Minta link reset password lewat email (forgot password)
+   * Tidak membocorkan apakah email terdaftar
+   * @param email - Email user
+   * @param options - IP asal permintaan (opsional)
+   * @throws RateLimitError jika permintaan untuk email ini terlalu sering
+   */
+  async requestPasswordReset(email: string, options: PasswordResetRequestOptions = {}): Promise<void> {
+    await this.passwordResetService.requestReset(email, options);
+  }
+
+  /**
+   * Reset password dengan token dari link email, lalu logout dari semua device
+   * @param token - Token reset dari link email
+   * @param newPassword - Password baru
+   * @throws ValidationError jika token tidak valid/expired/sudah dipakai atau password lemah
+   */
+  async resetPasswordWithToken(token: string, newPassword: string): Promise<void> {
+    await this.passwordResetService.resetPassword(token, newPassword);
   }
 
   /**
@@ -676,6 +1021,45 @@ export class AuthErrorHandler {
   }
 }
 
+/**
+ * Bangun user context (role, grants all, kewajiban MFA) untuk user berdasarkan ID
+ * Dipakai verifikasi access token dan explain keputusan otorisasi
+ * @param userId - ID user
+ * @returns AuthenticatedUserContext tanpa status MFA token, null jika user tidak ditemukan
+ */
+export async function getUserContextById(userId: number): Promise<AuthenticatedUserContext | null> {
+  const user = await userRepository.findById(userId);
+  if (!user) {
+    return null;
+  }
+
+  // Get user roles
+  const userRoles = await userRoleRepository.findActiveByUserId(userId);
+  const roles = await Promise.all(
+    userRoles.map(ur => roleRepository.findById(ur.roleId))
+  );
+  
+  const validRoles = roles.filter(Boolean);
+  const roleNames = validRoles.map(role => role!.name);
+  
+  // Check if any role has grantsAll = true
+  const hasGrantsAll = validRoles.some(role => role!.grantsAll === true);
+
+  // Role dengan mfaRequired mewajibkan token hasil login MFA (claim mfa)
+  const mfaRequired = validRoles.some(role => role!.mfaRequired === true);
+
+  // Return user tanpa password hash
+  const { passwordHash, ...userWithoutPassword } = user;
+
+  return {
+    user: userWithoutPassword,
+    roles: roleNames,
+    permissions: [], // TODO: Implement permission loading
+    hasGrantsAll,
+    mfaRequired
+  };
+}
+
 /**
  * Utility function untuk verifikasi token dan mendapatkan user context
  * @param token - JWT token
@@ -692,32 +1076,15 @@ export async function verifyTokenAndGetUserContext(
       return null;
     }
 
-    const user = await userRepository.findById(payload.userId);
-    if (!user || !user.active) {
+    const userContext = await getUserContextById(payload.userId);
+    if (!userContext || !userContext.user.active) {
       return null;
     }
 
-    // Get user roles
-    const userRoles = await userRoleRepository.findByUserId(payload.userId);
-    const roles = await Promise.all(
-      userRoles.map(ur => roleRepository.findById(ur.roleId))
-    );
-    
-    const validRoles = roles.filter(Boolean);
-    const roleNames = validRoles.map(role => role!.name);
-    
-    // Check if any role has grantsAll = true
-    const hasGrantsAll = validRoles.some(role => role!.grantsAll === true);
-
-    // Return user tanpa password hash
-     const { passwordHash, ...userWithoutPassword } = user;
-     
-     return {
-       user: userWithoutPassword,
-       roles: roleNames,
-       permissions: [], // TODO: Implement permission loading
-       hasGrantsAll
-     };
+    return {
+      ...userContext,
+      mfaVerified: payload.mfa === true
+    };
   } catch (error) {
     // Log hanya untuk error yang bukan TokenExpiredError
     if (error instanceof Error && error.name !== 'TokenExpiredError') {
@@ -729,6 +1096,8 @@ export async function verifyTokenAndGetUserContext(
 
 /**
  * Verifikasi refresh token dan mendapatkan user context
+ * Refresh token harus milik session yang masih aktif; token yang sudah dirotasi diperlakukan sebagai reuse
+ * dan claim ver harus sama dengan tokenVersion user
  * @param refreshToken - Refresh token yang akan diverifikasi
  * @returns AuthenticatedUserContext jika valid, null jika tidak valid
  */
@@ -743,13 +1112,22 @@ export async function verifyRefreshTokenAndGetUserContext(
       return null;
     }
 
+    // Signature saja tidak cukup: token harus masih menjadi refresh token aktif sebuah session
+    await authService.assertActiveRefreshSession(refreshToken);
+
     const user = await userRepository.findById(payload.userId);
     if (!user || !user.active) {
       return null;
     }
 
+    // Token yang terbit sebelum tokenVersion dinaikkan (mis. force sign-out) ditolak seperti access token
+    // (token tanpa ver dianggap versi 0)
+    if ((payload.ver ?? 0) !== (user.tokenVersion ?? 0)) {
+      return null;
+    }
+
     // Get user roles
-    const userRoles = await userRoleRepository.findByUserId(payload.userId);
+    const userRoles = await userRoleRepository.findActiveByUserId(payload.userId);
     const roles = await Promise.all(
       userRoles.map(ur => roleRepository.findById(ur.roleId))
     );
@@ -760,6 +1138,9 @@ export async function verifyRefreshTokenAndGetUserContext(
     // Check if any role has grantsAll = true
     const hasGrantsAll = validRoles.some(role => role!.grantsAll === true);
 
+    // Role dengan mfaRequired mewajibkan token hasil login MFA (claim mfa)
+    const mfaRequired = validRoles.some(role => role!.mfaRequired === true);
+
     // Return user tanpa password hash
      const { passwordHash, ...userWithoutPassword } = user;
      
@@ -767,7 +1148,9 @@ export async function verifyRefreshTokenAndGetUserContext(
        user: userWithoutPassword,
        roles: roleNames,
        permissions: [], // TODO: Implement permission loading
-       hasGrantsAll
+       hasGrantsAll,
+       mfaRequired,
+       mfaVerified: payload.mfa === true
      };
   } catch (error) {
     // Log hanya untuk error yang bukan TokenExpiredError
@@ -778,6 +1161,56 @@ export async function verifyRefreshTokenAndGetUserContext(
   }
 }
 
+/**
+ * Verifikasi personal access token dan mendapatkan user context
+ * Token tidak memerlukan MFA; akses dibatasi scope token di tahap authorization
+ * @param token - Personal access token (ymp_...)
+ * @param client - Path, method, IP, dan user agent request untuk lastUsed dan access_logs
+ * @returns AuthenticatedUserContext dengan accessToken jika valid, null jika tidak valid
+ */
+export async function verifyAccessTokenAndGetUserContext(
+  token: string,
+  client: AccessTokenClient
+): Promise<AuthenticatedUserContext | null> {
+  try {
+    const result = await accessTokenService.authenticate(token, client);
+
+    const user = await userRepository.findById(result.userId);
+    if (!user || !user.active) {
+      return null;
+    }
+
+    // Get user roles
+    const userRoles = await userRoleRepository.findActiveByUserId(result.userId);
+    const roles = await Promise.all(
+      userRoles.map(ur => roleRepository.findById(ur.roleId))
+    );
+
+    const validRoles = roles.filter(Boolean);
+    const { passwordHash, ...userWithoutPassword } = user;
+
+    return {
+      user: userWithoutPassword,
+      roles: validRoles.map(role => role!.name),
+      permissions: [],
+      hasGrantsAll: validRoles.some(role => role!.grantsAll === true),
+      // Token automation tidak melalui login interaktif sehingga kewajiban MFA tidak berlaku
+      mfaRequired: false,
+      mfaVerified: false,
+      accessToken: {
+        id: result.tokenId,
+        name: result.name,
+        scopes: result.scopes
+      }
+    };
+  } catch (error) {
+    if (!(error instanceof AuthenticationError)) {
+      console.error('❌ Access token verification failed:', error);
+    }
+    return null;
+  }
+}
+
 // Utility functions untuk backward compatibility
 export async function checkUserPermission(
   userId: number,
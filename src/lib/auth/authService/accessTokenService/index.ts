@@ -0,0 +1,299 @@
+/**
+ * Access Token Service - Modular Implementation
+ *
+ * Struktur folder:
+ * ├── types.ts        - Type definitions, schema validasi, dan konfigurasi token
+ * ├── tokenFormat.ts  - Generate token, deteksi format, dan cek scope
+ * └── index.ts        - Main service class dan exports
+ */
+
+import {
+  personalAccessTokenRepository,
+  featureRepository,
+  userRepository,
+  type PersonalAccessTokenRepository
+} from "@/repositories";
+import type { PersonalAccessToken } from "@/db/schema";
+import { accessLogService } from "@/services/audit/accessLogService";
+import { AuthenticationError, NotFoundError, ValidationError } from "../../../errors/errorHandler";
+import type { AccessTokenScope } from "../../../types";
+import { hashLinkToken } from "../linkToken";
+import { generateAccessToken, getAccessTokenPrefix, isAccessTokenFormat } from "./tokenFormat";
+import {
+  ACCESS_TOKEN_CONFIG,
+  createAccessTokenSchema,
+  type CreateAccessTokenInput,
+  type AccessTokenStatus,
+  type AccessTokenSummary,
+  type CreatedAccessToken,
+  type AccessTokenClient,
+  type AccessTokenAuthResult
+} from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Service untuk personal access token (automation dan service account)
+ * Token disimpan sebagai hash SHA-256, memiliki masa berlaku, dibatasi scope feature/action,
+ * dan setiap pemakaiannya dicatat ke access_logs
+ */
+export class AccessTokenService {
+  constructor(
+    private readonly tokenRepository: PersonalAccessTokenRepository = personalAccessTokenRepository
+  ) {}
+
+  /**
+   * Buat personal access token untuk user
+   * @param ownerId - ID user pemilik token (user biasa atau service account)
+   * @param input - Nama, scope feature/action, dan masa berlaku (hari)
+   * @param createdBy - ID user yang membuat token
+   * @returns Promise<CreatedAccessToken> - Token plaintext (hanya sekali) dan ringkasannya
+   * @throws NotFoundError jika user atau feature tidak ditemukan
+   * @throws ValidationError jika user tidak aktif
+   */
+  async createToken(ownerId: number, input: CreateAccessTokenInput, createdBy: number | null): Promise<CreatedAccessToken> {
+    const validatedData = createAccessTokenSchema.parse(input);
+
+    const owner = await userRepository.findById(ownerId);
+    if (!owner) {
+      throw new NotFoundError('User', ownerId);
+    }
+    if (!owner.active) {
+      throw new ValidationError('Token tidak dapat dibuat untuk user yang tidak aktif');
+    }
+
+    const scopeRows: { featureId: number; action: string }[] = [];
+    for (const scope of this.uniqueScopes(validatedData.scopes)) {
+      const feature = await featureRepository.findByName(scope.feature);
+      if (!feature) {
+        throw new NotFoundError('Feature', scope.feature);
+      }
+      scopeRows.push({ featureId: feature.id, action: scope.action });
+    }
+
+    const token = generateAccessToken();
+    const created = await this.tokenRepository.create({
+      userId: ownerId,
+      name: validatedData.name,
+      tokenPrefix: getAccessTokenPrefix(token),
+      tokenHash: hashLinkToken(token),
+      expiresAt: new Date(Date.now() + validatedData.expiresInDays * DAY_MS),
+      createdBy
+    }, scopeRows);
+
+    console.log(`🔑 Access token ${created.id} created for user ${ownerId}`);
+    return { token, accessToken: await this.toSummary(created) };
+  }
+
+  /**
+   * Ambil semua token milik user (tanpa hash)
+   * @param userId - ID pemilik token
+   * @returns Promise<AccessTokenSummary[]> - Token terbaru lebih dulu
+   */
+  async listTokens(userId: number): Promise<AccessTokenSummary[]> {
+    const tokens = await this.tokenRepository.findByUserId(userId);
+    return Promise.all(tokens.map(token => this.toSummary(token)));
+  }
+
+  /**
+   * Ambil satu token
+   * @param tokenId - ID token
+   * @param ownerId - ID pemilik yang diharapkan (opsional, token milik user lain dianggap tidak ada)
+   * @returns Promise<AccessTokenSummary> - Ringkasan token
+   * @throws NotFoundError jika token tidak ditemukan
+   */
+  async getToken(tokenId: number, ownerId?: number): Promise<AccessTokenSummary> {
+    return this.toSummary(await this.getTokenOrThrow(tokenId, ownerId));
+  }
+
+  /**
+   * Cabut token sehingga tidak dapat dipakai lagi
+   * @param tokenId - ID token
+   * @param ownerId - ID pemilik yang diharapkan (opsional)
+   * @returns Promise<AccessTokenSummary> - Token sebelum dicabut
+   * @throws NotFoundError jika token tidak ditemukan
+   * @throws ValidationError jika token sudah dicabut
+   */
+  async revokeToken(tokenId: number, ownerId?: number): Promise<AccessTokenSummary> {
+    const token = await this.getTokenOrThrow(tokenId, ownerId);
+
+    if (!(await this.tokenRepository.revoke(tokenId))) {
+      throw new ValidationError('Token sudah dicabut');
+    }
+
+    console.log(`🔒 Access token ${tokenId} revoked`);
+    return this.toSummary(token);
+  }
+
+  /**
+   * Cabut semua token aktif milik user
+   * @param userId - ID pemilik token
+   * @returns Promise<number> - Jumlah token yang dicabut
+   */
+  async revokeAllForUser(userId: number): Promise<number> {
+    return this.tokenRepository.revokeAllForUser(userId);
+  }
+
+  /**
+   * Autentikasi bearer token berformat personal access token
+   * Token yang tidak valid, dicabut, expired, atau pemiliknya tidak aktif ditolak
+   * dan penolakannya dicatat ke access_logs
+   * @param token - Token plaintext dari header Authorization
+   * @param client - IP, user agent, path, dan method request
+   * @returns Promise<AccessTokenAuthResult> - Token, pemilik, dan scope
+   * @throws AuthenticationError jika token tidak dapat dipakai
+   */
+  async authenticate(token: string, client: AccessTokenClient): Promise<AccessTokenAuthResult> {
+    if (!isAccessTokenFormat(token)) {
+      throw new AuthenticationError('Access token tidak valid');
+    }
+
+    const record = await this.tokenRepository.findByHash(hashLinkToken(token));
+    if (!record) {
+      throw new AuthenticationError('Access token tidak valid');
+    }
+
+    const now = new Date();
+    const status = this.getStatus(record, now);
+    const owner = await userRepository.findById(record.userId);
+    const rejection = status === 'revoked'
+      ? 'Access token sudah dicabut'
+      : status === 'expired'
+        ? 'Access token sudah kedaluwarsa'
+        : !owner?.active
+          ? 'Pemilik access token tidak aktif'
+          : null;
+
+    if (rejection) {
+      await this.recordUsage(record.id, record.userId, client, 'deny', rejection);
+      throw new AuthenticationError(rejection, { tokenId: record.id });
+    }
+
+    if (!record.lastUsedAt || now.getTime() - record.lastUsedAt.getTime() >= ACCESS_TOKEN_CONFIG.LAST_USED_UPDATE_INTERVAL_MS) {
+      await this.tokenRepository.touchLastUsed(record.id, client.ipAddress ?? null, now);
+    }
+
+    return {
+      tokenId: record.id,
+      userId: record.userId,
+      name: record.name,
+      scopes: await this.getScopes(record.id)
+    };
+  }
+
+  /**
+   * Catat pemakaian token ke access_logs
+   * Gagal mencatat tidak menggagalkan request
+   * @param tokenId - ID token
+   * @param userId - ID pemilik token
+   * @param client - Path, method, IP, dan user agent request
+   * @param decision - Keputusan akses
+   * @param reason - Alasan keputusan (opsional)
+   */
+  async recordUsage(
+    tokenId: number,
+    userId: number,
+    client: AccessTokenClient,
+    decision: 'allow' | 'deny',
+    reason?: string
+  ): Promise<void> {
+    try {
+      await accessLogService.logAccess({
+        userId,
+        path: client.path,
+        method: client.method.toUpperCase(),
+        decision,
+        reason,
+        userAgent: client.userAgent ?? undefined,
+        ipAddress: client.ipAddress ?? undefined,
+        accessTokenId: tokenId
+      });
+    } catch (error) {
+      console.error(`Failed to record access token ${tokenId} usage:`, error);
+    }
+  }
+
+  /**
+   * Hitung status token
+   * @param token - Token dari database
+   * @param at - Waktu acuan (default: sekarang)
+   * @returns AccessTokenStatus - Status token
+   */
+  getStatus(token: PersonalAccessToken, at: Date = new Date()): AccessTokenStatus {
+    if (token.revokedAt) {
+      return 'revoked';
+    }
+    return token.expiresAt <= at ? 'expired' : 'active';
+  }
+
+  /**
+   * Ambil token berdasarkan ID, opsional harus milik user tertentu
+   * @throws NotFoundError jika token tidak ditemukan
+   */
+  private async getTokenOrThrow(tokenId: number, ownerId?: number): Promise<PersonalAccessToken> {
+    const token = await this.tokenRepository.findById(tokenId);
+    if (!token || (ownerId !== undefined && token.userId !== ownerId)) {
+      throw new NotFoundError('Access token', tokenId);
+    }
+    return token;
+  }
+
+  /**
+   * Ambil scope token dalam bentuk nama feature dan action
+   */
+  private async getScopes(tokenId: number): Promise<AccessTokenScope[]> {
+    const scopes = await this.tokenRepository.findScopes(tokenId);
+    return scopes.map(scope => ({ feature: scope.featureName, action: scope.action }));
+  }
+
+  /**
+   * Hilangkan pasangan feature/action duplikat
+   */
+  private uniqueScopes(scopes: AccessTokenScope[]): AccessTokenScope[] {
+    const seen = new Set<string>();
+    return scopes.filter(scope => {
+      const key = `${scope.feature}:${scope.action}`;
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  }
+
+  /**
+   * Ubah token database menjadi ringkasan tanpa hash
+   */
+  private async toSummary(token: PersonalAccessToken): Promise<AccessTokenSummary> {
+    return {
+      id: token.id,
+      userId: token.userId,
+      name: token.name,
+      tokenPrefix: token.tokenPrefix,
+      expiresAt: token.expiresAt,
+      lastUsedAt: token.lastUsedAt,
+      lastUsedIp: token.lastUsedIp,
+      createdBy: token.createdBy,
+      revokedAt: token.revokedAt,
+      createdAt: token.createdAt,
+      scopes: await this.getScopes(token.id),
+      status: this.getStatus(token)
+    };
+  }
+}
+
+/**
+ * Factory function untuk membuat AccessTokenService
+ * @returns AccessTokenService instance
+ */
+export function createAccessTokenService(): AccessTokenService {
+  return new AccessTokenService();
+}
+
+/**
+ * Default access token service instance
+ */
+export const accessTokenService = createAccessTokenService();
+
+export { generateAccessToken, getAccessTokenPrefix, isAccessTokenFormat, hasAccessTokenScope } from "./tokenFormat";
+export * from "./types";
@@ -0,0 +1,48 @@
+/**
+ * Personal Access Token Format
+ * Generate, kenali, dan cek scope personal access token
+ */
+
+import { randomBytes } from 'crypto';
+import type { AccessTokenScope, RbacAction } from '../../../types';
+import { ACCESS_TOKEN_CONFIG } from './types';
+
+// ymp_ diikuti base64url dari TOKEN_BYTES byte acak
+const ACCESS_TOKEN_PATTERN = new RegExp(`^${ACCESS_TOKEN_CONFIG.PREFIX}[A-Za-z0-9_-]{43}$`);
+
+/**
+ * Generate personal access token acak dengan format ymp_<base64url>
+ * @returns Token plaintext yang hanya ditampilkan sekali ke pembuatnya
+ */
+export function generateAccessToken(): string {
+  return `${ACCESS_TOKEN_CONFIG.PREFIX}${randomBytes(ACCESS_TOKEN_CONFIG.TOKEN_BYTES).toString('base64url')}`;
+}
+
+/**
+ * Ambil bagian awal token untuk identifikasi di UI tanpa membuka token
+ * @param token - Token plaintext
+ * @returns Prefix token (contoh: ymp_Ab3dE6gH)
+ */
+export function getAccessTokenPrefix(token: string): string {
+  return token.substring(0, ACCESS_TOKEN_CONFIG.DISPLAY_PREFIX_LENGTH);
+}
+
+/**
+ * Cek apakah bearer token berbentuk personal access token (bukan JWT)
+ * @param token - Token dari header Authorization
+ * @returns true jika format personal access token
+ */
+export function isAccessTokenFormat(token: string): boolean {
+  return ACCESS_TOKEN_PATTERN.test(token.trim());
+}
+
+/**
+ * Cek apakah scope token mencakup feature dan action
+ * @param scopes - Scope token
+ * @param feature - Nama feature
+ * @param action - Action yang diminta
+ * @returns true jika pasangan feature/action ada di scope token
+ */
+export function hasAccessTokenScope(scopes: AccessTokenScope[], feature: string, action: RbacAction): boolean {
+  return scopes.some(scope => scope.feature === feature && scope.action === action);
+}
@@ -0,0 +1,91 @@
+import { z } from "zod";
+import type { AccessTokenScope } from "../../../types";
+
+/**
+ * Types dan konfigurasi untuk Access Token Service (personal access token untuk automation)
+ */
+
+/**
+ * Konfigurasi personal access token
+ */
+export const ACCESS_TOKEN_CONFIG = {
+  // Prefix penanda token, membedakan personal access token dari JWT di header Authorization
+  PREFIX: 'ymp_',
+  TOKEN_BYTES: 32, // 256-bit
+  // Panjang awal token yang disimpan plaintext untuk identifikasi di UI
+  DISPLAY_PREFIX_LENGTH: 12,
+  DEFAULT_EXPIRY_DAYS: 90,
+  MAX_EXPIRY_DAYS: Number(process.env.ACCESS_TOKEN_MAX_EXPIRY_DAYS) || 365,
+  // Interval minimum antar update lastUsedAt agar setiap request tidak menulis ke database
+  LAST_USED_UPDATE_INTERVAL_MS: 60 * 1000,
+} as const;
+
+/**
+ * Schema validasi untuk membuat personal access token
+ * Scope minimal satu pasangan feature/action; token tidak pernah melebihi permission pemiliknya
+ */
+export const createAccessTokenSchema = z.object({
+  name: z.string().trim().min(1, "Nama token tidak boleh kosong").max(100, "Nama token maksimal 100 karakter"),
+  scopes: z.array(z.object({
+    feature: z.string().trim().min(1, "Feature tidak boleh kosong"),
+    action: z.string().trim().min(1, "Action tidak boleh kosong").max(50, "Action maksimal 50 karakter"),
+  })).min(1, "Token harus memiliki minimal satu scope"),
+  expiresInDays: z.number().int()
+    .min(1, "Masa berlaku minimal 1 hari")
+    .max(ACCESS_TOKEN_CONFIG.MAX_EXPIRY_DAYS, `Masa berlaku maksimal ${ACCESS_TOKEN_CONFIG.MAX_EXPIRY_DAYS} hari`)
+    .default(ACCESS_TOKEN_CONFIG.DEFAULT_EXPIRY_DAYS),
+});
+
+export type CreateAccessTokenInput = z.input<typeof createAccessTokenSchema>;
+
+/**
+ * Status token (diturunkan dari kolom revokedAt/expiresAt)
+ */
+export type AccessTokenStatus = 'active' | 'expired' | 'revoked';
+
+/**
+ * Ringkasan token untuk ditampilkan di UI
+ * Hash token tidak pernah dikirim ke client
+ */
+export interface AccessTokenSummary {
+  id: number;
+  userId: number;
+  name: string;
+  tokenPrefix: string;
+  scopes: AccessTokenScope[];
+  status: AccessTokenStatus;
+  expiresAt: Date;
+  lastUsedAt: Date | null;
+  lastUsedIp: string | null;
+  createdBy: number | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Token yang baru dibuat; plaintext token hanya dikembalikan sekali
+ */
+export interface CreatedAccessToken {
+  token: string;
+  accessToken: AccessTokenSummary;
+}
+
+/**
+ * Informasi client yang memakai token, untuk lastUsed dan access_logs
+ */
+export interface AccessTokenClient {
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  path: string;
+  method: string;
+}
+
+/**
+ * Hasil autentikasi personal access token
+ */
+export interface AccessTokenAuthResult {
+  tokenId: number;
+  userId: number;
+  name: string;
+  scopes: AccessTokenScope[];
+}
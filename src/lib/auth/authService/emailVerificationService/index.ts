@@ -0,0 +1,158 @@
+/**
+ * Email Verification Service - Modular Implementation
+ *
+ * Struktur folder:
+ * ├── types.ts  - Type definitions dan konfigurasi token verifikasi
+ * └── index.ts  - Main service class dan exports
+ *
+ * Environment:
+ * - APP_URL: base URL aplikasi untuk link verifikasi di email (default: http://localhost:3000)
+ * - EMAIL_VERIFICATION_TOKEN_EXPIRY_HOURS: masa berlaku token verifikasi (default: 24)
+ */
+
+import {
+  emailVerificationTokenRepository,
+  type EmailVerificationTokenRepository
+} from "@/repositories";
+import { ValidationError } from "../../../errors/errorHandler";
+import { rateLimiter, isRateLimitEnabled, type SlidingWindowRateLimiter, type RateLimitRule } from "../../../rateLimit";
+import { mailTransport, getMailFrom, type MailTransport } from "../../../mail";
+import { generateLinkToken, hashLinkToken, buildTokenLink } from "../linkToken";
+import {
+  EMAIL_VERIFICATION_CONFIG,
+  type EmailVerificationHandlers,
+  type EmailVerificationUser
+} from "./types";
+
+// Prefix key rate limit kirim ulang email verifikasi per email
+const EMAIL_VERIFICATION_KEY_PREFIX = 'email-verification:';
+
+/**
+ * Service untuk verifikasi email self-registration
+ * Akun tetap nonaktif sampai link verifikasi (token acak, di-hash, sekali pakai) dibuka
+ */
+export class EmailVerificationService {
+  private readonly resendRule: RateLimitRule = {
+    limit: EMAIL_VERIFICATION_CONFIG.MAX_RESENDS_PER_EMAIL,
+    windowMs: EMAIL_VERIFICATION_CONFIG.RESEND_WINDOW
+  };
+
+  constructor(
+    private readonly handlers: EmailVerificationHandlers,
+    private readonly tokenRepository: EmailVerificationTokenRepository = emailVerificationTokenRepository,
+    private readonly transport: MailTransport = mailTransport,
+    private readonly limiter: SlidingWindowRateLimiter = rateLimiter
+  ) {}
+
+  /**
+   * Buat token verifikasi dan kirim link verifikasi ke email user
+   * Token lama user yang belum dipakai diinvalidasi
+   * @param user - User yang baru mendaftar
+   */
+  async sendVerification(user: EmailVerificationUser): Promise<void> {
+    await this.tokenRepository.invalidateForUser(user.id);
+
+    const token = generateLinkToken(EMAIL_VERIFICATION_CONFIG.TOKEN_BYTES);
+    await this.tokenRepository.create({
+      userId: user.id,
+      tokenHash: hashLinkToken(token),
+      expiresAt: new Date(Date.now() + EMAIL_VERIFICATION_CONFIG.TOKEN_EXPIRY_HOURS * 60 * 60 * 1000)
+    });
+
+    await this.transport.send(this.buildVerificationEmail(user, token));
+    console.log(`✅ Email verification link sent to user ${user.id}`);
+  }
+
+  /**
+   * Kirim ulang link verifikasi untuk email yang belum diverifikasi
+   * Selalu selesai tanpa error untuk email tidak terdaftar atau sudah terverifikasi
+   * agar keberadaan akun tidak bocor
+   * @param email - Email user
+   * @throws RateLimitError jika permintaan untuk email ini terlalu sering
+   */
+  async resendVerification(email: string): Promise<void> {
+    const normalizedEmail = email.toLowerCase().trim();
+
+    if (isRateLimitEnabled()) {
+      await this.limiter.enforce(
+        `${EMAIL_VERIFICATION_KEY_PREFIX}${normalizedEmail}`,
+        this.resendRule,
+        'Terlalu banyak permintaan email verifikasi. Coba lagi nanti.',
+        'email-verification'
+      );
+    }
+
+    const user = await this.handlers.findUserByEmail(normalizedEmail);
+    if (!user || user.emailVerifiedAt) {
+      console.log(`ℹ️ Email verification resend requested for unknown or verified account`);
+      return;
+    }
+
+    await this.sendVerification(user);
+  }
+
+  /**
+   * Verifikasi email dengan token dari link, lalu aktifkan akun
+   * @param token - Token dari link verifikasi
+   * @returns Promise<number> - ID user yang terverifikasi
+   * @throws ValidationError jika token tidak valid/expired/sudah dipakai
+   */
+  async verifyEmail(token: string): Promise<number> {
+    const verificationToken = token
+      ? await this.tokenRepository.findValidByHash(hashLinkToken(token))
+      : null;
+    if (!verificationToken || !(await this.tokenRepository.consume(verificationToken.id))) {
+      throw new ValidationError('Link verifikasi email tidak valid atau sudah kedaluwarsa');
+    }
+
+    await this.handlers.markEmailVerified(verificationToken.userId);
+    await this.tokenRepository.invalidateForUser(verificationToken.userId);
+
+    console.log(`✅ Email verified for user ${verificationToken.userId}`);
+    return verificationToken.userId;
+  }
+
+  /**
+   * Hapus token verifikasi yang sudah expired
+   * @returns Promise<number> - Jumlah token yang dihapus
+   */
+  async cleanupExpiredTokens(): Promise<number> {
+    return this.tokenRepository.deleteExpired();
+  }
+
+  /**
+   * Susun email berisi link verifikasi
+   */
+  private buildVerificationEmail(user: EmailVerificationUser, token: string) {
+    const link = buildTokenLink(EMAIL_VERIFICATION_CONFIG.VERIFY_PATH, token);
+    const expiryHours = EMAIL_VERIFICATION_CONFIG.TOKEN_EXPIRY_HOURS;
+
+    return {
+      from: getMailFrom(),
+      to: user.email,
+      subject: 'Verifikasi email akun YesMan',
+      text: [
+        `Halo ${user.name},`,
+        '',
+        'Terima kasih telah mendaftar. Akun Anda akan aktif setelah email diverifikasi.',
+        `Buka link berikut untuk memverifikasi email (berlaku ${expiryHours} jam):`,
+        link,
+        '',
+        'Abaikan email ini jika Anda tidak mendaftar.'
+      ].join('\n')
+    };
+  }
+}
+
+/**
+ * Factory function untuk membuat EmailVerificationService
+ * @param handlers - Dependency untuk cari user dan aktifkan akun
+ * @returns EmailVerificationService instance
+ */
+export function createEmailVerificationService(handlers: EmailVerificationHandlers): EmailVerificationService {
+  return new EmailVerificationService(handlers);
+}
+
+// Export types
+export { EMAIL_VERIFICATION_CONFIG } from "./types";
+export type { EmailVerificationHandlers, EmailVerificationUser } from "./types";
@@ -0,0 +1,37 @@
+/**
+ * Types dan konfigurasi untuk Email Verification Service (verifikasi email self-registration)
+ */
+
+/**
+ * Konfigurasi token verifikasi email
+ */
+export const EMAIL_VERIFICATION_CONFIG = {
+  TOKEN_BYTES: 32, // 256-bit token acak
+  TOKEN_EXPIRY_HOURS: Number(process.env.EMAIL_VERIFICATION_TOKEN_EXPIRY_HOURS) || 24,
+  // Batas kirim ulang email verifikasi per email
+  MAX_RESENDS_PER_EMAIL: 3,
+  RESEND_WINDOW: 60 * 60 * 1000, // 1 jam
+  VERIFY_PATH: '/verify-email',
+} as const;
+
+/**
+ * User yang dibutuhkan untuk mengirim dan memproses verifikasi email
+ */
+export interface EmailVerificationUser {
+  id: number;
+  email: string;
+  name: string;
+  emailVerifiedAt: Date | null;
+}
+
+/**
+ * Dependency untuk mencari user dan mengaktifkan akun setelah email terverifikasi
+ * Diisi oleh AuthService
+ */
+export interface EmailVerificationHandlers {
+  findUserByEmail(email: string): Promise<EmailVerificationUser | null>;
+  /**
+   * Tandai email terverifikasi dan aktifkan akun
+   */
+  markEmailVerified(userId: number): Promise<void>;
+}
@@ -9,6 +9,13 @@ export { TokenService, createTokenService } from './tokenService/index';
 export { PasswordService, passwordService } from './passwordService';
 export { PermissionService, permissionService } from './permissionService';
 export { SessionService } from './sessionService';
+export { MfaService, mfaService } from './mfaService';
+export { AccessTokenService, accessTokenService, isAccessTokenFormat } from './accessTokenService';
+export { SigningKeyService, signingKeyService } from './signingKeyService';
+export { TokenRevocationService, tokenRevocationService } from './tokenRevocationService';
+export { PasswordResetService, createPasswordResetService } from './passwordResetService';
+export { EmailVerificationService, createEmailVerificationService } from './emailVerificationService';
+export { generateLinkToken, hashLinkToken, buildTokenLink } from './linkToken';
 
 // Types
 export type {
@@ -23,6 +30,8 @@ export type {
 export {
   verifyTokenAndGetUserContext,
   verifyRefreshTokenAndGetUserContext,
+  getUserContextById,
+  verifyAccessTokenAndGetUserContext,
   checkUserPermission,
   hasRole,
   hasAnyRole
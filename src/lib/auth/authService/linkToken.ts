@@ -0,0 +1,34 @@
+import { randomBytes, createHash } from "crypto";
+
+// Base URL aplikasi untuk link di email (reset password, verifikasi email, undangan)
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+
+/**
+ * Generate token acak untuk link email (base64url)
+ * @param bytes - Jumlah byte acak (default: 32 / 256-bit)
+ * @returns string - Token plaintext yang dikirim lewat email
+ */
+export function generateLinkToken(bytes: number = 32): string {
+  return randomBytes(bytes).toString('base64url');
+}
+
+/**
+ * Hash token link email untuk disimpan dan dicari di database
+ * @param token - Token plaintext
+ * @returns string - SHA-256 hex
+ */
+export function hashLinkToken(token: string): string {
+  return createHash('sha256').update(token.trim()).digest('hex');
+}
+
+/**
+ * Buat link halaman aplikasi dengan token sebagai query parameter
+ * @param path - Path halaman (contoh: /reset-password)
+ * @param token - Token plaintext
+ * @returns string - URL absolut dengan ?token=...
+ */
+export function buildTokenLink(path: string, token: string): string {
+  const url = new URL(path, APP_URL);
+  url.searchParams.set('token', token);
+  return url.toString();
+}
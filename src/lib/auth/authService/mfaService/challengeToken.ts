@@ -0,0 +1,56 @@
+/**
+ * MFA Challenge Token
+ * Token berumur pendek yang diterbitkan login setelah password valid,
+ * ditukar dengan token pair setelah faktor kedua diverifikasi
+ */
+
+import { createHash } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { getJWTConfig } from '../tokenService/constants';
+import { AuthenticationError } from '../../../errors/errorHandler';
+import { MFA_CONFIG, type MfaChallengePayload } from './types';
+
+const CHALLENGE_PURPOSE = 'mfa_challenge';
+
+/**
+ * Secret khusus challenge token, diturunkan dari JWT secret
+ * Sengaja berbeda dari secret access token agar challenge token tidak dapat dipakai sebagai access token
+ * @returns Secret HMAC challenge token
+ */
+function getChallengeSecret(): string {
+  return createHash('sha256').update(`${CHALLENGE_PURPOSE}:${getJWTConfig().accessTokenSecret}`).digest('hex');
+}
+
+/**
+ * Terbitkan challenge token untuk user yang password-nya sudah diverifikasi
+ * @param payload - Data user dan opsi login yang dibawa ke langkah verifikasi MFA
+ * @returns Challenge token (JWT HS256)
+ */
+export function signMfaChallengeToken(payload: Omit<MfaChallengePayload, 'purpose' | 'iat' | 'exp'>): string {
+  return jwt.sign(
+    { ...payload, purpose: CHALLENGE_PURPOSE },
+    getChallengeSecret(),
+    { algorithm: 'HS256', expiresIn: MFA_CONFIG.CHALLENGE_TOKEN_EXPIRY_SECONDS }
+  );
+}
+
+/**
+ * Verifikasi challenge token
+ * @param token - Challenge token dari response login
+ * @returns Payload challenge token
+ * @throws AuthenticationError jika token tidak valid atau expired
+ */
+export function verifyMfaChallengeToken(token: string): MfaChallengePayload {
+  try {
+    const payload = jwt.verify(token, getChallengeSecret(), { algorithms: ['HS256'] }) as MfaChallengePayload;
+    if (payload.purpose !== CHALLENGE_PURPOSE || !payload.userId) {
+      throw new AuthenticationError('Challenge token MFA tidak valid');
+    }
+    return payload;
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      throw error;
+    }
+    throw new AuthenticationError('Challenge token MFA tidak valid atau sudah kedaluwarsa');
+  }
+}
@@ -0,0 +1,297 @@
+/**
+ * MFA Service - Modular Implementation
+ * 
+ * Struktur folder:
+ * ├── types.ts           - Type definitions dan konfigurasi TOTP/MFA
+ * ├── totp.ts            - Perhitungan dan verifikasi kode TOTP (RFC 6238)
+ * ├── secretCipher.ts    - Enkripsi secret TOTP at-rest (AES-256-GCM)
+ * ├── recoveryCodes.ts   - Generate dan hash recovery code sekali pakai
+ * ├── challengeToken.ts  - Challenge token untuk login dua langkah
+ * └── index.ts           - Main service class dan exports
+ */
+
+import {
+  userMfaRepository,
+  mfaRecoveryCodeRepository,
+  userRoleRepository,
+  roleRepository,
+  type UserMfaRepository,
+  type MfaRecoveryCodeRepository
+} from "@/repositories";
+import { AuthenticationError, ValidationError } from "../../../errors/errorHandler";
+import { rateLimiter, isRateLimitEnabled, type SlidingWindowRateLimiter, type RateLimitRule } from "../../../rateLimit";
+import { Totp, totp } from "./totp";
+import { encryptMfaSecret, decryptMfaSecret } from "./secretCipher";
+import { generateRecoveryCodes, hashRecoveryCode, isRecoveryCodeFormat } from "./recoveryCodes";
+import { signMfaChallengeToken, verifyMfaChallengeToken } from "./challengeToken";
+import {
+  MFA_CONFIG,
+  type MfaStatus,
+  type MfaEnrollment,
+  type MfaVerificationResult,
+  type MfaChallengePayload,
+  type MfaChallengeResponse
+} from "./types";
+
+// Prefix key rate limit untuk percobaan verifikasi kode MFA gagal per user
+const MFA_VERIFY_KEY_PREFIX = 'mfa:verify:';
+
+/**
+ * Service untuk multi-factor authentication berbasis TOTP
+ * Menangani enrollment, verifikasi kode (TOTP atau recovery code), dan challenge login dua langkah
+ */
+export class MfaService {
+  private readonly verifyRule: RateLimitRule = {
+    limit: MFA_CONFIG.MAX_VERIFY_ATTEMPTS,
+    windowMs: MFA_CONFIG.VERIFY_LOCKOUT_DURATION
+  };
+
+  constructor(
+    private readonly mfaRepository: UserMfaRepository = userMfaRepository,
+    private readonly recoveryCodeRepository: MfaRecoveryCodeRepository = mfaRecoveryCodeRepository,
+    private readonly totpService: Totp = totp,
+    private readonly limiter: SlidingWindowRateLimiter = rateLimiter
+  ) {}
+
+  /**
+   * Ambil status MFA user
+   * @param userId - ID user
+   * @returns Promise<MfaStatus> - Status enrollment, recovery code tersisa, dan kewajiban MFA dari role
+   */
+  async getStatus(userId: number): Promise<MfaStatus> {
+    const [mfa, required] = await Promise.all([
+      this.mfaRepository.findByUserId(userId),
+      this.isMfaRequired(userId)
+    ]);
+    const enabled = !!mfa?.enabledAt;
+
+    return {
+      enabled,
+      pending: !!mfa && !enabled,
+      enabledAt: mfa?.enabledAt ?? null,
+      recoveryCodesRemaining: enabled ? await this.recoveryCodeRepository.countUnused(userId) : 0,
+      required
+    };
+  }
+
+  /**
+   * Cek apakah user sudah mengaktifkan MFA
+   * @param userId - ID user
+   * @returns Promise<boolean> - true jika enrollment sudah dikonfirmasi
+   */
+  async isEnabled(userId: number): Promise<boolean> {
+    const mfa = await this.mfaRepository.findByUserId(userId);
+    return !!mfa?.enabledAt;
+  }
+
+  /**
+   * Cek apakah minimal satu role aktif user mewajibkan MFA
+   * @param userId - ID user
+   * @returns Promise<boolean> - true jika MFA wajib untuk user
+   */
+  async isMfaRequired(userId: number): Promise<boolean> {
+    const userRoles = await userRoleRepository.findActiveByUserId(userId);
+    const roles = await Promise.all(userRoles.map(userRole => roleRepository.findById(userRole.roleId)));
+    return roles.some(role => role?.mfaRequired === true);
+  }
+
+  /**
+   * Mulai enrollment TOTP: buat secret baru yang belum aktif sampai dikonfirmasi dengan kode valid
+   * @param userId - ID user
+   * @param accountName - Nama akun di aplikasi authenticator (email user)
+   * @returns Promise<MfaEnrollment> - Secret dan provisioning URI untuk QR code
+   * @throws ValidationError jika MFA sudah aktif
+   */
+  async startEnrollment(userId: number, accountName: string): Promise<MfaEnrollment> {
+    if (await this.isEnabled(userId)) {
+      throw new ValidationError('MFA sudah aktif. Nonaktifkan MFA terlebih dahulu untuk enroll ulang');
+    }
+
+    const secret = this.totpService.generateSecret();
+    await this.mfaRepository.savePendingSecret(userId, encryptMfaSecret(secret));
+
+    return {
+      secret,
+      provisioningUri: this.totpService.buildProvisioningUri(secret, accountName),
+      issuer: MFA_CONFIG.ISSUER,
+      accountName
+    };
+  }
+
+  /**
+   * Konfirmasi enrollment dengan kode TOTP dari aplikasi authenticator
+   * @param userId - ID user
+   * @param code - Kode TOTP
+   * @returns Promise<string[]> - Recovery code plaintext (hanya ditampilkan sekali)
+   * @throws ValidationError jika tidak ada enrollment pending atau kode tidak valid
+   */
+  async confirmEnrollment(userId: number, code: string): Promise<string[]> {
+    const mfa = await this.mfaRepository.findByUserId(userId);
+    if (!mfa || mfa.enabledAt) {
+      throw new ValidationError('Tidak ada enrollment MFA yang menunggu konfirmasi');
+    }
+
+    const step = this.totpService.verify(decryptMfaSecret(mfa.secretEncrypted), code);
+    if (step === null) {
+      throw new ValidationError('Kode MFA tidak valid');
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    const enabled = await this.mfaRepository.enable(userId, step, recoveryCodes.map(hashRecoveryCode));
+    if (!enabled) {
+      throw new ValidationError('Tidak ada enrollment MFA yang menunggu konfirmasi');
+    }
+
+    console.log(`✅ MFA enabled for user: ${userId}`);
+    return recoveryCodes;
+  }
+
+  /**
+   * Verifikasi kode MFA user: kode TOTP atau recovery code sekali pakai
+   * Kode TOTP yang sudah pernah diterima (time step sama atau lebih lama) ditolak untuk mencegah replay
+   * @param userId - ID user
+   * @param code - Kode TOTP atau recovery code
+   * @returns Promise<MfaVerificationResult> - Metode yang dipakai dan sisa recovery code
+   * @throws RateLimitError jika terlalu banyak percobaan gagal
+   * @throws AuthenticationError jika MFA belum aktif atau kode tidak valid
+   */
+  async verifyCode(userId: number, code: string): Promise<MfaVerificationResult> {
+    await this.checkVerifyRateLimit(userId);
+
+    const mfa = await this.mfaRepository.findByUserId(userId);
+    if (!mfa?.enabledAt) {
+      throw new AuthenticationError('MFA belum aktif untuk user ini');
+    }
+
+    let result: MfaVerificationResult | null = null;
+    if (isRecoveryCodeFormat(code)) {
+      if (await this.recoveryCodeRepository.consume(userId, hashRecoveryCode(code))) {
+        result = {
+          method: 'recovery_code',
+          recoveryCodesRemaining: await this.recoveryCodeRepository.countUnused(userId)
+        };
+      }
+    } else {
+      const step = this.totpService.verify(decryptMfaSecret(mfa.secretEncrypted), code);
+      if (step !== null && await this.mfaRepository.markStepUsed(userId, step)) {
+        result = { method: 'totp' };
+      }
+    }
+
+    if (!result) {
+      if (isRateLimitEnabled()) {
+        await this.limiter.consume(this.getVerifyKey(userId), this.verifyRule);
+      }
+      throw new AuthenticationError('Kode MFA tidak valid');
+    }
+
+    await this.limiter.reset(this.getVerifyKey(userId));
+    return result;
+  }
+
+  /**
+   * Buat ulang recovery code; semua recovery code lama tidak berlaku lagi
+   * @param userId - ID user
+   * @param code - Kode MFA saat ini sebagai konfirmasi
+   * @returns Promise<string[]> - Recovery code plaintext baru
+   */
+  async regenerateRecoveryCodes(userId: number, code: string): Promise<string[]> {
+    await this.verifyCode(userId, code);
+
+    const recoveryCodes = generateRecoveryCodes();
+    await this.recoveryCodeRepository.replaceForUser(userId, recoveryCodes.map(hashRecoveryCode));
+    return recoveryCodes;
+  }
+
+  /**
+   * Nonaktifkan MFA oleh user sendiri (memerlukan kode MFA valid)
+   * @param userId - ID user
+   * @param code - Kode MFA saat ini sebagai konfirmasi
+   */
+  async disable(userId: number, code: string): Promise<void> {
+    await this.verifyCode(userId, code);
+    await this.mfaRepository.deleteByUserId(userId);
+    console.log(`✅ MFA disabled for user: ${userId}`);
+  }
+
+  /**
+   * Reset MFA user oleh admin (misalnya perangkat authenticator hilang)
+   * @param userId - ID user
+   * @returns Promise<boolean> - true jika user memiliki enrollment yang dihapus
+   */
+  async reset(userId: number): Promise<boolean> {
+    const deleted = await this.mfaRepository.deleteByUserId(userId);
+    await this.limiter.reset(this.getVerifyKey(userId));
+    return deleted;
+  }
+
+  /**
+   * Terbitkan challenge login untuk user yang password-nya valid dan MFA-nya aktif
+   * @param user - ID dan email user
+   * @param rememberMe - Opsi remember me dari request login
+   * @returns MfaChallengeResponse - Challenge token yang ditukar melalui endpoint verifikasi MFA
+   */
+  createChallenge(user: { userId: number; email: string }, rememberMe: boolean = false): MfaChallengeResponse {
+    return {
+      mfaRequired: true,
+      challengeToken: signMfaChallengeToken({ ...user, rememberMe }),
+      expiresIn: MFA_CONFIG.CHALLENGE_TOKEN_EXPIRY_SECONDS
+    };
+  }
+
+  /**
+   * Verifikasi challenge token dari langkah pertama login
+   * @param challengeToken - Challenge token
+   * @returns MfaChallengePayload - Payload challenge
+   * @throws AuthenticationError jika token tidak valid atau expired
+   */
+  verifyChallenge(challengeToken: string): MfaChallengePayload {
+    return verifyMfaChallengeToken(challengeToken);
+  }
+
+  /**
+   * Tolak verifikasi jika percobaan gagal sudah mencapai batas
+   * @param userId - ID user
+   * @throws RateLimitError jika terlalu banyak percobaan gagal
+   */
+  private async checkVerifyRateLimit(userId: number): Promise<void> {
+    if (!isRateLimitEnabled()) {
+      return;
+    }
+
+    const result = await this.limiter.peek(this.getVerifyKey(userId), this.verifyRule);
+    if (!result.allowed) {
+      const remainingTime = Math.max(1, Math.ceil(result.retryAfter / 60));
+      throw this.limiter.toError(
+        result,
+        `Terlalu banyak percobaan kode MFA. Coba lagi dalam ${remainingTime} menit.`,
+        'mfa-verify'
+      );
+    }
+  }
+
+  /**
+   * Key rate limit verifikasi MFA per user
+   */
+  private getVerifyKey(userId: number): string {
+    return `${MFA_VERIFY_KEY_PREFIX}${userId}`;
+  }
+}
+
+/**
+ * Factory function untuk membuat MfaService
+ * @returns MfaService instance
+ */
+export function createMfaService(): MfaService {
+  return new MfaService();
+}
+
+/**
+ * Default MFA service instance
+ */
+export const mfaService = createMfaService();
+
+export { Totp, totp, createTotp } from "./totp";
+export { encryptMfaSecret, decryptMfaSecret } from "./secretCipher";
+export { generateRecoveryCodes, hashRecoveryCode } from "./recoveryCodes";
+export * from "./types";
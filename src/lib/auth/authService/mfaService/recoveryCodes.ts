@@ -0,0 +1,51 @@
+/**
+ * MFA Recovery Codes
+ * Generate dan hash recovery code sekali pakai
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { MFA_CONFIG } from './types';
+
+// Tanpa karakter yang mudah tertukar (0/O, 1/I/L)
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const RECOVERY_CODE_GROUP_LENGTH = 5;
+
+/**
+ * Normalisasi recovery code sebelum di-hash (case dan separator diabaikan)
+ * @param code - Recovery code yang diinput user
+ * @returns Recovery code ternormalisasi
+ */
+function normalizeRecoveryCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Generate recovery code acak dengan format XXXXX-XXXXX
+ * @param count - Jumlah recovery code (default: MFA_CONFIG.RECOVERY_CODE_COUNT)
+ * @returns Array recovery code plaintext
+ */
+export function generateRecoveryCodes(count: number = MFA_CONFIG.RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const bytes = randomBytes(RECOVERY_CODE_GROUP_LENGTH * 2);
+    const chars = Array.from(bytes, byte => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]);
+    return `${chars.slice(0, RECOVERY_CODE_GROUP_LENGTH).join('')}-${chars.slice(RECOVERY_CODE_GROUP_LENGTH).join('')}`;
+  });
+}
+
+/**
+ * Hash recovery code untuk disimpan dan dicocokkan
+ * @param code - Recovery code plaintext
+ * @returns SHA-256 hex
+ */
+export function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+/**
+ * Cek apakah input berbentuk recovery code (bukan kode TOTP numerik)
+ * @param code - Kode yang diinput user
+ * @returns true jika format recovery code
+ */
+export function isRecoveryCodeFormat(code: string): boolean {
+  return normalizeRecoveryCode(code).length === RECOVERY_CODE_GROUP_LENGTH * 2;
+}
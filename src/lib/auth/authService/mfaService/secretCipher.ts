@@ -0,0 +1,49 @@
+/**
+ * MFA Secret Cipher
+ * Enkripsi secret TOTP at-rest menggunakan AES-256-GCM
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { getJWTConfig } from '../tokenService/constants';
+
+const CIPHER_ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+
+/**
+ * Ambil key enkripsi 32 byte dari MFA_ENCRYPTION_KEY
+ * Fallback ke turunan JWT secret agar environment development tetap berjalan
+ * @returns Buffer key AES-256
+ */
+function getEncryptionKey(): Buffer {
+  const material = process.env.MFA_ENCRYPTION_KEY || `mfa-secret:${getJWTConfig().accessTokenSecret}`;
+  return createHash('sha256').update(material).digest();
+}
+
+/**
+ * Enkripsi secret TOTP
+ * @param secret - Secret base32 plaintext
+ * @returns String iv:authTag:ciphertext (base64)
+ */
+export function encryptMfaSecret(secret: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(CIPHER_ALGORITHM, getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join(':');
+}
+
+/**
+ * Dekripsi secret TOTP
+ * @param payload - String iv:authTag:ciphertext (base64)
+ * @returns Secret base32 plaintext
+ * @throws Error jika payload rusak atau key tidak cocok
+ */
+export function decryptMfaSecret(payload: string): string {
+  const [iv, authTag, encrypted] = payload.split(':').map(part => Buffer.from(part, 'base64'));
+  if (!iv || !authTag || !encrypted) {
+    throw new Error('Format secret MFA terenkripsi tidak valid');
+  }
+
+  const decipher = createDecipheriv(CIPHER_ALGORITHM, getEncryptionKey(), iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
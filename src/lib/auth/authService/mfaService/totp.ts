@@ -0,0 +1,156 @@
+/**
+ * TOTP (RFC 6238) Service
+ * Generate secret, provisioning URI, dan verifikasi kode one-time password
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { MFA_CONFIG } from './types';
+
+// Alphabet base32 RFC 4648 (dipakai format secret aplikasi authenticator)
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Totp Class
+ * Bertanggung jawab untuk perhitungan dan verifikasi kode TOTP
+ */
+export class Totp {
+  /**
+   * Generate secret TOTP acak dalam format base32
+   * @returns Secret base32 tanpa padding
+   */
+  generateSecret(): string {
+    return this.encodeBase32(randomBytes(MFA_CONFIG.SECRET_BYTES));
+  }
+
+  /**
+   * Buat otpauth:// provisioning URI untuk QR code aplikasi authenticator
+   * @param secret - Secret base32
+   * @param accountName - Nama akun (email user)
+   * @param issuer - Nama aplikasi penerbit
+   * @returns Provisioning URI (Key URI Format)
+   */
+  buildProvisioningUri(secret: string, accountName: string, issuer: string = MFA_CONFIG.ISSUER): string {
+    const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`;
+    const params = new URLSearchParams({
+      secret,
+      issuer,
+      algorithm: MFA_CONFIG.ALGORITHM,
+      digits: MFA_CONFIG.DIGITS.toString(),
+      period: MFA_CONFIG.PERIOD_SECONDS.toString()
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  /**
+   * Hitung time step untuk waktu tertentu
+   * @param at - Waktu acuan (default: sekarang)
+   * @returns Time step (jumlah periode sejak Unix epoch)
+   */
+  getTimeStep(at: Date = new Date()): number {
+    return Math.floor(at.getTime() / 1000 / MFA_CONFIG.PERIOD_SECONDS);
+  }
+
+  /**
+   * Generate kode TOTP untuk time step tertentu
+   * @param secret - Secret base32
+   * @param step - Time step
+   * @returns Kode numerik dengan panjang MFA_CONFIG.DIGITS
+   */
+  generateCode(secret: string, step: number): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const hmac = createHmac('sha1', this.decodeBase32(secret)).update(counter).digest();
+
+    // Dynamic truncation (RFC 4226 section 5.3)
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** MFA_CONFIG.DIGITS;
+    return binary.toString().padStart(MFA_CONFIG.DIGITS, '0');
+  }
+
+  /**
+   * Verifikasi kode TOTP dengan toleransi clock skew
+   * @param secret - Secret base32
+   * @param code - Kode yang diinput user
+   * @param at - Waktu acuan (default: sekarang)
+   * @returns Time step yang cocok, atau null jika kode tidak valid
+   */
+  verify(secret: string, code: string, at: Date = new Date()): number | null {
+    const normalized = code.replace(/\s+/g, '');
+    if (!new RegExp(`^\\d{${MFA_CONFIG.DIGITS}}$`).test(normalized)) {
+      return null;
+    }
+
+    const currentStep = this.getTimeStep(at);
+    for (let offset = -MFA_CONFIG.VERIFICATION_WINDOW; offset <= MFA_CONFIG.VERIFICATION_WINDOW; offset++) {
+      const step = currentStep + offset;
+      const expected = this.generateCode(secret, step);
+      if (timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+        return step;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Encode buffer ke base32 (RFC 4648, tanpa padding)
+   */
+  private encodeBase32(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+      value = (value << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+    if (bits > 0) {
+      output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+  }
+
+  /**
+   * Decode string base32 (case-insensitive, padding dan spasi diabaikan)
+   */
+  private decodeBase32(input: string): Buffer {
+    const cleaned = input.toUpperCase().replace(/[\s=]/g, '');
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+
+    for (const char of cleaned) {
+      const index = BASE32_ALPHABET.indexOf(char);
+      if (index === -1) {
+        throw new Error('Secret TOTP bukan base32 yang valid');
+      }
+      value = (value << 5) | index;
+      bits += 5;
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 0xff);
+        bits -= 8;
+      }
+    }
+
+    return Buffer.from(bytes);
+  }
+}
+
+/**
+ * Factory function untuk membuat Totp
+ * @returns Totp instance
+ */
+export function createTotp(): Totp {
+  return new Totp();
+}
+
+/**
+ * Default TOTP instance
+ */
+export const totp = createTotp();
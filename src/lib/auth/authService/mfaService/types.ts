@@ -0,0 +1,70 @@
+/**
+ * Types dan konfigurasi untuk MFA Service (TOTP RFC 6238 + recovery code)
+ */
+
+/**
+ * Konfigurasi TOTP dan MFA
+ */
+export const MFA_CONFIG = {
+  ISSUER: process.env.MFA_ISSUER || 'YesMan',
+  SECRET_BYTES: 20, // 160-bit secret sesuai rekomendasi RFC 4226
+  DIGITS: 6,
+  PERIOD_SECONDS: 30,
+  ALGORITHM: 'SHA1',
+  // Toleransi clock skew: kode dari 1 time step sebelum/sesudah tetap diterima
+  VERIFICATION_WINDOW: 1,
+  RECOVERY_CODE_COUNT: 10,
+  CHALLENGE_TOKEN_EXPIRY_SECONDS: 5 * 60,
+  MAX_VERIFY_ATTEMPTS: 5,
+  VERIFY_LOCKOUT_DURATION: 15 * 60 * 1000, // 15 menit
+} as const;
+
+/**
+ * Status MFA user untuk ditampilkan di profile dan admin user detail
+ */
+export interface MfaStatus {
+  enabled: boolean;
+  pending: boolean; // enrollment sudah dimulai tetapi belum dikonfirmasi
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+  required: boolean; // minimal satu role user mewajibkan MFA
+}
+
+/**
+ * Data enrollment TOTP yang ditampilkan sekali ke user
+ */
+export interface MfaEnrollment {
+  secret: string; // base32, untuk input manual di aplikasi authenticator
+  provisioningUri: string; // otpauth:// URI, isi QR code
+  issuer: string;
+  accountName: string;
+}
+
+/**
+ * Hasil verifikasi kode MFA
+ */
+export interface MfaVerificationResult {
+  method: 'totp' | 'recovery_code';
+  recoveryCodesRemaining?: number;
+}
+
+/**
+ * Payload challenge token yang diterbitkan login sebelum faktor kedua diverifikasi
+ */
+export interface MfaChallengePayload {
+  userId: number;
+  email: string;
+  rememberMe: boolean;
+  purpose: 'mfa_challenge';
+  iat?: number;
+  exp?: number;
+}
+
+/**
+ * Response login yang masih menunggu verifikasi faktor kedua
+ */
+export interface MfaChallengeResponse {
+  mfaRequired: true;
+  challengeToken: string;
+  expiresIn: number;
+}
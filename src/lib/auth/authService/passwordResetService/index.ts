@@ -0,0 +1,176 @@
+/**
+ * Password Reset Service - Modular Implementation
+ *
+ * Struktur folder:
+ * ├── types.ts       - Type definitions dan konfigurasi token reset
+ * ├── resetToken.ts  - Generate, hash, dan link token reset
+ * └── index.ts       - Main service class dan exports
+ *
+ * Environment:
+ * - APP_URL: base URL aplikasi untuk link reset di email (default: http://localhost:3000)
+ * - PASSWORD_RESET_TOKEN_EXPIRY_MINUTES: masa berlaku token reset (default: 60)
+ */
+
+import {
+  passwordResetTokenRepository,
+  type PasswordResetTokenRepository
+} from "@/repositories";
+import { ValidationError } from "../../../errors/errorHandler";
+import { rateLimiter, isRateLimitEnabled, type SlidingWindowRateLimiter, type RateLimitRule } from "../../../rateLimit";
+import { mailTransport, getMailFrom, type MailTransport } from "../../../mail";
+import { generateResetToken, hashResetToken, buildResetLink } from "./resetToken";
+import {
+  PASSWORD_RESET_CONFIG,
+  type PasswordResetRequestOptions,
+  type PasswordResetHandlers,
+  type PasswordResetUser
+} from "./types";
+
+// Prefix key rate limit permintaan reset password per email
+const PASSWORD_RESET_KEY_PREFIX = 'password-reset:';
+
+/**
+ * Service untuk alur forgot/reset password
+ * Token reset acak dikirim lewat email, disimpan sebagai hash, sekali pakai, dan memiliki masa berlaku
+ */
+export class PasswordResetService {
+  private readonly requestRule: RateLimitRule = {
+    limit: PASSWORD_RESET_CONFIG.MAX_REQUESTS_PER_EMAIL,
+    windowMs: PASSWORD_RESET_CONFIG.REQUEST_WINDOW
+  };
+
+  constructor(
+    private readonly handlers: PasswordResetHandlers,
+    private readonly tokenRepository: PasswordResetTokenRepository = passwordResetTokenRepository,
+    private readonly transport: MailTransport = mailTransport,
+    private readonly limiter: SlidingWindowRateLimiter = rateLimiter
+  ) {}
+
+  /**
+   * Minta reset password: kirim link reset ke email user jika akun ada dan aktif
+   * Selalu selesai tanpa error untuk email yang tidak terdaftar agar keberadaan akun tidak bocor
+   * @param email - Email user
+   * @param options - IP asal permintaan (opsional)
+   * @throws RateLimitError jika permintaan untuk email ini terlalu sering
+   */
+  async requestReset(email: string, options: PasswordResetRequestOptions = {}): Promise<void> {
+    const normalizedEmail = email.toLowerCase().trim();
+
+    if (isRateLimitEnabled()) {
+      await this.limiter.enforce(
+        `${PASSWORD_RESET_KEY_PREFIX}${normalizedEmail}`,
+        this.requestRule,
+        'Terlalu banyak permintaan reset password. Coba lagi nanti.',
+        'password-reset'
+      );
+    }
+
+    const user = await this.handlers.findUserByEmail(normalizedEmail);
+    if (!user || !user.active) {
+      console.log(`ℹ️ Password reset requested for unknown or inactive account`);
+      return;
+    }
+
+    // Hanya link terbaru yang berlaku
+    await this.tokenRepository.invalidateForUser(user.id);
+
+    const token = generateResetToken();
+    await this.tokenRepository.create({
+      userId: user.id,
+      tokenHash: hashResetToken(token),
+      expiresAt: new Date(Date.now() + PASSWORD_RESET_CONFIG.TOKEN_EXPIRY_MINUTES * 60 * 1000),
+      requestedIp: options.ipAddress ?? null
+    });
+
+    await this.transport.send(this.buildResetEmail(user, token));
+    console.log(`✅ Password reset link sent to user ${user.id}`);
+  }
+
+  /**
+   * Cek apakah token reset masih berlaku (belum dipakai dan belum expired)
+   * @param token - Token dari link reset
+   * @returns Promise<boolean> - true jika token dapat dipakai
+   */
+  async isTokenValid(token: string): Promise<boolean> {
+    if (!token) {
+      return false;
+    }
+    return (await this.tokenRepository.findValidByHash(hashResetToken(token))) !== null;
+  }
+
+  /**
+   * Reset password dengan token dari email
+   * Token dipakai secara atomik, password diganti lewat PasswordManager,
+   * lalu semua session user dicabut
+   * @param token - Token dari link reset
+   * @param newPassword - Password baru
+   * @returns Promise<number> - ID user yang password-nya direset
+   * @throws ValidationError jika token tidak valid/expired/sudah dipakai atau password tidak memenuhi aturan
+   */
+  async resetPassword(token: string, newPassword: string): Promise<number> {
+    const resetToken = token ? await this.tokenRepository.findValidByHash(hashResetToken(token)) : null;
+    if (!resetToken) {
+      throw new ValidationError('Link reset password tidak valid atau sudah kedaluwarsa');
+    }
+
+    // Validasi password sebelum token dipakai agar user dapat mencoba lagi dengan link yang sama
+    await this.handlers.validateNewPassword(resetToken.userId, newPassword);
+
+    const consumed = await this.tokenRepository.consume(resetToken.id);
+    if (!consumed) {
+      throw new ValidationError('Link reset password tidak valid atau sudah kedaluwarsa');
+    }
+
+    await this.handlers.setPassword(resetToken.userId, newPassword);
+    await this.tokenRepository.invalidateForUser(resetToken.userId);
+    await this.handlers.revokeAllSessions(resetToken.userId);
+
+    console.log(`✅ Password reset completed for user ${resetToken.userId}`);
+    return resetToken.userId;
+  }
+
+  /**
+   * Hapus token reset yang sudah expired
+   * @returns Promise<number> - Jumlah token yang dihapus
+   */
+  async cleanupExpiredTokens(): Promise<number> {
+    return this.tokenRepository.deleteExpired();
+  }
+
+  /**
+   * Susun email berisi link reset password
+   */
+  private buildResetEmail(user: PasswordResetUser, token: string) {
+    const link = buildResetLink(token);
+    const expiryMinutes = PASSWORD_RESET_CONFIG.TOKEN_EXPIRY_MINUTES;
+
+    return {
+      from: getMailFrom(),
+      to: user.email,
+      subject: 'Reset password akun YesMan',
+      text: [
+        `Halo ${user.name},`,
+        '',
+        'Kami menerima permintaan reset password untuk akun Anda.',
+        `Buka link berikut untuk membuat password baru (berlaku ${expiryMinutes} menit, sekali pakai):`,
+        link,
+        '',
+        'Abaikan email ini jika Anda tidak meminta reset password.'
+      ].join('\n')
+    };
+  }
+}
+
+/**
+ * Factory function untuk membuat PasswordResetService
+ * @param handlers - Dependency untuk cari user, ganti password, dan cabut session
+ * @returns PasswordResetService instance
+ */
+export function createPasswordResetService(handlers: PasswordResetHandlers): PasswordResetService {
+  return new PasswordResetService(handlers);
+}
+
+// Export utilities dan types
+export { generateResetToken, hashResetToken, buildResetLink } from "./resetToken";
+export { PASSWORD_RESET_CONFIG } from "./types";
+export type { PasswordResetRequestOptions, PasswordResetHandlers, PasswordResetUser } from "./types";
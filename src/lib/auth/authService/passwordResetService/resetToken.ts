@@ -0,0 +1,28 @@
+import { generateLinkToken, hashLinkToken, buildTokenLink } from "../linkToken";
+import { PASSWORD_RESET_CONFIG } from "./types";
+
+/**
+ * Generate token reset password acak (base64url)
+ * @returns string - Token plaintext yang dikirim lewat email
+ */
+export function generateResetToken(): string {
+  return generateLinkToken(PASSWORD_RESET_CONFIG.TOKEN_BYTES);
+}
+
+/**
+ * Hash token reset password untuk disimpan dan dicari di database
+ * @param token - Token plaintext
+ * @returns string - SHA-256 hex
+ */
+export function hashResetToken(token: string): string {
+  return hashLinkToken(token);
+}
+
+/**
+ * Buat link reset password untuk email
+ * @param token - Token plaintext
+ * @returns string - URL halaman reset password dengan token
+ */
+export function buildResetLink(token: string): string {
+  return buildTokenLink(PASSWORD_RESET_CONFIG.RESET_PATH, token);
+}
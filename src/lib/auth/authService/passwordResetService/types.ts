@@ -0,0 +1,46 @@
+/**
+ * Types dan konfigurasi untuk Password Reset Service (forgot/reset password)
+ */
+
+/**
+ * Konfigurasi token reset password
+ */
+export const PASSWORD_RESET_CONFIG = {
+  TOKEN_BYTES: 32, // 256-bit token acak
+  TOKEN_EXPIRY_MINUTES: Number(process.env.PASSWORD_RESET_TOKEN_EXPIRY_MINUTES) || 60,
+  // Batas permintaan reset per email, mencegah email flooding ke satu alamat
+  MAX_REQUESTS_PER_EMAIL: 3,
+  REQUEST_WINDOW: 60 * 60 * 1000, // 1 jam
+  RESET_PATH: '/reset-password',
+} as const;
+
+/**
+ * Opsi permintaan reset password
+ */
+export interface PasswordResetRequestOptions {
+  ipAddress?: string;
+}
+
+/**
+ * User yang dibutuhkan untuk membuat token reset
+ */
+export interface PasswordResetUser {
+  id: number;
+  email: string;
+  name: string;
+  active: boolean | null;
+}
+
+/**
+ * Dependency untuk mengganti password dan mencabut session setelah reset berhasil
+ * Diisi oleh AuthService (PasswordManager dan SessionService)
+ */
+export interface PasswordResetHandlers {
+  findUserByEmail(email: string): Promise<PasswordResetUser | null>;
+  /**
+   * Validasi password baru tanpa mengubahnya; lempar ValidationError jika tidak memenuhi aturan
+   */
+  validateNewPassword(userId: number, newPassword: string): Promise<void>;
+  setPassword(userId: number, newPassword: string): Promise<void>;
+  revokeAllSessions(userId: number): Promise<void>;
+}
@@ -2,6 +2,7 @@ import { User, Role, Permission, AccessPolicy, UserWithPermissions, PermissionCh
 import { permissionChecker } from './permissionChecker';
 import { roleChecker } from './roleChecker';
 import { attributeChecker } from './attributeChecker';
+import { policyExpressionService } from '@/services/abac/policyExpressionService';
 
 /**
  * AccessPolicyEvaluator
@@ -26,7 +27,8 @@ export class AccessPolicyEvaluator {
       const checkResults = {
         permissions: false,
         roles: false,
-        attributes: false
+        attributes: false,
+        expression: false
       };
 
       let grantedBy: 'permission' | 'role' | 'super_admin' | 'ownership' | undefined;
@@ -92,6 +94,24 @@ export class AccessPolicyEvaluator {
         checkResults.attributes = true;
       }
 
+      // Check expression tree (group AND/OR/NOT) jika ada
+      if (policy.expression) {
+        const expressionResult = policyExpressionService.evaluate(
+          { ...user, id: Number(user.id) },
+          policy.expression
+        );
+        checkResults.expression = expressionResult.isValid;
+
+        if (!expressionResult.isValid) {
+          reasons.push(
+            `Expression not satisfied: ${policyExpressionService.describe(policy.expression)}` +
+            (expressionResult.failedConditions.length > 0
+              ? ` (${expressionResult.failedConditions.map(condition => condition.reason).join(', ')})`
+              : '')
+          );
+        }
+      }
+
       // Determine final result berdasarkan requireAll flag
       let hasAccess: boolean;
       
@@ -103,6 +123,7 @@ export class AccessPolicyEvaluator {
         if (policy.minimumLevel !== undefined || policy.departments || policy.regions) {
           allChecks.push(checkResults.attributes);
         }
+        if (policy.expression) allChecks.push(checkResults.expression);
         
         hasAccess = allChecks.length > 0 && allChecks.every(check => check);
       } else {
@@ -113,6 +134,7 @@ export class AccessPolicyEvaluator {
         if (policy.minimumLevel !== undefined || policy.departments || policy.regions) {
           anyChecks.push(checkResults.attributes);
         }
+        if (policy.expression) anyChecks.push(checkResults.expression);
         
         hasAccess = anyChecks.length > 0 && anyChecks.some(check => check);
       }
@@ -268,6 +290,7 @@ export class AccessPolicyEvaluator {
     minimumLevel?: number;
     departments?: string[];
     regions?: string[];
+    expression?: AccessPolicy['expression'];
     requireAll?: boolean;
   }): AccessPolicy {
     return {
@@ -276,6 +299,7 @@ export class AccessPolicyEvaluator {
       minimumLevel: config.minimumLevel,
       departments: config.departments,
       regions: config.regions,
+      expression: config.expression,
       requireAll: config.requireAll || false
     };
   }
@@ -294,7 +318,7 @@ export class AccessPolicyEvaluator {
     // Check jika policy kosong
     if (!policy.permissions && !policy.roles && 
         policy.minimumLevel === undefined && 
-        !policy.departments && !policy.regions) {
+        !policy.departments && !policy.regions && !policy.expression) {
       errors.push('Policy must have at least one requirement');
     }
 
@@ -347,6 +371,11 @@ export class AccessPolicyEvaluator {
       }
     }
 
+    // Validate expression tree
+    if (policy.expression) {
+      errors.push(...this.validateExpression(policy.expression));
+    }
+
     return {
       valid: errors.length === 0,
       errors
@@ -381,9 +410,44 @@ export class AccessPolicyEvaluator {
       parts.push(`Regions: ${policy.regions.join(', ')}`);
     }
 
+    if (policy.expression) {
+      parts.push(`Expression: ${policyExpressionService.describe(policy.expression)}`);
+    }
+
     const logic = policy.requireAll ? 'AND' : 'OR';
     return `Policy (${logic}): ${parts.join(' | ')}`;
   }
+
+  /**
+   * Validate struktur expression tree secara rekursif
+   * @param expression - Expression tree yang akan divalidasi
+   * @returns Array pesan error
+   */
+  private validateExpression(expression: NonNullable<AccessPolicy['expression']>): string[] {
+    if (expression.type === 'condition') {
+      return expression.attribute && expression.operator
+        ? []
+        : ['Expression condition must have attribute and operator'];
+    }
+
+    const errors: string[] = [];
+
+    if (!policyExpressionService.isValidCombinator(expression.combinator)) {
+      errors.push(`Invalid expression combinator: ${expression.combinator}`);
+    }
+
+    if (expression.children.length === 0) {
+      errors.push('Expression group must have at least one child');
+    } else if (expression.combinator === 'NOT' && expression.children.length !== 1) {
+      errors.push('NOT group must have exactly one child');
+    }
+
+    for (const child of expression.children) {
+      errors.push(...this.validateExpression(child));
+    }
+
+    return errors;
+  }
 }
 
 // Export singleton instance
@@ -29,6 +29,7 @@ import {
   PermissionSummary, 
   PermissionCheckResponse,
   PermissionCheckResult,
+  PolicyResourceAccessRequest,
   PERMISSION_CONSTANTS
 } from './types';
 
@@ -167,6 +168,15 @@ export class PermissionService {
     return this.resourceAccessChecker.checkResourceAccess(request);
   }
 
+  /**
+   * Check resource access berdasarkan ABAC policies (resource.* vs user.*)
+   * @param request - Policy resource access request
+   * @returns Promise<PermissionCheckResponse>
+   */
+  checkPolicyResourceAccess(request: PolicyResourceAccessRequest): Promise<PermissionCheckResponse> {
+    return this.resourceAccessChecker.checkPolicyResourceAccess(request);
+  }
+
   /**
    * Get user permission summary
    * @param user - User object
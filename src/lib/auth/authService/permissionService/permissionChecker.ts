@@ -1,13 +1,20 @@
-import { Permission, Role, User } from './types';
+import { Permission, PermissionEffect, Role, User } from './types';
 
 /**
  * PermissionChecker
  * Menangani pengecekan permission dasar pada user
  * Mengikuti Single Responsibility Principle (SRP)
+ *
+ * Combining algorithm (deny-override) untuk permission dari beberapa role:
+ * 1. Super admin / role grantsAll selalu diizinkan (dicek sebelum algoritma ini)
+ * 2. Jika ada satu saja effect 'deny' untuk permission tersebut, akses ditolak
+ * 3. Jika tidak ada deny dan minimal satu effect 'allow', akses diizinkan
+ * 4. Jika semua effect 'unset' (atau tidak ada entry), akses ditolak (default deny)
  */
 export class PermissionChecker {
   /**
    * Check apakah user memiliki permission tertentu
+   * Permission dengan effect 'deny' mengalahkan allow maupun wildcard
    * @param user - User object dengan role dan permissions
    * @param requiredPermission - Permission yang dibutuhkan
    * @returns true jika user memiliki permission
@@ -22,18 +29,35 @@ export class PermissionChecker {
         return true;
       }
 
-      // Check permission dari role
+      // Kumpulkan effect dari permission yang cocok (termasuk wildcard)
       const rolePermissions = user.role?.permissions || [];
-      return rolePermissions.some((permission: Permission) => 
-        permission.name === requiredPermission || 
-        permission.name === '*' // Wildcard permission
-      );
+      const effects = rolePermissions
+        .filter((permission: Permission) =>
+          permission.name === requiredPermission ||
+          permission.name === '*' // Wildcard permission
+        )
+        .map((permission: Permission) => permission.effect ?? 'allow');
+
+      return this.resolvePermissionEffects(effects);
     } catch (error) {
       console.error('❌ Permission check failed:', error);
       return false;
     }
   }
 
+  /**
+   * Gabungkan effect permission dari beberapa role dengan algoritma deny-override
+   * @param effects - Effect per role untuk satu permission (allow/deny/unset)
+   * @returns true jika tidak ada deny dan minimal satu allow
+   */
+  resolvePermissionEffects(effects: PermissionEffect[]): boolean {
+    if (effects.includes('deny')) {
+      return false;
+    }
+
+    return effects.includes('allow');
+  }
+
   /**
    * Check multiple permissions (user harus memiliki semua permission)
    * @param user - User object
@@ -93,7 +117,17 @@ export class PermissionChecker {
       return ['*']; // Super admin memiliki semua permission
     }
 
-    return user.role?.permissions?.map((p: Permission) => p.name) || [];
+    const permissions = user.role?.permissions || [];
+    const denied = new Set(
+      permissions.filter(p => p.effect === 'deny').map(p => p.name)
+    );
+
+    // Permission yang di-deny oleh role mana pun tidak termasuk permission efektif
+    return Array.from(new Set(
+      permissions
+        .filter(p => (p.effect ?? 'allow') === 'allow' && !denied.has(p.name))
+        .map(p => p.name)
+    ));
   }
 
   /**
@@ -1,7 +1,18 @@
-import { User, UserWithPermissions, ResourceAccessRequest, PermissionCheckResult, PermissionCheckResponse } from './types';
+import {
+  User,
+  UserWithPermissions,
+  ResourceAccessRequest,
+  PolicyResourceAccessRequest,
+  PermissionCheckResult,
+  PermissionCheckResponse
+} from './types';
 import { permissionChecker } from './permissionChecker';
 import { roleChecker } from './roleChecker';
 import { attributeChecker } from './attributeChecker';
+import { featureRepository } from '@/repositories';
+import { userRoleService } from '@/services/rbac/userRoleService';
+import { policyEvaluationService } from '@/services/abac/policyEvaluationService';
+import { resourceLoaderService } from '@/services/abac/resourceLoaderService';
 
 /**
  * ResourceAccessChecker
@@ -63,6 +74,79 @@ export class ResourceAccessChecker {
     }
   }
 
+  /**
+   * Check akses ke resource tertentu berdasarkan ABAC policies feature
+   * Resource dimuat oleh resource loader feature sehingga policy dapat
+   * membandingkan resource.* dengan user.* (contoh: resource.department == $user.department)
+   * @param request - Policy resource access request
+   * @returns Promise<PermissionCheckResponse> dengan detail hasil
+   */
+  async checkPolicyResourceAccess(request: PolicyResourceAccessRequest): Promise<PermissionCheckResponse> {
+    try {
+      const { userId, featureName, resourceId, context } = request;
+
+      // Role dengan grantsAll tidak dibatasi policy
+      const userRoles = await userRoleService.getUserRoles(userId);
+      if (userRoles.some(userRole => userRole.role.grantsAll)) {
+        return {
+          result: PermissionCheckResult.GRANTED,
+          reason: 'Super admin access',
+          grantedBy: 'super_admin'
+        };
+      }
+
+      const feature = await featureRepository.findByName(featureName);
+      if (!feature) {
+        return {
+          result: PermissionCheckResult.DENIED,
+          reason: `Feature ${featureName} tidak ditemukan`
+        };
+      }
+
+      // Feature tanpa resource loader tidak memiliki resource-scoped policy
+      if (!resourceLoaderService.hasLoader(featureName)) {
+        return {
+          result: PermissionCheckResult.GRANTED,
+          reason: `No resource loader for ${featureName}`,
+          grantedBy: 'policy'
+        };
+      }
+
+      // Resource yang tidak ada ditolak sebagai not found; policy resource.* tidak dapat dievaluasi tanpanya
+      const resource = await resourceLoaderService.loadResource(featureName, resourceId);
+      if (!resource) {
+        return {
+          result: PermissionCheckResult.NOT_FOUND,
+          reason: `Resource ${featureName} ${resourceId} tidak ditemukan`
+        };
+      }
+
+      const evaluation = context
+        ? await policyEvaluationService.evaluateRequestPolicies(userId, feature.id, context, resource)
+        : await policyEvaluationService.evaluatePoliciesWithDetails(userId, feature.id, undefined, resource);
+
+      if (!evaluation.isValid) {
+        return {
+          result: PermissionCheckResult.DENIED,
+          reason: `Access denied to ${featureName} ${resourceId}: ` +
+            (evaluation.failedPolicies?.map(policy => policy.reason).join('; ') || 'Policy tidak terpenuhi')
+        };
+      }
+
+      return {
+        result: PermissionCheckResult.GRANTED,
+        reason: `Policy-based access to ${featureName} ${resourceId}`,
+        grantedBy: 'policy'
+      };
+    } catch (error) {
+      console.error('❌ Policy resource access check failed:', error);
+      return {
+        result: PermissionCheckResult.ERROR,
+        reason: `Policy resource access check error: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
   /**
    * Check hierarchical access berdasarkan department
    * User dengan level lebih tinggi dapat mengakses resource dari department yang sama
@@ -3,6 +3,11 @@
  * Mendefinisikan interface untuk User, Role, Permission, dan Access Policy
  */
 
+import type { AbacAttributeValue, AbacRequestContext, PolicyExpression } from '@/services/abac/types';
+import type { PermissionEffect } from '@/services/rbac/types';
+
+export type { PermissionEffect };
+
 /**
  * Interface untuk Permission
  */
@@ -10,6 +15,7 @@ export interface Permission {
   id: string;
   name: string;
   description?: string;
+  effect?: PermissionEffect; // Default 'allow'; 'deny' mengalahkan allow (deny-override)
 }
 
 /**
@@ -31,6 +37,7 @@ export interface User {
   level: number | null;
   department: string | null;
   region: string | null;
+  attributes?: Record<string, AbacAttributeValue>; // Custom ABAC attributes dari registry
   role?: Role;
 }
 
@@ -52,6 +59,7 @@ export interface AccessPolicy {
   minimumLevel?: number;
   departments?: string[];
   regions?: string[];
+  expression?: PolicyExpression; // Expression tree AND/OR/NOT atas attribute user
   requireAll?: boolean; // true = AND logic, false = OR logic
 }
 
@@ -95,12 +103,24 @@ export interface ResourceAccessRequest {
   resourceId?: string;
 }
 
+/**
+ * Interface untuk Resource Access Check berbasis ABAC policy
+ * Attribute resource dimuat oleh resource loader milik feature
+ */
+export interface PolicyResourceAccessRequest {
+  userId: number;
+  featureName: string;
+  resourceId: string;
+  context?: AbacRequestContext;
+}
+
 /**
  * Enum untuk Permission Check Result
  */
 export enum PermissionCheckResult {
   GRANTED = 'granted',
   DENIED = 'denied',
+  NOT_FOUND = 'not_found',
   ERROR = 'error'
 }
 
@@ -110,7 +130,7 @@ export enum PermissionCheckResult {
 export interface PermissionCheckResponse {
   result: PermissionCheckResult;
   reason?: string;
-  grantedBy?: 'permission' | 'role' | 'super_admin' | 'ownership';
+  grantedBy?: 'permission' | 'role' | 'super_admin' | 'ownership' | 'policy';
   auditLog?: PermissionAuditLog;
 }
 
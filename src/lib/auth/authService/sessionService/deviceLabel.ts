@@ -0,0 +1,67 @@
+/**
+ * Urutan pengecekan penting: user agent Edge dan Opera juga memuat "Chrome",
+ * dan user agent Chrome juga memuat "Safari"
+ */
+const BROWSER_PATTERNS: Array<{ name: string; pattern: RegExp }> = [
+  { name: 'Edge', pattern: /Edg(?:e|A|iOS)?\/(\d+)/ },
+  { name: 'Opera', pattern: /(?:OPR|Opera)\/(\d+)/ },
+  { name: 'Firefox', pattern: /(?:Firefox|FxiOS)\/(\d+)/ },
+  { name: 'Chrome', pattern: /(?:Chrome|CriOS)\/(\d+)/ },
+  { name: 'Safari', pattern: /Version\/(\d+)[^ ]* (?:Mobile\/\S+ )?Safari\// },
+];
+
+const OS_PATTERNS: Array<{ name: string; pattern: RegExp }> = [
+  { name: 'Android', pattern: /Android/ },
+  { name: 'iOS', pattern: /iPhone|iPad|iPod/ },
+  { name: 'Windows', pattern: /Windows/ },
+  { name: 'macOS', pattern: /Mac OS X|Macintosh/ },
+  { name: 'Linux', pattern: /Linux|X11/ },
+];
+
+/**
+ * Client non-browser yang umum memanggil API (script, tools)
+ */
+const CLIENT_PATTERNS: Array<{ name: string; pattern: RegExp }> = [
+  { name: 'curl', pattern: /^curl\// },
+  { name: 'Postman', pattern: /PostmanRuntime/ },
+  { name: 'Node.js', pattern: /^node(-fetch)?\b|undici/ },
+  { name: 'Python', pattern: /python-requests|aiohttp/ },
+];
+
+const MAX_LABEL_LENGTH = 100;
+
+/**
+ * Buat label device yang mudah dibaca dari user agent
+ * Contoh: "Chrome 120 on Windows", "Safari 17 on iOS", "curl"
+ * @param userAgent - Header User-Agent dari request
+ * @returns Label device, atau "Unknown device" jika user agent kosong/tidak dikenali
+ */
+export function parseDeviceLabel(userAgent: string | null | undefined): string {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const client = CLIENT_PATTERNS.find(({ pattern }) => pattern.test(userAgent));
+  if (client) {
+    return client.name;
+  }
+
+  const os = OS_PATTERNS.find(({ pattern }) => pattern.test(userAgent))?.name;
+  let browser: string | undefined;
+  for (const { name, pattern } of BROWSER_PATTERNS) {
+    const match = userAgent.match(pattern);
+    if (match) {
+      browser = `${name} ${match[1]}`;
+      break;
+    }
+  }
+
+  const label = [browser, os].filter(Boolean).join(' on ');
+  if (label) {
+    return label;
+  }
+
+  return userAgent.length > MAX_LABEL_LENGTH
+    ? `${userAgent.substring(0, MAX_LABEL_LENGTH - 3)}...`
+    : userAgent;
+}
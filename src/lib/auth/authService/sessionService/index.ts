@@ -8,13 +8,16 @@ import {
   SessionSecurityResult,
   SessionCleanupResult,
   SessionDeactivationOptions,
+  UserSessionSummary,
   DEFAULT_SESSION_CONFIG
 } from "./types";
+import { parseDeviceLabel } from "./deviceLabel";
 import { SessionValidator, createSessionValidator } from "./validation";
 import { SessionCreator, createSessionCreator } from "./sessionCreator";
 import { SessionValidationService, createSessionValidationService } from "./sessionValidator";
 import { SessionCleanupService, createSessionCleanupService } from "./sessionCleanup";
 import { SessionSecurityService, createSessionSecurityService } from "./sessionSecurity";
+import { SessionLimitService, createSessionLimitService } from "./sessionLimit";
 
 /**
  * Kelas utama SessionService yang menggabungkan semua sub-services
@@ -26,6 +29,7 @@ export class SessionService {
   private validationService: SessionValidationService;
   private cleanupService: SessionCleanupService;
   private securityService: SessionSecurityService;
+  private limitService: SessionLimitService;
   private config: SessionConfig;
 
   constructor(
@@ -40,18 +44,24 @@ export class SessionService {
     this.validationService = createSessionValidationService(sessionRepository, this.config, this.validator);
     this.cleanupService = createSessionCleanupService(sessionRepository, this.config, this.validator);
     this.securityService = createSessionSecurityService(sessionRepository, this.config, this.validator);
+    this.limitService = createSessionLimitService(sessionRepository, this.cleanupService, this.config);
   }
 
   // ==================== SESSION CREATION ====================
 
   /**
    * Buat session baru untuk user
+   * Batas session aktif per role ditegakkan lebih dulu: session terlama dikeluarkan,
+   * atau login ditolak dengan SessionLimitError (tidak dibungkus ke result)
    * @param sessionData - Data untuk membuat session
    * @returns Session yang dibuat atau error
+   * @throws SessionLimitError jika batas tercapai dan kebijakan role adalah reject
    */
   async createSession(sessionData: SessionCreateData): Promise<SessionOperationResult<Session>> {
+    await this.limitService.enforce(sessionData);
+
     try {
-      const session = await this.creator.createSession(sessionData);
+      const session = await this.creator.createSession(sessionData, { cleanupOldSessions: false });
       return {
         success: true,
         data: session
@@ -155,6 +165,27 @@ export class SessionService {
     }
   }
 
+  /**
+   * Rotasi refresh token; reuse token yang sudah dirotasi mencabut seluruh token family
+   * @param currentToken - Refresh token yang dikirim client
+   * @param newToken - Refresh token pengganti
+   * @returns Session dengan refresh token baru
+   * @throws AuthenticationError jika token tidak dapat dirotasi
+   */
+  async rotateRefreshToken(currentToken: string, newToken: string): Promise<Session> {
+    return this.securityService.rotateRefreshToken(currentToken, newToken);
+  }
+
+  /**
+   * Pastikan refresh token masih aktif pada session-nya; reuse token yang sudah dirotasi mencabut token family
+   * @param refreshToken - Refresh token yang dikirim client
+   * @returns Session pemilik refresh token
+   * @throws AuthenticationError jika token sudah dirotasi atau session tidak aktif
+   */
+  async assertActiveRefreshToken(refreshToken: string): Promise<Session> {
+    return this.securityService.assertActiveRefreshToken(refreshToken);
+  }
+
   /**
    * Get session berdasarkan token
    * @param token - Token session
@@ -200,6 +231,28 @@ export class SessionService {
     }
   }
 
+  /**
+   * Daftar session aktif user beserta info device, tanpa refresh token
+   * @param userId - ID user
+   * @param currentRefreshToken - Refresh token request saat ini untuk menandai session yang sedang dipakai
+   * @returns Ringkasan session aktif, terakhir aktif lebih dulu
+   */
+  async getUserSessionSummaries(userId: string, currentRefreshToken?: string | null): Promise<UserSessionSummary[]> {
+    const sessions = await this.getUserSessions(userId);
+    return sessions
+      .map(session => ({
+        id: session.id,
+        ipAddress: session.ipAddress ?? null,
+        deviceLabel: session.deviceLabel ?? parseDeviceLabel(session.userAgent),
+        userAgent: session.userAgent ?? null,
+        lastSeenAt: session.lastSeenAt ?? session.createdAt,
+        expiresAt: session.expiresAt,
+        createdAt: session.createdAt,
+        current: !!currentRefreshToken && session.refreshToken === currentRefreshToken
+      }))
+      .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime());
+  }
+
   // ==================== SESSION CLEANUP ====================
 
   /**
@@ -392,6 +445,12 @@ export function createSessionService(
 
 // Export semua types untuk backward compatibility
 export * from "./types";
+export { parseDeviceLabel } from "./deviceLabel";
+export {
+  SESSION_LIMIT_REJECTED_REASON,
+  SESSION_LIMIT_EVICTED_REASON,
+  isRejectedLoginRecord
+} from "./sessionLimit";
 
 // Export sub-services untuk advanced usage
 export {
@@ -404,7 +463,9 @@ export {
   SessionCleanupService,
   createSessionCleanupService,
   SessionSecurityService,
-  createSessionSecurityService
+  createSessionSecurityService,
+  SessionLimitService,
+  createSessionLimitService
 };
 
 // Default export untuk backward compatibility
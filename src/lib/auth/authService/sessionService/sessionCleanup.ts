@@ -61,7 +61,9 @@ export class SessionCleanupService {
       }
       
       await this.sessionRepository.update(numericSessionId, {
-        expiresAt: new Date(0) // Set expired to deactivate
+        expiresAt: new Date(0), // Set expired to deactivate
+        revokedAt: new Date(),
+        revokedReason: options.reason ?? null
       });
       
       if (options.logActivity) {
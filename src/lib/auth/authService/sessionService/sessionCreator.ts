@@ -10,6 +10,7 @@ import {
   SessionOperationResult
 } from "./types";
 import { SessionValidator } from "./validation";
+import { parseDeviceLabel } from "./deviceLabel";
 
 /**
  * Kelas untuk menangani pembuatan session
@@ -47,17 +48,20 @@ export class SessionCreator {
         await this.cleanupUserSessions(data.userId);
       }
 
-      // Generate secure refresh token
-      const refreshToken = this.generateRefreshToken();
+      // Pakai refresh token yang diterbitkan ke client agar bisa dirotasi, atau generate token random
+      const refreshToken = data.refreshToken || this.generateRefreshToken();
       
       // Calculate expiration time
       const expiresIn = data.expiresIn || (this.config.sessionDuration / 1000); // Convert ms to seconds
       const expiresAt = new Date(Date.now() + expiresIn * 1000);
 
-      // Buat session baru sesuai dengan schema database
+      // Buat session baru sesuai dengan schema database, lengkap dengan info device
       const sessionData = {
         userId: parseInt(data.userId),
         refreshToken,
+        ipAddress: data.ipAddress ?? null,
+        userAgent: data.userAgent ?? null,
+        deviceLabel: parseDeviceLabel(data.userAgent),
         expiresAt
       };
 
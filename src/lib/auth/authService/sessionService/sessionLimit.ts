@@ -0,0 +1,173 @@
+import { randomBytes } from "crypto";
+import { userRoleRepository, roleRepository } from "@/repositories";
+import { SessionLimitError } from "../../../errors/errorHandler";
+import {
+  Session,
+  SessionCreateData,
+  SessionRepository,
+  SessionConfig,
+  SessionLimitAction,
+  SessionLimitPolicy,
+  SessionLimitResult,
+  DEFAULT_SESSION_CONFIG
+} from "./types";
+import { SessionCleanupService } from "./sessionCleanup";
+import { parseDeviceLabel } from "./deviceLabel";
+
+// Prefix alasan revoke yang dicatat di session logs untuk setiap aksi batas session
+export const SESSION_LIMIT_REJECTED_REASON = 'Login ditolak: batas session aktif tercapai';
+export const SESSION_LIMIT_EVICTED_REASON = 'Dikeluarkan: batas session aktif tercapai';
+
+/**
+ * Cek apakah record session adalah catatan login yang ditolak karena batas session
+ * Record ini tidak pernah aktif; hanya ada agar penolakan tampil di session logs
+ * @param session - Session dari database
+ * @returns true jika record mencatat login yang ditolak
+ */
+export function isRejectedLoginRecord(session: { revokedReason?: string | null }): boolean {
+  return session.revokedReason?.startsWith(SESSION_LIMIT_REJECTED_REASON) === true;
+}
+
+/**
+ * Kelas untuk menegakkan batas session aktif bersamaan per user
+ * Batas dan aksinya diambil dari role aktif user, dengan fallback ke config.maxSessionsPerUser
+ */
+export class SessionLimitService {
+  private config: SessionConfig;
+
+  constructor(
+    private sessionRepository: SessionRepository,
+    private cleanupService: SessionCleanupService,
+    config: Partial<SessionConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_SESSION_CONFIG, ...config };
+  }
+
+  /**
+   * Tentukan kebijakan batas session untuk user
+   * Jika beberapa role aktif menetapkan batas, batas terkecil yang berlaku;
+   * pada batas yang sama, aksi reject lebih diutamakan daripada evict_oldest
+   * @param userId - ID user
+   * @returns Kebijakan batas session yang berlaku
+   */
+  async resolvePolicy(userId: number): Promise<SessionLimitPolicy> {
+    const userRoles = await userRoleRepository.findActiveByUserId(userId);
+    const roles = await Promise.all(userRoles.map(userRole => roleRepository.findById(userRole.roleId)));
+
+    let policy: SessionLimitPolicy | null = null;
+    for (const role of roles) {
+      if (!role || role.maxConcurrentSessions === null || role.maxConcurrentSessions === undefined) {
+        continue;
+      }
+
+      const candidate: SessionLimitPolicy = {
+        maxSessions: role.maxConcurrentSessions,
+        action: role.sessionLimitAction as SessionLimitAction,
+        roleName: role.name
+      };
+
+      if (
+        !policy ||
+        candidate.maxSessions < policy.maxSessions ||
+        (candidate.maxSessions === policy.maxSessions && candidate.action === 'reject')
+      ) {
+        policy = candidate;
+      }
+    }
+
+    return policy ?? { maxSessions: this.config.maxSessionsPerUser, action: 'evict_oldest' };
+  }
+
+  /**
+   * Tegakkan batas session sebelum session baru dibuat
+   * @param data - Data session yang akan dibuat (user, IP, user agent)
+   * @returns Kebijakan yang dipakai dan session yang dikeluarkan
+   * @throws SessionLimitError jika batas tercapai dan kebijakan role adalah reject
+   */
+  async enforce(data: SessionCreateData): Promise<SessionLimitResult> {
+    const userId = parseInt(data.userId);
+    const policy = await this.resolvePolicy(userId);
+
+    const now = new Date();
+    const activeSessions = (await this.sessionRepository.findByUserId(userId))
+      .filter(session => session.expiresAt > now);
+
+    if (activeSessions.length < policy.maxSessions) {
+      return { policy, activeSessions: activeSessions.length, evictedSessionIds: [] };
+    }
+
+    if (policy.action === 'reject') {
+      await this.recordRejectedLogin(data, policy);
+      console.log(`🚫 Login rejected for user ${userId}: ${activeSessions.length}/${policy.maxSessions} active sessions`);
+      throw new SessionLimitError(policy.maxSessions, {
+        userId,
+        activeSessions: activeSessions.length,
+        role: policy.roleName
+      });
+    }
+
+    // Keluarkan session terlama sampai tersisa satu slot untuk login baru
+    const sessionsToEvict = activeSessions
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .slice(0, activeSessions.length - policy.maxSessions + 1);
+
+    for (const session of sessionsToEvict) {
+      await this.cleanupService.deactivateSession(session.id.toString(), {
+        reason: this.formatReason(SESSION_LIMIT_EVICTED_REASON, policy),
+        logActivity: true
+      });
+    }
+
+    return {
+      policy,
+      activeSessions: activeSessions.length,
+      evictedSessionIds: sessionsToEvict.map(session => session.id)
+    };
+  }
+
+  /**
+   * Catat login yang ditolak sebagai record session yang langsung di-revoke
+   * @param data - Data session dari percobaan login
+   * @param policy - Kebijakan yang menolak login
+   */
+  private async recordRejectedLogin(data: SessionCreateData, policy: SessionLimitPolicy): Promise<Session> {
+    const now = new Date();
+    return this.sessionRepository.create({
+      userId: parseInt(data.userId),
+      // Token acak yang tidak pernah diberikan ke client
+      refreshToken: `rejected_${randomBytes(24).toString('hex')}`,
+      ipAddress: data.ipAddress ?? null,
+      userAgent: data.userAgent ?? null,
+      deviceLabel: parseDeviceLabel(data.userAgent),
+      revokedAt: now,
+      revokedReason: this.formatReason(SESSION_LIMIT_REJECTED_REASON, policy),
+      expiresAt: new Date(0)
+    });
+  }
+
+  /**
+   * Susun alasan revoke lengkap dengan batas dan role asal kebijakan
+   * @param prefix - Prefix alasan (rejected/evicted)
+   * @param policy - Kebijakan batas session
+   * @returns Alasan untuk session logs
+   */
+  private formatReason(prefix: string, policy: SessionLimitPolicy): string {
+    const source = policy.roleName ? `role ${policy.roleName}` : 'default';
+    return `${prefix} (maksimal ${policy.maxSessions}, ${source})`;
+  }
+}
+
+/**
+ * Factory function untuk membuat SessionLimitService
+ * @param sessionRepository - Repository session
+ * @param cleanupService - Cleanup service untuk mengeluarkan session
+ * @param config - Konfigurasi session (opsional)
+ * @returns Instance SessionLimitService
+ */
+export function createSessionLimitService(
+  sessionRepository: SessionRepository,
+  cleanupService: SessionCleanupService,
+  config?: Partial<SessionConfig>
+): SessionLimitService {
+  return new SessionLimitService(sessionRepository, cleanupService, config);
+}
@@ -1,6 +1,9 @@
+import { createHash } from "crypto";
+import { AuthenticationError } from "../../../errors/errorHandler";
 import {
   Session,
   SessionRepository,
+  RotatedRefreshToken,
   SessionConfig,
   DEFAULT_SESSION_CONFIG,
   SessionSecurityEvent,
@@ -264,6 +267,111 @@ export class SessionSecurityService {
     };
   }
 
+  /**
+   * Rotasi refresh token one-time-use
+   * Token yang sedang dipakai diganti dengan newToken pada session yang sama (token family).
+   * Token yang sudah pernah dirotasi dianggap dicuri: seluruh token family dicabut
+   * dan high-risk event dicatat.
+   * @param currentToken - Refresh token yang dikirim client
+   * @param newToken - Refresh token pengganti
+   * @returns Session dengan refresh token baru
+   * @throws AuthenticationError jika token sudah dirotasi, session tidak ditemukan, dicabut, atau expired
+   */
+  async rotateRefreshToken(currentToken: string, newToken: string): Promise<Session> {
+    const currentTokenHash = this.hashRefreshToken(currentToken);
+    const session = await this.sessionRepository.findByRefreshToken(currentToken);
+
+    if (session) {
+      if (session.revokedAt) {
+        throw new AuthenticationError('Session sudah dicabut');
+      }
+      if (session.expiresAt <= new Date()) {
+        throw new AuthenticationError('Session sudah expired');
+      }
+
+      const rotated = await this.sessionRepository.rotateRefreshToken(
+        session.id,
+        currentToken,
+        currentTokenHash,
+        newToken
+      );
+      if (rotated) {
+        return rotated;
+      }
+      // Token baru saja dirotasi oleh request paralel: diperlakukan sebagai reuse
+    }
+
+    const rotation = await this.sessionRepository.findRotatedRefreshToken(currentTokenHash);
+    if (rotation) {
+      await this.revokeTokenFamily(rotation);
+      throw new AuthenticationError('Refresh token sudah pernah digunakan, semua session terkait dicabut');
+    }
+
+    throw new AuthenticationError('Session tidak ditemukan');
+  }
+
+  /**
+   * Pastikan refresh token masih menjadi token aktif session tanpa merotasinya
+   * Dipakai saat refresh token cookie mengautentikasi request di middleware. Sama seperti
+   * rotateRefreshToken, token yang sudah pernah dirotasi dianggap dicuri dan token family-nya dicabut.
+   * @param refreshToken - Refresh token yang dikirim client
+   * @returns Session pemilik refresh token
+   * @throws AuthenticationError jika token sudah dirotasi, session tidak ditemukan, dicabut, atau expired
+   */
+  async assertActiveRefreshToken(refreshToken: string): Promise<Session> {
+    const session = await this.sessionRepository.findByRefreshToken(refreshToken);
+
+    if (session) {
+      if (session.revokedAt) {
+        throw new AuthenticationError('Session sudah dicabut');
+      }
+      if (session.expiresAt <= new Date()) {
+        throw new AuthenticationError('Session sudah expired');
+      }
+      return session;
+    }
+
+    const rotation = await this.sessionRepository.findRotatedRefreshToken(this.hashRefreshToken(refreshToken));
+    if (rotation) {
+      await this.revokeTokenFamily(rotation);
+      throw new AuthenticationError('Refresh token sudah pernah digunakan, semua session terkait dicabut');
+    }
+
+    throw new AuthenticationError('Session tidak ditemukan');
+  }
+
+  /**
+   * Cabut token family (session) dari refresh token yang dipakai ulang dan catat high-risk event
+   * @param rotation - Jejak rotasi refresh token yang dipakai ulang
+   */
+  private async revokeTokenFamily(rotation: RotatedRefreshToken): Promise<void> {
+    const activeSession = await this.sessionRepository.findById(rotation.sessionId);
+    if (activeSession) {
+      await this.sessionRepository.delete(rotation.sessionId);
+    }
+
+    await this.logSecurityEvent({
+      type: SessionEventType.REFRESH_TOKEN_REUSE,
+      sessionId: rotation.sessionId.toString(),
+      userId: rotation.userId.toString(),
+      details: {
+        rotatedAt: rotation.rotatedAt,
+        familyRevoked: activeSession !== null,
+        timestamp: new Date()
+      },
+      riskLevel: 'high'
+    });
+  }
+
+  /**
+   * Hash refresh token untuk disimpan sebagai jejak rotasi
+   * @param refreshToken - Refresh token
+   * @returns SHA-256 hex dari refresh token
+   */
+  private hashRefreshToken(refreshToken: string): string {
+    return createHash('sha256').update(refreshToken).digest('hex');
+  }
+
   /**
    * Log security event
    * @param event - Security event yang akan di-log
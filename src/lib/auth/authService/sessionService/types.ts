@@ -7,6 +7,12 @@ export interface Session {
   id: number;
   userId: number;
   refreshToken: string;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  deviceLabel?: string | null;
+  lastSeenAt?: Date;
+  revokedAt?: Date | null;
+  revokedReason?: string | null;
   expiresAt: Date;
   createdAt: Date;
 }
@@ -17,6 +23,34 @@ export interface Session {
 export interface SessionCreateData {
   userId: string;
   expiresIn?: number; // dalam detik
+  refreshToken?: string; // refresh token yang diterbitkan ke client (default: token random)
+  ipAddress?: string; // IP client saat login
+  userAgent?: string; // User-Agent client saat login, diparsing menjadi device label
+}
+
+/**
+ * Ringkasan session aktif untuk ditampilkan ke user ("Your sessions")
+ * Refresh token tidak pernah dikirim ke client
+ */
+export interface UserSessionSummary {
+  id: number;
+  ipAddress: string | null;
+  deviceLabel: string;
+  userAgent: string | null;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  current: boolean; // true untuk session yang sedang dipakai request ini
+}
+
+/**
+ * Interface untuk jejak refresh token yang sudah dirotasi
+ */
+export interface RotatedRefreshToken {
+  sessionId: number; // token family
+  userId: number;
+  expiresAt: Date;
+  rotatedAt: Date;
 }
 
 /**
@@ -32,6 +66,13 @@ export interface SessionRepository {
   delete(id: number): Promise<void>;
   deleteByUserId(userId: number): Promise<void>;
   deleteExpired(): Promise<number>;
+  rotateRefreshToken(
+    sessionId: number,
+    currentToken: string,
+    currentTokenHash: string,
+    newToken: string
+  ): Promise<Session | null>;
+  findRotatedRefreshToken(tokenHash: string): Promise<RotatedRefreshToken | null>;
 }
 
 /**
@@ -60,6 +101,31 @@ export interface SecurityCheckResult {
   reasons: string[];
 }
 
+/**
+ * Aksi saat user mencapai batas session aktif bersamaan
+ * - reject: login baru ditolak
+ * - evict_oldest: session terlama dikeluarkan agar login baru dapat masuk
+ */
+export type SessionLimitAction = 'reject' | 'evict_oldest';
+
+/**
+ * Kebijakan batas session aktif yang berlaku untuk user
+ */
+export interface SessionLimitPolicy {
+  maxSessions: number;
+  action: SessionLimitAction;
+  roleName?: string; // role asal kebijakan; kosong berarti default aplikasi
+}
+
+/**
+ * Hasil penegakan batas session saat login
+ */
+export interface SessionLimitResult {
+  policy: SessionLimitPolicy;
+  activeSessions: number;
+  evictedSessionIds: number[];
+}
+
 /**
  * Konfigurasi session service
  */
@@ -210,7 +276,8 @@ export enum SessionEventType {
   SESSION_EXPIRED = 'session_expired',
   IP_MISMATCH = 'ip_mismatch',
   USER_AGENT_MISMATCH = 'user_agent_mismatch',
-  RAPID_SESSION_CREATION = 'rapid_session_creation'
+  RAPID_SESSION_CREATION = 'rapid_session_creation',
+  REFRESH_TOKEN_REUSE = 'refresh_token_reuse'
 }
 
 /**
@@ -37,8 +37,7 @@ export class SessionValidator {
       this.validateExpiresIn(data.expiresIn);
     }
 
-    // ipAddress and userAgent are not part of SessionCreateData interface
-    // Validation removed to match interface definition
+    // ipAddress dan userAgent opsional; user agent kosong dicatat sebagai "Unknown device"
   }
 
   /**
@@ -0,0 +1,235 @@
+/**
+ * Signing Key Service - Modular Implementation
+ *
+ * Struktur folder:
+ * ├── types.ts        - Type definitions (JWK/JWKS) dan konfigurasi rotasi
+ * ├── keyMaterial.ts  - Generate key pair, konversi JWK, dan enkripsi private key
+ * └── index.ts        - Main service class dan exports
+ */
+
+import { jwtSigningKeyRepository, type JwtSigningKeyRepository } from "@/repositories";
+import type { JwtSigningKey } from "@/db/schema";
+import type { SigningAlgorithm, SigningKey, SigningKeyProvider } from "../tokenService/types";
+import { generateSigningKeyPair, toPublicJwk, encryptPrivateKey, decryptPrivateKey } from "./keyMaterial";
+import {
+  SIGNING_KEY_CONFIG,
+  type JsonWebKeySet,
+  type SigningKeyRotationResult
+} from "./types";
+
+/**
+ * Service untuk key set asimetris penandatangan access token
+ * Key aktif (terbaru yang belum dipensiunkan) menandatangani token baru; key yang sudah dirotasi
+ * tetap dipakai verifikasi dan dipublikasikan di JWKS sampai overlap window berakhir,
+ * sehingga rotasi tidak membuat user ter-logout
+ */
+export class SigningKeyService implements SigningKeyProvider {
+  private cache: { keys: JwtSigningKey[]; loadedAt: number } | null = null;
+  private readonly privateKeys = new Map<string, string>();
+  private pendingRotation?: Promise<JwtSigningKey>;
+  private rotationInterval?: NodeJS.Timeout;
+
+  constructor(
+    private readonly keyRepository: JwtSigningKeyRepository = jwtSigningKeyRepository,
+    private readonly algorithm: SigningAlgorithm = SIGNING_KEY_CONFIG.ALGORITHM
+  ) {}
+
+  /**
+   * Ambil key aktif untuk menandatangani access token
+   * Key pertama dibuat otomatis jika belum ada
+   * @returns Promise<SigningKey> - kid, algoritma, dan key pair PEM
+   */
+  async getSigningKey(): Promise<SigningKey & { privateKey: string }> {
+    const activeKey = this.findActiveKey(await this.getKeys()) ?? await this.rotateKeys();
+
+    let privateKey = this.privateKeys.get(activeKey.kid);
+    if (!privateKey) {
+      privateKey = decryptPrivateKey(activeKey.privateKey);
+      this.privateKeys.set(activeKey.kid, privateKey);
+    }
+
+    return {
+      kid: activeKey.kid,
+      algorithm: activeKey.algorithm as SigningAlgorithm,
+      publicKey: activeKey.publicKey,
+      privateKey
+    };
+  }
+
+  /**
+   * Ambil public key untuk verifikasi berdasarkan kid
+   * Key set dimuat ulang jika kid belum dikenal (key baru dari instance lain)
+   * @param kid - Key ID dari header JWT
+   * @returns Promise<SigningKey | null> - Public key, null jika tidak dikenal atau overlap window berakhir
+   */
+  async getVerificationKey(kid: string): Promise<SigningKey | null> {
+    let key = this.findVerifiableKey(await this.getKeys(), kid);
+
+    if (!key && this.cache && Date.now() - this.cache.loadedAt >= SIGNING_KEY_CONFIG.MIN_RELOAD_INTERVAL_MS) {
+      key = this.findVerifiableKey(await this.getKeys(true), kid);
+    }
+
+    return key
+      ? { kid: key.kid, algorithm: key.algorithm as SigningAlgorithm, publicKey: key.publicKey }
+      : null;
+  }
+
+  /**
+   * Ambil public key set (key aktif dan key dalam overlap window) untuk /.well-known/jwks.json
+   * @returns Promise<JsonWebKeySet> - JWKS
+   */
+  async getJwks(): Promise<JsonWebKeySet> {
+    const now = new Date();
+    const keys = (await this.getKeys()).filter(key => this.isVerifiable(key, now));
+
+    return {
+      keys: keys.map(key => toPublicJwk({
+        kid: key.kid,
+        algorithm: key.algorithm as SigningAlgorithm,
+        publicKey: key.publicKey
+      }))
+    };
+  }
+
+  /**
+   * Buat key baru sebagai key aktif; key aktif sebelumnya masuk overlap window
+   * Rotasi bersamaan dalam satu instance digabung menjadi satu
+   * @returns Promise<JwtSigningKey> - Key aktif yang baru
+   */
+  async rotateKeys(): Promise<JwtSigningKey> {
+    if (!this.pendingRotation) {
+      this.pendingRotation = this.createKey().finally(() => {
+        this.pendingRotation = undefined;
+      });
+    }
+    return this.pendingRotation;
+  }
+
+  /**
+   * Rotasi key jika sudah jatuh tempo dan hapus key yang overlap window-nya berakhir
+   * Key juga dirotasi jika algoritma key aktif berbeda dari JWT_SIGNING_ALGORITHM
+   * @param at - Waktu acuan (default: sekarang)
+   * @returns Promise<SigningKeyRotationResult> - Key aktif dan apakah rotasi terjadi
+   */
+  async rotateIfDue(at: Date = new Date()): Promise<SigningKeyRotationResult> {
+    const activeKey = this.findActiveKey(await this.getKeys(true));
+    const isDue = !activeKey
+      || activeKey.algorithm !== this.algorithm
+      || at.getTime() - activeKey.createdAt.getTime() >= SIGNING_KEY_CONFIG.ROTATION_INTERVAL_MS;
+
+    const currentKey = isDue ? await this.rotateKeys() : activeKey;
+    const deleted = await this.keyRepository.deleteExpired(at);
+
+    return { rotated: isDue, kid: currentKey.kid, deleted };
+  }
+
+  /**
+   * Start pengecekan rotasi otomatis dengan interval
+   * @param intervalMs - Interval dalam milidetik (opsional)
+   */
+  startAutomaticRotation(intervalMs: number = SIGNING_KEY_CONFIG.ROTATION_CHECK_INTERVAL_MS): void {
+    if (this.rotationInterval) {
+      this.stopAutomaticRotation();
+    }
+
+    this.rotationInterval = setInterval(async () => {
+      try {
+        await this.rotateIfDue();
+      } catch (error) {
+        console.error('❌ Automatic JWT signing key rotation failed:', error);
+      }
+    }, intervalMs);
+
+    console.log(`✅ JWT signing key rotation started (interval: ${intervalMs}ms)`);
+  }
+
+  /**
+   * Stop pengecekan rotasi otomatis
+   */
+  stopAutomaticRotation(): void {
+    if (this.rotationInterval) {
+      clearInterval(this.rotationInterval);
+      this.rotationInterval = undefined;
+      console.log('✅ JWT signing key rotation stopped');
+    }
+  }
+
+  /**
+   * Generate dan simpan key baru, lalu kosongkan cache
+   */
+  private async createKey(): Promise<JwtSigningKey> {
+    const keyPair = await generateSigningKeyPair(this.algorithm);
+    const key = await this.keyRepository.rotate({
+      kid: keyPair.kid,
+      algorithm: keyPair.algorithm,
+      publicKey: keyPair.publicKey,
+      privateKey: encryptPrivateKey(keyPair.privateKey)
+    }, SIGNING_KEY_CONFIG.OVERLAP_MS);
+
+    this.cache = null;
+    this.privateKeys.set(key.kid, keyPair.privateKey);
+    console.log(`🔑 JWT signing key rotated: ${key.kid} (${key.algorithm})`);
+    return key;
+  }
+
+  /**
+   * Ambil key set dari cache atau database
+   * @param forceReload - Abaikan cache
+   */
+  private async getKeys(forceReload: boolean = false): Promise<JwtSigningKey[]> {
+    if (!forceReload && this.cache && Date.now() - this.cache.loadedAt < SIGNING_KEY_CONFIG.CACHE_TTL_MS) {
+      return this.cache.keys;
+    }
+
+    const keys = await this.keyRepository.findVerifiable();
+    this.cache = { keys, loadedAt: Date.now() };
+
+    // Private key yang sudah dipensiunkan tidak perlu disimpan di memory
+    const activeKids = new Set(keys.filter(key => !key.retiredAt).map(key => key.kid));
+    for (const kid of this.privateKeys.keys()) {
+      if (!activeKids.has(kid)) {
+        this.privateKeys.delete(kid);
+      }
+    }
+
+    return keys;
+  }
+
+  /**
+   * Key aktif terbaru (key set sudah terurut terbaru lebih dulu)
+   */
+  private findActiveKey(keys: JwtSigningKey[]): JwtSigningKey | undefined {
+    return keys.find(key => !key.retiredAt);
+  }
+
+  /**
+   * Cari key berdasarkan kid yang masih dalam masa verifikasi
+   */
+  private findVerifiableKey(keys: JwtSigningKey[], kid: string): JwtSigningKey | undefined {
+    const now = new Date();
+    return keys.find(key => key.kid === kid && this.isVerifiable(key, now));
+  }
+
+  /**
+   * Key masih dapat dipakai verifikasi jika aktif atau overlap window belum berakhir
+   */
+  private isVerifiable(key: JwtSigningKey, at: Date): boolean {
+    return !key.expiresAt || key.expiresAt > at;
+  }
+}
+
+/**
+ * Factory function untuk membuat SigningKeyService
+ * @returns SigningKeyService instance
+ */
+export function createSigningKeyService(): SigningKeyService {
+  return new SigningKeyService();
+}
+
+/**
+ * Default signing key service instance
+ */
+export const signingKeyService = createSigningKeyService();
+
+export { generateSigningKeyPair, toPublicJwk } from "./keyMaterial";
+export * from "./types";
@@ -0,0 +1,96 @@
+/**
+ * Signing Key Material
+ * Generate key pair, konversi public key ke JWK, dan enkripsi private key at-rest (AES-256-GCM)
+ */
+
+import { createCipheriv, createDecipheriv, createHash, createPublicKey, generateKeyPair, randomBytes } from 'crypto';
+import { promisify } from 'util';
+import { getJWTConfig } from '../tokenService/constants';
+import type { SigningAlgorithm, SigningKey } from '../tokenService/types';
+import { SIGNING_KEY_CONFIG, type PublicJsonWebKey } from './types';
+
+const generateKeyPairAsync = promisify(generateKeyPair);
+
+const CIPHER_ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+
+/**
+ * Generate key pair baru beserta kid acak
+ * @param algorithm - RS256 (RSA 2048) atau ES256 (P-256)
+ * @returns Promise<SigningKey> - kid dan key pair dalam PEM (SPKI/PKCS#8)
+ */
+export async function generateSigningKeyPair(algorithm: SigningAlgorithm): Promise<SigningKey & { privateKey: string }> {
+  const { publicKey, privateKey } = algorithm === 'ES256'
+    ? await generateKeyPairAsync('ec', {
+      namedCurve: SIGNING_KEY_CONFIG.EC_NAMED_CURVE,
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+    })
+    : await generateKeyPairAsync('rsa', {
+      modulusLength: SIGNING_KEY_CONFIG.RSA_MODULUS_LENGTH,
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+    });
+
+  return {
+    kid: randomBytes(SIGNING_KEY_CONFIG.KID_BYTES).toString('base64url'),
+    algorithm,
+    publicKey,
+    privateKey
+  };
+}
+
+/**
+ * Ubah public key PEM menjadi JWK untuk JWKS
+ * @param key - Signing key (hanya public key yang dipakai)
+ * @returns PublicJsonWebKey - JWK dengan kid, use, dan alg
+ */
+export function toPublicJwk(key: SigningKey): PublicJsonWebKey {
+  const jwk = createPublicKey(key.publicKey).export({ format: 'jwk' });
+  return {
+    ...jwk,
+    kty: jwk.kty as string,
+    kid: key.kid,
+    use: 'sig',
+    alg: key.algorithm
+  };
+}
+
+/**
+ * Ambil key enkripsi 32 byte dari JWT_KEY_ENCRYPTION_KEY
+ * Fallback ke turunan JWT secret agar environment development tetap berjalan
+ * @returns Buffer key AES-256
+ */
+function getEncryptionKey(): Buffer {
+  const material = process.env.JWT_KEY_ENCRYPTION_KEY || `jwt-signing-key:${getJWTConfig().accessTokenSecret}`;
+  return createHash('sha256').update(material).digest();
+}
+
+/**
+ * Enkripsi private key sebelum disimpan ke database
+ * @param privateKey - Private key PEM plaintext
+ * @returns String iv:authTag:ciphertext (base64)
+ */
+export function encryptPrivateKey(privateKey: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(CIPHER_ALGORITHM, getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(privateKey, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join(':');
+}
+
+/**
+ * Dekripsi private key dari database
+ * @param payload - String iv:authTag:ciphertext (base64)
+ * @returns Private key PEM plaintext
+ * @throws Error jika payload rusak atau key enkripsi tidak cocok
+ */
+export function decryptPrivateKey(payload: string): string {
+  const [iv, authTag, encrypted] = payload.split(':').map(part => Buffer.from(part, 'base64'));
+  if (!iv || !authTag || !encrypted) {
+    throw new Error('Format private key terenkripsi tidak valid');
+  }
+
+  const decipher = createDecipheriv(CIPHER_ALGORITHM, getEncryptionKey(), iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
@@ -0,0 +1,60 @@
+import type { SigningAlgorithm } from "../tokenService/types";
+
+/**
+ * Types dan konfigurasi untuk Signing Key Service (key set asimetris access token + JWKS)
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Konfigurasi signing key dan rotasinya
+ */
+export const SIGNING_KEY_CONFIG = {
+  ALGORITHM: (process.env.JWT_SIGNING_ALGORITHM === 'ES256' ? 'ES256' : 'RS256') as SigningAlgorithm,
+  RSA_MODULUS_LENGTH: 2048,
+  EC_NAMED_CURVE: 'P-256',
+  KID_BYTES: 16,
+  ROTATION_INTERVAL_MS: (Number(process.env.JWT_KEY_ROTATION_DAYS) || 30) * 24 * HOUR_MS,
+  // Key lama tetap dipublikasikan dan dipakai verifikasi selama overlap window;
+  // harus lebih lama dari masa berlaku access token dan cache JWKS di service lain
+  OVERLAP_MS: (Number(process.env.JWT_KEY_OVERLAP_HOURS) || 24) * HOUR_MS,
+  // Key set di-cache per instance agar verifikasi tidak query database setiap request
+  CACHE_TTL_MS: 60 * 1000,
+  // Jarak minimum reload saat kid tidak dikenal, agar token palsu tidak membanjiri database
+  MIN_RELOAD_INTERVAL_MS: 5 * 1000,
+  ROTATION_CHECK_INTERVAL_MS: HOUR_MS,
+  JWKS_MAX_AGE_SECONDS: 5 * 60,
+} as const;
+
+/**
+ * Public key dalam format JWK (RFC 7517)
+ */
+export interface PublicJsonWebKey {
+  kty: string;
+  kid: string;
+  use: 'sig';
+  alg: SigningAlgorithm;
+  // RSA
+  n?: string;
+  e?: string;
+  // EC
+  crv?: string;
+  x?: string;
+  y?: string;
+}
+
+/**
+ * JSON Web Key Set yang dipublikasikan di /.well-known/jwks.json
+ */
+export interface JsonWebKeySet {
+  keys: PublicJsonWebKey[];
+}
+
+/**
+ * Hasil satu kali pengecekan rotasi
+ */
+export interface SigningKeyRotationResult {
+  rotated: boolean;
+  kid: string;
+  deleted: number; // key yang overlap window-nya sudah berakhir
+}
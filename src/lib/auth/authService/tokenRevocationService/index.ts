@@ -0,0 +1,119 @@
+/**
+ * Token Revocation Service - Modular Implementation
+ *
+ * Struktur folder:
+ * ├── types.ts  - Type definitions dan konfigurasi cache
+ * └── index.ts  - Main service class dan exports
+ */
+
+import { userRepository, type UserRepository } from "@/repositories";
+import {
+  TOKEN_REVOCATION_CONFIG,
+  type TokenRevocationReason,
+  type UserTokenState
+} from "./types";
+
+/**
+ * Service untuk mencabut access token user secara langsung
+ * Access token membawa claim ver; token ditolak jika ver berbeda dengan tokenVersion user.
+ * Status token di-cache singkat per instance agar pengecekan di setiap request tetap murah
+ */
+export class TokenRevocationService {
+  private readonly cache = new Map<number, { state: UserTokenState | null; cachedAt: number }>();
+
+  constructor(
+    private readonly users: UserRepository = userRepository
+  ) {}
+
+  /**
+   * Ambil status token user (aktif dan versi token), memakai cache
+   * @param userId - ID user
+   * @returns Promise<UserTokenState | null> - Status token, null jika user tidak ditemukan
+   */
+  async getUserTokenState(userId: number): Promise<UserTokenState | null> {
+    const cached = this.cache.get(userId);
+    if (cached && Date.now() - cached.cachedAt < TOKEN_REVOCATION_CONFIG.CACHE_TTL_MS) {
+      return cached.state;
+    }
+
+    const user = await this.users.findTokenState(userId);
+    const state = user
+      ? { id: user.id, email: user.email, active: user.active ?? true, tokenVersion: user.tokenVersion }
+      : null;
+
+    this.remember(userId, state);
+    return state;
+  }
+
+  /**
+   * Cabut semua access token user yang sudah terbit dengan menaikkan versi token
+   * Session tidak diakhiri: refresh token lama ditolak middleware sampai dirotasi lewat endpoint refresh,
+   * gunakan logout semua device untuk mengakhiri session
+   * @param userId - ID user
+   * @param reason - Alasan pencabutan (untuk log)
+   * @returns Promise<number | null> - Versi token baru, null jika user tidak ditemukan
+   */
+  async revokeAccessTokens(userId: number, reason: TokenRevocationReason): Promise<number | null> {
+    const tokenVersion = await this.users.incrementTokenVersion(userId);
+    this.cache.delete(userId);
+
+    if (tokenVersion === undefined) {
+      return null;
+    }
+
+    console.log(`🔒 Access tokens of user ${userId} revoked (${reason}), token version ${tokenVersion}`);
+    return tokenVersion;
+  }
+
+  /**
+   * Terapkan perubahan status aktif user ke access token
+   * Menonaktifkan user mencabut access token-nya; mengaktifkan kembali cukup menghapus cache
+   * @param userId - ID user
+   * @param wasActive - Status aktif sebelum perubahan
+   * @param isActive - Status aktif setelah perubahan
+   */
+  async applyStatusChange(userId: number, wasActive: boolean | null, isActive: boolean | null): Promise<void> {
+    if (wasActive !== false && isActive === false) {
+      await this.revokeAccessTokens(userId, 'deactivated');
+    } else if (wasActive !== isActive) {
+      this.invalidate(userId);
+    }
+  }
+
+  /**
+   * Hapus cache status token user (misal: setelah user diaktifkan kembali)
+   * @param userId - ID user
+   */
+  invalidate(userId: number): void {
+    this.cache.delete(userId);
+  }
+
+  /**
+   * Simpan status token ke cache; entry terlama dibuang saat cache penuh
+   */
+  private remember(userId: number, state: UserTokenState | null): void {
+    this.cache.delete(userId);
+    if (this.cache.size >= TOKEN_REVOCATION_CONFIG.CACHE_MAX_ENTRIES) {
+      const oldestUserId = this.cache.keys().next().value;
+      if (oldestUserId !== undefined) {
+        this.cache.delete(oldestUserId);
+      }
+    }
+    this.cache.set(userId, { state, cachedAt: Date.now() });
+  }
+}
+
+/**
+ * Factory function untuk membuat TokenRevocationService
+ * @returns TokenRevocationService instance
+ */
+export function createTokenRevocationService(): TokenRevocationService {
+  return new TokenRevocationService();
+}
+
+/**
+ * Default token revocation service instance
+ */
+export const tokenRevocationService = createTokenRevocationService();
+
+export * from "./types";
@@ -0,0 +1,28 @@
+/**
+ * Types dan konfigurasi untuk Token Revocation Service (versi token per user)
+ */
+
+/**
+ * Konfigurasi cache status token
+ */
+export const TOKEN_REVOCATION_CONFIG = {
+  // Status token di-cache per instance agar validasi access token tidak query database setiap request;
+  // instance yang mencabut token langsung menghapus cache-nya, instance lain menyusul setelah TTL
+  CACHE_TTL_MS: Number(process.env.TOKEN_VERSION_CACHE_TTL_MS) || 15 * 1000,
+  CACHE_MAX_ENTRIES: 10000,
+} as const;
+
+/**
+ * Alasan pencabutan access token user
+ */
+export type TokenRevocationReason = 'roles_changed' | 'deactivated' | 'password_changed' | 'force_sign_out';
+
+/**
+ * Status token user yang dibandingkan dengan access token
+ */
+export interface UserTokenState {
+  id: number;
+  email: string;
+  active: boolean;
+  tokenVersion: number;
+}
@@ -41,7 +41,9 @@ export const ERROR_MESSAGES = {
   ACCESS_TOKEN_VERIFICATION_FAILED: 'Access token verification failed',
   REFRESH_TOKEN_VERIFICATION_FAILED: 'Refresh token verification failed',
   TOKEN_DECODE_FAILED: 'Token decode failed',
-  JWT_SECRETS_NOT_CONFIGURED: '⚠️ JWT secrets not properly configured'
+  JWT_SECRETS_NOT_CONFIGURED: '⚠️ JWT secrets not properly configured',
+  SIGNING_KEY_ID_MISSING: 'Access token tidak memiliki kid',
+  SIGNING_KEY_UNKNOWN: 'Signing key tidak dikenal atau sudah kedaluwarsa'
 } as const;
 
 /**
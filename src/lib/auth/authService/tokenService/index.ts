@@ -11,7 +11,8 @@ import type {
   JWTPayload, 
   TokenPair,
   TokenData,
-  ITokenService 
+  ITokenService,
+  SigningKeyProvider
 } from './types';
 import { TokenGenerator, createTokenGenerator } from './tokenGenerator';
 import { TokenValidator, createTokenValidator } from './tokenValidator';
@@ -32,13 +33,13 @@ export class TokenService implements ITokenService {
   private readonly userRepository: UserRepository;
   private readonly config: JWTConfig;
 
-  constructor(userRepository: UserRepository, config?: JWTConfig) {
+  constructor(userRepository: UserRepository, config?: JWTConfig, keyProvider?: SigningKeyProvider) {
     this.userRepository = userRepository;
     this.config = config || getJWTConfig();
     
-    // Initialize sub-services
-    this.tokenGenerator = createTokenGenerator(this.config);
-    this.tokenValidator = createTokenValidator(userRepository, this.config);
+    // Initialize sub-services; key provider dipakai bersama agar sign dan verifikasi memakai key set yang sama
+    this.tokenGenerator = createTokenGenerator(this.config, keyProvider);
+    this.tokenValidator = createTokenValidator(userRepository, this.config, keyProvider);
     this.tokenUtils = createTokenUtils();
     this.tokenStorage = createTokenStorage();
   }
@@ -48,9 +49,9 @@ export class TokenService implements ITokenService {
    * @param payload - Data yang akan disimpan dalam token
    * @returns Object berisi access dan refresh token
    */
-  generateTokens(payload: TokenGenerationPayload): TokenPair {
+  async generateTokens(payload: TokenGenerationPayload): Promise<TokenPair> {
     try {
-      const accessToken = this.tokenGenerator.generateAccessToken(payload);
+      const accessToken = await this.tokenGenerator.generateAccessToken(payload);
       const refreshToken = this.tokenGenerator.generateRefreshToken(payload);
       
       console.log(`${LOG_PREFIXES.SUCCESS} ${SUCCESS_MESSAGES.TOKEN_GENERATED}`);
@@ -86,6 +87,8 @@ export class TokenService implements ITokenService {
 
   /**
    * Refresh access token menggunakan refresh token
+   * Hanya menerbitkan token pair baru tanpa merotasi session; refresh dari client
+   * harus melalui AuthService.refreshAccessToken agar refresh token lama dicabut
    * @param refreshToken - Refresh token yang valid
    * @returns TokenPair baru
    * @throws AuthenticationError jika refresh token tidak valid
@@ -95,10 +98,12 @@ export class TokenService implements ITokenService {
       // Verifikasi refresh token
       const payload = await this.verifyRefreshToken(refreshToken);
       
-      // Generate tokens baru dengan payload yang sama
-      const newTokens = this.generateTokens({
+      // Generate tokens baru dengan payload yang sama dan versi token user saat ini
+      const user = await this.userRepository.findById(payload.userId);
+      const newTokens = await this.generateTokens({
         userId: payload.userId,
-        email: payload.email
+        email: payload.email,
+        ver: user?.tokenVersion ?? 0
       });
       
       console.log(`${LOG_PREFIXES.SUCCESS} ${SUCCESS_MESSAGES.TOKEN_REFRESHED}`);
@@ -331,13 +336,15 @@ export class TokenService implements ITokenService {
  * Factory function untuk membuat TokenService
  * @param userRepository - User repository instance
  * @param config - Optional JWT configuration
+ * @param keyProvider - Optional key set asimetris untuk access token
  * @returns TokenService instance
  */
 export function createTokenService(
   userRepository: UserRepository, 
-  config?: JWTConfig
+  config?: JWTConfig,
+  keyProvider?: SigningKeyProvider
 ): TokenService {
-  return new TokenService(userRepository, config);
+  return new TokenService(userRepository, config, keyProvider);
 }
 
 /**
@@ -364,6 +371,9 @@ export type {
   JWTPayload,
   TokenPair,
   TokenData,
+  SigningAlgorithm,
+  SigningKey,
+  SigningKeyProvider,
   ITokenService,
   ITokenGenerator,
   ITokenValidator,
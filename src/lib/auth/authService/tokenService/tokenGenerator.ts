@@ -4,12 +4,14 @@
  * Mengikuti Single Responsibility Principle
  */
 
+import { randomUUID } from 'crypto';
 import jwt, { SignOptions } from 'jsonwebtoken';
 import type { 
   TokenGenerationPayload, 
   TokenPair, 
   ITokenGenerator,
-  JWTConfig 
+  JWTConfig,
+  SigningKeyProvider
 } from './types';
 import { getJWTConfig, SUCCESS_MESSAGES, LOG_PREFIXES } from './constants';
 
@@ -19,18 +21,31 @@ import { getJWTConfig, SUCCESS_MESSAGES, LOG_PREFIXES } from './constants';
  */
 export class TokenGenerator implements ITokenGenerator {
   private readonly config: JWTConfig;
+  private readonly keyProvider?: SigningKeyProvider;
 
-  constructor(config?: JWTConfig) {
+  constructor(config?: JWTConfig, keyProvider?: SigningKeyProvider) {
     this.config = config || getJWTConfig();
+    this.keyProvider = keyProvider;
   }
 
   /**
    * Generate access token
+   * Dengan key provider, token ditandatangani key aktif (RS256/ES256) dan membawa kid di header;
+   * tanpa key provider memakai HS256 dengan shared secret
    * @param payload - Data yang akan disimpan dalam token
    * @returns Access token string
    */
-  generateAccessToken(payload: TokenGenerationPayload): string {
+  async generateAccessToken(payload: TokenGenerationPayload): Promise<string> {
     try {
+      if (this.keyProvider) {
+        const signingKey = await this.keyProvider.getSigningKey();
+        return jwt.sign(payload, signingKey.privateKey, {
+          expiresIn: this.config.accessTokenExpiry as SignOptions['expiresIn'],
+          algorithm: signingKey.algorithm,
+          keyid: signingKey.kid
+        });
+      }
+
       const options: SignOptions = {
             expiresIn: this.config.accessTokenExpiry as any,
             algorithm: 'HS256'
@@ -51,6 +66,7 @@ export class TokenGenerator implements ITokenGenerator {
 
   /**
    * Generate refresh token
+   * Refresh token hanya diverifikasi aplikasi ini (dan terikat ke session), sehingga tetap HS256
    * @param payload - Data yang akan disimpan dalam token
    * @returns Refresh token string
    */
@@ -58,7 +74,9 @@ export class TokenGenerator implements ITokenGenerator {
     try {
       const refreshOptions: SignOptions = {
             expiresIn: this.config.refreshTokenExpiry as any,
-            algorithm: 'HS256'
+            algorithm: 'HS256',
+            // jti unik agar setiap refresh token hasil rotasi berbeda walau diterbitkan di detik yang sama
+            jwtid: randomUUID()
           };
       
       const refreshToken = jwt.sign(
@@ -79,9 +97,9 @@ export class TokenGenerator implements ITokenGenerator {
    * @param payload - Data yang akan disimpan dalam token
    * @returns Object berisi access dan refresh token
    */
-  generateTokens(payload: TokenGenerationPayload): TokenPair {
+  async generateTokens(payload: TokenGenerationPayload): Promise<TokenPair> {
     try {
-      const accessToken = this.generateAccessToken(payload);
+      const accessToken = await this.generateAccessToken(payload);
       const refreshToken = this.generateRefreshToken(payload);
       
       console.log(`${LOG_PREFIXES.SUCCESS} ${SUCCESS_MESSAGES.TOKEN_GENERATED}`);
@@ -99,10 +117,11 @@ export class TokenGenerator implements ITokenGenerator {
    * @param payload - Existing JWT payload
    * @returns New access token
    */
-  generateNewAccessToken(payload: { userId: number; email: string }): string {
+  generateNewAccessToken(payload: { userId: number; email: string; ver?: number }): Promise<string> {
     return this.generateAccessToken({
       userId: payload.userId,
-      email: payload.email
+      email: payload.email,
+      ver: payload.ver
     });
   }
 
@@ -126,10 +145,11 @@ export class TokenGenerator implements ITokenGenerator {
 /**
  * Factory function untuk membuat TokenGenerator
  * @param config - Optional JWT configuration
+ * @param keyProvider - Optional key set asimetris untuk access token
  * @returns TokenGenerator instance
  */
-export function createTokenGenerator(config?: JWTConfig): TokenGenerator {
-  return new TokenGenerator(config);
+export function createTokenGenerator(config?: JWTConfig, keyProvider?: SigningKeyProvider): TokenGenerator {
+  return new TokenGenerator(config, keyProvider);
 }
 
 /**
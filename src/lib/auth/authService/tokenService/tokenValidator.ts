@@ -9,7 +9,8 @@ import type {
   JWTPayload, 
   ITokenValidator,
   JWTConfig,
-  UserRepository 
+  UserRepository,
+  SigningKeyProvider
 } from './types';
 import { 
   getJWTConfig, 
@@ -26,10 +27,12 @@ import { AuthenticationError } from '../../../errors/errorHandler';
 export class TokenValidator implements ITokenValidator {
   private readonly config: JWTConfig;
   private readonly userRepository: UserRepository;
+  private readonly keyProvider?: SigningKeyProvider;
 
-  constructor(userRepository: UserRepository, config?: JWTConfig) {
+  constructor(userRepository: UserRepository, config?: JWTConfig, keyProvider?: SigningKeyProvider) {
     this.userRepository = userRepository;
     this.config = config || getJWTConfig();
+    this.keyProvider = keyProvider;
   }
 
   /**
@@ -39,13 +42,10 @@ export class TokenValidator implements ITokenValidator {
    */
   async verifyAccessToken(token: string): Promise<JWTPayload | null> {
     try {
-      const payload = jwt.verify(
-        token, 
-        this.config.accessTokenSecret as string
-      ) as JWTPayload;
+      const payload = await this.verifyAccessTokenSignature(token);
       
-      // Validasi apakah user masih aktif
-      const isUserActive = await this.validateUserStatus(payload.userId);
+      // Validasi apakah user masih aktif dan access token belum dicabut (token tanpa ver dianggap versi 0)
+      const isUserActive = await this.validateUserStatus(payload.userId, payload.ver ?? 0);
       if (!isUserActive) {
         return null;
       }
@@ -63,6 +63,32 @@ export class TokenValidator implements ITokenValidator {
     }
   }
 
+  /**
+   * Verifikasi signature dan klaim standar access token
+   * Dengan key provider, key dipilih berdasarkan kid di header dan algoritma dikunci ke algoritma key,
+   * sehingga token HS256 atau token dengan kid yang tidak dikenal/sudah lewat overlap window ditolak
+   * @param token - Access token
+   * @returns JWTPayload jika signature valid
+   * @throws JsonWebTokenError/TokenExpiredError jika tidak valid
+   */
+  private async verifyAccessTokenSignature(token: string): Promise<JWTPayload> {
+    if (!this.keyProvider) {
+      return jwt.verify(token, this.config.accessTokenSecret as string, { algorithms: ['HS256'] }) as JWTPayload;
+    }
+
+    const kid = jwt.decode(token, { complete: true })?.header.kid;
+    if (!kid) {
+      throw new jwt.JsonWebTokenError(ERROR_MESSAGES.SIGNING_KEY_ID_MISSING);
+    }
+
+    const verificationKey = await this.keyProvider.getVerificationKey(kid);
+    if (!verificationKey) {
+      throw new jwt.JsonWebTokenError(`${ERROR_MESSAGES.SIGNING_KEY_UNKNOWN}: ${kid}`);
+    }
+
+    return jwt.verify(token, verificationKey.publicKey, { algorithms: [verificationKey.algorithm] }) as JWTPayload;
+  }
+
   /**
    * Verifikasi refresh token
    * @param token - Refresh token yang akan diverifikasi
@@ -101,14 +127,18 @@ export class TokenValidator implements ITokenValidator {
   }
 
   /**
-   * Validasi status user (aktif/tidak aktif)
+   * Validasi status user (aktif/tidak aktif) dan versi token
    * @param userId - ID user yang akan divalidasi
-   * @returns true jika user aktif, false jika tidak
+   * @param tokenVersion - Claim ver access token (opsional; refresh token hanya dicek status aktif)
+   * @returns true jika user aktif dan versi token cocok, false jika tidak
    */
-  async validateUserStatus(userId: number): Promise<boolean> {
+  async validateUserStatus(userId: number, tokenVersion?: number): Promise<boolean> {
     try {
       const user = await this.userRepository.findById(userId);
-      return !!(user && user.active);
+      if (!user || !user.active) {
+        return false;
+      }
+      return tokenVersion === undefined || (user.tokenVersion ?? 0) === tokenVersion;
     } catch (error) {
       console.error(`${LOG_PREFIXES.ERROR} Failed to validate user status:`, error);
       return false;
@@ -122,13 +152,11 @@ export class TokenValidator implements ITokenValidator {
    * @param isRefreshToken - Apakah ini refresh token
    * @returns JWTPayload jika valid, null jika tidak
    */
-  verifyTokenOnly(token: string, isRefreshToken: boolean = false): JWTPayload | null {
+  async verifyTokenOnly(token: string, isRefreshToken: boolean = false): Promise<JWTPayload | null> {
     try {
-      const secret = isRefreshToken 
-        ? this.config.refreshTokenSecret 
-        : this.config.accessTokenSecret;
-      
-      const payload = jwt.verify(token, secret as string) as JWTPayload;
+      const payload = isRefreshToken
+        ? jwt.verify(token, this.config.refreshTokenSecret as string) as JWTPayload
+        : await this.verifyAccessTokenSignature(token);
       return payload;
     } catch (error) {
       if (error instanceof Error && error.name !== JWT_ERROR_TYPES.TOKEN_EXPIRED) {
@@ -178,13 +206,15 @@ export class TokenValidator implements ITokenValidator {
  * Factory function untuk membuat TokenValidator
  * @param userRepository - User repository instance
  * @param config - Optional JWT configuration
+ * @param keyProvider - Optional key set asimetris untuk access token
  * @returns TokenValidator instance
  */
 export function createTokenValidator(
   userRepository: UserRepository, 
-  config?: JWTConfig
+  config?: JWTConfig,
+  keyProvider?: SigningKeyProvider
 ): TokenValidator {
-  return new TokenValidator(userRepository, config);
+  return new TokenValidator(userRepository, config, keyProvider);
 }
 
 /**
@@ -9,6 +9,8 @@
 export interface JWTPayload {
   userId: number;
   email: string;
+  mfa?: boolean; // true jika token diterbitkan setelah faktor kedua (TOTP) diverifikasi
+  ver?: number; // versi token user saat access token diterbitkan
   iat?: number; // issued at
   exp?: number; // expiration time
 }
@@ -19,6 +21,8 @@ export interface JWTPayload {
 export interface TokenGenerationPayload {
   userId: number;
   email: string;
+  mfa?: boolean;
+  ver?: number;
 }
 
 /**
@@ -56,6 +60,31 @@ export interface JWTConfig {
   refreshTokenExpiry: string;
 }
 
+/**
+ * Algoritma asimetris untuk menandatangani access token
+ */
+export type SigningAlgorithm = 'RS256' | 'ES256';
+
+/**
+ * Key pair penandatangan JWT yang diidentifikasi kid
+ * privateKey hanya ada pada key aktif yang dipakai menandatangani
+ */
+export interface SigningKey {
+  kid: string;
+  algorithm: SigningAlgorithm;
+  publicKey: string; // PEM
+  privateKey?: string; // PEM
+}
+
+/**
+ * Sumber key set untuk sign dan verifikasi access token
+ * Tanpa provider, access token memakai HS256 dengan shared secret dari getJWTConfig()
+ */
+export interface SigningKeyProvider {
+  getSigningKey(): Promise<SigningKey & { privateKey: string }>;
+  getVerificationKey(kid: string): Promise<SigningKey | null>;
+}
+
 /**
  * Token verification result
  */
@@ -78,14 +107,14 @@ export interface TokenDecodeResult {
  * User repository interface untuk dependency injection
  */
 export interface UserRepository {
-  findById(id: number): Promise<{ id: number; email: string; active: boolean } | null>;
+  findById(id: number): Promise<{ id: number; email: string; active: boolean; tokenVersion?: number } | null>;
 }
 
 /**
  * Token service interface untuk testing dan mocking
  */
 export interface ITokenService {
-  generateTokens(payload: TokenGenerationPayload): TokenPair;
+  generateTokens(payload: TokenGenerationPayload): Promise<TokenPair>;
   verifyAccessToken(token: string): Promise<JWTPayload | null>;
   verifyRefreshToken(token: string): Promise<JWTPayload>;
   refreshAccessToken(refreshToken: string): Promise<RefreshTokenResponse>;
@@ -97,9 +126,9 @@ export interface ITokenService {
  * Token generator interface
  */
 export interface ITokenGenerator {
-  generateAccessToken(payload: TokenGenerationPayload): string;
+  generateAccessToken(payload: TokenGenerationPayload): Promise<string>;
   generateRefreshToken(payload: TokenGenerationPayload): string;
-  generateTokens(payload: TokenGenerationPayload): TokenPair;
+  generateTokens(payload: TokenGenerationPayload): Promise<TokenPair>;
 }
 
 /**
@@ -108,7 +137,7 @@ export interface ITokenGenerator {
 export interface ITokenValidator {
   verifyAccessToken(token: string): Promise<JWTPayload | null>;
   verifyRefreshToken(token: string): Promise<JWTPayload>;
-  validateUserStatus(userId: number): Promise<boolean>;
+  validateUserStatus(userId: number, tokenVersion?: number): Promise<boolean>;
 }
 
 /**
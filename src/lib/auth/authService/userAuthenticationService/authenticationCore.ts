@@ -2,9 +2,12 @@ import { AuthenticationError } from "../../../errors/errorHandler";
 import { PasswordService } from "../passwordService";
 import { TokenService } from "../tokenService/index";
 import { SessionService } from "../sessionService";
+import { MfaService, mfaService as defaultMfaService, type MfaChallengeResponse } from "../mfaService";
+import type { UserWithPermissions } from "../permissionService/types";
 import { 
   LoginCredentials, 
   LoginResponse, 
+  MfaLoginRequest,
   RefreshTokenRequest, 
   RefreshTokenResponse,
   SessionVerificationResponse,
@@ -25,33 +28,46 @@ export class UserAuthenticationCore {
     private tokenService: TokenService,
     private sessionService: SessionService,
     private validator: UserAuthenticationValidator,
-    private rateLimiter: UserAuthenticationRateLimiter
+    private rateLimiter: UserAuthenticationRateLimiter,
+    private mfaService: MfaService = defaultMfaService
   ) {}
 
   /**
    * Login user dengan email dan password
+   * Jika user mengaktifkan MFA, token pair belum diterbitkan: response berisi challenge token
+   * yang harus ditukar melalui verifyMfaLogin bersama kode TOTP atau recovery code
    * @param credentials - Login credentials
-   * @returns Login response dengan tokens dan session
+   * @returns Login response dengan tokens dan session, atau MFA challenge
    */
-  async login(credentials: LoginCredentials): Promise<LoginResponse> {
+  async login(credentials: LoginCredentials): Promise<LoginResponse | MfaChallengeResponse> {
     try {
       // Validasi input
       this.validator.validateLoginCredentials(credentials);
 
       // Check rate limiting
-      this.rateLimiter.checkRateLimit(credentials.email);
+      await this.rateLimiter.checkRateLimit(credentials.email);
 
       // Find user by email
       const user = await this.userRepository.findByEmail(credentials.email.toLowerCase().trim());
       
       if (!user) {
-        this.rateLimiter.recordFailedAttempt(credentials.email);
+        await this.rateLimiter.recordFailedAttempt(credentials.email);
         throw new AuthenticationError('Email atau password tidak valid');
       }
 
-      // Check apakah user aktif
+      // Service account hanya dapat mengakses API dengan personal access token
+      if (user.isServiceAccount) {
+        await this.rateLimiter.recordFailedAttempt(credentials.email);
+        throw new AuthenticationError('Service account tidak dapat login dengan password. Gunakan personal access token.');
+      }
+
+      // Check apakah user aktif (self-registration nonaktif sampai email diverifikasi)
       if (!user.active) {
-        throw new AuthenticationError('Akun tidak aktif');
+        throw new AuthenticationError(
+          user.emailVerifiedAt === null
+            ? 'Email belum diverifikasi. Buka link verifikasi yang dikirim ke email Anda.'
+            : 'Akun tidak aktif'
+        );
       }
 
       // Verify password
@@ -61,78 +77,134 @@ export class UserAuthenticationCore {
       );
 
       if (!isPasswordValid) {
-        this.rateLimiter.recordFailedAttempt(credentials.email);
+        await this.rateLimiter.recordFailedAttempt(credentials.email);
         throw new AuthenticationError('Email atau password tidak valid');
       }
 
       // Reset failed attempts on successful login
-      this.rateLimiter.resetFailedAttempts(credentials.email);
+      await this.rateLimiter.resetFailedAttempts(credentials.email);
 
-      // Generate tokens
-      const tokens = this.tokenService.generateTokens({
-        userId: parseInt(user.id),
-        email: user.email
-      });
-      
-      const { accessToken, refreshToken } = tokens;
-
-      // Create session
-      const sessionDuration = credentials.rememberMe 
-        ? AUTH_CONFIG.REMEMBER_ME_DURATION 
-        : AUTH_CONFIG.DEFAULT_SESSION_DURATION;
-        
-      const sessionResult = await this.sessionService.createSession({
-        userId: user.id.toString(),
-        expiresIn: sessionDuration
-        // Note: ipAddress dan userAgent tidak ada di SessionCreateData interface
-        // TODO: Add ipAddress and userAgent fields to sessions table if needed
-      });
-      
-      if (!sessionResult.success || !sessionResult.data) {
-        throw new AuthenticationError('Failed to create session');
+      // Faktor kedua: token pair baru diterbitkan setelah kode MFA diverifikasi
+      if (await this.mfaService.isEnabled(parseInt(user.id))) {
+        console.log(`🔐 MFA challenge issued for user: ${user.email}`);
+        return this.mfaService.createChallenge(
+          { userId: parseInt(user.id), email: user.email },
+          credentials.rememberMe
+        );
       }
-      
-      const session = sessionResult.data;
 
-      // Update last login info
-      await this.userRepository.updateLastLogin(user.id, {
-        lastLoginAt: new Date(),
-        lastLoginIp: credentials.ipAddress
-      });
+      return await this.completeLogin(user, credentials.rememberMe, credentials, false);
+    } catch (error) {
+      console.error('❌ Login failed:', error);
+      throw error;
+    }
+  }
 
-      console.log(`✅ User logged in successfully: ${user.email}`);
+  /**
+   * Langkah kedua login: verifikasi kode MFA lalu terbitkan token pair
+   * @param request - Challenge token dari login dan kode TOTP/recovery code
+   * @returns Login response dengan tokens (claim mfa) dan session
+   * @throws AuthenticationError jika challenge token atau kode MFA tidak valid
+   */
+  async verifyMfaLogin(request: MfaLoginRequest): Promise<LoginResponse> {
+    try {
+      const challenge = this.mfaService.verifyChallenge(request.challengeToken);
 
-      // Return response
-      return {
-        user: {
-          id: user.id,
-          name: user.name,
-          email: user.email,
-          department: user.department,
-          region: user.region,
-          level: user.level,
-          role: user.role ? {
-            id: user.role.id,
-            name: user.role.name,
-            permissions: user.role.permissions?.map((p: any) => p.name) || []
-          } : undefined
-        },
-        tokens: {
-          accessToken,
-          refreshToken,
-          expiresIn: sessionDuration
-        },
-        session: {
-          id: session.id.toString(),
-          expiresAt: session.expiresAt
-        }
-      };
+      const user = await this.userRepository.findById(challenge.userId.toString());
+      if (!user || !user.active) {
+        throw new AuthenticationError('User tidak valid atau tidak aktif');
+      }
+
+      const verification = await this.mfaService.verifyCode(challenge.userId, request.code);
+      if (verification.method === 'recovery_code') {
+        console.log(`⚠️ Recovery code used by ${user.email}, ${verification.recoveryCodesRemaining} remaining`);
+      }
+
+      return await this.completeLogin(user, challenge.rememberMe, request, true);
     } catch (error) {
-      console.error('❌ Login failed:', error);
+      console.error('❌ MFA login verification failed:', error);
       throw error;
     }
   }
 
+  /**
+   * Terbitkan token pair dan session untuk user yang sudah lolos semua faktor autentikasi
+   * @param user - User dari repository
+   * @param rememberMe - Perpanjang durasi session
+   * @param client - IP address dan user agent login (dicatat di session)
+   * @param mfaVerified - true jika login memverifikasi faktor kedua
+   * @returns Login response dengan tokens dan session
+   */
+  private async completeLogin(
+    user: UserWithPermissions & { tokenVersion?: number },
+    rememberMe: boolean | undefined,
+    client: { ipAddress?: string; userAgent?: string },
+    mfaVerified: boolean
+  ): Promise<LoginResponse> {
+    // Generate tokens
+    const tokens = await this.tokenService.generateTokens({
+      userId: parseInt(user.id),
+      email: user.email,
+      ver: user.tokenVersion ?? 0,
+      ...(mfaVerified ? { mfa: true } : {})
+    });
+    
+    const { accessToken, refreshToken } = tokens;
+
+    // Create session
+    const sessionDuration = rememberMe 
+      ? AUTH_CONFIG.REMEMBER_ME_DURATION 
+      : AUTH_CONFIG.DEFAULT_SESSION_DURATION;
+      
+    const sessionResult = await this.sessionService.createSession({
+      userId: user.id.toString(),
+      expiresIn: sessionDuration,
+      refreshToken,
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent
+    });
+    
+    if (!sessionResult.success || !sessionResult.data) {
+      throw new AuthenticationError('Failed to create session');
+    }
+    
+    const session = sessionResult.data;
+
+    // Update last login info
+    await this.userRepository.updateLastLogin(user.id, {
+      lastLoginAt: new Date(),
+      lastLoginIp: client.ipAddress
+    });
+
+    console.log(`✅ User logged in successfully: ${user.email}`);
+
+    // Return response
+    return {
+      user: {
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        department: user.department,
+        region: user.region,
+        level: user.level,
+        role: user.role ? {
+          id: user.role.id,
+          name: user.role.name,
+          permissions: user.role.permissions?.map(permission => permission.name) || []
+        } : undefined
+      },
+      tokens: {
+        accessToken,
+        refreshToken,
+        expiresIn: sessionDuration
+      },
+      session: {
+        id: session.id.toString(),
+        expiresAt: session.expiresAt
+      }
+    };
+  }
+
   /**
    * Logout user (deactivate session)
    * @param sessionId - ID session yang akan di-logout
@@ -166,7 +238,7 @@ export class UserAuthenticationCore {
   /**
    * Refresh access token menggunakan refresh token
    * @param request - Refresh token request
-   * @returns New access token dan updated session
+   * @returns Token pair baru dan session hasil rotasi
    */
   async refreshToken(request: RefreshTokenRequest): Promise<RefreshTokenResponse> {
     try {
@@ -186,36 +258,26 @@ export class UserAuthenticationCore {
         throw new AuthenticationError('User tidak valid atau tidak aktif');
       }
 
-      // Generate new access token
-      const tokens = this.tokenService.generateTokens({
+      // Generate token pair baru; claim mfa dibawa dari refresh token lama, ver memakai versi token terbaru
+      const tokens = await this.tokenService.generateTokens({
         userId: parseInt(user.id),
-        email: user.email
+        email: user.email,
+        ver: user.tokenVersion ?? 0,
+        ...(payload.mfa || request.mfaVerified ? { mfa: true } : {})
       });
-      
-      const { accessToken } = tokens;
 
-      // Find and refresh session (jika ada)
-      const sessions = await this.sessionService.getUserSessions(user.id);
-      let session: any = null;
-      
-      if (sessions.length > 0) {
-        // Refresh session yang paling baru berdasarkan createdAt
-        // Note: lastAccessedAt field tidak ada di Session schema
-        session = sessions.sort((a: any, b: any) => b.createdAt.getTime() - a.createdAt.getTime())[0];
-        session = await this.sessionService.refreshSession(session.id);
-      }
+      // Rotasi refresh token pada session (one-time-use); reuse token lama mencabut token family
+      const session = await this.sessionService.rotateRefreshToken(request.refreshToken, tokens.refreshToken);
 
       console.log(`✅ Token refreshed successfully for user: ${user.email}`);
 
       return {
-        accessToken,
+        accessToken: tokens.accessToken,
+        refreshToken: tokens.refreshToken,
         expiresIn: AUTH_CONFIG.DEFAULT_SESSION_DURATION,
-        session: session ? {
-          id: session.id,
+        session: {
+          id: session.id.toString(),
           expiresAt: session.expiresAt
-        } : {
-          id: '',
-          expiresAt: new Date()
         }
       };
     } catch (error) {
@@ -291,6 +353,7 @@ export class UserAuthenticationCore {
  * @param sessionService - Session service dependency
  * @param validator - Validator dependency (optional)
  * @param rateLimiter - Rate limiter dependency (optional)
+ * @param mfaService - MFA service dependency (optional)
  * @returns Instance dari UserAuthenticationCore
  */
 export function createUserAuthenticationCore(
@@ -299,7 +362,8 @@ export function createUserAuthenticationCore(
   tokenService: TokenService,
   sessionService: SessionService,
   validator?: UserAuthenticationValidator,
-  rateLimiter?: UserAuthenticationRateLimiter
+  rateLimiter?: UserAuthenticationRateLimiter,
+  mfaService?: MfaService
 ): UserAuthenticationCore {
   const authValidator = validator || new UserAuthenticationValidator();
   const authRateLimiter = rateLimiter || new UserAuthenticationRateLimiter();
@@ -310,6 +374,7 @@ export function createUserAuthenticationCore(
     tokenService,
     sessionService,
     authValidator,
-    authRateLimiter
+    authRateLimiter,
+    mfaService
   );
 }
\ No newline at end of file
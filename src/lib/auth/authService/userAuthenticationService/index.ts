@@ -15,6 +15,7 @@ import { PasswordService } from "../passwordService";
 import { TokenService } from "../tokenService/index";
 import { SessionService } from "../sessionService";
 import { PermissionService } from "../permissionService/index";
+import type { MfaChallengeResponse } from "../mfaService";
 
 // Import sub-services
 import { UserAuthenticationValidator, createUserAuthenticationValidator } from "./validation";
@@ -27,6 +28,7 @@ import { UserAuthenticationStatistics, createUserAuthenticationStatistics } from
 import {
   LoginCredentials,
   LoginResponse,
+  MfaLoginRequest,
   RefreshTokenRequest,
   RefreshTokenResponse,
   SessionVerificationResponse,
@@ -81,12 +83,21 @@ export class UserAuthenticationService {
   /**
    * Login user dengan email dan password
    * @param credentials - Login credentials
-   * @returns Login response dengan tokens dan session
+   * @returns Login response dengan tokens dan session, atau MFA challenge jika MFA aktif
    */
-  async login(credentials: LoginCredentials): Promise<LoginResponse> {
+  async login(credentials: LoginCredentials): Promise<LoginResponse | MfaChallengeResponse> {
     return this.core.login(credentials);
   }
 
+  /**
+   * Langkah kedua login: verifikasi kode MFA dan terbitkan token pair
+   * @param request - Challenge token dan kode MFA
+   * @returns Login response dengan tokens dan session
+   */
+  async verifyMfaLogin(request: MfaLoginRequest): Promise<LoginResponse> {
+    return this.core.verifyMfaLogin(request);
+  }
+
   /**
    * Logout user (deactivate session)
    * @param sessionId - ID session yang akan di-logout
@@ -257,7 +268,7 @@ export class UserAuthenticationService {
    * @param email - Email yang akan dicek
    * @returns Jumlah failed attempts
    */
-  getFailedAttemptsCount(email: string): number {
+  async getFailedAttemptsCount(email: string): Promise<number> {
     return this.rateLimiter.getFailedAttemptsCount(email);
   }
 
@@ -266,7 +277,7 @@ export class UserAuthenticationService {
    * @param email - Email yang akan dicek
    * @returns true jika sedang dalam lockout
    */
-  isInLockoutPeriod(email: string): boolean {
+  async isInLockoutPeriod(email: string): Promise<boolean> {
     return this.rateLimiter.isInLockoutPeriod(email);
   }
 
@@ -275,7 +286,7 @@ export class UserAuthenticationService {
    * @param email - Email yang akan dicek
    * @returns Remaining time dalam menit
    */
-  getRemainingLockoutTime(email: string): number {
+  async getRemainingLockoutTime(email: string): Promise<number> {
     return this.rateLimiter.getRemainingLockoutTime(email);
   }
 
@@ -283,7 +294,7 @@ export class UserAuthenticationService {
    * Clear failed attempts untuk specific email (untuk admin purposes)
    * @param email - Email yang akan di-clear
    */
-  clearFailedAttemptsForEmail(email: string): void {
+  async clearFailedAttemptsForEmail(email: string): Promise<void> {
     return this.rateLimiter.clearFailedAttemptsForEmail(email);
   }
 }
@@ -340,6 +351,7 @@ export {
 export type {
   LoginCredentials,
   LoginResponse,
+  MfaLoginRequest,
   RefreshTokenRequest,
   RefreshTokenResponse,
   SessionVerificationResponse,
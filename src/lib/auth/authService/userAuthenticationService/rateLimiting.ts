@@ -1,52 +1,43 @@
-import { AuthenticationError } from "../../../errors/errorHandler";
-import { LoginAttempt, AUTH_CONFIG } from "./types";
+import { rateLimiter, isRateLimitEnabled, type SlidingWindowRateLimiter, type RateLimitRule } from "../../../rateLimit";
+import { AUTH_CONFIG } from "./types";
+
+// Prefix key rate limit untuk percobaan login gagal per akun
+const LOGIN_ACCOUNT_KEY_PREFIX = 'login:account:';
 
 /**
- * Kelas untuk menangani rate limiting dan tracking login attempts
+ * Kelas untuk menangani rate limiting dan tracking login attempts per akun
+ * Percobaan gagal disimpan di storage rate limit bersama (Postgres atau memory),
+ * sehingga tetap berlaku setelah restart dan dibagi antar instance
  */
 export class UserAuthenticationRateLimiter {
-  private readonly loginAttempts = new Map<string, LoginAttempt>();
-  private readonly maxLoginAttempts: number;
-  private readonly lockoutDuration: number;
+  private readonly rule: RateLimitRule;
 
   constructor(
     maxLoginAttempts: number = AUTH_CONFIG.MAX_LOGIN_ATTEMPTS,
-    lockoutDuration: number = AUTH_CONFIG.LOCKOUT_DURATION
+    lockoutDuration: number = AUTH_CONFIG.LOCKOUT_DURATION,
+    private readonly limiter: SlidingWindowRateLimiter = rateLimiter
   ) {
-    this.maxLoginAttempts = maxLoginAttempts;
-    this.lockoutDuration = lockoutDuration;
+    this.rule = { limit: maxLoginAttempts, windowMs: lockoutDuration };
   }
 
   /**
    * Check rate limiting untuk login attempts
    * @param email - Email yang akan dicek
-   * @throws AuthenticationError jika terlalu banyak percobaan
+   * @throws RateLimitError jika terlalu banyak percobaan gagal dalam lockout window
    */
-  checkRateLimit(email: string): void {
-    // Disable rate limiting dalam mode development
-    if (process.env.NODE_ENV === 'development') {
-      console.log('🔓 Rate limiting disabled in development mode for:', email);
+  async checkRateLimit(email: string): Promise<void> {
+    if (!isRateLimitEnabled()) {
       return;
     }
 
-    const attempts = this.loginAttempts.get(email.toLowerCase());
-    
-    if (attempts) {
-      const timeSinceLastAttempt = Date.now() - attempts.lastAttempt.getTime();
-      
-      // Reset attempts jika sudah lewat lockout duration
-      if (timeSinceLastAttempt > this.lockoutDuration) {
-        this.loginAttempts.delete(email.toLowerCase());
-        return;
-      }
-      
-      // Check jika masih dalam lockout period
-      if (attempts.count >= this.maxLoginAttempts) {
-        const remainingTime = Math.ceil((this.lockoutDuration - timeSinceLastAttempt) / 1000 / 60);
-        throw new AuthenticationError(
-          `Terlalu banyak percobaan login. Coba lagi dalam ${remainingTime} menit.`
-        );
-      }
+    const result = await this.limiter.peek(this.getKey(email), this.rule);
+    if (!result.allowed) {
+      const remainingTime = Math.max(1, Math.ceil(result.retryAfter / 60));
+      throw this.limiter.toError(
+        result,
+        `Terlalu banyak percobaan login. Coba lagi dalam ${remainingTime} menit.`,
+        'login-account'
+      );
     }
   }
 
@@ -54,48 +45,39 @@ export class UserAuthenticationRateLimiter {
    * Record failed login attempt
    * @param email - Email yang gagal login
    */
-  recordFailedAttempt(email: string): void {
-    // Skip recording dalam mode development
-    if (process.env.NODE_ENV === 'development') {
-      console.log('🔓 Failed attempt recording skipped in development mode for:', email);
+  async recordFailedAttempt(email: string): Promise<void> {
+    if (!isRateLimitEnabled()) {
       return;
     }
 
-    const emailKey = email.toLowerCase();
-    const attempts = this.loginAttempts.get(emailKey) || { count: 0, lastAttempt: new Date() };
-    
-    attempts.count += 1;
-    attempts.lastAttempt = new Date();
-    
-    this.loginAttempts.set(emailKey, attempts);
-    
-    console.log(`⚠️ Failed login attempt for ${email}: ${attempts.count}/${this.maxLoginAttempts}`);
+    const result = await this.limiter.consume(this.getKey(email), this.rule);
+    console.log(`⚠️ Failed login attempt for ${email}: ${result.limit - result.remaining}/${result.limit}`);
   }
 
   /**
    * Reset failed login attempts
    * @param email - Email yang akan di-reset
    */
-  resetFailedAttempts(email: string): void {
-    this.loginAttempts.delete(email.toLowerCase());
+  async resetFailedAttempts(email: string): Promise<void> {
+    await this.limiter.reset(this.getKey(email));
   }
 
   /**
-   * Get current failed attempts count untuk email
+   * Get current failed attempts count untuk email (estimasi sliding window)
    * @param email - Email yang akan dicek
    * @returns Jumlah failed attempts
    */
-  getFailedAttemptsCount(email: string): number {
-    const attempts = this.loginAttempts.get(email.toLowerCase());
-    return attempts ? attempts.count : 0;
+  async getFailedAttemptsCount(email: string): Promise<number> {
+    const result = await this.limiter.peek(this.getKey(email), this.rule);
+    return result.limit - result.remaining;
   }
 
   /**
    * Get total failed attempts count (untuk statistics)
    * @returns Total jumlah email yang memiliki failed attempts
    */
-  getTotalFailedAttemptsCount(): number {
-    return this.loginAttempts.size;
+  async getTotalFailedAttemptsCount(): Promise<number> {
+    return this.limiter.countActiveKeys(LOGIN_ACCOUNT_KEY_PREFIX);
   }
 
   /**
@@ -103,14 +85,9 @@ export class UserAuthenticationRateLimiter {
    * @param email - Email yang akan dicek
    * @returns true jika sedang dalam lockout
    */
-  isInLockoutPeriod(email: string): boolean {
-    const attempts = this.loginAttempts.get(email.toLowerCase());
-    
-    if (!attempts) return false;
-    
-    const timeSinceLastAttempt = Date.now() - attempts.lastAttempt.getTime();
-    
-    return attempts.count >= this.maxLoginAttempts && timeSinceLastAttempt <= this.lockoutDuration;
+  async isInLockoutPeriod(email: string): Promise<boolean> {
+    const result = await this.limiter.peek(this.getKey(email), this.rule);
+    return !result.allowed;
   }
 
   /**
@@ -118,33 +95,27 @@ export class UserAuthenticationRateLimiter {
    * @param email - Email yang akan dicek
    * @returns Remaining time dalam menit, 0 jika tidak dalam lockout
    */
-  getRemainingLockoutTime(email: string): number {
-    const attempts = this.loginAttempts.get(email.toLowerCase());
-    
-    if (!attempts || attempts.count < this.maxLoginAttempts) return 0;
-    
-    const timeSinceLastAttempt = Date.now() - attempts.lastAttempt.getTime();
-    
-    if (timeSinceLastAttempt > this.lockoutDuration) return 0;
-    
-    return Math.ceil((this.lockoutDuration - timeSinceLastAttempt) / 1000 / 60);
+  async getRemainingLockoutTime(email: string): Promise<number> {
+    const result = await this.limiter.peek(this.getKey(email), this.rule);
+    return result.allowed ? 0 : Math.ceil(result.retryAfter / 60);
   }
 
   /**
-   * Clear all failed attempts (untuk testing atau admin purposes)
+   * Clear failed attempts untuk specific email (untuk admin purposes)
+   * @param email - Email yang akan di-clear
    */
-  clearAllFailedAttempts(): void {
-    this.loginAttempts.clear();
-    console.log('✅ All failed login attempts cleared');
+  async clearFailedAttemptsForEmail(email: string): Promise<void> {
+    await this.limiter.reset(this.getKey(email));
+    console.log(`✅ Failed login attempts cleared for ${email}`);
   }
 
   /**
-   * Clear failed attempts untuk specific email (untuk admin purposes)
-   * @param email - Email yang akan di-clear
+   * Key rate limit untuk email (case-insensitive)
+   * @param email - Email akun
+   * @returns Key rate limit
    */
-  clearFailedAttemptsForEmail(email: string): void {
-    this.loginAttempts.delete(email.toLowerCase());
-    console.log(`✅ Failed login attempts cleared for ${email}`);
+  private getKey(email: string): string {
+    return `${LOGIN_ACCOUNT_KEY_PREFIX}${email.trim().toLowerCase()}`;
   }
 }
 
@@ -159,4 +130,4 @@ export function createUserAuthenticationRateLimiter(
   lockoutDuration?: number
 ): UserAuthenticationRateLimiter {
   return new UserAuthenticationRateLimiter(maxLoginAttempts, lockoutDuration);
-}
\ No newline at end of file
+}
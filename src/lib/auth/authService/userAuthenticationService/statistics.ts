@@ -21,7 +21,7 @@ export class UserAuthenticationStatistics {
     try {
       // Implementasi ini akan bergantung pada repository dan logging
       // Untuk sekarang, return data yang bisa dikumpulkan
-      const failedAttempts = this.rateLimiter.getTotalFailedAttemptsCount();
+      const failedAttempts = await this.rateLimiter.getTotalFailedAttemptsCount();
       
       // TODO: Implementasi pengumpulan data dari database
       // - Total logins dari log table
@@ -67,7 +67,7 @@ export class UserAuthenticationStatistics {
       // TODO: Implementasi query berdasarkan timeRange
       // Untuk sekarang return mock data dengan beberapa data real
       
-      const failedAttempts = this.rateLimiter.getTotalFailedAttemptsCount();
+      const failedAttempts = await this.rateLimiter.getTotalFailedAttemptsCount();
       
       return {
         successfulLogins: 0, // TODO: Query successful logins
@@ -111,7 +111,7 @@ export class UserAuthenticationStatistics {
       return {
         accountsInLockout: 0, // TODO: Count accounts in lockout
         suspiciousIpAddresses: [], // TODO: Identify suspicious IPs
-        multipleFailedAttempts: this.rateLimiter.getTotalFailedAttemptsCount(),
+        multipleFailedAttempts: await this.rateLimiter.getTotalFailedAttemptsCount(),
         unusualLoginTimes: 0, // TODO: Detect unusual login times
         geographicalAnomalies: 0 // TODO: Detect geographical anomalies
       };
@@ -39,11 +39,23 @@ export interface LoginResponse {
   };
 }
 
+/**
+ * Interface untuk langkah kedua login (verifikasi MFA)
+ */
+export interface MfaLoginRequest {
+  challengeToken: string;
+  code: string; // kode TOTP atau recovery code
+  ipAddress?: string;
+  userAgent?: string;
+}
+
 /**
  * Interface untuk refresh token request
  */
 export interface RefreshTokenRequest {
   refreshToken: string;
+  // Tandai token pair hasil rotasi sebagai MFA-verified (setelah enrollment MFA dikonfirmasi)
+  mfaVerified?: boolean;
   ipAddress?: string;
   userAgent?: string;
 }
@@ -53,6 +65,7 @@ export interface RefreshTokenRequest {
  */
 export interface RefreshTokenResponse {
   accessToken: string;
+  refreshToken: string;
   expiresIn: number;
   session: {
     id: string;
@@ -14,6 +14,10 @@ export interface UserCreateData {
   region?: string | null;
   level?: number | null;
   roleId?: string;
+  /**
+   * Jika true, akun dibuat nonaktif sampai email diverifikasi (self-registration)
+   */
+  requireEmailVerification?: boolean;
 }
 
 /**
@@ -31,6 +35,8 @@ export interface UserResponse {
     name: string;
     permissions?: string[];
   };
+  active: boolean;
+  emailVerifiedAt: Date | null;
   createdAt: Date;
 }
 
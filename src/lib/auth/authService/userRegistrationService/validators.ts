@@ -196,6 +196,9 @@ export class UserRegistrationValidator {
       // Hash password
       const hashedPassword = await this.passwordService.hashPassword(userData.password);
       
+      // Self-registration tetap nonaktif sampai email diverifikasi
+      const requireEmailVerification = userData.requireEmailVerification ?? false;
+
       // Siapkan data untuk database
       const userDataToCreate = {
         name: userData.name,
@@ -204,7 +207,8 @@ export class UserRegistrationValidator {
         department: userData.department || null,
         region: userData.region || null,
         level: userData.level || null,
-        active: true,
+        active: !requireEmailVerification,
+        emailVerifiedAt: requireEmailVerification ? null : new Date(),
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -240,6 +244,8 @@ export class UserRegistrationValidator {
         region: newUser.region,
         level: newUser.level,
         role: assignedRole?.name || 'USER',
+        active: newUser.active ?? false,
+        emailVerifiedAt: newUser.emailVerifiedAt ?? null,
         createdAt: newUser.createdAt
       };
       
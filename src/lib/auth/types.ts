@@ -1,4 +1,7 @@
-import type { User } from "@/db/schema";
+import type { User, RoleFeature } from "@/db/schema";
+import type { PermissionEffect } from "@/services/rbac/types";
+import type { MfaChallengeResponse } from "./authService/mfaService/types";
+import type { AccessTokenContext } from "../types";
 
 /**
  * Interface untuk JWT payload
@@ -7,6 +10,8 @@ import type { User } from "@/db/schema";
 export interface JWTPayload {
   userId: number;
   email: string;
+  mfa?: boolean; // true jika login memakai faktor kedua (MFA)
+  ver?: number; // versi token user saat token diterbitkan
   iat?: number;
   exp?: number;
 }
@@ -21,6 +26,15 @@ export interface AuthResponse {
   refreshToken: string;
 }
 
+/**
+ * Interface untuk response registrasi (self-registration)
+ * Token tidak diterbitkan sampai email diverifikasi
+ */
+export interface RegistrationResponse {
+  user: Omit<User, 'passwordHash'>;
+  verificationRequired: boolean;
+}
+
 /**
  * Interface untuk authenticated user context
  * Digunakan untuk middleware dan context management
@@ -30,6 +44,34 @@ export interface AuthenticatedUserContext {
   roles: string[];
   permissions: string[];
   hasGrantsAll: boolean;
+  mfaRequired?: boolean; // minimal satu role user mewajibkan MFA
+  mfaVerified?: boolean; // token berasal dari login yang memverifikasi MFA
+  accessToken?: AccessTokenContext; // diisi jika request memakai personal access token
+}
+
+/**
+ * Jejak satu role kandidat pada pengecekan permission
+ * flags adalah row role_features role tersebut (tanpa pewarisan); effect sudah termasuk pewarisan parent role
+ */
+export interface RolePermissionTrace {
+  roleId: number;
+  roleName: string;
+  grantsAll: boolean;
+  flags: Omit<RoleFeature, 'id' | 'roleId' | 'featureId'> | null;
+  effect: PermissionEffect | null; // null jika tidak dievaluasi (grantsAll atau feature/action tidak valid)
+}
+
+/**
+ * Jejak keputusan RBAC user untuk satu feature dan action
+ */
+export interface PermissionDecisionTrace {
+  allowed: boolean;
+  reason: string;
+  feature: { id: number; name: string } | null;
+  action: string;
+  actionDeclared: boolean;
+  grantsAllRole: string | null; // nama role grantsAll yang mem-bypass pengecekan
+  roles: RolePermissionTrace[];
 }
 
 /**
@@ -58,13 +100,18 @@ export interface IAuthService {
   hasAnyRole(userId: number, roles: string[]): Promise<boolean>;
   
   // Authentication operations
-  register(userData: unknown): Promise<AuthResponse>;
-  login(loginData: unknown): Promise<AuthResponse>;
+  register(userData: unknown): Promise<RegistrationResponse>;
+  verifyEmail(token: string): Promise<void>;
+  resendEmailVerification(email: string): Promise<void>;
+  login(loginData: unknown): Promise<AuthResponse | MfaChallengeResponse>;
+  verifyMfaLogin(challengeToken: string, code: string): Promise<AuthResponse>;
   logout(refreshToken: string): Promise<void>;
   refreshAccessToken(refreshToken: string): Promise<{ accessToken: string }>;
   
   // Password management
   changePassword(userId: number, currentPassword: string, newPassword: string): Promise<void>;
+  requestPasswordReset(email: string, options?: { ipAddress?: string }): Promise<void>;
+  resetPasswordWithToken(token: string, newPassword: string): Promise<void>;
 }
 
 /**
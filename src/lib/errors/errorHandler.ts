@@ -141,16 +141,68 @@ export class ConflictError extends BaseError {
   }
 }
 
+/**
+ * Informasi kuota rate limit untuk header RateLimit-* dan Retry-After
+ */
+export interface RateLimitInfo {
+  limit: number;
+  remaining: number;
+  resetAfter: number; // detik sampai kuota pulih
+  retryAfter: number; // detik sampai request berikutnya diizinkan
+  policy?: string; // nama route group / rule
+}
+
 /**
  * Rate Limit Error - untuk rate limiting
  * Mengikuti Single Responsibility Principle
  */
 export class RateLimitError extends BaseError {
+  public readonly rateLimit?: RateLimitInfo;
+
   constructor(
     message: string = 'Terlalu banyak request, coba lagi nanti',
+    context?: Record<string, unknown>,
+    rateLimit?: RateLimitInfo
+  ) {
+    super(message, 429, 'RATE_LIMIT_EXCEEDED', true, rateLimit, context);
+    this.rateLimit = rateLimit;
+  }
+
+  /**
+   * Header standar untuk response 429 (Retry-After dan RateLimit-*)
+   * @returns Record header, kosong jika info rate limit tidak tersedia
+   */
+  getHeaders(): Record<string, string> {
+    if (!this.rateLimit) {
+      return {};
+    }
+
+    return {
+      'Retry-After': String(this.rateLimit.retryAfter),
+      'RateLimit-Limit': String(this.rateLimit.limit),
+      'RateLimit-Remaining': String(this.rateLimit.remaining),
+      'RateLimit-Reset': String(this.rateLimit.resetAfter)
+    };
+  }
+}
+
+/**
+ * Session Limit Error - login baru ditolak karena batas session aktif bersamaan tercapai
+ * Mengikuti Single Responsibility Principle
+ */
+export class SessionLimitError extends BaseError {
+  constructor(
+    maxSessions: number,
     context?: Record<string, unknown>
   ) {
-    super(message, 429, 'RATE_LIMIT_EXCEEDED', true, undefined, context);
+    super(
+      `Batas session aktif tercapai: maksimal ${maxSessions} session bersamaan. Sign out dari device lain terlebih dahulu.`,
+      409,
+      'SESSION_LIMIT_EXCEEDED',
+      true,
+      { maxSessions },
+      context
+    );
   }
 }
 
@@ -266,7 +318,8 @@ export class ErrorHandler {
   static createErrorResponse(error: unknown): NextResponse {
     const formattedError = this.formatError(error);
     const statusCode = this.getStatusCode(error);
-    return NextResponse.json(formattedError, { status: statusCode });
+    const headers = error instanceof RateLimitError ? error.getHeaders() : undefined;
+    return NextResponse.json(formattedError, { status: statusCode, headers });
   }
 
   /**
@@ -435,8 +488,8 @@ export const errorUtils = {
   /**
    * Create rate limit error
    */
-  rateLimit: (message?: string, context?: Record<string, unknown>) => 
-    new RateLimitError(message, context),
+  rateLimit: (message?: string, context?: Record<string, unknown>, rateLimit?: RateLimitInfo) => 
+    new RateLimitError(message, context, rateLimit),
 
   /**
    * Create external service error
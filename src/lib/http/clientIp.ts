@@ -0,0 +1,98 @@
+/**
+ * Utility untuk menentukan IP client dari header proxy
+ *
+ * Header x-forwarded-for dan x-real-ip dapat dikirim bebas oleh client, sehingga hanya dipercaya
+ * jika TRUSTED_PROXIES diset (daftar IP atau CIDR IPv4 proxy, dipisah koma). IP client adalah hop
+ * paling kanan pada x-forwarded-for yang bukan proxy terpercaya.
+ */
+
+/**
+ * Ambil daftar proxy terpercaya dari environment
+ * @returns string[] - IP atau CIDR proxy terpercaya
+ */
+function getTrustedProxies(): string[] {
+  return (process.env.TRUSTED_PROXIES || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Ambil IP client dari header request
+ * @param headers - Header request
+ * @returns string | null - IP client, null jika proxy terpercaya tidak dikonfigurasi atau header kosong
+ */
+export function getClientIp(headers: Headers): string | null {
+  const trustedProxies = getTrustedProxies();
+  if (trustedProxies.length === 0) {
+    return null;
+  }
+
+  const hops = (headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean);
+
+  if (hops.length === 0) {
+    return headers.get('x-real-ip')?.trim() || null;
+  }
+
+  const isTrusted = (ip: string) => trustedProxies.some(proxy => matchIp(ip, proxy));
+  for (let index = hops.length - 1; index >= 0; index--) {
+    if (!isTrusted(hops[index])) {
+      return hops[index];
+    }
+  }
+
+  // Semua hop adalah proxy terpercaya: hop paling kiri adalah asal request
+  return hops[0];
+}
+
+/**
+ * Cek apakah IP cocok dengan IP tunggal atau range CIDR IPv4
+ * @param ip - IP yang dicek
+ * @param pattern - IP atau CIDR
+ * @returns boolean - true jika cocok
+ */
+export function matchIp(ip: string, pattern: string): boolean {
+  const normalizedIp = ip.replace(/^::ffff:/, '');
+
+  if (!pattern.includes('/')) {
+    return normalizedIp === pattern.replace(/^::ffff:/, '');
+  }
+
+  const [range, prefixText] = pattern.split('/');
+  const prefix = Number(prefixText);
+  const ipNumber = ipv4ToNumber(normalizedIp);
+  const rangeNumber = ipv4ToNumber(range);
+
+  if (ipNumber === null || rangeNumber === null || !Number.isInteger(prefix) || prefix < 0 || prefix > 32) {
+    return false;
+  }
+
+  const mask = prefix === 0 ? 0 : (~0 << (32 - prefix)) >>> 0;
+  return ((ipNumber & mask) >>> 0) === ((rangeNumber & mask) >>> 0);
+}
+
+/**
+ * Konversi IPv4 ke angka 32-bit
+ * @param ip - Alamat IPv4
+ * @returns number | null - Angka atau null jika bukan IPv4 valid
+ */
+function ipv4ToNumber(ip: string): number | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4) {
+    return null;
+  }
+
+  let result = 0;
+  for (const part of parts) {
+    const octet = Number(part);
+    if (!/^\d{1,3}$/.test(part) || octet > 255) {
+      return null;
+    }
+    result = (result * 256) + octet;
+  }
+
+  return result;
+}
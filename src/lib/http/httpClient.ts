@@ -136,7 +136,10 @@ export class HttpClient {
         const data = await response.json();
         
         if (!response.ok) {
-          throw new Error(data.message || `HTTP ${response.status}: ${response.statusText}`);
+          // Status disertakan agar client error (4xx) tidak di-retry, misal kode MFA salah
+          const requestError = new Error(data.message || `HTTP ${response.status}: ${response.statusText}`) as Error & { status?: number };
+          requestError.status = response.status;
+          throw requestError;
         }
 
         return data;
@@ -63,6 +63,7 @@ export {
   ExternalServiceError,
   errorUtils,
 } from './errors/errorHandler';
+export type { RateLimitInfo } from './errors/errorHandler';
 
 // Validation utilities
 export {
@@ -0,0 +1,19 @@
+import type { MailMessage, MailTransport } from "./types";
+
+/**
+ * Transport email yang hanya mencetak email ke console
+ * Cocok untuk development tanpa akses file system
+ */
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`📧 Email to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+/**
+ * Factory function untuk membuat ConsoleMailTransport
+ * @returns ConsoleMailTransport instance
+ */
+export function createConsoleMailTransport(): ConsoleMailTransport {
+  return new ConsoleMailTransport();
+}
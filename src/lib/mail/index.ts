@@ -0,0 +1,43 @@
+/**
+ * Mail - Main Entry Point
+ * Pengiriman email dengan transport yang dapat diganti
+ *
+ * Environment:
+ * - MAIL_TRANSPORT: 'outbox' (default) atau 'console'
+ * - MAIL_OUTBOX_DIR: direktori outbox untuk transport 'outbox' (default: .mail-outbox)
+ * - MAIL_FROM: alamat pengirim yang dicatat pada email
+ */
+
+import { OutboxMailTransport, createOutboxMailTransport } from "./outboxTransport";
+import { ConsoleMailTransport, createConsoleMailTransport } from "./consoleTransport";
+import type { MailTransport, MailTransportType } from "./types";
+
+/**
+ * Buat transport email sesuai tipe
+ * @param type - Tipe transport (default: MAIL_TRANSPORT atau 'outbox')
+ * @returns MailTransport
+ */
+export function createMailTransport(
+  type: MailTransportType = (process.env.MAIL_TRANSPORT as MailTransportType) || 'outbox'
+): MailTransport {
+  return type === 'console' ? createConsoleMailTransport() : createOutboxMailTransport();
+}
+
+/**
+ * Alamat pengirim email aplikasi
+ * @returns string - MAIL_FROM atau alamat default
+ */
+export function getMailFrom(): string {
+  return process.env.MAIL_FROM || 'YesMan <no-reply@yesman.local>';
+}
+
+// Instance transport bersama untuk service yang mengirim email
+export const mailTransport = createMailTransport();
+
+export {
+  OutboxMailTransport,
+  createOutboxMailTransport,
+  ConsoleMailTransport,
+  createConsoleMailTransport
+};
+export type { MailMessage, MailTransport, MailTransportType } from "./types";
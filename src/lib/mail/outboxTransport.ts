@@ -0,0 +1,40 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { MailMessage, MailTransport } from "./types";
+
+// Direktori outbox default (relatif terhadap working directory)
+const DEFAULT_OUTBOX_DIR = '.mail-outbox';
+
+/**
+ * Transport email yang menulis setiap email sebagai file JSON ke direktori outbox
+ * Pengganti server email untuk development dan test: email dapat dibaca dari file
+ */
+export class OutboxMailTransport implements MailTransport {
+  constructor(private readonly outboxDir: string = DEFAULT_OUTBOX_DIR) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.outboxDir, { recursive: true });
+
+    const sentAt = new Date();
+    const fileName = `${sentAt.getTime()}-${randomUUID()}.json`;
+    await writeFile(
+      path.join(this.outboxDir, fileName),
+      JSON.stringify({ ...message, sentAt: sentAt.toISOString() }, null, 2),
+      'utf8'
+    );
+
+    console.log(`📧 Email to ${message.to} written to outbox: ${fileName}`);
+  }
+}
+
+/**
+ * Factory function untuk membuat OutboxMailTransport
+ * @param outboxDir - Direktori outbox (default: MAIL_OUTBOX_DIR atau .mail-outbox)
+ * @returns OutboxMailTransport instance
+ */
+export function createOutboxMailTransport(
+  outboxDir: string = process.env.MAIL_OUTBOX_DIR || DEFAULT_OUTBOX_DIR
+): OutboxMailTransport {
+  return new OutboxMailTransport(outboxDir);
+}
@@ -0,0 +1,32 @@
+/**
+ * Types untuk subsystem pengiriman email
+ * Mengikuti Interface Segregation Principle: service hanya bergantung pada MailTransport
+ */
+
+/**
+ * Email yang akan dikirim
+ */
+export interface MailMessage {
+  from?: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Transport pengiriman email
+ * Implementasi: outbox (file lokal) atau console; transport lain (SMTP, API provider)
+ * cukup mengimplementasikan interface ini
+ */
+export interface MailTransport {
+  /**
+   * Kirim satu email
+   */
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Jenis transport email bawaan
+ */
+export type MailTransportType = 'outbox' | 'console';
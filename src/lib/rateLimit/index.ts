@@ -0,0 +1,60 @@
+/**
+ * Rate Limit - Main Entry Point
+ * Sliding window rate limiting dengan storage yang dapat diganti (Postgres atau memory)
+ *
+ * Environment:
+ * - RATE_LIMIT_STORE: 'postgres' (default) atau 'memory'
+ * - RATE_LIMIT_ENABLED: set 'false' untuk menonaktifkan rate limiting
+ */
+
+import { MemoryRateLimitStore, createMemoryRateLimitStore } from "./memoryStore";
+import { PostgresRateLimitStore, createPostgresRateLimitStore } from "./postgresStore";
+import { SlidingWindowRateLimiter, createSlidingWindowRateLimiter } from "./slidingWindowRateLimiter";
+import type { RateLimitInfo } from "../errors/errorHandler";
+import type { RateLimitStore, RateLimitStoreType } from "./types";
+
+/**
+ * Buat storage rate limit sesuai tipe
+ * @param type - Tipe storage (default: RATE_LIMIT_STORE atau 'postgres')
+ * @returns RateLimitStore
+ */
+export function createRateLimitStore(
+  type: RateLimitStoreType = (process.env.RATE_LIMIT_STORE as RateLimitStoreType) || 'postgres'
+): RateLimitStore {
+  return type === 'memory' ? createMemoryRateLimitStore() : createPostgresRateLimitStore();
+}
+
+/**
+ * Cek apakah rate limiting aktif
+ * Aktif di semua environment kecuali dinonaktifkan eksplisit dengan RATE_LIMIT_ENABLED=false
+ * @returns boolean - true jika rate limiting aktif
+ */
+export function isRateLimitEnabled(): boolean {
+  return process.env.RATE_LIMIT_ENABLED !== 'false';
+}
+
+/**
+ * Header RateLimit-* untuk response yang masih dalam limit
+ * @param info - Informasi kuota rate limit
+ * @returns Record header RateLimit-Limit, RateLimit-Remaining, dan RateLimit-Reset
+ */
+export function getRateLimitHeaders(info: RateLimitInfo): Record<string, string> {
+  return {
+    'RateLimit-Limit': String(info.limit),
+    'RateLimit-Remaining': String(info.remaining),
+    'RateLimit-Reset': String(info.resetAfter)
+  };
+}
+
+// Instance rate limiter bersama untuk middleware dan auth service
+export const rateLimiter = createSlidingWindowRateLimiter(createRateLimitStore());
+
+export {
+  MemoryRateLimitStore,
+  createMemoryRateLimitStore,
+  PostgresRateLimitStore,
+  createPostgresRateLimitStore,
+  SlidingWindowRateLimiter,
+  createSlidingWindowRateLimiter
+};
+export type { RateLimitStore, RateLimitStoreType, RateLimitRule, RateLimitResult } from "./types";
@@ -0,0 +1,73 @@
+import type { RateLimitStore } from "./types";
+
+/**
+ * Counter satu window di memory
+ */
+interface MemoryBucket {
+  count: number;
+  expiresAt: number;
+}
+
+/**
+ * Storage rate limit in-process
+ * Tidak persisten dan tidak dibagi antar instance; cocok untuk development, test,
+ * atau fallback saat database tidak tersedia
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly buckets = new Map<string, Map<number, MemoryBucket>>();
+
+  async increment(key: string, windowStart: Date, expiresAt: Date): Promise<number> {
+    const windows = this.buckets.get(key) ?? new Map<number, MemoryBucket>();
+    const bucket = windows.get(windowStart.getTime()) ?? { count: 0, expiresAt: expiresAt.getTime() };
+
+    bucket.count += 1;
+    windows.set(windowStart.getTime(), bucket);
+    this.buckets.set(key, windows);
+    return bucket.count;
+  }
+
+  async getCount(key: string, windowStart: Date): Promise<number> {
+    const bucket = this.buckets.get(key)?.get(windowStart.getTime());
+    return bucket && bucket.expiresAt > Date.now() ? bucket.count : 0;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.buckets.delete(key);
+  }
+
+  async countActiveKeys(keyPrefix: string): Promise<number> {
+    const now = Date.now();
+    let total = 0;
+    for (const [key, windows] of this.buckets) {
+      if (key.startsWith(keyPrefix) && [...windows.values()].some(bucket => bucket.expiresAt > now)) {
+        total++;
+      }
+    }
+    return total;
+  }
+
+  async cleanup(): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+    for (const [key, windows] of this.buckets) {
+      for (const [windowStart, bucket] of windows) {
+        if (bucket.expiresAt <= now) {
+          windows.delete(windowStart);
+          removed++;
+        }
+      }
+      if (windows.size === 0) {
+        this.buckets.delete(key);
+      }
+    }
+    return removed;
+  }
+}
+
+/**
+ * Factory function untuk membuat MemoryRateLimitStore
+ * @returns Instance MemoryRateLimitStore
+ */
+export function createMemoryRateLimitStore(): MemoryRateLimitStore {
+  return new MemoryRateLimitStore();
+}
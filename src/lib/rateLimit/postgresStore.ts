@@ -0,0 +1,39 @@
+import { rateLimitRepository, type RateLimitRepository } from "@/repositories/rateLimit";
+import type { RateLimitStore } from "./types";
+
+/**
+ * Storage rate limit di Postgres (tabel rate_limit_buckets)
+ * Persisten antar restart dan dibagi oleh semua instance aplikasi
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  constructor(private readonly repository: RateLimitRepository = rateLimitRepository) {}
+
+  async increment(key: string, windowStart: Date, expiresAt: Date): Promise<number> {
+    return this.repository.increment(key, windowStart, expiresAt);
+  }
+
+  async getCount(key: string, windowStart: Date): Promise<number> {
+    return this.repository.findCount(key, windowStart);
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.repository.deleteByKey(key);
+  }
+
+  async countActiveKeys(keyPrefix: string): Promise<number> {
+    return this.repository.countActiveKeys(keyPrefix);
+  }
+
+  async cleanup(): Promise<number> {
+    return this.repository.deleteExpired();
+  }
+}
+
+/**
+ * Factory function untuk membuat PostgresRateLimitStore
+ * @param repository - Repository rate limit (opsional)
+ * @returns Instance PostgresRateLimitStore
+ */
+export function createPostgresRateLimitStore(repository?: RateLimitRepository): PostgresRateLimitStore {
+  return new PostgresRateLimitStore(repository);
+}
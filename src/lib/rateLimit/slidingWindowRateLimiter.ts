@@ -0,0 +1,167 @@
+import { RateLimitError } from "../errors/errorHandler";
+import type { RateLimitRule, RateLimitResult, RateLimitStore } from "./types";
+
+/**
+ * Rate limiter sliding window counter
+ *
+ * Hit disimpan per fixed window; jumlah hit dalam `windowMs` terakhir diestimasi dengan
+ * counter window sebelumnya yang diberi bobot sisa overlap-nya ditambah counter window saat ini:
+ *   estimasi = previous * (windowMs - elapsed) / windowMs + current
+ * Cukup dua counter per key sehingga murah disimpan di Postgres.
+ */
+export class SlidingWindowRateLimiter {
+  constructor(private readonly store: RateLimitStore) {}
+
+  /**
+   * Catat satu hit dan cek apakah masih dalam limit
+   * @param key - Key rate limit (contoh: 'api:ip:10.0.0.1')
+   * @param rule - Aturan sliding window
+   * @param now - Waktu hit (default: sekarang)
+   * @returns Promise<RateLimitResult> - allowed false jika hit ini melebihi limit
+   */
+  async consume(key: string, rule: RateLimitRule, now: Date = new Date()): Promise<RateLimitResult> {
+    const { windowStart, previousWindowStart, expiresAt } = this.getWindows(rule, now);
+    const current = await this.store.increment(key, windowStart, expiresAt);
+    const previous = await this.store.getCount(key, previousWindowStart);
+
+    return this.evaluate(key, rule, now, windowStart, previous, current, 0);
+  }
+
+  /**
+   * Cek kuota tanpa mencatat hit
+   * @param key - Key rate limit
+   * @param rule - Aturan sliding window
+   * @param now - Waktu pengecekan (default: sekarang)
+   * @returns Promise<RateLimitResult> - allowed false jika hit berikutnya akan melebihi limit
+   */
+  async peek(key: string, rule: RateLimitRule, now: Date = new Date()): Promise<RateLimitResult> {
+    const { windowStart, previousWindowStart } = this.getWindows(rule, now);
+    const current = await this.store.getCount(key, windowStart);
+    const previous = await this.store.getCount(key, previousWindowStart);
+
+    return this.evaluate(key, rule, now, windowStart, previous, current, 1);
+  }
+
+  /**
+   * Catat satu hit dan lempar RateLimitError jika melebihi limit
+   * @param key - Key rate limit
+   * @param rule - Aturan sliding window
+   * @param message - Pesan error (opsional)
+   * @param policy - Nama rule untuk informasi RateLimitError (opsional)
+   * @returns Promise<RateLimitResult> - Hasil pengecekan jika masih dalam limit
+   * @throws RateLimitError jika limit terlampaui
+   */
+  async enforce(key: string, rule: RateLimitRule, message?: string, policy?: string): Promise<RateLimitResult> {
+    const result = await this.consume(key, rule);
+    if (!result.allowed) {
+      throw this.toError(result, message, policy);
+    }
+    return result;
+  }
+
+  /**
+   * Reset semua counter milik key
+   * @param key - Key rate limit
+   */
+  async reset(key: string): Promise<void> {
+    await this.store.reset(key);
+  }
+
+  /**
+   * Hitung key dengan prefix tertentu yang masih memiliki counter aktif
+   * @param keyPrefix - Prefix key
+   * @returns Promise<number> - Jumlah key unik
+   */
+  async countActiveKeys(keyPrefix: string): Promise<number> {
+    return this.store.countActiveKeys(keyPrefix);
+  }
+
+  /**
+   * Hapus counter yang sudah expired dari storage
+   * @returns Promise<number> - Jumlah counter yang dihapus
+   */
+  async cleanup(): Promise<number> {
+    return this.store.cleanup();
+  }
+
+  /**
+   * Buat RateLimitError dari hasil pengecekan
+   * @param result - Hasil pengecekan yang ditolak
+   * @param message - Pesan error (opsional)
+   * @param policy - Nama rule (opsional)
+   * @returns RateLimitError dengan info header Retry-After dan RateLimit-*
+   */
+  toError(result: RateLimitResult, message?: string, policy?: string): RateLimitError {
+    return new RateLimitError(message, { key: result.key }, {
+      limit: result.limit,
+      remaining: result.remaining,
+      resetAfter: result.resetAfter,
+      retryAfter: result.retryAfter,
+      policy: policy ?? result.policy
+    });
+  }
+
+  /**
+   * Hitung fixed window saat ini dan sebelumnya untuk waktu tertentu
+   */
+  private getWindows(rule: RateLimitRule, now: Date) {
+    const windowStartMs = Math.floor(now.getTime() / rule.windowMs) * rule.windowMs;
+    return {
+      windowStart: new Date(windowStartMs),
+      previousWindowStart: new Date(windowStartMs - rule.windowMs),
+      // Counter masih dibutuhkan sebagai "previous" selama satu window berikutnya
+      expiresAt: new Date(windowStartMs + 2 * rule.windowMs)
+    };
+  }
+
+  /**
+   * Evaluasi estimasi sliding window
+   * @param pending - Jumlah hit yang belum tercatat (1 untuk peek, 0 untuk consume)
+   */
+  private evaluate(
+    key: string,
+    rule: RateLimitRule,
+    now: Date,
+    windowStart: Date,
+    previous: number,
+    current: number,
+    pending: number
+  ): RateLimitResult {
+    const { limit, windowMs } = rule;
+    const elapsed = now.getTime() - windowStart.getTime();
+    const estimate = previous * ((windowMs - elapsed) / windowMs) + current;
+
+    // Waktu sampai satu hit berikutnya diizinkan (estimasi + 1 <= limit)
+    let retryAfterMs: number;
+    if (current + 1 <= limit) {
+      retryAfterMs = previous > 0
+        ? Math.max(0, windowMs * (1 - (limit - 1 - current) / previous) - elapsed)
+        : 0;
+    } else {
+      retryAfterMs = (windowMs - elapsed) + Math.max(0, windowMs * (1 - (limit - 1) / current));
+    }
+
+    // Waktu sampai kedua counter tidak lagi berkontribusi
+    const resetAfterMs = current > 0
+      ? (windowMs - elapsed) + windowMs
+      : previous > 0 ? windowMs - elapsed : 0;
+
+    return {
+      key,
+      allowed: estimate + pending <= limit,
+      limit,
+      remaining: Math.max(0, Math.floor(limit - estimate)),
+      resetAfter: Math.ceil(resetAfterMs / 1000),
+      retryAfter: Math.ceil(retryAfterMs / 1000)
+    };
+  }
+}
+
+/**
+ * Factory function untuk membuat SlidingWindowRateLimiter
+ * @param store - Storage counter rate limit
+ * @returns Instance SlidingWindowRateLimiter
+ */
+export function createSlidingWindowRateLimiter(store: RateLimitStore): SlidingWindowRateLimiter {
+  return new SlidingWindowRateLimiter(store);
+}
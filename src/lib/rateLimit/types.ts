@@ -0,0 +1,54 @@
+/**
+ * Types untuk subsystem rate limiting
+ * Mengikuti Interface Segregation Principle: limiter hanya bergantung pada RateLimitStore
+ */
+
+import type { RateLimitInfo } from "../errors/errorHandler";
+
+/**
+ * Storage counter rate limit
+ * Counter disimpan per key dan fixed window; implementasi: memory atau Postgres
+ */
+export interface RateLimitStore {
+  /**
+   * Tambah counter window dan kembalikan nilai setelah increment
+   */
+  increment(key: string, windowStart: Date, expiresAt: Date): Promise<number>;
+  /**
+   * Ambil nilai counter window (0 jika belum ada)
+   */
+  getCount(key: string, windowStart: Date): Promise<number>;
+  /**
+   * Hapus semua counter milik key
+   */
+  reset(key: string): Promise<void>;
+  /**
+   * Hitung key dengan prefix tertentu yang masih memiliki counter aktif
+   */
+  countActiveKeys(keyPrefix: string): Promise<number>;
+  /**
+   * Hapus counter yang sudah expired
+   */
+  cleanup(): Promise<number>;
+}
+
+/**
+ * Jenis storage rate limit yang tersedia
+ */
+export type RateLimitStoreType = 'memory' | 'postgres';
+
+/**
+ * Aturan sliding window: maksimal `limit` hit dalam `windowMs` terakhir
+ */
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+/**
+ * Hasil pengecekan rate limit untuk satu key
+ */
+export interface RateLimitResult extends RateLimitInfo {
+  allowed: boolean;
+  key: string;
+}
@@ -19,6 +19,7 @@ export interface ApiResponse<T = any> {
 export interface JWTPayload {
   userId: number;
   email: string;
+  mfa?: boolean;
   iat: number;
   exp: number;
 }
@@ -32,6 +33,28 @@ export interface AuthenticatedUserContext {
   permissions: string[];
   roles: string[];
   hasGrantsAll: boolean;
+  mfaRequired?: boolean;
+  mfaVerified?: boolean;
+  // Diisi jika request diautentikasi dengan personal access token
+  accessToken?: AccessTokenContext;
+}
+
+/**
+ * Pasangan feature dan action yang boleh diakses personal access token
+ */
+export interface AccessTokenScope {
+  feature: string;
+  action: RbacAction;
+}
+
+/**
+ * Personal access token yang dipakai request
+ * Akses dibatasi ke irisan permission pemilik token dan scope token
+ */
+export interface AccessTokenContext {
+  id: number;
+  name: string;
+  scopes: AccessTokenScope[];
 }
 
 /**
@@ -61,8 +84,9 @@ export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
 
 /**
  * Type untuk RBAC actions
+ * Action CRUD bawaan atau action custom yang dideklarasikan feature (contoh: 'export', 'approve')
  */
-export type RbacAction = 'create' | 'read' | 'update' | 'delete';
+export type RbacAction = 'create' | 'read' | 'update' | 'delete' | (string & {});
 
 /**
  * Interface untuk error response
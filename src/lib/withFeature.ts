@@ -4,6 +4,7 @@ export type { AuthenticatedUser } from "./types";
 export { 
   withAuthorization as withFeature,
   withAuthentication,
+  resourceIdFromPath,
   getUserFromHeaders as getUserInfoFromHeaders
 } from "./auth/authMiddleware";
 
@@ -30,4 +31,14 @@ import { withAuthorization } from "./auth/authMiddleware";
  * // Export dengan authorization wrapper
  * export const GET = withFeature('user_management', 'read')(handleGetUsers);
  * export const POST = withFeature('user_management', 'create')(handleCreateUser);
+ * 
+ * // Evaluasi policy resource.* terhadap user dengan ID di segment terakhir path
+ * export const PUT = withFeature({
+ *   feature: 'user_management',
+ *   action: 'update',
+ *   resourceId: resourceIdFromPath()
+ * })(handleUpdateUser);
+ * 
+ * // Action custom di luar CRUD (harus dideklarasikan di feature_actions)
+ * export const GET = withFeature({ feature: 'audit_logs', action: 'export' })(handleExportLogs);
  */
\ No newline at end of file
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createRouteAuthorizationMiddleware } from './middleware/exports';
 import { createCorsHandler } from './middleware/cors/corsHandler';
+import { createRateLimitHandler } from './middleware/rateLimit/rateLimitHandler';
+import { MFA_REQUIRED_HEADER } from './middleware/auth/authHandler';
 
 
 /**
@@ -39,6 +41,13 @@ export default async function middleware(request: NextRequest) {
       return corsHandler.handlePreflightRequest(request);
     }
 
+    // Rate limit per IP sesuai route group (sebelum authentication)
+    const rateLimitHandler = createRateLimitHandler();
+    const ipRateLimit = await rateLimitHandler.check(request);
+    if (ipRateLimit instanceof NextResponse) {
+      return corsHandler.handleCorsRequest(request, ipRateLimit);
+    }
+
     // Gunakan refactored middleware orchestrator
     const middlewareOrchestrator = createRouteAuthorizationMiddleware();
     const result = await middlewareOrchestrator.handleRouteAuthorization(
@@ -56,11 +65,23 @@ export default async function middleware(request: NextRequest) {
         console.log('🔒 Browser request unauthorized, redirecting to login:', loginUrl.toString());
         return NextResponse.redirect(loginUrl);
       }
-      return result;
+      // User wajib MFA yang belum login dengan MFA diarahkan ke halaman profile untuk enrollment
+      if (result.status === 403 && result.headers.get(MFA_REQUIRED_HEADER) && isBrowserRequest(request)) {
+        const profileUrl = new URL('/', request.url);
+        profileUrl.searchParams.set('mfa', 'required');
+        return NextResponse.redirect(profileUrl);
+      }
+      return rateLimitHandler.applyHeaders(result, ipRateLimit);
+    }
+
+    // Rate limit per akun untuk user yang sudah terautentikasi
+    const userRateLimit = result.userId > 0 ? await rateLimitHandler.check(request, result.userId) : null;
+    if (userRateLimit instanceof NextResponse) {
+      return corsHandler.handleCorsRequest(request, userRateLimit);
     }
     
     // Jika berhasil, create response dengan headers
-    const response = NextResponse.next();
+    const response = rateLimitHandler.applyHeaders(NextResponse.next(), userRateLimit ?? ipRateLimit);
     if (result.userId && result.userId > 0) {
       response.headers.set('x-auth-user-id', result.userId.toString());
       response.headers.set('x-auth-user-email', result.email);
@@ -92,12 +113,12 @@ export const config = {
   matcher: [
     /*
      * Match semua request paths kecuali:
-     * 1. /api/auth/* (auth endpoints)
-     * 2. /_next/static (static files)
-     * 3. /_next/image (image optimization files)
-     * 4. /favicon.ico (favicon file)
-     * 5. Files dengan extension (images, etc)
+     * 1. /_next/static (static files)
+     * 2. /_next/image (image optimization files)
+     * 3. /favicon.ico (favicon file)
+     * 4. Files dengan extension (images, etc)
+     * /api/auth/* ikut diproses untuk rate limiting; authorization-nya di-skip oleh route matcher
      */
-    '/((?!api/auth|_next/static|_next/image|favicon.ico|.*\\.).*)',
+    '/((?!_next/static|_next/image|favicon.ico|.*\\.).*)',
   ],
 };
\ No newline at end of file
@@ -20,8 +20,13 @@ import {
   verifyTokenAndGetUserContext,
   type AuthenticatedUserContext
 } from '@/lib/authUtils';
-import { verifyRefreshTokenAndGetUserContext } from '@/lib/auth/authService';
+import {
+  verifyRefreshTokenAndGetUserContext,
+  verifyAccessTokenAndGetUserContext
+} from '@/lib/auth/authService';
+import { isAccessTokenFormat, type AccessTokenClient } from '@/lib/auth/authService/accessTokenService';
 import { ErrorHandler } from '@/lib/errors/errorHandler';
+import { getClientIp } from '@/lib/http/clientIp';
 import { AuthorizationOptions, MiddlewareResult } from '../types';
 import { ContextFactory } from '../types';
 
@@ -34,9 +39,16 @@ enum AuthErrorType {
   TOKEN_INVALID = 'Token tidak valid',
   USER_INACTIVE = 'User tidak aktif',
   SERVER_ERROR = 'Terjadi kesalahan pada server',
-  AUTH_REQUIRED = 'Authentication diperlukan'
+  AUTH_REQUIRED = 'Authentication diperlukan',
+  MFA_REQUIRED = 'Role Anda mewajibkan multi-factor authentication. Aktifkan MFA di halaman profile lalu login ulang dengan kode MFA'
 }
 
+/**
+ * Header penanda response 403 karena kewajiban MFA belum terpenuhi
+ * Dipakai middleware untuk mengarahkan browser ke halaman enrollment
+ */
+export const MFA_REQUIRED_HEADER = 'x-mfa-required';
+
 /**
  * Mapping error message ke HTTP status code
  * Mengikuti prinsip DRY untuk error handling
@@ -111,7 +123,10 @@ export class AuthHandler {
       // Tentukan fungsi verifikasi berdasarkan sumber token
       let userContext: AuthenticatedUserContext | null = null;
       
-      if (authHeader && authHeader.startsWith('Bearer ')) {
+      if (authHeader && authHeader.startsWith('Bearer ') && isAccessTokenFormat(token)) {
+        // Personal access token untuk automation: tanpa fallback ke refresh token cookie
+        userContext = await verifyAccessTokenAndGetUserContext(token, this.getAccessTokenClient(request));
+      } else if (authHeader && authHeader.startsWith('Bearer ')) {
         // Token dari header Authorization adalah access token
         userContext = await verifyTokenAndGetUserContext(token);
         
@@ -143,6 +158,51 @@ export class AuthHandler {
     }
   }
 
+  /**
+   * Informasi client untuk pencatatan pemakaian personal access token
+   * 
+   * @param request - NextRequest object
+   * @returns AccessTokenClient - Path, method, IP, dan user agent request
+   */
+  getAccessTokenClient(request: NextRequest): AccessTokenClient {
+    return {
+      path: request.nextUrl.pathname,
+      method: request.method,
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get('user-agent')
+    };
+  }
+
+  /**
+   * Cek apakah kewajiban MFA dari role user sudah terpenuhi
+   * User dengan role mfaRequired hanya boleh memakai token hasil login yang memverifikasi MFA
+   * 
+   * @param userContext - Context user hasil autentikasi
+   * @returns boolean - true jika MFA tidak wajib atau token memiliki claim mfa
+   */
+  isMfaSatisfied(userContext: AuthenticatedUserContext): boolean {
+    return !userContext.mfaRequired || userContext.mfaVerified === true;
+  }
+
+  /**
+   * Response 403 untuk user yang wajib MFA tetapi login tanpa MFA
+   * 
+   * @returns NextResponse - Error response dengan code MFA_REQUIRED
+   */
+  handleMfaRequired(): NextResponse {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: AuthErrorType.MFA_REQUIRED,
+          code: 'MFA_REQUIRED',
+          statusCode: 403
+        }
+      },
+      { status: 403, headers: { [MFA_REQUIRED_HEADER]: 'true' } }
+    );
+  }
+
   /**
    * Normalize error menjadi format yang konsisten
    * Mengikuti prinsip DRY untuk error handling
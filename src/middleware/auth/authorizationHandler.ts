@@ -3,7 +3,7 @@
  * Mengikuti prinsip Single Responsibility Principle (SRP)
  */
 
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { 
   hasAnyRole,
   hasRole,
@@ -11,13 +11,88 @@ import {
 } from '@/lib/authUtils';
 import { createErrorResponse } from '@/lib/auth/authService';
 import { authService } from '@/lib/auth/authService';
+import { hasAccessTokenScope } from '@/lib/auth/authService/accessTokenService';
+import { getClientIp } from '@/lib/http/clientIp';
 import { routeFeatureRepository, featureRepository } from '@/repositories';
-import { AuthorizationOptions } from '../types';
+import { policyEvaluationService } from '@/services/abac/policyEvaluationService';
+import { resourceLoaderService } from '@/services/abac/resourceLoaderService';
+import { DAYS_OF_WEEK, type AbacRequestContext, type AbacResource, type PolicyEvaluationTrace } from '@/services/abac/types';
+import type { PermissionDecisionTrace } from '@/lib/auth/types';
+import {
+  AuthorizationOptions,
+  PermissionActionType,
+  ActionType,
+  FeatureAccessTrace,
+  RouteAccessTrace
+} from '../types';
 
 /**
  * Handler untuk proses authorization
  */
 export class AuthorizationHandler {
+  /**
+   * Kumpulkan context attribute ABAC dari request (waktu, hari, IP, user agent, method)
+   * Waktu mengikuti timezone ABAC_TIMEZONE jika diset, selain itu timezone server
+   * @param request - NextRequest object
+   * @param now - Waktu evaluasi (default: sekarang)
+   * @returns AbacRequestContext - Context untuk evaluasi attribute context.*
+   */
+  collectRequestContext(request: NextRequest, now: Date = new Date()): AbacRequestContext {
+    const timeZone = process.env.ABAC_TIMEZONE || undefined;
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hour: '2-digit',
+      minute: '2-digit',
+      weekday: 'long',
+      hourCycle: 'h23'
+    }).formatToParts(now);
+    const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '';
+
+    const weekday = part('weekday').toLowerCase();
+
+    return {
+      timeOfDay: `${part('hour').padStart(2, '0')}:${part('minute')}`,
+      dayOfWeek: (DAYS_OF_WEEK as readonly string[]).includes(weekday) ? weekday : DAYS_OF_WEEK[now.getDay()],
+      ip: getClientIp(request.headers),
+      userAgent: request.headers.get('user-agent'),
+      method: request.method.toUpperCase()
+    };
+  }
+
+  /**
+   * Evaluasi ABAC policies feature dengan context request
+   * Pelanggaran dicatat ke policy_violations beserta nilai aktualnya
+   * @param userContext - User context dari authentication
+   * @param featureId - ID feature
+   * @param requestContext - Context request
+   * @param resource - Attribute resource yang disediakan route (lihat ResourceLoaderService)
+   * @returns Promise<boolean> - true jika semua policies terpenuhi
+   */
+  async validatePolicyAccess(
+    userContext: AuthenticatedUserContext,
+    featureId: number,
+    requestContext: AbacRequestContext,
+    resource?: AbacResource
+  ): Promise<boolean> {
+    try {
+      const result = await policyEvaluationService.evaluateRequestPolicies(
+        userContext.user.id,
+        featureId,
+        requestContext,
+        resource
+      );
+
+      if (!result.isValid) {
+        console.warn(`⚠️ ABAC policy gagal untuk user ${userContext.user.id} pada feature ${featureId}`);
+      }
+
+      return result.isValid;
+    } catch (error) {
+      console.error('Error validating policy access:', error);
+      return false;
+    }
+  }
+
   /**
    * Validasi role-based access
    * @param userContext - User context dari authentication
@@ -37,68 +112,286 @@ export class AuthorizationHandler {
    * @param userContext - User context dari authentication
    * @param featureName - Nama feature
    * @param action - Action yang diperlukan
+   * @param requestContext - Context request untuk evaluasi ABAC (opsional)
    * @returns Promise<boolean> - true jika memiliki akses
    */
   async validateFeatureAccess(
     userContext: AuthenticatedUserContext,
     featureName: string,
-    action: 'create' | 'read' | 'update' | 'delete'
+    action: PermissionActionType,
+    requestContext?: AbacRequestContext
   ): Promise<boolean> {
     try {
-      return await authService.checkPermission(
-        userContext.user.id,
-        featureName,
-        action
-      );
+      return (await this.traceFeatureAccess(userContext, featureName, action, requestContext, false)).allowed;
     } catch (error) {
       console.error('Error validating feature access:', error);
       return false;
     }
   }
 
+  /**
+   * Jelaskan keputusan feature-based access seperti validateAuthorization:
+   * role kandidat dan flag role_features, bypass grantsAll, dan hasil setiap ABAC policy
+   * Pelanggaran policy tidak dicatat ke policy_violations
+   * @param userContext - User context yang dijelaskan
+   * @param featureName - Nama feature
+   * @param action - Action yang diperlukan
+   * @param requestContext - Context request untuk evaluasi ABAC (opsional)
+   * @returns Promise<FeatureAccessTrace> - Jejak keputusan
+   */
+  async explainFeatureAccess(
+    userContext: AuthenticatedUserContext,
+    featureName: string,
+    action: PermissionActionType,
+    requestContext?: AbacRequestContext
+  ): Promise<FeatureAccessTrace> {
+    const trace = await this.traceFeatureAccess(userContext, featureName, action, requestContext, true);
+
+    // validateAuthorization mem-bypass RBAC dan ABAC untuk user grants all
+    if (this.hasGrantsAll(userContext)) {
+      return {
+        ...trace,
+        allowed: true,
+        grantsAllBypass: true,
+        policies: null,
+        reason: 'User memiliki role grantsAll sehingga RBAC dan ABAC policy tidak dicek'
+      };
+    }
+
+    return trace;
+  }
+
   /**
    * Validasi route-based access menggunakan Hybrid RBAC + ABAC
    * @param userContext - User context dari authentication
    * @param routePath - Path route
    * @param method - HTTP method (GET, POST, PUT, DELETE, etc.)
    * @param action - Action yang diperlukan
+   * @param requestContext - Context request untuk evaluasi ABAC (opsional)
    * @returns Promise<boolean> - true jika memiliki akses
    */
   async validateRouteAccess(
     userContext: AuthenticatedUserContext,
     routePath: string,
     method: string,
-    action: 'create' | 'read' | 'update' | 'delete'
+    action: ActionType,
+    requestContext?: AbacRequestContext
+  ): Promise<boolean> {
+    try {
+      return (await this.traceRouteAccess(userContext, routePath, method, action, requestContext, false)).allowed;
+    } catch (error) {
+      console.error('Error validating route access:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Jelaskan keputusan route authorization seperti validateRouteAuthorization:
+   * route_features yang cocok, feature, role kandidat, bypass grantsAll, dan hasil setiap ABAC policy
+   * Pelanggaran policy tidak dicatat ke policy_violations
+   * @param userContext - User context yang dijelaskan
+   * @param routePath - Path route
+   * @param method - HTTP method
+   * @param action - Action yang diperlukan
+   * @param requestContext - Context request untuk evaluasi ABAC (opsional)
+   * @returns Promise<RouteAccessTrace> - Jejak keputusan
+   */
+  async explainRouteAuthorization(
+    userContext: AuthenticatedUserContext,
+    routePath: string,
+    method: string,
+    action: ActionType,
+    requestContext?: AbacRequestContext
+  ): Promise<RouteAccessTrace> {
+    const trace = await this.traceRouteAccess(userContext, routePath, method, action, requestContext, true);
+
+    // validateRouteAuthorization mem-bypass route_features dan ABAC untuk user grants all
+    if (this.hasGrantsAll(userContext)) {
+      return {
+        ...trace,
+        allowed: true,
+        grantsAllBypass: true,
+        policies: null,
+        reason: 'User memiliki role grantsAll sehingga route_features dan ABAC policy tidak dicek'
+      };
+    }
+
+    return trace;
+  }
+
+  /**
+   * Hitung keputusan feature-based access beserta jejaknya
+   * @param explain - true untuk jejak lengkap tanpa mencatat pelanggaran policy
+   */
+  private async traceFeatureAccess(
+    userContext: AuthenticatedUserContext,
+    featureName: string,
+    action: PermissionActionType,
+    requestContext: AbacRequestContext | undefined,
+    explain: boolean
+  ): Promise<FeatureAccessTrace> {
+    const permission = await this.tracePermission(userContext, featureName, action, explain);
+
+    if (!permission.allowed || !requestContext) {
+      return { allowed: permission.allowed, reason: permission.reason, grantsAllBypass: false, permission, policies: null };
+    }
+
+    const feature = await featureRepository.findByName(featureName);
+    if (!feature) {
+      return { allowed: false, reason: `Feature '${featureName}' tidak ditemukan`, grantsAllBypass: false, permission, policies: null };
+    }
+
+    const policies = await this.tracePolicies(userContext, feature.id, requestContext, explain);
+    return {
+      allowed: policies.isValid,
+      reason: policies.isValid ? permission.reason : this.describePolicyFailure(policies),
+      grantsAllBypass: false,
+      permission,
+      policies
+    };
+  }
+
+  /**
+   * Hitung keputusan route-based access beserta jejaknya
+   * @param explain - true untuk jejak lengkap tanpa mencatat pelanggaran policy
+   */
+  private async traceRouteAccess(
+    userContext: AuthenticatedUserContext,
+    routePath: string,
+    method: string,
+    action: ActionType,
+    requestContext: AbacRequestContext | undefined,
+    explain: boolean
+  ): Promise<RouteAccessTrace> {
+    const trace: RouteAccessTrace = {
+      allowed: false,
+      reason: '',
+      method,
+      path: routePath,
+      action,
+      publicRoute: false,
+      grantsAllBypass: false,
+      matchedRoute: null,
+      feature: null,
+      permission: null,
+      policies: null
+    };
+
+    // Mapping route ke feature menggunakan routeFeatureRepository dengan pattern matching
+    const matchingRoutes = await routeFeatureRepository.findMatchingRoutes(routePath, method);
+    
+    if (!matchingRoutes || matchingRoutes.length === 0) {
+      console.warn(`⚠️ Route '${method} ${routePath}' tidak ditemukan dalam route_features`);
+      return { ...trace, reason: `Route '${method} ${routePath}' tidak ditemukan dalam route_features` };
+    }
+
+    // Ambil route feature pertama yang cocok
+    const routeFeature = matchingRoutes[0];
+    trace.matchedRoute = {
+      id: routeFeature.id,
+      path: routeFeature.path,
+      method: routeFeature.method,
+      featureId: routeFeature.featureId
+    };
+    
+    // Ambil feature berdasarkan featureId
+    const feature = await featureRepository.findById(routeFeature.featureId);
+    if (!feature) {
+      console.warn(`⚠️ Feature dengan ID '${routeFeature.featureId}' tidak ditemukan`);
+      return { ...trace, reason: `Feature dengan ID '${routeFeature.featureId}' tidak ditemukan` };
+    }
+    trace.feature = { id: feature.id, name: feature.name };
+
+    console.log(`✅ Route '${method} ${routePath}' cocok dengan pattern '${routeFeature.method} ${routeFeature.path}' untuk feature '${feature.name}'`);
+
+    // Gunakan feature name untuk pengecekan permission
+    const permission = await this.tracePermission(userContext, feature.name, action, explain);
+    if (!permission.allowed || !requestContext) {
+      return { ...trace, allowed: permission.allowed, reason: permission.reason, permission };
+    }
+
+    // Evaluasi ABAC policies feature dengan context request dan resource yang disediakan route;
+    // policy resource.* di route tanpa resource (contoh: endpoint list) atau resource yang tidak ada akan deny
+    const resource = await resourceLoaderService.loadRouteResource(feature.name, routePath);
+    const policies = await this.tracePolicies(userContext, feature.id, requestContext, explain, resource);
+    return {
+      ...trace,
+      allowed: policies.isValid,
+      reason: policies.isValid ? permission.reason : this.describePolicyFailure(policies),
+      permission,
+      policies
+    };
+  }
+
+  /**
+   * Keputusan RBAC; mode explain menyertakan flag role_features setiap role
+   */
+  private async tracePermission(
+    userContext: AuthenticatedUserContext,
+    featureName: string,
+    action: PermissionActionType,
+    explain: boolean
+  ): Promise<PermissionDecisionTrace> {
+    return explain
+      ? authService.explainPermission(userContext.user.id, featureName, action)
+      : authService.evaluatePermission(userContext.user.id, featureName, action);
+  }
+
+  /**
+   * Keputusan ABAC; mode explain menyertakan hasil setiap policy tanpa mencatat pelanggaran
+   */
+  private async tracePolicies(
+    userContext: AuthenticatedUserContext,
+    featureId: number,
+    requestContext: AbacRequestContext,
+    explain: boolean,
+    resource?: AbacResource
+  ): Promise<PolicyEvaluationTrace> {
+    if (explain) {
+      return policyEvaluationService.explainPolicies(userContext.user.id, featureId, requestContext, resource);
+    }
+    return { isValid: await this.validatePolicyAccess(userContext, featureId, requestContext, resource), policies: [] };
+  }
+
+  /**
+   * Ringkas policy yang gagal menjadi alasan penolakan
+   */
+  private describePolicyFailure(policies: PolicyEvaluationTrace): string {
+    const failed = policies.policies.filter(policy => !policy.passed).map(policy => policy.description);
+    return failed.length > 0
+      ? `ABAC policy tidak terpenuhi: ${failed.join('; ')}`
+      : 'ABAC policy tidak terpenuhi';
+  }
+
+  /**
+   * Validasi scope personal access token terhadap feature route
+   * Request tanpa personal access token selalu lolos cek ini
+   * @param userContext - User context dari authentication
+   * @param routePath - Path route
+   * @param method - HTTP method
+   * @param action - Action yang diperlukan
+   * @returns Promise<boolean> - true jika feature/action route ada di scope token
+   */
+  async validateAccessTokenScope(
+    userContext: AuthenticatedUserContext,
+    routePath: string,
+    method: string,
+    action: PermissionActionType
   ): Promise<boolean> {
+    if (!userContext.accessToken) {
+      return true;
+    }
+
     try {
-      // Mapping route ke feature menggunakan routeFeatureRepository dengan pattern matching
       const matchingRoutes = await routeFeatureRepository.findMatchingRoutes(routePath, method);
-      
       if (!matchingRoutes || matchingRoutes.length === 0) {
-        console.warn(`⚠️ Route '${method} ${routePath}' tidak ditemukan dalam route_features`);
-        return false;
-      }
-
-      // Ambil route feature pertama yang cocok
-      const routeFeature = matchingRoutes[0];
-      
-      // Ambil feature berdasarkan featureId
-      const feature = await featureRepository.findById(routeFeature.featureId);
-      if (!feature) {
-        console.warn(`⚠️ Feature dengan ID '${routeFeature.featureId}' tidak ditemukan`);
         return false;
       }
 
-      console.log(`✅ Route '${method} ${routePath}' cocok dengan pattern '${routeFeature.method} ${routeFeature.path}' untuk feature '${feature.name}'`);
-
-      // Gunakan feature name untuk checkPermission
-      return await authService.checkPermission(
-        userContext.user.id,
-        feature.name,
-        action
-      );
+      const feature = await featureRepository.findById(matchingRoutes[0].featureId);
+      return Boolean(feature) && hasAccessTokenScope(userContext.accessToken.scopes, feature!.name, action);
     } catch (error) {
-      console.error('Error validating route access:', error);
+      console.error('Error validating access token scope:', error);
       return false;
     }
   }
@@ -116,11 +409,13 @@ export class AuthorizationHandler {
    * Validasi authorization berdasarkan options
    * @param userContext - User context dari authentication
    * @param options - Authorization options
+   * @param requestContext - Context request untuk evaluasi ABAC (opsional)
    * @returns Promise<NextResponse | null> - Error response jika gagal, null jika berhasil
    */
   async validateAuthorization(
     userContext: AuthenticatedUserContext,
-    options?: AuthorizationOptions
+    options?: AuthorizationOptions,
+    requestContext?: AbacRequestContext
   ): Promise<NextResponse | null> {
 
     console.log('Authorization options:', options);
@@ -130,6 +425,18 @@ export class AuthorizationHandler {
     console.log('Required feature:', options?.requiredFeature);
     console.log('Required action:', options?.requiredAction);
 
+    // Personal access token hanya boleh mengakses feature/action dalam scope-nya, termasuk untuk grants all
+    if (
+      userContext.accessToken &&
+      (!options?.requiredFeature || !options?.requiredAction ||
+        !hasAccessTokenScope(userContext.accessToken.scopes, options.requiredFeature, options.requiredAction))
+    ) {
+      return NextResponse.json(
+        createErrorResponse('Akses ditolak: Di luar scope access token', 403),
+        { status: 403 }
+      );
+    }
+
     // Bypass semua cek jika user memiliki grants all
     if (this.hasGrantsAll(userContext)) {
       console.log('✅ Grants all access granted');
@@ -152,7 +459,8 @@ export class AuthorizationHandler {
       const hasFeatureAccess = await this.validateFeatureAccess(
         userContext,
         options.requiredFeature,
-        options.requiredAction
+        options.requiredAction,
+        requestContext
       );
       if (!hasFeatureAccess) {
         return NextResponse.json(
@@ -171,20 +479,28 @@ export class AuthorizationHandler {
    * @param routePath - Path route yang akan divalidasi
    * @param method - HTTP method (GET, POST, PUT, DELETE, etc.)
    * @param action - Action yang diperlukan
+   * @param requestContext - Context request untuk evaluasi ABAC (opsional)
    * @returns Promise<NextResponse | null> - Error response jika gagal, null jika berhasil
    */
   async validateRouteAuthorization(
     userContext: AuthenticatedUserContext,
     routePath: string,
     method: string,
-    action: 'create' | 'read' | 'update' | 'delete'
+    action: 'create' | 'read' | 'update' | 'delete',
+    requestContext?: AbacRequestContext
   ): Promise<NextResponse | null> {
+    // Personal access token hanya boleh mengakses feature/action dalam scope-nya, termasuk untuk grants all
+    if (!(await this.validateAccessTokenScope(userContext, routePath, method, action))) {
+      const errorResponse = createErrorResponse('Akses ditolak: Di luar scope access token', 403);
+      return NextResponse.json(errorResponse, { status: 403 });
+    }
+
     // Bypass semua cek jika user memiliki grants all
     if (this.hasGrantsAll(userContext)) {
       return null; // Berhasil
     }
 
-    const hasAccess = await this.validateRouteAccess(userContext, routePath, method, action);
+    const hasAccess = await this.validateRouteAccess(userContext, routePath, method, action, requestContext);
     if (!hasAccess) {
       const errorResponse = createErrorResponse('Akses ditolak: RBAC atau ABAC validation gagal', 403);
       return NextResponse.json(errorResponse, { status: 403 });
@@ -54,7 +54,8 @@ export class MiddlewareOrchestrator implements MiddlewareHandler {
       // Authorize berdasarkan options
       const authError = await this.authorizationHandler.validateAuthorization(
         authResult.userContext,
-        options
+        options,
+        this.authorizationHandler.collectRequestContext(request)
       );
 
       if (authError) {
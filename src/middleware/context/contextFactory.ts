@@ -3,7 +3,7 @@
  * Mengikuti prinsip Factory Pattern dan Dependency Inversion Principle (DIP)
  */
 
-import { AuthorizationContext, ContextFactory } from '../types';
+import { AuthorizationContext, ContextFactory, PermissionActionType } from '../types';
 import { AuthenticatedUserContext } from '@/lib/authUtils';
 import { authService } from '@/lib/auth/authService';
 import { hasAnyRole, hasRole } from '@/lib/authUtils';
@@ -29,7 +29,7 @@ export class DefaultContextFactory implements ContextFactory {
        * @param action - Action yang diperlukan
        * @returns Promise<boolean> - true jika memiliki permission
        */
-      hasPermission: async (featureName: string, action: 'create' | 'read' | 'update' | 'delete'): Promise<boolean> => {
+      hasPermission: async (featureName: string, action: PermissionActionType): Promise<boolean> => {
         try {
           return await authService.checkPermission(
             userContext.user.id,
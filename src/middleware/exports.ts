@@ -15,6 +15,7 @@ export {
 export type {
   AuthorizationContext,
   ActionType,
+  PermissionActionType,
   AuthorizationOptions,
   MiddlewareResult,
   MiddlewareHandler,
@@ -29,6 +30,11 @@ export { MiddlewareOrchestrator, createMiddlewareOrchestrator } from './auth/mid
 export { RouteHandler, createRouteHandler } from './route/routeHandler';
 export { DefaultContextFactory, createContextFactory, contextFactory } from './context/contextFactory';
 
+// Export rate limit handler dan konfigurasi route group
+export { RateLimitHandler, createRateLimitHandler } from './rateLimit/rateLimitHandler';
+export { rateLimitRouteGroups, getRateLimitRouteGroups } from './rateLimit/rateLimitConfig';
+export type { RateLimitRouteGroup, RateLimitGroupRule } from './rateLimit/rateLimitConfig';
+
 // Export CORS handler
 export { CorsHandler, createCorsHandler } from './cors/corsHandler';
 export { getCorsConfig, isOriginAllowed, developmentCorsConfig, productionCorsConfig } from './cors/corsConfig';
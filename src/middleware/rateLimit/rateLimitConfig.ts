@@ -0,0 +1,60 @@
+/**
+ * Konfigurasi rate limit per route group untuk middleware
+ * Mengikuti prinsip SoC (Separation of Concerns): limit diatur di sini, enforcement di RateLimitHandler
+ */
+
+import type { RateLimitRule } from '@/lib/rateLimit';
+
+/**
+ * Aturan sliding window untuk satu dimensi (IP atau akun)
+ */
+export interface RateLimitGroupRule extends RateLimitRule {
+  perRoute?: boolean; // true: counter terpisah per method + route
+}
+
+/**
+ * Route group dengan limit masing-masing
+ */
+export interface RateLimitRouteGroup {
+  name: string;
+  pathPrefixes: string[];
+  methods?: string[]; // default: semua method
+  ipRule?: RateLimitGroupRule; // dicek sebelum authentication, key: IP client
+  userRule?: RateLimitGroupRule; // dicek setelah authentication berhasil, key: user ID
+}
+
+/**
+ * Route group rate limit; group pertama yang cocok dengan path dan method yang dipakai
+ */
+export const rateLimitRouteGroups: RateLimitRouteGroup[] = [
+  {
+    // Login, register, dan refresh: batasi brute force per IP untuk setiap endpoint
+    name: 'auth',
+    pathPrefixes: ['/api/auth/', '/api/v1/auth/'],
+    methods: ['POST'],
+    ipRule: { limit: 20, windowMs: 60 * 1000, perRoute: true }
+  },
+  {
+    // Operasi administrasi RBAC yang mengubah data
+    name: 'rbac-write',
+    pathPrefixes: ['/api/rbac/', '/api/v1/rbac/'],
+    methods: ['POST', 'PUT', 'PATCH', 'DELETE'],
+    ipRule: { limit: 120, windowMs: 60 * 1000 },
+    userRule: { limit: 30, windowMs: 60 * 1000, perRoute: true }
+  },
+  {
+    // Semua API lainnya
+    name: 'api',
+    pathPrefixes: ['/api/'],
+    ipRule: { limit: 600, windowMs: 60 * 1000 },
+    userRule: { limit: 120, windowMs: 60 * 1000, perRoute: true }
+  }
+];
+
+/**
+ * Mendapatkan route group rate limit
+ * @returns RateLimitRouteGroup[] - Route group yang berlaku
+ */
+export function getRateLimitRouteGroups(): RateLimitRouteGroup[] {
+  return rateLimitRouteGroups;
+}
@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  rateLimiter,
+  isRateLimitEnabled,
+  getRateLimitHeaders,
+  type SlidingWindowRateLimiter,
+  type RateLimitResult
+} from '@/lib/rateLimit';
+import { getClientIp } from '@/lib/http/clientIp';
+import { getRateLimitRouteGroups, RateLimitRouteGroup, RateLimitGroupRule } from './rateLimitConfig';
+
+/**
+ * Handler untuk rate limiting route group di middleware
+ * Mengikuti prinsip SRP (Single Responsibility Principle)
+ */
+export class RateLimitHandler {
+  private unknownIpWarned = false;
+
+  constructor(
+    private readonly limiter: SlidingWindowRateLimiter = rateLimiter,
+    private readonly groups: RateLimitRouteGroup[] = getRateLimitRouteGroups()
+  ) {}
+
+  /**
+   * Cek rate limit request
+   * Tanpa userId memakai ipRule (sebelum authentication), dengan userId memakai userRule
+   * ipRule hanya berlaku jika IP client diketahui (lihat getClientIp)
+   * @param request - NextRequest object
+   * @param userId - ID user terautentikasi (opsional)
+   * @returns Promise<RateLimitResult | NextResponse | null> - Response 429 jika limit terlampaui,
+   *   hasil pengecekan jika diizinkan, null jika tidak ada rule yang berlaku
+   */
+  async check(request: NextRequest, userId?: number): Promise<RateLimitResult | NextResponse | null> {
+    if (!isRateLimitEnabled()) {
+      return null;
+    }
+
+    const { pathname } = request.nextUrl;
+    const group = this.findGroup(pathname, request.method);
+    const rule = userId ? group?.userRule : group?.ipRule;
+    if (!group || !rule) {
+      return null;
+    }
+
+    // Tanpa IP client (TRUSTED_PROXIES tidak diset) ipRule dilewati agar semua client tidak berbagi satu counter
+    const clientIp = userId ? null : getClientIp(request.headers);
+    if (!userId && !clientIp) {
+      this.warnUnknownIp();
+      return null;
+    }
+
+    const subject = userId ? `user:${userId}` : `ip:${clientIp}`;
+    const key = this.buildKey(group, rule, subject, request.method, pathname);
+
+    try {
+      const result = await this.limiter.consume(key, rule);
+      if (!result.allowed) {
+        console.warn(`⚠️ Rate limit exceeded [${group.name}] ${subject} ${request.method} ${pathname}`);
+        return this.createLimitedResponse(result, group.name);
+      }
+      return { ...result, policy: group.name };
+    } catch (error) {
+      // Fail-open: gangguan storage rate limit tidak boleh memblokir seluruh API
+      console.error('Rate limit check error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Tambahkan header RateLimit-* ke response
+   * @param response - NextResponse object
+   * @param result - Hasil pengecekan rate limit
+   * @returns NextResponse - Response yang sama dengan header rate limit
+   */
+  applyHeaders(response: NextResponse, result: RateLimitResult | null): NextResponse {
+    if (result) {
+      for (const [name, value] of Object.entries(getRateLimitHeaders(result))) {
+        response.headers.set(name, value);
+      }
+    }
+    return response;
+  }
+
+  /**
+   * Buat response 429 dari RateLimitError
+   * @param result - Hasil pengecekan yang ditolak
+   * @param policy - Nama route group
+   * @returns NextResponse - Response 429 dengan Retry-After dan RateLimit-*
+   */
+  createLimitedResponse(result: RateLimitResult, policy: string): NextResponse {
+    const error = this.limiter.toError(result, undefined, policy);
+    return NextResponse.json(
+      {
+        success: false,
+        message: error.message,
+        error: error.code
+      },
+      { status: error.statusCode, headers: error.getHeaders() }
+    );
+  }
+
+  /**
+   * Cari route group pertama yang cocok dengan path dan method
+   * @param pathname - Path request
+   * @param method - HTTP method
+   * @returns RateLimitRouteGroup | undefined - Route group yang berlaku
+   */
+  findGroup(pathname: string, method: string): RateLimitRouteGroup | undefined {
+    const upperMethod = method.toUpperCase();
+    return this.groups.find(group =>
+      group.pathPrefixes.some(prefix => pathname.startsWith(prefix)) &&
+      (!group.methods || group.methods.includes(upperMethod))
+    );
+  }
+
+  /**
+   * Log sekali bahwa ipRule tidak diterapkan karena IP client tidak diketahui
+   */
+  private warnUnknownIp(): void {
+    if (this.unknownIpWarned) {
+      return;
+    }
+    this.unknownIpWarned = true;
+    console.warn('⚠️ Rate limit per IP dilewati: IP client tidak diketahui, set TRUSTED_PROXIES untuk mengaktifkannya');
+  }
+
+  /**
+   * Bangun key rate limit; segmen numerik dinormalisasi agar satu route dengan ID berbeda berbagi counter
+   */
+  private buildKey(
+    group: RateLimitRouteGroup,
+    rule: RateLimitGroupRule,
+    subject: string,
+    method: string,
+    pathname: string
+  ): string {
+    if (!rule.perRoute) {
+      return `${group.name}:${subject}`;
+    }
+    const route = pathname.replace(/\/\d+(?=\/|$)/g, '/:id');
+    return `${group.name}:${subject}:${method.toUpperCase()} ${route}`;
+  }
+}
+
+/**
+ * Factory function untuk membuat rate limit handler
+ */
+export function createRateLimitHandler(
+  limiter?: SlidingWindowRateLimiter,
+  groups?: RateLimitRouteGroup[]
+): RateLimitHandler {
+  return new RateLimitHandler(limiter, groups);
+}
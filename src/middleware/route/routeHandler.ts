@@ -8,6 +8,7 @@ import { ActionType, MiddlewareResult, RouteMatcher } from '../types';
 import { AuthHandler } from '../auth/authHandler';
 import { AuthorizationHandler } from '../auth/authorizationHandler';
 import { ContextFactory } from '../types';
+import { accessTokenService } from '@/lib/auth/authService/accessTokenService';
 
 /**
  * Handler untuk route-based middleware logic
@@ -54,14 +55,37 @@ export class RouteHandler {
         return this.authHandler.handleAuthError(error);
       }
 
+      // Role yang mewajibkan MFA: hanya route enrollment MFA yang boleh diakses tanpa login MFA
+      if (
+        !this.authHandler.isMfaSatisfied(authResult.userContext) &&
+        !this.routeMatcher.isMfaEnrollmentRoute(pathname)
+      ) {
+        return this.authHandler.handleMfaRequired();
+      }
+
       // Authorize route access
       const authError = await this.authorizationHandler.validateRouteAuthorization(
         authResult.userContext,
         pathname,
         request.method,
-        requiredAction
+        requiredAction,
+        this.authorizationHandler.collectRequestContext(request)
       );
 
+      // Setiap pemakaian personal access token dicatat ke access_logs
+      const accessToken = authResult.userContext.accessToken;
+      if (accessToken) {
+        await accessTokenService.recordUsage(
+          accessToken.id,
+          authResult.userContext.user.id,
+          this.authHandler.getAccessTokenClient(request),
+          authError ? 'deny' : 'allow',
+          authError
+            ? `Akses ${requiredAction} ditolak untuk access token "${accessToken.name}": di luar scope token atau permission pemilik`
+            : `Akses ${requiredAction} dengan access token "${accessToken.name}"`
+        );
+      }
+
       if (authError) {
         return authError;
       }
@@ -4,6 +4,9 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import type { RouteFeature } from '@/db/schema';
+import type { PermissionDecisionTrace } from '@/lib/auth/types';
+import type { PolicyEvaluationTrace } from '@/services/abac/types';
 
 /**
  * Interface untuk authorization context yang diberikan ke API routes
@@ -12,7 +15,7 @@ export interface AuthorizationContext {
   userId: number;
   email: string;
   roles: string[];
-  hasPermission: (featureName: string, action: ActionType) => Promise<boolean>;
+  hasPermission: (featureName: string, action: PermissionActionType) => Promise<boolean>;
   hasAnyRole: (roleNames: string[]) => Promise<boolean>;
   hasRole: (roleName: string) => Promise<boolean>;
 }
@@ -22,12 +25,17 @@ export interface AuthorizationContext {
  */
 export type ActionType = 'create' | 'read' | 'update' | 'delete';
 
+/**
+ * Type untuk action permission: action CRUD atau action custom yang dideklarasikan feature
+ */
+export type PermissionActionType = ActionType | (string & {});
+
 /**
  * Interface untuk options authorization middleware
  */
 export interface AuthorizationOptions {
   requiredFeature?: string;
-  requiredAction?: ActionType;
+  requiredAction?: PermissionActionType;
   requiredRoles?: string[];
   allowPublic?: boolean;
 }
@@ -61,6 +69,7 @@ export interface RouteMatcher {
   isPublicRoute(pathname: string): boolean;
   isPublicApiRoute(pathname: string): boolean;
   isPublicWebRoute(pathname: string): boolean;
+  isMfaEnrollmentRoute(pathname: string): boolean;
   shouldSkipMiddleware(pathname: string): boolean;
   getActionFromMethod(method: string): ActionType;
   getPublicApiRoutes(): string[];
@@ -73,4 +82,34 @@ export interface RouteMatcher {
 export interface ContextFactory {
   createAuthorizationContext(userContext: any): Promise<AuthorizationContext>;
   createPublicContext(): AuthorizationContext;
-}
\ No newline at end of file
+}
+
+/**
+ * Jejak keputusan akses feature: RBAC lalu ABAC
+ * policies null jika ABAC tidak dievaluasi (RBAC sudah menolak atau tanpa context request)
+ */
+export interface FeatureAccessTrace {
+  allowed: boolean;
+  reason: string;
+  grantsAllBypass: boolean;
+  permission: PermissionDecisionTrace;
+  policies: PolicyEvaluationTrace | null;
+}
+
+/**
+ * Jejak keputusan akses route seperti yang dilakukan middleware
+ * permission null jika tidak ada route_features yang cocok atau user di-bypass grantsAll
+ */
+export interface RouteAccessTrace {
+  allowed: boolean;
+  reason: string;
+  method: string;
+  path: string;
+  action: ActionType;
+  publicRoute: boolean;
+  grantsAllBypass: boolean;
+  matchedRoute: Pick<RouteFeature, 'id' | 'path' | 'method' | 'featureId'> | null;
+  feature: { id: number; name: string } | null;
+  permission: PermissionDecisionTrace | null;
+  policies: PolicyEvaluationTrace | null;
+}
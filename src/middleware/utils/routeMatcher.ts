@@ -17,7 +17,9 @@ export class DefaultRouteMatcher implements RouteMatcher {
     '/login',
     '/register',
     '/forgot-password',
-    '/reset-password'
+    '/reset-password',
+    '/verify-email',
+    '/accept-invitation'
   ];
 
   /**
@@ -31,14 +33,34 @@ export class DefaultRouteMatcher implements RouteMatcher {
     '/api/setup/initial',
     // Legacy auth endpoints (non-versioned)
     '/api/auth/login',
+    '/api/auth/login/mfa',
     '/api/auth/register',
     '/api/auth/refresh',
     '/api/auth/validate',
+    '/api/auth/forgot-password',
+    '/api/auth/reset-password',
+    '/api/auth/verify-email',
+    '/api/auth/verify-email/resend',
+    '/api/auth/accept-invitation',
     // V1 auth endpoints
     '/api/v1/auth/login',
+    '/api/v1/auth/login/mfa',
     '/api/v1/auth/register',
     '/api/v1/auth/refresh',
-    '/api/v1/auth/validate'
+    '/api/v1/auth/validate',
+    '/api/v1/auth/forgot-password',
+    '/api/v1/auth/reset-password',
+    '/api/v1/auth/verify-email',
+    '/api/v1/auth/verify-email/resend',
+    '/api/v1/auth/accept-invitation'
+  ];
+
+  /**
+   * Route prefix yang tetap dapat diakses user yang wajib MFA tetapi belum login dengan MFA,
+   * agar user dapat melakukan enrollment MFA
+   */
+  private readonly mfaEnrollmentRoutes: string[] = [
+    '/api/profile/mfa'
   ];
 
   /**
@@ -97,6 +119,15 @@ export class DefaultRouteMatcher implements RouteMatcher {
     return [...this.publicRoutes];
   }
 
+  /**
+   * Cek apakah route adalah route enrollment MFA (dikecualikan dari kewajiban MFA)
+   * @param pathname - Path yang akan dicek
+   * @returns boolean - true jika route enrollment MFA
+   */
+  isMfaEnrollmentRoute(pathname: string): boolean {
+    return this.mfaEnrollmentRoutes.some(route => pathname === route || pathname.startsWith(`${route}/`));
+  }
+
   /**
    * Cek apakah middleware harus di-skip untuk route ini
    * @param pathname - Path yang akan dicek
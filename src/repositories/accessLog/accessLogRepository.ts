@@ -34,6 +34,7 @@ export class AccessLogRepository extends BaseRepository implements CrudRepositor
         method: accessLogs.method,
         decision: accessLogs.decision,
         reason: accessLogs.reason,
+        accessTokenId: accessLogs.accessTokenId,
         createdAt: accessLogs.createdAt,
         user: {
           id: users.id,
@@ -0,0 +1,83 @@
+import { eq, and, desc } from "drizzle-orm";
+import { db } from "@/db";
+import {
+  accessReviewCampaigns,
+  accessReviewItems,
+  type AccessReviewCampaign,
+  type NewAccessReviewCampaign,
+  type NewAccessReviewItem
+} from "@/db/schema";
+import { BaseRepository } from "../base/baseRepository";
+
+/**
+ * Repository untuk campaign access review (recertification)
+ * Hanya menangani akses data; transisi status divalidasi di AccessReviewService
+ */
+export class AccessReviewCampaignRepository extends BaseRepository {
+  /**
+   * Mengambil semua campaign, opsional difilter status
+   * @param status - Status campaign (opsional)
+   * @returns Promise<AccessReviewCampaign[]> - Array campaign, terbaru lebih dulu
+   */
+  async findAll(status?: string): Promise<AccessReviewCampaign[]> {
+    return this.executeWithErrorHandling('fetch all access review campaigns', async () => {
+      return await db!.select().from(accessReviewCampaigns)
+        .where(status ? eq(accessReviewCampaigns.status, status) : undefined)
+        .orderBy(desc(accessReviewCampaigns.createdAt));
+    });
+  }
+
+  /**
+   * Mencari campaign berdasarkan ID
+   * @param id - ID campaign
+   * @returns Promise<AccessReviewCampaign | undefined> - Campaign jika ditemukan
+   */
+  async findById(id: number): Promise<AccessReviewCampaign | undefined> {
+    return this.executeWithErrorHandling('find access review campaign by ID', async () => {
+      const result = await db!.select().from(accessReviewCampaigns).where(eq(accessReviewCampaigns.id, id)).limit(1);
+      return this.getFirstResult(result);
+    });
+  }
+
+  /**
+   * Membuat campaign beserta snapshot item-nya dalam satu transaksi
+   * @param campaignData - Data campaign baru
+   * @param items - Item snapshot tanpa campaignId
+   * @returns Promise<AccessReviewCampaign> - Campaign yang baru dibuat
+   */
+  async createWithItems(
+    campaignData: NewAccessReviewCampaign,
+    items: Omit<NewAccessReviewItem, 'campaignId'>[]
+  ): Promise<AccessReviewCampaign> {
+    return this.executeWithErrorHandling('create access review campaign', async () => {
+      return await db!.transaction(async (tx) => {
+        const [campaign] = await tx.insert(accessReviewCampaigns).values(campaignData).returning();
+        if (items.length > 0) {
+          await tx.insert(accessReviewItems).values(
+            items.map(item => ({ ...item, campaignId: campaign.id }))
+          );
+        }
+        return campaign;
+      });
+    });
+  }
+
+  /**
+   * Tutup campaign yang masih open
+   * @param id - ID campaign
+   * @param closedBy - ID admin yang menutup campaign
+   * @returns Promise<AccessReviewCampaign | undefined> - Campaign yang ditutup, undefined jika tidak open
+   */
+  async close(id: number, closedBy: number): Promise<AccessReviewCampaign | undefined> {
+    return this.executeWithErrorHandling('close access review campaign', async () => {
+      const result = await db!.update(accessReviewCampaigns)
+        .set({ status: 'closed', closedBy, closedAt: new Date() })
+        .where(and(eq(accessReviewCampaigns.id, id), eq(accessReviewCampaigns.status, 'open')))
+        .returning();
+      return this.getFirstResult(result);
+    });
+  }
+}
+
+// Export instance untuk backward compatibility
+export const accessReviewCampaignRepository = new AccessReviewCampaignRepository('AccessReviewCampaignRepository');
@@ -0,0 +1,71 @@
+import { eq, and, asc } from "drizzle-orm";
+import { db } from "@/db";
+import { accessReviewCampaigns, accessReviewItems, type AccessReviewItem } from "@/db/schema";
+import { BaseRepository } from "../base/baseRepository";
+
+/**
+ * Repository untuk item access review (snapshot user→role beserta keputusan reviewer)
+ */
+export class AccessReviewItemRepository extends BaseRepository {
+  /**
+   * Mencari item berdasarkan ID
+   * @param id - ID item
+   * @returns Promise<AccessReviewItem | undefined> - Item jika ditemukan
+   */
+  async findById(id: number): Promise<AccessReviewItem | undefined> {
+    return this.executeWithErrorHandling('find access review item by ID', async () => {
+      const result = await db!.select().from(accessReviewItems).where(eq(accessReviewItems.id, id)).limit(1);
+      return this.getFirstResult(result);
+    });
+  }
+
+  /**
+   * Mengambil semua item dalam campaign
+   * @param campaignId - ID campaign
+   * @returns Promise<AccessReviewItem[]> - Array item, urut berdasarkan user
+   */
+  async findByCampaignId(campaignId: number): Promise<AccessReviewItem[]> {
+    return this.executeWithErrorHandling('find access review items by campaign ID', async () => {
+      return await db!.select().from(accessReviewItems)
+        .where(eq(accessReviewItems.campaignId, campaignId))
+        .orderBy(asc(accessReviewItems.userId), asc(accessReviewItems.roleId));
+    });
+  }
+
+  /**
+   * Mengambil item yang ditugaskan ke reviewer dalam campaign yang masih open
+   * @param reviewerId - ID user reviewer
+   * @returns Promise<AccessReviewItem[]> - Array item (keputusan masih dapat diubah selama campaign open)
+   */
+  async findOpenByReviewerId(reviewerId: number): Promise<AccessReviewItem[]> {
+    return this.executeWithErrorHandling('find open access review items by reviewer ID', async () => {
+      const result = await db!.select({ item: accessReviewItems }).from(accessReviewItems)
+        .innerJoin(accessReviewCampaigns, eq(accessReviewItems.campaignId, accessReviewCampaigns.id))
+        .where(and(
+          eq(accessReviewItems.reviewerId, reviewerId),
+          eq(accessReviewCampaigns.status, 'open')
+        ))
+        .orderBy(asc(accessReviewItems.campaignId), asc(accessReviewItems.userId));
+      return result.map(row => row.item);
+    });
+  }
+
+  /**
+   * Update item
+   * @param id - ID item
+   * @param itemData - Field yang diupdate
+   * @returns Promise<AccessReviewItem | undefined> - Item yang sudah diupdate
+   */
+  async update(id: number, itemData: Partial<Omit<AccessReviewItem, 'id' | 'campaignId'>>): Promise<AccessReviewItem | undefined> {
+    return this.executeWithErrorHandling('update access review item', async () => {
+      const result = await db!.update(accessReviewItems)
+        .set(itemData)
+        .where(eq(accessReviewItems.id, id))
+        .returning();
+      return this.getFirstResult(result);
+    });
+  }
+}
+
+// Export instance untuk backward compatibility
+export const accessReviewItemRepository = new AccessReviewItemRepository('AccessReviewItemRepository');
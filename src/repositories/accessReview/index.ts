@@ -0,0 +1,17 @@
+/**
+ * Access Review Repository Module
+ * 
+ * Module ini mengexport repository untuk campaign access review
+ * dan snapshot item user→role yang direview.
+ * 
+ * @module AccessReviewRepository
+ */
+
+export { AccessReviewCampaignRepository, accessReviewCampaignRepository } from './accessReviewCampaignRepository';
+export { AccessReviewItemRepository, accessReviewItemRepository } from './accessReviewItemRepository';
+export type {
+  AccessReviewCampaign,
+  NewAccessReviewCampaign,
+  AccessReviewItem,
+  NewAccessReviewItem
+} from '@/db/schema';
@@ -0,0 +1,20 @@
+/**
+ * Access Token Repository Module
+ * 
+ * Module ini mengexport repository untuk personal access token
+ * beserta scope feature/action-nya.
+ * 
+ * @module AccessTokenRepository
+ */
+
+export {
+  PersonalAccessTokenRepository,
+  personalAccessTokenRepository,
+  type PersonalAccessTokenScopeRow
+} from './personalAccessTokenRepository';
+export type {
+  PersonalAccessToken,
+  NewPersonalAccessToken,
+  PersonalAccessTokenScope,
+  NewPersonalAccessTokenScope
+} from '@/db/schema';
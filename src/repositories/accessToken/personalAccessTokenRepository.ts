@@ -0,0 +1,158 @@
+import { eq, and, desc, isNull, gt } from "drizzle-orm";
+import { db } from "@/db";
+import {
+  personalAccessTokens,
+  personalAccessTokenScopes,
+  features,
+  type PersonalAccessToken,
+  type NewPersonalAccessToken
+} from "@/db/schema";
+import { BaseRepository } from "../base/baseRepository";
+
+/**
+ * Scope token beserta nama feature-nya
+ */
+export interface PersonalAccessTokenScopeRow {
+  featureId: number;
+  featureName: string;
+  action: string;
+}
+
+/**
+ * Repository untuk personal access token dan scope feature/action-nya
+ * Token dicari berdasarkan hash; token plaintext tidak pernah disimpan
+ */
+export class PersonalAccessTokenRepository extends BaseRepository {
+  /**
+   * Simpan token baru beserta scope-nya dalam satu transaksi
+   * @param data - Data token (userId, name, tokenPrefix, tokenHash, expiresAt, createdBy)
+   * @param scopes - Pasangan feature ID dan action yang boleh diakses token
+   * @returns Promise<PersonalAccessToken> - Token yang disimpan
+   */
+  async create(
+    data: NewPersonalAccessToken,
+    scopes: { featureId: number; action: string }[]
+  ): Promise<PersonalAccessToken> {
+    return this.executeWithErrorHandling('create personal access token', async () => {
+      return await db!.transaction(async (tx) => {
+        const result = await tx.insert(personalAccessTokens).values(data).returning();
+        const token = this.getFirstResult(result)!;
+
+        if (scopes.length > 0) {
+          await tx.insert(personalAccessTokenScopes).values(
+            scopes.map(scope => ({ tokenId: token.id, featureId: scope.featureId, action: scope.action }))
+          );
+        }
+
+        return token;
+      });
+    });
+  }
+
+  /**
+   * Mencari token berdasarkan ID
+   * @param id - ID token
+   * @returns Promise<PersonalAccessToken | undefined> - Token jika ditemukan
+   */
+  async findById(id: number): Promise<PersonalAccessToken | undefined> {
+    return this.executeWithErrorHandling('find personal access token by ID', async () => {
+      const result = await db!.select().from(personalAccessTokens).where(eq(personalAccessTokens.id, id)).limit(1);
+      return this.getFirstResult(result);
+    });
+  }
+
+  /**
+   * Mencari token berdasarkan hash (termasuk token yang sudah expired atau dicabut)
+   * @param tokenHash - SHA-256 hex dari token
+   * @returns Promise<PersonalAccessToken | undefined> - Token jika ditemukan
+   */
+  async findByHash(tokenHash: string): Promise<PersonalAccessToken | undefined> {
+    return this.executeWithErrorHandling('find personal access token by hash', async () => {
+      const result = await db!.select().from(personalAccessTokens).where(eq(personalAccessTokens.tokenHash, tokenHash)).limit(1);
+      return this.getFirstResult(result);
+    });
+  }
+
+  /**
+   * Mengambil semua token milik user
+   * @param userId - ID pemilik token
+   * @returns Promise<PersonalAccessToken[]> - Array token, terbaru lebih dulu
+   */
+  async findByUserId(userId: number): Promise<PersonalAccessToken[]> {
+    return this.executeWithErrorHandling('find personal access tokens by user ID', async () => {
+      return await db!.select()
+        .from(personalAccessTokens)
+        .where(eq(personalAccessTokens.userId, userId))
+        .orderBy(desc(personalAccessTokens.createdAt));
+    });
+  }
+
+  /**
+   * Mengambil scope token beserta nama feature
+   * @param tokenId - ID token
+   * @returns Promise<PersonalAccessTokenScopeRow[]> - Array scope token
+   */
+  async findScopes(tokenId: number): Promise<PersonalAccessTokenScopeRow[]> {
+    return this.executeWithErrorHandling('find personal access token scopes', async () => {
+      return await db!.select({
+        featureId: personalAccessTokenScopes.featureId,
+        featureName: features.name,
+        action: personalAccessTokenScopes.action
+      })
+        .from(personalAccessTokenScopes)
+        .innerJoin(features, eq(personalAccessTokenScopes.featureId, features.id))
+        .where(eq(personalAccessTokenScopes.tokenId, tokenId));
+    });
+  }
+
+  /**
+   * Catat pemakaian terakhir token
+   * @param id - ID token
+   * @param ipAddress - IP address client (opsional)
+   * @param at - Waktu pemakaian (default: sekarang)
+   */
+  async touchLastUsed(id: number, ipAddress: string | null, at: Date = new Date()): Promise<void> {
+    return this.executeWithErrorHandling('touch personal access token last used', async () => {
+      await db!.update(personalAccessTokens)
+        .set({ lastUsedAt: at, lastUsedIp: ipAddress })
+        .where(eq(personalAccessTokens.id, id));
+    });
+  }
+
+  /**
+   * Cabut token yang masih aktif
+   * @param id - ID token
+   * @param at - Waktu pencabutan (default: sekarang)
+   * @returns Promise<boolean> - true jika token berhasil dicabut oleh pemanggil ini
+   */
+  async revoke(id: number, at: Date = new Date()): Promise<boolean> {
+    return this.executeWithErrorHandling('revoke personal access token', async () => {
+      const result = await db!.update(personalAccessTokens)
+        .set({ revokedAt: at })
+        .where(and(eq(personalAccessTokens.id, id), isNull(personalAccessTokens.revokedAt)));
+      return this.isOperationSuccessful(result.rowCount || 0);
+    });
+  }
+
+  /**
+   * Cabut semua token aktif milik user (misal: service account dinonaktifkan)
+   * @param userId - ID pemilik token
+   * @param at - Waktu pencabutan (default: sekarang)
+   * @returns Promise<number> - Jumlah token yang dicabut
+   */
+  async revokeAllForUser(userId: number, at: Date = new Date()): Promise<number> {
+    return this.executeWithErrorHandling('revoke personal access tokens for user', async () => {
+      const result = await db!.update(personalAccessTokens)
+        .set({ revokedAt: at })
+        .where(and(
+          eq(personalAccessTokens.userId, userId),
+          isNull(personalAccessTokens.revokedAt),
+          gt(personalAccessTokens.expiresAt, at)
+        ));
+      return result.rowCount || 0;
+    });
+  }
+}
+
+// Export instance untuk backward compatibility
+export const personalAccessTokenRepository = new PersonalAccessTokenRepository("PersonalAccessTokenRepository");
@@ -0,0 +1,103 @@
+import { eq, count, asc } from "drizzle-orm";
+import { db } from "@/db";
+import { attributeDefinitions, type AttributeDefinition, type NewAttributeDefinition } from "@/db/schema";
+import { BaseRepository, CrudRepository, NamedRepository, CountableRepository } from "../base/baseRepository";
+
+/**
+ * Repository untuk operasi CRUD registry custom attribute ABAC
+ * Mengikuti prinsip Single Responsibility - hanya menangani akses data attribute_definitions
+ */
+export class AttributeDefinitionRepository extends BaseRepository implements
+  CrudRepository<AttributeDefinition, NewAttributeDefinition>,
+  NamedRepository<AttributeDefinition>,
+  CountableRepository {
+  /**
+   * Mengambil semua attribute definition, diurutkan berdasarkan nama
+   * @returns Promise<AttributeDefinition[]> - Array semua attribute definition
+   */
+  async findAll(): Promise<AttributeDefinition[]> {
+    return this.executeWithErrorHandling('fetch all attribute definitions', async () => {
+      return await db!.select().from(attributeDefinitions).orderBy(asc(attributeDefinitions.name));
+    });
+  }
+
+  /**
+   * Mengambil attribute definition berdasarkan ID
+   * @param id - ID attribute definition
+   * @returns Promise<AttributeDefinition | undefined> - Attribute definition jika ditemukan
+   */
+  async findById(id: number): Promise<AttributeDefinition | undefined> {
+    return this.executeWithErrorHandling('fetch attribute definition by id', async () => {
+      const result = await db!.select().from(attributeDefinitions).where(eq(attributeDefinitions.id, id));
+      return this.getFirstResult(result);
+    });
+  }
+
+  /**
+   * Mengambil attribute definition berdasarkan nama
+   * @param name - Nama attribute (contoh: cost_center)
+   * @returns Promise<AttributeDefinition | undefined> - Attribute definition jika ditemukan
+   */
+  async findByName(name: string): Promise<AttributeDefinition | undefined> {
+    return this.executeWithErrorHandling('fetch attribute definition by name', async () => {
+      const result = await db!.select().from(attributeDefinitions)
+        .where(eq(attributeDefinitions.name, name))
+        .limit(1);
+      return this.getFirstResult(result);
+    });
+  }
+
+  /**
+   * Membuat attribute definition baru
+   * @param data - Data attribute definition
+   * @returns Promise<AttributeDefinition> - Attribute definition yang berhasil dibuat
+   */
+  async create(data: NewAttributeDefinition): Promise<AttributeDefinition> {
+    return this.executeWithErrorHandling('create attribute definition', async () => {
+      const result = await db!.insert(attributeDefinitions).values(data).returning();
+      return result[0];
+    });
+  }
+
+  /**
+   * Mengupdate attribute definition berdasarkan ID
+   * @param id - ID attribute definition
+   * @param data - Data yang akan diupdate
+   * @returns Promise<AttributeDefinition | undefined> - Attribute definition yang diupdate
+   */
+  async update(id: number, data: Partial<NewAttributeDefinition>): Promise<AttributeDefinition | undefined> {
+    return this.executeWithErrorHandling('update attribute definition', async () => {
+      const result = await db!.update(attributeDefinitions)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(attributeDefinitions.id, id))
+        .returning();
+      return result[0];
+    });
+  }
+
+  /**
+   * Menghapus attribute definition (nilai per user ikut terhapus)
+   * @param id - ID attribute definition
+   * @returns Promise<boolean> - true jika berhasil
+   */
+  async delete(id: number): Promise<boolean> {
+    return this.executeWithErrorHandling('delete attribute definition', async () => {
+      const result = await db!.delete(attributeDefinitions).where(eq(attributeDefinitions.id, id));
+      return this.isOperationSuccessful(result.rowCount || 0);
+    });
+  }
+
+  /**
+   * Menghitung total attribute definition
+   * @returns Promise<number> - Jumlah attribute definition
+   */
+  async count(): Promise<number> {
+    return this.executeWithErrorHandling('count attribute definitions', async () => {
+      const result = await db!.select({ count: count() }).from(attributeDefinitions);
+      return result[0]?.count || 0;
+    });
+  }
+}
+
+// Export instance untuk backward compatibility
+export const attributeDefinitionRepository = new AttributeDefinitionRepository('AttributeDefinitionRepository');
@@ -0,0 +1,17 @@
+/**
+ * Attribute Repository Module
+ * 
+ * Module ini mengexport repository untuk registry custom attribute ABAC
+ * dan nilai attribute per user.
+ * 
+ * @module AttributeRepository
+ */
+
+export { AttributeDefinitionRepository, attributeDefinitionRepository } from './attributeDefinitionRepository';
+export { UserAttributeValueRepository, userAttributeValueRepository } from './userAttributeValueRepository';
+export type {
+  AttributeDefinition,
+  NewAttributeDefinition,
+  UserAttributeValue,
+  NewUserAttributeValue
+} from '@/db/schema';
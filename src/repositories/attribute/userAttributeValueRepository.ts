@@ -0,0 +1,96 @@
+import { eq, and } from "drizzle-orm";
+import { db } from "@/db";
+import {
+  userAttributeValues,
+  attributeDefinitions,
+  type UserAttributeValue,
+  type AttributeDefinition
+} from "@/db/schema";
+import { BaseRepository } from "../base/baseRepository";
+
+/**
+ * Repository untuk nilai custom attribute per user
+ * Setiap user hanya memiliki satu nilai per attribute (unique user_id + attribute_id)
+ */
+export class UserAttributeValueRepository extends BaseRepository {
+  /**
+   * Mengambil semua nilai custom attribute milik user beserta definisinya
+   * @param userId - ID user
+   * @returns Promise<Array<{ value: UserAttributeValue; definition: AttributeDefinition }>> - Nilai dan definisi attribute
+   */
+  async findByUserId(userId: number): Promise<Array<{ value: UserAttributeValue; definition: AttributeDefinition }>> {
+    return this.executeWithErrorHandling('fetch user attribute values', async () => {
+      return await db!.select({
+        value: userAttributeValues,
+        definition: attributeDefinitions
+      })
+        .from(userAttributeValues)
+        .innerJoin(attributeDefinitions, eq(userAttributeValues.attributeId, attributeDefinitions.id))
+        .where(eq(userAttributeValues.userId, userId));
+    });
+  }
+
+  /**
+   * Mengambil semua nilai untuk satu attribute
+   * @param attributeId - ID attribute definition
+   * @returns Promise<UserAttributeValue[]> - Array nilai attribute
+   */
+  async findByAttributeId(attributeId: number): Promise<UserAttributeValue[]> {
+    return this.executeWithErrorHandling('fetch attribute values by attribute id', async () => {
+      return await db!.select().from(userAttributeValues)
+        .where(eq(userAttributeValues.attributeId, attributeId));
+    });
+  }
+
+  /**
+   * Simpan nilai attribute user (insert atau update jika sudah ada)
+   * @param userId - ID user
+   * @param attributeId - ID attribute definition
+   * @param value - Nilai yang sudah diserialisasi ke text
+   * @returns Promise<UserAttributeValue> - Nilai attribute yang tersimpan
+   */
+  async upsert(userId: number, attributeId: number, value: string): Promise<UserAttributeValue> {
+    return this.executeWithErrorHandling('upsert user attribute value', async () => {
+      const result = await db!.insert(userAttributeValues)
+        .values({ userId, attributeId, value })
+        .onConflictDoUpdate({
+          target: [userAttributeValues.userId, userAttributeValues.attributeId],
+          set: { value, updatedAt: new Date() }
+        })
+        .returning();
+      return result[0];
+    });
+  }
+
+  /**
+   * Hapus nilai attribute user
+   * @param userId - ID user
+   * @param attributeId - ID attribute definition
+   * @returns Promise<boolean> - true jika ada nilai yang dihapus
+   */
+  async delete(userId: number, attributeId: number): Promise<boolean> {
+    return this.executeWithErrorHandling('delete user attribute value', async () => {
+      const result = await db!.delete(userAttributeValues)
+        .where(and(
+          eq(userAttributeValues.userId, userId),
+          eq(userAttributeValues.attributeId, attributeId)
+        ));
+      return this.isOperationSuccessful(result.rowCount || 0);
+    });
+  }
+
+  /**
+   * Hapus semua nilai custom attribute milik user
+   * @param userId - ID user
+   * @returns Promise<boolean> - true jika ada nilai yang dihapus
+   */
+  async deleteByUserId(userId: number): Promise<boolean> {
+    return this.executeWithErrorHandling('delete user attribute values by user id', async () => {
+      const result = await db!.delete(userAttributeValues).where(eq(userAttributeValues.userId, userId));
+      return this.isOperationSuccessful(result.rowCount || 0);
+    });
+  }
+}
+
+// Export instance untuk backward compatibility
+export const userAttributeValueRepository = new UserAttributeValueRepository('UserAttributeValueRepository');
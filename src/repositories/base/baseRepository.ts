@@ -121,4 +121,8 @@ export interface NamedRepository<T> {
  */
 export interface CountableRepository {
   count(): Promise<number>;
-}
\ No newline at end of file
+}
+/**
+ * Tipe transaksi database yang diteruskan oleh db.transaction()
+ */
+export type DbTransaction = Parameters<Parameters<NonNullable<typeof db>["transaction"]>[0]>[0];
@@ -0,0 +1,91 @@
+import { eq, and, isNull, gt, lt } from "drizzle-orm";
+import { db } from "@/db";
+import { emailVerificationTokens, type EmailVerificationToken, type NewEmailVerificationToken } from "@/db/schema";
+import { BaseRepository } from "../base/baseRepository";
+
+/**
+ * Repository untuk token verifikasi email sekali pakai
+ * Token dicari berdasarkan hash; token plaintext tidak pernah disimpan
+ */
+export class EmailVerificationTokenRepository extends BaseRepository {
+  /**
+   * Simpan token verifikasi baru
+   * @param data - Data token (userId, tokenHash, expiresAt)
+   * @returns Promise<EmailVerificationToken> - Token yang disimpan
+   */
+  async create(data: NewEmailVerificationToken): Promise<EmailVerificationToken> {
+    return this.executeWithErrorHandling('create email verification token', async () => {
+      const result = await db!.insert(emailVerificationTokens).values(data).returning();
+      return this.getFirstResult(result)!;
+    });
+  }
+
+  /**
+   * Cari token yang belum dipakai dan belum expired berdasarkan hash
+   * @param tokenHash - SHA-256 hex dari token
+   * @param at - Waktu acuan (default: sekarang)
+   * @returns Promise<EmailVerificationToken | null> - Token atau null jika tidak valid
+   */
+  async findValidByHash(tokenHash: string, at: Date = new Date()): Promise<EmailVerificationToken | null> {
+    return this.executeWithErrorHandling('find valid email verification token', async () => {
+      const result = await db!.select()
+        .from(emailVerificationTokens)
+        .where(and(
+          eq(emailVerificationTokens.tokenHash, tokenHash),
+          isNull(emailVerificationTokens.usedAt),
+          gt(emailVerificationTokens.expiresAt, at)
+        ))
+        .limit(1);
+      return this.getFirstResult(result) ?? null;
+    });
+  }
+
+  /**
+   * Pakai token secara atomik; token yang sudah dipakai atau expired tidak dapat dipakai lagi
+   * @param id - ID token
+   * @param at - Waktu pemakaian (default: sekarang)
+   * @returns Promise<boolean> - true jika token berhasil dipakai oleh pemanggil ini
+   */
+  async consume(id: number, at: Date = new Date()): Promise<boolean> {
+    return this.executeWithErrorHandling('consume email verification token', async () => {
+      const result = await db!.update(emailVerificationTokens)
+        .set({ usedAt: at })
+        .where(and(
+          eq(emailVerificationTokens.id, id),
+          isNull(emailVerificationTokens.usedAt),
+          gt(emailVerificationTokens.expiresAt, at)
+        ));
+      return this.isOperationSuccessful(result.rowCount || 0);
+    });
+  }
+
+  /**
+   * Invalidasi semua token user yang belum dipakai (misal: saat token baru diminta atau email terverifikasi)
+   * @param userId - ID user
+   * @returns Promise<number> - Jumlah token yang diinvalidasi
+   */
+  async invalidateForUser(userId: number): Promise<number> {
+    return this.executeWithErrorHandling('invalidate email verification tokens', async () => {
+      const result = await db!.update(emailVerificationTokens)
+        .set({ usedAt: new Date() })
+        .where(and(eq(emailVerificationTokens.userId, userId), isNull(emailVerificationTokens.usedAt)));
+      return result.rowCount || 0;
+    });
+  }
+
+  /**
+   * Hapus token yang sudah expired
+   * @param at - Waktu acuan (default: sekarang)
+   * @returns Promise<number> - Jumlah token yang dihapus
+   */
+  async deleteExpired(at: Date = new Date()): Promise<number> {
+    return this.executeWithErrorHandling('delete expired email verification tokens', async () => {
+      const result = await db!.delete(emailVerificationTokens)
+        .where(lt(emailVerificationTokens.expiresAt, at));
+      return result.rowCount || 0;
+    });
+  }
+}
+
+// Export instance untuk backward compatibility
+export const emailVerificationTokenRepository = new EmailVerificationTokenRepository("EmailVerificationTokenRepository");
@@ -0,0 +1,13 @@
+/**
+ * Email Verification Repository Module
+ * 
+ * Module ini mengexport repository untuk token verifikasi email.
+ * 
+ * @module EmailVerificationRepository
+ */
+
+export { EmailVerificationTokenRepository, emailVerificationTokenRepository } from './emailVerificationTokenRepository';
+export type {
+  EmailVerificationToken,
+  NewEmailVerificationToken
+} from '@/db/schema';
@@ -0,0 +1,75 @@
+import { eq, and, asc } from "drizzle-orm";
+import { db } from "@/db";
+import { featureActions, type FeatureAction, type NewFeatureAction } from "@/db/schema";
+import { BaseRepository } from "../base/baseRepository";
+
+/**
+ * Repository untuk deklarasi action custom per feature
+ * Action CRUD tidak disimpan di sini karena berlaku untuk semua feature
+ */
+export class FeatureActionRepository extends BaseRepository {
+  /**
+   * Mengambil semua action custom milik feature
+   * @param featureId - ID feature
+   * @returns Promise<FeatureAction[]> - Array action custom urut berdasarkan nama
+   */
+  async findByFeatureId(featureId: number): Promise<FeatureAction[]> {
+    return this.executeWithErrorHandling('fetch feature actions by feature ID', async () => {
+      return await db!.select().from(featureActions)
+        .where(eq(featureActions.featureId, featureId))
+        .orderBy(asc(featureActions.name));
+    });
+  }
+
+  /**
+   * Mengambil semua action custom untuk semua feature
+   * @returns Promise<FeatureAction[]> - Array semua action custom
+   */
+  async findAll(): Promise<FeatureAction[]> {
+    return this.executeWithErrorHandling('fetch all feature actions', async () => {
+      return await db!.select().from(featureActions).orderBy(asc(featureActions.name));
+    });
+  }
+
+  /**
+   * Mencari action custom feature berdasarkan nama
+   * @param featureId - ID feature
+   * @param name - Nama action
+   * @returns Promise<FeatureAction | undefined> - Action jika ditemukan
+   */
+  async findByFeatureAndName(featureId: number, name: string): Promise<FeatureAction | undefined> {
+    return this.executeWithErrorHandling('find feature action by name', async () => {
+      const result = await db!.select().from(featureActions)
+        .where(and(eq(featureActions.featureId, featureId), eq(featureActions.name, name)))
+        .limit(1);
+      return this.getFirstResult(result);
+    });
+  }
+
+  /**
+   * Membuat action custom baru untuk feature
+   * @param actionData - Data action baru
+   * @returns Promise<FeatureAction> - Action yang dibuat
+   */
+  async create(actionData: NewFeatureAction): Promise<FeatureAction> {
+    return this.executeWithErrorHandling('create feature action', async () => {
+      const result = await db!.insert(featureActions).values(actionData).returning();
+      return result[0];
+    });
+  }
+
+  /**
+   * Hapus action custom (grant role untuk action ini ikut terhapus melalui cascade)
+   * @param id - ID feature action
+   * @returns Promise<boolean> - true jika berhasil dihapus
+   */
+  async delete(id: number): Promise<boolean> {
+    return this.executeWithErrorHandling('delete feature action', async () => {
+      const result = await db!.delete(featureActions).where(eq(featureActions.id, id));
+      return this.isOperationSuccessful(result.rowCount || 0);
+    });
+  }
+}
+
+// Export instance untuk backward compatibility
+export const featureActionRepository = new FeatureActionRepository('FeatureActionRepository');
@@ -0,0 +1,17 @@
+/**
+ * Feature Action Repository Module
+ * 
+ * Module ini mengexport repository untuk deklarasi action custom per feature
+ * dan grant action custom ke role.
+ * 
+ * @module FeatureActionRepository
+ */
+
+export { FeatureActionRepository, featureActionRepository } from './featureActionRepository';
+export { RoleFeatureActionRepository, roleFeatureActionRepository } from './roleFeatureActionRepository';
+export type {
+  FeatureAction,
+  NewFeatureAction,
+  RoleFeatureAction,
+  NewRoleFeatureAction
+} from '@/db/schema';
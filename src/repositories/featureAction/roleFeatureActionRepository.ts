@@ -0,0 +1,90 @@
+import { eq, and } from "drizzle-orm";
+import { db } from "@/db";
+import {
+  roleFeatureActions,
+  featureActions,
+  type RoleFeatureAction,
+  type FeatureAction
+} from "@/db/schema";
+import { BaseRepository } from "../base/baseRepository";
+
+/**
+ * Repository untuk grant action custom ke role
+ * Setiap role hanya memiliki satu effect per action (unique role_id + feature_action_id)
+ */
+export class RoleFeatureActionRepository extends BaseRepository {
+  /**
+   * Mengambil semua grant action custom milik role beserta deklarasi action-nya
+   * @param roleId - ID role
+   * @returns Promise<Array<{ grant: RoleFeatureAction; action: FeatureAction }>> - Grant dan action
+   */
+  async findByRoleId(roleId: number): Promise<Array<{ grant: RoleFeatureAction; action: FeatureAction }>> {
+    return this.executeWithErrorHandling('fetch role feature actions by role ID', async () => {
+      return await db!.select({
+        grant: roleFeatureActions,
+        action: featureActions
+      })
+        .from(roleFeatureActions)
+        .innerJoin(featureActions, eq(roleFeatureActions.featureActionId, featureActions.id))
+        .where(eq(roleFeatureActions.roleId, roleId));
+    });
+  }
+
+  /**
+   * Mencari grant role untuk action custom tertentu
+   * @param roleId - ID role
+   * @param featureActionId - ID feature action
+   * @returns Promise<RoleFeatureAction | undefined> - Grant jika ada
+   */
+  async findByRoleAndAction(roleId: number, featureActionId: number): Promise<RoleFeatureAction | undefined> {
+    return this.executeWithErrorHandling('find role feature action', async () => {
+      const result = await db!.select().from(roleFeatureActions)
+        .where(and(
+          eq(roleFeatureActions.roleId, roleId),
+          eq(roleFeatureActions.featureActionId, featureActionId)
+        ))
+        .limit(1);
+      return this.getFirstResult(result);
+    });
+  }
+
+  /**
+   * Simpan effect grant (insert atau update jika sudah ada)
+   * @param roleId - ID role
+   * @param featureActionId - ID feature action
+   * @param effect - 'allow' atau 'deny'
+   * @returns Promise<RoleFeatureAction> - Grant yang tersimpan
+   */
+  async upsert(roleId: number, featureActionId: number, effect: 'allow' | 'deny'): Promise<RoleFeatureAction> {
+    return this.executeWithErrorHandling('upsert role feature action', async () => {
+      const result = await db!.insert(roleFeatureActions)
+        .values({ roleId, featureActionId, effect })
+        .onConflictDoUpdate({
+          target: [roleFeatureActions.roleId, roleFeatureActions.featureActionId],
+          set: { effect }
+        })
+        .returning();
+      return result[0];
+    });
+  }
+
+  /**
+   * Hapus grant (action kembali menjadi unset untuk role)
+   * @param roleId - ID role
+   * @param featureActionId - ID feature action
+   * @returns Promise<boolean> - true jika ada grant yang dihapus
+   */
+  async delete(roleId: number, featureActionId: number): Promise<boolean> {
+    return this.executeWithErrorHandling('delete role feature action', async () => {
+      const result = await db!.delete(roleFeatureActions)
+        .where(and(
+          eq(roleFeatureActions.roleId, roleId),
+          eq(roleFeatureActions.featureActionId, featureActionId)
+        ));
+      return this.isOperationSuccessful(result.rowCount || 0);
+    });
+  }
+}
+
+// Export instance untuk backward compatibility
+export const roleFeatureActionRepository = new RoleFeatureActionRepository('RoleFeatureActionRepository');
@@ -12,6 +12,7 @@ export { UserRepository, userRepository } from './user/userRepository';
 
 // Session repository exports
 export { SessionRepository, sessionRepository } from './session/sessionRepository';
+export { RefreshTokenRotationRepository, refreshTokenRotationRepository } from './session/refreshTokenRotationRepository';
 
 // Role repository exports
 export { RoleRepository, roleRepository } from './role/roleRepository';
@@ -25,29 +26,120 @@ export { UserRoleRepository, userRoleRepository } from './userRole/userRoleRepos
 // Role Feature repository exports (junction table)
 export { RoleFeatureRepository, roleFeatureRepository } from './roleFeature/roleFeatureRepository';
 
+// Feature action repository exports (action custom di luar CRUD)
+export {
+  FeatureActionRepository,
+  featureActionRepository,
+  RoleFeatureActionRepository,
+  roleFeatureActionRepository
+} from './featureAction';
+
+// Role access request repository exports (approver per role dan request role oleh user)
+export {
+  RoleAccessRequestRepository,
+  roleAccessRequestRepository,
+  RoleApproverRepository,
+  roleApproverRepository
+} from './roleAccessRequest';
+
+// Access review repository exports (campaign recertification dan item keputusan reviewer)
+export {
+  AccessReviewCampaignRepository,
+  accessReviewCampaignRepository,
+  AccessReviewItemRepository,
+  accessReviewItemRepository
+} from './accessReview';
+
+// Separation-of-duties repository exports (set role yang saling eksklusif)
+export { SodConstraintRepository, sodConstraintRepository } from './sodConstraint';
+
 // Route Feature repository exports
 export { RouteFeatureRepository, routeFeatureRepository } from './routeFeature/routeFeatureRepository';
 
 // Policy repository exports
 export { PolicyRepository, policyRepository } from './policy/policyRepository';
 
+// Policy-as-code repository exports (snapshot konfigurasi dan apply import dalam satu transaksi)
+export {
+  PolicyDocumentRepository,
+  policyDocumentRepository,
+  type PolicyDocumentSnapshot,
+  type PolicyDocumentWrite
+} from './policyDocument';
+
+// Policy version repository exports (snapshot immutable policy dan permission role-feature)
+export {
+  PolicyVersionRepository,
+  policyVersionRepository,
+  RoleFeatureVersionRepository,
+  roleFeatureVersionRepository
+} from './policyVersion';
+
+// Custom attribute repository exports
+export {
+  AttributeDefinitionRepository,
+  attributeDefinitionRepository,
+  UserAttributeValueRepository,
+  userAttributeValueRepository
+} from './attribute';
+
 // Audit repository exports
 export { AccessLogRepository, accessLogRepository } from './accessLog';
 export { PolicyViolationRepository, policyViolationRepository } from './policyViolation';
 export { ChangeHistoryRepository, changeHistoryRepository } from './changeHistory';
 
+// Rate limit repository exports (counter sliding window persisten)
+export { RateLimitRepository, rateLimitRepository } from './rateLimit';
+
+// MFA repository exports (enrollment TOTP dan recovery code)
+export {
+  UserMfaRepository,
+  userMfaRepository,
+  MfaRecoveryCodeRepository,
+  mfaRecoveryCodeRepository
+} from './mfa';
+
+// Password reset repository exports (token forgot/reset password sekali pakai)
+export { PasswordResetTokenRepository, passwordResetTokenRepository } from './passwordReset';
+
+// Email verification repository exports (token verifikasi email self-registration)
+export { EmailVerificationTokenRepository, emailVerificationTokenRepository } from './emailVerification';
+
+// User invitation repository exports (undangan user dengan role dan ABAC attributes)
+export { UserInvitationRepository, userInvitationRepository } from './userInvitation';
+
+// Personal access token repository exports (token automation ber-scope, hanya hash yang disimpan)
+export { PersonalAccessTokenRepository, personalAccessTokenRepository } from './accessToken';
+
+// JWT signing key repository exports (key pair RS256/ES256 beserta rotasi dan overlap window)
+export { JwtSigningKeyRepository, jwtSigningKeyRepository } from './signingKey';
+
 // Import instances untuk repositories object
 import { userRepository } from './user/userRepository';
 import { sessionRepository } from './session/sessionRepository';
+import { refreshTokenRotationRepository } from './session/refreshTokenRotationRepository';
 import { roleRepository } from './role/roleRepository';
 import { featureRepository } from './feature/featureRepository';
 import { userRoleRepository } from './userRole/userRoleRepository';
 import { roleFeatureRepository } from './roleFeature/roleFeatureRepository';
+import { featureActionRepository, roleFeatureActionRepository } from './featureAction';
+import { roleAccessRequestRepository, roleApproverRepository } from './roleAccessRequest';
+import { accessReviewCampaignRepository, accessReviewItemRepository } from './accessReview';
+import { sodConstraintRepository } from './sodConstraint';
 import { routeFeatureRepository } from './routeFeature/routeFeatureRepository';
 import { policyRepository } from './policy/policyRepository';
+import { policyVersionRepository, roleFeatureVersionRepository } from './policyVersion';
+import { attributeDefinitionRepository, userAttributeValueRepository } from './attribute';
 import { accessLogRepository } from './accessLog';
 import { policyViolationRepository } from './policyViolation';
 import { changeHistoryRepository } from './changeHistory';
+import { rateLimitRepository } from './rateLimit';
+import { userMfaRepository, mfaRecoveryCodeRepository } from './mfa';
+import { passwordResetTokenRepository } from './passwordReset';
+import { emailVerificationTokenRepository } from './emailVerification';
+import { userInvitationRepository } from './userInvitation';
+import { personalAccessTokenRepository } from './accessToken';
+import { jwtSigningKeyRepository } from './signingKey';
 
 /**
  * Convenience object untuk mengakses semua repository instances
@@ -56,15 +148,35 @@ import { changeHistoryRepository } from './changeHistory';
 export const repositories = {
   user: userRepository,
   session: sessionRepository,
+  refreshTokenRotation: refreshTokenRotationRepository,
   role: roleRepository,
   feature: featureRepository,
   userRole: userRoleRepository,
   roleFeature: roleFeatureRepository,
+  featureAction: featureActionRepository,
+  roleFeatureAction: roleFeatureActionRepository,
+  roleAccessRequest: roleAccessRequestRepository,
+  roleApprover: roleApproverRepository,
+  accessReviewCampaign: accessReviewCampaignRepository,
+  accessReviewItem: accessReviewItemRepository,
+  sodConstraint: sodConstraintRepository,
   routeFeature: routeFeatureRepository,
   policy: policyRepository,
+  policyVersion: policyVersionRepository,
+  roleFeatureVersion: roleFeatureVersionRepository,
+  attributeDefinition: attributeDefinitionRepository,
+  userAttributeValue: userAttributeValueRepository,
   accessLog: accessLogRepository,
   policyViolation: policyViolationRepository,
   changeHistory: changeHistoryRepository,
+  rateLimit: rateLimitRepository,
+  userMfa: userMfaRepository,
+  mfaRecoveryCode: mfaRecoveryCodeRepository,
+  passwordResetToken: passwordResetTokenRepository,
+  emailVerificationToken: emailVerificationTokenRepository,
+  userInvitation: userInvitationRepository,
+  personalAccessToken: personalAccessTokenRepository,
+  jwtSigningKey: jwtSigningKeyRepository,
 } as const;
 
 /**
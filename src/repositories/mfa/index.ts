@@ -0,0 +1,17 @@
+/**
+ * MFA Repository Module
+ * 
+ * Module ini mengexport repository untuk enrollment TOTP
+ * dan recovery code multi-factor authentication.
+ * 
+ * @module MfaRepository
+ */
+
+export { UserMfaRepository, userMfaRepository } from './userMfaRepository';
+export { MfaRecoveryCodeRepository, mfaRecoveryCodeRepository } from './mfaRecoveryCodeRepository';
+export type {
+  UserMfa,
+  NewUserMfa,
+  MfaRecoveryCode,
+  NewMfaRecoveryCode
+} from '@/db/schema';
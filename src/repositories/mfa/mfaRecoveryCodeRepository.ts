@@ -0,0 +1,60 @@
+import { eq, and, isNull, count } from "drizzle-orm";
+import { db } from "@/db";
+import { mfaRecoveryCodes } from "@/db/schema";
+import { BaseRepository } from "../base/baseRepository";
+
+/**
+ * Repository untuk recovery code MFA sekali pakai
+ * Recovery code dibuat bersama aktivasi enrollment oleh UserMfaRepository.enable
+ */
+export class MfaRecoveryCodeRepository extends BaseRepository {
+  /**
+   * Hitung recovery code user yang belum dipakai
+   * @param userId - ID user
+   * @returns Promise<number> - Jumlah recovery code tersisa
+   */
+  async countUnused(userId: number): Promise<number> {
+    return this.executeWithErrorHandling('count unused mfa recovery codes', async () => {
+      const result = await db!.select({ total: count() })
+        .from(mfaRecoveryCodes)
+        .where(and(eq(mfaRecoveryCodes.userId, userId), isNull(mfaRecoveryCodes.usedAt)));
+      return Number(this.getFirstResult(result)?.total ?? 0);
+    });
+  }
+
+  /**
+   * Pakai recovery code secara atomik; code yang sudah dipakai tidak dapat dipakai lagi
+   * @param userId - ID user
+   * @param codeHash - SHA-256 hex dari recovery code
+   * @returns Promise<boolean> - true jika recovery code valid dan belum pernah dipakai
+   */
+  async consume(userId: number, codeHash: string): Promise<boolean> {
+    return this.executeWithErrorHandling('consume mfa recovery code', async () => {
+      const result = await db!.update(mfaRecoveryCodes)
+        .set({ usedAt: new Date() })
+        .where(and(
+          eq(mfaRecoveryCodes.userId, userId),
+          eq(mfaRecoveryCodes.codeHash, codeHash),
+          isNull(mfaRecoveryCodes.usedAt)
+        ));
+      return this.isOperationSuccessful(result.rowCount || 0);
+    });
+  }
+
+  /**
+   * Ganti seluruh recovery code user dengan yang baru
+   * @param userId - ID user
+   * @param codeHashes - Hash recovery code baru
+   */
+  async replaceForUser(userId: number, codeHashes: string[]): Promise<void> {
+    return this.executeWithErrorHandling('replace mfa recovery codes', async () => {
+      await db!.transaction(async (tx) => {
+        await tx.delete(mfaRecoveryCodes).where(eq(mfaRecoveryCodes.userId, userId));
+        await tx.insert(mfaRecoveryCodes).values(codeHashes.map(codeHash => ({ userId, codeHash })));
+      });
+    });
+  }
+}
+
+// Export instance untuk backward compatibility
+export const mfaRecoveryCodeRepository = new MfaRecoveryCodeRepository("MfaRecoveryCodeRepository");
@@ -0,0 +1,106 @@
+import { eq, and, or, isNull, lt } from "drizzle-orm";
+import { db } from "@/db";
+import { userMfa, mfaRecoveryCodes, type UserMfa } from "@/db/schema";
+import { BaseRepository } from "../base/baseRepository";
+
+/**
+ * Repository untuk enrollment TOTP per user
+ * Secret yang diterima dan dikembalikan sudah dalam bentuk terenkripsi
+ */
+export class UserMfaRepository extends BaseRepository {
+  /**
+   * Mencari enrollment MFA milik user
+   * @param userId - ID user
+   * @returns Promise<UserMfa | undefined> - Enrollment (aktif maupun pending) jika ada
+   */
+  async findByUserId(userId: number): Promise<UserMfa | undefined> {
+    return this.executeWithErrorHandling('find user mfa by user ID', async () => {
+      const result = await db!.select().from(userMfa).where(eq(userMfa.userId, userId)).limit(1);
+      return this.getFirstResult(result);
+    });
+  }
+
+  /**
+   * Simpan secret enrollment baru yang belum dikonfirmasi (menimpa enrollment pending sebelumnya)
+   * @param userId - ID user
+   * @param secretEncrypted - Secret TOTP terenkripsi
+   * @returns Promise<UserMfa> - Enrollment pending
+   */
+  async savePendingSecret(userId: number, secretEncrypted: string): Promise<UserMfa> {
+    return this.executeWithErrorHandling('save pending mfa secret', async () => {
+      const result = await db!.insert(userMfa)
+        .values({ userId, secretEncrypted })
+        .onConflictDoUpdate({
+          target: userMfa.userId,
+          set: { secretEncrypted, enabledAt: null, lastUsedStep: null, createdAt: new Date() }
+        })
+        .returning();
+      return result[0];
+    });
+  }
+
+  /**
+   * Aktifkan enrollment dan ganti seluruh recovery code user dalam satu transaksi
+   * @param userId - ID user
+   * @param usedStep - Time step kode TOTP yang dipakai untuk konfirmasi
+   * @param recoveryCodeHashes - Hash recovery code baru
+   * @returns Promise<UserMfa | undefined> - Enrollment yang sudah aktif, undefined jika tidak ada enrollment pending
+   */
+  async enable(userId: number, usedStep: number, recoveryCodeHashes: string[]): Promise<UserMfa | undefined> {
+    return this.executeWithErrorHandling('enable user mfa', async () => {
+      return await db!.transaction(async (tx) => {
+        const result = await tx.update(userMfa)
+          .set({ enabledAt: new Date(), lastUsedStep: usedStep })
+          .where(and(eq(userMfa.userId, userId), isNull(userMfa.enabledAt)))
+          .returning();
+        const enabled = this.getFirstResult(result);
+        if (!enabled) {
+          return undefined;
+        }
+
+        await tx.delete(mfaRecoveryCodes).where(eq(mfaRecoveryCodes.userId, userId));
+        await tx.insert(mfaRecoveryCodes).values(
+          recoveryCodeHashes.map(codeHash => ({ userId, codeHash }))
+        );
+        return enabled;
+      });
+    });
+  }
+
+  /**
+   * Catat time step TOTP yang dipakai secara atomik
+   * Gagal jika step yang sama atau lebih baru sudah pernah dipakai (replay)
+   * @param userId - ID user
+   * @param step - Time step kode TOTP yang diterima
+   * @returns Promise<boolean> - true jika step berhasil dicatat
+   */
+  async markStepUsed(userId: number, step: number): Promise<boolean> {
+    return this.executeWithErrorHandling('mark mfa step used', async () => {
+      const result = await db!.update(userMfa)
+        .set({ lastUsedStep: step })
+        .where(and(
+          eq(userMfa.userId, userId),
+          or(isNull(userMfa.lastUsedStep), lt(userMfa.lastUsedStep, step))
+        ));
+      return this.isOperationSuccessful(result.rowCount || 0);
+    });
+  }
+
+  /**
+   * Hapus enrollment MFA beserta recovery code user
+   * @param userId - ID user
+   * @returns Promise<boolean> - true jika user memiliki enrollment yang dihapus
+   */
+  async deleteByUserId(userId: number): Promise<boolean> {
+    return this.executeWithErrorHandling('delete user mfa', async () => {
+      return await db!.transaction(async (tx) => {
+        await tx.delete(mfaRecoveryCodes).where(eq(mfaRecoveryCodes.userId, userId));
+        const result = await tx.delete(userMfa).where(eq(userMfa.userId, userId));
+        return this.isOperationSuccessful(result.rowCount || 0);
+      });
+    });
+  }
+}
+
+// Export instance untuk backward compatibility
+export const userMfaRepository = new UserMfaRepository("UserMfaRepository");
@@ -0,0 +1,13 @@
+/**
+ * Password Reset Repository Module
+ * 
+ * Module ini mengexport repository untuk token forgot/reset password.
+ * 
+ * @module PasswordResetRepository
+ */
+
+export { PasswordResetTokenRepository, passwordResetTokenRepository } from './passwordResetTokenRepository';
+export type {
+  PasswordResetToken,
+  NewPasswordResetToken
+} from '@/db/schema';
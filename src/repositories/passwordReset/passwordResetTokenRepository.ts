@@ -0,0 +1,91 @@
+import { eq, and, isNull, gt, lt } from "drizzle-orm";
+import { db } from "@/db";
+import { passwordResetTokens, type PasswordResetToken, type NewPasswordResetToken } from "@/db/schema";
+import { BaseRepository } from "../base/baseRepository";
+
+/**
+ * Repository untuk token reset password sekali pakai
+ * Token dicari berdasarkan hash; token plaintext tidak pernah disimpan
+ */
+export class PasswordResetTokenRepository extends BaseRepository {
+  /**
+   * Simpan token reset baru
+   * @param data - Data token (userId, tokenHash, expiresAt, requestedIp)
+   * @returns Promise<PasswordResetToken> - Token yang disimpan
+   */
+  async create(data: NewPasswordResetToken): Promise<PasswordResetToken> {
+    return this.executeWithErrorHandling('create password reset token', async () => {
+      const result = await db!.insert(passwordResetTokens).values(data).returning();
+      return this.getFirstResult(result)!;
+    });
+  }
+
+  /**
+   * Cari token yang belum dipakai dan belum expired berdasarkan hash
+   * @param tokenHash - SHA-256 hex dari token
+   * @param at - Waktu acuan (default: sekarang)
+   * @returns Promise<PasswordResetToken | null> - Token atau null jika tidak valid
+   */
+  async findValidByHash(tokenHash: string, at: Date = new Date()): Promise<PasswordResetToken | null> {
+    return this.executeWithErrorHandling('find valid password reset token', async () => {
+      const result = await db!.select()
+        .from(passwordResetTokens)
+        .where(and(
+          eq(passwordResetTokens.tokenHash, tokenHash),
+          isNull(passwordResetTokens.usedAt),
+          gt(passwordResetTokens.expiresAt, at)
+        ))
+        .limit(1);
+      return this.getFirstResult(result) ?? null;
+    });
+  }
+
+  /**
+   * Pakai token secara atomik; token yang sudah dipakai atau expired tidak dapat dipakai lagi
+   * @param id - ID token
+   * @param at - Waktu pemakaian (default: sekarang)
+   * @returns Promise<boolean> - true jika token berhasil dipakai oleh pemanggil ini
+   */
+  async consume(id: number, at: Date = new Date()): Promise<boolean> {
+    return this.executeWithErrorHandling('consume password reset token', async () => {
+      const result = await db!.update(passwordResetTokens)
+        .set({ usedAt: at })
+        .where(and(
+          eq(passwordResetTokens.id, id),
+          isNull(passwordResetTokens.usedAt),
+          gt(passwordResetTokens.expiresAt, at)
+        ));
+      return this.isOperationSuccessful(result.rowCount || 0);
+    });
+  }
+
+  /**
+   * Invalidasi semua token user yang belum dipakai (misal: saat token baru diminta atau password direset)
+   * @param userId - ID user
+   * @returns Promise<number> - Jumlah token yang diinvalidasi
+   */
+  async invalidateForUser(userId: number): Promise<number> {
+    return this.executeWithErrorHandling('invalidate password reset tokens', async () => {
+      const result = await db!.update(passwordResetTokens)
+        .set({ usedAt: new Date() })
+        .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)));
+      return result.rowCount || 0;
+    });
+  }
+
+  /**
+   * Hapus token yang sudah expired
+   * @param at - Waktu acuan (default: sekarang)
+   * @returns Promise<number> - Jumlah token yang dihapus
+   */
+  async deleteExpired(at: Date = new Date()): Promise<number> {
+    return this.executeWithErrorHandling('delete expired password reset tokens', async () => {
+      const result = await db!.delete(passwordResetTokens)
+        .where(lt(passwordResetTokens.expiresAt, at));
+      return result.rowCount || 0;
+    });
+  }
+}
+
+// Export instance untuk backward compatibility
+export const passwordResetTokenRepository = new PasswordResetTokenRepository("PasswordResetTokenRepository");
@@ -1,7 +1,7 @@
-import { eq, count } from "drizzle-orm";
+import { eq, count, and, isNull } from "drizzle-orm";
 import { db } from "@/db";
-import { policies, type Policy, type NewPolicy } from "@/db/schema";
-import { BaseRepository, CrudRepository, CountableRepository } from "../base/baseRepository";
+import { policies, type Policy, type NewPolicy, type PolicyExpressionInput, type PolicyEnforcementMode } from "@/db/schema";
+import { BaseRepository, CrudRepository, CountableRepository, type DbTransaction } from "../base/baseRepository";
 
 /**
  * Repository untuk operasi CRUD policy
@@ -42,6 +42,41 @@ export class PolicyRepository extends BaseRepository implements CrudRepository<P
     });
   }
 
+  /**
+   * Mengambil root policies (tanpa parent) berdasarkan feature ID
+   * @param featureId - ID feature yang dicari
+   * @returns Promise<Policy[]> - Array root policy untuk feature tersebut
+   */
+  async findRootsByFeatureId(featureId: number): Promise<Policy[]> {
+    return this.executeWithErrorHandling('fetch root policies by feature id', async () => {
+      return await db!.select().from(policies)
+        .where(and(eq(policies.featureId, featureId), isNull(policies.parentId)));
+    });
+  }
+
+  /**
+   * Mengambil root policies berdasarkan enforcement mode
+   * @param enforcementMode - Mode enforcement (enforce, audit, disabled)
+   * @returns Promise<Policy[]> - Array root policy dengan mode tersebut
+   */
+  async findRootsByEnforcementMode(enforcementMode: PolicyEnforcementMode): Promise<Policy[]> {
+    return this.executeWithErrorHandling('fetch root policies by enforcement mode', async () => {
+      return await db!.select().from(policies)
+        .where(and(eq(policies.enforcementMode, enforcementMode), isNull(policies.parentId)));
+    });
+  }
+
+  /**
+   * Mengambil child policies dari sebuah group
+   * @param parentId - ID group policy
+   * @returns Promise<Policy[]> - Array child policy
+   */
+  async findByParentId(parentId: number): Promise<Policy[]> {
+    return this.executeWithErrorHandling('fetch policies by parent id', async () => {
+      return await db!.select().from(policies).where(eq(policies.parentId, parentId));
+    });
+  }
+
   /**
    * Mengambil policies berdasarkan attribute
    * @param attribute - Attribute yang dicari (department, region, level)
@@ -65,6 +100,102 @@ export class PolicyRepository extends BaseRepository implements CrudRepository<P
     });
   }
 
+  /**
+   * Membuat policy beserta seluruh expression tree-nya dalam satu transaksi
+   * @param featureId - ID feature pemilik policy
+   * @param expression - Expression tree (condition atau group AND/OR/NOT)
+   * @param enforcementMode - Mode enforcement root policy (default enforce)
+   * @returns Promise<Policy> - Root policy yang berhasil dibuat
+   */
+  async createExpressionTree(
+    featureId: number,
+    expression: PolicyExpressionInput,
+    enforcementMode?: PolicyEnforcementMode
+  ): Promise<Policy> {
+    return this.executeWithErrorHandling('create policy expression tree', async () => {
+      return await db!.transaction(async (tx) => {
+        return await this.insertExpressionNode(tx, featureId, expression, null, enforcementMode);
+      });
+    });
+  }
+
+  /**
+   * Mengganti expression tree sebuah policy dalam satu transaksi
+   * Child lama dihapus (cascade) lalu root diupdate dan child baru disimpan
+   * @param id - ID root policy yang akan diganti
+   * @param expression - Expression tree baru
+   * @param enforcementMode - Mode enforcement baru (opsional, contoh: rollback ke versi lama)
+   * @returns Promise<Policy | undefined> - Root policy yang berhasil diupdate atau undefined jika tidak ditemukan
+   */
+  async replaceExpressionTree(
+    id: number,
+    expression: PolicyExpressionInput,
+    enforcementMode?: PolicyEnforcementMode
+  ): Promise<Policy | undefined> {
+    return this.executeWithErrorHandling('replace policy expression tree', async () => {
+      return await db!.transaction(async (tx) => {
+        await tx.delete(policies).where(eq(policies.parentId, id));
+
+        const [root] = await tx.update(policies)
+          .set({ ...this.toNodeValues(expression), ...(enforcementMode && { enforcementMode }) })
+          .where(eq(policies.id, id))
+          .returning();
+
+        if (!root || expression.type === "condition") {
+          return root;
+        }
+
+        for (const child of expression.children) {
+          await this.insertExpressionNode(tx, root.featureId!, child, root.id);
+        }
+
+        return root;
+      });
+    });
+  }
+
+  /**
+   * Simpan satu node expression beserta child-nya secara rekursif
+   * Dipakai juga oleh import policy-as-code di dalam transaksinya sendiri
+   * @param tx - Transaksi database aktif
+   * @param featureId - ID feature pemilik policy
+   * @param node - Node expression yang disimpan
+   * @param parentId - ID group parent, null untuk root
+   * @param enforcementMode - Mode enforcement, hanya diisi untuk root (child memakai default)
+   * @returns Promise<Policy> - Row policy untuk node tersebut
+   */
+  async insertExpressionNode(
+    tx: DbTransaction,
+    featureId: number,
+    node: PolicyExpressionInput,
+    parentId: number | null,
+    enforcementMode?: PolicyEnforcementMode
+  ): Promise<Policy> {
+    const [row] = await tx.insert(policies)
+      .values({ featureId, parentId, enforcementMode, ...this.toNodeValues(node) })
+      .returning();
+
+    if (node.type === "group") {
+      for (const child of node.children) {
+        await this.insertExpressionNode(tx, featureId, child, row.id);
+      }
+    }
+
+    return row;
+  }
+
+  /**
+   * Konversi node expression menjadi kolom row policy
+   * @param node - Node expression
+   * @returns Kolom combinator/attribute/operator/value
+   */
+  private toNodeValues(node: PolicyExpressionInput): Pick<NewPolicy, "combinator" | "attribute" | "operator" | "value"> {
+    if (node.type === "group") {
+      return { combinator: node.combinator, attribute: null, operator: null, value: null };
+    }
+    return { combinator: null, attribute: node.attribute, operator: node.operator, value: node.value };
+  }
+
   /**
    * Mengupdate policy berdasarkan ID
    * @param id - ID policy yang akan diupdate
@@ -105,7 +236,7 @@ export class PolicyRepository extends BaseRepository implements CrudRepository<P
   }
 
   /**
-   * Menghitung jumlah policy berdasarkan feature ID
+   * Menghitung jumlah root policy berdasarkan feature ID
    * @param featureId - ID feature yang dicari
    * @returns Promise<number> - Jumlah policy untuk feature tersebut
    */
@@ -113,7 +244,7 @@ export class PolicyRepository extends BaseRepository implements CrudRepository<P
     return this.executeWithErrorHandling('count policies by feature id', async () => {
       const result = await db!.select({ count: count() })
         .from(policies)
-        .where(eq(policies.featureId, featureId));
+        .where(and(eq(policies.featureId, featureId), isNull(policies.parentId)));
       return result[0]?.count || 0;
     });
   }
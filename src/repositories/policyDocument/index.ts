@@ -0,0 +1,15 @@
+/**
+ * Policy Document Repository Module
+ *
+ * Module ini mengexport repository untuk export/import konfigurasi
+ * RBAC/ABAC sebagai dokumen policy-as-code.
+ *
+ * @module PolicyDocumentRepository
+ */
+
+export {
+  PolicyDocumentRepository,
+  policyDocumentRepository,
+  type PolicyDocumentSnapshot,
+  type PolicyDocumentWrite
+} from './policyDocumentRepository';
@@ -0,0 +1,380 @@
+import { eq, and, count, inArray } from "drizzle-orm";
+import { db } from "@/db";
+import {
+  roles,
+  features,
+  featureActions,
+  roleFeatures,
+  roleFeatureActions,
+  routeFeatures,
+  policies,
+  userRoles,
+  changeHistory,
+  type Role,
+  type NewRole,
+  type Feature,
+  type FeatureAction,
+  type RoleFeature,
+  type RoleFeatureAction,
+  type RouteFeature,
+  type Policy,
+  type PolicyExpressionInput,
+  type PolicyEnforcementMode
+} from "@/db/schema";
+import { BaseRepository, type DbTransaction } from "../base/baseRepository";
+import { policyRepository } from "../policy/policyRepository";
+import { policyVersionRepository, roleFeatureVersionRepository } from "../policyVersion";
+
+/**
+ * Seluruh konfigurasi RBAC/ABAC yang dicakup dokumen policy-as-code
+ */
+export interface PolicyDocumentSnapshot {
+  roles: Role[];
+  features: Feature[];
+  featureActions: FeatureAction[];
+  roleFeatures: RoleFeature[];
+  roleFeatureActions: RoleFeatureAction[];
+  routeFeatures: RouteFeature[];
+  policies: Policy[];
+  roleUserCounts: Map<number, number>;
+}
+
+type FeatureValues = {
+  name: string;
+  description: string | null;
+  category: string | null;
+  actions: Array<{ name: string; description: string | null }>;
+};
+
+type RoleValues = Pick<NewRole, "name" | "grantsAll" | "mfaRequired" | "maxConcurrentSessions" | "sessionLimitAction"> & {
+  parentRole: string | null;
+};
+
+type RoleFeatureValues = { role: string; feature: string; allow: string[]; deny: string[] };
+
+type RouteFeatureValues = { path: string; method: string | null; feature: string };
+
+type PolicyValues = { feature: string; expression: PolicyExpressionInput; enforcementMode: PolicyEnforcementMode };
+
+interface EntityChange<E extends string, T> {
+  entity: E;
+  operation: "create" | "update" | "delete";
+  id: number | null;
+  before: T | null;
+  after: T | null;
+}
+
+/**
+ * Perubahan yang diterapkan import policy-as-code
+ * Role dan feature dirujuk dengan nama karena dapat dibuat di transaksi yang sama
+ */
+export type PolicyDocumentWrite =
+  | EntityChange<"feature", FeatureValues>
+  | EntityChange<"role", RoleValues>
+  | EntityChange<"role_feature", RoleFeatureValues>
+  | EntityChange<"route_feature", RouteFeatureValues>
+  | EntityChange<"policy", PolicyValues>;
+
+// Komentar versi policy dan permission role-feature yang berubah lewat import
+const IMPORT_VERSION_COMMENT = "Import policy-as-code";
+
+// Kolom allow/deny role_features untuk action CRUD; action lain disimpan di role_feature_actions
+const CRUD_FLAG_COLUMNS = {
+  create: ["canCreate", "denyCreate"],
+  read: ["canRead", "denyRead"],
+  update: ["canUpdate", "denyUpdate"],
+  delete: ["canDelete", "denyDelete"],
+} as const;
+
+/**
+ * Repository untuk export/import dokumen policy-as-code
+ * Membaca seluruh konfigurasi sekaligus dan menerapkan hasil diff dalam satu transaksi,
+ * termasuk pencatatan change_history dan versi policy/role-feature, sehingga import gagal
+ * tidak meninggalkan perubahan parsial
+ */
+export class PolicyDocumentRepository extends BaseRepository {
+  /**
+   * Ambil seluruh konfigurasi RBAC/ABAC
+   * @returns Promise<PolicyDocumentSnapshot> - Row roles, features, permission, route, policy, dan jumlah user per role
+   */
+  async loadSnapshot(): Promise<PolicyDocumentSnapshot> {
+    return this.executeWithErrorHandling('load policy document snapshot', async () => {
+      const [
+        roleRows,
+        featureRows,
+        featureActionRows,
+        roleFeatureRows,
+        roleFeatureActionRows,
+        routeFeatureRows,
+        policyRows,
+        userCounts
+      ] = await Promise.all([
+        db!.select().from(roles),
+        db!.select().from(features),
+        db!.select().from(featureActions),
+        db!.select().from(roleFeatures),
+        db!.select().from(roleFeatureActions),
+        db!.select().from(routeFeatures),
+        db!.select().from(policies),
+        db!.select({ roleId: userRoles.roleId, total: count() }).from(userRoles).groupBy(userRoles.roleId)
+      ]);
+
+      return {
+        roles: roleRows,
+        features: featureRows,
+        featureActions: featureActionRows,
+        roleFeatures: roleFeatureRows,
+        roleFeatureActions: roleFeatureActionRows,
+        routeFeatures: routeFeatureRows,
+        policies: policyRows,
+        roleUserCounts: new Map(userCounts.map(row => [row.roleId, row.total]))
+      };
+    });
+  }
+
+  /**
+   * Terapkan perubahan secara berurutan dalam satu transaksi dan catat masing-masing ke change_history
+   * Perubahan policy dan role-feature juga disimpan sebagai versi baru dengan admin sebagai author
+   * @param changes - Perubahan terurut (parent sebelum child, delete dependen sebelum parent)
+   * @param adminUserId - ID admin yang menjalankan import
+   * @param actionFor - Nama action change_history untuk setiap perubahan
+   */
+  async applyChanges(
+    changes: PolicyDocumentWrite[],
+    adminUserId: number,
+    actionFor: (change: PolicyDocumentWrite) => string
+  ): Promise<void> {
+    return this.executeWithErrorHandling('apply policy document changes', async () => {
+      await db!.transaction(async (tx) => {
+        const roleIds = new Map(
+          (await tx.select({ id: roles.id, name: roles.name }).from(roles)).map(role => [role.name, role.id])
+        );
+        const featureIds = new Map(
+          (await tx.select({ id: features.id, name: features.name }).from(features)).map(feature => [feature.name, feature.id])
+        );
+
+        for (const change of changes) {
+          await this.applyChange(tx, change, roleIds, featureIds, adminUserId);
+        }
+
+        if (changes.length > 0) {
+          await tx.insert(changeHistory).values(changes.map(change => ({
+            adminUserId,
+            action: actionFor(change),
+            before: change.before ? JSON.stringify(change.before) : null,
+            after: change.after ? JSON.stringify(change.after) : null
+          })));
+        }
+      });
+    });
+  }
+
+  /**
+   * Terapkan satu perubahan
+   * @param tx - Transaksi database aktif
+   * @param change - Perubahan yang diterapkan
+   * @param roleIds - Map nama role -> ID (diperbarui saat role dibuat)
+   * @param featureIds - Map nama feature -> ID (diperbarui saat feature dibuat)
+   * @param adminUserId - ID admin yang menjalankan import (author versi)
+   */
+  private async applyChange(
+    tx: DbTransaction,
+    change: PolicyDocumentWrite,
+    roleIds: Map<string, number>,
+    featureIds: Map<string, number>,
+    adminUserId: number
+  ): Promise<void> {
+    const resolve = (ids: Map<string, number>, name: string): number => {
+      const id = ids.get(name);
+      if (id === undefined) {
+        throw new Error(`Referensi '${name}' tidak ditemukan`);
+      }
+      return id;
+    };
+
+    switch (change.entity) {
+      case "feature": {
+        if (change.operation === "delete") {
+          await tx.delete(features).where(eq(features.id, change.id!));
+          return;
+        }
+
+        const { actions, ...values } = change.after!;
+        const featureId = change.operation === "create"
+          ? (await tx.insert(features).values(values).returning({ id: features.id }))[0].id
+          : change.id!;
+        if (change.operation === "update") {
+          await tx.update(features).set(values).where(eq(features.id, featureId));
+        }
+        featureIds.set(values.name, featureId);
+        await this.syncFeatureActions(tx, featureId, actions);
+        return;
+      }
+
+      case "role": {
+        if (change.operation === "delete") {
+          await tx.delete(roles).where(eq(roles.id, change.id!));
+          return;
+        }
+
+        const { parentRole, ...values } = change.after!;
+        const roleValues = { ...values, parentRoleId: parentRole ? resolve(roleIds, parentRole) : null };
+        if (change.operation === "create") {
+          const [role] = await tx.insert(roles).values(roleValues).returning({ id: roles.id });
+          roleIds.set(values.name, role.id);
+        } else {
+          await tx.update(roles).set(roleValues).where(eq(roles.id, change.id!));
+        }
+        return;
+      }
+
+      case "role_feature": {
+        const entry = (change.after ?? change.before)!;
+        const roleId = resolve(roleIds, entry.role);
+        const featureId = resolve(featureIds, entry.feature);
+
+        const customActionIds = (await tx.select({ id: featureActions.id }).from(featureActions)
+          .where(eq(featureActions.featureId, featureId))).map(action => action.id);
+        if (customActionIds.length > 0) {
+          await tx.delete(roleFeatureActions).where(and(
+            eq(roleFeatureActions.roleId, roleId),
+            inArray(roleFeatureActions.featureActionId, customActionIds)
+          ));
+        }
+
+        const byRoleAndFeature = and(eq(roleFeatures.roleId, roleId), eq(roleFeatures.featureId, featureId));
+        await roleFeatureVersionRepository.record({
+          roleId,
+          featureId,
+          permissions: change.after ? JSON.stringify({ allow: change.after.allow, deny: change.after.deny }) : null,
+          action: change.operation,
+          comment: IMPORT_VERSION_COMMENT,
+          authorId: adminUserId
+        }, tx);
+
+        if (change.operation === "delete") {
+          await tx.delete(roleFeatures).where(byRoleAndFeature);
+          return;
+        }
+
+        const { allow, deny } = change.after!;
+        const flags = Object.fromEntries(
+          Object.entries(CRUD_FLAG_COLUMNS).flatMap(([action, [allowColumn, denyColumn]]) => [
+            [allowColumn, allow.includes(action)],
+            [denyColumn, deny.includes(action)]
+          ])
+        );
+        const updated = await tx.update(roleFeatures).set(flags).where(byRoleAndFeature).returning({ id: roleFeatures.id });
+        if (updated.length === 0) {
+          await tx.insert(roleFeatures).values({ roleId, featureId, ...flags });
+        }
+
+        const grants = [
+          ...allow.map(action => ({ action, effect: "allow" })),
+          ...deny.map(action => ({ action, effect: "deny" }))
+        ].filter(grant => !(grant.action in CRUD_FLAG_COLUMNS));
+        if (grants.length > 0) {
+          const actionIds = new Map(
+            (await tx.select({ id: featureActions.id, name: featureActions.name }).from(featureActions)
+              .where(eq(featureActions.featureId, featureId))).map(action => [action.name, action.id])
+          );
+          await tx.insert(roleFeatureActions).values(grants.map(grant => ({
+            roleId,
+            featureActionId: resolve(actionIds, grant.action),
+            effect: grant.effect
+          })));
+        }
+        return;
+      }
+
+      case "route_feature": {
+        if (change.operation === "delete") {
+          await tx.delete(routeFeatures).where(eq(routeFeatures.id, change.id!));
+          return;
+        }
+
+        const { path, method, feature } = change.after!;
+        const values = { path, method, featureId: resolve(featureIds, feature) };
+        if (change.operation === "create") {
+          await tx.insert(routeFeatures).values(values);
+        } else {
+          await tx.update(routeFeatures).set(values).where(eq(routeFeatures.id, change.id!));
+        }
+        return;
+      }
+
+      case "policy": {
+        // Identitas policy adalah expression-nya: perubahan expression berupa delete + create,
+        // update hanya mengubah enforcement mode
+        if (change.operation === "delete") {
+          await tx.delete(policies).where(eq(policies.id, change.id!));
+          await policyVersionRepository.record({
+            policyId: change.id!,
+            featureId: resolve(featureIds, change.before!.feature),
+            expression: null,
+            enforcementMode: null,
+            action: "delete",
+            comment: IMPORT_VERSION_COMMENT,
+            authorId: adminUserId
+          }, tx);
+          return;
+        }
+
+        const { feature, expression, enforcementMode } = change.after!;
+        const featureId = resolve(featureIds, feature);
+        const policyId = change.operation === "update"
+          ? change.id!
+          : (await policyRepository.insertExpressionNode(tx, featureId, expression, null, enforcementMode)).id;
+        if (change.operation === "update") {
+          await tx.update(policies).set({ enforcementMode }).where(eq(policies.id, policyId));
+        }
+
+        await policyVersionRepository.record({
+          policyId,
+          featureId,
+          expression: JSON.stringify(expression),
+          enforcementMode,
+          action: change.operation,
+          comment: IMPORT_VERSION_COMMENT,
+          authorId: adminUserId
+        }, tx);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Samakan action custom feature dengan daftar di dokumen
+   * Action yang dihapus ikut menghapus grant-nya (cascade)
+   * @param tx - Transaksi database aktif
+   * @param featureId - ID feature
+   * @param actions - Action custom yang diinginkan
+   */
+  private async syncFeatureActions(
+    tx: DbTransaction,
+    featureId: number,
+    actions: FeatureValues["actions"]
+  ): Promise<void> {
+    const existing = await tx.select().from(featureActions).where(eq(featureActions.featureId, featureId));
+    const desired = new Map(actions.map(action => [action.name, action]));
+
+    for (const action of existing) {
+      const target = desired.get(action.name);
+      if (!target) {
+        await tx.delete(featureActions).where(eq(featureActions.id, action.id));
+      } else if ((action.description ?? null) !== target.description) {
+        await tx.update(featureActions).set({ description: target.description }).where(eq(featureActions.id, action.id));
+      }
+      desired.delete(action.name);
+    }
+
+    if (desired.size > 0) {
+      await tx.insert(featureActions).values(
+        [...desired.values()].map(action => ({ featureId, name: action.name, description: action.description }))
+      );
+    }
+  }
+}
+
+// Export instance untuk backward compatibility
+export const policyDocumentRepository = new PolicyDocumentRepository('PolicyDocumentRepository');
@@ -0,0 +1,25 @@
+/**
+ * Policy Version Repository Module
+ * 
+ * Module ini mengexport repository untuk snapshot immutable
+ * root policy ABAC dan permission role-feature.
+ * 
+ * @module PolicyVersionRepository
+ */
+
+export {
+  PolicyVersionRepository,
+  policyVersionRepository,
+  type PolicyVersionWithAuthor
+} from './policyVersionRepository';
+export {
+  RoleFeatureVersionRepository,
+  roleFeatureVersionRepository,
+  type RoleFeatureVersionWithAuthor
+} from './roleFeatureVersionRepository';
+export type {
+  PolicyVersion,
+  NewPolicyVersion,
+  RoleFeatureVersion,
+  NewRoleFeatureVersion
+} from '@/db/schema';
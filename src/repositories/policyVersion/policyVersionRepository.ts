@@ -0,0 +1,71 @@
+import { eq, and, asc, max } from "drizzle-orm";
+import { db } from "@/db";
+import { policyVersions, users, type PolicyVersion, type NewPolicyVersion } from "@/db/schema";
+import { BaseRepository, type DbTransaction } from "../base/baseRepository";
+
+/**
+ * Versi policy beserta nama author-nya
+ */
+export type PolicyVersionWithAuthor = PolicyVersion & { authorName: string | null };
+
+/**
+ * Repository untuk snapshot immutable root policy ABAC
+ * Versi hanya ditambahkan, tidak pernah diubah atau dihapus
+ */
+export class PolicyVersionRepository extends BaseRepository {
+  /**
+   * Simpan snapshot baru dengan nomor versi berikutnya untuk policy
+   * @param data - Snapshot policy (tanpa nomor versi)
+   * @param tx - Transaksi aktif jika snapshot harus atomic dengan perubahannya (contoh: import policy-as-code)
+   * @returns Promise<PolicyVersion> - Versi yang disimpan
+   */
+  async record(data: Omit<NewPolicyVersion, "id" | "version" | "createdAt">, tx?: DbTransaction): Promise<PolicyVersion> {
+    return this.executeWithErrorHandling('record policy version', async () => {
+      const executor = tx ?? db!;
+      const [latest] = await executor.select({ version: max(policyVersions.version) })
+        .from(policyVersions)
+        .where(eq(policyVersions.policyId, data.policyId));
+
+      const result = await executor.insert(policyVersions)
+        .values({ ...data, version: (latest?.version ?? 0) + 1 })
+        .returning();
+      return this.getFirstResult(result)!;
+    });
+  }
+
+  /**
+   * Mengambil semua versi policy, versi terlama lebih dulu
+   * @param policyId - ID root policy
+   * @returns Promise<PolicyVersionWithAuthor[]> - Array versi beserta nama author
+   */
+  async findByPolicyId(policyId: number): Promise<PolicyVersionWithAuthor[]> {
+    return this.executeWithErrorHandling('find policy versions by policy ID', async () => {
+      const rows = await db!.select({ version: policyVersions, authorName: users.name })
+        .from(policyVersions)
+        .leftJoin(users, eq(policyVersions.authorId, users.id))
+        .where(eq(policyVersions.policyId, policyId))
+        .orderBy(asc(policyVersions.version));
+
+      return rows.map(row => ({ ...row.version, authorName: row.authorName }));
+    });
+  }
+
+  /**
+   * Mencari satu versi policy
+   * @param policyId - ID root policy
+   * @param version - Nomor versi
+   * @returns Promise<PolicyVersion | undefined> - Versi jika ditemukan
+   */
+  async findByPolicyAndVersion(policyId: number, version: number): Promise<PolicyVersion | undefined> {
+    return this.executeWithErrorHandling('find policy version', async () => {
+      const result = await db!.select()
+        .from(policyVersions)
+        .where(and(eq(policyVersions.policyId, policyId), eq(policyVersions.version, version)))
+        .limit(1);
+      return this.getFirstResult(result);
+    });
+  }
+}
+
+// Export instance untuk backward compatibility
+export const policyVersionRepository = new PolicyVersionRepository('PolicyVersionRepository');
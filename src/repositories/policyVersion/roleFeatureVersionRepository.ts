@@ -0,0 +1,94 @@
+import { eq, and, asc, desc, max } from "drizzle-orm";
+import { db } from "@/db";
+import { roleFeatureVersions, users, type RoleFeatureVersion, type NewRoleFeatureVersion } from "@/db/schema";
+import { BaseRepository, type DbTransaction } from "../base/baseRepository";
+
+/**
+ * Versi permission role-feature beserta nama author-nya
+ */
+export type RoleFeatureVersionWithAuthor = RoleFeatureVersion & { authorName: string | null };
+
+/**
+ * Repository untuk snapshot immutable permission role-feature
+ * Versi hanya ditambahkan, tidak pernah diubah atau dihapus
+ */
+export class RoleFeatureVersionRepository extends BaseRepository {
+  /**
+   * Simpan snapshot baru dengan nomor versi berikutnya untuk pasangan role-feature
+   * @param data - Snapshot permission (tanpa nomor versi)
+   * @param tx - Transaksi aktif jika snapshot harus atomic dengan perubahannya (contoh: import policy-as-code)
+   * @returns Promise<RoleFeatureVersion> - Versi yang disimpan
+   */
+  async record(data: Omit<NewRoleFeatureVersion, "id" | "version" | "createdAt">, tx?: DbTransaction): Promise<RoleFeatureVersion> {
+    return this.executeWithErrorHandling('record role feature version', async () => {
+      const executor = tx ?? db!;
+      const [latest] = await executor.select({ version: max(roleFeatureVersions.version) })
+        .from(roleFeatureVersions)
+        .where(and(eq(roleFeatureVersions.roleId, data.roleId), eq(roleFeatureVersions.featureId, data.featureId)));
+
+      const result = await executor.insert(roleFeatureVersions)
+        .values({ ...data, version: (latest?.version ?? 0) + 1 })
+        .returning();
+      return this.getFirstResult(result)!;
+    });
+  }
+
+  /**
+   * Mengambil semua versi permission role-feature, versi terlama lebih dulu
+   * @param roleId - ID role
+   * @param featureId - ID feature
+   * @returns Promise<RoleFeatureVersionWithAuthor[]> - Array versi beserta nama author
+   */
+  async findByRoleAndFeature(roleId: number, featureId: number): Promise<RoleFeatureVersionWithAuthor[]> {
+    return this.executeWithErrorHandling('find role feature versions', async () => {
+      const rows = await db!.select({ version: roleFeatureVersions, authorName: users.name })
+        .from(roleFeatureVersions)
+        .leftJoin(users, eq(roleFeatureVersions.authorId, users.id))
+        .where(and(eq(roleFeatureVersions.roleId, roleId), eq(roleFeatureVersions.featureId, featureId)))
+        .orderBy(asc(roleFeatureVersions.version));
+
+      return rows.map(row => ({ ...row.version, authorName: row.authorName }));
+    });
+  }
+
+  /**
+   * Mengambil versi terbaru permission role-feature
+   * @param roleId - ID role
+   * @param featureId - ID feature
+   * @returns Promise<RoleFeatureVersion | undefined> - Versi terbaru jika ada
+   */
+  async findLatest(roleId: number, featureId: number): Promise<RoleFeatureVersion | undefined> {
+    return this.executeWithErrorHandling('find latest role feature version', async () => {
+      const result = await db!.select()
+        .from(roleFeatureVersions)
+        .where(and(eq(roleFeatureVersions.roleId, roleId), eq(roleFeatureVersions.featureId, featureId)))
+        .orderBy(desc(roleFeatureVersions.version))
+        .limit(1);
+      return this.getFirstResult(result);
+    });
+  }
+
+  /**
+   * Mencari satu versi permission role-feature
+   * @param roleId - ID role
+   * @param featureId - ID feature
+   * @param version - Nomor versi
+   * @returns Promise<RoleFeatureVersion | undefined> - Versi jika ditemukan
+   */
+  async findByVersion(roleId: number, featureId: number, version: number): Promise<RoleFeatureVersion | undefined> {
+    return this.executeWithErrorHandling('find role feature version', async () => {
+      const result = await db!.select()
+        .from(roleFeatureVersions)
+        .where(and(
+          eq(roleFeatureVersions.roleId, roleId),
+          eq(roleFeatureVersions.featureId, featureId),
+          eq(roleFeatureVersions.version, version)
+        ))
+        .limit(1);
+      return this.getFirstResult(result);
+    });
+  }
+}
+
+// Export instance untuk backward compatibility
+export const roleFeatureVersionRepository = new RoleFeatureVersionRepository('RoleFeatureVersionRepository');
@@ -1,4 +1,4 @@
-import { eq, desc, and, gte, lte, count } from "drizzle-orm";
+import { eq, desc, and, gte, lte, count, countDistinct, min, max, inArray } from "drizzle-orm";
 import { db } from "@/db";
 import { policyViolations, type PolicyViolation, type NewPolicyViolation } from "@/db/schema";
 import { BaseRepository, CrudRepository, CountableRepository } from "../base/baseRepository";
@@ -180,4 +180,95 @@ export class PolicyViolationRepository extends BaseRepository implements CrudRep
         .orderBy(desc(policyViolations.createdAt));
     });
   }
-}
\ No newline at end of file
+
+  /**
+   * Ringkasan violation non-shadow (policy enforce) per feature sejak tanggal tertentu
+   * @param featureIds - ID feature yang diringkas
+   * @param since - Tanggal awal periode
+   * @returns Promise - Jumlah penolakan dan user terdampak per feature
+   */
+  async summarizeEnforcedViolationsByFeature(featureIds: number[], since: Date): Promise<{
+    featureId: number | null;
+    total: number;
+    users: number;
+  }[]> {
+    return this.executeWithErrorHandling('summarize enforced policy violations by feature', async () => {
+      if (featureIds.length === 0) return [];
+
+      return await db!.select({
+        featureId: policyViolations.featureId,
+        total: count(),
+        users: countDistinct(policyViolations.userId)
+      })
+        .from(policyViolations)
+        .where(and(
+          eq(policyViolations.shadow, false),
+          inArray(policyViolations.featureId, featureIds),
+          gte(policyViolations.createdAt, since)
+        ))
+        .groupBy(policyViolations.featureId);
+    });
+  }
+
+  /**
+   * Ringkasan shadow violation per policy sejak tanggal tertentu
+   * @param policyIds - ID root policy yang diringkas
+   * @param since - Tanggal awal periode
+   * @returns Promise - Jumlah penolakan, user terdampak, serta waktu pertama dan terakhir per policy
+   */
+  async summarizeShadowViolations(policyIds: number[], since: Date): Promise<{
+    policyId: number | null;
+    total: number;
+    users: number;
+    firstSeenAt: Date | null;
+    lastSeenAt: Date | null;
+  }[]> {
+    return this.executeWithErrorHandling('summarize shadow policy violations', async () => {
+      if (policyIds.length === 0) return [];
+
+      return await db!.select({
+        policyId: policyViolations.policyId,
+        total: count(),
+        users: countDistinct(policyViolations.userId),
+        firstSeenAt: min(policyViolations.createdAt),
+        lastSeenAt: max(policyViolations.createdAt)
+      })
+        .from(policyViolations)
+        .where(and(
+          eq(policyViolations.shadow, true),
+          inArray(policyViolations.policyId, policyIds),
+          gte(policyViolations.createdAt, since)
+        ))
+        .groupBy(policyViolations.policyId);
+    });
+  }
+
+  /**
+   * Hitung shadow violation per policy dan attribute sejak tanggal tertentu
+   * @param policyIds - ID root policy yang dihitung
+   * @param since - Tanggal awal periode
+   * @returns Promise - Jumlah penolakan per kombinasi policy dan attribute
+   */
+  async countShadowViolationsByAttribute(policyIds: number[], since: Date): Promise<{
+    policyId: number | null;
+    attribute: string;
+    total: number;
+  }[]> {
+    return this.executeWithErrorHandling('count shadow policy violations by attribute', async () => {
+      if (policyIds.length === 0) return [];
+
+      return await db!.select({
+        policyId: policyViolations.policyId,
+        attribute: policyViolations.attribute,
+        total: count()
+      })
+        .from(policyViolations)
+        .where(and(
+          eq(policyViolations.shadow, true),
+          inArray(policyViolations.policyId, policyIds),
+          gte(policyViolations.createdAt, since)
+        ))
+        .groupBy(policyViolations.policyId, policyViolations.attribute);
+    });
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Rate Limit Repository Module
+ * 
+ * Module ini mengexport repository untuk counter sliding window
+ * rate limit yang disimpan di Postgres.
+ * 
+ * @module RateLimitRepository
+ */
+
+export { RateLimitRepository, rateLimitRepository } from './rateLimitRepository';
+export type {
+  RateLimitBucket,
+  NewRateLimitBucket
+} from '@/db/schema';
@@ -0,0 +1,88 @@
+import { eq, and, gt, lt, like, sql, countDistinct } from "drizzle-orm";
+import { db } from "@/db";
+import { rateLimitBuckets } from "@/db/schema";
+import { BaseRepository } from "../base/baseRepository";
+
+/**
+ * Repository untuk counter rate limit per key dan fixed window
+ * Dipakai oleh PostgresRateLimitStore agar counter persisten dan dibagi antar instance
+ */
+export class RateLimitRepository extends BaseRepository {
+  /**
+   * Tambah counter bucket secara atomik (upsert)
+   * @param key - Key rate limit
+   * @param windowStart - Awal fixed window
+   * @param expiresAt - Waktu bucket boleh dihapus
+   * @returns Promise<number> - Nilai counter setelah increment
+   */
+  async increment(key: string, windowStart: Date, expiresAt: Date): Promise<number> {
+    return this.executeWithErrorHandling('increment rate limit bucket', async () => {
+      const result = await db!.insert(rateLimitBuckets)
+        .values({ key, windowStart, count: 1, expiresAt })
+        .onConflictDoUpdate({
+          target: [rateLimitBuckets.key, rateLimitBuckets.windowStart],
+          set: { count: sql`${rateLimitBuckets.count} + 1` }
+        })
+        .returning({ count: rateLimitBuckets.count });
+      return this.getFirstResult(result)?.count ?? 0;
+    });
+  }
+
+  /**
+   * Ambil nilai counter bucket
+   * @param key - Key rate limit
+   * @param windowStart - Awal fixed window
+   * @returns Promise<number> - Nilai counter, 0 jika bucket belum ada
+   */
+  async findCount(key: string, windowStart: Date): Promise<number> {
+    return this.executeWithErrorHandling('find rate limit bucket count', async () => {
+      const result = await db!.select({ count: rateLimitBuckets.count })
+        .from(rateLimitBuckets)
+        .where(and(eq(rateLimitBuckets.key, key), eq(rateLimitBuckets.windowStart, windowStart)))
+        .limit(1);
+      return this.getFirstResult(result)?.count ?? 0;
+    });
+  }
+
+  /**
+   * Hitung jumlah key dengan prefix tertentu yang masih memiliki bucket aktif
+   * @param keyPrefix - Prefix key (contoh: 'login:account:')
+   * @param at - Waktu acuan (default: sekarang)
+   * @returns Promise<number> - Jumlah key unik
+   */
+  async countActiveKeys(keyPrefix: string, at: Date = new Date()): Promise<number> {
+    return this.executeWithErrorHandling('count active rate limit keys', async () => {
+      const result = await db!.select({ total: countDistinct(rateLimitBuckets.key) })
+        .from(rateLimitBuckets)
+        .where(and(like(rateLimitBuckets.key, `${keyPrefix}%`), gt(rateLimitBuckets.expiresAt, at)));
+      return Number(this.getFirstResult(result)?.total ?? 0);
+    });
+  }
+
+  /**
+   * Hapus semua bucket milik key (reset rate limit)
+   * @param key - Key rate limit
+   * @returns Promise<boolean> - true jika ada bucket yang dihapus
+   */
+  async deleteByKey(key: string): Promise<boolean> {
+    return this.executeWithErrorHandling('delete rate limit buckets by key', async () => {
+      const result = await db!.delete(rateLimitBuckets).where(eq(rateLimitBuckets.key, key));
+      return this.isOperationSuccessful(result.rowCount || 0);
+    });
+  }
+
+  /**
+   * Hapus bucket yang sudah expired
+   * @param at - Waktu acuan (default: sekarang)
+   * @returns Promise<number> - Jumlah bucket yang dihapus
+   */
+  async deleteExpired(at: Date = new Date()): Promise<number> {
+    return this.executeWithErrorHandling('delete expired rate limit buckets', async () => {
+      const result = await db!.delete(rateLimitBuckets).where(lt(rateLimitBuckets.expiresAt, at));
+      return result.rowCount || 0;
+    });
+  }
+}
+
+// Export instance untuk backward compatibility
+export const rateLimitRepository = new RateLimitRepository("RateLimitRepository");
@@ -0,0 +1,17 @@
+/**
+ * Role Access Request Repository Module
+ * 
+ * Module ini mengexport repository untuk approver per role
+ * dan access request role oleh user.
+ * 
+ * @module RoleAccessRequestRepository
+ */
+
+export { RoleAccessRequestRepository, roleAccessRequestRepository } from './roleAccessRequestRepository';
+export { RoleApproverRepository, roleApproverRepository } from './roleApproverRepository';
+export type {
+  RoleAccessRequest,
+  NewRoleAccessRequest,
+  RoleApprover,
+  NewRoleApprover
+} from '@/db/schema';
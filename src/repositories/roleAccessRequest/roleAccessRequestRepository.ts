@@ -0,0 +1,129 @@
+import { eq, and, desc, inArray } from "drizzle-orm";
+import { db } from "@/db";
+import { roleAccessRequests, type RoleAccessRequest, type NewRoleAccessRequest } from "@/db/schema";
+import { BaseRepository, type DbTransaction } from "../base/baseRepository";
+
+/**
+ * Repository untuk access request role
+ * Hanya menangani akses data; transisi status divalidasi di AccessRequestService
+ */
+export class RoleAccessRequestRepository extends BaseRepository {
+  /**
+   * Mengambil semua access request, opsional difilter status
+   * @param status - Status request (opsional)
+   * @returns Promise<RoleAccessRequest[]> - Array request, terbaru lebih dulu
+   */
+  async findAll(status?: string): Promise<RoleAccessRequest[]> {
+    return this.executeWithErrorHandling('fetch all role access requests', async () => {
+      return await db!.select().from(roleAccessRequests)
+        .where(status ? eq(roleAccessRequests.status, status) : undefined)
+        .orderBy(desc(roleAccessRequests.createdAt));
+    });
+  }
+
+  /**
+   * Mencari access request berdasarkan ID
+   * @param id - ID request
+   * @returns Promise<RoleAccessRequest | undefined> - Request jika ditemukan
+   */
+  async findById(id: number): Promise<RoleAccessRequest | undefined> {
+    return this.executeWithErrorHandling('find role access request by ID', async () => {
+      const result = await db!.select().from(roleAccessRequests).where(eq(roleAccessRequests.id, id)).limit(1);
+      return this.getFirstResult(result);
+    });
+  }
+
+  /**
+   * Mengambil semua access request milik user
+   * @param userId - ID user yang meminta
+   * @returns Promise<RoleAccessRequest[]> - Array request user, terbaru lebih dulu
+   */
+  async findByUserId(userId: number): Promise<RoleAccessRequest[]> {
+    return this.executeWithErrorHandling('find role access requests by user ID', async () => {
+      return await db!.select().from(roleAccessRequests)
+        .where(eq(roleAccessRequests.userId, userId))
+        .orderBy(desc(roleAccessRequests.createdAt));
+    });
+  }
+
+  /**
+   * Mengambil access request pending untuk sekumpulan role
+   * @param roleIds - Array ID role
+   * @returns Promise<RoleAccessRequest[]> - Array request pending, terlama lebih dulu
+   */
+  async findPendingByRoleIds(roleIds: number[]): Promise<RoleAccessRequest[]> {
+    if (roleIds.length === 0) {
+      return [];
+    }
+
+    return this.executeWithErrorHandling('find pending role access requests by role IDs', async () => {
+      return await db!.select().from(roleAccessRequests)
+        .where(and(
+          inArray(roleAccessRequests.roleId, roleIds),
+          eq(roleAccessRequests.status, 'pending')
+        ))
+        .orderBy(roleAccessRequests.createdAt);
+    });
+  }
+
+  /**
+   * Mencari access request pending user untuk role tertentu
+   * @param userId - ID user
+   * @param roleId - ID role
+   * @returns Promise<RoleAccessRequest | undefined> - Request pending jika ada
+   */
+  async findPendingByUserAndRole(userId: number, roleId: number): Promise<RoleAccessRequest | undefined> {
+    return this.executeWithErrorHandling('find pending role access request by user and role', async () => {
+      const result = await db!.select().from(roleAccessRequests)
+        .where(and(
+          eq(roleAccessRequests.userId, userId),
+          eq(roleAccessRequests.roleId, roleId),
+          eq(roleAccessRequests.status, 'pending')
+        ))
+        .limit(1);
+      return this.getFirstResult(result);
+    });
+  }
+
+  /**
+   * Membuat access request baru
+   * @param requestData - Data request baru
+   * @returns Promise<RoleAccessRequest> - Request yang baru dibuat
+   */
+  async create(requestData: NewRoleAccessRequest): Promise<RoleAccessRequest> {
+    return this.executeWithErrorHandling('create role access request', async () => {
+      const result = await db!.insert(roleAccessRequests).values(requestData).returning();
+      const newRequest = this.getFirstResult(result);
+      if (!newRequest) {
+        throw new Error('Failed to create role access request - no data returned');
+      }
+      return newRequest;
+    });
+  }
+
+  /**
+   * Mengupdate access request yang masih pending (keputusan approver atau pembatalan)
+   * Request yang sudah diputuskan tidak ikut terupdate sehingga keputusan ganda tidak mungkin terjadi
+   * @param id - ID request
+   * @param requestData - Data yang diupdate
+   * @param tx - Transaksi aktif jika keputusan harus atomic dengan perubahan lain (contoh: assignment role saat approve)
+   * @returns Promise<RoleAccessRequest | undefined> - Request yang sudah diupdate atau undefined jika tidak lagi pending
+   */
+  async updatePending(
+    id: number,
+    requestData: Partial<Omit<RoleAccessRequest, 'id'>>,
+    tx?: DbTransaction
+  ): Promise<RoleAccessRequest | undefined> {
+    return this.executeWithErrorHandling('update pending role access request', async () => {
+      const executor = tx ?? db!;
+      const result = await executor.update(roleAccessRequests)
+        .set(requestData)
+        .where(and(eq(roleAccessRequests.id, id), eq(roleAccessRequests.status, 'pending')))
+        .returning();
+      return this.getFirstResult(result);
+    });
+  }
+}
+
+// Export instance untuk backward compatibility
+export const roleAccessRequestRepository = new RoleAccessRequestRepository('RoleAccessRequestRepository');
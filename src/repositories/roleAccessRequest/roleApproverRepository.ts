@@ -0,0 +1,80 @@
+import { eq, and } from "drizzle-orm";
+import { db } from "@/db";
+import { roleApprovers, type RoleApprover } from "@/db/schema";
+import { BaseRepository } from "../base/baseRepository";
+
+/**
+ * Repository untuk approver access request per role
+ * Setiap user hanya terdaftar sekali sebagai approver sebuah role (unique role_id + user_id)
+ */
+export class RoleApproverRepository extends BaseRepository {
+  /**
+   * Mengambil semua approver dari semua role
+   * @returns Promise<RoleApprover[]> - Array semua approver entry
+   */
+  async findAll(): Promise<RoleApprover[]> {
+    return this.executeWithErrorHandling('fetch all role approvers', async () => {
+      return await db!.select().from(roleApprovers);
+    });
+  }
+
+  /**
+   * Mengambil semua approver untuk role
+   * @param roleId - ID role
+   * @returns Promise<RoleApprover[]> - Array approver role
+   */
+  async findByRoleId(roleId: number): Promise<RoleApprover[]> {
+    return this.executeWithErrorHandling('fetch role approvers by role ID', async () => {
+      return await db!.select().from(roleApprovers).where(eq(roleApprovers.roleId, roleId));
+    });
+  }
+
+  /**
+   * Mengambil semua role yang dapat disetujui oleh user
+   * @param userId - ID user approver
+   * @returns Promise<RoleApprover[]> - Array approver entry milik user
+   */
+  async findByUserId(userId: number): Promise<RoleApprover[]> {
+    return this.executeWithErrorHandling('fetch role approvers by user ID', async () => {
+      return await db!.select().from(roleApprovers).where(eq(roleApprovers.userId, userId));
+    });
+  }
+
+  /**
+   * Mengecek apakah user adalah approver role
+   * @param roleId - ID role
+   * @param userId - ID user
+   * @returns Promise<boolean> - true jika user ditunjuk sebagai approver role
+   */
+  async isApprover(roleId: number, userId: number): Promise<boolean> {
+    return this.executeWithErrorHandling('check role approver', async () => {
+      const result = await db!.select({ id: roleApprovers.id }).from(roleApprovers)
+        .where(and(eq(roleApprovers.roleId, roleId), eq(roleApprovers.userId, userId)))
+        .limit(1);
+      return result.length > 0;
+    });
+  }
+
+  /**
+   * Ganti semua approver role dengan daftar baru
+   * @param roleId - ID role
+   * @param userIds - Array ID user approver
+   * @returns Promise<RoleApprover[]> - Approver role yang baru
+   */
+  async replaceForRole(roleId: number, userIds: number[]): Promise<RoleApprover[]> {
+    return this.executeWithErrorHandling('replace role approvers', async () => {
+      return await db!.transaction(async (tx) => {
+        await tx.delete(roleApprovers).where(eq(roleApprovers.roleId, roleId));
+        if (userIds.length === 0) {
+          return [];
+        }
+        return await tx.insert(roleApprovers)
+          .values(userIds.map(userId => ({ roleId, userId })))
+          .returning();
+      });
+    });
+  }
+}
+
+// Export instance untuk backward compatibility
+export const roleApproverRepository = new RoleApproverRepository('RoleApproverRepository');
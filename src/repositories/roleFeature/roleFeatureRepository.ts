@@ -66,6 +66,10 @@ export class RoleFeatureRepository extends BaseRepository implements CrudReposit
         canRead: roleFeatures.canRead,
         canUpdate: roleFeatures.canUpdate,
         canDelete: roleFeatures.canDelete,
+        denyCreate: roleFeatures.denyCreate,
+        denyRead: roleFeatures.denyRead,
+        denyUpdate: roleFeatures.denyUpdate,
+        denyDelete: roleFeatures.denyDelete,
         featureName: features.name,
         featureDescription: features.description,
         featureCategory: features.category
@@ -102,6 +106,10 @@ export class RoleFeatureRepository extends BaseRepository implements CrudReposit
         canRead: roleFeatures.canRead,
         canUpdate: roleFeatures.canUpdate,
         canDelete: roleFeatures.canDelete,
+        denyCreate: roleFeatures.denyCreate,
+        denyRead: roleFeatures.denyRead,
+        denyUpdate: roleFeatures.denyUpdate,
+        denyDelete: roleFeatures.denyDelete,
         role: {
           id: roles.id,
           name: roles.name,
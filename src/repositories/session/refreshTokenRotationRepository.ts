@@ -0,0 +1,39 @@
+import { eq, lt } from "drizzle-orm";
+import { db } from "@/db";
+import { refreshTokenRotations, type RefreshTokenRotation } from "@/db/schema";
+import { BaseRepository } from "../base/baseRepository";
+
+/**
+ * Repository untuk jejak refresh token yang sudah dirotasi
+ * Row ditulis oleh SessionRepository.rotateRefreshToken dalam transaksi yang sama dengan update session
+ */
+export class RefreshTokenRotationRepository extends BaseRepository {
+  /**
+   * Mencari jejak rotasi berdasarkan hash refresh token lama
+   * @param tokenHash - SHA-256 hex dari refresh token
+   * @returns Promise<RefreshTokenRotation | undefined> - Jejak rotasi jika token pernah dirotasi
+   */
+  async findByTokenHash(tokenHash: string): Promise<RefreshTokenRotation | undefined> {
+    return this.executeWithErrorHandling('find refresh token rotation by hash', async () => {
+      const result = await db!.select().from(refreshTokenRotations)
+        .where(eq(refreshTokenRotations.tokenHash, tokenHash))
+        .limit(1);
+      return this.getFirstResult(result);
+    });
+  }
+
+  /**
+   * Menghapus jejak rotasi yang token lamanya sudah expired (tidak bisa dipakai ulang lagi)
+   * @param at - Waktu acuan (default: sekarang)
+   * @returns Promise<number> - Jumlah jejak rotasi yang dihapus
+   */
+  async deleteExpired(at: Date = new Date()): Promise<number> {
+    return this.executeWithErrorHandling('delete expired refresh token rotations', async () => {
+      const result = await db!.delete(refreshTokenRotations).where(lt(refreshTokenRotations.expiresAt, at));
+      return result.rowCount || 0;
+    });
+  }
+}
+
+// Export instance untuk backward compatibility
+export const refreshTokenRotationRepository = new RefreshTokenRotationRepository("RefreshTokenRotationRepository");
@@ -1,6 +1,6 @@
 import { eq, and, gt } from "drizzle-orm";
 import { db } from "@/db";
-import { sessions, type Session, type NewSession } from "@/db/schema";
+import { sessions, refreshTokenRotations, type Session, type NewSession } from "@/db/schema";
 import { BaseRepository, CrudRepository } from "../base/baseRepository";
 
 /**
@@ -122,6 +122,45 @@ export class SessionRepository extends BaseRepository implements CrudRepository<
     });
   }
 
+  /**
+   * Rotasi refresh token session secara atomik
+   * Update hanya berhasil jika token session masih sama dengan currentToken, sehingga
+   * dua refresh paralel dengan token yang sama tidak bisa sama-sama berhasil.
+   * Token lama dicatat ke refresh_token_rotations untuk deteksi reuse, dan last_seen_at session diperbarui.
+   * @param sessionId - ID session (token family)
+   * @param currentToken - Refresh token yang sedang dipakai
+   * @param currentTokenHash - SHA-256 hex dari currentToken
+   * @param newToken - Refresh token pengganti
+   * @returns Promise<Session | undefined> - Session dengan token baru, undefined jika token sudah dirotasi
+   */
+  async rotateRefreshToken(
+    sessionId: number,
+    currentToken: string,
+    currentTokenHash: string,
+    newToken: string
+  ): Promise<Session | undefined> {
+    return this.executeWithErrorHandling('rotate session refresh token', async () => {
+      return await db!.transaction(async (tx) => {
+        const result = await tx.update(sessions)
+          .set({ refreshToken: newToken, lastSeenAt: new Date() })
+          .where(and(eq(sessions.id, sessionId), eq(sessions.refreshToken, currentToken)))
+          .returning();
+        const rotated = this.getFirstResult(result);
+        if (!rotated) {
+          return undefined;
+        }
+
+        await tx.insert(refreshTokenRotations).values({
+          sessionId: rotated.id,
+          userId: rotated.userId,
+          tokenHash: currentTokenHash,
+          expiresAt: rotated.expiresAt
+        });
+        return rotated;
+      });
+    });
+  }
+
   /**
    * Menghapus session berdasarkan ID
    * @param id - ID session yang akan dihapus
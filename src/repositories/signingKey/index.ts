@@ -0,0 +1,14 @@
+/**
+ * Signing Key Repository Module
+ * 
+ * Module ini mengexport repository untuk key pair asimetris
+ * penandatangan JWT beserta rotasinya.
+ * 
+ * @module SigningKeyRepository
+ */
+
+export { JwtSigningKeyRepository, jwtSigningKeyRepository } from './jwtSigningKeyRepository';
+export type {
+  JwtSigningKey,
+  NewJwtSigningKey
+} from '@/db/schema';
@@ -0,0 +1,77 @@
+import { and, ne, desc, isNull, isNotNull, or, gt, lte } from "drizzle-orm";
+import { db } from "@/db";
+import { jwtSigningKeys, type JwtSigningKey, type NewJwtSigningKey } from "@/db/schema";
+import { BaseRepository } from "../base/baseRepository";
+
+/**
+ * Repository untuk key pair penandatangan JWT
+ * Key aktif: retiredAt null; key dalam overlap window: retiredAt terisi dan expiresAt belum lewat
+ */
+export class JwtSigningKeyRepository extends BaseRepository {
+  /**
+   * Mengambil key yang masih dapat dipakai verifikasi (aktif dan dalam overlap window)
+   * @param at - Waktu acuan (default: sekarang)
+   * @returns Promise<JwtSigningKey[]> - Array key, terbaru lebih dulu
+   */
+  async findVerifiable(at: Date = new Date()): Promise<JwtSigningKey[]> {
+    return this.executeWithErrorHandling('find verifiable JWT signing keys', async () => {
+      return await db!.select()
+        .from(jwtSigningKeys)
+        .where(or(isNull(jwtSigningKeys.expiresAt), gt(jwtSigningKeys.expiresAt, at)))
+        .orderBy(desc(jwtSigningKeys.createdAt), desc(jwtSigningKeys.id));
+    });
+  }
+
+  /**
+   * Mengambil semua key termasuk yang sudah expired
+   * @returns Promise<JwtSigningKey[]> - Array key, terbaru lebih dulu
+   */
+  async findAll(): Promise<JwtSigningKey[]> {
+    return this.executeWithErrorHandling('find all JWT signing keys', async () => {
+      return await db!.select()
+        .from(jwtSigningKeys)
+        .orderBy(desc(jwtSigningKeys.createdAt), desc(jwtSigningKeys.id));
+    });
+  }
+
+  /**
+   * Simpan key baru sebagai key aktif dan pensiunkan key aktif lainnya dalam satu transaksi
+   * Key yang dipensiunkan tetap dapat dipakai verifikasi sampai akhir overlap window
+   * @param data - Data key baru (kid, algorithm, publicKey, privateKey terenkripsi)
+   * @param overlapMs - Lama overlap window key lama (milidetik)
+   * @param at - Waktu rotasi (default: sekarang)
+   * @returns Promise<JwtSigningKey> - Key baru
+   */
+  async rotate(data: NewJwtSigningKey, overlapMs: number, at: Date = new Date()): Promise<JwtSigningKey> {
+    return this.executeWithErrorHandling('rotate JWT signing key', async () => {
+      return await db!.transaction(async (tx) => {
+        const result = await tx.insert(jwtSigningKeys)
+          .values({ ...data, retiredAt: null, expiresAt: null, createdAt: at })
+          .returning();
+        const key = this.getFirstResult(result)!;
+
+        await tx.update(jwtSigningKeys)
+          .set({ retiredAt: at, expiresAt: new Date(at.getTime() + overlapMs) })
+          .where(and(ne(jwtSigningKeys.id, key.id), isNull(jwtSigningKeys.retiredAt)));
+
+        return key;
+      });
+    });
+  }
+
+  /**
+   * Hapus key yang overlap window-nya sudah berakhir
+   * @param before - Batas waktu expiresAt
+   * @returns Promise<number> - Jumlah key yang dihapus
+   */
+  async deleteExpired(before: Date): Promise<number> {
+    return this.executeWithErrorHandling('delete expired JWT signing keys', async () => {
+      const result = await db!.delete(jwtSigningKeys)
+        .where(and(isNotNull(jwtSigningKeys.expiresAt), lte(jwtSigningKeys.expiresAt, before)));
+      return result.rowCount || 0;
+    });
+  }
+}
+
+// Export instance untuk backward compatibility
+export const jwtSigningKeyRepository = new JwtSigningKeyRepository("JwtSigningKeyRepository");
@@ -0,0 +1,16 @@
+/**
+ * Separation-of-Duties Constraint Repository Module
+ * 
+ * Module ini mengexport repository untuk constraint separation-of-duties
+ * beserta set role yang saling eksklusif.
+ * 
+ * @module SodConstraintRepository
+ */
+
+export { SodConstraintRepository, sodConstraintRepository } from './sodConstraintRepository';
+export type {
+  SodConstraint,
+  NewSodConstraint,
+  SodConstraintRole,
+  NewSodConstraintRole
+} from '@/db/schema';
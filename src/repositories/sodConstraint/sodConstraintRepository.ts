@@ -0,0 +1,129 @@
+import { eq, asc } from "drizzle-orm";
+import { db } from "@/db";
+import {
+  sodConstraints,
+  sodConstraintRoles,
+  type SodConstraint,
+  type NewSodConstraint,
+  type SodConstraintRole
+} from "@/db/schema";
+import { BaseRepository } from "../base/baseRepository";
+
+/**
+ * Repository untuk constraint separation-of-duties dan set role-nya
+ * Constraint dan role anggotanya selalu ditulis dalam satu transaksi
+ */
+export class SodConstraintRepository extends BaseRepository {
+  /**
+   * Mengambil semua constraint, urut berdasarkan nama
+   * @returns Promise<SodConstraint[]> - Array constraint
+   */
+  async findAll(): Promise<SodConstraint[]> {
+    return this.executeWithErrorHandling('fetch all sod constraints', async () => {
+      return await db!.select().from(sodConstraints).orderBy(asc(sodConstraints.name));
+    });
+  }
+
+  /**
+   * Mencari constraint berdasarkan ID
+   * @param id - ID constraint
+   * @returns Promise<SodConstraint | undefined> - Constraint atau undefined
+   */
+  async findById(id: number): Promise<SodConstraint | undefined> {
+    return this.executeWithErrorHandling('find sod constraint by ID', async () => {
+      const result = await db!.select().from(sodConstraints).where(eq(sodConstraints.id, id)).limit(1);
+      return result[0];
+    });
+  }
+
+  /**
+   * Mencari constraint berdasarkan nama
+   * @param name - Nama constraint
+   * @returns Promise<SodConstraint | undefined> - Constraint atau undefined
+   */
+  async findByName(name: string): Promise<SodConstraint | undefined> {
+    return this.executeWithErrorHandling('find sod constraint by name', async () => {
+      const result = await db!.select().from(sodConstraints).where(eq(sodConstraints.name, name)).limit(1);
+      return result[0];
+    });
+  }
+
+  /**
+   * Mengambil role anggota semua constraint
+   * @returns Promise<SodConstraintRole[]> - Array pasangan constraint-role
+   */
+  async findAllRoles(): Promise<SodConstraintRole[]> {
+    return this.executeWithErrorHandling('fetch all sod constraint roles', async () => {
+      return await db!.select().from(sodConstraintRoles);
+    });
+  }
+
+  /**
+   * Mengambil role anggota satu constraint
+   * @param constraintId - ID constraint
+   * @returns Promise<SodConstraintRole[]> - Array pasangan constraint-role
+   */
+  async findRolesByConstraintId(constraintId: number): Promise<SodConstraintRole[]> {
+    return this.executeWithErrorHandling('fetch sod constraint roles by constraint ID', async () => {
+      return await db!.select().from(sodConstraintRoles).where(eq(sodConstraintRoles.constraintId, constraintId));
+    });
+  }
+
+  /**
+   * Membuat constraint beserta set role-nya
+   * @param data - Data constraint
+   * @param roleIds - ID role anggota constraint
+   * @returns Promise<SodConstraint> - Constraint yang baru dibuat
+   */
+  async create(data: NewSodConstraint, roleIds: number[]): Promise<SodConstraint> {
+    return this.executeWithErrorHandling('create sod constraint', async () => {
+      return await db!.transaction(async (tx) => {
+        const [constraint] = await tx.insert(sodConstraints).values(data).returning();
+        await tx.insert(sodConstraintRoles)
+          .values(roleIds.map(roleId => ({ constraintId: constraint.id, roleId })));
+        return constraint;
+      });
+    });
+  }
+
+  /**
+   * Update constraint dan ganti seluruh set role-nya
+   * @param id - ID constraint
+   * @param data - Data constraint yang diupdate
+   * @param roleIds - ID role anggota constraint yang baru
+   * @returns Promise<SodConstraint | undefined> - Constraint yang sudah diupdate atau undefined
+   */
+  async update(id: number, data: Partial<Omit<NewSodConstraint, 'id'>>, roleIds: number[]): Promise<SodConstraint | undefined> {
+    return this.executeWithErrorHandling('update sod constraint', async () => {
+      return await db!.transaction(async (tx) => {
+        const [constraint] = await tx.update(sodConstraints)
+          .set({ ...data, updatedAt: new Date() })
+          .where(eq(sodConstraints.id, id))
+          .returning();
+        if (!constraint) {
+          return undefined;
+        }
+
+        await tx.delete(sodConstraintRoles).where(eq(sodConstraintRoles.constraintId, id));
+        await tx.insert(sodConstraintRoles)
+          .values(roleIds.map(roleId => ({ constraintId: id, roleId })));
+        return constraint;
+      });
+    });
+  }
+
+  /**
+   * Hapus constraint (role anggotanya ikut terhapus melalui cascade)
+   * @param id - ID constraint
+   * @returns Promise<boolean> - true jika berhasil dihapus
+   */
+  async delete(id: number): Promise<boolean> {
+    return this.executeWithErrorHandling('delete sod constraint', async () => {
+      const result = await db!.delete(sodConstraints).where(eq(sodConstraints.id, id));
+      return this.isOperationSuccessful(result.rowCount || 0);
+    });
+  }
+}
+
+// Export instance untuk backward compatibility
+export const sodConstraintRepository = new SodConstraintRepository('SodConstraintRepository');
@@ -1,4 +1,4 @@
-import { eq, count } from "drizzle-orm";
+import { eq, count, sql } from "drizzle-orm";
 import { db } from "@/db";
 import { users, type User, type NewUser } from "@/db/schema";
 import { BaseRepository, CrudRepository, CountableRepository } from "../base/baseRepository";
@@ -23,6 +23,48 @@ export class UserRepository extends BaseRepository implements CrudRepository<Use
     });
   }
 
+  /**
+   * Mengambil semua service account
+   * @returns Promise<User[]> - Array service account
+   */
+  async findServiceAccounts(): Promise<User[]> {
+    return this.executeWithErrorHandling('fetch service accounts', async () => {
+      return await db!.select().from(users).where(eq(users.isServiceAccount, true));
+    });
+  }
+
+  /**
+   * Mengambil status token user (tanpa password hash) untuk validasi access token
+   * @param id - ID user
+   * @returns Promise<Pick<User, 'id' | 'email' | 'active' | 'tokenVersion'> | undefined> - Status token jika user ditemukan
+   */
+  async findTokenState(id: number): Promise<Pick<User, 'id' | 'email' | 'active' | 'tokenVersion'> | undefined> {
+    return this.executeWithErrorHandling('find user token state', async () => {
+      const result = await db!.select({
+        id: users.id,
+        email: users.email,
+        active: users.active,
+        tokenVersion: users.tokenVersion
+      }).from(users).where(eq(users.id, id)).limit(1);
+      return this.getFirstResult(result);
+    });
+  }
+
+  /**
+   * Naikkan versi token user secara atomik sehingga access token yang sudah terbit tidak berlaku
+   * @param id - ID user
+   * @returns Promise<number | undefined> - Versi token baru, undefined jika user tidak ditemukan
+   */
+  async incrementTokenVersion(id: number): Promise<number | undefined> {
+    return this.executeWithErrorHandling('increment user token version', async () => {
+      const result = await db!.update(users)
+        .set({ tokenVersion: sql`${users.tokenVersion} + 1` })
+        .where(eq(users.id, id))
+        .returning({ tokenVersion: users.tokenVersion });
+      return this.getFirstResult(result)?.tokenVersion;
+    });
+  }
+
   /**
    * Mencari user berdasarkan ID
    * @param id - ID user yang dicari
@@ -0,0 +1,16 @@
+/**
+ * User Invitation Repository Module
+ * 
+ * Module ini mengexport repository untuk undangan user
+ * beserta role yang di-assign saat undangan diterima.
+ * 
+ * @module UserInvitationRepository
+ */
+
+export { UserInvitationRepository, userInvitationRepository } from './userInvitationRepository';
+export type {
+  UserInvitation,
+  NewUserInvitation,
+  UserInvitationRole,
+  NewUserInvitationRole
+} from '@/db/schema';
@@ -0,0 +1,212 @@
+import { eq, and, desc, isNull, gt, inArray } from "drizzle-orm";
+import { db } from "@/db";
+import {
+  users,
+  userRoles,
+  userAttributeValues,
+  userInvitations,
+  userInvitationRoles,
+  type User,
+  type NewUser,
+  type NewUserAttributeValue,
+  type UserInvitation,
+  type NewUserInvitation,
+  type UserInvitationRole
+} from "@/db/schema";
+import { BaseRepository } from "../base/baseRepository";
+
+/**
+ * Repository untuk undangan user dan role yang akan di-assign saat undangan diterima
+ * Undangan dicari berdasarkan hash token; token plaintext tidak pernah disimpan.
+ * Transisi status (accept, revoke, resend) dilakukan secara atomik dengan kondisi pending.
+ */
+export class UserInvitationRepository extends BaseRepository {
+  /**
+   * Simpan undangan baru beserta role-nya dalam satu transaksi
+   * @param data - Data undangan
+   * @param roleIds - Array ID role yang akan di-assign
+   * @returns Promise<UserInvitation> - Undangan yang disimpan
+   */
+  async create(data: NewUserInvitation, roleIds: number[]): Promise<UserInvitation> {
+    return this.executeWithErrorHandling('create user invitation', async () => {
+      return await db!.transaction(async (tx) => {
+        const result = await tx.insert(userInvitations).values(data).returning();
+        const invitation = this.getFirstResult(result)!;
+
+        if (roleIds.length > 0) {
+          await tx.insert(userInvitationRoles).values(
+            roleIds.map(roleId => ({ invitationId: invitation.id, roleId }))
+          );
+        }
+
+        return invitation;
+      });
+    });
+  }
+
+  /**
+   * Mengambil semua undangan
+   * @returns Promise<UserInvitation[]> - Array undangan, terbaru lebih dulu
+   */
+  async findAll(): Promise<UserInvitation[]> {
+    return this.executeWithErrorHandling('fetch all user invitations', async () => {
+      return await db!.select().from(userInvitations).orderBy(desc(userInvitations.createdAt));
+    });
+  }
+
+  /**
+   * Mencari undangan berdasarkan ID
+   * @param id - ID undangan
+   * @returns Promise<UserInvitation | undefined> - Undangan jika ditemukan
+   */
+  async findById(id: number): Promise<UserInvitation | undefined> {
+    return this.executeWithErrorHandling('find user invitation by ID', async () => {
+      const result = await db!.select().from(userInvitations).where(eq(userInvitations.id, id)).limit(1);
+      return this.getFirstResult(result);
+    });
+  }
+
+  /**
+   * Mencari undangan berdasarkan hash token
+   * @param tokenHash - SHA-256 hex dari token
+   * @returns Promise<UserInvitation | undefined> - Undangan jika ditemukan
+   */
+  async findByTokenHash(tokenHash: string): Promise<UserInvitation | undefined> {
+    return this.executeWithErrorHandling('find user invitation by token hash', async () => {
+      const result = await db!.select().from(userInvitations).where(eq(userInvitations.tokenHash, tokenHash)).limit(1);
+      return this.getFirstResult(result);
+    });
+  }
+
+  /**
+   * Mencari undangan pending (belum diterima, belum dicabut, belum expired) untuk email
+   * @param email - Email yang diundang (lowercase)
+   * @param at - Waktu acuan (default: sekarang)
+   * @returns Promise<UserInvitation | undefined> - Undangan pending jika ada
+   */
+  async findPendingByEmail(email: string, at: Date = new Date()): Promise<UserInvitation | undefined> {
+    return this.executeWithErrorHandling('find pending user invitation by email', async () => {
+      const result = await db!.select().from(userInvitations)
+        .where(and(
+          eq(userInvitations.email, email),
+          isNull(userInvitations.acceptedAt),
+          isNull(userInvitations.revokedAt),
+          gt(userInvitations.expiresAt, at)
+        ))
+        .limit(1);
+      return this.getFirstResult(result);
+    });
+  }
+
+  /**
+   * Mengambil role undangan untuk sekumpulan undangan
+   * @param invitationIds - Array ID undangan
+   * @returns Promise<UserInvitationRole[]> - Array pasangan undangan-role
+   */
+  async findRolesByInvitationIds(invitationIds: number[]): Promise<UserInvitationRole[]> {
+    if (invitationIds.length === 0) {
+      return [];
+    }
+
+    return this.executeWithErrorHandling('find user invitation roles', async () => {
+      return await db!.select().from(userInvitationRoles)
+        .where(inArray(userInvitationRoles.invitationId, invitationIds));
+    });
+  }
+
+  /**
+   * Terima undangan dalam satu transaksi: klaim undangan (hanya jika masih pending), buat user,
+   * simpan custom attribute, dan assign role undangan. Jika salah satu langkah gagal,
+   * undangan tetap pending dan tidak ada user yang tertinggal.
+   * @param id - ID undangan
+   * @param userData - Data user baru
+   * @param attributeValues - Nilai custom attribute yang sudah diserialisasi
+   * @param roleIds - Array ID role yang di-assign
+   * @param at - Waktu diterima (default: sekarang)
+   * @returns Promise<User | undefined> - User baru, undefined jika undangan tidak lagi pending
+   */
+  async accept(
+    id: number,
+    userData: NewUser,
+    attributeValues: Pick<NewUserAttributeValue, "attributeId" | "value">[],
+    roleIds: number[],
+    at: Date = new Date()
+  ): Promise<User | undefined> {
+    return this.executeWithErrorHandling('accept user invitation', async () => {
+      return await db!.transaction(async (tx) => {
+        const claimed = await tx.update(userInvitations)
+          .set({ acceptedAt: at, updatedAt: at })
+          .where(and(
+            eq(userInvitations.id, id),
+            isNull(userInvitations.acceptedAt),
+            isNull(userInvitations.revokedAt),
+            gt(userInvitations.expiresAt, at)
+          ));
+        if (!this.isOperationSuccessful(claimed.rowCount || 0)) {
+          return undefined;
+        }
+
+        const user = this.getFirstResult(await tx.insert(users).values(userData).returning())!;
+        await tx.update(userInvitations)
+          .set({ acceptedUserId: user.id })
+          .where(eq(userInvitations.id, id));
+
+        if (attributeValues.length > 0) {
+          await tx.insert(userAttributeValues).values(
+            attributeValues.map(({ attributeId, value }) => ({ userId: user.id, attributeId, value }))
+          );
+        }
+
+        if (roleIds.length > 0) {
+          await tx.insert(userRoles).values(roleIds.map(roleId => ({ userId: user.id, roleId })));
+        }
+
+        return user;
+      });
+    });
+  }
+
+  /**
+   * Cabut undangan yang belum diterima
+   * @param id - ID undangan
+   * @returns Promise<boolean> - true jika undangan berhasil dicabut
+   */
+  async revoke(id: number): Promise<boolean> {
+    return this.executeWithErrorHandling('revoke user invitation', async () => {
+      const now = new Date();
+      const result = await db!.update(userInvitations)
+        .set({ revokedAt: now, updatedAt: now })
+        .where(and(
+          eq(userInvitations.id, id),
+          isNull(userInvitations.acceptedAt),
+          isNull(userInvitations.revokedAt)
+        ));
+      return this.isOperationSuccessful(result.rowCount || 0);
+    });
+  }
+
+  /**
+   * Ganti token dan masa berlaku undangan yang belum diterima (kirim ulang undangan)
+   * Token lama otomatis tidak berlaku lagi
+   * @param id - ID undangan
+   * @param tokenHash - Hash token baru
+   * @param expiresAt - Masa berlaku baru
+   * @returns Promise<UserInvitation | undefined> - Undangan yang diperbarui
+   */
+  async renewToken(id: number, tokenHash: string, expiresAt: Date): Promise<UserInvitation | undefined> {
+    return this.executeWithErrorHandling('renew user invitation token', async () => {
+      const result = await db!.update(userInvitations)
+        .set({ tokenHash, expiresAt, updatedAt: new Date() })
+        .where(and(
+          eq(userInvitations.id, id),
+          isNull(userInvitations.acceptedAt),
+          isNull(userInvitations.revokedAt)
+        ))
+        .returning();
+      return this.getFirstResult(result);
+    });
+  }
+}
+
+// Export instance untuk backward compatibility
+export const userInvitationRepository = new UserInvitationRepository("UserInvitationRepository");
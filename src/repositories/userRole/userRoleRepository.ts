@@ -1,7 +1,7 @@
-import { eq, and, count } from "drizzle-orm";
+import { eq, and, or, count, inArray, isNull, isNotNull, lte, gt } from "drizzle-orm";
 import { db } from "@/db";
-import { userRoles, type UserRole, type NewUserRole } from "@/db/schema";
-import { BaseRepository, CrudRepository, CountableRepository } from "../base/baseRepository";
+import { userRoles, users, type UserRole, type NewUserRole } from "@/db/schema";
+import { BaseRepository, CrudRepository, CountableRepository, type DbTransaction } from "../base/baseRepository";
 
 /**
  * Repository untuk operasi CRUD user role (junction table)
@@ -42,6 +42,37 @@ export class UserRoleRepository extends BaseRepository implements CrudRepository
     });
   }
 
+  /**
+   * Mencari user role yang sedang berlaku untuk user
+   * Assignment berlaku jika valid_from sudah lewat (atau null) dan valid_until belum tercapai (atau null)
+   * @param userId - ID user yang dicari
+   * @param at - Waktu acuan (default: sekarang)
+   * @returns Promise<UserRole[]> - Array user role aktif milik user
+   */
+  async findActiveByUserId(userId: number, at: Date = new Date()): Promise<UserRole[]> {
+    return this.executeWithErrorHandling('find active user roles by user ID', async () => {
+      return await db!.select().from(userRoles).where(and(
+        eq(userRoles.userId, userId),
+        or(isNull(userRoles.validFrom), lte(userRoles.validFrom, at)),
+        or(isNull(userRoles.validUntil), gt(userRoles.validUntil, at))
+      ));
+    });
+  }
+
+  /**
+   * Mencari user role yang masa berlakunya sudah berakhir
+   * @param at - Waktu acuan (default: sekarang)
+   * @returns Promise<UserRole[]> - Array user role dengan valid_until <= waktu acuan
+   */
+  async findExpired(at: Date = new Date()): Promise<UserRole[]> {
+    return this.executeWithErrorHandling('find expired user roles', async () => {
+      return await db!.select().from(userRoles).where(and(
+        isNotNull(userRoles.validUntil),
+        lte(userRoles.validUntil, at)
+      ));
+    });
+  }
+
   /**
    * Mencari user role berdasarkan role ID
    * @param roleId - ID role yang dicari
@@ -53,6 +84,21 @@ export class UserRoleRepository extends BaseRepository implements CrudRepository
     });
   }
 
+  /**
+   * Mencari user role milik user dengan atribut ABAC department/region tertentu
+   * @param attribute - Kolom atribut user ('department' atau 'region')
+   * @param value - Nilai atribut
+   * @returns Promise<UserRole[]> - Array user role milik user yang cocok
+   */
+  async findByUserAttribute(attribute: 'department' | 'region', value: string): Promise<UserRole[]> {
+    return this.executeWithErrorHandling('find user roles by user attribute', async () => {
+      const result = await db!.select({ userRole: userRoles }).from(userRoles)
+        .innerJoin(users, eq(userRoles.userId, users.id))
+        .where(eq(users[attribute], value));
+      return result.map(row => row.userRole);
+    });
+  }
+
   /**
    * Mencari user role berdasarkan user ID dan role ID
    * @param userId - ID user
@@ -84,6 +130,77 @@ export class UserRoleRepository extends BaseRepository implements CrudRepository
     });
   }
 
+  /**
+   * Assign role ke user dalam satu transaksi yang mengunci row user dan assignment miliknya
+   * Perubahan role untuk user yang sama berjalan berurutan, sehingga pengecekan terhadap
+   * assignment saat ini tetap berlaku sampai row baru tersimpan
+   * @param userId - ID user
+   * @param assignments - Assignment baru (roleId dan masa berlaku)
+   * @param replaceExisting - true untuk menjadikan assignments satu-satunya role user: assignment role yang
+   *   tidak ada di daftar dihapus, assignment role yang tetap ada dipertahankan beserta masa berlakunya;
+   *   false untuk mengganti assignment role yang sama saja
+   * @param isAllowed - Dipanggil dengan assignment user yang sudah dikunci; false membatalkan perubahan
+   * @param claim - Opsional, dipanggil dalam transaksi yang sama sebelum assignment ditulis
+   *   (contoh: klaim access request pending); false membatalkan perubahan
+   * @returns Promise<UserRole[] | undefined> - Assignment yang dibuat (replaceExisting: seluruh assignment user),
+   *   undefined jika ditolak isAllowed atau claim
+   */
+  async assignLocked(
+    userId: number,
+    assignments: Omit<NewUserRole, 'userId'>[],
+    replaceExisting: boolean,
+    isAllowed: (currentAssignments: UserRole[]) => Promise<boolean>,
+    claim?: (tx: DbTransaction) => Promise<boolean>
+  ): Promise<UserRole[] | undefined> {
+    return this.executeWithErrorHandling('assign user roles', async () => {
+      return await db!.transaction(async (tx) => {
+        await tx.select({ id: users.id }).from(users).where(eq(users.id, userId)).for('update');
+        const currentAssignments = await tx.select().from(userRoles)
+          .where(eq(userRoles.userId, userId))
+          .for('update');
+
+        if (!(await isAllowed(currentAssignments))) {
+          return undefined;
+        }
+        if (claim && !(await claim(tx))) {
+          return undefined;
+        }
+
+        if (replaceExisting) {
+          const roleIds = new Set(assignments.map(assignment => assignment.roleId));
+          const retained = currentAssignments.filter(assignment => roleIds.has(assignment.roleId));
+          const removedIds = currentAssignments
+            .filter(assignment => !roleIds.has(assignment.roleId))
+            .map(assignment => assignment.id);
+          if (removedIds.length > 0) {
+            await tx.delete(userRoles).where(inArray(userRoles.id, removedIds));
+          }
+
+          const retainedRoleIds = new Set(retained.map(assignment => assignment.roleId));
+          const added = assignments.filter(assignment => !retainedRoleIds.has(assignment.roleId));
+          if (added.length === 0) {
+            return retained;
+          }
+          const inserted = await tx.insert(userRoles)
+            .values(added.map(assignment => ({ ...assignment, userId })))
+            .returning();
+          return [...retained, ...inserted];
+        }
+        if (assignments.length === 0) {
+          return [];
+        }
+
+        await tx.delete(userRoles).where(and(
+          eq(userRoles.userId, userId),
+          inArray(userRoles.roleId, assignments.map(assignment => assignment.roleId))
+        ));
+        return await tx.insert(userRoles)
+          .values(assignments.map(assignment => ({ ...assignment, userId })))
+          .returning();
+      });
+    });
+  }
+
   /**
    * Mengupdate data user role (tidak umum digunakan untuk junction table)
    * @param id - ID user role yang akan diupdate
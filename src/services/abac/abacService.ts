@@ -10,6 +10,9 @@
  * - PolicyManagementService: CRUD operations untuk policies
  * - UserAttributeService: Mengelola user ABAC attributes
  * - PolicyComparisonService: Logic perbandingan values dan operators
+ * - PolicyExpressionService: Expression tree policy dengan group AND/OR/NOT
+ * - AttributeDefinitionService: Registry custom user attributes
+ * - ResourceLoaderService: Loader attribute resource per feature
  * 
  * @deprecated Gunakan service individual dari folder abac untuk implementasi baru
  */
@@ -0,0 +1,366 @@
+import { BaseService } from "../base/baseService";
+import { ConflictError, NotFoundError, ValidationError } from "../../lib/errors/errorHandler";
+import { AttributeDefinitionRepository } from "../../repositories/attribute/attributeDefinitionRepository";
+import { createAttributeDefinitionSchema, updateAttributeDefinitionSchema } from "@/db/schema";
+import {
+  AbacOperator,
+  AbacAttributeValue,
+  AttributeDefinition,
+  AttributeType,
+  CreateAttributeDefinitionInput,
+  UpdateAttributeDefinitionInput,
+  UserAttribute,
+  UserAttributeValueInput
+} from "./types";
+
+/**
+ * Operator yang boleh dipakai untuk setiap tipe custom attribute
+ */
+const ORDERED_OPERATORS: AbacOperator[] = [
+  AbacOperator.EQUALS,
+  AbacOperator.NOT_EQUALS,
+  AbacOperator.GREATER_THAN,
+  AbacOperator.GREATER_THAN_OR_EQUAL,
+  AbacOperator.LESS_THAN,
+  AbacOperator.LESS_THAN_OR_EQUAL,
+  AbacOperator.IN
+];
+
+const OPERATORS_BY_TYPE: Record<AttributeType, AbacOperator[]> = {
+  string: [AbacOperator.EQUALS, AbacOperator.NOT_EQUALS, AbacOperator.IN, AbacOperator.CONTAINS],
+  number: ORDERED_OPERATORS,
+  boolean: [AbacOperator.EQUALS, AbacOperator.NOT_EQUALS],
+  date: ORDERED_OPERATORS,
+  list: [AbacOperator.EQUALS, AbacOperator.NOT_EQUALS, AbacOperator.IN]
+};
+
+/**
+ * Service untuk mengelola registry custom user attributes ABAC
+ * Bertanggung jawab untuk CRUD definisi attribute serta validasi, serialisasi, dan parsing nilainya
+ */
+export class AttributeDefinitionService extends BaseService {
+  constructor(private attributeDefinitionRepository: AttributeDefinitionRepository) {
+    super();
+  }
+
+  /**
+   * Ambil semua attribute definition
+   * @returns Promise<AttributeDefinition[]> - Array attribute definition
+   */
+  async getAllDefinitions(): Promise<AttributeDefinition[]> {
+    return this.executeWithErrorHandling(
+      'get all attribute definitions',
+      () => this.attributeDefinitionRepository.findAll()
+    );
+  }
+
+  /**
+   * Ambil attribute definition berdasarkan ID
+   * @param id - ID attribute definition
+   * @returns Promise<AttributeDefinition | null> - Attribute definition atau null jika tidak ditemukan
+   */
+  async getDefinitionById(id: number): Promise<AttributeDefinition | null> {
+    return this.executeWithErrorHandling(
+      'get attribute definition by ID',
+      async () => (await this.attributeDefinitionRepository.findById(id)) || null
+    );
+  }
+
+  /**
+   * Ambil attribute definition berdasarkan nama
+   * @param name - Nama attribute
+   * @returns Promise<AttributeDefinition | null> - Attribute definition atau null jika tidak ditemukan
+   */
+  async getDefinitionByName(name: string): Promise<AttributeDefinition | null> {
+    return this.executeWithErrorHandling(
+      'get attribute definition by name',
+      async () => (await this.attributeDefinitionRepository.findByName(name)) || null
+    );
+  }
+
+  /**
+   * Ambil semua attribute definition sebagai map nama -> definition
+   * @returns Promise<Map<string, AttributeDefinition>> - Map attribute definition
+   */
+  async getDefinitionMap(): Promise<Map<string, AttributeDefinition>> {
+    const definitions = await this.getAllDefinitions();
+    return new Map(definitions.map(definition => [definition.name, definition]));
+  }
+
+  /**
+   * Buat attribute definition baru
+   * @param input - Nama, tipe, allowed values, dan deskripsi attribute
+   * @returns Promise<AttributeDefinition> - Attribute definition yang dibuat
+   */
+  async createDefinition(input: CreateAttributeDefinitionInput): Promise<AttributeDefinition> {
+    return this.executeWithErrorHandling(
+      'create attribute definition',
+      async () => {
+        const validatedData = this.validateInput(createAttributeDefinitionSchema, input);
+
+        const existing = await this.attributeDefinitionRepository.findByName(validatedData.name);
+        if (existing) {
+          throw new ConflictError('Attribute', 'name', validatedData.name);
+        }
+
+        this.validateAllowedValues(validatedData.type, validatedData.allowedValues);
+
+        return await this.attributeDefinitionRepository.create({
+          name: validatedData.name,
+          type: validatedData.type,
+          allowedValues: validatedData.allowedValues ? JSON.stringify(validatedData.allowedValues) : null,
+          description: validatedData.description ?? null
+        });
+      }
+    );
+  }
+
+  /**
+   * Update attribute definition (nama tidak dapat diubah karena direferensikan policy)
+   * @param id - ID attribute definition
+   * @param input - Data yang akan diupdate
+   * @returns Promise<AttributeDefinition> - Attribute definition yang diupdate
+   */
+  async updateDefinition(id: number, input: UpdateAttributeDefinitionInput): Promise<AttributeDefinition> {
+    return this.executeWithErrorHandling(
+      'update attribute definition',
+      async () => {
+        const validatedData = this.validateInput(updateAttributeDefinitionSchema, input);
+
+        const existing = await this.attributeDefinitionRepository.findById(id);
+        if (!existing) {
+          throw new NotFoundError('Attribute', id);
+        }
+
+        const type = validatedData.type ?? (existing.type as AttributeType);
+        const allowedValues = validatedData.allowedValues !== undefined
+          ? validatedData.allowedValues
+          : this.getAllowedValues(existing);
+
+        this.validateAllowedValues(type, allowedValues);
+
+        const updated = await this.attributeDefinitionRepository.update(id, {
+          type,
+          allowedValues: allowedValues ? JSON.stringify(allowedValues) : null,
+          ...(validatedData.description !== undefined && { description: validatedData.description })
+        });
+
+        if (!updated) {
+          throw new Error('Failed to update attribute definition');
+        }
+
+        return updated;
+      }
+    );
+  }
+
+  /**
+   * Hapus attribute definition beserta seluruh nilai user-nya
+   * @param id - ID attribute definition
+   * @returns Promise<boolean> - true jika berhasil dihapus
+   */
+  async deleteDefinition(id: number): Promise<boolean> {
+    return this.executeWithErrorHandling(
+      'delete attribute definition',
+      async () => {
+        const existing = await this.attributeDefinitionRepository.findById(id);
+        if (!existing) {
+          throw new NotFoundError('Attribute', id);
+        }
+        return await this.attributeDefinitionRepository.delete(id);
+      }
+    );
+  }
+
+  /**
+   * Ambil allowed values dari definition
+   * @param definition - Attribute definition
+   * @returns string[] | null - Daftar nilai yang diperbolehkan atau null jika bebas
+   */
+  getAllowedValues(definition: AttributeDefinition): string[] | null {
+    if (!definition.allowedValues) {
+      return null;
+    }
+    try {
+      const parsed = JSON.parse(definition.allowedValues);
+      return Array.isArray(parsed) ? parsed.map(String) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Validasi nilai user untuk attribute lalu serialisasi ke text untuk disimpan
+   * @param definition - Attribute definition
+   * @param value - Nilai dari input API
+   * @returns string - Nilai yang siap disimpan
+   * @throws ValidationError jika nilai tidak sesuai tipe atau allowed values
+   */
+  serializeValue(definition: AttributeDefinition, value: Exclude<UserAttributeValueInput, null>): string {
+    const allowedValues = this.getAllowedValues(definition);
+    const invalid = (reason: string) =>
+      new ValidationError(`Nilai attribute '${definition.name}' tidak valid: ${reason}`);
+
+    switch (definition.type as AttributeType) {
+      case "string":
+        if (typeof value !== "string" || value.length === 0) {
+          throw invalid("harus berupa string");
+        }
+        if (allowedValues && !allowedValues.includes(value)) {
+          throw invalid(`harus salah satu dari ${allowedValues.join(", ")}`);
+        }
+        return value;
+
+      case "number": {
+        const numberValue = typeof value === "string" ? Number(value) : value;
+        if (typeof numberValue !== "number" || isNaN(numberValue)) {
+          throw invalid("harus berupa angka");
+        }
+        if (allowedValues && !allowedValues.includes(String(numberValue))) {
+          throw invalid(`harus salah satu dari ${allowedValues.join(", ")}`);
+        }
+        return String(numberValue);
+      }
+
+      case "boolean":
+        if (typeof value !== "boolean") {
+          throw invalid("harus berupa boolean");
+        }
+        return String(value);
+
+      case "date":
+        if (typeof value !== "string" || isNaN(Date.parse(value))) {
+          throw invalid("harus berupa tanggal ISO (contoh: 2025-01-31)");
+        }
+        return value;
+
+      case "list": {
+        if (!Array.isArray(value)) {
+          throw invalid("harus berupa array string");
+        }
+        const notAllowed = allowedValues ? value.filter(item => !allowedValues.includes(item)) : [];
+        if (notAllowed.length > 0) {
+          throw invalid(`nilai ${notAllowed.join(", ")} tidak diperbolehkan`);
+        }
+        return JSON.stringify(value);
+      }
+
+      default:
+        throw invalid(`tipe '${definition.type}' tidak dikenal`);
+    }
+  }
+
+  /**
+   * Parse nilai tersimpan menjadi nilai sesuai tipe attribute
+   * @param definition - Attribute definition
+   * @param storedValue - Nilai text dari database
+   * @returns AbacAttributeValue | null - Nilai yang sudah di-parse atau null jika rusak
+   */
+  parseValue(definition: AttributeDefinition, storedValue: string): AbacAttributeValue | null {
+    switch (definition.type as AttributeType) {
+      case "number": {
+        const numberValue = Number(storedValue);
+        return isNaN(numberValue) ? null : numberValue;
+      }
+      case "boolean":
+        return storedValue === "true";
+      case "list":
+        try {
+          const parsed = JSON.parse(storedValue);
+          return Array.isArray(parsed) ? parsed.map(String) : null;
+        } catch {
+          return null;
+        }
+      default:
+        return storedValue;
+    }
+  }
+
+  /**
+   * Validasi condition policy yang mereferensikan custom attribute
+   * @param definition - Attribute definition
+   * @param operator - Operator policy
+   * @param value - Value policy
+   * @throws ValidationError jika operator atau value tidak cocok dengan tipe attribute
+   */
+  validatePolicyCondition(definition: AttributeDefinition, operator: string, value: string): void {
+    const type = definition.type as AttributeType;
+    const supportedOperators = OPERATORS_BY_TYPE[type] || [];
+
+    if (!supportedOperators.includes(operator as AbacOperator)) {
+      throw new ValidationError(
+        `Operator '${operator}' tidak dapat digunakan untuk attribute '${definition.name}' bertipe ${type}. ` +
+        `Operator yang didukung: ${supportedOperators.join(', ')}`
+      );
+    }
+
+    const values = operator === AbacOperator.IN ? this.parseJsonArray(value) : [value];
+    const allowedValues = this.getAllowedValues(definition);
+
+    for (const item of values) {
+      if (type === "number" && isNaN(Number(item))) {
+        throw new ValidationError(`Value '${item}' untuk attribute '${definition.name}' harus berupa angka`);
+      }
+      if (type === "boolean" && item !== "true" && item !== "false") {
+        throw new ValidationError(`Value '${item}' untuk attribute '${definition.name}' harus 'true' atau 'false'`);
+      }
+      if (type === "date" && isNaN(Date.parse(item))) {
+        throw new ValidationError(`Value '${item}' untuk attribute '${definition.name}' harus berupa tanggal ISO`);
+      }
+      if (allowedValues && (type === "string" || type === "list") && !allowedValues.includes(item)) {
+        throw new ValidationError(
+          `Value '${item}' untuk attribute '${definition.name}' harus salah satu dari ${allowedValues.join(', ')}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Cek apakah nama attribute adalah attribute bawaan pada tabel users
+   * @param name - Nama attribute
+   * @returns boolean - true jika attribute bawaan
+   */
+  isBuiltInAttribute(name: string): boolean {
+    return Object.values(UserAttribute).includes(name as UserAttribute);
+  }
+
+  /**
+   * Validasi allowed values terhadap tipe attribute
+   * @param type - Tipe attribute
+   * @param allowedValues - Daftar allowed values
+   * @throws ValidationError jika allowed values tidak cocok dengan tipe
+   */
+  private validateAllowedValues(type: AttributeType, allowedValues?: string[] | null): void {
+    if (!allowedValues) {
+      return;
+    }
+    if (type === "boolean" || type === "date") {
+      throw new ValidationError(`Allowed values tidak didukung untuk tipe ${type}`);
+    }
+    if (type === "number" && allowedValues.some(item => isNaN(Number(item)))) {
+      throw new ValidationError("Allowed values untuk tipe number harus berupa angka");
+    }
+  }
+
+  /**
+   * Parse value policy untuk operator 'in'
+   * @param value - JSON array string
+   * @returns string[] - Array nilai
+   */
+  private parseJsonArray(value: string): string[] {
+    try {
+      const parsed = JSON.parse(value);
+      if (Array.isArray(parsed)) {
+        return parsed.map(String);
+      }
+    } catch {
+      // Ditangani di bawah
+    }
+    throw new ValidationError(`Value untuk operator 'in' harus berupa JSON array: ${value}`);
+  }
+}
+
+// Export instance untuk digunakan di service lain
+export const attributeDefinitionService = new AttributeDefinitionService(
+  new AttributeDefinitionRepository('AttributeDefinitionRepository')
+);
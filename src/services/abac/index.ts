@@ -13,21 +13,36 @@ export { policyEvaluationService } from './policyEvaluationService';
 export { policyManagementService } from './policyManagementService';
 export { userAttributeService } from './userAttributeService';
 export { policyComparisonService } from './policyComparisonService';
+export { policyExpressionService } from './policyExpressionService';
+export { attributeDefinitionService } from './attributeDefinitionService';
+export { resourceLoaderService } from './resourceLoaderService';
+export { shadowPolicyReportService } from './shadowPolicyReportService';
+export { policyVersionService } from './policyVersionService';
 
 // Export service classes untuk advanced usage
 export { PolicyEvaluationService } from './policyEvaluationService';
 export { PolicyManagementService } from './policyManagementService';
 export { UserAttributeService } from './userAttributeService';
 export { PolicyComparisonService } from './policyComparisonService';
+export { PolicyExpressionService } from './policyExpressionService';
+export { AttributeDefinitionService } from './attributeDefinitionService';
+export { ResourceLoaderService } from './resourceLoaderService';
+export { ShadowPolicyReportService } from './shadowPolicyReportService';
+export { PolicyVersionService } from './policyVersionService';
 
 // Import services untuk backward compatibility
 import { policyEvaluationService } from './policyEvaluationService';
 import { policyManagementService } from './policyManagementService';
 import { userAttributeService } from './userAttributeService';
 import { policyComparisonService } from './policyComparisonService';
+import { shadowPolicyReportService } from './shadowPolicyReportService';
+import { policyVersionService } from './policyVersionService';
 import type { 
   PolicyEvaluationResult,
   PolicyCreateInput,
+  PolicyExpression,
+  PolicyEnforcementMode,
+  VersionChangeMeta,
   UserAttributesUpdateInput,
   UserAttribute,
   AbacOperator,
@@ -86,15 +101,75 @@ export class AbacService {
   /**
    * Membuat policy baru
    */
-  async createPolicy(input: PolicyCreateInput) {
-    return await policyManagementService.createPolicy(input);
+  async createPolicy(input: PolicyCreateInput, meta?: VersionChangeMeta) {
+    return await policyManagementService.createPolicy(input, meta);
+  }
+
+  /**
+   * Membuat policy baru berupa expression tree (group AND/OR/NOT)
+   */
+  async createPolicyExpression(input: {
+    featureId: number;
+    expression: PolicyExpression;
+    enforcementMode?: PolicyEnforcementMode;
+  }, meta?: VersionChangeMeta) {
+    return await policyManagementService.createPolicyExpression(input, meta);
+  }
+
+  /**
+   * Mengganti expression tree policy
+   */
+  async updatePolicyExpression(policyId: number, expression: PolicyExpression, meta?: VersionChangeMeta) {
+    return await policyManagementService.updatePolicyExpression(policyId, expression, meta);
+  }
+
+  /**
+   * Mengubah enforcement mode policy (enforce, audit, disabled)
+   */
+  async updatePolicyEnforcementMode(policyId: number, enforcementMode: PolicyEnforcementMode, adminUserId: number, comment?: string) {
+    return await policyManagementService.updateEnforcementMode(policyId, enforcementMode, adminUserId, comment);
+  }
+
+  /**
+   * Mendapatkan laporan shadow violation policy mode audit
+   */
+  async getShadowPolicyReport(days?: number) {
+    return await shadowPolicyReportService.getReport(days);
+  }
+
+  /**
+   * Mendapatkan policy beserta expression tree-nya
+   */
+  async getPolicyWithExpression(policyId: number) {
+    return await policyManagementService.getPolicyWithExpression(policyId);
   }
 
   /**
    * Menghapus policy
    */
-  async deletePolicy(policyId: number): Promise<boolean> {
-    return await policyManagementService.deletePolicy(policyId);
+  async deletePolicy(policyId: number, meta?: VersionChangeMeta): Promise<boolean> {
+    return await policyManagementService.deletePolicy(policyId, meta);
+  }
+
+  /**
+   * Mendapatkan history versi policy beserta diff antar versi
+   */
+  async getPolicyVersions(policyId: number) {
+    return await policyVersionService.getHistory(policyId);
+  }
+
+  /**
+   * Mendapatkan satu versi policy
+   */
+  async getPolicyVersion(policyId: number, version: number) {
+    return await policyVersionService.getVersion(policyId, version);
+  }
+
+  /**
+   * Mengembalikan policy ke versi sebelumnya
+   */
+  async rollbackPolicy(policyId: number, version: number, adminUserId: number, comment?: string) {
+    return await policyManagementService.rollbackPolicy(policyId, version, adminUserId, comment);
   }
 
   /**
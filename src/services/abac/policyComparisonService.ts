@@ -1,5 +1,15 @@
 import { BaseService } from "../base/baseService";
-import { AbacOperator, UserAttribute, ComparisonResult, User } from "./types";
+import { matchIp } from "@/lib/http/clientIp";
+import {
+  AbacOperator,
+  UserAttribute,
+  ContextAttribute,
+  AttributeScope,
+  ATTRIBUTE_REFERENCE_PREFIX,
+  ComparisonResult,
+  AbacSubject,
+  AbacAttributeValue
+} from "./types";
 
 /**
  * Service untuk melakukan perbandingan values dalam ABAC policies
@@ -12,11 +22,22 @@ export class PolicyComparisonService extends BaseService {
 
   /**
    * Ambil nilai attribute dari user
-   * @param user - User object
+   * @param user - User object (atau subject lain dengan ABAC attributes)
    * @param attribute - Nama attribute
-   * @returns string | number | null - Nilai attribute atau null jika tidak ada
+   * @returns AbacAttributeValue | null - Nilai attribute bawaan atau custom, null jika tidak ada
    */
-  getUserAttributeValue(user: User, attribute: string): string | number | null {
+  getUserAttributeValue(user: AbacSubject, attribute: string): AbacAttributeValue | null {
+    // Attribute resource yang sedang diakses
+    if (attribute.startsWith(AttributeScope.RESOURCE)) {
+      return user.resource?.[attribute.slice(AttributeScope.RESOURCE.length)] ?? null;
+    }
+
+    // Prefix 'user.' eksplisit, 'user.id' merujuk ke ID user yang mengakses
+    if (attribute.startsWith(AttributeScope.USER)) {
+      const name = attribute.slice(AttributeScope.USER.length);
+      return name === 'id' ? user.id ?? null : this.getUserAttributeValue(user, name);
+    }
+
     switch (attribute) {
       case UserAttribute.DEPARTMENT:
         return user.department;
@@ -24,25 +45,89 @@ export class PolicyComparisonService extends BaseService {
         return user.region;
       case UserAttribute.LEVEL:
         return user.level;
+      case ContextAttribute.TIME_OF_DAY:
+        return user.context?.timeOfDay ?? null;
+      case ContextAttribute.DAY_OF_WEEK:
+        return user.context?.dayOfWeek ?? null;
+      case ContextAttribute.IP:
+        return user.context?.ip ?? null;
+      case ContextAttribute.USER_AGENT:
+        return user.context?.userAgent ?? null;
+      case ContextAttribute.METHOD:
+        return user.context?.method ?? null;
       default:
-        console.warn(`Unknown attribute: ${attribute}`);
-        return null;
+        // Custom attribute dari registry; null jika user belum memiliki nilai
+        return user.attributes?.[attribute] ?? null;
     }
   }
 
+  /**
+   * Ambil nama attribute jika policy value berupa referensi (contoh: $user.department)
+   * @param value - Policy value
+   * @returns string | null - Nama attribute yang direferensikan atau null jika value literal
+   */
+  parseAttributeReference(value: string): string | null {
+    if (!value.startsWith(ATTRIBUTE_REFERENCE_PREFIX)) {
+      return null;
+    }
+    const reference = value.slice(ATTRIBUTE_REFERENCE_PREFIX.length);
+    return /^(user|context|resource)\.[a-z][a-z0-9_]*$/.test(reference) ? reference : null;
+  }
+
+  /**
+   * Resolve policy value: value literal dikembalikan apa adanya,
+   * referensi attribute diganti dengan nilai attribute dari subject
+   * @param subject - Subject dengan attribute user, context, dan resource
+   * @param value - Policy value
+   * @returns string | null - Value siap dibandingkan atau null jika attribute referensi tidak tersedia
+   */
+  resolvePolicyValue(subject: AbacSubject, value: string): string | null {
+    const reference = this.parseAttributeReference(value);
+    if (!reference) {
+      return value;
+    }
+
+    const resolved = this.getUserAttributeValue(subject, reference);
+    if (resolved === null || resolved === undefined) {
+      return null;
+    }
+
+    return Array.isArray(resolved) ? JSON.stringify(resolved) : String(resolved);
+  }
+
+  /**
+   * Cek apakah attribute atau value policy merujuk ke resource
+   * @param attributeOrValue - Attribute atau value policy
+   * @returns boolean - true jika merujuk ke attribute resource
+   */
+  referencesResource(attributeOrValue: string): boolean {
+    const name = this.parseAttributeReference(attributeOrValue) ?? attributeOrValue;
+    return name.startsWith(AttributeScope.RESOURCE);
+  }
+
   /**
    * Bandingkan nilai user dengan policy value menggunakan operator
    * @param userValue - Nilai attribute user
    * @param operator - Operator perbandingan
    * @param policyValue - Nilai dari policy
+   * @param attribute - Nama attribute (opsional, untuk perbandingan khusus seperti CIDR pada context.ip)
    * @returns ComparisonResult - Hasil perbandingan dengan status dan error handling
    */
   compareValues(
-    userValue: string | number | null,
+    userValue: AbacAttributeValue | null,
     operator: string,
-    policyValue: string
+    policyValue: string,
+    attribute?: string
   ): ComparisonResult {
     try {
+      if (Array.isArray(userValue)) {
+        return this.compareListValues(userValue, operator, policyValue);
+      }
+
+      if (attribute === ContextAttribute.IP && typeof userValue === 'string') {
+        return this.compareIpValues(userValue, operator, policyValue);
+      }
+
       switch (operator) {
         case AbacOperator.EQUALS:
           return {
@@ -70,6 +155,12 @@ export class PolicyComparisonService extends BaseService {
         
         case AbacOperator.IN:
           return this.compareInOperator(userValue, policyValue);
+
+        case AbacOperator.CONTAINS:
+          return {
+            success: true,
+            result: String(userValue).toLowerCase().includes(policyValue.toLowerCase())
+          };
         
         default:
           return {
@@ -85,20 +176,94 @@ export class PolicyComparisonService extends BaseService {
     }
   }
 
+  /**
+   * Perbandingan untuk attribute bertipe list
+   * '==' berarti list memuat value, '!=' berarti tidak memuat,
+   * 'in' berarti list beririsan dengan JSON array dari policy
+   * @param userValues - Nilai list user
+   * @param operator - Operator perbandingan
+   * @param policyValue - Nilai dari policy
+   * @returns ComparisonResult
+   */
+  private compareListValues(
+    userValues: string[],
+    operator: string,
+    policyValue: string
+  ): ComparisonResult {
+    switch (operator) {
+      case AbacOperator.EQUALS:
+      case AbacOperator.CONTAINS:
+        return { success: true, result: userValues.includes(policyValue) };
+      case AbacOperator.NOT_EQUALS:
+        return { success: true, result: !userValues.includes(policyValue) };
+      case AbacOperator.IN: {
+        const allowedValues = JSON.parse(policyValue);
+        if (!Array.isArray(allowedValues)) {
+          return {
+            success: false,
+            error: `Policy value untuk operator 'in' harus berupa array: ${policyValue}`
+          };
+        }
+        return {
+          success: true,
+          result: userValues.some(value => allowedValues.map(String).includes(value))
+        };
+      }
+      default:
+        return {
+          success: false,
+          error: `Operator '${operator}' tidak didukung untuk attribute bertipe list`
+        };
+    }
+  }
+
+  /**
+   * Perbandingan untuk context.ip
+   * Policy value boleh berupa IP tunggal atau CIDR (contoh: 10.0.0.0/8), untuk 'in' berupa JSON array
+   * @param ip - IP client
+   * @param operator - Operator perbandingan
+   * @param policyValue - Nilai dari policy
+   * @returns ComparisonResult
+   */
+  private compareIpValues(ip: string, operator: string, policyValue: string): ComparisonResult {
+    switch (operator) {
+      case AbacOperator.EQUALS:
+        return { success: true, result: matchIp(ip, policyValue) };
+      case AbacOperator.NOT_EQUALS:
+        return { success: true, result: !matchIp(ip, policyValue) };
+      case AbacOperator.IN: {
+        const ranges = JSON.parse(policyValue);
+        if (!Array.isArray(ranges)) {
+          return {
+            success: false,
+            error: `Policy value untuk operator 'in' harus berupa array: ${policyValue}`
+          };
+        }
+        return { success: true, result: ranges.some(range => matchIp(ip, String(range))) };
+      }
+      default:
+        return {
+          success: false,
+          error: `Operator '${operator}' tidak didukung untuk context.ip`
+        };
+    }
+  }
+
   /**
    * Perbandingan numerik dengan function comparator
+   * Nilai tanggal (ISO string) dibandingkan berdasarkan timestamp, jam (HH:mm) berdasarkan menit
    * @param userValue - Nilai user
    * @param policyValue - Nilai policy
    * @param compareFn - Function untuk perbandingan
    * @returns ComparisonResult
    */
   private compareNumericValues(
-    userValue: string | number | null,
+    userValue: AbacAttributeValue | null,
     policyValue: string,
     compareFn: (a: number, b: number) => boolean
   ): ComparisonResult {
-    const userNum = Number(userValue);
-    const policyNum = Number(policyValue);
+    const userNum = this.toComparableNumber(userValue);
+    const policyNum = this.toComparableNumber(policyValue);
     
     if (isNaN(userNum) || isNaN(policyNum)) {
       return {
@@ -113,6 +278,23 @@ export class PolicyComparisonService extends BaseService {
     };
   }
 
+  /**
+   * Konversi nilai ke angka untuk perbandingan, dengan fallback tanggal
+   * @param value - Nilai yang akan dikonversi
+   * @returns number - Angka atau NaN jika tidak dapat dibandingkan
+   */
+  private toComparableNumber(value: AbacAttributeValue | null): number {
+    if (value === null || typeof value === 'boolean' || Array.isArray(value)) {
+      return NaN;
+    }
+    const timeMatch = /^(\d{1,2}):(\d{2})$/.exec(String(value));
+    if (timeMatch) {
+      return Number(timeMatch[1]) * 60 + Number(timeMatch[2]);
+    }
+    const num = Number(value);
+    return isNaN(num) ? Date.parse(String(value)) : num;
+  }
+
   /**
    * Perbandingan untuk operator 'in' (array membership)
    * @param userValue - Nilai user
@@ -120,7 +302,7 @@ export class PolicyComparisonService extends BaseService {
    * @returns ComparisonResult
    */
   private compareInOperator(
-    userValue: string | number | null,
+    userValue: AbacAttributeValue | null,
     policyValue: string
   ): ComparisonResult {
     try {
@@ -135,7 +317,7 @@ export class PolicyComparisonService extends BaseService {
       
       return {
         success: true,
-        result: allowedValues.includes(String(userValue))
+        result: allowedValues.map(String).includes(String(userValue))
       };
     } catch (parseError) {
       return {
@@ -155,7 +337,8 @@ export class PolicyComparisonService extends BaseService {
   }
 
   /**
-   * Validasi apakah attribute yang diberikan valid
+   * Validasi apakah attribute yang diberikan merupakan attribute bawaan
+   * Custom attribute divalidasi terhadap registry oleh AttributeDefinitionService
    * @param attribute - Attribute yang akan divalidasi
    * @returns boolean - true jika attribute valid
    */
@@ -163,6 +346,23 @@ export class PolicyComparisonService extends BaseService {
     return Object.values(UserAttribute).includes(attribute as UserAttribute);
   }
 
+  /**
+   * Cek apakah attribute merupakan context attribute (environment/request)
+   * @param attribute - Attribute yang akan dicek
+   * @returns boolean - true jika context attribute
+   */
+  isContextAttribute(attribute: string): boolean {
+    return Object.values(ContextAttribute).includes(attribute as ContextAttribute);
+  }
+
+  /**
+   * Get daftar semua context attribute yang didukung
+   * @returns string[] - Array context attribute
+   */
+  getSupportedContextAttributes(): string[] {
+    return Object.values(ContextAttribute);
+  }
+
   /**
    * Get daftar semua operator yang didukung
    * @returns string[] - Array operator yang didukung
@@ -3,10 +3,19 @@ import { ValidationService } from "../../lib/validation/validator";
 import { PolicyRepository } from "../../repositories/policy/policyRepository";
 import { UserRepository } from "../../repositories/user/userRepository";
 import { PolicyComparisonService } from "./policyComparisonService";
+import { PolicyExpressionService } from "./policyExpressionService";
+import { UserAttributeService, userAttributeService } from "./userAttributeService";
+import { PolicyViolationService, policyViolationService } from "../audit/policyViolationService";
 import {
+  AbacRequestContext,
+  AbacResource,
+  AbacSubject,
   Policy,
-  User,
+  PolicyEnforcementMode,
+  PolicyWithExpression,
+  ExpressionEvaluationResult,
   PolicyEvaluationResult,
+  PolicyEvaluationTrace,
   ValidatedPolicyEvaluationInput,
   policyEvaluationSchema
 } from "./types";
@@ -19,7 +28,9 @@ export class PolicyEvaluationService extends BaseService {
   constructor(
     private policyRepository: PolicyRepository,
     private userRepository: UserRepository,
-    private policyComparisonService: PolicyComparisonService,
+    private policyExpressionService: PolicyExpressionService,
+    private userAttributeService: UserAttributeService,
+    private policyViolationService: PolicyViolationService,
     private validationService: ValidationService
   ) {
     super();
@@ -29,9 +40,16 @@ export class PolicyEvaluationService extends BaseService {
    * Evaluasi semua policies untuk feature tertentu berdasarkan user attributes
    * @param userId - ID user yang akan dievaluasi
    * @param featureId - ID feature yang akan diakses
+   * @param context - Context request (waktu, IP, user agent, method) untuk attribute context.*
+   * @param resource - Attribute resource yang diakses untuk attribute resource.*
    * @returns Promise<boolean> - true jika semua policies terpenuhi
    */
-  async evaluatePolicies(userId: number, featureId: number): Promise<boolean> {
+  async evaluatePolicies(
+    userId: number,
+    featureId: number,
+    context?: AbacRequestContext,
+    resource?: AbacResource
+  ): Promise<boolean> {
     return this.executeWithErrorHandling(
       'evaluate ABAC policies',
       async () => {
@@ -56,13 +74,16 @@ export class PolicyEvaluationService extends BaseService {
           return true;
         }
 
-        // Evaluasi setiap policy
-        for (const policy of featurePolicies) {
-          const isValid = this.evaluatePolicy(user, policy);
-          if (!isValid) {
+        // Gabungkan attribute bawaan, custom attribute user, context request, dan resource
+        const subject = { ...(await this.userAttributeService.getAbacSubject(user)), context, resource };
+
+        // Evaluasi setiap root policy (termasuk group AND/OR/NOT di dalamnya)
+        // Policy mode audit tidak ikut menentukan keputusan
+        for (const { policy, result } of this.evaluateRootPolicies(subject, featurePolicies)) {
+          if (!result.isValid && policy.enforcementMode === "enforce") {
             console.warn(
               `Policy gagal untuk user ${validatedInput.userId}, feature ${validatedInput.featureId}: ` +
-              `${policy.attribute} ${policy.operator} ${policy.value}`
+              this.policyExpressionService.describe(policy.expression)
             );
             return false;
           }
@@ -77,11 +98,15 @@ export class PolicyEvaluationService extends BaseService {
    * Evaluasi semua policies dengan detail hasil untuk debugging
    * @param userId - ID user yang akan dievaluasi
    * @param featureId - ID feature yang akan diakses
+   * @param context - Context request (waktu, IP, user agent, method) untuk attribute context.*
+   * @param resource - Attribute resource yang diakses untuk attribute resource.*
    * @returns Promise<PolicyEvaluationResult> - Hasil evaluasi dengan detail
    */
   async evaluatePoliciesWithDetails(
     userId: number,
-    featureId: number
+    featureId: number,
+    context?: AbacRequestContext,
+    resource?: AbacResource
   ): Promise<PolicyEvaluationResult> {
     return this.executeWithErrorHandling(
       'evaluate ABAC policies with details',
@@ -116,93 +141,191 @@ export class PolicyEvaluationService extends BaseService {
         }
 
         const failedPolicies: PolicyEvaluationResult['failedPolicies'] = [];
+        const failedConditions: PolicyEvaluationResult['failedConditions'] = [];
+        const shadowFailedConditions: PolicyEvaluationResult['shadowFailedConditions'] = [];
+        const subject = { ...(await this.userAttributeService.getAbacSubject(user)), context, resource };
 
-        // Evaluasi setiap policy
-        for (const policy of featurePolicies) {
-          const evaluationResult = this.evaluatePolicyWithDetails(user, policy);
-          if (!evaluationResult.isValid) {
+        // Evaluasi setiap root policy; kegagalan policy mode audit hanya dikumpulkan sebagai shadow
+        for (const { policy, result } of this.evaluateRootPolicies(subject, featurePolicies)) {
+          if (result.isValid) continue;
+
+          if (policy.enforcementMode === "audit") {
+            shadowFailedConditions.push(...result.failedConditions);
+            continue;
+          }
+
+          failedConditions.push(...result.failedConditions);
+          const reason = result.failedConditions.map(condition => condition.reason).join("; ");
+
+          if (policy.expression.type === "condition") {
+            failedPolicies!.push({
+              policyId: policy.id,
+              attribute: policy.expression.attribute,
+              operator: policy.expression.operator,
+              value: policy.expression.value,
+              reason: reason || "Policy tidak terpenuhi"
+            });
+          } else {
             failedPolicies!.push({
               policyId: policy.id,
-              attribute: policy.attribute,
-              operator: policy.operator,
-              value: policy.value,
-              reason: evaluationResult.reason || "Policy tidak terpenuhi"
+              attribute: "group",
+              operator: policy.expression.combinator,
+              value: this.policyExpressionService.describe(policy.expression),
+              reason: reason || "Policy group tidak terpenuhi"
             });
           }
         }
 
         return {
           isValid: failedPolicies.length === 0,
-          failedPolicies: failedPolicies.length > 0 ? failedPolicies : undefined
+          failedPolicies: failedPolicies.length > 0 ? failedPolicies : undefined,
+          failedConditions: failedConditions.length > 0 ? failedConditions : undefined,
+          shadowFailedConditions: shadowFailedConditions.length > 0 ? shadowFailedConditions : undefined
         };
       }
     );
   }
 
   /**
-   * Evaluasi single policy berdasarkan user attributes
-   * @param user - User object dengan attributes
-   * @param policy - Policy yang akan dievaluasi
-   * @returns boolean - true jika policy terpenuhi
+   * Evaluasi policies untuk request yang sedang berjalan dan catat pelanggaran ke policy_violations
+   * Penolakan dari policy mode audit dicatat dengan shadow = true tanpa memblokir akses
+   * @param userId - ID user yang akan dievaluasi
+   * @param featureId - ID feature yang akan diakses
+   * @param context - Context request dari middleware
+   * @param resource - Attribute resource yang diakses (jika route menyediakan resource loader)
+   * @returns Promise<PolicyEvaluationResult> - Hasil evaluasi dengan detail
    */
-  private evaluatePolicy(user: User, policy: Policy): boolean {
-    const userValue = this.policyComparisonService.getUserAttributeValue(user, policy.attribute);
-    
-    // Jika user tidak memiliki attribute yang diperlukan, policy gagal
-    if (userValue === null || userValue === undefined) {
-      return false;
-    }
+  async evaluateRequestPolicies(
+    userId: number,
+    featureId: number,
+    context: AbacRequestContext,
+    resource?: AbacResource
+  ): Promise<PolicyEvaluationResult> {
+    const result = await this.evaluatePoliciesWithDetails(userId, featureId, context, resource);
+    const violations = [
+      ...(result.failedConditions ?? []).map(condition => ({ condition, shadow: false })),
+      ...(result.shadowFailedConditions ?? []).map(condition => ({ condition, shadow: true }))
+    ];
 
-    const comparisonResult = this.policyComparisonService.compareValues(
-      userValue,
-      policy.operator,
-      policy.value
-    );
+    for (const { condition, shadow } of violations) {
+      if (!condition.policyId) continue;
+
+      try {
+        await this.policyViolationService.logPolicyViolation({
+          userId,
+          featureId,
+          policyId: condition.policyId,
+          attribute: condition.attribute,
+          expectedValue: `${condition.operator} ${condition.value}`.trim(),
+          actualValue: condition.actualValue ?? null,
+          reason: condition.reason,
+          shadow
+        });
+      } catch (error) {
+        // Kegagalan logging tidak boleh mengubah keputusan akses
+        console.error('Failed to log policy violation:', error);
+      }
+    }
 
-    return comparisonResult.success && comparisonResult.result === true;
+    return result;
   }
 
   /**
-   * Evaluasi single policy dengan detail hasil
-   * @param user - User object dengan attributes
-   * @param policy - Policy yang akan dievaluasi
-   * @returns object - Hasil evaluasi dengan detail
+   * Jelaskan evaluasi semua policies feature: hasil setiap root policy dan setiap kondisinya
+   * Memakai evaluasi root policy yang sama dengan middleware, tetapi tidak mencatat policy_violations
+   * @param userId - ID user yang akan dievaluasi
+   * @param featureId - ID feature yang akan diakses
+   * @param context - Context request untuk attribute context.*
+   * @param resource - Attribute resource untuk attribute resource.* (opsional)
+   * @returns Promise<PolicyEvaluationTrace> - Keputusan ABAC beserta jejak per policy
    */
-  private evaluatePolicyWithDetails(
-    user: User,
-    policy: Policy
-  ): { isValid: boolean; reason?: string } {
-    const userValue = this.policyComparisonService.getUserAttributeValue(user, policy.attribute);
-    
-    // Jika user tidak memiliki attribute yang diperlukan, policy gagal
-    if (userValue === null || userValue === undefined) {
-      return {
-        isValid: false,
-        reason: `User tidak memiliki attribute '${policy.attribute}'`
-      };
-    }
+  async explainPolicies(
+    userId: number,
+    featureId: number,
+    context?: AbacRequestContext,
+    resource?: AbacResource
+  ): Promise<PolicyEvaluationTrace> {
+    return this.executeWithErrorHandling(
+      'explain ABAC policies',
+      async () => {
+        const validatedInput = this.validateInput(policyEvaluationSchema, {
+          userId,
+          featureId
+        });
 
-    const comparisonResult = this.policyComparisonService.compareValues(
-      userValue,
-      policy.operator,
-      policy.value
-    );
+        const user = await this.userRepository.findById(validatedInput.userId);
+        if (!user) {
+          return { isValid: false, policies: [] };
+        }
 
-    if (!comparisonResult.success) {
-      return {
-        isValid: false,
-        reason: comparisonResult.error || "Error dalam perbandingan nilai"
-      };
-    }
+        const featurePolicies = await this.policyRepository.findByFeatureId(validatedInput.featureId);
+        const subject = { ...(await this.userAttributeService.getAbacSubject(user)), context, resource };
+        const evaluated = new Map(
+          this.evaluateRootPolicies(subject, featurePolicies).map(({ policy, result }) => [policy.id, result])
+        );
 
-    if (comparisonResult.result !== true) {
-      return {
-        isValid: false,
-        reason: `Nilai user '${userValue}' tidak memenuhi kondisi '${policy.operator} ${policy.value}'`
-      };
-    }
+        const policies = this.policyExpressionService.buildExpressionTrees(featurePolicies).map(policy => {
+          const result = evaluated.get(policy.id);
+          return {
+            policyId: policy.id,
+            description: this.policyExpressionService.describe(policy.expression),
+            enforcementMode: policy.enforcementMode as PolicyEnforcementMode,
+            skipped: !result,
+            passed: result?.isValid ?? true,
+            trace: this.policyExpressionService.explain(subject, policy.expression)
+          };
+        });
+
+        return {
+          isValid: policies.every(policy => policy.passed || policy.enforcementMode !== "enforce"),
+          policies
+        };
+      }
+    );
+  }
 
-    return { isValid: true };
+  /**
+   * Evaluasi root policies satu feature
+   * Setiap root policy harus terpenuhi (AND), isi root bisa berupa group AND/OR/NOT
+   * Root policy yang merujuk resource.* tanpa resource (route yang tidak menyediakan resource,
+   * lihat ResourceLoaderService) bernilai indeterminate sehingga berakhir deny
+   * Policy disabled tidak dievaluasi; hasil policy audit dipisahkan oleh pemanggil lewat enforcementMode
+   * @param subject - Attribute bawaan dan custom milik user
+   * @param featurePolicies - Semua row policies untuk feature
+   * @returns Array hasil evaluasi per root policy
+   */
+  private evaluateRootPolicies(
+    subject: AbacSubject,
+    featurePolicies: Policy[]
+  ): { policy: PolicyWithExpression; result: ExpressionEvaluationResult }[] {
+    return this.policyExpressionService
+      .buildExpressionTrees(featurePolicies)
+      .filter(policy => policy.enforcementMode !== "disabled")
+      .map(policy => ({
+        policy,
+        result: !subject.resource && this.policyExpressionService.referencesResource(policy.expression)
+          ? this.resourceUnavailableResult(policy)
+          : this.policyExpressionService.evaluate(subject, policy.expression)
+      }));
+  }
+
+  /**
+   * Hasil indeterminate untuk root policy yang merujuk resource.* sementara resource tidak tersedia
+   */
+  private resourceUnavailableResult(policy: PolicyWithExpression): ExpressionEvaluationResult {
+    const condition = policy.expression.type === "condition" ? policy.expression : null;
+    return {
+      isValid: false,
+      indeterminate: true,
+      failedConditions: [{
+        policyId: condition?.id ?? policy.id,
+        attribute: condition?.attribute ?? "resource",
+        operator: condition?.operator ?? "exists",
+        value: condition?.value ?? "true",
+        actualValue: null,
+        reason: "Resource tidak tersedia di route ini untuk policy yang merujuk resource.*"
+      }]
+    };
   }
 
   /**
@@ -244,6 +367,8 @@ export class PolicyEvaluationService extends BaseService {
 export const policyEvaluationService = new PolicyEvaluationService(
   new PolicyRepository('PolicyRepository'),
   new UserRepository(),
-  new PolicyComparisonService(),
+  new PolicyExpressionService(new PolicyComparisonService()),
+  userAttributeService,
+  policyViolationService,
   new ValidationService()
 );
\ No newline at end of file
@@ -0,0 +1,364 @@
+import { BaseService } from "../base/baseService";
+import { PolicyComparisonService } from "./policyComparisonService";
+import {
+  Policy,
+  PolicyCombinator,
+  PolicyExpression,
+  PolicyWithExpression,
+  AbacSubject,
+  AbacAttributeValue,
+  ExpressionEvaluationResult,
+  PolicyExpressionTrace
+} from "./types";
+import type { PolicyConditionInput, PolicyExpressionInput } from "@/db/schema";
+
+/**
+ * Service untuk membangun dan mengevaluasi expression tree policy ABAC
+ * Bertanggung jawab untuk konversi row policies menjadi tree dan evaluasi group AND/OR/NOT
+ */
+export class PolicyExpressionService extends BaseService {
+  constructor(private policyComparisonService: PolicyComparisonService) {
+    super();
+  }
+
+  /**
+   * Bangun expression tree dari row policies satu feature
+   * @param rows - Semua row policies (root, group, dan condition) untuk feature
+   * @returns PolicyWithExpression[] - Root policies beserta expression tree-nya
+   */
+  buildExpressionTrees(rows: Policy[]): PolicyWithExpression[] {
+    const childrenByParent = this.groupByParent(rows);
+
+    return rows
+      .filter(row => row.parentId === null)
+      .map(root => ({
+        ...root,
+        expression: this.toExpression(root, childrenByParent)
+      }));
+  }
+
+  /**
+   * Bangun expression tree untuk satu policy (root maupun group di dalamnya)
+   * @param rows - Semua row policies untuk feature yang sama
+   * @param policy - Row policy yang menjadi root expression
+   * @returns PolicyExpression - Expression tree mulai dari policy tersebut
+   */
+  buildExpression(rows: Policy[], policy: Policy): PolicyExpression {
+    return this.toExpression(policy, this.groupByParent(rows));
+  }
+
+  /**
+   * Kelompokkan row policies berdasarkan parentId
+   * @param rows - Row policies
+   * @returns Map parentId -> child rows
+   */
+  private groupByParent(rows: Policy[]): Map<number, Policy[]> {
+    const childrenByParent = new Map<number, Policy[]>();
+
+    for (const row of rows) {
+      if (row.parentId === null) continue;
+      const siblings = childrenByParent.get(row.parentId) || [];
+      siblings.push(row);
+      childrenByParent.set(row.parentId, siblings);
+    }
+
+    return childrenByParent;
+  }
+
+  /**
+   * Konversi satu row policy menjadi node expression
+   * @param row - Row policy
+   * @param childrenByParent - Map parentId -> child rows
+   * @returns PolicyExpression - Node expression
+   */
+  private toExpression(row: Policy, childrenByParent: Map<number, Policy[]>): PolicyExpression {
+    if (row.combinator) {
+      const children = (childrenByParent.get(row.id) || [])
+        .sort((a, b) => a.id - b.id)
+        .map(child => this.toExpression(child, childrenByParent));
+
+      return {
+        type: "group",
+        id: row.id,
+        combinator: row.combinator as PolicyCombinator,
+        children
+      };
+    }
+
+    return {
+      type: "condition",
+      id: row.id,
+      attribute: row.attribute ?? "",
+      operator: row.operator ?? "",
+      value: row.value ?? ""
+    };
+  }
+
+  /**
+   * Evaluasi expression tree terhadap attribute user
+   * Attribute yang hilang atau perbandingan yang error menghasilkan status indeterminate,
+   * yang selalu berakhir dengan deny (termasuk di dalam group NOT). Group tanpa child juga indeterminate.
+   * @param subject - User atau subject dengan ABAC attributes
+   * @param expression - Expression tree yang akan dievaluasi
+   * @returns ExpressionEvaluationResult - Hasil evaluasi dengan detail kondisi yang gagal
+   */
+  evaluate(subject: AbacSubject, expression: PolicyExpression): ExpressionEvaluationResult {
+    if (expression.type === "condition") {
+      return this.evaluateCondition(subject, expression);
+    }
+
+    if (expression.children.length === 0) {
+      return {
+        isValid: false,
+        indeterminate: true,
+        failedConditions: [{
+          policyId: expression.id,
+          attribute: "group",
+          operator: String(expression.combinator),
+          value: "",
+          reason: `Group ${expression.combinator} tidak memiliki kondisi`
+        }]
+      };
+    }
+
+    const results = expression.children.map(child => this.evaluate(subject, child));
+    const failedConditions = results.flatMap(result => result.failedConditions);
+
+    switch (expression.combinator) {
+      case PolicyCombinator.AND: {
+        if (results.every(result => result.isValid)) {
+          return { isValid: true, indeterminate: false, failedConditions: [] };
+        }
+        const definitelyFalse = results.some(result => !result.isValid && !result.indeterminate);
+        return { isValid: false, indeterminate: !definitelyFalse, failedConditions };
+      }
+
+      case PolicyCombinator.OR: {
+        if (results.some(result => result.isValid)) {
+          return { isValid: true, indeterminate: false, failedConditions: [] };
+        }
+        const indeterminate = results.some(result => result.indeterminate);
+        return { isValid: false, indeterminate, failedConditions };
+      }
+
+      case PolicyCombinator.NOT: {
+        const [inner] = results;
+        if (!inner || inner.indeterminate) {
+          return { isValid: false, indeterminate: true, failedConditions };
+        }
+        if (!inner.isValid) {
+          return { isValid: true, indeterminate: false, failedConditions: [] };
+        }
+        return {
+          isValid: false,
+          indeterminate: false,
+          failedConditions: [{
+            policyId: expression.id,
+            attribute: "group",
+            operator: PolicyCombinator.NOT,
+            value: this.describe(expression.children[0]),
+            reason: `Kondisi '${this.describe(expression.children[0])}' terpenuhi padahal dinegasikan`
+          }]
+        };
+      }
+
+      default:
+        return {
+          isValid: false,
+          indeterminate: true,
+          failedConditions: [{
+            policyId: expression.id,
+            attribute: "group",
+            operator: String(expression.combinator),
+            value: "",
+            reason: `Unknown combinator: ${expression.combinator}`
+          }]
+        };
+    }
+  }
+
+  /**
+   * Evaluasi single condition
+   * @param subject - User atau subject dengan ABAC attributes
+   * @param condition - Node condition
+   * @returns ExpressionEvaluationResult - Hasil evaluasi condition
+   */
+  private evaluateCondition(
+    subject: AbacSubject,
+    condition: Extract<PolicyExpression, { type: "condition" }>
+  ): ExpressionEvaluationResult {
+    const userValue = this.policyComparisonService.getUserAttributeValue(subject, condition.attribute);
+
+    const failed = (reason: string, indeterminate: boolean): ExpressionEvaluationResult => ({
+      isValid: false,
+      indeterminate,
+      failedConditions: [{
+        policyId: condition.id,
+        attribute: condition.attribute,
+        operator: condition.operator,
+        value: condition.value,
+        actualValue: this.formatValue(userValue),
+        reason
+      }]
+    });
+
+    // Jika user tidak memiliki attribute yang diperlukan, kondisi tidak dapat dievaluasi
+    if (userValue === null || userValue === undefined) {
+      return failed(`User tidak memiliki attribute '${condition.attribute}'`, true);
+    }
+
+    // Value bisa berupa referensi attribute lain (contoh: $user.department)
+    const policyValue = this.policyComparisonService.resolvePolicyValue(subject, condition.value);
+    if (policyValue === null) {
+      return failed(`Attribute referensi '${condition.value}' tidak tersedia`, true);
+    }
+
+    const comparisonResult = this.policyComparisonService.compareValues(
+      userValue,
+      condition.operator,
+      policyValue,
+      condition.attribute
+    );
+
+    if (!comparisonResult.success) {
+      return failed(comparisonResult.error || "Error dalam perbandingan nilai", true);
+    }
+
+    if (comparisonResult.result !== true) {
+      return failed(
+        `Nilai '${userValue}' tidak memenuhi kondisi '${condition.operator} ${policyValue}'`,
+        false
+      );
+    }
+
+    return { isValid: true, indeterminate: false, failedConditions: [] };
+  }
+
+  /**
+   * Evaluasi expression tree dan kembalikan hasil setiap node beserta nilai aktual vs nilai yang diharapkan
+   * Hasil setiap node memakai evaluate() sehingga sama persis dengan keputusan saat request
+   * @param subject - User atau subject dengan ABAC attributes
+   * @param expression - Expression tree yang akan dijelaskan
+   * @returns PolicyExpressionTrace - Jejak evaluasi node dan anak-anaknya
+   */
+  explain(subject: AbacSubject, expression: PolicyExpression): PolicyExpressionTrace {
+    const result = this.evaluate(subject, expression);
+    const trace = {
+      id: expression.id,
+      description: this.describe(expression),
+      passed: result.isValid,
+      indeterminate: result.indeterminate,
+      reason: result.isValid ? undefined : result.failedConditions[0]?.reason
+    };
+
+    if (expression.type === "group") {
+      return {
+        ...trace,
+        type: "group",
+        operator: expression.combinator,
+        children: expression.children.map(child => this.explain(subject, child))
+      };
+    }
+
+    const policyValue = this.policyComparisonService.resolvePolicyValue(subject, expression.value);
+    return {
+      ...trace,
+      type: "condition",
+      attribute: expression.attribute,
+      operator: expression.operator,
+      expectedValue: policyValue ?? expression.value,
+      actualValue: this.formatValue(this.policyComparisonService.getUserAttributeValue(subject, expression.attribute))
+    };
+  }
+
+  /**
+   * Ubah nilai attribute menjadi string untuk pelaporan (list sebagai JSON)
+   */
+  private formatValue(value: AbacAttributeValue | null | undefined): string | null {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    return Array.isArray(value) ? JSON.stringify(value) : String(value);
+  }
+
+  /**
+   * Buat representasi string dari expression untuk logging dan tampilan
+   * @param expression - Expression tree
+   * @returns string - Contoh: "department == Finance OR (level >= 5 AND region in [...])"
+   */
+  describe(expression: PolicyExpression): string {
+    if (expression.type === "condition") {
+      return `${expression.attribute} ${expression.operator} ${expression.value}`;
+    }
+
+    if (expression.combinator === PolicyCombinator.NOT) {
+      return `NOT (${expression.children.map(child => this.describe(child)).join(", ")})`;
+    }
+
+    return expression.children
+      .map(child => child.type === "group" ? `(${this.describe(child)})` : this.describe(child))
+      .join(` ${expression.combinator} `);
+  }
+
+  /**
+   * Konversi expression tree tersimpan menjadi input expression tanpa ID node
+   * Dipakai untuk snapshot versi policy yang dapat dibuat ulang saat rollback
+   * @param expression - Expression tree (boleh berisi ID node)
+   * @returns PolicyExpressionInput - Expression tanpa ID node
+   */
+  toInput(expression: PolicyExpression): PolicyExpressionInput {
+    if (expression.type === "condition") {
+      return {
+        type: "condition",
+        attribute: expression.attribute,
+        operator: expression.operator as PolicyConditionInput["operator"],
+        value: expression.value
+      };
+    }
+
+    return {
+      type: "group",
+      combinator: expression.combinator,
+      children: expression.children.map(child => this.toInput(child))
+    };
+  }
+
+  /**
+   * Validasi apakah combinator yang diberikan valid
+   * @param combinator - Combinator yang akan divalidasi
+   * @returns boolean - true jika combinator valid
+   */
+  isValidCombinator(combinator: string): boolean {
+    return Object.values(PolicyCombinator).includes(combinator as PolicyCombinator);
+  }
+
+  /**
+   * Cek apakah expression merujuk ke attribute resource (resource-scoped policy)
+   * Policy seperti ini hanya dievaluasi ketika resource yang diakses diketahui
+   * @param expression - Expression tree
+   * @returns boolean - true jika ada condition yang merujuk resource.*
+   */
+  referencesResource(expression: PolicyExpression): boolean {
+    return this.collectConditions(expression).some(condition =>
+      this.policyComparisonService.referencesResource(condition.attribute) ||
+      this.policyComparisonService.referencesResource(condition.value)
+    );
+  }
+
+  /**
+   * Ambil semua condition (leaf) dari expression tree
+   * @param expression - Expression tree
+   * @returns Array condition node
+   */
+  collectConditions(expression: PolicyExpression): Extract<PolicyExpression, { type: "condition" }>[] {
+    if (expression.type === "condition") {
+      return [expression];
+    }
+    return expression.children.flatMap(child => this.collectConditions(child));
+  }
+}
+
+// Export instance untuk digunakan di service lain
+export const policyExpressionService = new PolicyExpressionService(
+  new PolicyComparisonService()
+);
@@ -2,22 +2,42 @@ import { BaseService } from "../base/baseService";
 import { ValidationService } from "../../lib/validation/validator";
 import { ErrorHandler, NotFoundError } from "../../lib/errors/errorHandler";
 import { PolicyRepository } from "../../repositories/policy/policyRepository";
+import { PolicyVersionRepository } from "../../repositories/policyVersion";
 import { PolicyComparisonService } from "./policyComparisonService";
+import { PolicyExpressionService } from "./policyExpressionService";
+import { AttributeDefinitionService, attributeDefinitionService } from "./attributeDefinitionService";
+import { changeHistoryService } from "../audit/changeHistoryService";
 import {
+  AbacOperator,
+  AttributeDefinition,
+  AttributeScope,
+  ContextAttribute,
+  DAYS_OF_WEEK,
   Policy,
   PolicyCreateInput,
+  PolicyEnforcementMode,
+  PolicyExpression,
+  PolicyWithExpression,
   ValidatedPolicyCreateInput,
-  createPolicySchema
+  VersionAction,
+  VersionChangeMeta,
+  createPolicySchema,
+  policyExpressionInputSchema
 } from "./types";
+import { updatePolicyEnforcementModeSchema, type PolicyExpressionInput } from "@/db/schema";
 
 /**
  * Service untuk mengelola ABAC policies (CRUD operations)
  * Bertanggung jawab untuk create, read, update, delete policies
+ * Setiap perubahan root policy disimpan sebagai versi immutable (policy_versions) yang dapat di-rollback
  */
 export class PolicyManagementService extends BaseService {
   constructor(
     private policyRepository: PolicyRepository,
     private policyComparisonService: PolicyComparisonService,
+    private policyExpressionService: PolicyExpressionService,
+    private policyVersionRepository: PolicyVersionRepository,
+    private attributeDefinitionService: AttributeDefinitionService,
     private validationService: ValidationService,
     private errorHandler: ErrorHandler
   ) {
@@ -27,33 +47,129 @@ export class PolicyManagementService extends BaseService {
   /**
    * Buat policy baru untuk feature
    * @param policyData - Data policy yang akan dibuat
+   * @param meta - Author dan komentar versi pertama policy
    * @returns Promise<Policy> - Policy yang dibuat
    */
-  async createPolicy(policyData: PolicyCreateInput): Promise<Policy> {
+  async createPolicy(policyData: PolicyCreateInput, meta: VersionChangeMeta = {}): Promise<Policy> {
     return this.executeWithErrorHandling(
       'create ABAC policy',
       async () => {
         // Validasi input
         const validatedData = this.validateInput(createPolicySchema, policyData);
         
-        // Validasi operator dan attribute
-        this.validatePolicyData(validatedData);
+        // Validasi operator dan attribute (bawaan maupun custom)
+        const definitions = await this.attributeDefinitionService.getDefinitionMap();
+        this.validatePolicyData(validatedData, definitions);
         
         // Buat policy baru
-        return await this.policyRepository.create(validatedData);
+        const policy = await this.policyRepository.create(validatedData);
+        await this.recordVersion(policy, 'create', meta);
+
+        return policy;
+      }
+    );
+  }
+
+  /**
+   * Buat policy baru berupa expression tree (condition tunggal atau group AND/OR/NOT)
+   * @param input - Feature ID, expression tree, dan enforcement mode (default enforce)
+   * @param meta - Author dan komentar versi pertama policy
+   * @returns Promise<PolicyWithExpression> - Root policy beserta expression yang tersimpan
+   */
+  async createPolicyExpression(input: {
+    featureId: number;
+    expression: PolicyExpression;
+    enforcementMode?: PolicyEnforcementMode;
+  }, meta: VersionChangeMeta = {}): Promise<PolicyWithExpression> {
+    return this.executeWithErrorHandling(
+      'create ABAC policy expression',
+      async () => {
+        const validatedData = this.validateInput(policyExpressionInputSchema, input);
+
+        // Validasi setiap condition di dalam tree
+        const definitions = await this.attributeDefinitionService.getDefinitionMap();
+        this.validateExpression(validatedData.expression, definitions);
+
+        const root = await this.policyRepository.createExpressionTree(
+          validatedData.featureId,
+          validatedData.expression,
+          validatedData.enforcementMode
+        );
+        await this.recordVersion(root, 'create', meta);
+
+        return await this.loadPolicyWithExpression(root);
       }
     );
   }
 
+  /**
+   * Ganti expression tree dari policy yang sudah ada
+   * @param policyId - ID root policy yang akan diganti
+   * @param expression - Expression tree baru
+   * @param meta - Author dan komentar versi baru
+   * @returns Promise<PolicyWithExpression> - Root policy beserta expression baru
+   */
+  async updatePolicyExpression(
+    policyId: number,
+    expression: PolicyExpression,
+    meta: VersionChangeMeta = {}
+  ): Promise<PolicyWithExpression> {
+    return this.executeWithErrorHandling(
+      'update ABAC policy expression',
+      async () => {
+        const existingPolicy = await this.policyRepository.findById(policyId);
+        if (!existingPolicy) {
+          throw new NotFoundError('Policy', policyId);
+        }
+
+        if (existingPolicy.parentId !== null) {
+          throw new Error('Hanya root policy yang dapat diganti expression-nya');
+        }
+
+        const validatedData = this.validateInput(policyExpressionInputSchema, {
+          featureId: existingPolicy.featureId,
+          expression
+        });
+
+        const definitions = await this.attributeDefinitionService.getDefinitionMap();
+        this.validateExpression(validatedData.expression, definitions);
+
+        const updatedPolicy = await this.policyRepository.replaceExpressionTree(
+          policyId,
+          validatedData.expression
+        );
+
+        if (!updatedPolicy) {
+          throw new Error('Failed to update policy');
+        }
+        await this.recordVersion(updatedPolicy, 'update', meta);
+
+        return await this.loadPolicyWithExpression(updatedPolicy);
+      }
+    );
+  }
+
+  /**
+   * Validasi expression tree tanpa menyimpannya (contoh: dry-run import policy-as-code)
+   * @param expression - Expression tree yang akan divalidasi
+   * @throws Error jika ada combinator atau condition yang tidak valid
+   */
+  async validatePolicyExpression(expression: PolicyExpression): Promise<void> {
+    const definitions = await this.attributeDefinitionService.getDefinitionMap();
+    this.validateExpression(expression, definitions);
+  }
+
   /**
    * Update policy yang sudah ada
    * @param policyId - ID policy yang akan diupdate
    * @param policyData - Data policy yang akan diupdate
+   * @param meta - Author dan komentar versi baru root policy
    * @returns Promise<Policy> - Policy yang diupdate
    */
   async updatePolicy(
     policyId: number,
-    policyData: Partial<PolicyCreateInput>
+    policyData: Partial<PolicyCreateInput>,
+    meta: VersionChangeMeta = {}
   ): Promise<Policy> {
     return this.executeWithErrorHandling(
       'update ABAC policy',
@@ -64,33 +180,94 @@ export class PolicyManagementService extends BaseService {
           throw new NotFoundError('Policy', policyId);
         }
 
-        // Validasi data yang akan diupdate
-        if (policyData.operator && !this.policyComparisonService.isValidOperator(policyData.operator)) {
-          throw new Error(`Invalid operator: ${policyData.operator}`);
-        }
-        
-        if (policyData.attribute && !this.policyComparisonService.isValidAttribute(policyData.attribute)) {
-          throw new Error(`Invalid attribute: ${policyData.attribute}`);
+        if (existingPolicy.combinator) {
+          throw new Error('Policy group harus diupdate melalui updatePolicyExpression');
         }
 
+        // Validasi gabungan data lama dan data yang akan diupdate
+        const definitions = await this.attributeDefinitionService.getDefinitionMap();
+        this.validatePolicyData({
+          attribute: policyData.attribute ?? existingPolicy.attribute ?? "",
+          operator: policyData.operator ?? existingPolicy.operator ?? "",
+          value: policyData.value ?? existingPolicy.value ?? ""
+        }, definitions);
+
         // Update policy
         const updatedPolicy = await this.policyRepository.update(policyId, policyData);
 
         if (!updatedPolicy) {
           throw new Error('Failed to update policy');
         }
+        await this.recordVersion(updatedPolicy, 'update', meta);
 
         return updatedPolicy;
       }
     );
   }
 
+  /**
+   * Ubah enforcement mode root policy (contoh: promote policy audit menjadi enforce)
+   * @param policyId - ID root policy
+   * @param enforcementMode - Mode baru (enforce, audit, disabled)
+   * @param adminUserId - ID admin yang mengubah mode
+   * @param comment - Komentar versi baru (opsional)
+   * @returns Promise<PolicyWithExpression> - Root policy beserta expression dengan mode baru
+   * @throws NotFoundError jika policy tidak ditemukan
+   */
+  async updateEnforcementMode(
+    policyId: number,
+    enforcementMode: PolicyEnforcementMode,
+    adminUserId: number,
+    comment?: string
+  ): Promise<PolicyWithExpression> {
+    return this.executeWithErrorHandling(
+      'update ABAC policy enforcement mode',
+      async () => {
+        const validatedData = this.validateInput(updatePolicyEnforcementModeSchema, { enforcementMode });
+
+        const existingPolicy = await this.policyRepository.findById(policyId);
+        if (!existingPolicy) {
+          throw new NotFoundError('Policy', policyId);
+        }
+
+        if (existingPolicy.parentId !== null) {
+          throw new Error('Enforcement mode hanya berlaku untuk root policy');
+        }
+
+        if (existingPolicy.enforcementMode === validatedData.enforcementMode) {
+          return await this.loadPolicyWithExpression(existingPolicy);
+        }
+
+        const updatedPolicy = await this.policyRepository.update(policyId, {
+          enforcementMode: validatedData.enforcementMode
+        });
+
+        if (!updatedPolicy) {
+          throw new Error('Failed to update policy enforcement mode');
+        }
+
+        await changeHistoryService.logChangeHistory({
+          adminUserId,
+          action: 'updatePolicyEnforcementMode',
+          before: JSON.stringify({ policyId, enforcementMode: existingPolicy.enforcementMode }),
+          after: JSON.stringify({ policyId, enforcementMode: updatedPolicy.enforcementMode })
+        });
+        await this.recordVersion(updatedPolicy, 'update', { authorId: adminUserId, comment });
+
+        return await this.loadPolicyWithExpression(updatedPolicy);
+      }
+    );
+  }
+
   /**
    * Hapus policy berdasarkan ID
+   * Root policy dicatat sebagai versi penghapusan, node child sebagai versi baru root policy-nya
+   * Group yang menjadi kosong karena child terakhirnya dihapus ikut dihapus
    * @param policyId - ID policy yang akan dihapus
+   * @param meta - Author dan komentar penghapusan
    * @returns Promise<boolean> - true jika berhasil dihapus
    */
-  async deletePolicy(policyId: number): Promise<boolean> {
+  async deletePolicy(policyId: number, meta: VersionChangeMeta = {}): Promise<boolean> {
     return this.executeWithErrorHandling(
       'delete ABAC policy',
       async () => {
@@ -98,8 +275,98 @@ export class PolicyManagementService extends BaseService {
         if (!policy) {
           throw new NotFoundError('Policy', policyId);
         }
-        
-        return await this.policyRepository.delete(policyId);
+
+        const rows = await this.policyRepository.findByFeatureId(policy.featureId);
+        const root = this.findRoot(rows, policy);
+        const target = this.findEmptiedAncestor(rows, policy);
+        const deleted = await this.policyRepository.delete(target.id);
+        if (deleted) {
+          if (root.id === target.id) {
+            await this.recordDeletion(root, meta);
+          } else {
+            await this.recordVersion(root, 'update', meta);
+          }
+        }
+
+        return deleted;
+      }
+    );
+  }
+
+  /**
+   * Kembalikan root policy ke isi versi sebelumnya (expression dan enforcement mode)
+   * Rollback dicatat sebagai versi baru dan ke change_history; versi lama tidak diubah
+   * @param policyId - ID root policy
+   * @param version - Nomor versi tujuan
+   * @param adminUserId - ID admin yang menjalankan rollback
+   * @param comment - Komentar versi rollback (default: "Rollback ke versi N")
+   * @returns Promise<PolicyWithExpression> - Root policy dengan isi versi tujuan
+   * @throws NotFoundError jika policy atau versi tidak ditemukan
+   */
+  async rollbackPolicy(
+    policyId: number,
+    version: number,
+    adminUserId: number,
+    comment?: string
+  ): Promise<PolicyWithExpression> {
+    return this.executeWithErrorHandling(
+      'rollback ABAC policy',
+      async () => {
+        const existingPolicy = await this.policyRepository.findById(policyId);
+        if (!existingPolicy) {
+          throw new NotFoundError('Policy', policyId);
+        }
+
+        if (existingPolicy.parentId !== null) {
+          throw new Error('Hanya root policy yang memiliki versi');
+        }
+
+        const target = await this.policyVersionRepository.findByPolicyAndVersion(policyId, version);
+        if (!target) {
+          throw new NotFoundError('Policy version', version);
+        }
+
+        if (target.expression === null || target.enforcementMode === null) {
+          throw new Error(`Versi ${version} adalah penghapusan policy dan tidak dapat dipulihkan`);
+        }
+
+        // Attribute di versi lama bisa saja sudah dihapus dari registry
+        const expression = JSON.parse(target.expression) as PolicyExpressionInput;
+        const definitions = await this.attributeDefinitionService.getDefinitionMap();
+        this.validateExpression(expression, definitions);
+
+        const current = await this.loadPolicyWithExpression(existingPolicy);
+        const restoredPolicy = await this.policyRepository.replaceExpressionTree(
+          policyId,
+          expression,
+          target.enforcementMode as PolicyEnforcementMode
+        );
+
+        if (!restoredPolicy) {
+          throw new Error('Failed to rollback policy');
+        }
+
+        await this.recordVersion(restoredPolicy, 'rollback', {
+          authorId: adminUserId,
+          comment: comment || `Rollback ke versi ${version}`
+        });
+        await changeHistoryService.logChangeHistory({
+          adminUserId,
+          action: 'rollbackPolicy',
+          before: JSON.stringify({
+            policyId,
+            expression: this.policyExpressionService.toInput(current.expression),
+            enforcementMode: current.enforcementMode
+          }),
+          after: JSON.stringify({
+            policyId,
+            restoredVersion: version,
+            expression,
+            enforcementMode: restoredPolicy.enforcementMode
+          })
+        });
+
+        return await this.loadPolicyWithExpression(restoredPolicy);
       }
     );
   }
@@ -120,14 +387,35 @@ export class PolicyManagementService extends BaseService {
   }
 
   /**
-   * Ambil semua policies untuk feature tertentu
+   * Ambil policy beserta expression tree-nya berdasarkan ID
+   * @param policyId - ID policy
+   * @returns Promise<PolicyWithExpression | null> - Policy dengan expression atau null jika tidak ditemukan
+   */
+  async getPolicyWithExpression(policyId: number): Promise<PolicyWithExpression | null> {
+    return this.executeWithErrorHandling(
+      'get policy with expression',
+      async () => {
+        const policy = await this.policyRepository.findById(policyId);
+        if (!policy) {
+          return null;
+        }
+        return await this.loadPolicyWithExpression(policy);
+      }
+    );
+  }
+
+  /**
+   * Ambil semua root policies untuk feature tertentu beserta expression tree-nya
    * @param featureId - ID feature
-   * @returns Promise<Policy[]> - Array policies
+   * @returns Promise<PolicyWithExpression[]> - Array root policies
    */
-  async getPoliciesByFeature(featureId: number): Promise<Policy[]> {
+  async getPoliciesByFeature(featureId: number): Promise<PolicyWithExpression[]> {
     return this.executeWithErrorHandling(
       'get policies by feature',
-      () => this.policyRepository.findByFeatureId(featureId)
+      async () => {
+        const rows = await this.policyRepository.findByFeatureId(featureId);
+        return this.policyExpressionService.buildExpressionTrees(rows);
+      }
     );
   }
 
@@ -135,25 +423,23 @@ export class PolicyManagementService extends BaseService {
    * Ambil semua policies dengan pagination
    * @param page - Nomor halaman (mulai dari 1)
    * @param limit - Jumlah item per halaman
-   * @returns Promise<{policies: Policy[], total: number}> - Policies dengan total count
+   * @returns Promise<{policies: PolicyWithExpression[], total: number}> - Root policies dengan total count
    */
   async getAllPolicies(
     page: number = 1,
     limit: number = 10
-  ): Promise<{ policies: Policy[], total: number }> {
+  ): Promise<{ policies: PolicyWithExpression[], total: number }> {
     return this.executeWithErrorHandling(
       'get all policies',
       async () => {
         const offset = (page - 1) * limit;
-        const [policies, total] = await Promise.all([
-          this.policyRepository.findAll(),
-          this.policyRepository.count()
-        ]);
+        const rows = await this.policyRepository.findAll();
+        const policies = this.policyExpressionService.buildExpressionTrees(rows);
         
         // Apply pagination manually if repository doesn't support it
         const paginatedPolicies = policies.slice(offset, offset + limit);
         
-        return { policies: paginatedPolicies, total };
+        return { policies: paginatedPolicies, total: policies.length };
       }
     );
   }
@@ -179,12 +465,16 @@ export class PolicyManagementService extends BaseService {
     return this.executeWithErrorHandling(
       'delete policies by feature',
       async () => {
-        const policies = await this.policyRepository.findByFeatureId(featureId);
+        // Child policies ikut terhapus (ON DELETE CASCADE) saat root dihapus
+        const policies = await this.policyRepository.findRootsByFeatureId(featureId);
         let deletedCount = 0;
         
         for (const policy of policies) {
           const deleted = await this.policyRepository.delete(policy.id);
-          if (deleted) deletedCount++;
+          if (deleted) {
+            await this.recordDeletion(policy, {});
+            deletedCount++;
+          }
         }
         
         return deletedCount;
@@ -196,35 +486,148 @@ export class PolicyManagementService extends BaseService {
    * Duplicate policy untuk feature lain
    * @param policyId - ID policy yang akan diduplicate
    * @param targetFeatureId - ID feature tujuan
-   * @returns Promise<Policy> - Policy baru yang diduplicate
+   * @returns Promise<PolicyWithExpression> - Policy baru yang diduplicate beserta expression-nya
    */
-  async duplicatePolicy(policyId: number, targetFeatureId: number): Promise<Policy> {
+  async duplicatePolicy(policyId: number, targetFeatureId: number): Promise<PolicyWithExpression> {
     return this.executeWithErrorHandling(
       'duplicate policy',
       async () => {
-        const sourcePolicy = await this.policyRepository.findById(policyId);
+        const sourcePolicy = await this.getPolicyWithExpression(policyId);
         if (!sourcePolicy) {
           throw new NotFoundError('Policy', policyId);
         }
         
-        const newPolicyData: PolicyCreateInput = {
+        return await this.createPolicyExpression({
           featureId: targetFeatureId,
-          attribute: sourcePolicy.attribute,
-          operator: sourcePolicy.operator,
-          value: sourcePolicy.value
-        };
-        
-        return await this.createPolicy(newPolicyData);
+          expression: sourcePolicy.expression,
+          enforcementMode: sourcePolicy.enforcementMode as PolicyEnforcementMode
+        }, { comment: `Duplikat dari policy #${policyId}` });
       }
     );
   }
 
+  /**
+   * Bangun expression tree untuk satu policy dari row feature-nya
+   * @param policy - Row policy
+   * @returns Promise<PolicyWithExpression> - Policy beserta expression tree
+   */
+  private async loadPolicyWithExpression(policy: Policy): Promise<PolicyWithExpression> {
+    const rows = policy.featureId !== null
+      ? await this.policyRepository.findByFeatureId(policy.featureId)
+      : [policy];
+
+    return {
+      ...policy,
+      expression: this.policyExpressionService.buildExpression(rows, policy)
+    };
+  }
+
+  /**
+   * Cari root policy dari sebuah node (root itu sendiri jika parentId null)
+   * @param rows - Semua row policies untuk feature yang sama
+   * @param policy - Row policy
+   * @returns Policy - Root policy
+   */
+  private findRoot(rows: Policy[], policy: Policy): Policy {
+    const rowsById = new Map(rows.map(row => [row.id, row]));
+    let root = policy;
+    while (root.parentId !== null && rowsById.has(root.parentId)) {
+      root = rowsById.get(root.parentId)!;
+    }
+    return root;
+  }
+
+  /**
+   * Cari node teratas yang harus dihapus bersama policy
+   * Group tanpa child akan lolos evaluasi AND, sehingga group yang kehilangan child terakhirnya ikut dihapus
+   * @param rows - Semua row policies untuk feature yang sama
+   * @param policy - Row policy yang akan dihapus
+   * @returns Policy - Policy itu sendiri atau group ancestor yang menjadi kosong
+   */
+  private findEmptiedAncestor(rows: Policy[], policy: Policy): Policy {
+    const rowsById = new Map(rows.map(row => [row.id, row]));
+    let target = policy;
+    while (target.parentId !== null && rowsById.has(target.parentId)) {
+      const parentId = target.parentId;
+      const hasSibling = rows.some(row => row.parentId === parentId && row.id !== target.id);
+      if (hasSibling) break;
+      target = rowsById.get(parentId)!;
+    }
+    return target;
+  }
+
+  /**
+   * Simpan isi root policy saat ini sebagai versi baru
+   * Perubahan pada node child dicatat sebagai versi root policy-nya
+   * @param policy - Row policy yang berubah (root maupun child)
+   * @param action - Jenis perubahan
+   * @param meta - Author dan komentar versi
+   */
+  private async recordVersion(policy: Policy, action: VersionAction, meta: VersionChangeMeta): Promise<void> {
+    const rows = await this.policyRepository.findByFeatureId(policy.featureId);
+    const root = this.findRoot(rows, policy);
+    const expression = this.policyExpressionService.buildExpression(rows, root);
+
+    await this.policyVersionRepository.record({
+      policyId: root.id,
+      featureId: root.featureId,
+      expression: JSON.stringify(this.policyExpressionService.toInput(expression)),
+      enforcementMode: root.enforcementMode,
+      action,
+      comment: meta.comment || null,
+      authorId: meta.authorId ?? null
+    });
+  }
+
+  /**
+   * Simpan versi penghapusan root policy (tanpa snapshot expression)
+   * @param root - Row root policy yang dihapus
+   * @param meta - Author dan komentar penghapusan
+   */
+  private async recordDeletion(root: Policy, meta: VersionChangeMeta): Promise<void> {
+    await this.policyVersionRepository.record({
+      policyId: root.id,
+      featureId: root.featureId,
+      expression: null,
+      enforcementMode: null,
+      action: 'delete',
+      comment: meta.comment || null,
+      authorId: meta.authorId ?? null
+    });
+  }
+
+  /**
+   * Validasi setiap node di dalam expression tree secara rekursif
+   * @param expression - Expression tree yang akan divalidasi
+   * @param definitions - Registry custom attribute (nama -> definition)
+   * @throws Error jika ada combinator atau condition yang tidak valid
+   */
+  private validateExpression(
+    expression: PolicyExpression,
+    definitions: Map<string, AttributeDefinition>
+  ): void {
+    if (expression.type === "condition") {
+      this.validatePolicyData(expression, definitions);
+      return;
+    }
+
+    if (!this.policyExpressionService.isValidCombinator(expression.combinator)) {
+      throw new Error(`Invalid combinator: ${expression.combinator}`);
+    }
+
+    expression.children.forEach(child => this.validateExpression(child, definitions));
+  }
+
   /**
    * Validasi data policy sebelum create/update
    * @param policyData - Data policy yang akan divalidasi
+   * @param definitions - Registry custom attribute (nama -> definition)
    * @throws Error jika data tidak valid
    */
-  private validatePolicyData(policyData: ValidatedPolicyCreateInput): void {
+  private validatePolicyData(
+    policyData: Pick<ValidatedPolicyCreateInput, "attribute" | "operator" | "value">,
+    definitions: Map<string, AttributeDefinition>
+  ): void {
     // Validasi operator
     if (!this.policyComparisonService.isValidOperator(policyData.operator)) {
       throw new Error(
@@ -233,13 +636,29 @@ export class PolicyManagementService extends BaseService {
       );
     }
     
-    // Validasi attribute
-    if (!this.policyComparisonService.isValidAttribute(policyData.attribute)) {
+    // Validasi attribute: bawaan, context request, resource, atau terdaftar di registry
+    if (!this.isKnownAttribute(policyData.attribute, definitions)) {
       throw new Error(
         `Invalid attribute: ${policyData.attribute}. ` +
-        `Supported attributes: ${this.policyComparisonService.getSupportedAttributes().join(', ')}`
+        `Supported attributes: ${[
+          ...this.policyComparisonService.getSupportedAttributes(),
+          ...this.policyComparisonService.getSupportedContextAttributes(),
+          ...definitions.keys(),
+          'user.id',
+          'resource.<nama_attribute>'
+        ].join(', ')}`
       );
     }
+
+    // Value berupa referensi attribute lain (contoh: resource.department == $user.department)
+    // Tipe nilainya baru diketahui saat evaluasi, jadi hanya referensinya yang divalidasi
+    const reference = this.policyComparisonService.parseAttributeReference(policyData.value);
+    if (reference) {
+      if (!this.isKnownAttribute(reference, definitions)) {
+        throw new Error(`Invalid attribute reference: ${policyData.value}`);
+      }
+      return;
+    }
     
     // Validasi value untuk operator 'in'
     if (policyData.operator === 'in') {
@@ -255,6 +674,130 @@ export class PolicyManagementService extends BaseService {
         );
       }
     }
+
+    // Validasi operator dan value sesuai jenis context attribute
+    if (this.policyComparisonService.isContextAttribute(policyData.attribute)) {
+      this.validateContextCondition(policyData);
+    }
+
+    // Validasi operator dan value sesuai tipe custom attribute
+    const definition = definitions.get(this.stripUserScope(policyData.attribute));
+    if (definition) {
+      this.attributeDefinitionService.validatePolicyCondition(
+        definition,
+        policyData.operator,
+        policyData.value
+      );
+    }
+  }
+
+  /**
+   * Cek apakah attribute dikenal: bawaan, context request, resource, atau custom attribute
+   * @param attribute - Nama attribute (boleh dengan prefix user., context., resource.)
+   * @param definitions - Registry custom attribute (nama -> definition)
+   * @returns boolean - true jika attribute dapat dievaluasi
+   */
+  private isKnownAttribute(attribute: string, definitions: Map<string, AttributeDefinition>): boolean {
+    // Attribute resource disediakan resource loader per feature, sehingga tidak didaftarkan
+    if (attribute.startsWith(AttributeScope.RESOURCE)) {
+      return true;
+    }
+
+    if (this.policyComparisonService.isContextAttribute(attribute)) {
+      return true;
+    }
+
+    const name = this.stripUserScope(attribute);
+    return (attribute.startsWith(AttributeScope.USER) && name === 'id') ||
+      this.policyComparisonService.isValidAttribute(name) ||
+      definitions.has(name);
+  }
+
+  /**
+   * Hapus prefix 'user.' dari nama attribute
+   * @param attribute - Nama attribute
+   * @returns string - Nama attribute tanpa prefix user
+   */
+  private stripUserScope(attribute: string): string {
+    return attribute.startsWith(AttributeScope.USER)
+      ? attribute.slice(AttributeScope.USER.length)
+      : attribute;
+  }
+
+  /**
+   * Validasi condition yang mereferensikan context attribute (waktu, hari, IP, user agent, method)
+   * @param policyData - Data condition yang akan divalidasi
+   * @throws Error jika operator atau value tidak sesuai jenis context attribute
+   */
+  private validateContextCondition(
+    policyData: Pick<ValidatedPolicyCreateInput, "attribute" | "operator" | "value">
+  ): void {
+    const equality = [AbacOperator.EQUALS, AbacOperator.NOT_EQUALS, AbacOperator.IN];
+    const rules: Record<ContextAttribute, { operators: AbacOperator[]; isValid: (value: string) => boolean; hint: string }> = {
+      [ContextAttribute.TIME_OF_DAY]: {
+        operators: [
+          ...equality,
+          AbacOperator.GREATER_THAN,
+          AbacOperator.GREATER_THAN_OR_EQUAL,
+          AbacOperator.LESS_THAN,
+          AbacOperator.LESS_THAN_OR_EQUAL
+        ],
+        isValid: value => /^([01]\d|2[0-3]):[0-5]\d$/.test(value),
+        hint: "format HH:mm, contoh: 09:00"
+      },
+      [ContextAttribute.DAY_OF_WEEK]: {
+        operators: equality,
+        isValid: value => (DAYS_OF_WEEK as readonly string[]).includes(value),
+        hint: `salah satu dari ${DAYS_OF_WEEK.join(', ')}`
+      },
+      [ContextAttribute.IP]: {
+        operators: equality,
+        isValid: value => value.includes(':') || this.isValidIpv4OrCidr(value),
+        hint: "IP atau CIDR, contoh: 10.0.0.0/8"
+      },
+      [ContextAttribute.USER_AGENT]: {
+        operators: [...equality, AbacOperator.CONTAINS],
+        isValid: value => value.length > 0,
+        hint: "string user agent, contoh: Mozilla"
+      },
+      [ContextAttribute.METHOD]: {
+        operators: equality,
+        isValid: value => ["GET", "POST", "PUT", "PATCH", "DELETE", "HEAD", "OPTIONS"].includes(value),
+        hint: "HTTP method huruf besar, contoh: GET"
+      }
+    };
+
+    const rule = rules[policyData.attribute as ContextAttribute];
+
+    if (!rule.operators.includes(policyData.operator as AbacOperator)) {
+      throw new Error(
+        `Operator '${policyData.operator}' tidak dapat digunakan untuk ${policyData.attribute}. ` +
+        `Operator yang didukung: ${rule.operators.join(', ')}`
+      );
+    }
+
+    const values: unknown[] = policyData.operator === AbacOperator.IN
+      ? JSON.parse(policyData.value)
+      : [policyData.value];
+
+    for (const value of values) {
+      if (!rule.isValid(String(value))) {
+        throw new Error(`Value '${value}' untuk ${policyData.attribute} tidak valid: ${rule.hint}`);
+      }
+    }
+  }
+
+  /**
+   * Validasi format IPv4 atau CIDR IPv4
+   * @param value - IP atau CIDR
+   * @returns boolean - true jika valid
+   */
+  private isValidIpv4OrCidr(value: string): boolean {
+    const [ip, prefix] = value.split('/');
+    const validIp = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/.test(ip) &&
+      ip.split('.').every(octet => Number(octet) <= 255);
+    const validPrefix = prefix === undefined || (/^\d{1,2}$/.test(prefix) && Number(prefix) <= 32);
+    return validIp && validPrefix;
   }
 
   /**
@@ -265,6 +808,7 @@ export class PolicyManagementService extends BaseService {
     totalPolicies: number;
     policiesByAttribute: Record<string, number>;
     policiesByOperator: Record<string, number>;
+    policiesByCombinator: Record<string, number>;
   }> {
     return this.executeWithErrorHandling(
       'get policy statistics',
@@ -273,8 +817,18 @@ export class PolicyManagementService extends BaseService {
         
         const policiesByAttribute: Record<string, number> = {};
         const policiesByOperator: Record<string, number> = {};
+        const policiesByCombinator: Record<string, number> = {};
         
         for (const policy of allPolicies) {
+          // Count group by combinator
+          if (policy.combinator) {
+            policiesByCombinator[policy.combinator] =
+              (policiesByCombinator[policy.combinator] || 0) + 1;
+            continue;
+          }
+
+          if (!policy.attribute || !policy.operator) continue;
+
           // Count by attribute
           policiesByAttribute[policy.attribute] = 
             (policiesByAttribute[policy.attribute] || 0) + 1;
@@ -285,9 +839,10 @@ export class PolicyManagementService extends BaseService {
         }
         
         return {
-          totalPolicies: allPolicies.length,
+          totalPolicies: allPolicies.filter(policy => policy.parentId === null).length,
           policiesByAttribute,
-          policiesByOperator
+          policiesByOperator,
+          policiesByCombinator
         };
       }
     );
@@ -298,6 +853,9 @@ export class PolicyManagementService extends BaseService {
 export const policyManagementService = new PolicyManagementService(
   new PolicyRepository('PolicyRepository'),
   new PolicyComparisonService(),
+  new PolicyExpressionService(new PolicyComparisonService()),
+  new PolicyVersionRepository('PolicyVersionRepository'),
+  attributeDefinitionService,
   new ValidationService(),
   new ErrorHandler()
 );
\ No newline at end of file
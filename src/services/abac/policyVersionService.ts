@@ -0,0 +1,104 @@
+import { BaseService } from "../base/baseService";
+import { PolicyVersionRepository, type PolicyVersionWithAuthor } from "../../repositories/policyVersion";
+import { PolicyComparisonService } from "./policyComparisonService";
+import { PolicyExpressionService } from "./policyExpressionService";
+import type { PolicyExpressionInput, PolicyVersion } from "@/db/schema";
+import {
+  PolicyEnforcementMode,
+  PolicyVersionChange,
+  PolicyVersionEntry,
+  VersionAction
+} from "./types";
+
+/**
+ * Service history versi root policy ABAC
+ * Menyusun daftar versi beserta diff expression dan enforcement mode terhadap versi sebelumnya
+ */
+export class PolicyVersionService extends BaseService {
+  constructor(
+    private policyVersionRepository: PolicyVersionRepository,
+    private policyExpressionService: PolicyExpressionService
+  ) {
+    super();
+  }
+
+  /**
+   * Ambil history versi policy, versi terbaru lebih dulu
+   * History tetap tersedia setelah policy dihapus
+   * @param policyId - ID root policy
+   * @returns Promise<PolicyVersionEntry[]> - Versi beserta perubahan dibanding versi sebelumnya
+   */
+  async getHistory(policyId: number): Promise<PolicyVersionEntry[]> {
+    return this.executeWithErrorHandling(
+      'get policy version history',
+      async () => {
+        const versions = await this.policyVersionRepository.findByPolicyId(policyId);
+
+        let previous: PolicyVersionEntry | null = null;
+        const entries: PolicyVersionEntry[] = [];
+        for (const version of versions) {
+          const entry = this.toEntry(version, previous);
+          entries.push(entry);
+          previous = entry;
+        }
+
+        return entries.reverse();
+      }
+    );
+  }
+
+  /**
+   * Ambil satu versi policy
+   * @param policyId - ID root policy
+   * @param version - Nomor versi
+   * @returns Promise<PolicyVersion | null> - Versi atau null jika tidak ditemukan
+   */
+  async getVersion(policyId: number, version: number): Promise<PolicyVersion | null> {
+    return this.executeWithErrorHandling(
+      'get policy version',
+      async () => {
+        const policyVersion = await this.policyVersionRepository.findByPolicyAndVersion(policyId, version);
+        return policyVersion || null;
+      }
+    );
+  }
+
+  /**
+   * Konversi row versi menjadi entry history beserta diff-nya
+   * @param version - Row versi beserta nama author
+   * @param previous - Entry versi sebelumnya (null untuk versi pertama)
+   * @returns PolicyVersionEntry - Entry history
+   */
+  private toEntry(version: PolicyVersionWithAuthor, previous: PolicyVersionEntry | null): PolicyVersionEntry {
+    const expression = version.expression ? JSON.parse(version.expression) as PolicyExpressionInput : null;
+    const description = expression ? this.policyExpressionService.describe(expression) : null;
+    const enforcementMode = version.enforcementMode as PolicyEnforcementMode | null;
+
+    const changes: PolicyVersionChange[] = [];
+    if ((previous?.description ?? null) !== description) {
+      changes.push({ field: "expression", before: previous?.description ?? null, after: description });
+    }
+    if ((previous?.enforcementMode ?? null) !== enforcementMode) {
+      changes.push({ field: "enforcementMode", before: previous?.enforcementMode ?? null, after: enforcementMode });
+    }
+
+    return {
+      version: version.version,
+      action: version.action as VersionAction,
+      expression,
+      description,
+      enforcementMode,
+      comment: version.comment,
+      authorId: version.authorId,
+      authorName: version.authorName,
+      createdAt: version.createdAt,
+      changes
+    };
+  }
+}
+
+// Export instance untuk digunakan di API routes
+export const policyVersionService = new PolicyVersionService(
+  new PolicyVersionRepository('PolicyVersionRepository'),
+  new PolicyExpressionService(new PolicyComparisonService())
+);
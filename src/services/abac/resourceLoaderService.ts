@@ -0,0 +1,116 @@
+import { BaseService } from "../base/baseService";
+import { UserRepository } from "../../repositories/user/userRepository";
+import { UserAttributeService, userAttributeService } from "./userAttributeService";
+import { AbacResource, ResourceIdExtractor, ResourceLoader } from "./types";
+
+/**
+ * Service untuk memuat attribute resource yang diakses per feature
+ * Hasilnya dievaluasi policy melalui attribute resource.* (contoh: resource.department)
+ * Setiap loader mendeklarasikan route yang menyediakan resource-nya; di route lain
+ * (contoh: endpoint list) policy yang merujuk resource.* tidak terpenuhi (deny)
+ */
+export class ResourceLoaderService extends BaseService {
+  private loaders = new Map<string, { load: ResourceLoader; resourceIdFromPath: ResourceIdExtractor }>();
+
+  constructor(
+    private userRepository: UserRepository,
+    private userAttributeService: UserAttributeService
+  ) {
+    super();
+    // /api/users/:id dan /api/v1/users/:id beserta sub-route-nya (roles, permissions, mfa, access-tokens, ...)
+    this.register(
+      'user_management',
+      resourceId => this.loadUserResource(resourceId),
+      pathname => /^\/api(?:\/v1)?\/users\/(\d+)(?:\/|$)/.exec(pathname)?.[1] ?? null
+    );
+  }
+
+  /**
+   * Daftarkan resource loader untuk feature
+   * @param featureName - Nama feature (contoh: user_management)
+   * @param loader - Function untuk memuat attribute resource berdasarkan ID
+   * @param resourceIdFromPath - Function untuk mengambil ID resource dari path route yang menyediakan resource
+   */
+  register(featureName: string, loader: ResourceLoader, resourceIdFromPath: ResourceIdExtractor): void {
+    this.loaders.set(featureName, { load: loader, resourceIdFromPath });
+  }
+
+  /**
+   * Cek apakah feature memiliki resource loader
+   * @param featureName - Nama feature
+   * @returns boolean - true jika resource loader terdaftar
+   */
+  hasLoader(featureName: string): boolean {
+    return this.loaders.has(featureName);
+  }
+
+  /**
+   * Muat attribute resource untuk feature tertentu
+   * @param featureName - Nama feature
+   * @param resourceId - ID resource yang diakses
+   * @returns Promise<AbacResource | null> - Attribute resource atau null jika resource tidak ditemukan
+   */
+  async loadResource(featureName: string, resourceId: string): Promise<AbacResource | null> {
+    return this.executeWithErrorHandling(
+      'load ABAC resource',
+      async () => {
+        const loader = this.loaders.get(featureName);
+        if (!loader) {
+          throw new Error(`Resource loader untuk feature '${featureName}' tidak ditemukan`);
+        }
+
+        return loader.load(resourceId);
+      }
+    );
+  }
+
+  /**
+   * Muat attribute resource yang disediakan route untuk feature tertentu
+   * @param featureName - Nama feature
+   * @param pathname - Path route yang diakses
+   * @returns Promise<AbacResource | undefined> - Attribute resource, undefined jika route tidak
+   *   menyediakan resource atau resource tidak ditemukan
+   */
+  async loadRouteResource(featureName: string, pathname: string): Promise<AbacResource | undefined> {
+    const resourceId = this.loaders.get(featureName)?.resourceIdFromPath(pathname);
+    if (!resourceId) {
+      return undefined;
+    }
+
+    return (await this.loadResource(featureName, resourceId)) ?? undefined;
+  }
+
+  /**
+   * Resource loader untuk user_management: user record yang akan dibaca/diubah/dihapus
+   * owner_id sebuah user record adalah user itu sendiri
+   * @param resourceId - ID user target
+   * @returns Promise<AbacResource | null> - Attribute user target atau null jika tidak ditemukan
+   */
+  private async loadUserResource(resourceId: string): Promise<AbacResource | null> {
+    const userId = Number(resourceId);
+    if (!Number.isInteger(userId) || userId <= 0) {
+      return null;
+    }
+
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      return null;
+    }
+
+    return {
+      ...(await this.userAttributeService.getCustomAttributeValues(user.id)),
+      id: user.id,
+      owner_id: user.id,
+      department: user.department,
+      region: user.region,
+      level: user.level,
+      active: user.active ?? true
+    };
+  }
+}
+
+// Export instance untuk digunakan di service lain
+export const resourceLoaderService = new ResourceLoaderService(
+  new UserRepository(),
+  userAttributeService
+);
@@ -0,0 +1,100 @@
+import { BaseService } from "../base/baseService";
+import { PolicyRepository } from "../../repositories/policy/policyRepository";
+import { FeatureRepository } from "../../repositories/feature/featureRepository";
+import { PolicyViolationRepository } from "../../repositories/policyViolation";
+import { PolicyComparisonService } from "./policyComparisonService";
+import { PolicyExpressionService } from "./policyExpressionService";
+import { shadowPolicyReportQuerySchema } from "@/db/schema";
+import { ShadowPolicyReport, ShadowPolicyReportEntry } from "./types";
+
+// Jumlah attribute penyebab penolakan terbanyak yang ditampilkan per policy
+const TOP_ATTRIBUTE_LIMIT = 5;
+
+/**
+ * Service laporan policy mode audit (shadow)
+ * Merangkum penolakan yang akan terjadi jika policy di-enforce, dibandingkan dengan
+ * penolakan policy enforce pada feature yang sama, sebagai dasar promote policy ke enforce
+ */
+export class ShadowPolicyReportService extends BaseService {
+  constructor(
+    private policyRepository: PolicyRepository,
+    private featureRepository: FeatureRepository,
+    private policyViolationRepository: PolicyViolationRepository,
+    private policyExpressionService: PolicyExpressionService
+  ) {
+    super();
+  }
+
+  /**
+   * Buat laporan shadow violation untuk semua root policy mode audit
+   * @param days - Panjang periode laporan dalam hari (default 30)
+   * @returns Promise<ShadowPolicyReport> - Ringkasan per policy, shadow violation terbanyak lebih dulu
+   */
+  async getReport(days?: number): Promise<ShadowPolicyReport> {
+    return this.executeWithErrorHandling(
+      'get shadow policy report',
+      async () => {
+        const { days: periodDays } = this.validateInput(shadowPolicyReportQuerySchema, { days });
+        const periodEnd = new Date();
+        const periodStart = new Date(periodEnd.getTime() - periodDays * 24 * 60 * 60 * 1000);
+
+        const auditRoots = await this.policyRepository.findRootsByEnforcementMode("audit");
+        const policyIds = auditRoots.map(policy => policy.id);
+        const featureIds = [...new Set(auditRoots.map(policy => policy.featureId))];
+
+        const [features, featureRows, shadowSummary, shadowAttributes, enforcedSummary] = await Promise.all([
+          this.featureRepository.findAll(),
+          Promise.all(featureIds.map(featureId => this.policyRepository.findByFeatureId(featureId))),
+          this.policyViolationRepository.summarizeShadowViolations(policyIds, periodStart),
+          this.policyViolationRepository.countShadowViolationsByAttribute(policyIds, periodStart),
+          this.policyViolationRepository.summarizeEnforcedViolationsByFeature(featureIds, periodStart)
+        ]);
+
+        const featureNames = new Map(features.map(feature => [feature.id, feature.name]));
+        const descriptions = new Map(
+          this.policyExpressionService.buildExpressionTrees(featureRows.flat())
+            .map(policy => [policy.id, this.policyExpressionService.describe(policy.expression)])
+        );
+        const shadowByPolicy = new Map(shadowSummary.map(row => [row.policyId, row]));
+        const enforcedByFeature = new Map(enforcedSummary.map(row => [row.featureId, row]));
+
+        const policies: ShadowPolicyReportEntry[] = auditRoots.map(policy => {
+          const shadow = shadowByPolicy.get(policy.id);
+          const enforced = enforcedByFeature.get(policy.featureId);
+          return {
+            policyId: policy.id,
+            featureId: policy.featureId,
+            featureName: featureNames.get(policy.featureId) ?? null,
+            description: descriptions.get(policy.id) ?? '',
+            createdAt: policy.createdAt,
+            shadowViolations: shadow?.total ?? 0,
+            affectedUsers: shadow?.users ?? 0,
+            firstSeenAt: shadow?.firstSeenAt ?? null,
+            lastSeenAt: shadow?.lastSeenAt ?? null,
+            topAttributes: shadowAttributes
+              .filter(row => row.policyId === policy.id)
+              .sort((a, b) => b.total - a.total)
+              .slice(0, TOP_ATTRIBUTE_LIMIT)
+              .map(row => ({ attribute: row.attribute, count: row.total })),
+            enforcedViolations: enforced?.total ?? 0,
+            enforcedAffectedUsers: enforced?.users ?? 0
+          };
+        });
+
+        return {
+          periodStart,
+          periodEnd,
+          policies: policies.sort((a, b) => b.shadowViolations - a.shadowViolations || a.policyId - b.policyId)
+        };
+      }
+    );
+  }
+}
+
+// Export instance untuk digunakan di API routes
+export const shadowPolicyReportService = new ShadowPolicyReportService(
+  new PolicyRepository('PolicyRepository'),
+  new FeatureRepository('FeatureRepository'),
+  new PolicyViolationRepository('PolicyViolationRepository'),
+  new PolicyExpressionService(new PolicyComparisonService())
+);
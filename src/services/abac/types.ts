@@ -1,10 +1,23 @@
 import { z } from "zod";
-import type { Policy, User } from "@/db/schema";
+import { policyEnforcementModeSchema, policyExpressionSchema, userAttributeValueInputSchema } from "@/db/schema";
+import type { Policy, PolicyEnforcementMode, PolicyExpressionInput, User, UserAttributeValueInput, VersionAction } from "@/db/schema";
 
 /**
  * Re-export types dari schema database
  */
-export type { Policy, User } from "@/db/schema";
+export type {
+  Policy,
+  User,
+  PolicyExpressionInput,
+  PolicyEnforcementMode,
+  VersionAction,
+  VersionChangeMeta,
+  AttributeDefinition,
+  AttributeType,
+  CreateAttributeDefinitionInput,
+  UpdateAttributeDefinitionInput,
+  UserAttributeValueInput
+} from "@/db/schema";
 
 /**
  * Interface untuk data pembuatan policy baru
@@ -14,6 +27,168 @@ export interface PolicyCreateInput {
   attribute: string;
   operator: string;
   value: string;
+  enforcementMode?: PolicyEnforcementMode;
+}
+
+/**
+ * Enum untuk combinator pada policy group
+ */
+export enum PolicyCombinator {
+  AND = "AND",
+  OR = "OR",
+  NOT = "NOT"
+}
+
+/**
+ * Node condition pada expression tree policy
+ */
+export interface PolicyConditionNode {
+  type: "condition";
+  id?: number;
+  attribute: string;
+  operator: string;
+  value: string;
+}
+
+/**
+ * Node group pada expression tree policy
+ */
+export interface PolicyGroupNode {
+  type: "group";
+  id?: number;
+  combinator: PolicyCombinator | `${PolicyCombinator}`;
+  children: PolicyExpression[];
+}
+
+/**
+ * Expression tree policy: condition tunggal atau group bertingkat
+ */
+export type PolicyExpression = PolicyConditionNode | PolicyGroupNode;
+
+/**
+ * Root policy beserta expression tree lengkapnya
+ */
+export type PolicyWithExpression = Policy & {
+  expression: PolicyExpression;
+};
+
+/**
+ * Nilai custom attribute yang sudah di-parse sesuai tipe-nya
+ * (date disimpan sebagai string ISO, list sebagai array string)
+ */
+export type AbacAttributeValue = string | number | boolean | string[];
+
+/**
+ * Subset attribute user yang dibutuhkan untuk evaluasi expression
+ * attributes berisi custom attribute terdaftar (cost_center, clearance, dll)
+ */
+export type AbacSubject = Pick<User, "department" | "region" | "level"> & {
+  id?: number;
+  attributes?: Record<string, AbacAttributeValue>;
+  context?: AbacRequestContext;
+  resource?: AbacResource;
+};
+
+/**
+ * Attribute resource yang sedang diakses (contoh: user record yang akan diupdate)
+ * Policy mereferensikannya dengan prefix 'resource.' (contoh: resource.department)
+ */
+export type AbacResource = Record<string, AbacAttributeValue | null>;
+
+/**
+ * Loader resource per feature: mengambil attribute resource berdasarkan ID-nya
+ */
+export type ResourceLoader = (resourceId: string) => Promise<AbacResource | null>;
+
+/**
+ * Ambil ID resource dari path route yang menyediakan resource feature (contoh: /api/v1/users/12/roles -> '12')
+ * null jika route tidak menyediakan resource (contoh: endpoint list)
+ */
+export type ResourceIdExtractor = (pathname: string) => string | null;
+
+/**
+ * Prefix attribute policy berdasarkan sumber nilainya
+ */
+export enum AttributeScope {
+  USER = "user.",
+  CONTEXT = "context.",
+  RESOURCE = "resource."
+}
+
+/**
+ * Prefix value policy yang menandakan referensi ke attribute lain
+ * (contoh: resource.owner_id == $user.id)
+ */
+export const ATTRIBUTE_REFERENCE_PREFIX = "$";
+
+/**
+ * Attribute lingkungan dan request yang dikumpulkan middleware dari NextRequest
+ * Policy mereferensikannya dengan prefix 'context.' (contoh: context.time_of_day)
+ */
+export interface AbacRequestContext {
+  timeOfDay: string; // Format HH:mm sesuai timezone ABAC
+  dayOfWeek: string; // monday, tuesday, ... sunday
+  ip: string | null;
+  userAgent: string | null;
+  method: string;
+}
+
+/**
+ * Hasil evaluasi expression tree
+ * indeterminate berarti ada attribute yang hilang atau perbandingan yang error
+ */
+export interface ExpressionEvaluationResult {
+  isValid: boolean;
+  indeterminate: boolean;
+  failedConditions: {
+    policyId?: number;
+    attribute: string;
+    operator: string;
+    value: string;
+    actualValue?: string | null;
+    reason: string;
+  }[];
+}
+
+/**
+ * Jejak evaluasi satu node expression tree (explain keputusan otorisasi)
+ * Untuk condition, expectedValue adalah nilai policy setelah referensi attribute ($...) di-resolve
+ */
+export interface PolicyExpressionTrace {
+  id?: number;
+  type: "condition" | "group";
+  description: string;
+  passed: boolean;
+  indeterminate: boolean;
+  attribute?: string;
+  operator: string;
+  expectedValue?: string;
+  actualValue?: string | null;
+  reason?: string;
+  children?: PolicyExpressionTrace[];
+}
+
+/**
+ * Jejak evaluasi satu root policy feature
+ * skipped berarti policy disabled (tidak ikut menentukan keputusan); policy yang merujuk resource.*
+ * sementara resource tidak tersedia tetap dievaluasi dan gagal (indeterminate)
+ * Policy mode audit tetap dievaluasi, tetapi hasilnya tidak ikut menentukan keputusan
+ */
+export interface PolicyDecisionTrace {
+  policyId: number;
+  description: string;
+  enforcementMode: PolicyEnforcementMode;
+  skipped: boolean;
+  passed: boolean;
+  trace: PolicyExpressionTrace;
+}
+
+/**
+ * Jejak evaluasi semua policies feature
+ */
+export interface PolicyEvaluationTrace {
+  isValid: boolean;
+  policies: PolicyDecisionTrace[];
 }
 
 /**
@@ -23,6 +198,17 @@ export interface UserAttributesUpdateInput {
   department?: string;
   region?: string;
   level?: number;
+  attributes?: Record<string, UserAttributeValueInput>;
+}
+
+/**
+ * Interface untuk user attributes lengkap (bawaan dan custom)
+ */
+export interface UserAbacAttributes {
+  department: string | null;
+  region: string | null;
+  level: number | null;
+  attributes: Record<string, AbacAttributeValue>;
 }
 
 /**
@@ -37,6 +223,65 @@ export interface PolicyEvaluationResult {
     value: string;
     reason: string;
   }[];
+  failedConditions?: ExpressionEvaluationResult["failedConditions"];
+  // Kondisi gagal dari policy mode audit: dicatat sebagai shadow violation, tidak memblokir akses
+  shadowFailedConditions?: ExpressionEvaluationResult["failedConditions"];
+}
+
+/**
+ * Ringkasan shadow violation satu policy mode audit dalam periode laporan
+ * enforcedViolations/enforcedAffectedUsers berasal dari policy enforce pada feature yang sama
+ * sebagai pembanding seberapa banyak penolakan tambahan jika policy di-promote ke enforce
+ */
+export interface ShadowPolicyReportEntry {
+  policyId: number;
+  featureId: number;
+  featureName: string | null;
+  description: string;
+  createdAt: Date;
+  shadowViolations: number;
+  affectedUsers: number;
+  firstSeenAt: Date | null;
+  lastSeenAt: Date | null;
+  topAttributes: { attribute: string; count: number }[];
+  enforcedViolations: number;
+  enforcedAffectedUsers: number;
+}
+
+/**
+ * Laporan shadow policy untuk menilai kesiapan promote policy ke enforce
+ */
+export interface ShadowPolicyReport {
+  periodStart: Date;
+  periodEnd: Date;
+  policies: ShadowPolicyReportEntry[];
+}
+
+/**
+ * Perubahan satu field policy dibanding versi sebelumnya
+ * Expression dibandingkan dalam bentuk deskripsi (contoh: "department == Finance AND level >= 5")
+ */
+export interface PolicyVersionChange {
+  field: "expression" | "enforcementMode";
+  before: string | null;
+  after: string | null;
+}
+
+/**
+ * Satu versi policy pada history beserta diff terhadap versi sebelumnya
+ * expression dan enforcementMode null jika versi berupa penghapusan policy
+ */
+export interface PolicyVersionEntry {
+  version: number;
+  action: VersionAction;
+  expression: PolicyExpressionInput | null;
+  description: string | null;
+  enforcementMode: PolicyEnforcementMode | null;
+  comment: string | null;
+  authorId: number | null;
+  authorName: string | null;
+  createdAt: Date;
+  changes: PolicyVersionChange[];
 }
 
 /**
@@ -58,7 +303,8 @@ export enum AbacOperator {
   GREATER_THAN_OR_EQUAL = ">=",
   LESS_THAN = "<",
   LESS_THAN_OR_EQUAL = "<=",
-  IN = "in"
+  IN = "in",
+  CONTAINS = "contains"
 }
 
 /**
@@ -70,6 +316,30 @@ export enum UserAttribute {
   LEVEL = "level"
 }
 
+/**
+ * Enum untuk supported context attributes (environment dan request)
+ */
+export enum ContextAttribute {
+  TIME_OF_DAY = "context.time_of_day",
+  DAY_OF_WEEK = "context.day_of_week",
+  IP = "context.ip",
+  USER_AGENT = "context.user_agent",
+  METHOD = "context.method"
+}
+
+/**
+ * Nama hari untuk context.day_of_week (urutan sesuai Date.getDay())
+ */
+export const DAYS_OF_WEEK = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday"
+] as const;
+
 /**
  * Schema validasi untuk create policy
  */
@@ -77,7 +347,17 @@ export const createPolicySchema = z.object({
   featureId: z.number().int().positive("Feature ID harus berupa integer positif"),
   attribute: z.string().min(1, "Attribute tidak boleh kosong"),
   operator: z.string().min(1, "Operator tidak boleh kosong"),
-  value: z.string().min(1, "Value tidak boleh kosong")
+  value: z.string().min(1, "Value tidak boleh kosong"),
+  enforcementMode: policyEnforcementModeSchema.optional()
+});
+
+/**
+ * Schema validasi untuk create/replace policy expression
+ */
+export const policyExpressionInputSchema = z.object({
+  featureId: z.number().int().positive("Feature ID harus berupa integer positif"),
+  expression: policyExpressionSchema,
+  enforcementMode: policyEnforcementModeSchema.optional()
 });
 
 /**
@@ -86,7 +366,8 @@ export const createPolicySchema = z.object({
 export const updateUserAttributesSchema = z.object({
   department: z.string().optional(),
   region: z.string().optional(),
-  level: z.number().int().min(1).max(10).optional()
+  level: z.number().int().min(1).max(10).optional(),
+  attributes: z.record(z.string(), userAttributeValueInputSchema).optional()
 });
 
 /**
@@ -101,5 +382,6 @@ export const policyEvaluationSchema = z.object({
  * Type untuk validated input dari schema
  */
 export type ValidatedPolicyCreateInput = z.infer<typeof createPolicySchema>;
+export type ValidatedPolicyExpressionInput = z.infer<typeof policyExpressionInputSchema>;
 export type ValidatedUserAttributesUpdateInput = z.infer<typeof updateUserAttributesSchema>;
 export type ValidatedPolicyEvaluationInput = z.infer<typeof policyEvaluationSchema>;
\ No newline at end of file
@@ -1,9 +1,18 @@
 import { BaseService } from "../base/baseService";
 import { ValidationService } from "../../lib/validation/validator";
-import { ErrorHandler, NotFoundError } from "../../lib/errors/errorHandler";
+import { ErrorHandler, NotFoundError, ValidationError } from "../../lib/errors/errorHandler";
 import { UserRepository } from "../../repositories/user/userRepository";
 import {
+  UserAttributeValueRepository,
+  userAttributeValueRepository
+} from "../../repositories/attribute/userAttributeValueRepository";
+import { AttributeDefinitionService, attributeDefinitionService } from "./attributeDefinitionService";
+import {
+  AbacAttributeValue,
+  AbacSubject,
   User,
+  UserAbacAttributes,
+  UserAttributeValueInput,
   UserAttributesUpdateInput,
   ValidatedUserAttributesUpdateInput,
   updateUserAttributesSchema,
@@ -17,6 +26,8 @@ import {
 export class UserAttributeService extends BaseService {
   constructor(
     private userRepository: UserRepository,
+    private userAttributeValueRepository: UserAttributeValueRepository,
+    private attributeDefinitionService: AttributeDefinitionService,
     private validationService: ValidationService,
     private errorHandler: ErrorHandler
   ) {
@@ -26,7 +37,8 @@ export class UserAttributeService extends BaseService {
   /**
    * Update user ABAC attributes
    * @param userId - ID user
-   * @param attributes - Object dengan department, region, level
+   * @param attributes - Object dengan department, region, level dan custom attributes
+   *   (nilai null pada custom attribute berarti nilai dihapus)
    * @returns Promise<User> - User yang diupdate
    */
   async updateUserAttributes(
@@ -45,8 +57,19 @@ export class UserAttributeService extends BaseService {
           throw new NotFoundError('User', userId);
         }
         
-        // Update user attributes
-        const updatedUser = await this.userRepository.update(userId, validatedData);
+        const { attributes: customAttributes, ...builtInAttributes } = validatedData;
+
+        // Simpan custom attributes setelah divalidasi terhadap registry
+        if (customAttributes && Object.keys(customAttributes).length > 0) {
+          await this.saveCustomAttributes(userId, customAttributes);
+        }
+
+        if (Object.keys(builtInAttributes).length === 0) {
+          return existingUser;
+        }
+
+        // Update user attributes bawaan
+        const updatedUser = await this.userRepository.update(userId, builtInAttributes);
         
         if (!updatedUser) {
           throw new Error('Failed to update user attributes');
@@ -60,24 +83,21 @@ export class UserAttributeService extends BaseService {
   /**
    * Update single user attribute
    * @param userId - ID user
-   * @param attribute - Nama attribute (department, region, level)
+   * @param attribute - Nama attribute (department, region, level, atau custom attribute)
    * @param value - Nilai attribute
    * @returns Promise<User> - User yang diupdate
    */
   async updateSingleAttribute(
     userId: number,
     attribute: string,
-    value: string | number
+    value: Exclude<UserAttributeValueInput, null>
   ): Promise<User> {
     return this.executeWithErrorHandling(
       'update single user attribute',
       async () => {
-        // Validasi attribute name
+        // Custom attribute divalidasi terhadap registry di updateUserAttributes
         if (!this.isValidAttribute(attribute)) {
-          throw new Error(
-            `Invalid attribute: ${attribute}. ` +
-            `Valid attributes: ${this.getSupportedAttributes().join(', ')}`
-          );
+          return await this.updateUserAttributes(userId, { attributes: { [attribute]: value } });
         }
 
         // Buat object update berdasarkan attribute
@@ -112,13 +132,9 @@ export class UserAttributeService extends BaseService {
   /**
    * Get user attributes untuk ABAC evaluation
    * @param userId - ID user
-   * @returns Promise<object> - Object dengan ABAC attributes
+   * @returns Promise<UserAbacAttributes> - Object dengan ABAC attributes bawaan dan custom
    */
-  async getUserAttributes(userId: number): Promise<{
-    department: string | null;
-    region: string | null;
-    level: number | null;
-  }> {
+  async getUserAttributes(userId: number): Promise<UserAbacAttributes> {
     return this.executeWithErrorHandling(
       'get user ABAC attributes',
       async () => {
@@ -130,12 +146,52 @@ export class UserAttributeService extends BaseService {
         return {
           department: user.department,
           region: user.region,
-          level: user.level
+          level: user.level,
+          attributes: await this.getCustomAttributeValues(userId)
         };
       }
     );
   }
 
+  /**
+   * Get custom attribute values milik user yang sudah di-parse sesuai tipe-nya
+   * @param userId - ID user
+   * @returns Promise<Record<string, AbacAttributeValue>> - Map nama attribute -> nilai
+   */
+  async getCustomAttributeValues(userId: number): Promise<Record<string, AbacAttributeValue>> {
+    return this.executeWithErrorHandling(
+      'get user custom attributes',
+      async () => {
+        const rows = await this.userAttributeValueRepository.findByUserId(userId);
+        const attributes: Record<string, AbacAttributeValue> = {};
+
+        for (const { value, definition } of rows) {
+          const parsed = this.attributeDefinitionService.parseValue(definition, value.value);
+          if (parsed !== null) {
+            attributes[definition.name] = parsed;
+          }
+        }
+
+        return attributes;
+      }
+    );
+  }
+
+  /**
+   * Bangun subject ABAC dari user beserta custom attributes-nya
+   * @param user - User object
+   * @returns Promise<AbacSubject> - Subject untuk evaluasi policy
+   */
+  async getAbacSubject(user: User): Promise<AbacSubject> {
+    return {
+      id: user.id,
+      department: user.department,
+      region: user.region,
+      level: user.level,
+      attributes: await this.getCustomAttributeValues(user.id)
+    };
+  }
+
   /**
    * Batch update attributes untuk multiple users
    * @param updates - Array object dengan userId dan attributes
@@ -188,30 +244,47 @@ export class UserAttributeService extends BaseService {
           level: undefined
         };
         
-        return await this.updateUserAttributes(userId, resetData);
+        const user = await this.updateUserAttributes(userId, resetData);
+        await this.userAttributeValueRepository.deleteByUserId(userId);
+
+        return user;
       }
     );
   }
 
   /**
    * Cari users berdasarkan attribute values
-   * @param attribute - Nama attribute
-   * @param value - Nilai attribute
+   * @param attribute - Nama attribute (bawaan atau custom)
+   * @param value - Nilai attribute (untuk attribute list, user cocok jika list memuat nilai ini)
    * @returns Promise<User[]> - Array users yang memiliki attribute value tersebut
    */
   async findUsersByAttribute(
     attribute: string,
-    value: string | number
+    value: string | number | boolean
   ): Promise<User[]> {
     return this.executeWithErrorHandling(
       'find users by attribute',
       async () => {
-        if (!this.isValidAttribute(attribute)) {
-          throw new Error(`Invalid attribute: ${attribute}`);
-        }
-
         // Ambil semua users dan filter berdasarkan attribute
         const allUsers = await this.userRepository.findAll();
+
+        if (!this.isValidAttribute(attribute)) {
+          const definition = await this.attributeDefinitionService.getDefinitionByName(attribute);
+          if (!definition) {
+            throw new Error(`Invalid attribute: ${attribute}`);
+          }
+
+          const matchingUserIds = new Set(
+            (await this.userAttributeValueRepository.findByAttributeId(definition.id))
+              .filter(row => {
+                const parsed = this.attributeDefinitionService.parseValue(definition, row.value);
+                return Array.isArray(parsed) ? parsed.includes(String(value)) : parsed === value;
+              })
+              .map(row => row.userId)
+          );
+
+          return allUsers.filter(user => matchingUserIds.has(user.id));
+        }
         
         return allUsers.filter(user => {
           switch (attribute) {
@@ -296,6 +369,39 @@ export class UserAttributeService extends BaseService {
     );
   }
 
+  /**
+   * Validasi dan simpan custom attributes user
+   * @param userId - ID user
+   * @param customAttributes - Map nama attribute -> nilai (null untuk menghapus)
+   * @throws ValidationError jika attribute tidak terdaftar atau nilai tidak valid
+   */
+  private async saveCustomAttributes(
+    userId: number,
+    customAttributes: Record<string, UserAttributeValueInput>
+  ): Promise<void> {
+    const definitions = await this.attributeDefinitionService.getDefinitionMap();
+
+    // Validasi semua nilai dahulu agar tidak ada perubahan parsial
+    const changes = Object.entries(customAttributes).map(([name, value]) => {
+      const definition = definitions.get(name);
+      if (!definition) {
+        throw new ValidationError(`Attribute '${name}' tidak terdaftar`);
+      }
+      return {
+        definition,
+        value: value === null ? null : this.attributeDefinitionService.serializeValue(definition, value)
+      };
+    });
+
+    for (const { definition, value } of changes) {
+      if (value === null) {
+        await this.userAttributeValueRepository.delete(userId, definition.id);
+      } else {
+        await this.userAttributeValueRepository.upsert(userId, definition.id, value);
+      }
+    }
+  }
+
   /**
    * Validasi apakah attribute yang diberikan valid
    * @param attribute - Attribute yang akan divalidasi
@@ -353,6 +459,8 @@ export class UserAttributeService extends BaseService {
 // Export instance untuk digunakan di service lain
 export const userAttributeService = new UserAttributeService(
   new UserRepository(),
+  userAttributeValueRepository,
+  attributeDefinitionService,
   new ValidationService(),
   new ErrorHandler()
 );
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { BaseService } from "../base/baseService";
 import { SessionRepository } from "../../repositories/session/sessionRepository";
 import type { Session } from "../../db/schema";
+import { parseDeviceLabel } from "../../lib/auth/authService/sessionService/deviceLabel";
 import { 
   type SessionLog, 
   type AuditFilters 
@@ -36,6 +37,9 @@ export class SessionLogService extends BaseService {
         const sessionData = {
           userId: data.userId,
           refreshToken: data.sessionId,
+          ipAddress: data.ipAddress ?? null,
+          userAgent: data.userAgent ?? null,
+          deviceLabel: parseDeviceLabel(data.userAgent),
           expiresAt: data.expiresAt,
           createdAt: new Date()
         };
@@ -94,8 +98,8 @@ export class SessionLogService extends BaseService {
           userId: session.userId,
           action: 'login' as const, // Default action since we don't track logout separately
           sessionId: session.refreshToken,
-          ipAddress: undefined,
-          userAgent: undefined,
+          ipAddress: session.ipAddress ?? undefined,
+          userAgent: session.userAgent ?? undefined,
           timestamp: session.createdAt,
           createdAt: session.createdAt,
           expiresAt: session.expiresAt,
@@ -151,8 +155,8 @@ export class SessionLogService extends BaseService {
           userId: session.userId,
           action: 'login' as const,
           sessionId: session.refreshToken,
-          ipAddress: undefined,
-          userAgent: undefined,
+          ipAddress: session.ipAddress ?? undefined,
+          userAgent: session.userAgent ?? undefined,
           timestamp: session.createdAt,
           createdAt: session.createdAt,
           expiresAt: session.expiresAt,
@@ -198,8 +202,8 @@ export class SessionLogService extends BaseService {
           userId: session.userId,
           action: 'logout' as const,
           sessionId: session.refreshToken,
-          ipAddress: undefined,
-          userAgent: undefined,
+          ipAddress: session.ipAddress ?? undefined,
+          userAgent: session.userAgent ?? undefined,
           timestamp: session.createdAt,
           createdAt: session.createdAt,
           expiresAt: session.expiresAt,
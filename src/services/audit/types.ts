@@ -11,7 +11,9 @@ export const createAccessLogSchema = z.object({
   decision: z.enum(["allow", "deny"], { message: "Decision harus 'allow' atau 'deny'" }),
   reason: z.string().optional(),
   userAgent: z.string().optional(),
-  ipAddress: z.string().optional()
+  ipAddress: z.string().optional(),
+  // Diisi jika request memakai personal access token
+  accessTokenId: z.number().int().positive("Access token ID harus berupa integer positif").optional()
 });
 
 /**
@@ -23,17 +25,23 @@ export const createPolicyViolationSchema = z.object({
   policyId: z.number().int().positive("Policy ID harus berupa integer positif"),
   attribute: z.string().min(1, "Attribute tidak boleh kosong"),
   expectedValue: z.string().min(1, "Expected value tidak boleh kosong"),
-  actualValue: z.string().min(1, "Actual value tidak boleh kosong"),
-  reason: z.string().optional()
+  actualValue: z.string().min(1, "Actual value tidak boleh kosong").nullable(),
+  reason: z.string().optional(),
+  // true untuk penolakan dari policy mode audit (akses tidak diblokir)
+  shadow: z.boolean().optional()
 });
 
 /**
  * Schema validasi untuk create change history
  */
 export const createChangeHistorySchema = z.object({
-  adminUserId: z.number().int().positive("Admin User ID harus berupa integer positif"),
-  targetUserId: z.number().int().positive("Target User ID harus berupa integer positif"),
+  // null untuk perubahan otomatis oleh sistem (contoh: role assignment yang expired)
+  adminUserId: z.number().int().positive("Admin User ID harus berupa integer positif").nullable().optional(),
+  // null untuk perubahan yang belum memiliki user target (contoh: undangan user yang belum diterima)
+  targetUserId: z.number().int().positive("Target User ID harus berupa integer positif").nullable().optional(),
   action: z.string().min(1, "Action tidak boleh kosong"),
+  before: z.string().optional(), // JSON string, disimpan ke kolom before
+  after: z.string().optional(),  // JSON string, disimpan ke kolom after
   oldValue: z.string().optional(),
   newValue: z.string().optional(),
   reason: z.string().optional()
@@ -0,0 +1,395 @@
+import {
+  userRepository,
+  roleRepository,
+  userRoleRepository,
+  roleAccessRequestRepository,
+  roleApproverRepository
+} from "@/repositories";
+import { changeHistoryService } from "../audit/changeHistoryService";
+import { userRoleService } from "./userRoleService";
+import {
+  type Role,
+  type RoleAccessRequest,
+  type EnrichedAccessRequest,
+  type UserSummary,
+  type CreateAccessRequestInput,
+  type AccessRequestStatus,
+  createAccessRequestSchema,
+  reviewAccessRequestSchema,
+  setRoleApproversSchema,
+  getRoleAssignmentStatus,
+  UserNotFoundError,
+  RoleNotFoundError,
+  RoleAssignmentExistsError,
+  AccessRequestNotFoundError,
+  AccessRequestNotPendingError,
+  DuplicateAccessRequestError,
+  RoleHasNoApproversError,
+  NotRoleApproverError,
+  RBACError
+} from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Service untuk workflow access request role
+ * User meminta role dengan justifikasi dan durasi, approver yang ditunjuk untuk role
+ * menyetujui atau menolak; approval meng-assign role melalui UserRoleService.assignRole.
+ * Setiap langkah dicatat ke change_history.
+ */
+export class AccessRequestService {
+  /**
+   * Buat access request role untuk user
+   * @param userId - ID user yang meminta role
+   * @param requestData - Role, justifikasi, dan durasi (hari)
+   * @returns Promise<RoleAccessRequest> - Request yang baru dibuat (status pending)
+   * @throws UserNotFoundError jika user tidak ditemukan
+   * @throws RoleNotFoundError jika role tidak ditemukan
+   * @throws RoleAssignmentExistsError jika user sudah memiliki role
+   * @throws DuplicateAccessRequestError jika masih ada request pending untuk role yang sama
+   * @throws RoleHasNoApproversError jika role tidak memiliki approver
+   */
+  async requestRole(userId: number, requestData: CreateAccessRequestInput): Promise<RoleAccessRequest> {
+    const validatedData = createAccessRequestSchema.parse(requestData);
+
+    const user = await userRepository.findById(userId);
+    if (!user) {
+      throw new UserNotFoundError(userId);
+    }
+
+    const role = await roleRepository.findById(validatedData.roleId);
+    if (!role) {
+      throw new RoleNotFoundError(validatedData.roleId);
+    }
+
+    // Assignment expired akan diganti saat approval, selain itu role tidak perlu diminta lagi
+    const existingAssignment = await userRoleRepository.findByUserAndRole(userId, role.id);
+    if (existingAssignment && getRoleAssignmentStatus(existingAssignment) !== 'expired') {
+      throw new RoleAssignmentExistsError(userId, role.id);
+    }
+
+    const pendingRequest = await roleAccessRequestRepository.findPendingByUserAndRole(userId, role.id);
+    if (pendingRequest) {
+      throw new DuplicateAccessRequestError(userId, role.id);
+    }
+
+    const approvers = await roleApproverRepository.findByRoleId(role.id);
+    if (approvers.length === 0) {
+      throw new RoleHasNoApproversError(role.id);
+    }
+
+    const accessRequest = await roleAccessRequestRepository.create({
+      userId,
+      roleId: role.id,
+      justification: validatedData.justification,
+      durationDays: validatedData.durationDays ?? null
+    });
+
+    await this.logStep('requestRole', userId, accessRequest, null, {
+      roleName: role.name,
+      justification: accessRequest.justification,
+      durationDays: accessRequest.durationDays
+    });
+
+    return accessRequest;
+  }
+
+  /**
+   * Setujui access request dan assign role ke user yang meminta
+   * Role di-assign dengan validUntil sesuai durasi request (tanpa durasi = permanen)
+   * @param requestId - ID access request
+   * @param approverId - ID user approver
+   * @param reviewData - Catatan approver (opsional)
+   * @returns Promise<RoleAccessRequest> - Request yang sudah disetujui
+   * @throws AccessRequestNotFoundError jika request tidak ditemukan
+   * @throws AccessRequestNotPendingError jika request sudah diputuskan
+   * @throws NotRoleApproverError jika user bukan approver role
+   * @throws RoleAssignmentExistsError jika user sudah memiliki role
+   * @throws SeparationOfDutiesViolationError jika role melanggar constraint separation-of-duties
+   */
+  async approveRequest(requestId: number, approverId: number, reviewData: unknown = {}): Promise<RoleAccessRequest> {
+    const { note } = reviewAccessRequestSchema.parse(reviewData);
+    const accessRequest = await this.getReviewableRequest(requestId, approverId);
+
+    const reviewedAt = new Date();
+    const validUntil = accessRequest.durationDays
+      ? new Date(reviewedAt.getTime() + accessRequest.durationDays * DAY_MS)
+      : null;
+
+    // Request diklaim dalam transaksi yang sama dengan assignment: jika request dibatalkan atau
+    // ditolak bersamaan, role tidak di-assign; jika assignment gagal, request tetap pending
+    const approval: { request?: RoleAccessRequest } = {};
+    const userRole = await userRoleService.assignRoleWithClaim({
+      userId: accessRequest.userId,
+      roleId: accessRequest.roleId,
+      validUntil
+    }, async (tx) => {
+      approval.request = await roleAccessRequestRepository.updatePending(requestId, {
+        status: 'approved',
+        reviewerId: approverId,
+        reviewNote: note ?? null,
+        reviewedAt
+      }, tx);
+      return approval.request !== undefined;
+    });
+
+    const approvedRequest = approval.request;
+    if (!userRole || !approvedRequest) {
+      throw new AccessRequestNotPendingError(requestId, (await this.getRequestById(requestId)).status);
+    }
+
+    await this.logStep('approveRoleRequest', approverId, approvedRequest, { status: 'pending' }, {
+      userRoleId: userRole.id,
+      validUntil,
+      note: approvedRequest.reviewNote
+    });
+
+    return approvedRequest;
+  }
+
+  /**
+   * Tolak access request
+   * @param requestId - ID access request
+   * @param approverId - ID user approver
+   * @param reviewData - Catatan approver (opsional)
+   * @returns Promise<RoleAccessRequest> - Request yang sudah ditolak
+   * @throws AccessRequestNotFoundError jika request tidak ditemukan
+   * @throws AccessRequestNotPendingError jika request sudah diputuskan
+   * @throws NotRoleApproverError jika user bukan approver role
+   */
+  async rejectRequest(requestId: number, approverId: number, reviewData: unknown = {}): Promise<RoleAccessRequest> {
+    const { note } = reviewAccessRequestSchema.parse(reviewData);
+    await this.getReviewableRequest(requestId, approverId);
+
+    const rejectedRequest = await roleAccessRequestRepository.updatePending(requestId, {
+      status: 'rejected',
+      reviewerId: approverId,
+      reviewNote: note ?? null,
+      reviewedAt: new Date()
+    });
+    if (!rejectedRequest) {
+      throw new AccessRequestNotPendingError(requestId, (await this.getRequestById(requestId)).status);
+    }
+
+    await this.logStep('rejectRoleRequest', approverId, rejectedRequest, { status: 'pending' }, {
+      note: rejectedRequest.reviewNote
+    });
+
+    return rejectedRequest;
+  }
+
+  /**
+   * Batalkan access request milik sendiri yang masih pending
+   * @param requestId - ID access request
+   * @param userId - ID user yang meminta
+   * @returns Promise<RoleAccessRequest> - Request yang sudah dibatalkan
+   * @throws AccessRequestNotFoundError jika request tidak ditemukan atau bukan milik user
+   * @throws AccessRequestNotPendingError jika request sudah diputuskan
+   */
+  async cancelRequest(requestId: number, userId: number): Promise<RoleAccessRequest> {
+    const accessRequest = await this.getRequestById(requestId);
+    if (accessRequest.userId !== userId) {
+      throw new AccessRequestNotFoundError(requestId);
+    }
+
+    const cancelledRequest = await roleAccessRequestRepository.updatePending(requestId, {
+      status: 'cancelled',
+      reviewedAt: new Date()
+    });
+    if (!cancelledRequest) {
+      throw new AccessRequestNotPendingError(requestId, accessRequest.status);
+    }
+
+    await this.logStep('cancelRoleRequest', userId, cancelledRequest, { status: 'pending' }, {});
+
+    return cancelledRequest;
+  }
+
+  /**
+   * Mengambil access request berdasarkan ID
+   * @param requestId - ID access request
+   * @returns Promise<RoleAccessRequest> - Request yang ditemukan
+   * @throws AccessRequestNotFoundError jika request tidak ditemukan
+   */
+  async getRequestById(requestId: number): Promise<RoleAccessRequest> {
+    const accessRequest = await roleAccessRequestRepository.findById(requestId);
+    if (!accessRequest) {
+      throw new AccessRequestNotFoundError(requestId);
+    }
+    return accessRequest;
+  }
+
+  /**
+   * Mengambil semua access request milik user
+   * @param userId - ID user
+   * @returns Promise<EnrichedAccessRequest[]> - Request user beserta role dan reviewer
+   */
+  async getUserRequests(userId: number): Promise<EnrichedAccessRequest[]> {
+    return this.enrichRequests(await roleAccessRequestRepository.findByUserId(userId));
+  }
+
+  /**
+   * Mengambil access request pending yang dapat diputuskan approver
+   * Request milik approver sendiri tidak disertakan
+   * @param approverId - ID user approver
+   * @returns Promise<EnrichedAccessRequest[]> - Antrian approval, terlama lebih dulu
+   */
+  async getPendingApprovals(approverId: number): Promise<EnrichedAccessRequest[]> {
+    const approverEntries = await roleApproverRepository.findByUserId(approverId);
+    const pendingRequests = await roleAccessRequestRepository.findPendingByRoleIds(
+      approverEntries.map(entry => entry.roleId)
+    );
+
+    return this.enrichRequests(pendingRequests.filter(request => request.userId !== approverId));
+  }
+
+  /**
+   * Mengambil semua access request (untuk admin), opsional difilter status
+   * @param status - Status request (opsional)
+   * @returns Promise<EnrichedAccessRequest[]> - Semua request beserta user, role, dan reviewer
+   */
+  async getAllRequests(status?: AccessRequestStatus): Promise<EnrichedAccessRequest[]> {
+    return this.enrichRequests(await roleAccessRequestRepository.findAll(status));
+  }
+
+  /**
+   * Mengambil role yang dapat diminta melalui access request (role yang memiliki approver)
+   * @returns Promise<Pick<Role, 'id' | 'name'>[]> - Role yang dapat diminta
+   */
+  async getRequestableRoles(): Promise<Pick<Role, 'id' | 'name'>[]> {
+    const approverEntries = await roleApproverRepository.findAll();
+    const roleIds = new Set(approverEntries.map(entry => entry.roleId));
+
+    const roles = await roleRepository.findAll();
+    return roles
+      .filter(role => roleIds.has(role.id))
+      .map(({ id, name }) => ({ id, name }));
+  }
+
+  /**
+   * Mengambil approver role
+   * @param roleId - ID role
+   * @returns Promise<UserSummary[]> - User yang ditunjuk sebagai approver
+   * @throws RoleNotFoundError jika role tidak ditemukan
+   */
+  async getRoleApprovers(roleId: number): Promise<UserSummary[]> {
+    const role = await roleRepository.findById(roleId);
+    if (!role) {
+      throw new RoleNotFoundError(roleId);
+    }
+
+    const approvers = await roleApproverRepository.findByRoleId(roleId);
+    const users = await Promise.all(approvers.map(approver => this.getUserSummary(approver.userId)));
+    return users.filter((user): user is UserSummary => user !== null);
+  }
+
+  /**
+   * Ganti approver role
+   * @param roleId - ID role
+   * @param approverData - Daftar ID user approver
+   * @returns Promise<UserSummary[]> - Approver role yang baru
+   * @throws RoleNotFoundError jika role tidak ditemukan
+   * @throws UserNotFoundError jika ada user yang tidak ditemukan
+   */
+  async setRoleApprovers(roleId: number, approverData: unknown): Promise<UserSummary[]> {
+    const { userIds } = setRoleApproversSchema.parse(approverData);
+
+    const role = await roleRepository.findById(roleId);
+    if (!role) {
+      throw new RoleNotFoundError(roleId);
+    }
+
+    const uniqueUserIds = [...new Set(userIds)];
+    for (const userId of uniqueUserIds) {
+      const user = await userRepository.findById(userId);
+      if (!user) {
+        throw new UserNotFoundError(userId);
+      }
+    }
+
+    await roleApproverRepository.replaceForRole(roleId, uniqueUserIds);
+    return this.getRoleApprovers(roleId);
+  }
+
+  /**
+   * Ambil request pending yang boleh diputuskan approver
+   * @param requestId - ID access request
+   * @param approverId - ID user approver
+   * @returns Promise<RoleAccessRequest> - Request pending
+   */
+  private async getReviewableRequest(requestId: number, approverId: number): Promise<RoleAccessRequest> {
+    const accessRequest = await this.getRequestById(requestId);
+    if (accessRequest.status !== 'pending') {
+      throw new AccessRequestNotPendingError(requestId, accessRequest.status);
+    }
+
+    if (accessRequest.userId === approverId) {
+      throw new RBACError('Access request tidak dapat diputuskan oleh user yang memintanya', 'SELF_APPROVAL_NOT_ALLOWED');
+    }
+
+    if (!(await roleApproverRepository.isApprover(accessRequest.roleId, approverId))) {
+      throw new NotRoleApproverError(approverId, accessRequest.roleId);
+    }
+
+    return accessRequest;
+  }
+
+  /**
+   * Catat langkah workflow ke change_history
+   * @param action - Nama action (requestRole, approveRoleRequest, rejectRoleRequest, cancelRoleRequest)
+   * @param actorId - ID user yang melakukan langkah
+   * @param accessRequest - Access request setelah langkah dijalankan
+   * @param before - State sebelum langkah (null untuk request baru)
+   * @param details - Detail tambahan langkah
+   */
+  private async logStep(
+    action: string,
+    actorId: number,
+    accessRequest: RoleAccessRequest,
+    before: Record<string, unknown> | null,
+    details: Record<string, unknown>
+  ): Promise<void> {
+    await changeHistoryService.logChangeHistory({
+      adminUserId: actorId,
+      targetUserId: accessRequest.userId,
+      action,
+      before: before ? JSON.stringify({ requestId: accessRequest.id, roleId: accessRequest.roleId, ...before }) : undefined,
+      after: JSON.stringify({
+        requestId: accessRequest.id,
+        roleId: accessRequest.roleId,
+        status: accessRequest.status,
+        ...details
+      })
+    });
+  }
+
+  /**
+   * Lengkapi access request dengan data user, role, dan reviewer
+   * @param requests - Array access request
+   * @returns Promise<EnrichedAccessRequest[]> - Request beserta relasinya
+   */
+  private async enrichRequests(requests: RoleAccessRequest[]): Promise<EnrichedAccessRequest[]> {
+    return Promise.all(requests.map(async (request) => {
+      const role = await roleRepository.findById(request.roleId);
+      return {
+        ...request,
+        user: await this.getUserSummary(request.userId),
+        role: role ? { id: role.id, name: role.name } : null,
+        reviewer: request.reviewerId ? await this.getUserSummary(request.reviewerId) : null
+      };
+    }));
+  }
+
+  /**
+   * Ambil ringkasan user (tanpa data sensitif)
+   * @param userId - ID user
+   * @returns Promise<UserSummary | null> - Ringkasan user atau null jika tidak ditemukan
+   */
+  private async getUserSummary(userId: number): Promise<UserSummary | null> {
+    const user = await userRepository.findById(userId);
+    return user ? { id: user.id, name: user.name, email: user.email } : null;
+  }
+}
+
+// Export instance untuk digunakan di aplikasi
+export const accessRequestService = new AccessRequestService();
@@ -0,0 +1,482 @@
+import {
+  userRepository,
+  roleRepository,
+  userRoleRepository,
+  accessReviewCampaignRepository,
+  accessReviewItemRepository
+} from "@/repositories";
+import { changeHistoryService } from "../audit/changeHistoryService";
+import { userRoleService } from "./userRoleService";
+import {
+  type UserRole,
+  type AccessReviewCampaign,
+  type AccessReviewItem,
+  type AccessReviewCampaignStatus,
+  type AccessReviewCampaignWithProgress,
+  type AccessReviewProgress,
+  type AccessReviewCloseResult,
+  type EnrichedAccessReviewItem,
+  type CreateAccessReviewCampaignInput,
+  type UserSummary,
+  createAccessReviewCampaignSchema,
+  decideAccessReviewItemSchema,
+  reassignAccessReviewItemSchema,
+  getRoleAssignmentStatus,
+  UserNotFoundError,
+  RoleNotFoundError,
+  AccessReviewCampaignNotFoundError,
+  AccessReviewItemNotFoundError,
+  AccessReviewCampaignClosedError,
+  NotAccessReviewerError,
+  RBACError
+} from "./types";
+
+// Kolom CSV export keputusan campaign (urutan kolom sesuai header)
+const CSV_HEADERS = [
+  "campaign_id",
+  "campaign_name",
+  "item_id",
+  "user_id",
+  "user_name",
+  "user_email",
+  "role_id",
+  "role_name",
+  "reviewer_name",
+  "reviewer_email",
+  "decision",
+  "decision_note",
+  "decided_at",
+  "applied_at"
+];
+
+/**
+ * Escape nilai untuk satu sel CSV (RFC 4180)
+ * @param value - Nilai sel
+ * @returns string - Nilai yang aman ditulis ke CSV
+ */
+function toCsvCell(value: string | number | Date | null | undefined): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Service untuk campaign access review (recertification role assignment)
+ * Campaign men-snapshot user→role assignment dalam sebuah scope (role, department, region),
+ * membagi item ke reviewer, dan mencatat keputusan keep/revoke. Keputusan revoke diterapkan
+ * melalui UserRoleService.removeAssignment saat campaign ditutup; setiap langkah dicatat ke change_history.
+ */
+export class AccessReviewService {
+  /**
+   * Buat campaign dan snapshot role assignment dalam scope
+   * Item dibagi bergiliran ke reviewer; reviewer tidak pernah mendapat assignment miliknya sendiri
+   * (item tanpa reviewer lain dibiarkan unassigned untuk di-reassign admin)
+   * @param adminUserId - ID admin yang membuat campaign
+   * @param campaignData - Nama, scope, reviewer, dan due date campaign
+   * @returns Promise<AccessReviewCampaignWithProgress> - Campaign yang baru dibuat beserta progress
+   * @throws RoleNotFoundError jika scope role tidak ditemukan
+   * @throws UserNotFoundError jika ada reviewer yang tidak ditemukan
+   * @throws RBACError jika scope tidak memiliki role assignment
+   */
+  async createCampaign(
+    adminUserId: number,
+    campaignData: CreateAccessReviewCampaignInput
+  ): Promise<AccessReviewCampaignWithProgress> {
+    const validatedData = createAccessReviewCampaignSchema.parse(campaignData);
+
+    const reviewerIds = [...new Set(validatedData.reviewerIds)];
+    for (const reviewerId of reviewerIds) {
+      const reviewer = await userRepository.findById(reviewerId);
+      if (!reviewer) {
+        throw new UserNotFoundError(reviewerId);
+      }
+    }
+
+    // Assignment expired tidak perlu direview karena akan dihapus expiry sweep
+    const now = new Date();
+    const assignments = (await this.findScopeAssignments(validatedData.scopeType, validatedData.scopeValue))
+      .filter(assignment => getRoleAssignmentStatus(assignment, now) !== 'expired');
+    if (assignments.length === 0) {
+      throw new RBACError('Scope campaign tidak memiliki role assignment untuk direview', 'EMPTY_ACCESS_REVIEW_SCOPE');
+    }
+
+    let nextReviewer = 0;
+    const items = assignments.map(assignment => {
+      let reviewerId: number | null = null;
+      for (let attempt = 0; attempt < reviewerIds.length; attempt++) {
+        const candidate = reviewerIds[(nextReviewer + attempt) % reviewerIds.length];
+        if (candidate !== assignment.userId) {
+          reviewerId = candidate;
+          nextReviewer = (nextReviewer + attempt + 1) % reviewerIds.length;
+          break;
+        }
+      }
+
+      return {
+        userId: assignment.userId,
+        roleId: assignment.roleId,
+        userRoleId: assignment.id,
+        validUntil: assignment.validUntil,
+        reviewerId
+      };
+    });
+
+    const campaign = await accessReviewCampaignRepository.createWithItems({
+      name: validatedData.name,
+      description: validatedData.description ?? null,
+      scopeType: validatedData.scopeType,
+      scopeValue: validatedData.scopeValue,
+      dueDate: validatedData.dueDate ?? null,
+      createdBy: adminUserId
+    }, items);
+
+    return this.getCampaignById(campaign.id);
+  }
+
+  /**
+   * Mengambil semua campaign beserta progress, opsional difilter status
+   * @param status - Status campaign (opsional)
+   * @returns Promise<AccessReviewCampaignWithProgress[]> - Campaign terbaru lebih dulu
+   */
+  async getCampaigns(status?: AccessReviewCampaignStatus): Promise<AccessReviewCampaignWithProgress[]> {
+    const campaigns = await accessReviewCampaignRepository.findAll(status);
+    return Promise.all(campaigns.map(async (campaign) => ({
+      ...campaign,
+      progress: await this.buildProgress(await accessReviewItemRepository.findByCampaignId(campaign.id))
+    })));
+  }
+
+  /**
+   * Mengambil campaign berdasarkan ID beserta progress
+   * @param campaignId - ID campaign
+   * @returns Promise<AccessReviewCampaignWithProgress> - Campaign yang ditemukan
+   * @throws AccessReviewCampaignNotFoundError jika campaign tidak ditemukan
+   */
+  async getCampaignById(campaignId: number): Promise<AccessReviewCampaignWithProgress> {
+    const campaign = await this.findCampaign(campaignId);
+    const items = await accessReviewItemRepository.findByCampaignId(campaignId);
+    return { ...campaign, progress: await this.buildProgress(items) };
+  }
+
+  /**
+   * Mengambil semua item campaign beserta user, role, dan reviewer
+   * @param campaignId - ID campaign
+   * @returns Promise<EnrichedAccessReviewItem[]> - Item campaign
+   * @throws AccessReviewCampaignNotFoundError jika campaign tidak ditemukan
+   */
+  async getCampaignItems(campaignId: number): Promise<EnrichedAccessReviewItem[]> {
+    await this.findCampaign(campaignId);
+    return this.enrichItems(await accessReviewItemRepository.findByCampaignId(campaignId));
+  }
+
+  /**
+   * Mengambil item yang ditugaskan ke reviewer dalam campaign yang masih open
+   * @param reviewerId - ID user reviewer
+   * @returns Promise<EnrichedAccessReviewItem[]> - Item beserta ringkasan campaign-nya
+   */
+  async getReviewerItems(reviewerId: number): Promise<EnrichedAccessReviewItem[]> {
+    const items = await this.enrichItems(await accessReviewItemRepository.findOpenByReviewerId(reviewerId));
+    const campaigns = new Map<number, AccessReviewCampaign>();
+
+    for (const item of items) {
+      if (!campaigns.has(item.campaignId)) {
+        campaigns.set(item.campaignId, await this.findCampaign(item.campaignId));
+      }
+      const campaign = campaigns.get(item.campaignId)!;
+      item.campaign = { id: campaign.id, name: campaign.name, dueDate: campaign.dueDate };
+    }
+
+    return items;
+  }
+
+  /**
+   * Catat keputusan keep/revoke reviewer untuk item
+   * Keputusan masih dapat diubah selama campaign open
+   * @param itemId - ID item
+   * @param reviewerId - ID user reviewer
+   * @param decisionData - Keputusan dan catatan opsional
+   * @returns Promise<AccessReviewItem> - Item yang sudah diputuskan
+   * @throws AccessReviewItemNotFoundError jika item tidak ditemukan
+   * @throws AccessReviewCampaignClosedError jika campaign sudah ditutup
+   * @throws NotAccessReviewerError jika user bukan reviewer item
+   */
+  async decideItem(itemId: number, reviewerId: number, decisionData: unknown): Promise<AccessReviewItem> {
+    const { decision, note } = decideAccessReviewItemSchema.parse(decisionData);
+    const item = await this.findOpenItem(itemId);
+
+    if (item.reviewerId !== reviewerId) {
+      throw new NotAccessReviewerError(reviewerId, itemId);
+    }
+
+    const updatedItem = await accessReviewItemRepository.update(itemId, {
+      decision,
+      decisionNote: note ?? null,
+      decidedAt: new Date()
+    });
+    if (!updatedItem) {
+      throw new RBACError(`Gagal menyimpan keputusan access review item ${itemId}`);
+    }
+
+    await changeHistoryService.logChangeHistory({
+      adminUserId: reviewerId,
+      targetUserId: item.userId,
+      action: 'reviewAccess',
+      before: item.decision !== 'pending'
+        ? JSON.stringify({ campaignId: item.campaignId, itemId, roleId: item.roleId, decision: item.decision })
+        : undefined,
+      after: JSON.stringify({ campaignId: item.campaignId, itemId, roleId: item.roleId, decision, note: note ?? null })
+    });
+
+    return updatedItem;
+  }
+
+  /**
+   * Pindahkan item ke reviewer lain (untuk item unassigned atau reviewer yang berhalangan)
+   * @param itemId - ID item
+   * @param reassignData - ID reviewer baru
+   * @returns Promise<AccessReviewItem> - Item dengan reviewer baru
+   * @throws AccessReviewItemNotFoundError jika item tidak ditemukan
+   * @throws AccessReviewCampaignClosedError jika campaign sudah ditutup
+   * @throws UserNotFoundError jika reviewer tidak ditemukan
+   * @throws RBACError jika reviewer adalah pemilik assignment
+   */
+  async reassignItem(itemId: number, reassignData: unknown): Promise<AccessReviewItem> {
+    const { reviewerId } = reassignAccessReviewItemSchema.parse(reassignData);
+    const item = await this.findOpenItem(itemId);
+
+    if (reviewerId === item.userId) {
+      throw new RBACError('User tidak dapat mereview role assignment miliknya sendiri', 'SELF_REVIEW_NOT_ALLOWED');
+    }
+    const reviewer = await userRepository.findById(reviewerId);
+    if (!reviewer) {
+      throw new UserNotFoundError(reviewerId);
+    }
+
+    const updatedItem = await accessReviewItemRepository.update(itemId, { reviewerId });
+    if (!updatedItem) {
+      throw new RBACError(`Gagal memindahkan access review item ${itemId}`);
+    }
+    return updatedItem;
+  }
+
+  /**
+   * Tutup campaign dan terapkan keputusan revoke ke user_roles
+   * Revoke hanya mencabut assignment yang di-snapshot, bukan assignment role yang sama yang diberikan ulang.
+   * Item yang belum diputuskan tidak mengubah assignment dan dilaporkan sebagai undecided.
+   * Revoke yang gagal dapat diulang dengan menutup ulang campaign yang sudah ditutup.
+   * @param campaignId - ID campaign
+   * @param adminUserId - ID admin yang menutup campaign
+   * @returns Promise<AccessReviewCloseResult> - Jumlah revoke yang diterapkan, dilewati, dan gagal
+   * @throws AccessReviewCampaignNotFoundError jika campaign tidak ditemukan
+   * @throws AccessReviewCampaignClosedError jika campaign sudah ditutup dan tidak ada revoke yang perlu diulang
+   */
+  async closeCampaign(campaignId: number, adminUserId: number): Promise<AccessReviewCloseResult> {
+    const campaign = await this.findCampaign(campaignId);
+    const items = await accessReviewItemRepository.findByCampaignId(campaignId);
+    const unappliedItems = items.filter(item => item.decision === 'revoke' && !item.appliedAt);
+
+    if (campaign.status === 'open') {
+      // Status ditutup lebih dulu agar keputusan tidak berubah selama revoke diterapkan
+      const closedCampaign = await accessReviewCampaignRepository.close(campaignId, adminUserId);
+      if (!closedCampaign) {
+        throw new AccessReviewCampaignClosedError(campaignId);
+      }
+    } else if (unappliedItems.length === 0) {
+      throw new AccessReviewCampaignClosedError(campaignId);
+    }
+
+    const result: AccessReviewCloseResult = {
+      revoked: 0,
+      alreadyRemoved: 0,
+      failed: 0,
+      undecided: items.filter(item => item.decision === 'pending').length
+    };
+
+    for (const item of unappliedItems) {
+      try {
+        // Assignment sudah dicabut sejak snapshot (revoke manual atau expiry) jika tidak ada lagi
+        const removed = item.userRoleId !== null && await userRoleService.removeAssignment(item.userRoleId);
+        if (removed) {
+          result.revoked++;
+        } else {
+          result.alreadyRemoved++;
+        }
+
+        await accessReviewItemRepository.update(item.id, { appliedAt: new Date() });
+        await changeHistoryService.logChangeHistory({
+          adminUserId,
+          targetUserId: item.userId,
+          action: 'accessReviewRevoke',
+          before: JSON.stringify({
+            campaignId,
+            itemId: item.id,
+            roleId: item.roleId,
+            userRoleId: item.userRoleId,
+            assigned: removed
+          }),
+          after: JSON.stringify({
+            campaignId,
+            itemId: item.id,
+            roleId: item.roleId,
+            reviewerId: item.reviewerId,
+            note: item.decisionNote
+          })
+        });
+      } catch (error) {
+        console.error(`❌ Failed to apply access review revocation for item ${item.id}:`, error);
+        result.failed++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Export keputusan campaign ke CSV sebagai bukti audit
+   * @param campaignId - ID campaign
+   * @returns Promise<string> - Isi file CSV (header + satu baris per item)
+   * @throws AccessReviewCampaignNotFoundError jika campaign tidak ditemukan
+   */
+  async exportDecisionsCsv(campaignId: number): Promise<string> {
+    const campaign = await this.findCampaign(campaignId);
+    const items = await this.getCampaignItems(campaignId);
+
+    const rows = items.map(item => [
+      campaign.id,
+      campaign.name,
+      item.id,
+      item.userId,
+      item.user?.name,
+      item.user?.email,
+      item.roleId,
+      item.role?.name,
+      item.reviewer?.name,
+      item.reviewer?.email,
+      item.decision,
+      item.decisionNote,
+      item.decidedAt,
+      item.appliedAt
+    ].map(toCsvCell).join(','));
+
+    return [CSV_HEADERS.join(','), ...rows].join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Ambil role assignment dalam scope campaign
+   * @param scopeType - Jenis scope (role, department, region)
+   * @param scopeValue - Role ID atau nama department/region
+   * @returns Promise<UserRole[]> - Assignment dalam scope
+   * @throws RoleNotFoundError jika scope role tidak ditemukan
+   */
+  private async findScopeAssignments(
+    scopeType: CreateAccessReviewCampaignInput['scopeType'],
+    scopeValue: string
+  ): Promise<UserRole[]> {
+    if (scopeType === 'role') {
+      const roleId = parseInt(scopeValue, 10);
+      const role = await roleRepository.findById(roleId);
+      if (!role) {
+        throw new RoleNotFoundError(roleId);
+      }
+      return userRoleRepository.findByRoleId(roleId);
+    }
+
+    return userRoleRepository.findByUserAttribute(scopeType, scopeValue);
+  }
+
+  /**
+   * Ambil campaign atau lempar error jika tidak ada
+   * @param campaignId - ID campaign
+   * @returns Promise<AccessReviewCampaign> - Campaign yang ditemukan
+   */
+  private async findCampaign(campaignId: number): Promise<AccessReviewCampaign> {
+    const campaign = await accessReviewCampaignRepository.findById(campaignId);
+    if (!campaign) {
+      throw new AccessReviewCampaignNotFoundError(campaignId);
+    }
+    return campaign;
+  }
+
+  /**
+   * Ambil item yang campaign-nya masih open
+   * @param itemId - ID item
+   * @returns Promise<AccessReviewItem> - Item yang dapat diubah
+   */
+  private async findOpenItem(itemId: number): Promise<AccessReviewItem> {
+    const item = await accessReviewItemRepository.findById(itemId);
+    if (!item) {
+      throw new AccessReviewItemNotFoundError(itemId);
+    }
+
+    const campaign = await this.findCampaign(item.campaignId);
+    if (campaign.status !== 'open') {
+      throw new AccessReviewCampaignClosedError(campaign.id);
+    }
+
+    return item;
+  }
+
+  /**
+   * Hitung progress campaign dari item-nya
+   * @param items - Item campaign
+   * @returns Promise<AccessReviewProgress> - Ringkasan keputusan total dan per reviewer
+   */
+  private async buildProgress(items: AccessReviewItem[]): Promise<AccessReviewProgress> {
+    const byReviewer = new Map<number | null, { total: number; decided: number }>();
+    for (const item of items) {
+      const entry = byReviewer.get(item.reviewerId) ?? { total: 0, decided: 0 };
+      entry.total++;
+      if (item.decision !== 'pending') {
+        entry.decided++;
+      }
+      byReviewer.set(item.reviewerId, entry);
+    }
+
+    const pending = items.filter(item => item.decision === 'pending').length;
+
+    return {
+      total: items.length,
+      pending,
+      kept: items.filter(item => item.decision === 'keep').length,
+      revoked: items.filter(item => item.decision === 'revoke').length,
+      unassigned: items.filter(item => item.reviewerId === null).length,
+      percentComplete: items.length > 0 ? Math.round(((items.length - pending) / items.length) * 100) : 100,
+      byReviewer: await Promise.all([...byReviewer.entries()].map(async ([reviewerId, entry]) => ({
+        reviewer: reviewerId !== null ? await this.getUserSummary(reviewerId) : null,
+        ...entry
+      })))
+    };
+  }
+
+  /**
+   * Lengkapi item dengan data user, role, dan reviewer
+   * @param items - Array item
+   * @returns Promise<EnrichedAccessReviewItem[]> - Item beserta relasinya
+   */
+  private async enrichItems(items: AccessReviewItem[]): Promise<EnrichedAccessReviewItem[]> {
+    return Promise.all(items.map(async (item) => {
+      const role = await roleRepository.findById(item.roleId);
+      return {
+        ...item,
+        user: await this.getUserSummary(item.userId),
+        role: role ? { id: role.id, name: role.name } : null,
+        reviewer: item.reviewerId ? await this.getUserSummary(item.reviewerId) : null
+      };
+    }));
+  }
+
+  /**
+   * Ambil ringkasan user (id, nama, email)
+   * @param userId - ID user
+   * @returns Promise<UserSummary | null> - Ringkasan user, null jika tidak ditemukan
+   */
+  private async getUserSummary(userId: number): Promise<UserSummary | null> {
+    const user = await userRepository.findById(userId);
+    return user ? { id: user.id, name: user.name, email: user.email } : null;
+  }
+}
+
+// Export instance untuk digunakan di aplikasi
+export const accessReviewService = new AccessReviewService();
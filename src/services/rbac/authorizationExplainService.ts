@@ -0,0 +1,105 @@
+import { getUserContextById } from "@/lib/auth/authService";
+import { authorizationHandler } from "@/middleware/auth/authorizationHandler";
+import { routeMatcher } from "@/middleware/utils/routeMatcher";
+import type { AbacRequestContext } from "../abac/types";
+import {
+  type AuthorizationExplainInput,
+  type AuthorizationExplanation,
+  authorizationExplainSchema,
+  UserNotFoundError
+} from "./types";
+
+/**
+ * Service untuk menjelaskan keputusan otorisasi ("kenapa akses saya ditolak?")
+ * Jejak dihitung oleh AuthorizationHandler yang sama dengan middleware, sehingga route_features yang cocok,
+ * role kandidat, bypass grantsAll, dan hasil ABAC policy sesuai dengan keputusan saat request sebenarnya.
+ * Explain tidak mencatat pelanggaran ke policy_violations dan tidak mengubah data apa pun.
+ */
+export class AuthorizationExplainService {
+  /**
+   * Jelaskan keputusan otorisasi user untuk method + path atau feature + action
+   * @param input - User, target (method + path atau feature + action), dan override context opsional
+   * @param requestContext - Context request explain sebagai dasar attribute context.*
+   * @returns Promise<AuthorizationExplanation> - Keputusan beserta jejak lengkapnya
+   * @throws UserNotFoundError jika user tidak ditemukan
+   */
+  async explain(input: AuthorizationExplainInput, requestContext: AbacRequestContext): Promise<AuthorizationExplanation> {
+    const validatedData = authorizationExplainSchema.parse(input);
+
+    const userContext = await getUserContextById(validatedData.userId);
+    if (!userContext) {
+      throw new UserNotFoundError(validatedData.userId);
+    }
+
+    const method = (validatedData.method ?? requestContext.method).toUpperCase();
+    const context: AbacRequestContext = { ...requestContext, ...validatedData.context, method };
+    const explanation = {
+      user: {
+        id: userContext.user.id,
+        name: userContext.user.name,
+        email: userContext.user.email,
+        active: userContext.user.active ?? true,
+        roles: userContext.roles,
+        hasGrantsAll: userContext.hasGrantsAll
+      },
+      context,
+      route: null,
+      feature: null
+    };
+
+    if (validatedData.method && validatedData.path) {
+      const path = new URL(validatedData.path, 'http://localhost').pathname;
+      const action = routeMatcher.getActionFromMethod(method);
+
+      // Route yang dilewati middleware atau public tidak memerlukan otorisasi
+      if (routeMatcher.shouldSkipMiddleware(path) || routeMatcher.isPublicRoute(path)) {
+        return {
+          ...explanation,
+          allowed: true,
+          reason: `Route '${path}' adalah route public atau tidak diproses middleware`,
+          route: {
+            allowed: true,
+            reason: 'Route public',
+            method,
+            path,
+            action,
+            publicRoute: true,
+            grantsAllBypass: false,
+            matchedRoute: null,
+            feature: null,
+            permission: null,
+            policies: null
+          }
+        };
+      }
+
+      const route = await authorizationHandler.explainRouteAuthorization(userContext, path, method, action, context);
+      return this.withUserStatus({ ...explanation, allowed: route.allowed, reason: route.reason, route });
+    }
+
+    const feature = await authorizationHandler.explainFeatureAccess(
+      userContext,
+      validatedData.feature!,
+      validatedData.action!,
+      context
+    );
+    return this.withUserStatus({ ...explanation, allowed: feature.allowed, reason: feature.reason, feature });
+  }
+
+  /**
+   * User tidak aktif ditolak saat verifikasi token, sebelum otorisasi dijalankan
+   */
+  private withUserStatus(explanation: AuthorizationExplanation): AuthorizationExplanation {
+    if (explanation.user.active) {
+      return explanation;
+    }
+    return {
+      ...explanation,
+      allowed: false,
+      reason: 'User tidak aktif sehingga token-nya ditolak sebelum otorisasi'
+    };
+  }
+}
+
+// Export instance untuk digunakan di aplikasi
+export const authorizationExplainService = new AuthorizationExplainService();
@@ -1,10 +1,18 @@
-import { featureRepository, roleFeatureRepository } from "@/repositories";
+import { featureRepository, roleFeatureRepository, featureActionRepository } from "@/repositories";
 import { 
   type Feature,
+  type FeatureAction,
   type CreateFeatureInput,
+  type CreateFeatureActionInput,
+  type PermissionAction,
   createFeatureSchema,
+  createFeatureActionSchema,
+  CRUD_ACTIONS,
+  isCrudAction,
   FeatureNotFoundError,
+  FeatureActionNotFoundError,
   DuplicateFeatureError,
+  DuplicateFeatureActionError,
   RBACError
 } from "./types";
 
@@ -102,6 +110,85 @@ export class FeatureService {
     return await featureRepository.delete(id);
   }
 
+  /**
+   * Mengambil action custom yang dideklarasikan feature (di luar CRUD)
+   * @param featureId - ID feature
+   * @returns Promise<FeatureAction[]> - Array action custom
+   * @throws FeatureNotFoundError jika feature tidak ditemukan
+   */
+  async getFeatureActions(featureId: number): Promise<FeatureAction[]> {
+    await this.getFeatureById(featureId);
+    return await featureActionRepository.findByFeatureId(featureId);
+  }
+
+  /**
+   * Mengambil action custom untuk semua feature
+   * @returns Promise<FeatureAction[]> - Array action custom semua feature
+   */
+  async getAllFeatureActions(): Promise<FeatureAction[]> {
+    return await featureActionRepository.findAll();
+  }
+
+  /**
+   * Mengambil semua action yang dapat di-grant untuk feature: CRUD diikuti action custom
+   * @param featureId - ID feature
+   * @returns Promise<PermissionAction[]> - Array nama action
+   * @throws FeatureNotFoundError jika feature tidak ditemukan
+   */
+  async getAvailableActions(featureId: number): Promise<PermissionAction[]> {
+    const customActions = await this.getFeatureActions(featureId);
+    return [...CRUD_ACTIONS, ...customActions.map(action => action.name)];
+  }
+
+  /**
+   * Mengecek apakah action tersedia untuk feature (CRUD atau action custom yang dideklarasikan)
+   * @param featureId - ID feature
+   * @param action - Nama action
+   * @returns Promise<boolean> - true jika action tersedia
+   */
+  async hasAction(featureId: number, action: PermissionAction): Promise<boolean> {
+    if (isCrudAction(action)) {
+      return true;
+    }
+    return (await featureActionRepository.findByFeatureAndName(featureId, action)) !== undefined;
+  }
+
+  /**
+   * Deklarasikan action custom baru untuk feature
+   * @param featureId - ID feature
+   * @param actionData - Nama dan deskripsi action
+   * @returns Promise<FeatureAction> - Action yang dibuat
+   * @throws FeatureNotFoundError jika feature tidak ditemukan
+   * @throws DuplicateFeatureActionError jika action sudah ada untuk feature
+   */
+  async addFeatureAction(featureId: number, actionData: CreateFeatureActionInput): Promise<FeatureAction> {
+    const validatedData = createFeatureActionSchema.parse(actionData);
+    await this.getFeatureById(featureId);
+
+    const existingAction = await featureActionRepository.findByFeatureAndName(featureId, validatedData.name);
+    if (existingAction) {
+      throw new DuplicateFeatureActionError(featureId, validatedData.name);
+    }
+
+    return await featureActionRepository.create({ featureId, ...validatedData });
+  }
+
+  /**
+   * Hapus action custom dari feature beserta semua grant role untuk action tersebut
+   * @param featureId - ID feature
+   * @param actionName - Nama action
+   * @returns Promise<boolean> - true jika berhasil dihapus
+   * @throws FeatureActionNotFoundError jika action tidak dideklarasikan untuk feature
+   */
+  async removeFeatureAction(featureId: number, actionName: string): Promise<boolean> {
+    const action = await featureActionRepository.findByFeatureAndName(featureId, actionName);
+    if (!action) {
+      throw new FeatureActionNotFoundError(featureId, actionName);
+    }
+
+    return await featureActionRepository.delete(action.id);
+  }
+
   /**
    * Mencari feature berdasarkan nama
    * @param name - Nama feature
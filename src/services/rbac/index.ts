@@ -8,6 +8,11 @@ export { UserRoleService, userRoleService } from "./userRoleService";
 export { RoleFeatureService, roleFeatureService } from "./roleFeatureService";
 export { RouteFeatureService, routeFeatureService } from "./routeFeatureService";
 export { RBACService, rbacService } from "./rbacService";
+export { RoleAssignmentExpiryService, roleAssignmentExpiryService } from "./roleAssignmentExpiryService";
+export type { RoleAssignmentExpiryResult } from "./roleAssignmentExpiryService";
+export { AccessRequestService, accessRequestService } from "./accessRequestService";
+export { AccessReviewService, accessReviewService } from "./accessReviewService";
+export { SeparationOfDutiesService, separationOfDutiesService } from "./separationOfDutiesService";
 
 // Import instances for backward compatibility exports
 import { roleService } from "./roleService";
@@ -0,0 +1,515 @@
+import { policyDocumentRepository, type PolicyDocumentSnapshot } from "@/repositories";
+import type { PolicyConditionInput, PolicyEnforcementMode, PolicyExpressionInput } from "@/db/schema";
+import { policyManagementService } from "../abac/policyManagementService";
+import { policyExpressionService } from "../abac/policyExpressionService";
+import type { PolicyExpression } from "../abac/types";
+import {
+  type PolicyDocument,
+  type PolicyDocumentRole,
+  type PolicyDocumentFeature,
+  type PolicyDocumentRoleFeature,
+  type PolicyDocumentRouteFeature,
+  type PolicyDocumentPolicy,
+  type PolicyDocumentEntity,
+  type PolicyDocumentChange,
+  type PolicyDocumentDiff,
+  type PolicyDocumentImportResult,
+  POLICY_DOCUMENT_VERSION,
+  POLICY_DOCUMENT_ENTITIES,
+  PERMISSION_EFFECT_COLUMNS,
+  CRUD_ACTIONS,
+  policyDocumentSchema,
+  isCrudAction,
+  InvalidPolicyDocumentError
+} from "./types";
+
+/**
+ * Entry dokumen yang sudah ada di database beserta ID row-nya
+ */
+type IndexedEntries<T> = Map<string, { id: number | null; entry: T }>;
+
+/**
+ * Konfigurasi database dalam format dokumen, di-index dengan key entity
+ * duplicates berisi row ganda (route/policy identik) yang akan dihapus saat import
+ */
+interface IndexedDocument {
+  features: IndexedEntries<PolicyDocumentFeature>;
+  roles: IndexedEntries<PolicyDocumentRole>;
+  roleFeatures: IndexedEntries<PolicyDocumentRoleFeature>;
+  routeFeatures: IndexedEntries<PolicyDocumentRouteFeature>;
+  policies: IndexedEntries<PolicyDocumentPolicy>;
+  duplicates: PolicyDocumentChange[];
+}
+
+/**
+ * Urutkan string secara deterministik (tidak bergantung locale) agar export stabil untuk di-diff di PR
+ */
+function compareText(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Urutkan action: CRUD sesuai urutan bawaan, lalu action custom berdasarkan nama
+ */
+function sortActions(actions: string[]): string[] {
+  const rank = (action: string) => isCrudAction(action) ? CRUD_ACTIONS.indexOf(action) : CRUD_ACTIONS.length;
+  return [...new Set(actions)].sort((a, b) => rank(a) - rank(b) || compareText(a, b));
+}
+
+/**
+ * Service policy-as-code: export konfigurasi RBAC/ABAC ke dokumen (diserialisasi JSON atau YAML oleh route)
+ * dan import dokumen dengan dry-run diff per entity lalu apply atomik.
+ * Dokumen bersifat deklaratif: entity di database yang tidak ada di dokumen akan dihapus.
+ * Setiap perubahan dicatat ke change_history di transaksi yang sama dengan perubahan itu sendiri.
+ */
+export class PolicyAsCodeService {
+  /**
+   * Export seluruh roles, features, role_features, route_features, dan policies
+   * @returns Promise<PolicyDocument> - Dokumen terurut berdasarkan nama/key
+   */
+  async exportDocument(): Promise<PolicyDocument> {
+    const current = this.indexSnapshot(await policyDocumentRepository.loadSnapshot());
+    const entries = <T>(indexed: IndexedEntries<T>): T[] =>
+      [...indexed.entries()].sort(([a], [b]) => compareText(a, b)).map(([, { entry }]) => entry);
+
+    return {
+      version: POLICY_DOCUMENT_VERSION,
+      roles: entries(current.roles),
+      features: entries(current.features),
+      roleFeatures: entries(current.roleFeatures),
+      routeFeatures: entries(current.routeFeatures),
+      policies: entries(current.policies)
+    };
+  }
+
+  /**
+   * Bandingkan dokumen dengan database dan (jika bukan dry-run) terapkan dalam satu transaksi
+   * @param adminUserId - ID admin yang menjalankan import
+   * @param input - Dokumen policy-as-code
+   * @param options - dryRun true hanya menghasilkan diff
+   * @returns Promise<PolicyDocumentImportResult> - Diff dan status apply
+   * @throws ZodError jika struktur dokumen tidak valid
+   * @throws InvalidPolicyDocumentError jika referensi, action, expression, atau penghapusan role tidak valid
+   */
+  async importDocument(
+    adminUserId: number,
+    input: unknown,
+    options: { dryRun: boolean }
+  ): Promise<PolicyDocumentImportResult> {
+    const document = policyDocumentSchema.parse(input);
+    await this.validateDocument(document);
+
+    const snapshot = await policyDocumentRepository.loadSnapshot();
+    const diff = this.diff(snapshot, document);
+
+    const apply = !options.dryRun && diff.changes.length > 0;
+    if (apply) {
+      await policyDocumentRepository.applyChanges(diff.changes, adminUserId, change => this.toHistoryAction(change));
+    }
+
+    return { dryRun: options.dryRun, applied: apply, diff };
+  }
+
+  /**
+   * Validasi referensi antar entity, action, hierarki role, dan expression policy
+   * @param document - Dokumen yang sudah lolos validasi struktur
+   * @throws InvalidPolicyDocumentError jika ada masalah
+   */
+  private async validateDocument(document: PolicyDocument): Promise<void> {
+    const issues: string[] = [];
+    const checkDuplicates = (label: string, keys: string[]) => {
+      const seen = new Set<string>();
+      for (const key of keys) {
+        if (seen.has(key)) {
+          issues.push(`${label} '${key}' duplikat`);
+        }
+        seen.add(key);
+      }
+    };
+
+    const parents = new Map(document.roles.map(role => [role.name, role.parentRole]));
+    const featureActions = new Map(document.features.map(feature => [
+      feature.name,
+      new Set(feature.actions.map(action => action.name))
+    ]));
+
+    checkDuplicates('Role', document.roles.map(role => role.name));
+    checkDuplicates('Feature', document.features.map(feature => feature.name));
+    document.features.forEach(feature =>
+      checkDuplicates('Action', feature.actions.map(action => `${feature.name}.${action.name}`))
+    );
+    checkDuplicates('Role feature', document.roleFeatures.map(entry => this.roleFeatureKey(entry)));
+    checkDuplicates('Route', document.routeFeatures.map(entry => this.routeFeatureKey(entry)));
+    checkDuplicates('Policy', document.policies.map(entry => this.policyKey(this.normalizePolicy(entry))));
+
+    for (const role of document.roles) {
+      if (role.parentRole === null) continue;
+      if (!parents.has(role.parentRole)) {
+        issues.push(`Role '${role.name}': parent role '${role.parentRole}' tidak ada di dokumen`);
+        continue;
+      }
+
+      // Telusuri rantai parent; kembali ke role yang sama berarti siklus
+      let current: string | null = role.parentRole;
+      for (let depth = 0; current !== null && depth < document.roles.length; depth++) {
+        if (current === role.name) {
+          issues.push(`Role '${role.name}': hierarki parent role membentuk siklus`);
+          break;
+        }
+        current = parents.get(current) ?? null;
+      }
+    }
+
+    for (const entry of document.roleFeatures) {
+      const key = this.roleFeatureKey(entry);
+      if (!parents.has(entry.role)) {
+        issues.push(`Role feature '${key}': role '${entry.role}' tidak ada di dokumen`);
+      }
+      const declared = featureActions.get(entry.feature);
+      if (!declared) {
+        issues.push(`Role feature '${key}': feature '${entry.feature}' tidak ada di dokumen`);
+        continue;
+      }
+      for (const action of [...entry.allow, ...entry.deny]) {
+        if (!isCrudAction(action) && !declared.has(action)) {
+          issues.push(`Role feature '${key}': action '${action}' tidak dideklarasikan feature '${entry.feature}'`);
+        }
+      }
+      for (const action of entry.allow.filter(action => entry.deny.includes(action))) {
+        issues.push(`Role feature '${key}': action '${action}' tidak boleh allow dan deny sekaligus`);
+      }
+    }
+
+    for (const entry of document.routeFeatures) {
+      if (!featureActions.has(entry.feature)) {
+        issues.push(`Route '${this.routeFeatureKey(entry)}': feature '${entry.feature}' tidak ada di dokumen`);
+      }
+    }
+
+    for (const [index, entry] of document.policies.entries()) {
+      if (!featureActions.has(entry.feature)) {
+        issues.push(`Policy #${index + 1}: feature '${entry.feature}' tidak ada di dokumen`);
+        continue;
+      }
+      try {
+        await policyManagementService.validatePolicyExpression(entry.expression);
+      } catch (error) {
+        issues.push(`Policy #${index + 1} (${entry.feature}): ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    if (issues.length > 0) {
+      throw new InvalidPolicyDocumentError(issues);
+    }
+  }
+
+  /**
+   * Hitung perubahan dari database ke dokumen, terurut sesuai urutan apply:
+   * feature dan role (parent lebih dulu), hapus entity dependen, simpan entity dependen, lalu hapus role dan feature
+   * @param snapshot - Konfigurasi database saat ini
+   * @param document - Dokumen tujuan
+   * @returns PolicyDocumentDiff - Perubahan beserta ringkasan per entity
+   * @throws InvalidPolicyDocumentError jika dokumen menghapus role yang masih dipakai user
+   */
+  private diff(snapshot: PolicyDocumentSnapshot, document: PolicyDocument): PolicyDocumentDiff {
+    const current = this.indexSnapshot(snapshot);
+    const index = <T>(entries: T[], keyOf: (entry: T) => string) =>
+      new Map(entries.map(entry => [keyOf(entry), entry]));
+
+    const features = this.diffEntries("feature", current.features,
+      index(document.features.map(entry => this.normalizeFeature(entry)), entry => entry.name));
+    const roles = this.diffEntries("role", current.roles,
+      index(document.roles.map(entry => this.normalizeRole(entry)), entry => entry.name));
+    const roleFeatures = this.diffEntries("role_feature", current.roleFeatures,
+      index(document.roleFeatures.map(entry => this.normalizeRoleFeature(entry)), entry => this.roleFeatureKey(entry)));
+    const routeFeatures = this.diffEntries("route_feature", current.routeFeatures,
+      index(document.routeFeatures.map(entry => this.normalizeRouteFeature(entry)), entry => this.routeFeatureKey(entry)));
+    const policies = this.diffEntries("policy", current.policies,
+      index(document.policies.map(entry => this.normalizePolicy(entry)), entry => this.policyKey(entry)));
+
+    const issues = roles.deletes
+      .filter(change => (snapshot.roleUserCounts.get(change.id!) ?? 0) > 0)
+      .map(change =>
+        `Role '${change.key}' tidak dapat dihapus karena masih digunakan oleh ${snapshot.roleUserCounts.get(change.id!)} user`
+      );
+    if (issues.length > 0) {
+      throw new InvalidPolicyDocumentError(issues);
+    }
+
+    // Parent role harus sudah ada sebelum child-nya dibuat atau diupdate
+    const parents = new Map(document.roles.map(role => [role.name, role.parentRole]));
+    const depthOf = (name: string): number => {
+      let depth = 0;
+      for (let parent = parents.get(name); parent; parent = parents.get(parent)) depth++;
+      return depth;
+    };
+    roles.upserts.sort((a, b) => depthOf(a.key) - depthOf(b.key));
+
+    const changes = [
+      ...features.upserts,
+      ...roles.upserts,
+      ...roleFeatures.deletes,
+      ...routeFeatures.deletes,
+      ...policies.deletes,
+      ...current.duplicates,
+      ...roleFeatures.upserts,
+      ...routeFeatures.upserts,
+      ...policies.upserts,
+      ...roles.deletes,
+      ...features.deletes
+    ];
+
+    const summary = Object.fromEntries(POLICY_DOCUMENT_ENTITIES.map(entity => [
+      entity,
+      { create: 0, update: 0, delete: 0 }
+    ])) as PolicyDocumentDiff["summary"];
+    for (const change of changes) {
+      summary[change.entity][change.operation]++;
+    }
+
+    return { changes, summary };
+  }
+
+  /**
+   * Bandingkan entry satu jenis entity berdasarkan key
+   * @param entity - Jenis entity
+   * @param current - Entry di database
+   * @param desired - Entry di dokumen (sudah dinormalisasi)
+   * @returns Perubahan create/update dan delete
+   */
+  private diffEntries<T>(
+    entity: PolicyDocumentEntity,
+    current: IndexedEntries<T>,
+    desired: Map<string, T>
+  ): { upserts: PolicyDocumentChange[]; deletes: PolicyDocumentChange[] } {
+    const upserts: PolicyDocumentChange[] = [];
+    const deletes: PolicyDocumentChange[] = [];
+
+    for (const [key, entry] of desired) {
+      const existing = current.get(key);
+      if (!existing) {
+        upserts.push({ entity, operation: "create", key, id: null, before: null, after: entry } as PolicyDocumentChange);
+      } else if (JSON.stringify(existing.entry) !== JSON.stringify(entry)) {
+        upserts.push({ entity, operation: "update", key, id: existing.id, before: existing.entry, after: entry } as PolicyDocumentChange);
+      }
+    }
+
+    for (const [key, existing] of current) {
+      if (!desired.has(key)) {
+        deletes.push({ entity, operation: "delete", key, id: existing.id, before: existing.entry, after: null } as PolicyDocumentChange);
+      }
+    }
+
+    return { upserts, deletes };
+  }
+
+  /**
+   * Konversi konfigurasi database ke entry dokumen yang di-index dengan key entity
+   * @param snapshot - Konfigurasi database
+   * @returns IndexedDocument - Entry per entity beserta row duplikat
+   */
+  private indexSnapshot(snapshot: PolicyDocumentSnapshot): IndexedDocument {
+    const roleNames = new Map(snapshot.roles.map(role => [role.id, role.name]));
+    const featureNames = new Map(snapshot.features.map(feature => [feature.id, feature.name]));
+    const actionsById = new Map(snapshot.featureActions.map(action => [action.id, action]));
+    const indexed: IndexedDocument = {
+      features: new Map(),
+      roles: new Map(),
+      roleFeatures: new Map(),
+      routeFeatures: new Map(),
+      policies: new Map(),
+      duplicates: []
+    };
+
+    for (const feature of snapshot.features) {
+      indexed.features.set(feature.name, {
+        id: feature.id,
+        entry: this.normalizeFeature({
+          ...feature,
+          actions: snapshot.featureActions.filter(action => action.featureId === feature.id)
+        })
+      });
+    }
+
+    for (const role of snapshot.roles) {
+      indexed.roles.set(role.name, {
+        id: role.id,
+        entry: this.normalizeRole({
+          name: role.name,
+          grantsAll: role.grantsAll ?? false,
+          mfaRequired: role.mfaRequired,
+          maxConcurrentSessions: role.maxConcurrentSessions,
+          sessionLimitAction: role.sessionLimitAction as PolicyDocumentRole["sessionLimitAction"],
+          parentRole: role.parentRoleId !== null ? roleNames.get(role.parentRoleId) ?? null : null
+        })
+      });
+    }
+
+    // Flag CRUD (role_features) dan grant action custom (role_feature_actions) digabung per role + feature
+    const permissionFor = (roleId: number, featureId: number, id: number | null) => {
+      const entry = { role: roleNames.get(roleId)!, feature: featureNames.get(featureId)!, allow: [] as string[], deny: [] as string[] };
+      const key = this.roleFeatureKey(entry);
+      const existing = indexed.roleFeatures.get(key);
+      if (existing) {
+        existing.id = existing.id ?? id;
+        return existing.entry;
+      }
+      indexed.roleFeatures.set(key, { id, entry });
+      return entry;
+    };
+
+    for (const row of snapshot.roleFeatures) {
+      const entry = permissionFor(row.roleId, row.featureId, row.id);
+      for (const action of CRUD_ACTIONS) {
+        const columns = PERMISSION_EFFECT_COLUMNS[action];
+        if (row[columns.allow]) entry.allow.push(action);
+        if (row[columns.deny]) entry.deny.push(action);
+      }
+    }
+
+    for (const grant of snapshot.roleFeatureActions) {
+      const action = actionsById.get(grant.featureActionId);
+      if (!action) continue;
+      const entry = permissionFor(grant.roleId, action.featureId, null);
+      (grant.effect === "deny" ? entry.deny : entry.allow).push(action.name);
+    }
+
+    for (const [key, { id, entry }] of indexed.roleFeatures) {
+      indexed.roleFeatures.set(key, { id, entry: this.normalizeRoleFeature(entry) });
+    }
+
+    for (const route of snapshot.routeFeatures) {
+      const entry = this.normalizeRouteFeature({
+        path: route.path,
+        method: route.method,
+        feature: featureNames.get(route.featureId)!
+      });
+      this.addIndexed(indexed, "route_feature", indexed.routeFeatures, this.routeFeatureKey(entry), route.id, entry);
+    }
+
+    for (const policy of policyExpressionService.buildExpressionTrees(snapshot.policies)) {
+      const entry = this.normalizePolicy({
+        feature: featureNames.get(policy.featureId)!,
+        expression: policy.expression,
+        enforcementMode: policy.enforcementMode as PolicyEnforcementMode
+      });
+      this.addIndexed(indexed, "policy", indexed.policies, this.policyKey(entry), policy.id, entry);
+    }
+
+    return indexed;
+  }
+
+  /**
+   * Tambah entry ke index; row dengan key yang sama dicatat sebagai duplikat yang dihapus
+   */
+  private addIndexed<T>(
+    indexed: IndexedDocument,
+    entity: PolicyDocumentEntity,
+    entries: IndexedEntries<T>,
+    key: string,
+    id: number,
+    entry: T
+  ): void {
+    if (entries.has(key)) {
+      indexed.duplicates.push({ entity, operation: "delete", key, id, before: entry, after: null } as PolicyDocumentChange);
+      return;
+    }
+    entries.set(key, { id, entry });
+  }
+
+  /**
+   * Nama action change_history untuk satu perubahan import (contoh: importCreateRoleFeature)
+   */
+  private toHistoryAction(change: Pick<PolicyDocumentChange, "entity" | "operation">): string {
+    const pascal = (value: string) => value.split('_').map(part => part[0].toUpperCase() + part.slice(1)).join('');
+    return `import${pascal(change.operation)}${pascal(change.entity)}`;
+  }
+
+  private roleFeatureKey(entry: Pick<PolicyDocumentRoleFeature, "role" | "feature">): string {
+    return `${entry.role}/${entry.feature}`;
+  }
+
+  private routeFeatureKey(entry: Pick<PolicyDocumentRouteFeature, "path" | "method">): string {
+    return `${entry.method ?? '*'} ${entry.path}`;
+  }
+
+  // Enforcement mode bukan bagian dari key, sehingga perubahan mode menjadi update policy
+  private policyKey(entry: Pick<PolicyDocumentPolicy, "feature" | "expression">): string {
+    return `${entry.feature} ${JSON.stringify(entry.expression)}`;
+  }
+
+  // Normalisasi entry (urutan key, urutan action, nilai default) agar database dan dokumen dapat dibandingkan
+
+  private normalizeFeature(feature: {
+    name: string;
+    description: string | null;
+    category: string | null;
+    actions: Array<{ name: string; description: string | null }>;
+  }): PolicyDocumentFeature {
+    return {
+      name: feature.name,
+      description: feature.description,
+      category: feature.category,
+      actions: feature.actions
+        .map(action => ({ name: action.name, description: action.description }))
+        .sort((a, b) => compareText(a.name, b.name))
+    };
+  }
+
+  private normalizeRole(role: PolicyDocumentRole): PolicyDocumentRole {
+    return {
+      name: role.name,
+      grantsAll: role.grantsAll,
+      mfaRequired: role.mfaRequired,
+      maxConcurrentSessions: role.maxConcurrentSessions,
+      sessionLimitAction: role.sessionLimitAction,
+      parentRole: role.parentRole
+    };
+  }
+
+  private normalizeRoleFeature(entry: PolicyDocumentRoleFeature): PolicyDocumentRoleFeature {
+    return {
+      role: entry.role,
+      feature: entry.feature,
+      allow: sortActions(entry.allow),
+      deny: sortActions(entry.deny)
+    };
+  }
+
+  private normalizeRouteFeature(entry: PolicyDocumentRouteFeature): PolicyDocumentRouteFeature {
+    return {
+      path: entry.path,
+      method: entry.method ? entry.method.toUpperCase() : null,
+      feature: entry.feature
+    };
+  }
+
+  private normalizePolicy(entry: {
+    feature: string;
+    expression: PolicyExpressionInput | PolicyExpression;
+    enforcementMode: PolicyEnforcementMode;
+  }): PolicyDocumentPolicy {
+    const normalizeExpression = (expression: PolicyExpressionInput | PolicyExpression): PolicyExpressionInput =>
+      expression.type === "condition"
+        ? {
+            type: "condition",
+            attribute: expression.attribute,
+            operator: expression.operator as PolicyConditionInput["operator"],
+            value: expression.value
+          }
+        : {
+            type: "group",
+            combinator: expression.combinator,
+            children: expression.children.map(normalizeExpression)
+          };
+
+    return {
+      feature: entry.feature,
+      expression: normalizeExpression(entry.expression),
+      enforcementMode: entry.enforcementMode
+    };
+  }
+}
+
+// Export instance untuk digunakan di aplikasi
+export const policyAsCodeService = new PolicyAsCodeService();
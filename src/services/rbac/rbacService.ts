@@ -1,8 +1,17 @@
 import { type Role, type UserRole } from "@/db/schema";
-import { UserPermissionResponse, ActionType, RBACError } from "./types";
+import {
+  UserPermissionResponse,
+  RBACError,
+  CRUD_ACTIONS,
+  type PermissionAction,
+  type EffectiveRolePermission,
+  type PermissionEffect
+} from "./types";
 import { userRoleService } from "./userRoleService";
+import { roleService } from "./roleService";
 import { roleFeatureService } from "./roleFeatureService";
 import { featureService } from "./featureService";
+import { permissionChecker } from "@/lib/auth/authService/permissionService/permissionChecker";
 
 /**
  * Service untuk orchestration dan high-level RBAC operations
@@ -29,7 +38,8 @@ export class RBACService {
   }
 
   /**
-   * Mengambil semua permissions untuk user tertentu
+   * Mengambil semua permissions untuk user tertentu, termasuk yang diwariskan parent role
+   * Feature hanya disertakan jika minimal satu action diizinkan setelah deny-override
    * @param userId - ID user (string)
    * @returns Promise<UserPermissionResponse[]> - Array permissions yang dimiliki user
    * @throws RBACError jika userId tidak valid
@@ -43,43 +53,156 @@ export class RBACService {
     // Ambil semua role user
     const userRoles = await userRoleService.getUserRoles(userIdNum);
     
-    // Ambil semua permissions dari role-role tersebut
+    // Kelompokkan permission efektif dari semua role per feature
+    const permissionsByFeature = new Map<number, EffectiveRolePermission[]>();
+    for (const userRole of userRoles) {
+      const rolePermissions = await this.getEffectiveRolePermissions(userRole.role.id);
+      for (const permission of rolePermissions) {
+        permissionsByFeature.set(permission.featureId, [
+          ...(permissionsByFeature.get(permission.featureId) ?? []),
+          permission
+        ]);
+      }
+    }
+
     const allPermissions: UserPermissionResponse[] = [];
     
-    for (const role of userRoles) {
+    for (const permissions of permissionsByFeature.values()) {
+      const actions = new Set(permissions.flatMap(permission => Object.keys(permission.actions)));
+      const hasAnyAction = [...actions].some(action =>
+        permissionChecker.resolvePermissionEffects(
+          permissions.map(permission => permission.actions[action]?.effect ?? 'unset')
+        )
+      );
+
+      if (hasAnyAction) {
+        const [feature] = permissions;
+        allPermissions.push({
+          featureId: feature.featureId.toString(),
+          featureName: feature.featureName,
+          featureDescription: feature.featureDescription || '',
+        });
+      }
+    }
+    
+    return allPermissions;
+  }
+
+  /**
+   * Mengambil permission efektif role: permission langsung digabung dengan permission parent role
+   *
+   * Pewarisan dalam satu hierarki role: untuk setiap action, effect dari role terdekat
+   * yang tidak unset yang berlaku (role itu sendiri, lalu parent, lalu parent dari parent, ...),
+   * sehingga child role dapat meng-override allow/deny dari parent-nya.
+   * grantsAll tidak diwariskan ke child role.
+   * Action custom hanya muncul pada hasil jika di-grant (allow/deny) oleh role atau ancestor-nya.
+   *
+   * @param roleId - ID role
+   * @returns Promise<EffectiveRolePermission[]> - Permission efektif per feature beserta sumbernya
+   * @throws RoleNotFoundError jika role tidak ditemukan
+   */
+  async getEffectiveRolePermissions(roleId: number): Promise<EffectiveRolePermission[]> {
+    const lineage = await roleService.getRoleLineage(roleId);
+    const effectiveByFeature = new Map<number, EffectiveRolePermission>();
+
+    const getEffective = async (featureId: number): Promise<EffectiveRolePermission> => {
+      const existing = effectiveByFeature.get(featureId);
+      if (existing) {
+        return existing;
+      }
+
+      const feature = await featureService.getFeatureById(featureId);
+      const effective: EffectiveRolePermission = {
+        featureId,
+        featureName: feature.name,
+        featureDescription: feature.description,
+        featureCategory: feature.category,
+        direct: false,
+        actions: Object.fromEntries(
+          CRUD_ACTIONS.map(action => [action, { effect: 'unset', inheritedFrom: null }])
+        ) as EffectiveRolePermission['actions']
+      };
+      effectiveByFeature.set(featureId, effective);
+      return effective;
+    };
+
+    // Effect yang sudah ditentukan role lebih dekat tidak ditimpa ancestor
+    const apply = (
+      effective: EffectiveRolePermission,
+      action: PermissionAction,
+      effect: PermissionEffect,
+      role: Role
+    ) => {
+      const isSelf = role.id === roleId;
+      effective.direct ||= isSelf;
+      if ((effective.actions[action]?.effect ?? 'unset') === 'unset' && effect !== 'unset') {
+        effective.actions[action] = {
+          effect,
+          inheritedFrom: isSelf ? null : { id: role.id, name: role.name }
+        };
+      }
+    };
+
+    // Telusuri dari role itu sendiri ke root
+    for (const role of lineage) {
       const rolePermissions = await roleFeatureService.getRolePermissions(role.id);
-      
       for (const permission of rolePermissions) {
-        // Ambil detail feature
-        const feature = await featureService.getFeatureById(permission.featureId);
-        
-        // Cek apakah permission sudah ada (untuk menghindari duplikasi)
-        const existingPermission = allPermissions.find(p => p.featureId === feature.id.toString());
-        
-        if (!existingPermission && (permission.canRead || permission.canCreate || permission.canUpdate || permission.canDelete)) {
-          allPermissions.push({
-            featureId: feature.id.toString(),
-            featureName: feature.name,
-            featureDescription: feature.description || '',
-          });
+        const effective = await getEffective(permission.featureId);
+        for (const action of CRUD_ACTIONS) {
+          apply(effective, action, roleFeatureService.getPermissionEffect(permission, action), role);
         }
       }
+
+      const actionPermissions = await roleFeatureService.getRoleActionPermissions(role.id);
+      for (const { grant, action } of actionPermissions) {
+        const effective = await getEffective(action.featureId);
+        apply(effective, action.name, grant.effect as PermissionEffect, role);
+      }
     }
-    
-    return allPermissions;
+
+    return [...effectiveByFeature.values()];
+  }
+
+  /**
+   * Mengambil effect efektif role untuk feature dan action tertentu (termasuk pewarisan parent role)
+   * @param roleId - ID role
+   * @param featureId - ID feature
+   * @param action - Action yang dicek (CRUD atau action custom feature)
+   * @returns Promise<PermissionEffect> - allow, deny, atau unset
+   */
+  async getEffectiveRoleEffect(roleId: number, featureId: number, action: PermissionAction): Promise<PermissionEffect> {
+    const lineage = await roleService.getRoleLineage(roleId);
+
+    for (const role of lineage) {
+      const effect = await roleFeatureService.getActionEffect(role.id, featureId, action);
+      if (effect !== 'unset') {
+        return effect;
+      }
+    }
+
+    return 'unset';
   }
 
   /**
    * Mengecek apakah user memiliki permission untuk feature dan action tertentu
+   *
+   * Combining algorithm (deny-override) untuk user dengan beberapa role:
+   * 1. Role dengan grantsAll mengizinkan semua action (tidak dapat di-deny)
+   * 2. Effect setiap role untuk feature+action: allow, deny, atau unset (tidak ada entry = unset);
+   *    effect unset diwariskan dari parent role terdekat (lihat getEffectiveRolePermissions)
+   * 3. Jika ada role yang deny, akses ditolak walaupun role lain allow
+   * 4. Jika tidak ada deny dan minimal satu role allow, akses diizinkan
+   * 5. Jika semua unset, akses ditolak (default deny)
+   *
    * @param userId - ID user (string)
    * @param featureName - Nama feature
-   * @param action - Action yang diperlukan
+   * @param action - Action yang diperlukan (CRUD atau action custom feature)
    * @returns Promise<boolean> - True jika user memiliki permission
    */
   async checkUserPermission(
     userId: string,
     featureName: string,
-    action: ActionType
+    action: PermissionAction
   ): Promise<boolean> {
     try {
       const userIdNum = parseInt(userId, 10);
@@ -105,30 +228,12 @@ export class RBACService {
         return false;
       }
       
-      // Cek permission di setiap role
-      for (const userRole of userRoles) {
-        const permission = await roleFeatureService.getPermission(userRole.role.id, targetFeature.id);
-        
-        if (permission) {
-          // Cek action spesifik
-          switch (action) {
-            case "create":
-              if (permission.canCreate) return true;
-              break;
-            case "read":
-              if (permission.canRead) return true;
-              break;
-            case "update":
-              if (permission.canUpdate) return true;
-              break;
-            case "delete":
-              if (permission.canDelete) return true;
-              break;
-          }
-        }
-      }
-      
-      return false;
+      // Kumpulkan effect efektif dari setiap role lalu gabungkan dengan deny-override
+      const effects = await Promise.all(
+        userRoles.map(userRole => this.getEffectiveRoleEffect(userRole.role.id, targetFeature.id, action))
+      );
+
+      return permissionChecker.resolvePermissionEffects(effects);
     } catch (error) {
       console.error('Error checking user permission:', error);
       return false;
@@ -0,0 +1,114 @@
+import { userRepository, roleRepository, userRoleRepository } from "@/repositories";
+import { tokenRevocationService } from "@/lib/auth/authService/tokenRevocationService";
+import { changeHistoryService } from "../audit/changeHistoryService";
+import { type UserRole } from "./types";
+
+// Interval default expiry sweep: 5 menit
+const DEFAULT_SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Hasil satu kali expiry sweep
+ */
+export interface RoleAssignmentExpiryResult {
+  expired: number;
+  failed: number;
+}
+
+/**
+ * Service untuk mencabut role assignment yang masa berlakunya (validUntil) sudah berakhir
+ * Assignment expired sudah diabaikan permission check; sweep menghapusnya,
+ * menginvalidasi session user, dan mencatatnya ke change_history
+ */
+export class RoleAssignmentExpiryService {
+  private sweepInterval?: NodeJS.Timeout;
+
+  /**
+   * Hapus semua role assignment yang sudah expired
+   * @param at - Waktu acuan (default: sekarang)
+   * @returns Promise<RoleAssignmentExpiryResult> - Jumlah assignment yang dicabut dan yang gagal
+   */
+  async sweepExpiredAssignments(at: Date = new Date()): Promise<RoleAssignmentExpiryResult> {
+    const expiredAssignments = await userRoleRepository.findExpired(at);
+    const result: RoleAssignmentExpiryResult = { expired: 0, failed: 0 };
+
+    for (const assignment of expiredAssignments) {
+      try {
+        await this.expireAssignment(assignment);
+        result.expired++;
+      } catch (error) {
+        console.error(`❌ Failed to expire role assignment ${assignment.id}:`, error);
+        result.failed++;
+      }
+    }
+
+    if (expiredAssignments.length > 0) {
+      console.log(`✅ Role assignment expiry sweep completed:`, result);
+    }
+    return result;
+  }
+
+  /**
+   * Cabut satu role assignment yang expired dan catat ke change_history
+   * @param assignment - Row user_roles yang expired
+   */
+  private async expireAssignment(assignment: UserRole): Promise<void> {
+    const deleted = await userRoleRepository.delete(assignment.id);
+    if (!deleted) {
+      // Sudah dihapus oleh proses lain (revoke manual atau sweep paralel)
+      return;
+    }
+
+    // Update rolesUpdatedAt untuk invalidasi session
+    await userRepository.update(assignment.userId, {
+      rolesUpdatedAt: new Date(),
+    });
+    await tokenRevocationService.revokeAccessTokens(assignment.userId, 'roles_changed');
+
+    const role = await roleRepository.findById(assignment.roleId);
+    await changeHistoryService.logChangeHistory({
+      adminUserId: null,
+      targetUserId: assignment.userId,
+      action: 'expireRole',
+      before: JSON.stringify({
+        roleId: assignment.roleId,
+        roleName: role?.name ?? null,
+        validFrom: assignment.validFrom,
+        validUntil: assignment.validUntil
+      })
+    });
+  }
+
+  /**
+   * Start expiry sweep otomatis dengan interval
+   * @param intervalMs - Interval dalam milidetik (opsional)
+   */
+  startAutomaticSweep(intervalMs: number = DEFAULT_SWEEP_INTERVAL_MS): void {
+    if (this.sweepInterval) {
+      this.stopAutomaticSweep();
+    }
+
+    this.sweepInterval = setInterval(async () => {
+      try {
+        await this.sweepExpiredAssignments();
+      } catch (error) {
+        console.error('❌ Automatic role assignment expiry sweep failed:', error);
+      }
+    }, intervalMs);
+
+    console.log(`✅ Role assignment expiry sweep started (interval: ${intervalMs}ms)`);
+  }
+
+  /**
+   * Stop expiry sweep otomatis
+   */
+  stopAutomaticSweep(): void {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = undefined;
+      console.log('✅ Role assignment expiry sweep stopped');
+    }
+  }
+}
+
+// Export instance untuk digunakan di aplikasi
+export const roleAssignmentExpiryService = new RoleAssignmentExpiryService();
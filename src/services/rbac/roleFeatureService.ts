@@ -1,11 +1,44 @@
-import { roleRepository, featureRepository, roleFeatureRepository } from "@/repositories";
-import { type RoleFeature } from "@/db/schema";
-import { setPermissionSchema, RBACError } from "./types";
+import {
+  roleRepository,
+  featureRepository,
+  roleFeatureRepository,
+  featureActionRepository,
+  roleFeatureActionRepository,
+  roleFeatureVersionRepository
+} from "@/repositories";
+import {
+  type RoleFeature,
+  type RoleFeatureAction,
+  type FeatureAction,
+  type RoleFeatureVersion,
+  type VersionAction,
+  type VersionChangeMeta
+} from "@/db/schema";
+import { changeHistoryService } from "../audit/changeHistoryService";
+import {
+  setPermissionSchema,
+  setActionPermissionSchema,
+  RBACError,
+  FeatureActionNotFoundError,
+  RoleFeatureVersionNotFoundError,
+  CRUD_ACTIONS,
+  PERMISSION_EFFECT_COLUMNS,
+  isCrudAction,
+  type ActionType,
+  type PermissionAction,
+  type PermissionEffect,
+  type RoleFeaturePermissionSnapshot,
+  type RoleFeatureVersionChange,
+  type RoleFeatureVersionEntry,
+  type SetActionPermissionInput
+} from "./types";
 import { z } from "zod";
 
 /**
  * Service untuk manajemen role-feature permissions
  * Menangani operasi CRUD untuk permission antara role dan feature
+ * Action CRUD disimpan di kolom role_features, action custom di tabel role_feature_actions
+ * Setiap perubahan permission disimpan sebagai versi immutable (role_feature_versions) yang dapat di-rollback
  */
 export class RoleFeatureService {
   /**
@@ -33,6 +66,13 @@ export class RoleFeatureService {
       mappedData.canDelete = permissionData.can_delete;
       delete mappedData.can_delete;
     }
+    for (const action of Object.keys(PERMISSION_EFFECT_COLUMNS) as ActionType[]) {
+      const snakeKey = `deny_${action}`;
+      if (snakeKey in permissionData) {
+        mappedData[PERMISSION_EFFECT_COLUMNS[action].deny] = permissionData[snakeKey];
+        delete mappedData[snakeKey];
+      }
+    }
     
     console.log('RoleFeatureService.setPermission - Original data:', permissionData);
     console.log('RoleFeatureService.setPermission - Mapped data:', mappedData);
@@ -61,6 +101,10 @@ export class RoleFeatureService {
         canRead: validatedData.canRead,
         canUpdate: validatedData.canUpdate,
         canDelete: validatedData.canDelete,
+        denyCreate: validatedData.denyCreate,
+        denyRead: validatedData.denyRead,
+        denyUpdate: validatedData.denyUpdate,
+        denyDelete: validatedData.denyDelete,
       });
       
       if (!updatedPermission) {
@@ -76,18 +120,115 @@ export class RoleFeatureService {
         canRead: validatedData.canRead,
         canUpdate: validatedData.canUpdate,
         canDelete: validatedData.canDelete,
+        denyCreate: validatedData.denyCreate,
+        denyRead: validatedData.denyRead,
+        denyUpdate: validatedData.denyUpdate,
+        denyDelete: validatedData.denyDelete,
       });
     }
   }
 
+  /**
+   * Ambil effect permission role-feature untuk action tertentu
+   * @param permission - Row role_features (atau null jika role tidak punya entry untuk feature)
+   * @param action - Action yang dicek
+   * @returns PermissionEffect - allow, deny, atau unset
+   */
+  getPermissionEffect(
+    permission: Pick<RoleFeature, (typeof PERMISSION_EFFECT_COLUMNS)[ActionType]["allow" | "deny"]> | null | undefined,
+    action: ActionType
+  ): PermissionEffect {
+    if (!permission) {
+      return "unset";
+    }
+
+    const columns = PERMISSION_EFFECT_COLUMNS[action];
+    if (permission[columns.deny]) {
+      return "deny";
+    }
+    return permission[columns.allow] ? "allow" : "unset";
+  }
+
+  /**
+   * Set effect satu action (CRUD maupun custom) untuk role-feature
+   * Action CRUD diteruskan ke kolom role_features agar permission lama tetap berlaku
+   * @param permissionData - Role, feature, action, dan effect (allow/deny/unset)
+   * @returns Promise<void>
+   * @throws RBACError jika role/feature tidak ditemukan
+   * @throws FeatureActionNotFoundError jika action custom tidak dideklarasikan untuk feature
+   */
+  async setActionPermission(permissionData: SetActionPermissionInput): Promise<void> {
+    const { roleId, featureId, action, effect } = setActionPermissionSchema.parse(permissionData);
+
+    if (isCrudAction(action)) {
+      const existingPermission = await this.getPermission(roleId, featureId);
+      const columns = Object.values(PERMISSION_EFFECT_COLUMNS).flatMap(({ allow, deny }) => [allow, deny]);
+      await this.setPermission({
+        roleId,
+        featureId,
+        ...Object.fromEntries(columns.map(column => [column, existingPermission?.[column] ?? false])),
+        [PERMISSION_EFFECT_COLUMNS[action].allow]: effect === "allow",
+        [PERMISSION_EFFECT_COLUMNS[action].deny]: effect === "deny",
+      });
+      return;
+    }
+
+    const role = await roleRepository.findById(roleId);
+    if (!role) {
+      throw new RBACError(`Role dengan ID ${roleId} tidak ditemukan`);
+    }
+
+    const featureAction = await featureActionRepository.findByFeatureAndName(featureId, action);
+    if (!featureAction) {
+      throw new FeatureActionNotFoundError(featureId, action);
+    }
+
+    if (effect === "unset") {
+      await roleFeatureActionRepository.delete(roleId, featureAction.id);
+    } else {
+      await roleFeatureActionRepository.upsert(roleId, featureAction.id, effect);
+    }
+  }
+
+  /**
+   * Ambil effect role untuk action tertentu pada feature (CRUD maupun custom)
+   * @param roleId - ID role
+   * @param featureId - ID feature
+   * @param action - Nama action
+   * @returns Promise<PermissionEffect> - allow, deny, atau unset (action tidak dideklarasikan = unset)
+   */
+  async getActionEffect(roleId: number, featureId: number, action: PermissionAction): Promise<PermissionEffect> {
+    if (isCrudAction(action)) {
+      return this.getPermissionEffect(await this.getPermission(roleId, featureId), action);
+    }
+
+    const featureAction = await featureActionRepository.findByFeatureAndName(featureId, action);
+    if (!featureAction) {
+      return "unset";
+    }
+
+    const grant = await roleFeatureActionRepository.findByRoleAndAction(roleId, featureAction.id);
+    return (grant?.effect as PermissionEffect | undefined) ?? "unset";
+  }
+
+  /**
+   * Mengambil semua grant action custom milik role
+   * @param roleId - ID role
+   * @returns Promise<Array<{ grant: RoleFeatureAction; action: FeatureAction }>> - Grant beserta deklarasi action
+   */
+  async getRoleActionPermissions(roleId: number): Promise<Array<{ grant: RoleFeatureAction; action: FeatureAction }>> {
+    return await roleFeatureActionRepository.findByRoleId(roleId);
+  }
+
   /**
    * Remove permission untuk role-feature
    * @param roleId - ID role
    * @param featureId - ID feature
+   * @param meta - Author dan komentar versi penghapusan
    * @returns Promise<boolean> - true jika berhasil dihapus
    * @throws RBACError jika role/feature tidak ditemukan
    */
-  async removePermission(roleId: number, featureId: number): Promise<boolean> {
+  async removePermission(roleId: number, featureId: number, meta: VersionChangeMeta = {}): Promise<boolean> {
     // Cek apakah role ada
     const role = await roleRepository.findById(roleId);
     if (!role) {
@@ -104,7 +245,201 @@ export class RoleFeatureService {
     if (!permission) {
       throw new RBACError('Permission tidak ditemukan');
     }
-    return await roleFeatureRepository.delete(permission.id);
+
+    const deleted = await roleFeatureRepository.delete(permission.id);
+    if (deleted) {
+      await this.recordVersion(roleId, featureId, meta);
+    }
+    return deleted;
+  }
+
+  /**
+   * Ambil permission role-feature saat ini dalam bentuk snapshot allow/deny
+   * @param roleId - ID role
+   * @param featureId - ID feature
+   * @returns Promise<RoleFeaturePermissionSnapshot | null> - Snapshot, null jika role tidak punya permission apa pun pada feature
+   */
+  async getPermissionSnapshot(roleId: number, featureId: number): Promise<RoleFeaturePermissionSnapshot | null> {
+    const permission = await this.getPermission(roleId, featureId);
+    const grants = (await roleFeatureActionRepository.findByRoleId(roleId))
+      .filter(({ action }) => action.featureId === featureId);
+
+    if (!permission && grants.length === 0) {
+      return null;
+    }
+
+    // Urutan sama dengan dokumen policy-as-code: CRUD sesuai urutan bawaan, lalu action custom berdasarkan nama
+    const custom = (effect: string) => grants
+      .filter(({ grant }) => grant.effect === effect)
+      .map(({ action }) => action.name)
+      .sort();
+
+    return {
+      allow: [...CRUD_ACTIONS.filter(action => permission?.[PERMISSION_EFFECT_COLUMNS[action].allow]), ...custom("allow")],
+      deny: [...CRUD_ACTIONS.filter(action => permission?.[PERMISSION_EFFECT_COLUMNS[action].deny]), ...custom("deny")]
+    };
+  }
+
+  /**
+   * Simpan permission role-feature saat ini sebagai versi baru
+   * Dipanggil sesudah satu perubahan utuh selesai (flag CRUD beserta action custom-nya)
+   * @param roleId - ID role
+   * @param featureId - ID feature
+   * @param meta - Author dan komentar versi
+   * @returns Promise<RoleFeatureVersion | null> - Versi baru, null jika permission sama dengan versi terakhir
+   */
+  async recordVersion(roleId: number, featureId: number, meta: VersionChangeMeta = {}): Promise<RoleFeatureVersion | null> {
+    const snapshot = await this.getPermissionSnapshot(roleId, featureId);
+    const permissions = snapshot ? JSON.stringify(snapshot) : null;
+    const latest = await roleFeatureVersionRepository.findLatest(roleId, featureId);
+
+    if ((latest?.permissions ?? null) === permissions) {
+      return null;
+    }
+
+    const action: VersionAction = permissions === null
+      ? "delete"
+      : latest?.permissions ? "update" : "create";
+
+    return await roleFeatureVersionRepository.record({
+      roleId,
+      featureId,
+      permissions,
+      action,
+      comment: meta.comment || null,
+      authorId: meta.authorId ?? null
+    });
+  }
+
+  /**
+   * Ambil history versi permission role-feature, versi terbaru lebih dulu
+   * @param roleId - ID role
+   * @param featureId - ID feature
+   * @returns Promise<RoleFeatureVersionEntry[]> - Versi beserta perubahan effect per action dibanding versi sebelumnya
+   */
+  async getVersionHistory(roleId: number, featureId: number): Promise<RoleFeatureVersionEntry[]> {
+    const versions = await roleFeatureVersionRepository.findByRoleAndFeature(roleId, featureId);
+
+    let previous: RoleFeaturePermissionSnapshot | null = null;
+    const entries: RoleFeatureVersionEntry[] = [];
+    for (const version of versions) {
+      const permissions = version.permissions ? JSON.parse(version.permissions) as RoleFeaturePermissionSnapshot : null;
+      entries.push({
+        version: version.version,
+        action: version.action as VersionAction,
+        permissions,
+        comment: version.comment,
+        authorId: version.authorId,
+        authorName: version.authorName,
+        createdAt: version.createdAt,
+        changes: this.diffSnapshots(previous, permissions)
+      });
+      previous = permissions;
+    }
+
+    return entries.reverse();
+  }
+
+  /**
+   * Kembalikan permission role-feature ke isi versi sebelumnya
+   * Versi penghapusan mengembalikan role ke kondisi tanpa permission pada feature.
+   * Action custom di versi lama yang sudah tidak dideklarasikan feature dilewati.
+   * Rollback dicatat sebagai versi baru dan ke change_history
+   * @param roleId - ID role
+   * @param featureId - ID feature
+   * @param version - Nomor versi tujuan
+   * @param adminUserId - ID admin yang menjalankan rollback
+   * @param comment - Komentar versi rollback (default: "Rollback ke versi N")
+   * @returns Promise<RoleFeatureVersion> - Versi rollback yang tercatat
+   * @throws RBACError jika role/feature tidak ditemukan
+   * @throws RoleFeatureVersionNotFoundError jika versi tidak ditemukan
+   */
+  async rollbackToVersion(
+    roleId: number,
+    featureId: number,
+    version: number,
+    adminUserId: number,
+    comment?: string
+  ): Promise<RoleFeatureVersion> {
+    const role = await roleRepository.findById(roleId);
+    if (!role) {
+      throw new RBACError(`Role dengan ID ${roleId} tidak ditemukan`);
+    }
+
+    const feature = await featureRepository.findById(featureId);
+    if (!feature) {
+      throw new RBACError(`Feature dengan ID ${featureId} tidak ditemukan`);
+    }
+
+    const target = await roleFeatureVersionRepository.findByVersion(roleId, featureId, version);
+    if (!target) {
+      throw new RoleFeatureVersionNotFoundError(roleId, featureId, version);
+    }
+
+    const before = await this.getPermissionSnapshot(roleId, featureId);
+    const restored = target.permissions ? JSON.parse(target.permissions) as RoleFeaturePermissionSnapshot : null;
+    const allow = restored?.allow ?? [];
+    const deny = restored?.deny ?? [];
+
+    const existingPermission = await this.getPermission(roleId, featureId);
+    if (restored && (existingPermission || CRUD_ACTIONS.some(action => allow.includes(action) || deny.includes(action)))) {
+      const columns = Object.fromEntries(CRUD_ACTIONS.flatMap(action => [
+        [PERMISSION_EFFECT_COLUMNS[action].allow, allow.includes(action)],
+        [PERMISSION_EFFECT_COLUMNS[action].deny, deny.includes(action)]
+      ]));
+      await this.setPermission({ roleId, featureId, ...columns });
+    } else if (existingPermission) {
+      await roleFeatureRepository.delete(existingPermission.id);
+    }
+
+    for (const featureAction of await featureActionRepository.findByFeatureId(featureId)) {
+      const effect: PermissionEffect = deny.includes(featureAction.name)
+        ? "deny"
+        : allow.includes(featureAction.name) ? "allow" : "unset";
+      await this.setActionPermission({ roleId, featureId, action: featureAction.name, effect });
+    }
+
+    const after = await this.getPermissionSnapshot(roleId, featureId);
+    const rollbackVersion = await roleFeatureVersionRepository.record({
+      roleId,
+      featureId,
+      permissions: after ? JSON.stringify(after) : null,
+      action: "rollback",
+      comment: comment || `Rollback ke versi ${version}`,
+      authorId: adminUserId
+    });
+
+    await changeHistoryService.logChangeHistory({
+      adminUserId,
+      action: 'rollbackRoleFeature',
+      before: JSON.stringify({ roleId, featureId, permissions: before }),
+      after: JSON.stringify({ roleId, featureId, restoredVersion: version, permissions: after })
+    });
+
+    return rollbackVersion;
+  }
+
+  /**
+   * Bandingkan effect setiap action antara dua snapshot permission
+   * @param before - Snapshot versi sebelumnya (null jika belum ada atau dihapus)
+   * @param after - Snapshot versi ini (null jika dihapus)
+   * @returns RoleFeatureVersionChange[] - Action yang effect-nya berubah
+   */
+  private diffSnapshots(
+    before: RoleFeaturePermissionSnapshot | null,
+    after: RoleFeaturePermissionSnapshot | null
+  ): RoleFeatureVersionChange[] {
+    const effectOf = (snapshot: RoleFeaturePermissionSnapshot | null, action: string): PermissionEffect =>
+      snapshot?.deny.includes(action) ? "deny" : snapshot?.allow.includes(action) ? "allow" : "unset";
+
+    const actions = new Set([
+      ...(before?.allow ?? []), ...(before?.deny ?? []),
+      ...(after?.allow ?? []), ...(after?.deny ?? [])
+    ]);
+
+    return [...actions]
+      .map(action => ({ action, before: effectOf(before, action), after: effectOf(after, action) }))
+      .filter(change => change.before !== change.after);
   }
 
   /**
@@ -1,11 +1,14 @@
 import { roleRepository, userRoleRepository } from "@/repositories";
+import type { VersionChangeMeta } from "@/db/schema";
 import { 
   type Role,
   type CreateRoleInput,
   createRoleSchema,
   RoleNotFoundError,
   DuplicateRoleError,
-  RBACError
+  RoleHierarchyCycleError,
+  RBACError,
+  type PermissionEffect
 } from "./types";
 
 /**
@@ -51,6 +54,10 @@ export class RoleService {
       throw new DuplicateRoleError(validatedData.name);
     }
 
+    if (validatedData.parentRoleId) {
+      await this.validateParentRole(null, validatedData.parentRoleId);
+    }
+
     return await roleRepository.create(validatedData);
   }
 
@@ -58,11 +65,13 @@ export class RoleService {
    * Update role
    * @param id - ID role yang akan diupdate
    * @param roleData - Data role yang akan diupdate
+   * @param meta - Author dan komentar versi permission role-feature yang berubah lewat features
    * @returns Promise<Role> - Role yang sudah diupdate
    * @throws RoleNotFoundError jika role tidak ditemukan
    * @throws DuplicateRoleError jika nama sudah ada
+   * @throws RoleHierarchyCycleError jika parent role membentuk siklus
    */
-  async updateRole(id: number, roleData: Partial<CreateRoleInput & { grants_all?: boolean; features?: any[] }>): Promise<Role> {
+  async updateRole(id: number, roleData: Partial<CreateRoleInput & { grants_all?: boolean; parent_role_id?: number | null; mfa_required?: boolean; max_concurrent_sessions?: number | null; session_limit_action?: 'reject' | 'evict_oldest'; features?: any[]; comment?: string }>, meta: VersionChangeMeta = {}): Promise<Role> {
     // Cek apakah role ada
     const existingRole = await this.getRoleById(id);
     
@@ -80,12 +89,38 @@ export class RoleService {
       mappedRoleData.grantsAll = roleData.grants_all;
       delete mappedRoleData.grants_all;
     }
+    if ('parent_role_id' in roleData) {
+      mappedRoleData.parentRoleId = roleData.parent_role_id;
+      delete mappedRoleData.parent_role_id;
+    }
+    if ('mfa_required' in roleData) {
+      mappedRoleData.mfaRequired = roleData.mfa_required === true;
+      delete mappedRoleData.mfa_required;
+    }
+    // Batas session divalidasi dengan aturan yang sama seperti saat create
+    if ('max_concurrent_sessions' in roleData) {
+      mappedRoleData.maxConcurrentSessions = createRoleSchema.shape.maxConcurrentSessions
+        .parse(roleData.max_concurrent_sessions ?? null);
+      delete mappedRoleData.max_concurrent_sessions;
+    }
+    if ('session_limit_action' in roleData) {
+      mappedRoleData.sessionLimitAction = createRoleSchema.shape.sessionLimitAction
+        .parse(roleData.session_limit_action);
+      delete mappedRoleData.session_limit_action;
+    }
+
+    // null/undefined berarti parent role dilepas, selain itu validasi hierarki
+    if (mappedRoleData.parentRoleId) {
+      await this.validateParentRole(id, mappedRoleData.parentRoleId);
+    }
     
     // Handle features array - hapus dari mappedRoleData karena tidak disimpan di tabel roles
     const featuresArray = roleData.features;
     if ('features' in mappedRoleData) {
       delete mappedRoleData.features;
     }
+    // Komentar hanya dicatat pada versi permission, bukan kolom roles
+    delete mappedRoleData.comment;
 
     console.log('RoleService.updateRole - Original data:', roleData);
     console.log('RoleService.updateRole - Mapped data:', mappedRoleData);
@@ -108,14 +143,72 @@ export class RoleService {
           can_create: feature.can_create,
           can_read: feature.can_read,
           can_update: feature.can_update,
-          can_delete: feature.can_delete
+          can_delete: feature.can_delete,
+          deny_create: feature.deny_create ?? false,
+          deny_read: feature.deny_read ?? false,
+          deny_update: feature.deny_update ?? false,
+          deny_delete: feature.deny_delete ?? false
         });
+
+        // Effect action custom feature: { export: 'allow', approve: 'unset' }
+        for (const [action, effect] of Object.entries(feature.actions ?? {})) {
+          await roleFeatureService.setActionPermission({
+            roleId: id,
+            featureId: feature.feature_id,
+            action,
+            effect: effect as PermissionEffect
+          });
+        }
+
+        // Tidak ada versi baru jika permission feature ini tidak berubah
+        await roleFeatureService.recordVersion(id, feature.feature_id, meta);
       }
     }
     
     return updatedRole;
   }
 
+  /**
+   * Mengambil role beserta semua ancestor-nya, dari role itu sendiri hingga root
+   * Hierarki yang rusak (siklus dari data lama) dihentikan pada role yang sudah dikunjungi
+   * @param id - ID role
+   * @returns Promise<Role[]> - [role, parent, parent dari parent, ...]
+   * @throws RoleNotFoundError jika role tidak ditemukan
+   */
+  async getRoleLineage(id: number): Promise<Role[]> {
+    const lineage = [await this.getRoleById(id)];
+    const visited = new Set<number>([id]);
+
+    let parentId = lineage[0].parentRoleId;
+    while (parentId && !visited.has(parentId)) {
+      const parent = await roleRepository.findById(parentId);
+      if (!parent) {
+        break;
+      }
+      lineage.push(parent);
+      visited.add(parent.id);
+      parentId = parent.parentRoleId;
+    }
+
+    return lineage;
+  }
+
+  /**
+   * Validasi parent role: harus ada dan tidak boleh membentuk siklus
+   * (role tidak boleh menjadi parent dari dirinya sendiri atau dari ancestor-nya)
+   * @param roleId - ID role yang diupdate (null untuk role baru)
+   * @param parentRoleId - ID parent role yang akan di-set
+   * @throws RoleNotFoundError jika parent role tidak ditemukan
+   * @throws RoleHierarchyCycleError jika hierarki membentuk siklus
+   */
+  async validateParentRole(roleId: number | null, parentRoleId: number): Promise<void> {
+    const parentLineage = await this.getRoleLineage(parentRoleId);
+
+    if (roleId !== null && parentLineage.some(role => role.id === roleId)) {
+      throw new RoleHierarchyCycleError(roleId, parentRoleId);
+    }
+  }
+
   /**
    * Hapus role
    * @param id - ID role yang akan dihapus
@@ -0,0 +1,325 @@
+import {
+  userRepository,
+  roleRepository,
+  userRoleRepository,
+  sodConstraintRepository
+} from "@/repositories";
+import { changeHistoryService } from "../audit/changeHistoryService";
+import {
+  type Role,
+  type UserRole,
+  type SodConstraint,
+  type SodConstraintWithRoles,
+  type SodConflict,
+  type SodViolation,
+  type SodViolationReport,
+  type SodConstraintInput,
+  type UserSummary,
+  sodConstraintSchema,
+  getRoleAssignmentStatus,
+  RoleNotFoundError,
+  SodConstraintNotFoundError,
+  DuplicateSodConstraintError
+} from "./types";
+
+/**
+ * Service untuk constraint separation-of-duties (SoD) statis antar role
+ * Constraint berisi set role yang saling eksklusif: user tidak boleh memegang lebih dari maxRoles role dari set.
+ * Assignment baru yang melanggar constraint ditolak dengan SeparationOfDutiesViolationError (409);
+ * user yang sudah melanggar sebelum constraint dibuat muncul di laporan violation.
+ * Assignment terjadwal ikut dihitung, assignment expired tidak.
+ */
+export class SeparationOfDutiesService {
+  /**
+   * Mengambil semua constraint beserta role-nya
+   * @returns Promise<SodConstraintWithRoles[]> - Array constraint urut nama
+   */
+  async getConstraints(): Promise<SodConstraintWithRoles[]> {
+    return this.loadConstraints();
+  }
+
+  /**
+   * Mengambil constraint berdasarkan ID
+   * @param constraintId - ID constraint
+   * @returns Promise<SodConstraintWithRoles> - Constraint beserta role-nya
+   * @throws SodConstraintNotFoundError jika constraint tidak ditemukan
+   */
+  async getConstraintById(constraintId: number): Promise<SodConstraintWithRoles> {
+    const constraint = await this.findConstraint(constraintId);
+    const roleRows = await sodConstraintRepository.findRolesByConstraintId(constraintId);
+    return this.withRoles(constraint, roleRows.map(row => row.roleId), await roleRepository.findAll());
+  }
+
+  /**
+   * Buat constraint baru
+   * @param adminUserId - ID admin yang membuat constraint
+   * @param constraintData - Nama, deskripsi, set role, dan batas role
+   * @returns Promise<SodConstraintWithRoles> - Constraint yang baru dibuat
+   * @throws RoleNotFoundError jika ada role yang tidak ditemukan
+   * @throws DuplicateSodConstraintError jika nama constraint sudah dipakai
+   */
+  async createConstraint(adminUserId: number, constraintData: SodConstraintInput): Promise<SodConstraintWithRoles> {
+    const validatedData = sodConstraintSchema.parse(constraintData);
+    await this.validateRoles(validatedData.roleIds);
+
+    if (await sodConstraintRepository.findByName(validatedData.name)) {
+      throw new DuplicateSodConstraintError(validatedData.name);
+    }
+
+    const constraint = await sodConstraintRepository.create({
+      name: validatedData.name,
+      description: validatedData.description ?? null,
+      maxRoles: validatedData.maxRoles,
+      createdBy: adminUserId
+    }, validatedData.roleIds);
+
+    await changeHistoryService.logChangeHistory({
+      adminUserId,
+      action: 'createSodConstraint',
+      after: JSON.stringify({ id: constraint.id, ...validatedData })
+    });
+
+    return this.getConstraintById(constraint.id);
+  }
+
+  /**
+   * Update constraint dan ganti seluruh set role-nya
+   * @param adminUserId - ID admin yang mengubah constraint
+   * @param constraintId - ID constraint
+   * @param constraintData - Nama, deskripsi, set role, dan batas role yang baru
+   * @returns Promise<SodConstraintWithRoles> - Constraint yang sudah diupdate
+   * @throws SodConstraintNotFoundError jika constraint tidak ditemukan
+   * @throws RoleNotFoundError jika ada role yang tidak ditemukan
+   * @throws DuplicateSodConstraintError jika nama dipakai constraint lain
+   */
+  async updateConstraint(
+    adminUserId: number,
+    constraintId: number,
+    constraintData: SodConstraintInput
+  ): Promise<SodConstraintWithRoles> {
+    const before = await this.getConstraintById(constraintId);
+    const validatedData = sodConstraintSchema.parse(constraintData);
+    await this.validateRoles(validatedData.roleIds);
+
+    const sameName = await sodConstraintRepository.findByName(validatedData.name);
+    if (sameName && sameName.id !== constraintId) {
+      throw new DuplicateSodConstraintError(validatedData.name);
+    }
+
+    await sodConstraintRepository.update(constraintId, {
+      name: validatedData.name,
+      description: validatedData.description ?? null,
+      maxRoles: validatedData.maxRoles
+    }, validatedData.roleIds);
+
+    await changeHistoryService.logChangeHistory({
+      adminUserId,
+      action: 'updateSodConstraint',
+      before: JSON.stringify(this.toAuditSnapshot(before)),
+      after: JSON.stringify({ id: constraintId, ...validatedData })
+    });
+
+    return this.getConstraintById(constraintId);
+  }
+
+  /**
+   * Hapus constraint
+   * @param adminUserId - ID admin yang menghapus constraint
+   * @param constraintId - ID constraint
+   * @throws SodConstraintNotFoundError jika constraint tidak ditemukan
+   */
+  async deleteConstraint(adminUserId: number, constraintId: number): Promise<void> {
+    const before = await this.getConstraintById(constraintId);
+    await sodConstraintRepository.delete(constraintId);
+
+    await changeHistoryService.logChangeHistory({
+      adminUserId,
+      action: 'deleteSodConstraint',
+      before: JSON.stringify(this.toAuditSnapshot(before))
+    });
+  }
+
+  /**
+   * Cari constraint yang dilanggar oleh sebuah kombinasi role
+   * @param roleIds - ID role yang dipegang bersamaan
+   * @returns Promise<SodConflict[]> - Constraint yang dilanggar beserta role yang menyebabkannya
+   */
+  async findConflicts(roleIds: number[]): Promise<SodConflict[]> {
+    return this.collectConflicts(await this.loadConstraints(), new Set(roleIds));
+  }
+
+  /**
+   * Cari constraint yang dilanggar jika role di-assign ke user
+   * Hanya constraint yang melibatkan role baru yang diperiksa, sehingga pelanggaran lama
+   * (sebelum constraint dibuat) tidak memblokir assignment role lain
+   * @param currentAssignments - Assignment user saat ini
+   * @param roleIds - ID role yang akan di-assign
+   * @param replaceExisting - true jika roleIds menggantikan semua role user (bukan ditambahkan)
+   * @returns Promise<SodConflict[]> - Constraint yang dilanggar, kosong jika assignment diizinkan
+   */
+  async findAssignmentConflicts(
+    currentAssignments: UserRole[],
+    roleIds: number[],
+    replaceExisting: boolean = false
+  ): Promise<SodConflict[]> {
+    const now = new Date();
+    const currentRoleIds = currentAssignments
+      .filter(assignment => getRoleAssignmentStatus(assignment, now) !== 'expired')
+      .map(assignment => assignment.roleId);
+
+    const addedRoleIds = new Set(roleIds.filter(roleId => !currentRoleIds.includes(roleId)));
+    if (addedRoleIds.size === 0) {
+      return [];
+    }
+
+    const resultingRoleIds = new Set(replaceExisting ? roleIds : [...currentRoleIds, ...roleIds]);
+    return (await this.findConflicts([...resultingRoleIds]))
+      .filter(conflict => conflict.roles.some(role => addedRoleIds.has(role.id)));
+  }
+
+  /**
+   * Buat laporan user yang saat ini melanggar constraint
+   * @returns Promise<SodViolationReport> - Pelanggaran per user dan constraint
+   */
+  async getViolationReport(): Promise<SodViolationReport> {
+    const now = new Date();
+    const constraints = await this.loadConstraints();
+
+    const rolesByUser = new Map<number, Set<number>>();
+    for (const assignment of await userRoleRepository.findAll()) {
+      if (getRoleAssignmentStatus(assignment, now) === 'expired') continue;
+      const roleIds = rolesByUser.get(assignment.userId) ?? new Set<number>();
+      roleIds.add(assignment.roleId);
+      rolesByUser.set(assignment.userId, roleIds);
+    }
+
+    const violations: SodViolation[] = [];
+    for (const [userId, roleIds] of rolesByUser) {
+      const conflicts = this.collectConflicts(constraints, roleIds);
+      if (conflicts.length === 0) continue;
+
+      const user = await this.getUserSummary(userId);
+      violations.push(...conflicts.map(conflict => ({ ...conflict, user })));
+    }
+
+    violations.sort((a, b) =>
+      a.constraintName.localeCompare(b.constraintName) || (a.user?.id ?? 0) - (b.user?.id ?? 0));
+
+    return {
+      generatedAt: now,
+      constraints: constraints.length,
+      affectedUsers: new Set(violations.map(violation => violation.user?.id)).size,
+      violations
+    };
+  }
+
+  /**
+   * Cocokkan set role dengan setiap constraint
+   * @param constraints - Constraint beserta role-nya
+   * @param roleIds - ID role yang dipegang bersamaan
+   * @returns SodConflict[] - Constraint dengan role dipegang melebihi maxRoles
+   */
+  private collectConflicts(constraints: SodConstraintWithRoles[], roleIds: Set<number>): SodConflict[] {
+    return constraints.flatMap(constraint => {
+      const heldRoles = constraint.roles.filter(role => roleIds.has(role.id));
+      if (heldRoles.length <= constraint.maxRoles) {
+        return [];
+      }
+      return [{
+        constraintId: constraint.id,
+        constraintName: constraint.name,
+        maxRoles: constraint.maxRoles,
+        roles: heldRoles
+      }];
+    });
+  }
+
+  /**
+   * Ambil semua constraint beserta role-nya dalam tiga query
+   * @returns Promise<SodConstraintWithRoles[]> - Array constraint urut nama
+   */
+  private async loadConstraints(): Promise<SodConstraintWithRoles[]> {
+    const [constraints, roleRows, roles] = await Promise.all([
+      sodConstraintRepository.findAll(),
+      sodConstraintRepository.findAllRoles(),
+      roleRepository.findAll()
+    ]);
+
+    return constraints.map(constraint => this.withRoles(
+      constraint,
+      roleRows.filter(row => row.constraintId === constraint.id).map(row => row.roleId),
+      roles
+    ));
+  }
+
+  /**
+   * Lengkapi constraint dengan nama role anggotanya
+   * @param constraint - Row constraint
+   * @param roleIds - ID role anggota constraint
+   * @param roles - Semua role
+   * @returns SodConstraintWithRoles - Constraint beserta role-nya
+   */
+  private withRoles(constraint: SodConstraint, roleIds: number[], roles: Role[]): SodConstraintWithRoles {
+    return {
+      ...constraint,
+      roles: roles
+        .filter(role => roleIds.includes(role.id))
+        .map(role => ({ id: role.id, name: role.name }))
+    };
+  }
+
+  /**
+   * Ambil constraint atau lempar error jika tidak ada
+   * @param constraintId - ID constraint
+   * @returns Promise<SodConstraint> - Constraint yang ditemukan
+   */
+  private async findConstraint(constraintId: number): Promise<SodConstraint> {
+    const constraint = await sodConstraintRepository.findById(constraintId);
+    if (!constraint) {
+      throw new SodConstraintNotFoundError(constraintId);
+    }
+    return constraint;
+  }
+
+  /**
+   * Pastikan semua role dalam constraint ada
+   * @param roleIds - ID role
+   * @throws RoleNotFoundError jika ada role yang tidak ditemukan
+   */
+  private async validateRoles(roleIds: number[]): Promise<void> {
+    for (const roleId of roleIds) {
+      const role = await roleRepository.findById(roleId);
+      if (!role) {
+        throw new RoleNotFoundError(roleId);
+      }
+    }
+  }
+
+  /**
+   * Snapshot constraint untuk change_history
+   * @param constraint - Constraint beserta role-nya
+   * @returns Data constraint dengan ID role
+   */
+  private toAuditSnapshot(constraint: SodConstraintWithRoles) {
+    return {
+      id: constraint.id,
+      name: constraint.name,
+      description: constraint.description,
+      maxRoles: constraint.maxRoles,
+      roleIds: constraint.roles.map(role => role.id)
+    };
+  }
+
+  /**
+   * Ambil ringkasan user (id, nama, email)
+   * @param userId - ID user
+   * @returns Promise<UserSummary | null> - Ringkasan user, null jika tidak ditemukan
+   */
+  private async getUserSummary(userId: number): Promise<UserSummary | null> {
+    const user = await userRepository.findById(userId);
+    return user ? { id: user.id, name: user.name, email: user.email } : null;
+  }
+}
+
+// Export instance untuk digunakan di aplikasi
+export const separationOfDutiesService = new SeparationOfDutiesService();
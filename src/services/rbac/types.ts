@@ -1,11 +1,27 @@
 import { z } from "zod";
+import { ConflictError } from "@/lib/errors/errorHandler";
 import { 
   type Role, type NewRole, 
   type Feature, type NewFeature,
   type UserRole, type NewUserRole,
   type RoleFeature, type NewRoleFeature,
-  type RouteFeature, type NewRouteFeature
+  type FeatureAction, type NewFeatureAction,
+  type RoleFeatureAction, type NewRoleFeatureAction,
+  type RouteFeature, type NewRouteFeature,
+  type RoleApprover, type NewRoleApprover,
+  type RoleAccessRequest, type NewRoleAccessRequest,
+  type AccessReviewCampaign, type NewAccessReviewCampaign,
+  type AccessReviewItem, type NewAccessReviewItem,
+  type SodConstraint, type NewSodConstraint,
+  type SodConstraintRole, type NewSodConstraintRole,
+  type VersionAction,
+  policyExpressionSchema,
+  policyEnforcementModeSchema,
+  getPolicyExpressionDepth,
+  MAX_POLICY_EXPRESSION_DEPTH
 } from "@/db/schema";
+import type { AbacRequestContext } from "../abac/types";
+import type { FeatureAccessTrace, RouteAccessTrace } from "@/middleware/types";
 
 // Re-export database types
 export type {
@@ -17,14 +33,35 @@ export type {
   NewUserRole,
   RoleFeature,
   NewRoleFeature,
+  FeatureAction,
+  NewFeatureAction,
+  RoleFeatureAction,
+  NewRoleFeatureAction,
   RouteFeature,
-  NewRouteFeature
+  NewRouteFeature,
+  RoleApprover,
+  NewRoleApprover,
+  RoleAccessRequest,
+  NewRoleAccessRequest,
+  AccessReviewCampaign,
+  NewAccessReviewCampaign,
+  AccessReviewItem,
+  NewAccessReviewItem,
+  SodConstraint,
+  NewSodConstraint,
+  SodConstraintRole,
+  NewSodConstraintRole
 };
 
 // Validation schemas untuk RBAC operations
 export const createRoleSchema = z.object({
   name: z.string().min(1, "Nama role harus diisi").max(50, "Nama role maksimal 50 karakter"),
   grantsAll: z.boolean().default(false),
+  parentRoleId: z.number().int().positive("Parent role ID harus berupa integer positif").nullable().optional(),
+  mfaRequired: z.boolean().optional(),
+  // null berarti memakai batas session default aplikasi
+  maxConcurrentSessions: z.number().int().positive("Batas session harus berupa integer positif").nullable().optional(),
+  sessionLimitAction: z.enum(['reject', 'evict_oldest']).optional(),
 });
 
 export const createFeatureSchema = z.object({
@@ -32,10 +69,16 @@ export const createFeatureSchema = z.object({
   description: z.string().optional(),
 });
 
+// validFrom/validUntil opsional: tanpa validFrom assignment langsung berlaku, tanpa validUntil permanen
 export const assignRoleSchema = z.object({
   userId: z.number().int().positive("User ID harus berupa integer positif"),
   roleId: z.number().int().positive("Role ID harus berupa integer positif"),
-});
+  validFrom: z.coerce.date().nullable().optional(),
+  validUntil: z.coerce.date().nullable().optional(),
+}).refine(
+  (data) => !data.validUntil || data.validUntil > (data.validFrom ?? new Date()),
+  { message: "validUntil harus setelah validFrom dan di masa depan", path: ["validUntil"] }
+);
 
 export const setPermissionSchema = z.object({
   roleId: z.number().int().positive("Role ID harus berupa integer positif"),
@@ -44,20 +87,190 @@ export const setPermissionSchema = z.object({
   canRead: z.boolean().default(false),
   canUpdate: z.boolean().default(false),
   canDelete: z.boolean().default(false),
+  denyCreate: z.boolean().default(false),
+  denyRead: z.boolean().default(false),
+  denyUpdate: z.boolean().default(false),
+  denyDelete: z.boolean().default(false),
+}).refine(
+  (data) => !(data.canCreate && data.denyCreate) &&
+    !(data.canRead && data.denyRead) &&
+    !(data.canUpdate && data.denyUpdate) &&
+    !(data.canDelete && data.denyDelete),
+  { message: "Satu action tidak boleh allow dan deny sekaligus" }
+);
+
+// Action CRUD bawaan yang berlaku untuk semua feature
+export const CRUD_ACTIONS = ["create", "read", "update", "delete"] as const;
+
+// Nama action custom: snake_case dan tidak boleh bentrok dengan action CRUD
+export const actionNameSchema = z.string()
+  .min(1, "Nama action harus diisi")
+  .max(50, "Nama action maksimal 50 karakter")
+  .regex(/^[a-z][a-z0-9_]*$/, "Nama action harus snake_case (contoh: export, approve_request)");
+
+export const createFeatureActionSchema = z.object({
+  name: actionNameSchema.refine(
+    (name) => !isCrudAction(name),
+    { message: "Action CRUD sudah tersedia untuk semua feature" }
+  ),
+  description: z.string().optional(),
+});
+
+export const setActionPermissionSchema = z.object({
+  roleId: z.number().int().positive("Role ID harus berupa integer positif"),
+  featureId: z.number().int().positive("Feature ID harus berupa integer positif"),
+  action: actionNameSchema,
+  effect: z.enum(["allow", "deny", "unset"]),
+});
+
+// Access request role oleh user; durationDays kosong berarti role diminta permanen
+export const createAccessRequestSchema = z.object({
+  roleId: z.number().int().positive("Role ID harus berupa integer positif"),
+  justification: z.string().trim().min(1, "Justifikasi harus diisi").max(1000, "Justifikasi maksimal 1000 karakter"),
+  durationDays: z.number().int().positive("Durasi harus berupa integer positif").max(365, "Durasi maksimal 365 hari").nullable().optional(),
+});
+
+export const reviewAccessRequestSchema = z.object({
+  note: z.string().max(500, "Catatan maksimal 500 karakter").optional(),
+});
+
+export const setRoleApproversSchema = z.object({
+  userIds: z.array(z.number().int().positive("User ID harus berupa integer positif")),
+});
+
+// Access review campaign: scope role (scopeValue = role ID) atau department/region (scopeValue = nama)
+export const createAccessReviewCampaignSchema = z.object({
+  name: z.string().trim().min(1, "Nama campaign harus diisi").max(150, "Nama campaign maksimal 150 karakter"),
+  description: z.string().max(1000, "Deskripsi maksimal 1000 karakter").nullable().optional(),
+  scopeType: z.enum(["role", "department", "region"], {
+    message: "Scope harus salah satu dari: role, department, region",
+  }),
+  scopeValue: z.string().trim().min(1, "Nilai scope harus diisi").max(100, "Nilai scope maksimal 100 karakter"),
+  reviewerIds: z.array(z.number().int().positive("Reviewer ID harus berupa integer positif")).min(1, "Minimal satu reviewer"),
+  dueDate: z.coerce.date().nullable().optional(),
+}).refine(
+  (data) => data.scopeType !== "role" || /^\d+$/.test(data.scopeValue),
+  { message: "Scope role harus berisi role ID", path: ["scopeValue"] }
+);
+
+export const decideAccessReviewItemSchema = z.object({
+  decision: z.enum(["keep", "revoke"], {
+    message: "Keputusan harus salah satu dari: keep, revoke",
+  }),
+  note: z.string().max(500, "Catatan maksimal 500 karakter").optional(),
+});
+
+export const reassignAccessReviewItemSchema = z.object({
+  reviewerId: z.number().int().positive("Reviewer ID harus berupa integer positif"),
 });
 
+// Separation-of-duties: user tidak boleh memegang lebih dari maxRoles role dari roleIds (1 = saling eksklusif)
+export const sodConstraintSchema = z.object({
+  name: z.string().trim().min(1, "Nama constraint harus diisi").max(100, "Nama constraint maksimal 100 karakter"),
+  description: z.string().max(1000, "Deskripsi maksimal 1000 karakter").nullable().optional(),
+  roleIds: z.array(z.number().int().positive("Role ID harus berupa integer positif")).min(2, "Constraint minimal berisi dua role"),
+  maxRoles: z.number().int().positive("Batas role harus berupa integer positif").default(1),
+}).refine(
+  (data) => new Set(data.roleIds).size === data.roleIds.length,
+  { message: "Role dalam constraint tidak boleh duplikat", path: ["roleIds"] }
+).refine(
+  (data) => data.maxRoles < data.roleIds.length,
+  { message: "Batas role harus lebih kecil dari jumlah role dalam constraint", path: ["maxRoles"] }
+);
+
 export const createRouteFeatureSchema = z.object({
   path: z.string().min(1, "Path harus diisi"),
   method: z.string().optional(),
   featureId: z.number().int().positive("Feature ID harus berupa integer positif"),
 });
 
+// Explain keputusan otorisasi: isi method + path (route) atau feature + action
+// context menimpa attribute context.* request explain (contoh: jam kerja user yang ditolak)
+export const authorizationExplainSchema = z.object({
+  userId: z.number().int().positive("User ID harus berupa integer positif"),
+  method: z.string().trim().min(1).optional(),
+  path: z.string().trim().startsWith("/", "Path harus diawali '/'").optional(),
+  feature: z.string().trim().min(1).optional(),
+  action: z.string().trim().min(1).optional(),
+  context: z.object({
+    timeOfDay: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Format waktu harus HH:mm").optional(),
+    dayOfWeek: z.enum(["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"]).optional(),
+    ip: z.string().nullable().optional(),
+    userAgent: z.string().nullable().optional(),
+  }).optional(),
+}).refine(
+  (data) => Boolean(data.method && data.path) || Boolean(data.feature && data.action),
+  { message: "Isi method dan path, atau feature dan action", path: ["path"] }
+);
+
+// Dokumen policy-as-code: roles, features, role_features, route_features, dan ABAC policies
+// Entity dirujuk dengan nama (bukan ID) sehingga dokumen dapat di-review di PR dan dipindah antar environment
+export const POLICY_DOCUMENT_VERSION = 1;
+
+export const policyDocumentSchema = z.object({
+  version: z.literal(POLICY_DOCUMENT_VERSION, { message: `Versi dokumen harus ${POLICY_DOCUMENT_VERSION}` }),
+  roles: z.array(z.object({
+    name: z.string().trim().min(1, "Nama role harus diisi").max(50, "Nama role maksimal 50 karakter"),
+    grantsAll: z.boolean().default(false),
+    mfaRequired: z.boolean().default(false),
+    maxConcurrentSessions: z.number().int().positive("Batas session harus berupa integer positif").nullable().default(null),
+    sessionLimitAction: z.enum(['reject', 'evict_oldest']).default('evict_oldest'),
+    parentRole: z.string().trim().min(1).nullable().default(null),
+  })).default([]),
+  features: z.array(z.object({
+    name: z.string().trim().min(1, "Nama feature harus diisi").max(100, "Nama feature maksimal 100 karakter"),
+    description: z.string().nullable().default(null),
+    category: z.string().max(50, "Category maksimal 50 karakter").nullable().default("General"),
+    actions: z.array(createFeatureActionSchema.extend({
+      description: z.string().nullable().default(null),
+    })).default([]),
+  })).default([]),
+  // allow/deny berisi action CRUD maupun action custom yang dideklarasikan feature
+  roleFeatures: z.array(z.object({
+    role: z.string().trim().min(1, "Role harus diisi"),
+    feature: z.string().trim().min(1, "Feature harus diisi"),
+    allow: z.array(actionNameSchema).default([]),
+    deny: z.array(actionNameSchema).default([]),
+  })).default([]),
+  // method null berarti semua method
+  routeFeatures: z.array(z.object({
+    path: z.string().trim().startsWith("/", "Path harus diawali '/'"),
+    method: z.string().trim().min(1).toUpperCase().nullable().default(null),
+    feature: z.string().trim().min(1, "Feature harus diisi"),
+  })).default([]),
+  policies: z.array(z.object({
+    feature: z.string().trim().min(1, "Feature harus diisi"),
+    expression: policyExpressionSchema,
+    enforcementMode: policyEnforcementModeSchema.default("enforce"),
+  }).refine(
+    (policy) => getPolicyExpressionDepth(policy.expression) <= MAX_POLICY_EXPRESSION_DEPTH,
+    { message: `Kedalaman group maksimal ${MAX_POLICY_EXPRESSION_DEPTH} level`, path: ["expression"] }
+  )).default([]),
+});
+
 // Inferred types dari schemas
 export type CreateRoleInput = z.infer<typeof createRoleSchema>;
 export type CreateFeatureInput = z.infer<typeof createFeatureSchema>;
 export type AssignRoleInput = z.infer<typeof assignRoleSchema>;
 export type SetPermissionInput = z.infer<typeof setPermissionSchema>;
 export type CreateRouteFeatureInput = z.infer<typeof createRouteFeatureSchema>;
+export type CreateFeatureActionInput = z.infer<typeof createFeatureActionSchema>;
+export type SetActionPermissionInput = z.infer<typeof setActionPermissionSchema>;
+export type CreateAccessRequestInput = z.infer<typeof createAccessRequestSchema>;
+export type ReviewAccessRequestInput = z.infer<typeof reviewAccessRequestSchema>;
+export type SetRoleApproversInput = z.infer<typeof setRoleApproversSchema>;
+export type CreateAccessReviewCampaignInput = z.infer<typeof createAccessReviewCampaignSchema>;
+export type DecideAccessReviewItemInput = z.infer<typeof decideAccessReviewItemSchema>;
+export type ReassignAccessReviewItemInput = z.infer<typeof reassignAccessReviewItemSchema>;
+export type SodConstraintInput = z.input<typeof sodConstraintSchema>;
+export type AuthorizationExplainInput = z.infer<typeof authorizationExplainSchema>;
+export type PolicyDocumentInput = z.input<typeof policyDocumentSchema>;
+export type PolicyDocument = z.infer<typeof policyDocumentSchema>;
+export type PolicyDocumentRole = PolicyDocument["roles"][number];
+export type PolicyDocumentFeature = PolicyDocument["features"][number];
+export type PolicyDocumentRoleFeature = PolicyDocument["roleFeatures"][number];
+export type PolicyDocumentRouteFeature = PolicyDocument["routeFeatures"][number];
+export type PolicyDocumentPolicy = PolicyDocument["policies"][number];
 
 // Interface untuk response types
 export interface UserPermission {
@@ -73,14 +286,314 @@ export interface RoleWithUsers extends Role {
   }>;
 }
 
+/**
+ * Status masa berlaku role assignment
+ * - active: sedang berlaku dan dihitung dalam permission check
+ * - scheduled: validFrom belum tercapai
+ * - expired: validUntil sudah lewat (menunggu dihapus expiry sweep)
+ */
+export type RoleAssignmentStatus = "active" | "scheduled" | "expired";
+
+export interface UserRoleAssignment extends UserRole {
+  role: Role;
+  status: RoleAssignmentStatus;
+}
+
+/**
+ * Tentukan status masa berlaku role assignment
+ * @param assignment - Row user_roles (validFrom/validUntil null = tanpa batas)
+ * @param at - Waktu acuan (default: sekarang)
+ * @returns RoleAssignmentStatus - active, scheduled, atau expired
+ */
+export function getRoleAssignmentStatus(
+  assignment: Pick<UserRole, "validFrom" | "validUntil">,
+  at: Date = new Date()
+): RoleAssignmentStatus {
+  if (assignment.validUntil && assignment.validUntil <= at) {
+    return "expired";
+  }
+  if (assignment.validFrom && assignment.validFrom > at) {
+    return "scheduled";
+  }
+  return "active";
+}
+
+/**
+ * Status access request role
+ * - pending: menunggu keputusan approver
+ * - approved: disetujui dan role sudah di-assign
+ * - rejected: ditolak approver
+ * - cancelled: dibatalkan oleh user yang meminta
+ */
+export type AccessRequestStatus = "pending" | "approved" | "rejected" | "cancelled";
+
+export const ACCESS_REQUEST_STATUSES = ["pending", "approved", "rejected", "cancelled"] as const satisfies readonly AccessRequestStatus[];
+
+/**
+ * Ringkasan user untuk response access request dan approver
+ */
+export interface UserSummary {
+  id: number;
+  name: string;
+  email: string;
+}
+
+/**
+ * Access request beserta user yang meminta, role, dan reviewer
+ */
+export interface EnrichedAccessRequest extends RoleAccessRequest {
+  user: UserSummary | null;
+  role: Pick<Role, "id" | "name"> | null;
+  reviewer: UserSummary | null;
+}
+
+/**
+ * Status campaign access review
+ * - open: reviewer dapat mencatat/mengubah keputusan
+ * - closed: keputusan revoke sudah diterapkan, item tidak dapat diubah
+ */
+export type AccessReviewCampaignStatus = "open" | "closed";
+
+export const ACCESS_REVIEW_CAMPAIGN_STATUSES = ["open", "closed"] as const satisfies readonly AccessReviewCampaignStatus[];
+
+export type AccessReviewDecision = "pending" | "keep" | "revoke";
+
+/**
+ * Item access review beserta user yang direview, role, dan reviewer
+ */
+export interface EnrichedAccessReviewItem extends AccessReviewItem {
+  user: UserSummary | null;
+  role: Pick<Role, "id" | "name"> | null;
+  reviewer: UserSummary | null;
+  campaign?: Pick<AccessReviewCampaign, "id" | "name" | "dueDate">;
+}
+
+/**
+ * Progress campaign access review, total dan per reviewer
+ */
+export interface AccessReviewProgress {
+  total: number;
+  pending: number;
+  kept: number;
+  revoked: number;
+  unassigned: number;
+  percentComplete: number;
+  byReviewer: Array<{
+    reviewer: UserSummary | null;
+    total: number;
+    decided: number;
+  }>;
+}
+
+/**
+ * Campaign access review beserta progress-nya
+ */
+export interface AccessReviewCampaignWithProgress extends AccessReviewCampaign {
+  progress: AccessReviewProgress;
+}
+
+/**
+ * Hasil penutupan campaign
+ */
+export interface AccessReviewCloseResult {
+  revoked: number;
+  alreadyRemoved: number;
+  failed: number;
+  undecided: number;
+}
+
+/**
+ * Constraint separation-of-duties beserta role dalam set-nya
+ */
+export interface SodConstraintWithRoles extends SodConstraint {
+  roles: Pick<Role, "id" | "name">[];
+}
+
+/**
+ * Constraint yang dilanggar oleh sebuah kombinasi role
+ */
+export interface SodConflict {
+  constraintId: number;
+  constraintName: string;
+  maxRoles: number;
+  roles: Pick<Role, "id" | "name">[];
+}
+
+/**
+ * User yang saat ini memegang role melebihi batas sebuah constraint
+ */
+export interface SodViolation extends SodConflict {
+  user: UserSummary | null;
+}
+
+/**
+ * Laporan user yang melanggar constraint separation-of-duties
+ */
+export interface SodViolationReport {
+  generatedAt: Date;
+  constraints: number;
+  affectedUsers: number;
+  violations: SodViolation[];
+}
+
 export interface UserWithRoles {
   userId: number;
   roles: Array<UserRole & { role: Role }>;
 }
 
 // Action types untuk permission checking
-export type PermissionAction = "create" | "read" | "update" | "delete";
-export type ActionType = "create" | "read" | "update" | "delete";
+export type ActionType = (typeof CRUD_ACTIONS)[number];
+
+/**
+ * Action permission: action CRUD bawaan atau action custom yang dideklarasikan feature
+ * (tabel feature_actions, contoh: "export", "approve", "impersonate")
+ */
+export type PermissionAction = ActionType | (string & {});
+
+/**
+ * Cek apakah action termasuk action CRUD bawaan (disimpan di kolom role_features)
+ * @param action - Nama action
+ * @returns boolean - true untuk create/read/update/delete
+ */
+export function isCrudAction(action: string): action is ActionType {
+  return (CRUD_ACTIONS as readonly string[]).includes(action);
+}
+
+/**
+ * Effect permission role-feature per action (tri-state)
+ * - allow: role mengizinkan action
+ * - deny: role melarang action, mengalahkan allow dari role lain
+ * - unset: role tidak menentukan apa pun untuk action
+ */
+export type PermissionEffect = "allow" | "deny" | "unset";
+
+// Kolom allow/deny role_features untuk setiap action
+export const PERMISSION_EFFECT_COLUMNS = {
+  create: { allow: "canCreate", deny: "denyCreate" },
+  read: { allow: "canRead", deny: "denyRead" },
+  update: { allow: "canUpdate", deny: "denyUpdate" },
+  delete: { allow: "canDelete", deny: "denyDelete" },
+} as const satisfies Record<ActionType, { allow: keyof RoleFeature; deny: keyof RoleFeature }>;
+
+/**
+ * Effect efektif satu action pada role setelah pewarisan parent role
+ * inheritedFrom null berarti ditentukan langsung oleh role tersebut
+ */
+export interface EffectiveActionPermission {
+  effect: PermissionEffect;
+  inheritedFrom: { id: number; name: string } | null;
+}
+
+/**
+ * Permission efektif role untuk satu feature (langsung maupun diwariskan)
+ */
+export interface EffectiveRolePermission {
+  featureId: number;
+  featureName: string;
+  featureDescription: string | null;
+  featureCategory: string | null;
+  direct: boolean; // true jika role memiliki permission sendiri (CRUD maupun custom) untuk feature ini
+  actions: Record<ActionType, EffectiveActionPermission> & Record<string, EffectiveActionPermission>;
+}
+
+/**
+ * Hasil explain keputusan otorisasi untuk satu user
+ * route diisi untuk explain method + path, feature untuk explain feature + action
+ */
+export interface AuthorizationExplanation {
+  user: {
+    id: number;
+    name: string;
+    email: string;
+    active: boolean;
+    roles: string[];
+    hasGrantsAll: boolean;
+  };
+  allowed: boolean;
+  reason: string;
+  context: AbacRequestContext;
+  route: RouteAccessTrace | null;
+  feature: FeatureAccessTrace | null;
+}
+
+/**
+ * Entity dokumen policy-as-code yang dibandingkan saat import
+ */
+export type PolicyDocumentEntity = "feature" | "role" | "role_feature" | "route_feature" | "policy";
+
+export const POLICY_DOCUMENT_ENTITIES = ["feature", "role", "role_feature", "route_feature", "policy"] as const satisfies readonly PolicyDocumentEntity[];
+
+export type PolicyDocumentOperation = "create" | "update" | "delete";
+
+/**
+ * Satu perubahan hasil diff dokumen terhadap database
+ * id adalah ID row di database (null untuk create); before/after dalam format dokumen
+ */
+interface PolicyDocumentEntityChange<E extends PolicyDocumentEntity, T> {
+  entity: E;
+  operation: PolicyDocumentOperation;
+  key: string;
+  id: number | null;
+  before: T | null;
+  after: T | null;
+}
+
+export type PolicyDocumentChange =
+  | PolicyDocumentEntityChange<"feature", PolicyDocumentFeature>
+  | PolicyDocumentEntityChange<"role", PolicyDocumentRole>
+  | PolicyDocumentEntityChange<"role_feature", PolicyDocumentRoleFeature>
+  | PolicyDocumentEntityChange<"route_feature", PolicyDocumentRouteFeature>
+  | PolicyDocumentEntityChange<"policy", PolicyDocumentPolicy>;
+
+/**
+ * Diff dokumen terhadap database, terurut sesuai urutan apply
+ */
+export interface PolicyDocumentDiff {
+  changes: PolicyDocumentChange[];
+  summary: Record<PolicyDocumentEntity, Record<PolicyDocumentOperation, number>>;
+}
+
+/**
+ * Hasil import dokumen policy-as-code (dry-run hanya menghasilkan diff)
+ */
+export interface PolicyDocumentImportResult {
+  dryRun: boolean;
+  applied: boolean;
+  diff: PolicyDocumentDiff;
+}
+
+/**
+ * Snapshot permission role-feature: action CRUD dan custom yang di-allow/deny
+ * Format sama dengan entry roleFeatures pada dokumen policy-as-code
+ */
+export interface RoleFeaturePermissionSnapshot {
+  allow: string[];
+  deny: string[];
+}
+
+/**
+ * Perubahan effect action role-feature dibanding versi sebelumnya
+ */
+export interface RoleFeatureVersionChange {
+  action: string;
+  before: PermissionEffect;
+  after: PermissionEffect;
+}
+
+/**
+ * Satu versi permission role-feature pada history beserta diff terhadap versi sebelumnya
+ * permissions null jika versi berupa penghapusan permission
+ */
+export interface RoleFeatureVersionEntry {
+  version: number;
+  action: VersionAction;
+  permissions: RoleFeaturePermissionSnapshot | null;
+  comment: string | null;
+  authorId: number | null;
+  authorName: string | null;
+  createdAt: Date;
+  changes: RoleFeatureVersionChange[];
+}
 
 // Response types untuk API
 export interface UserPermissionResponse {
@@ -133,8 +646,120 @@ export class RoleAssignmentExistsError extends RBACError {
   }
 }
 
+export class RoleHierarchyCycleError extends RBACError {
+  constructor(roleId: number, parentRoleId: number) {
+    super(`Parent role ${parentRoleId} tidak valid untuk role ${roleId}: hierarki role membentuk siklus`, "ROLE_HIERARCHY_CYCLE");
+  }
+}
+
+export class FeatureActionNotFoundError extends RBACError {
+  constructor(featureId: number, action: string) {
+    super(`Action '${action}' tidak dideklarasikan untuk feature ${featureId}`, "FEATURE_ACTION_NOT_FOUND");
+  }
+}
+
+export class DuplicateFeatureActionError extends RBACError {
+  constructor(featureId: number, action: string) {
+    super(`Action '${action}' sudah ada untuk feature ${featureId}`, "DUPLICATE_FEATURE_ACTION");
+  }
+}
+
+export class AccessRequestNotFoundError extends RBACError {
+  constructor(requestId: number) {
+    super(`Access request dengan ID ${requestId} tidak ditemukan`, "ACCESS_REQUEST_NOT_FOUND");
+  }
+}
+
+export class AccessRequestNotPendingError extends RBACError {
+  constructor(requestId: number, status: string) {
+    super(`Access request ${requestId} sudah berstatus '${status}'`, "ACCESS_REQUEST_NOT_PENDING");
+  }
+}
+
+export class DuplicateAccessRequestError extends RBACError {
+  constructor(userId: number, roleId: number) {
+    super(`User ${userId} masih memiliki access request pending untuk role ${roleId}`, "DUPLICATE_ACCESS_REQUEST");
+  }
+}
+
+export class RoleHasNoApproversError extends RBACError {
+  constructor(roleId: number) {
+    super(`Role ${roleId} tidak memiliki approver sehingga tidak dapat diminta`, "ROLE_HAS_NO_APPROVERS");
+  }
+}
+
+export class NotRoleApproverError extends RBACError {
+  constructor(userId: number, roleId: number) {
+    super(`User ${userId} bukan approver untuk role ${roleId}`, "NOT_ROLE_APPROVER");
+  }
+}
+
+export class AccessReviewCampaignNotFoundError extends RBACError {
+  constructor(campaignId: number) {
+    super(`Access review campaign dengan ID ${campaignId} tidak ditemukan`, "ACCESS_REVIEW_CAMPAIGN_NOT_FOUND");
+  }
+}
+
+export class AccessReviewItemNotFoundError extends RBACError {
+  constructor(itemId: number) {
+    super(`Access review item dengan ID ${itemId} tidak ditemukan`, "ACCESS_REVIEW_ITEM_NOT_FOUND");
+  }
+}
+
+export class AccessReviewCampaignClosedError extends RBACError {
+  constructor(campaignId: number) {
+    super(`Access review campaign ${campaignId} sudah ditutup`, "ACCESS_REVIEW_CAMPAIGN_CLOSED");
+  }
+}
+
+export class NotAccessReviewerError extends RBACError {
+  constructor(userId: number, itemId: number) {
+    super(`User ${userId} bukan reviewer untuk access review item ${itemId}`, "NOT_ACCESS_REVIEWER");
+  }
+}
+
 export class PermissionNotFoundError extends RBACError {
   constructor(roleId: number, featureId: number) {
     super(`Permission untuk role ${roleId} dan feature ${featureId} tidak ditemukan`, "PERMISSION_NOT_FOUND");
   }
-}
\ No newline at end of file
+}
+
+export class RoleFeatureVersionNotFoundError extends RBACError {
+  constructor(roleId: number, featureId: number, version: number) {
+    super(`Versi ${version} permission role ${roleId} dan feature ${featureId} tidak ditemukan`, "ROLE_FEATURE_VERSION_NOT_FOUND");
+  }
+}
+
+export class SodConstraintNotFoundError extends RBACError {
+  constructor(constraintId: number) {
+    super(`Constraint separation-of-duties dengan ID ${constraintId} tidak ditemukan`, "SOD_CONSTRAINT_NOT_FOUND");
+  }
+}
+
+export class DuplicateSodConstraintError extends RBACError {
+  constructor(name: string) {
+    super(`Constraint separation-of-duties dengan nama '${name}' sudah ada`, "DUPLICATE_SOD_CONSTRAINT");
+  }
+}
+
+/**
+ * Role assignment ditolak karena user akan memegang role yang saling eksklusif
+ * Turunan ConflictError (409) dengan daftar constraint yang dilanggar
+ * userId null untuk role undangan yang belum memiliki user
+ */
+export class SeparationOfDutiesViolationError extends ConflictError {
+  constructor(userId: number | null, public readonly conflicts: SodConflict[]) {
+    super("Role assignment", "constraint separation-of-duties", conflicts[0]?.constraintName, { userId, conflicts });
+    const subject = userId === null ? "User undangan" : `User ${userId}`;
+    this.message = conflicts
+      .map(conflict => `${subject} akan memegang role ${conflict.roles.map(role => `'${role.name}'`).join(", ")} ` +
+        `yang melanggar separation-of-duties '${conflict.constraintName}' (maksimal ${conflict.maxRoles} role)`)
+      .join("; ");
+  }
+}
+
+export class InvalidPolicyDocumentError extends RBACError {
+  constructor(public issues: string[]) {
+    super(`Dokumen policy tidak valid: ${issues.length} masalah ditemukan`, "INVALID_POLICY_DOCUMENT");
+  }
+}
@@ -1,12 +1,20 @@
 import { userRepository, roleRepository, userRoleRepository } from "@/repositories";
+import { tokenRevocationService } from "@/lib/auth/authService/tokenRevocationService";
+import type { DbTransaction } from "@/repositories/base/baseRepository";
+import { separationOfDutiesService } from "./separationOfDutiesService";
 import { 
   type Role,
   type UserRole,
+  type NewUserRole,
+  type UserRoleAssignment,
+  type SodConflict,
   type AssignRoleInput,
   assignRoleSchema,
+  getRoleAssignmentStatus,
   UserNotFoundError,
   RoleNotFoundError,
   RoleAssignmentExistsError,
+  SeparationOfDutiesViolationError,
   RBACError
 } from "./types";
 
@@ -16,44 +24,36 @@ import {
  */
 export class UserRoleService {
   /**
-   * Assign role ke user
+   * Assign role ke user, opsional dengan masa berlaku (validFrom/validUntil)
    * @param assignData - Data assignment role ke user
    * @returns Promise<UserRole> - UserRole yang baru dibuat
    * @throws UserNotFoundError jika user tidak ditemukan
    * @throws RoleNotFoundError jika role tidak ditemukan
    * @throws RoleAssignmentExistsError jika user sudah memiliki role
+   * @throws SeparationOfDutiesViolationError jika role melanggar constraint separation-of-duties
    */
   async assignRole(assignData: AssignRoleInput): Promise<UserRole> {
-    // Validasi input
-    const validatedData = assignRoleSchema.parse(assignData);
-    
-    // Cek apakah user ada
-    const user = await userRepository.findById(validatedData.userId);
-    if (!user) {
-      throw new UserNotFoundError(validatedData.userId);
-    }
-    
-    // Cek apakah role ada
-    const role = await roleRepository.findById(validatedData.roleId);
-    if (!role) {
-      throw new RoleNotFoundError(validatedData.roleId);
-    }
-    
-    // Cek apakah user sudah memiliki role ini
-    const hasRole = await userRoleRepository.userHasRole(validatedData.userId, validatedData.roleId);
-    if (hasRole) {
-      throw new RoleAssignmentExistsError(validatedData.userId, validatedData.roleId);
-    }
-
-    // Update rolesUpdatedAt untuk invalidasi session
-    await userRepository.update(validatedData.userId, {
-      rolesUpdatedAt: new Date(),
-    });
+    // Tanpa claim assignment hanya dapat gagal lewat error
+    return (await this.assignSingleRole(assignData))!;
+  }
 
-    return await userRoleRepository.create({
-      userId: validatedData.userId,
-      roleId: validatedData.roleId
-    });
+  /**
+   * Assign role ke user bersamaan dengan klaim lain dalam satu transaksi
+   * claim dijalankan setelah constraint separation-of-duties lolos dan sebelum assignment ditulis,
+   * contoh: approval access request yang hanya boleh meng-assign role jika request masih pending
+   * @param assignData - Data assignment role ke user
+   * @param claim - Klaim dalam transaksi assignment; false membatalkan assignment
+   * @returns Promise<UserRole | undefined> - UserRole yang baru dibuat, undefined jika claim gagal
+   * @throws UserNotFoundError jika user tidak ditemukan
+   * @throws RoleNotFoundError jika role tidak ditemukan
+   * @throws RoleAssignmentExistsError jika user sudah memiliki role
+   * @throws SeparationOfDutiesViolationError jika role melanggar constraint separation-of-duties
+   */
+  async assignRoleWithClaim(
+    assignData: AssignRoleInput,
+    claim: (tx: DbTransaction) => Promise<boolean>
+  ): Promise<UserRole | undefined> {
+    return this.assignSingleRole(assignData, claim);
   }
 
   /**
@@ -88,14 +88,37 @@ export class UserRoleService {
     await userRepository.update(userId, {
       rolesUpdatedAt: new Date(),
     });
+    await tokenRevocationService.revokeAccessTokens(userId, 'roles_changed');
 
     return await userRoleRepository.deleteByUserAndRole(userId, roleId);
   }
 
   /**
-   * Mengambil semua role untuk user tertentu
+   * Remove satu role assignment berdasarkan ID
+   * Berbeda dengan removeRole, assignment role yang sama yang dibuat ulang (ID berbeda) tidak ikut dihapus
+   * @param userRoleId - ID role assignment
+   * @returns Promise<boolean> - true jika dihapus, false jika assignment sudah tidak ada
+   */
+  async removeAssignment(userRoleId: number): Promise<boolean> {
+    const assignment = await userRoleRepository.findById(userRoleId);
+    if (!assignment || !(await userRoleRepository.delete(userRoleId))) {
+      return false;
+    }
+
+    // Update rolesUpdatedAt untuk invalidasi session
+    await userRepository.update(assignment.userId, {
+      rolesUpdatedAt: new Date(),
+    });
+    await tokenRevocationService.revokeAccessTokens(assignment.userId, 'roles_changed');
+
+    return true;
+  }
+
+  /**
+   * Mengambil semua role yang sedang berlaku untuk user tertentu
+   * Assignment yang terjadwal (validFrom belum tercapai) atau expired tidak disertakan
    * @param userId - ID user
-   * @returns Promise<(UserRole & { role: Role })[]> - Array UserRole dengan relasi role
+   * @returns Promise<(UserRole & { role: Role })[]> - Array UserRole aktif dengan relasi role
    * @throws UserNotFoundError jika user tidak ditemukan
    */
   async getUserRoles(userId: number): Promise<(UserRole & { role: Role })[]> {
@@ -105,7 +128,7 @@ export class UserRoleService {
       throw new UserNotFoundError(userId);
     }
 
-    const userRoles = await userRoleRepository.findByUserId(userId);
+    const userRoles = await userRoleRepository.findActiveByUserId(userId);
     const result = [];
     
     for (const userRole of userRoles) {
@@ -118,6 +141,34 @@ export class UserRoleService {
     return result;
   }
 
+  /**
+   * Mengambil semua role assignment user beserta status masa berlakunya
+   * Termasuk assignment terjadwal dan expired, untuk ditampilkan di dashboard
+   * @param userId - ID user
+   * @returns Promise<UserRoleAssignment[]> - Array assignment dengan relasi role dan status
+   * @throws UserNotFoundError jika user tidak ditemukan
+   */
+  async getUserRoleAssignments(userId: number): Promise<UserRoleAssignment[]> {
+    // Cek apakah user ada
+    const user = await userRepository.findById(userId);
+    if (!user) {
+      throw new UserNotFoundError(userId);
+    }
+
+    const userRoles = await userRoleRepository.findByUserId(userId);
+    const now = new Date();
+    const result: UserRoleAssignment[] = [];
+
+    for (const userRole of userRoles) {
+      const role = await roleRepository.findById(userRole.roleId);
+      if (role) {
+        result.push({ ...userRole, role, status: getRoleAssignmentStatus(userRole, now) });
+      }
+    }
+
+    return result;
+  }
+
   /**
    * Mengambil semua user untuk role tertentu
    * @param roleId - ID role
@@ -135,13 +186,14 @@ export class UserRoleService {
   }
 
   /**
-   * Mengecek apakah user memiliki role tertentu
+   * Mengecek apakah user memiliki role tertentu yang sedang berlaku
    * @param userId - ID user
    * @param roleId - ID role
-   * @returns Promise<boolean> - true jika user memiliki role
+   * @returns Promise<boolean> - true jika user memiliki role aktif
    */
   async userHasRole(userId: number, roleId: number): Promise<boolean> {
-    return await userRoleRepository.userHasRole(userId, roleId);
+    const userRoles = await userRoleRepository.findActiveByUserId(userId);
+    return userRoles.some(userRole => userRole.roleId === roleId);
   }
 
   /**
@@ -178,6 +230,7 @@ export class UserRoleService {
     await userRepository.update(userId, {
       rolesUpdatedAt: new Date(),
     });
+    await tokenRevocationService.revokeAccessTokens(userId, 'roles_changed');
 
     // Hapus satu per satu
     let deletedCount = 0;
@@ -191,11 +244,14 @@ export class UserRoleService {
 
   /**
    * Update roles user dengan mengganti semua role yang ada
+   * Role yang tetap di-assign mempertahankan assignment lama beserta validFrom/validUntil-nya;
+   * role baru di-assign tanpa batas masa berlaku
    * @param userId - ID user
    * @param roleIds - Array ID role yang akan di-assign
    * @returns Promise<(UserRole & { role: Role })[]> - Array role user yang baru
    * @throws UserNotFoundError jika user tidak ditemukan
    * @throws RoleNotFoundError jika ada role yang tidak ditemukan
+   * @throws SeparationOfDutiesViolationError jika kombinasi role melanggar constraint separation-of-duties
    */
   async updateUserRoles(userId: number, roleIds: number[]): Promise<(UserRole & { role: Role })[]> {
     // Cek apakah user ada
@@ -212,28 +268,106 @@ export class UserRoleService {
       }
     }
 
-    // Hapus semua role user yang ada
-    await this.removeAllUserRoles(userId);
+    // Kombinasi role divalidasi dan role lama diganti dalam satu transaksi
+    // agar user tidak tertinggal dengan sebagian role; masa berlaku role yang dipertahankan tidak diubah
+    const userRoles = (await this.assignWithSodCheck(
+      userId,
+      [...new Set(roleIds)].map(roleId => ({ roleId, validFrom: null, validUntil: null })),
+      true
+    ))!;
 
-    // Assign role baru
     const newUserRoles: (UserRole & { role: Role })[] = [];
-    for (const roleId of roleIds) {
-      try {
-        const userRole = await this.assignRole({ userId, roleId });
-        const role = await roleRepository.findById(roleId);
-        if (role) {
-          newUserRoles.push({ ...userRole, role });
-        }
-      } catch (error) {
-        // Skip jika role sudah ada (seharusnya tidak terjadi karena sudah dihapus semua)
-        if (!(error instanceof RoleAssignmentExistsError)) {
-          throw error;
-        }
+    for (const userRole of userRoles) {
+      const role = await roleRepository.findById(userRole.roleId);
+      if (role) {
+        newUserRoles.push({ ...userRole, role });
       }
     }
 
     return newUserRoles;
   }
+
+  /**
+   * Validasi dan simpan assignment satu role
+   * @param assignData - Data assignment role ke user
+   * @param claim - Klaim opsional dalam transaksi assignment
+   * @returns Promise<UserRole | undefined> - UserRole yang baru dibuat, undefined jika claim gagal
+   */
+  private async assignSingleRole(
+    assignData: AssignRoleInput,
+    claim?: (tx: DbTransaction) => Promise<boolean>
+  ): Promise<UserRole | undefined> {
+    // Validasi input
+    const validatedData = assignRoleSchema.parse(assignData);
+    
+    // Cek apakah user ada
+    const user = await userRepository.findById(validatedData.userId);
+    if (!user) {
+      throw new UserNotFoundError(validatedData.userId);
+    }
+    
+    // Cek apakah role ada
+    const role = await roleRepository.findById(validatedData.roleId);
+    if (!role) {
+      throw new RoleNotFoundError(validatedData.roleId);
+    }
+    
+    // Cek apakah user sudah memiliki role ini
+    // Assignment yang sudah expired tetapi belum dihapus expiry sweep boleh diganti
+    const existingAssignment = await userRoleRepository.findByUserAndRole(validatedData.userId, validatedData.roleId);
+    if (existingAssignment && getRoleAssignmentStatus(existingAssignment) !== 'expired') {
+      throw new RoleAssignmentExistsError(validatedData.userId, validatedData.roleId);
+    }
+
+    // Tolak role yang saling eksklusif dengan role lain milik user
+    const userRoles = await this.assignWithSodCheck(validatedData.userId, [{
+      roleId: validatedData.roleId,
+      validFrom: validatedData.validFrom ?? null,
+      validUntil: validatedData.validUntil ?? null
+    }], false, claim);
+
+    return userRoles?.[0];
+  }
+
+  /**
+   * Simpan assignment setelah dicek terhadap constraint separation-of-duties, lalu cabut token user satu kali
+   * Pengecekan dan penyimpanan berjalan dalam satu transaksi yang mengunci assignment user,
+   * sehingga assignment bersamaan tidak dapat bersama-sama melanggar constraint
+   * @param userId - ID user
+   * @param assignments - Assignment baru
+   * @param replaceExisting - true jika assignment menggantikan semua role user
+   * @param claim - Klaim opsional dalam transaksi yang sama; false membatalkan assignment
+   * @returns Promise<UserRole[] | undefined> - Assignment yang dibuat, undefined jika claim gagal
+   * @throws SeparationOfDutiesViolationError jika assignment melanggar constraint
+   */
+  private async assignWithSodCheck(
+    userId: number,
+    assignments: Omit<NewUserRole, 'userId'>[],
+    replaceExisting: boolean,
+    claim?: (tx: DbTransaction) => Promise<boolean>
+  ): Promise<UserRole[] | undefined> {
+    const roleIds = assignments.map(assignment => assignment.roleId);
+    let conflicts: SodConflict[] = [];
+
+    const userRoles = await userRoleRepository.assignLocked(userId, assignments, replaceExisting, async (currentAssignments) => {
+      conflicts = await separationOfDutiesService.findAssignmentConflicts(currentAssignments, roleIds, replaceExisting);
+      return conflicts.length === 0;
+    }, claim);
+    if (conflicts.length > 0) {
+      throw new SeparationOfDutiesViolationError(userId, conflicts);
+    }
+    if (!userRoles) {
+      return undefined;
+    }
+
+    // Update rolesUpdatedAt untuk invalidasi session
+    await userRepository.update(userId, {
+      rolesUpdatedAt: new Date(),
+    });
+    await tokenRevocationService.revokeAccessTokens(userId, 'roles_changed');
+
+    return userRoles;
+  }
 }
 
 // Export instance untuk digunakan di aplikasi
@@ -5,12 +5,15 @@ export * from './types';
 export { UserCrudService, userCrudService } from './userCrudService';
 export { UserProfileService, userProfileService } from './userProfileService';
 export { UserRoleAssignmentService, userRoleAssignmentService } from './userRoleAssignmentService';
+export { UserInvitationService, userInvitationService } from './userInvitationService';
+export { ServiceAccountService, serviceAccountService } from './serviceAccountService';
 
 // Import services untuk backward compatibility
 import { userCrudService } from './userCrudService';
 import { userProfileService } from './userProfileService';
 import { userRoleAssignmentService } from './userRoleAssignmentService';
 import { userRepository } from '@/repositories';
+import { tokenRevocationService } from '@/lib/auth/authService/tokenRevocationService';
 import type { User, UserCreateInput, SanitizedUser } from './types';
 
 /**
@@ -162,6 +165,10 @@ export class UserService {
       });
       
       const success = updatedUser !== null;
+      if (updatedUser) {
+        // Access token yang terbit dengan password lama langsung tidak berlaku
+        await tokenRevocationService.revokeAccessTokens(userId, 'password_changed');
+      }
       console.log('🔍 UserService.updateUserPassword - Final result:', success);
       
       return success;
@@ -0,0 +1,118 @@
+import { randomBytes } from "crypto";
+import { userRepository, roleRepository, userRoleRepository } from "@/repositories";
+import { ConflictError, NotFoundError, ValidationError } from "@/lib/errors/errorHandler";
+import { passwordService } from "@/lib/auth/authService/passwordService";
+import { accessTokenService } from "@/lib/auth/authService/accessTokenService";
+import { changeHistoryService } from "../audit/changeHistoryService";
+import { userRoleService } from "../rbac/userRoleService";
+import { userProfileService } from "./userProfileService";
+import {
+  type User,
+  type CreateServiceAccountInput,
+  type ServiceAccountSummary,
+  createServiceAccountSchema
+} from "./types";
+
+// Domain email service account; bukan alamat yang dapat menerima email
+const SERVICE_ACCOUNT_EMAIL_DOMAIN = 'service-account.local';
+
+/**
+ * Service untuk service account (user non-manusia untuk automation)
+ * Service account tidak dapat login dengan password; aksesnya hanya lewat personal access token
+ * yang dibatasi permission role service account dan scope token. Setiap langkah dicatat ke change_history.
+ */
+export class ServiceAccountService {
+  /**
+   * Buat service account baru beserta role-nya
+   * @param adminUserId - ID admin yang membuat
+   * @param accountData - Nama, ABAC attributes, dan role
+   * @returns Promise<ServiceAccountSummary> - Service account yang dibuat
+   * @throws ValidationError jika nama tidak menghasilkan email yang valid
+   * @throws ConflictError jika service account dengan nama yang sama sudah ada
+   * @throws NotFoundError jika role tidak ditemukan
+   */
+  async createServiceAccount(adminUserId: number, accountData: CreateServiceAccountInput): Promise<ServiceAccountSummary> {
+    const validatedData = createServiceAccountSchema.parse(accountData);
+
+    const email = this.buildEmail(validatedData.name);
+    if (await userRepository.findByEmail(email)) {
+      throw new ConflictError('Service account', 'email', email);
+    }
+
+    const roleIds = [...new Set(validatedData.roleIds)];
+    for (const roleId of roleIds) {
+      if (!(await roleRepository.findById(roleId))) {
+        throw new NotFoundError('Role', roleId);
+      }
+    }
+
+    // Password acak yang tidak pernah diberikan ke siapa pun; login password juga ditolak untuk service account
+    const user = await userRepository.create({
+      name: validatedData.name,
+      email,
+      passwordHash: await passwordService.hashPassword(randomBytes(32).toString('hex')),
+      department: validatedData.department ?? null,
+      region: validatedData.region ?? null,
+      active: true,
+      emailVerifiedAt: new Date(),
+      isServiceAccount: true
+    });
+
+    for (const roleId of roleIds) {
+      await userRoleService.assignRole({ userId: user.id, roleId });
+    }
+
+    await changeHistoryService.logChangeHistory({
+      adminUserId,
+      targetUserId: user.id,
+      action: 'createServiceAccount',
+      after: JSON.stringify({ name: user.name, email: user.email, roleIds })
+    });
+
+    console.log(`🤖 Service account ${user.id} created by user ${adminUserId}`);
+    const [summary] = await this.enrichServiceAccounts([user]);
+    return summary;
+  }
+
+  /**
+   * Ambil semua service account beserta role dan jumlah token aktif
+   * @returns Promise<ServiceAccountSummary[]> - Service account terbaru lebih dulu
+   */
+  async getServiceAccounts(): Promise<ServiceAccountSummary[]> {
+    const accounts = (await userRepository.findServiceAccounts())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    return this.enrichServiceAccounts(accounts);
+  }
+
+  /**
+   * Buat email service account dari nama (contoh: "CI Deploy Bot" -> ci-deploy-bot@service-account.local)
+   * @throws ValidationError jika nama tidak mengandung huruf atau angka
+   */
+  private buildEmail(name: string): string {
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').substring(0, 64);
+    if (!slug) {
+      throw new ValidationError('Nama service account harus mengandung huruf atau angka');
+    }
+    return `${slug}@${SERVICE_ACCOUNT_EMAIL_DOMAIN}`;
+  }
+
+  /**
+   * Lengkapi service account dengan role dan jumlah token aktif
+   */
+  private async enrichServiceAccounts(accounts: User[]): Promise<ServiceAccountSummary[]> {
+    const roleNames = new Map((await roleRepository.findAll()).map(role => [role.id, role.name]));
+
+    return Promise.all(accounts.map(async (account) => {
+      const userRoles = await userRoleRepository.findActiveByUserId(account.id);
+      const tokens = await accessTokenService.listTokens(account.id);
+      return {
+        ...userProfileService.sanitizeUser(account),
+        roles: userRoles.map(({ roleId }) => ({ id: roleId, name: roleNames.get(roleId) ?? `Role ${roleId}` })),
+        activeTokens: tokens.filter(token => token.status === 'active').length
+      };
+    }));
+  }
+}
+
+// Export instance untuk digunakan di aplikasi
+export const serviceAccountService = new ServiceAccountService();
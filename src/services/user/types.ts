@@ -1,8 +1,10 @@
-import type { User } from '@/db/schema';
+import { z } from 'zod';
+import type { User, UserInvitation } from '@/db/schema';
 import type { UserCreateInput } from '@/lib/validation/schemas';
+import { updateUserAttributesSchema } from '@/services/abac/types';
 
 // Re-export types
-export type { User, UserCreateInput };
+export type { User, UserCreateInput, UserInvitation };
 
 /**
  * Interface untuk response authentication
@@ -34,4 +36,78 @@ export interface UserProfileUpdateData {
 /**
  * Interface untuk user yang sudah disanitasi (tanpa password hash)
  */
-export type SanitizedUser = Omit<User, 'passwordHash'>;
\ No newline at end of file
+export type SanitizedUser = Omit<User, 'passwordHash'>;
+
+/**
+ * Status undangan user (diturunkan dari kolom accepted/revoked/expires)
+ * - pending: belum diterima, belum dicabut, dan belum expired
+ * - accepted: sudah diterima dan akun dibuat
+ * - expired: melewati masa berlaku sebelum diterima
+ * - revoked: dicabut admin sebelum diterima
+ */
+export type UserInvitationStatus = 'pending' | 'accepted' | 'expired' | 'revoked';
+
+export const USER_INVITATION_STATUSES = ['pending', 'accepted', 'expired', 'revoked'] as const satisfies readonly UserInvitationStatus[];
+
+/**
+ * Schema validasi untuk membuat undangan user
+ * Role dan ABAC attributes diterapkan ke akun saat undangan diterima
+ */
+export const createUserInvitationSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Format email tidak valid"),
+  name: z.string().trim().min(1).max(100, "Nama maksimal 100 karakter").optional(),
+  roleIds: z.array(z.number().int().positive("Role ID harus berupa integer positif")).default([]),
+  attributes: updateUserAttributesSchema.default({}),
+});
+
+export type CreateUserInvitationInput = z.input<typeof createUserInvitationSchema>;
+
+/**
+ * Data untuk menerima undangan (invitee mengisi nama dan password sendiri)
+ */
+export interface AcceptUserInvitationInput {
+  name: string;
+  password: string;
+}
+
+/**
+ * Undangan beserta status, role, dan admin yang mengundang
+ * Hash token tidak pernah dikirim ke client
+ */
+export interface EnrichedUserInvitation extends Omit<UserInvitation, 'tokenHash' | 'customAttributes'> {
+  status: UserInvitationStatus;
+  roles: { id: number; name: string }[];
+  customAttributes: Record<string, unknown>;
+  invitedByUser: { id: number; name: string; email: string } | null;
+}
+
+/**
+ * Ringkasan undangan untuk halaman penerimaan undangan (publik)
+ */
+export interface UserInvitationPreview {
+  email: string;
+  name: string | null;
+  roles: string[];
+  expiresAt: Date;
+}
+
+/**
+ * Schema validasi untuk membuat service account
+ * Email dibuat otomatis dari nama; service account tidak memiliki password yang dapat dipakai login
+ */
+export const createServiceAccountSchema = z.object({
+  name: z.string().trim().min(1, "Nama service account tidak boleh kosong").max(100, "Nama maksimal 100 karakter"),
+  department: z.string().trim().max(100, "Department maksimal 100 karakter").optional(),
+  region: z.string().trim().max(100, "Region maksimal 100 karakter").optional(),
+  roleIds: z.array(z.number().int().positive("Role ID harus berupa integer positif")).default([]),
+});
+
+export type CreateServiceAccountInput = z.input<typeof createServiceAccountSchema>;
+
+/**
+ * Service account beserta role dan jumlah personal access token aktif
+ */
+export interface ServiceAccountSummary extends SanitizedUser {
+  roles: { id: number; name: string }[];
+  activeTokens: number;
+}
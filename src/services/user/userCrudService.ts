@@ -1,6 +1,7 @@
 import { BaseCrudService } from "../base/baseService";
 import { userRepository } from "@/repositories";
 import { NotFoundError, ConflictError } from "@/lib/errors/errorHandler";
+import { tokenRevocationService } from "@/lib/auth/authService/tokenRevocationService";
 import type { User, UserCreateInput } from "./types";
 
 /**
@@ -101,6 +102,9 @@ export class UserCrudService extends BaseCrudService<User, UserCreateInput, Part
         }
 
         const updatedUser = await userRepository.update(id, data);
+        if (updatedUser) {
+          await tokenRevocationService.applyStatusChange(id, existingUser.active, updatedUser.active);
+        }
         return updatedUser || null;
       }
     );
@@ -167,6 +171,9 @@ export class UserCrudService extends BaseCrudService<User, UserCreateInput, Part
           throw new NotFoundError('User', userId);
         }
         const result = await userRepository.deactivate(userId);
+        if (result) {
+          await tokenRevocationService.applyStatusChange(userId, existingUser.active, false);
+        }
         return !!result; // Convert to boolean
       }
     );
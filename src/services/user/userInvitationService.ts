@@ -0,0 +1,399 @@
+import {
+  userRepository,
+  roleRepository,
+  userInvitationRepository
+} from "@/repositories";
+import { ValidationError, NotFoundError, ConflictError } from "@/lib/errors/errorHandler";
+import { passwordService } from "@/lib/auth/authService/passwordService";
+import { generateLinkToken, hashLinkToken, buildTokenLink } from "@/lib/auth/authService/linkToken";
+import { mailTransport, getMailFrom } from "@/lib/mail";
+import { changeHistoryService } from "../audit/changeHistoryService";
+import { attributeDefinitionService } from "../abac/attributeDefinitionService";
+import { separationOfDutiesService } from "../rbac/separationOfDutiesService";
+import { SeparationOfDutiesViolationError } from "../rbac/types";
+import { userProfileService } from "./userProfileService";
+import type { UserAttributeValueInput } from "@/db/schema";
+import {
+  type UserInvitation,
+  type UserInvitationStatus,
+  type EnrichedUserInvitation,
+  type UserInvitationPreview,
+  type CreateUserInvitationInput,
+  type AcceptUserInvitationInput,
+  type SanitizedUser,
+  createUserInvitationSchema
+} from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Masa berlaku undangan (hari)
+const INVITATION_EXPIRY_DAYS = Number(process.env.USER_INVITATION_EXPIRY_DAYS) || 7;
+
+// Halaman untuk menerima undangan
+const ACCEPT_INVITATION_PATH = '/accept-invitation';
+
+/**
+ * Service untuk onboarding user lewat undangan email
+ * Admin mengundang email dengan role dan ABAC attributes; invitee membuat password sendiri
+ * melalui link undangan (token acak, di-hash, sekali pakai). Akun dari undangan langsung aktif
+ * karena kepemilikan email dibuktikan oleh link. Setiap langkah dicatat ke change_history.
+ */
+export class UserInvitationService {
+  /**
+   * Buat undangan dan kirim link undangan ke email
+   * @param adminUserId - ID admin yang mengundang
+   * @param invitationData - Email, nama (opsional), role, dan ABAC attributes
+   * @returns Promise<EnrichedUserInvitation> - Undangan yang dibuat
+   * @throws ConflictError jika email sudah terdaftar atau masih ada undangan pending
+   * @throws NotFoundError jika role tidak ditemukan
+   * @throws SeparationOfDutiesViolationError jika kombinasi role melanggar constraint separation-of-duties
+   * @throws ValidationError jika custom attribute tidak terdaftar atau tidak valid
+   */
+  async createInvitation(adminUserId: number, invitationData: CreateUserInvitationInput): Promise<EnrichedUserInvitation> {
+    const validatedData = createUserInvitationSchema.parse(invitationData);
+
+    if (await userRepository.findByEmail(validatedData.email)) {
+      throw new ConflictError('User', 'email', validatedData.email);
+    }
+    if (await userInvitationRepository.findPendingByEmail(validatedData.email)) {
+      throw new ConflictError('Undangan pending', 'email', validatedData.email);
+    }
+
+    const roleIds = [...new Set(validatedData.roleIds)];
+    for (const roleId of roleIds) {
+      if (!(await roleRepository.findById(roleId))) {
+        throw new NotFoundError('Role', roleId);
+      }
+    }
+    await this.assertRolesAllowed(roleIds);
+
+    const { attributes: customAttributes, ...builtInAttributes } = validatedData.attributes;
+    await this.serializeCustomAttributes(customAttributes ?? {});
+
+    const token = generateLinkToken();
+    const invitation = await userInvitationRepository.create({
+      email: validatedData.email,
+      name: validatedData.name ?? null,
+      tokenHash: hashLinkToken(token),
+      department: builtInAttributes.department ?? null,
+      region: builtInAttributes.region ?? null,
+      level: builtInAttributes.level ?? null,
+      customAttributes: customAttributes && Object.keys(customAttributes).length > 0
+        ? JSON.stringify(customAttributes)
+        : null,
+      invitedBy: adminUserId,
+      expiresAt: new Date(Date.now() + INVITATION_EXPIRY_DAYS * DAY_MS)
+    }, roleIds);
+
+    const [enrichedInvitation] = await this.enrichInvitations([invitation]);
+    await this.sendInvitationEmail(enrichedInvitation, token);
+    await this.logStep('inviteUser', adminUserId, invitation, {
+      roleIds,
+      expiresAt: invitation.expiresAt
+    });
+
+    return enrichedInvitation;
+  }
+
+  /**
+   * Ambil semua undangan beserta status, opsional difilter status
+   * @param status - Status undangan (opsional)
+   * @returns Promise<EnrichedUserInvitation[]> - Undangan terbaru lebih dulu
+   */
+  async getInvitations(status?: UserInvitationStatus): Promise<EnrichedUserInvitation[]> {
+    const invitations = await this.enrichInvitations(await userInvitationRepository.findAll());
+    return status ? invitations.filter(invitation => invitation.status === status) : invitations;
+  }
+
+  /**
+   * Kirim ulang undangan dengan token dan masa berlaku baru
+   * Link lama otomatis tidak berlaku
+   * @param adminUserId - ID admin yang mengirim ulang
+   * @param invitationId - ID undangan
+   * @returns Promise<EnrichedUserInvitation> - Undangan yang diperbarui
+   * @throws NotFoundError jika undangan tidak ditemukan
+   * @throws ValidationError jika undangan sudah diterima atau dicabut
+   */
+  async resendInvitation(adminUserId: number, invitationId: number): Promise<EnrichedUserInvitation> {
+    const invitation = await this.getInvitationOrThrow(invitationId);
+
+    const token = generateLinkToken();
+    const renewedInvitation = await userInvitationRepository.renewToken(
+      invitationId,
+      hashLinkToken(token),
+      new Date(Date.now() + INVITATION_EXPIRY_DAYS * DAY_MS)
+    );
+    if (!renewedInvitation) {
+      throw new ValidationError(`Undangan sudah ${this.getStatus(invitation) === 'accepted' ? 'diterima' : 'dicabut'}`);
+    }
+
+    const [enrichedInvitation] = await this.enrichInvitations([renewedInvitation]);
+    await this.sendInvitationEmail(enrichedInvitation, token);
+    await this.logStep('resendInvitation', adminUserId, renewedInvitation, {
+      expiresAt: renewedInvitation.expiresAt
+    });
+
+    return enrichedInvitation;
+  }
+
+  /**
+   * Cabut undangan yang belum diterima
+   * @param adminUserId - ID admin yang mencabut
+   * @param invitationId - ID undangan
+   * @throws NotFoundError jika undangan tidak ditemukan
+   * @throws ValidationError jika undangan sudah diterima atau dicabut
+   */
+  async revokeInvitation(adminUserId: number, invitationId: number): Promise<void> {
+    const invitation = await this.getInvitationOrThrow(invitationId);
+
+    if (!(await userInvitationRepository.revoke(invitationId))) {
+      throw new ValidationError(`Undangan sudah ${this.getStatus(invitation) === 'accepted' ? 'diterima' : 'dicabut'}`);
+    }
+
+    await this.logStep('revokeInvitation', adminUserId, invitation, {});
+  }
+
+  /**
+   * Ringkasan undangan pending untuk halaman penerimaan undangan
+   * @param token - Token dari link undangan
+   * @returns Promise<UserInvitationPreview> - Email, nama, role, dan masa berlaku
+   * @throws ValidationError jika token tidak valid atau undangan tidak lagi pending
+   */
+  async getInvitationPreview(token: string): Promise<UserInvitationPreview> {
+    const invitation = await this.getPendingInvitationByToken(token);
+    const [enrichedInvitation] = await this.enrichInvitations([invitation]);
+
+    return {
+      email: enrichedInvitation.email,
+      name: enrichedInvitation.name,
+      roles: enrichedInvitation.roles.map(role => role.name),
+      expiresAt: enrichedInvitation.expiresAt
+    };
+  }
+
+  /**
+   * Terima undangan: buat akun aktif dengan password dari invitee,
+   * lalu terapkan role dan ABAC attributes dari undangan dalam satu transaksi
+   * @param token - Token dari link undangan
+   * @param acceptData - Nama dan password invitee
+   * @returns Promise<SanitizedUser> - Akun yang dibuat
+   * @throws ValidationError jika token tidak valid, undangan tidak lagi pending, atau password lemah
+   * @throws ConflictError jika email sudah terdaftar
+   * @throws SeparationOfDutiesViolationError jika kombinasi role melanggar constraint separation-of-duties
+   */
+  async acceptInvitation(token: string, acceptData: AcceptUserInvitationInput): Promise<SanitizedUser> {
+    const invitation = await this.getPendingInvitationByToken(token);
+
+    if (await userRepository.findByEmail(invitation.email)) {
+      throw new ConflictError('User', 'email', invitation.email);
+    }
+
+    // Validasi password sebelum undangan diklaim agar invitee dapat mencoba lagi
+    passwordService.validatePasswordWithPersonalInfo(acceptData.password, [invitation.email, acceptData.name]);
+    const hashedPassword = await passwordService.hashPassword(acceptData.password);
+
+    const attributeValues = await this.serializeCustomAttributes(this.parseCustomAttributes(invitation.customAttributes));
+    const roleIds = (await userInvitationRepository.findRolesByInvitationIds([invitation.id])).map(({ roleId }) => roleId);
+
+    // Constraint bisa saja dibuat setelah undangan dikirim
+    await this.assertRolesAllowed(roleIds);
+
+    const user = await userInvitationRepository.accept(invitation.id, {
+      name: acceptData.name,
+      email: invitation.email,
+      passwordHash: hashedPassword,
+      department: invitation.department,
+      region: invitation.region,
+      level: invitation.level,
+      active: true,
+      emailVerifiedAt: new Date()
+    }, attributeValues, roleIds);
+    if (!user) {
+      throw new ValidationError('Link undangan tidak valid atau sudah kedaluwarsa');
+    }
+
+    await changeHistoryService.logChangeHistory({
+      adminUserId: invitation.invitedBy,
+      targetUserId: user.id,
+      action: 'acceptInvitation',
+      after: JSON.stringify({
+        invitationId: invitation.id,
+        roleIds
+      })
+    });
+
+    console.log(`✅ Invitation ${invitation.id} accepted by user ${user.id}`);
+    return userProfileService.sanitizeUser(user);
+  }
+
+  /**
+   * Hitung status undangan
+   * @param invitation - Undangan
+   * @param at - Waktu acuan (default: sekarang)
+   * @returns UserInvitationStatus - Status undangan
+   */
+  getStatus(invitation: UserInvitation, at: Date = new Date()): UserInvitationStatus {
+    if (invitation.acceptedAt) {
+      return 'accepted';
+    }
+    if (invitation.revokedAt) {
+      return 'revoked';
+    }
+    return invitation.expiresAt <= at ? 'expired' : 'pending';
+  }
+
+  /**
+   * Ambil undangan berdasarkan ID
+   * @throws NotFoundError jika undangan tidak ditemukan
+   */
+  private async getInvitationOrThrow(invitationId: number): Promise<UserInvitation> {
+    const invitation = await userInvitationRepository.findById(invitationId);
+    if (!invitation) {
+      throw new NotFoundError('Undangan', invitationId);
+    }
+    return invitation;
+  }
+
+  /**
+   * Ambil undangan pending berdasarkan token dari link
+   * @throws ValidationError jika token tidak valid atau undangan tidak lagi pending
+   */
+  private async getPendingInvitationByToken(token: string): Promise<UserInvitation> {
+    const invitation = token ? await userInvitationRepository.findByTokenHash(hashLinkToken(token)) : undefined;
+    if (!invitation || this.getStatus(invitation) !== 'pending') {
+      throw new ValidationError('Link undangan tidak valid atau sudah kedaluwarsa');
+    }
+    return invitation;
+  }
+
+  /**
+   * Pastikan kombinasi role undangan tidak melanggar constraint separation-of-duties
+   * @throws SeparationOfDutiesViolationError jika kombinasi role melanggar constraint
+   */
+  private async assertRolesAllowed(roleIds: number[]): Promise<void> {
+    const conflicts = await separationOfDutiesService.findConflicts(roleIds);
+    if (conflicts.length > 0) {
+      throw new SeparationOfDutiesViolationError(null, conflicts);
+    }
+  }
+
+  /**
+   * Validasi custom ABAC attributes terhadap registry attribute definition
+   * @returns Nilai attribute yang sudah diserialisasi (nilai null dilewati)
+   * @throws ValidationError jika attribute tidak terdaftar atau nilai tidak sesuai tipe
+   */
+  private async serializeCustomAttributes(
+    customAttributes: Record<string, unknown>
+  ): Promise<{ attributeId: number; value: string }[]> {
+    if (Object.keys(customAttributes).length === 0) {
+      return [];
+    }
+
+    const definitions = await attributeDefinitionService.getDefinitionMap();
+    const values: { attributeId: number; value: string }[] = [];
+    for (const [name, value] of Object.entries(customAttributes)) {
+      const definition = definitions.get(name);
+      if (!definition) {
+        throw new ValidationError(`Attribute '${name}' tidak terdaftar`);
+      }
+      if (value !== null) {
+        values.push({
+          attributeId: definition.id,
+          value: attributeDefinitionService.serializeValue(definition, value as Exclude<UserAttributeValueInput, null>)
+        });
+      }
+    }
+    return values;
+  }
+
+  /**
+   * Parse JSON custom attributes yang disimpan di undangan
+   */
+  private parseCustomAttributes(customAttributes: string | null): Record<string, unknown> {
+    return customAttributes ? JSON.parse(customAttributes) : {};
+  }
+
+  /**
+   * Kirim email undangan berisi link penerimaan
+   */
+  private async sendInvitationEmail(invitation: EnrichedUserInvitation, token: string): Promise<void> {
+    const link = buildTokenLink(ACCEPT_INVITATION_PATH, token);
+    const inviterName = invitation.invitedByUser?.name ?? 'Administrator';
+
+    await mailTransport.send({
+      from: getMailFrom(),
+      to: invitation.email,
+      subject: 'Undangan bergabung ke YesMan',
+      text: [
+        `Halo${invitation.name ? ` ${invitation.name}` : ''},`,
+        '',
+        `${inviterName} mengundang Anda untuk bergabung ke YesMan.`,
+        `Buka link berikut untuk membuat password dan mengaktifkan akun (berlaku sampai ${invitation.expiresAt.toISOString()}):`,
+        link,
+        '',
+        'Abaikan email ini jika Anda tidak mengenal pengirim undangan.'
+      ].join('\n')
+    });
+  }
+
+  /**
+   * Catat langkah pengelolaan undangan ke change_history
+   */
+  private async logStep(
+    action: string,
+    adminUserId: number,
+    invitation: UserInvitation,
+    details: Record<string, unknown>
+  ): Promise<void> {
+    await changeHistoryService.logChangeHistory({
+      adminUserId,
+      targetUserId: null,
+      action,
+      after: JSON.stringify({
+        invitationId: invitation.id,
+        email: invitation.email,
+        ...details
+      })
+    });
+  }
+
+  /**
+   * Lengkapi undangan dengan status, role, dan admin yang mengundang
+   * @param invitations - Array undangan
+   * @returns Promise<EnrichedUserInvitation[]> - Undangan beserta relasinya (tanpa hash token)
+   */
+  private async enrichInvitations(invitations: UserInvitation[]): Promise<EnrichedUserInvitation[]> {
+    const invitationRoles = await userInvitationRepository.findRolesByInvitationIds(
+      invitations.map(invitation => invitation.id)
+    );
+    const roleNames = new Map((await roleRepository.findAll()).map(role => [role.id, role.name]));
+
+    return Promise.all(invitations.map(async (invitation) => {
+      const inviter = invitation.invitedBy ? await userRepository.findById(invitation.invitedBy) : undefined;
+      return {
+        id: invitation.id,
+        email: invitation.email,
+        name: invitation.name,
+        department: invitation.department,
+        region: invitation.region,
+        level: invitation.level,
+        invitedBy: invitation.invitedBy,
+        expiresAt: invitation.expiresAt,
+        acceptedAt: invitation.acceptedAt,
+        acceptedUserId: invitation.acceptedUserId,
+        revokedAt: invitation.revokedAt,
+        createdAt: invitation.createdAt,
+        updatedAt: invitation.updatedAt,
+        status: this.getStatus(invitation),
+        roles: invitationRoles
+          .filter(({ invitationId }) => invitationId === invitation.id)
+          .map(({ roleId }) => ({ id: roleId, name: roleNames.get(roleId) ?? `Role ${roleId}` })),
+        customAttributes: this.parseCustomAttributes(invitation.customAttributes),
+        invitedByUser: inviter ? { id: inviter.id, name: inviter.name, email: inviter.email } : null
+      };
+    }));
+  }
+}
+
+// Export instance untuk digunakan di aplikasi
+export const userInvitationService = new UserInvitationService();
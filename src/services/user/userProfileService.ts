@@ -145,7 +145,7 @@ export class UserProfileService {
    * @param user - User object
    * @returns User tanpa password hash
    */
-  private sanitizeUser(user: User): SanitizedUser {
+  sanitizeUser(user: User): SanitizedUser {
     const { passwordHash, ...sanitizedUser } = user;
     return sanitizedUser;
   }
@@ -1,5 +1,8 @@
 import { userRepository, userRoleRepository, roleRepository } from "@/repositories";
 import { NotFoundError } from "@/lib/errors/errorHandler";
+import { tokenRevocationService } from "@/lib/auth/authService/tokenRevocationService";
+import { userRoleService } from "../rbac/userRoleService";
+import { RoleAssignmentExistsError } from "../rbac/types";
 
 /**
  * User Role Assignment Service yang menangani assignment role untuk user
@@ -90,6 +93,7 @@ export class UserRoleAssignmentService {
    * @param userId - ID user
    * @param roleName - Nama role
    * @returns Promise<boolean> - true jika berhasil assign
+   * @throws SeparationOfDutiesViolationError jika role melanggar constraint separation-of-duties
    */
   async assignRoleByName(userId: number, roleName: string): Promise<boolean> {
     try {
@@ -105,19 +109,17 @@ export class UserRoleAssignmentService {
         throw new NotFoundError('Role', roleName);
       }
 
-      // Cek apakah user sudah memiliki role ini
-      const existingUserRole = await userRoleRepository.findByUserAndRole(userId, role.id);
-      if (existingUserRole) {
-        console.log(`User ${userId} sudah memiliki role ${roleName}`);
-        return true;
+      // Assign lewat RBAC service agar constraint separation-of-duties diperiksa
+      try {
+        await userRoleService.assignRole({ userId, roleId: role.id });
+      } catch (error) {
+        if (error instanceof RoleAssignmentExistsError) {
+          console.log(`User ${userId} sudah memiliki role ${roleName}`);
+          return true;
+        }
+        throw error;
       }
 
-      // Assign role
-      await userRoleRepository.create({
-        userId: userId,
-        roleId: role.id
-      });
-
       console.log(`Role ${roleName} assigned to user ${userId}`);
       return true;
     } catch (error) {
@@ -155,6 +157,7 @@ export class UserRoleAssignmentService {
 
       // Remove role
       await userRoleRepository.delete(userRole.id);
+      await tokenRevocationService.revokeAccessTokens(userId, 'roles_changed');
       console.log(`Role ${roleName} removed from user ${userId}`);
       return true;
     } catch (error) {
@@ -177,7 +180,7 @@ export class UserRoleAssignmentService {
       }
 
       // Ambil semua user roles
-      const userRoles = await userRoleRepository.findByUserId(userId);
+      const userRoles = await userRoleRepository.findActiveByUserId(userId);
       const roleNames: string[] = [];
 
       for (const userRole of userRoles) {
@@ -19,6 +19,7 @@ const adminUser = {
 let adminToken = null;
 let testPolicyId = null;
 let testAttributeId = null;
+let testCustomAttributeName = null;
 
 /**
  * Test Suite untuk ABAC
@@ -351,6 +352,81 @@ class ABACTestSuite {
     }
   }
 
+  /**
+   * Test: Register Custom Attribute lalu set nilainya untuk user
+   */
+  async testCreateCustomAttribute() {
+    if (!adminToken) {
+      return { success: false, error: 'No admin token available' };
+    }
+
+    const name = `cost_center_${Date.now()}`;
+    const createResponse = await makeRequest('/v1/abac/attributes', {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${adminToken}` },
+      body: {
+        name,
+        type: 'string',
+        allowedValues: ['CC-100', 'CC-200'],
+        description: 'Cost center karyawan'
+      }
+    });
+
+    if (createResponse.status !== 201) {
+      return {
+        success: false,
+        error: `Create custom attribute failed: ${createResponse.data.error || 'Unknown error'}`
+      };
+    }
+
+    testCustomAttributeName = name;
+
+    const updateResponse = await makeRequest('/v1/abac/users/1/attributes', {
+      method: 'PUT',
+      headers: { 'Authorization': `Bearer ${adminToken}` },
+      body: { attributes: { [name]: 'CC-100' } }
+    });
+
+    if (updateResponse.status === 200 && updateResponse.data.user?.attributes?.[name] === 'CC-100') {
+      return {
+        success: true,
+        details: `Custom attribute ${name} registered and assigned to user 1`
+      };
+    } else {
+      return {
+        success: false,
+        error: `Set custom attribute failed: ${updateResponse.data.error || 'Unknown error'}`
+      };
+    }
+  }
+
+  /**
+   * Test: Nilai custom attribute di luar allowed values ditolak
+   */
+  async testInvalidCustomAttributeValue() {
+    if (!adminToken || !testCustomAttributeName) {
+      return { success: false, error: 'No admin token or custom attribute available' };
+    }
+
+    const response = await makeRequest('/v1/abac/users/1/attributes', {
+      method: 'PUT',
+      headers: { 'Authorization': `Bearer ${adminToken}` },
+      body: { attributes: { [testCustomAttributeName]: 'CC-999' } }
+    });
+
+    if (response.status === 400) {
+      return {
+        success: true,
+        details: 'Value outside allowed values correctly rejected'
+      };
+    } else {
+      return {
+        success: false,
+        error: 'Value outside allowed values should return 400'
+      };
+    }
+  }
+
   // ==================== POLICY EVALUATION TESTS ====================
 
   /**
@@ -406,6 +482,285 @@ class ABACTestSuite {
     }
   }
 
+  /**
+   * Test: Create Policy dengan group AND/OR/NOT
+   */
+  async testCreateGroupPolicy() {
+    if (!adminToken) {
+      return { success: false, error: 'No admin token available' };
+    }
+
+    const response = await makeRequest('/v1/abac/policies', {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${adminToken}` },
+      body: {
+        featureId: 1,
+        expression: {
+          type: 'group',
+          combinator: 'OR',
+          children: [
+            { type: 'condition', attribute: 'department', operator: '==', value: 'Finance' },
+            {
+              type: 'group',
+              combinator: 'AND',
+              children: [
+                { type: 'condition', attribute: 'level', operator: '>=', value: '5' },
+                {
+                  type: 'group',
+                  combinator: 'NOT',
+                  children: [
+                    { type: 'condition', attribute: 'region', operator: '==', value: 'Jakarta' }
+                  ]
+                }
+              ]
+            }
+          ]
+        }
+      }
+    });
+
+    if (response.status === 201 && response.data.policy?.expression?.type === 'group') {
+      return {
+        success: true,
+        details: `Group policy created with ID ${response.data.policy.id}`
+      };
+    } else {
+      return {
+        success: false,
+        error: `Create group policy failed: ${response.data.error || 'Unknown error'}`
+      };
+    }
+  }
+
+  /**
+   * Test: Policy mode audit muncul di shadow report lalu di-promote ke enforce
+   */
+  async testShadowPolicyPromotion() {
+    if (!adminToken) {
+      return { success: false, error: 'No admin token available' };
+    }
+
+    const headers = { 'Authorization': `Bearer ${adminToken}` };
+    const createResponse = await makeRequest('/v1/abac/policies', {
+      method: 'POST',
+      headers,
+      body: {
+        featureId: 1,
+        enforcementMode: 'audit',
+        expression: { type: 'condition', attribute: 'department', operator: '==', value: 'Shadow Test' }
+      }
+    });
+
+    const policy = createResponse.data.policy;
+    if (createResponse.status !== 201 || policy?.enforcementMode !== 'audit') {
+      return {
+        success: false,
+        error: `Create audit policy failed: ${createResponse.data.error || 'Unknown error'}`
+      };
+    }
+
+    try {
+      const reportResponse = await makeRequest('/v1/abac/policies/shadow-report?days=7', { headers });
+      const reported = reportResponse.data.data?.policies?.some(entry => entry.policyId === policy.id);
+      if (reportResponse.status !== 200 || !reported) {
+        return {
+          success: false,
+          error: `Audit policy ${policy.id} missing from shadow report: ${reportResponse.data.error || 'Unknown error'}`
+        };
+      }
+
+      const promoteResponse = await makeRequest(`/v1/abac/policies/${policy.id}`, {
+        method: 'PATCH',
+        headers,
+        body: { enforcementMode: 'enforce' }
+      });
+      if (promoteResponse.status !== 200 || promoteResponse.data.data?.enforcementMode !== 'enforce') {
+        return {
+          success: false,
+          error: `Promote policy failed: ${promoteResponse.data.error || 'Unknown error'}`
+        };
+      }
+
+      return {
+        success: true,
+        details: `Policy ${policy.id} reported in shadow mode and promoted to enforce`
+      };
+    } finally {
+      await makeRequest(`/v1/abac/policies/${policy.id}`, { method: 'DELETE', headers });
+    }
+  }
+
+  /**
+   * Test: Update policy tercatat sebagai versi baru lalu di-rollback ke versi pertama
+   */
+  async testPolicyVersionRollback() {
+    if (!adminToken) {
+      return { success: false, error: 'No admin token available' };
+    }
+
+    const headers = { 'Authorization': `Bearer ${adminToken}` };
+    const createResponse = await makeRequest('/v1/abac/policies', {
+      method: 'POST',
+      headers,
+      body: {
+        featureId: 1,
+        expression: { type: 'condition', attribute: 'department', operator: '==', value: 'Version Test' },
+        comment: 'Policy awal'
+      }
+    });
+
+    const policy = createResponse.data.policy;
+    if (createResponse.status !== 201 || !policy) {
+      return {
+        success: false,
+        error: `Create policy failed: ${createResponse.data.error || 'Unknown error'}`
+      };
+    }
+
+    try {
+      const updateResponse = await makeRequest(`/v1/abac/policies/${policy.id}`, {
+        method: 'PUT',
+        headers,
+        body: {
+          expression: { type: 'condition', attribute: 'department', operator: '==', value: 'Version Test Updated' },
+          comment: 'Ganti department'
+        }
+      });
+      if (updateResponse.status !== 200) {
+        return {
+          success: false,
+          error: `Update policy failed: ${updateResponse.data.error || 'Unknown error'}`
+        };
+      }
+
+      const historyResponse = await makeRequest(`/v1/abac/policies/${policy.id}/versions`, { headers });
+      const versions = historyResponse.data.data || [];
+      if (historyResponse.status !== 200 || versions.length < 2 || versions[0].comment !== 'Ganti department') {
+        return {
+          success: false,
+          error: `Expected 2 versions with update comment, got ${versions.length}`
+        };
+      }
+
+      const rollbackResponse = await makeRequest(`/v1/abac/policies/${policy.id}/versions/1/rollback`, {
+        method: 'POST',
+        headers,
+        body: { comment: 'Kembali ke versi awal' }
+      });
+      if (rollbackResponse.status !== 200) {
+        return {
+          success: false,
+          error: `Rollback policy failed: ${rollbackResponse.data.error || 'Unknown error'}`
+        };
+      }
+
+      const detailResponse = await makeRequest(`/v1/abac/policies/${policy.id}`, { headers });
+      if (detailResponse.data.data?.value !== 'Version Test') {
+        return {
+          success: false,
+          error: `Expected restored value 'Version Test', got '${detailResponse.data.data?.value}'`
+        };
+      }
+
+      const afterResponse = await makeRequest(`/v1/abac/policies/${policy.id}/versions`, { headers });
+      const latest = afterResponse.data.data?.[0];
+      if (latest?.action !== 'rollback' || latest?.version !== versions.length + 1) {
+        return {
+          success: false,
+          error: `Rollback not recorded as new version: ${JSON.stringify(latest)}`
+        };
+      }
+
+      return {
+        success: true,
+        details: `Policy ${policy.id} rolled back to version 1 as version ${latest.version}`
+      };
+    } finally {
+      await makeRequest(`/v1/abac/policies/${policy.id}`, { method: 'DELETE', headers });
+    }
+  }
+
+  /**
+   * Test: Create Context Policy (jam kerja, hari kerja, dan range IP kantor)
+   */
+  async testCreateContextPolicy() {
+    if (!adminToken) {
+      return { success: false, error: 'No admin token available' };
+    }
+
+    const response = await makeRequest('/v1/abac/policies', {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${adminToken}` },
+      body: {
+        featureId: 1,
+        expression: {
+          type: 'group',
+          combinator: 'AND',
+          children: [
+            { type: 'condition', attribute: 'context.time_of_day', operator: '>=', value: '09:00' },
+            { type: 'condition', attribute: 'context.time_of_day', operator: '<', value: '17:00' },
+            {
+              type: 'condition',
+              attribute: 'context.day_of_week',
+              operator: 'in',
+              value: '["monday","tuesday","wednesday","thursday","friday"]'
+            },
+            { type: 'condition', attribute: 'context.ip', operator: '==', value: '10.0.0.0/8' }
+          ]
+        }
+      }
+    });
+
+    if (response.status === 201 && response.data.policy?.expression?.type === 'group') {
+      return {
+        success: true,
+        details: `Context policy created with ID ${response.data.policy.id}`
+      };
+    } else {
+      return {
+        success: false,
+        error: `Create context policy failed: ${response.data.error || 'Unknown error'}`
+      };
+    }
+  }
+
+  /**
+   * Test: Create Resource Policy (ownership/department yang sama)
+   */
+  async testCreateResourcePolicy() {
+    if (!adminToken) {
+      return { success: false, error: 'No admin token available' };
+    }
+
+    const response = await makeRequest('/v1/abac/policies', {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${adminToken}` },
+      body: {
+        featureId: 1,
+        expression: {
+          type: 'group',
+          combinator: 'OR',
+          children: [
+            { type: 'condition', attribute: 'resource.owner_id', operator: '==', value: '$user.id' },
+            { type: 'condition', attribute: 'resource.department', operator: '==', value: '$user.department' }
+          ]
+        }
+      }
+    });
+
+    if (response.status === 201 && response.data.policy?.expression?.type === 'group') {
+      return {
+        success: true,
+        details: `Resource policy created with ID ${response.data.policy.id}`
+      };
+    } else {
+      return {
+        success: false,
+        error: `Create resource policy failed: ${response.data.error || 'Unknown error'}`
+      };
+    }
+  }
+
   // ==================== ERROR CASES ====================
 
   /**
@@ -456,6 +811,43 @@ class ABACTestSuite {
     }
   }
 
+  /**
+   * Test: Invalid Group Policy (NOT dengan lebih dari satu kondisi)
+   */
+  async testInvalidGroupPolicy() {
+    if (!adminToken) {
+      return { success: false, error: 'No admin token available' };
+    }
+
+    const response = await makeRequest('/v1/abac/policies', {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${adminToken}` },
+      body: {
+        featureId: 1,
+        expression: {
+          type: 'group',
+          combinator: 'NOT',
+          children: [
+            { type: 'condition', attribute: 'department', operator: '==', value: 'Finance' },
+            { type: 'condition', attribute: 'region', operator: '==', value: 'Jakarta' }
+          ]
+        }
+      }
+    });
+
+    if (response.status === 400) {
+      return {
+        success: true,
+        details: 'Invalid NOT group correctly rejected'
+      };
+    } else {
+      return {
+        success: false,
+        error: 'NOT group with multiple children should return 400'
+      };
+    }
+  }
+
   /**
    * Test: Invalid Attribute ID
    */
@@ -538,15 +930,23 @@ class ABACTestSuite {
     await this.runTest('Get Attribute by ID', () => this.testGetAttributeById());
     await this.runTest('Get Attributes by Category', () => this.testGetAttributesByCategory());
     await this.runTest('Get User Attributes', () => this.testGetUserAttributes());
+    await this.runTest('Create Custom Attribute', () => this.testCreateCustomAttribute());
+    await this.runTest('Invalid Custom Attribute Value', () => this.testInvalidCustomAttributeValue());
     
     // Advanced tests
     console.log('\n⚡ Testing Advanced Features');
     await this.runTest('Batch Policy Evaluation', () => this.testBatchPolicyEvaluation());
+    await this.runTest('Create Group Policy', () => this.testCreateGroupPolicy());
+    await this.runTest('Shadow Policy Promotion', () => this.testShadowPolicyPromotion());
+    await this.runTest('Policy Version Rollback', () => this.testPolicyVersionRollback());
+    await this.runTest('Create Context Policy', () => this.testCreateContextPolicy());
+    await this.runTest('Create Resource Policy', () => this.testCreateResourcePolicy());
     
     // Error cases
     console.log('\n❌ Testing Error Cases');
     await this.runTest('Unauthorized Access', () => this.testUnauthorizedAccess());
     await this.runTest('Invalid Policy ID', () => this.testInvalidPolicyId());
+    await this.runTest('Invalid Group Policy', () => this.testInvalidGroupPolicy());
     await this.runTest('Invalid Attribute ID', () => this.testInvalidAttributeId());
     await this.runTest('Invalid Evaluation Context', () => this.testInvalidEvaluationContext());
 
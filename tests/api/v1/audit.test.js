@@ -445,6 +445,32 @@ class AuditTestSuite {
     }
   }
 
+  /**
+   * Test: Revoke Session yang tidak ada
+   */
+  async testRevokeInvalidSession() {
+    if (!adminToken) {
+      return { success: false, error: 'No admin token available' };
+    }
+
+    const response = await makeRequest('/audit/session-logs/99999', {
+      method: 'DELETE',
+      headers: { 'Authorization': `Bearer ${adminToken}` }
+    });
+
+    if (response.status === 404 && !response.data.success) {
+      return {
+        success: true,
+        details: 'Revoking unknown session correctly returns 404'
+      };
+    } else {
+      return {
+        success: false,
+        error: 'Revoking unknown session should return 404'
+      };
+    }
+  }
+
   /**
    * Test: Invalid Date Range
    */
@@ -537,6 +563,7 @@ class AuditTestSuite {
     console.log('\n❌ Testing Error Cases');
     await this.runTest('Unauthorized Access', () => this.testUnauthorizedAccess());
     await this.runTest('Invalid Audit Log ID', () => this.testInvalidAuditLogId());
+    await this.runTest('Revoke Invalid Session', () => this.testRevokeInvalidSession());
     await this.runTest('Invalid Date Range', () => this.testInvalidDateRange());
     await this.runTest('Invalid Export Format', () => this.testInvalidExportFormat());
 
@@ -32,6 +32,7 @@ async function makeRequest(endpoint, options = {}) {
     return {
       status: response.status,
       ok: response.ok,
+      headers: response.headers,
       data: data
     };
   } catch (error) {
@@ -55,6 +56,15 @@ const testUser = {
   level: 1
 };
 
+/**
+ * Admin seed untuk test yang membutuhkan akun aktif
+ * Akun hasil registrasi baru aktif setelah email diverifikasi
+ */
+const adminUser = {
+  email: 'admin@example.com',
+  password: 'AdminPassword123!'
+};
+
 let authToken = null;
 let refreshToken = null;
 
@@ -98,9 +108,17 @@ class AuthTestSuite {
     });
 
     if (response.status === 201 && response.data.success) {
+      // Registrasi tidak menerbitkan token; akun nonaktif sampai email diverifikasi
+      if (!response.data.data?.verificationRequired || response.data.data?.accessToken) {
+        return {
+          success: false,
+          error: 'Registration should require email verification and not issue tokens'
+        };
+      }
+
       return {
         success: true,
-        details: `User registered successfully with ID: ${response.data.data?.user?.id}`
+        details: `User registered successfully with ID: ${response.data.data?.user?.id}, verification required`
       };
     } else if (response.status === 409) {
       return {
@@ -116,9 +134,9 @@ class AuthTestSuite {
   }
 
   /**
-   * Test: User Login
+   * Test: Login sebelum email diverifikasi harus ditolak
    */
-  async testUserLogin() {
+  async testLoginBeforeEmailVerification() {
     const response = await makeRequest('/auth/login', {
       method: 'POST',
       body: {
@@ -127,6 +145,31 @@ class AuthTestSuite {
       }
     });
 
+    if (response.status === 401 && !response.data.success) {
+      return {
+        success: true,
+        details: 'Login for unverified account correctly rejected'
+      };
+    } else {
+      return {
+        success: false,
+        error: `Unverified account should not be able to login, got status ${response.status}`
+      };
+    }
+  }
+
+  /**
+   * Test: User Login
+   */
+  async testUserLogin() {
+    const response = await makeRequest('/auth/login', {
+      method: 'POST',
+      body: {
+        email: adminUser.email,
+        password: adminUser.password
+      }
+    });
+
     if (response.status === 200 && response.data.success) {
       authToken = response.data.data.accessToken;
       refreshToken = response.data.data.refreshToken;
@@ -174,6 +217,55 @@ class AuthTestSuite {
     }
   }
 
+  /**
+   * Test: JWKS Publication
+   * Access token ditandatangani key asimetris dengan kid yang dipublikasikan di /.well-known/jwks.json
+   */
+  async testJwksPublication() {
+    if (!authToken) {
+      return {
+        success: false,
+        error: 'No auth token available for JWKS check'
+      };
+    }
+
+    const header = JSON.parse(Buffer.from(authToken.split('.')[0], 'base64url').toString('utf8'));
+    if (!['RS256', 'ES256'].includes(header.alg) || !header.kid) {
+      return {
+        success: false,
+        error: `Access token is not signed with an asymmetric key (alg: ${header.alg}, kid: ${header.kid})`
+      };
+    }
+
+    let jwks;
+    try {
+      const response = await fetch(`${BASE_URL}/.well-known/jwks.json`);
+      jwks = response.ok ? await response.json() : null;
+    } catch (error) {
+      jwks = null;
+    }
+
+    const publishedKey = jwks?.keys?.find(key => key.kid === header.kid);
+    if (!publishedKey) {
+      return {
+        success: false,
+        error: `Signing key ${header.kid} is not published in JWKS`
+      };
+    }
+
+    if (publishedKey.d || publishedKey.alg !== header.alg || publishedKey.use !== 'sig') {
+      return {
+        success: false,
+        error: 'JWKS entry must be a public signing key matching the token algorithm'
+      };
+    }
+
+    return {
+      success: true,
+      details: `Access token kid ${header.kid} (${header.alg}) published in JWKS with ${jwks.keys.length} key(s)`
+    };
+  }
+
   /**
    * Test: Token Refresh
    */
@@ -214,6 +306,109 @@ class AuthTestSuite {
     }
   }
 
+  /**
+   * Test: Refresh Token Rotation dan Reuse Detection
+   * Refresh token hanya bisa dipakai sekali; reuse token lama mencabut seluruh token family
+   */
+  async testRefreshTokenRotation() {
+    const loginResponse = await makeRequest('/auth/login', {
+      method: 'POST',
+      body: {
+        email: adminUser.email,
+        password: adminUser.password
+      }
+    });
+
+    if (loginResponse.status !== 200 || !loginResponse.data.success) {
+      return {
+        success: false,
+        error: `Login for rotation test failed: ${loginResponse.data.error || 'Unknown error'}`
+      };
+    }
+
+    const originalToken = loginResponse.data.data.refreshToken;
+    const refreshWithCookie = (endpoint, token) => makeRequest(endpoint, {
+      method: 'POST',
+      headers: {
+        'Cookie': `refreshToken=${token}`
+      }
+    });
+
+    // Refresh pertama harus berhasil dan menerbitkan refresh token baru
+    const rotated = await refreshWithCookie('/auth/refresh', originalToken);
+    const rotatedToken = rotated.data.data?.refreshToken;
+    if (rotated.status !== 200 || !rotatedToken || rotatedToken === originalToken) {
+      return {
+        success: false,
+        error: `First refresh did not rotate the refresh token (status ${rotated.status})`
+      };
+    }
+
+    // Reuse token lama harus ditolak (endpoint v1 mengikuti aturan yang sama)
+    const reused = await refreshWithCookie(`/${API_VERSION}/auth/refresh`, originalToken);
+    if (reused.status !== 401) {
+      return {
+        success: false,
+        error: `Reused refresh token should return 401, got ${reused.status}`
+      };
+    }
+
+    // Token family sudah dicabut, sehingga token hasil rotasi juga tidak berlaku
+    const revoked = await refreshWithCookie(`/${API_VERSION}/auth/refresh`, rotatedToken);
+    if (revoked.status !== 401) {
+      return {
+        success: false,
+        error: `Refresh token from revoked family should return 401, got ${revoked.status}`
+      };
+    }
+
+    return {
+      success: true,
+      details: 'Refresh token rotated once; reuse revoked the whole token family'
+    };
+  }
+
+  /**
+   * Test: Login Rate Limit per Akun
+   * Percobaan gagal melebihi batas harus mendapat 429 dengan header Retry-After dan RateLimit-*
+   */
+  async testLoginRateLimit() {
+    const lockedEmail = `ratelimit${Date.now()}@example.com`;
+    const maxLoginAttempts = 5;
+    let response = null;
+
+    for (let attempt = 0; attempt <= maxLoginAttempts; attempt++) {
+      response = await makeRequest(`/${API_VERSION}/auth/login`, {
+        method: 'POST',
+        body: {
+          email: lockedEmail,
+          password: 'wrongpassword'
+        }
+      });
+    }
+
+    if (response.status !== 429) {
+      return {
+        success: false,
+        error: `Expected 429 after ${maxLoginAttempts} failed attempts, got ${response.status}`
+      };
+    }
+
+    const retryAfter = response.headers.get('retry-after');
+    const limit = response.headers.get('ratelimit-limit');
+    if (!retryAfter || Number(retryAfter) <= 0 || limit !== String(maxLoginAttempts)) {
+      return {
+        success: false,
+        error: `Missing rate limit headers (Retry-After: ${retryAfter}, RateLimit-Limit: ${limit})`
+      };
+    }
+
+    return {
+      success: true,
+      details: `Account locked with Retry-After ${retryAfter}s`
+    };
+  }
+
   /**
    * Test: User Logout
    */
@@ -270,6 +465,131 @@ class AuthTestSuite {
     }
   }
 
+  /**
+   * Test: MFA Login dengan challenge token tidak valid
+   * Access token tidak boleh dipakai sebagai challenge token
+   */
+  async testInvalidMfaChallenge() {
+    const response = await makeRequest('/auth/login/mfa', {
+      method: 'POST',
+      body: {
+        challengeToken: authToken || 'invalid.challenge.token',
+        code: '123456'
+      }
+    });
+
+    if (response.status === 401 && !response.data.success) {
+      return {
+        success: true,
+        details: 'Invalid MFA challenge correctly rejected'
+      };
+    } else {
+      return {
+        success: false,
+        error: `Invalid MFA challenge should have been rejected, got status ${response.status}`
+      };
+    }
+  }
+
+  /**
+   * Test forgot password untuk email yang tidak terdaftar
+   * Response harus sama dengan email terdaftar agar akun tidak dapat ditebak
+   */
+  async testForgotPasswordUnknownEmail() {
+    const response = await makeRequest('/auth/forgot-password', {
+      method: 'POST',
+      body: {
+        email: `unknown-${Date.now()}@example.com`
+      }
+    });
+
+    if (response.status === 200 && response.data.success) {
+      return {
+        success: true,
+        details: 'Forgot password returned generic success for unknown email'
+      };
+    } else {
+      return {
+        success: false,
+        error: `Forgot password should return generic success, got status ${response.status}`
+      };
+    }
+  }
+
+  /**
+   * Test reset password dengan token yang tidak valid
+   */
+  async testResetPasswordInvalidToken() {
+    const response = await makeRequest('/auth/reset-password', {
+      method: 'POST',
+      body: {
+        token: 'invalid-reset-token',
+        password: 'NewPassword123!'
+      }
+    });
+
+    if (response.status === 400 && !response.data.success) {
+      return {
+        success: true,
+        details: 'Invalid reset token correctly rejected'
+      };
+    } else {
+      return {
+        success: false,
+        error: `Invalid reset token should have been rejected, got status ${response.status}`
+      };
+    }
+  }
+
+  /**
+   * Test verifikasi email dengan token yang tidak valid
+   */
+  async testVerifyEmailInvalidToken() {
+    const response = await makeRequest('/auth/verify-email', {
+      method: 'POST',
+      body: {
+        token: 'invalid-verification-token'
+      }
+    });
+
+    if (response.status === 400 && !response.data.success) {
+      return {
+        success: true,
+        details: 'Invalid verification token correctly rejected'
+      };
+    } else {
+      return {
+        success: false,
+        error: `Invalid verification token should have been rejected, got status ${response.status}`
+      };
+    }
+  }
+
+  /**
+   * Test kirim ulang email verifikasi untuk email yang tidak terdaftar
+   * Response harus sama dengan email terdaftar agar akun tidak dapat ditebak
+   */
+  async testResendVerificationUnknownEmail() {
+    const response = await makeRequest('/auth/verify-email/resend', {
+      method: 'POST',
+      body: {
+        email: `unknown-${Date.now()}@example.com`
+      }
+    });
+
+    if (response.status === 200 && response.data.success) {
+      return {
+        success: true,
+        details: 'Resend verification returned generic success for unknown email'
+      };
+    } else {
+      return {
+        success: false,
+        error: `Resend verification should return generic success, got status ${response.status}`
+      };
+    }
+  }
+
   /**
    * Menjalankan semua test authentication
    */
@@ -279,10 +599,19 @@ class AuthTestSuite {
 
     // Test sequence yang logis
     await this.runTest('User Registration', () => this.testUserRegistration());
+    await this.runTest('Login Before Email Verification', () => this.testLoginBeforeEmailVerification());
     await this.runTest('User Login', () => this.testUserLogin());
     await this.runTest('Token Validation', () => this.testTokenValidation());
+    await this.runTest('JWKS Publication', () => this.testJwksPublication());
     await this.runTest('Token Refresh', () => this.testTokenRefresh());
+    await this.runTest('Refresh Token Rotation', () => this.testRefreshTokenRotation());
     await this.runTest('Invalid Login', () => this.testInvalidLogin());
+    await this.runTest('Invalid MFA Challenge', () => this.testInvalidMfaChallenge());
+    await this.runTest('Forgot Password Unknown Email', () => this.testForgotPasswordUnknownEmail());
+    await this.runTest('Reset Password Invalid Token', () => this.testResetPasswordInvalidToken());
+    await this.runTest('Verify Email Invalid Token', () => this.testVerifyEmailInvalidToken());
+    await this.runTest('Resend Verification Unknown Email', () => this.testResendVerificationUnknownEmail());
+    await this.runTest('Login Rate Limit', () => this.testLoginRateLimit());
     await this.runTest('User Logout', () => this.testUserLogout());
 
     // Summary
@@ -17,6 +17,7 @@ const adminUser = {
 };
 
 let adminToken = null;
+let adminUserId = null;
 let testRoleId = null;
 let testFeatureId = null;
 let testRouteFeatureId = null;
@@ -62,6 +63,7 @@ class RBACTestSuite {
 
     if (response.status === 200 && response.data.success) {
       adminToken = response.data.data.accessToken;
+      adminUserId = response.data.data.user?.id;
       return {
         success: true,
         details: 'Admin login successful'
@@ -413,6 +415,485 @@ class RBACTestSuite {
     }
   }
 
+  /**
+   * Test: Allow dan deny untuk action yang sama ditolak
+   */
+  async testConflictingAllowDeny() {
+    if (!adminToken || !testRoleId || !testFeatureId) {
+      return { success: false, error: 'No admin token, test role ID, or test feature ID available' };
+    }
+
+    const response = await makeRequest(`/roles/${testRoleId}/features`, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${adminToken}` },
+      body: {
+        featureId: Number(testFeatureId),
+        canDelete: true,
+        denyDelete: true
+      }
+    });
+
+    if (response.status === 400) {
+      return {
+        success: true,
+        details: 'Conflicting allow/deny correctly rejected'
+      };
+    } else {
+      return {
+        success: false,
+        error: `Conflicting allow/deny should return 400, got ${response.status}`
+      };
+    }
+  }
+
+  /**
+   * Test deklarasi action custom pada feature lalu hapus kembali
+   */
+  async testFeatureCustomAction() {
+    if (!adminToken || !testFeatureId) {
+      return { success: false, error: 'No admin token or test feature ID available' };
+    }
+
+    const actionName = `export_${Date.now()}`;
+    const createResponse = await makeRequest(`/features/${testFeatureId}/actions`, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${adminToken}` },
+      body: { name: actionName, description: 'Test custom action' }
+    });
+
+    if (createResponse.status !== 201) {
+      return {
+        success: false,
+        error: `Create custom action should return 201, got ${createResponse.status}: ${JSON.stringify(createResponse.data)}`
+      };
+    }
+
+    const listResponse = await makeRequest(`/features/${testFeatureId}/actions`, {
+      headers: { 'Authorization': `Bearer ${adminToken}` }
+    });
+    const isListed = listResponse.status === 200 &&
+      listResponse.data.data.actions.some(action => action.name === actionName);
+
+    const deleteResponse = await makeRequest(`/features/${testFeatureId}/actions/${actionName}`, {
+      method: 'DELETE',
+      headers: { 'Authorization': `Bearer ${adminToken}` }
+    });
+
+    if (isListed && deleteResponse.status === 200) {
+      return {
+        success: true,
+        details: `Custom action '${actionName}' created, listed, and deleted`
+      };
+    } else {
+      return {
+        success: false,
+        error: `Custom action listed: ${isListed}, delete status: ${deleteResponse.status}`
+      };
+    }
+  }
+
+  /**
+   * Test action custom tidak boleh memakai nama action CRUD
+   */
+  async testCrudNamedCustomAction() {
+    if (!adminToken || !testFeatureId) {
+      return { success: false, error: 'No admin token or test feature ID available' };
+    }
+
+    const response = await makeRequest(`/features/${testFeatureId}/actions`, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${adminToken}` },
+      body: { name: 'delete' }
+    });
+
+    if (response.status === 400) {
+      return {
+        success: true,
+        details: 'CRUD-named custom action correctly rejected'
+      };
+    } else {
+      return {
+        success: false,
+        error: `CRUD-named custom action should return 400, got ${response.status}`
+      };
+    }
+  }
+
+  /**
+   * Test get effective permissions role (langsung + diwariskan parent role)
+   */
+  async testGetRoleEffectivePermissions() {
+    if (!adminToken || !testRoleId) {
+      return { success: false, error: 'No admin token or test role ID available' };
+    }
+
+    const response = await makeRequest(`/roles/${testRoleId}/effective-permissions`, {
+      headers: { 'Authorization': `Bearer ${adminToken}` }
+    });
+
+    if (response.status === 200 && response.data.success && Array.isArray(response.data.data.permissions)) {
+      return {
+        success: true,
+        details: `Found ${response.data.data.permissions.length} effective permissions, ${response.data.data.ancestors.length} ancestors`
+      };
+    } else {
+      return {
+        success: false,
+        error: `Expected 200 with permissions array, got ${response.status}: ${JSON.stringify(response.data)}`
+      };
+    }
+  }
+
+  /**
+   * Test role tidak boleh menjadi parent dari dirinya sendiri (siklus hierarki)
+   */
+  async testRoleHierarchyCycle() {
+    if (!adminToken || !testRoleId) {
+      return { success: false, error: 'No admin token or test role ID available' };
+    }
+
+    const response = await makeRequest(`/roles/${testRoleId}`, {
+      method: 'PUT',
+      headers: { 'Authorization': `Bearer ${adminToken}` },
+      body: {
+        parent_role_id: Number(testRoleId)
+      }
+    });
+
+    if (response.status === 400) {
+      return {
+        success: true,
+        details: 'Role hierarchy cycle correctly rejected'
+      };
+    } else {
+      return {
+        success: false,
+        error: `Role hierarchy cycle should return 400, got ${response.status}`
+      };
+    }
+  }
+
+  /**
+   * Test approver access request role dan filter status access request
+   */
+  async testRoleApproversAndAccessRequests() {
+    if (!adminToken || !testRoleId) {
+      return { success: false, error: 'No admin token or test role ID available' };
+    }
+
+    const approversResponse = await makeRequest(`/rbac/roles/${testRoleId}/approvers`, {
+      method: 'GET',
+      headers: { 'Authorization': `Bearer ${adminToken}` }
+    });
+
+    if (approversResponse.status !== 200 || !Array.isArray(approversResponse.data.data?.approvers)) {
+      return {
+        success: false,
+        error: `Expected 200 with approvers array, got ${approversResponse.status}: ${JSON.stringify(approversResponse.data)}`
+      };
+    }
+
+    const invalidStatusResponse = await makeRequest('/rbac/access-requests?status=unknown', {
+      method: 'GET',
+      headers: { 'Authorization': `Bearer ${adminToken}` }
+    });
+
+    if (invalidStatusResponse.status === 400) {
+      return {
+        success: true,
+        details: `Role has ${approversResponse.data.data.approvers.length} approver(s), invalid status filter rejected`
+      };
+    } else {
+      return {
+        success: false,
+        error: `Invalid access request status should return 400, got ${invalidStatusResponse.status}`
+      };
+    }
+  }
+
+  /**
+   * Test daftar campaign access review dan validasi scope campaign baru
+   */
+  async testAccessReviewCampaigns() {
+    if (!adminToken) {
+      return { success: false, error: 'No admin token available' };
+    }
+
+    const listResponse = await makeRequest('/rbac/access-reviews', {
+      method: 'GET',
+      headers: { 'Authorization': `Bearer ${adminToken}` }
+    });
+
+    if (listResponse.status !== 200 || !Array.isArray(listResponse.data.data?.campaigns)) {
+      return {
+        success: false,
+        error: `Expected 200 with campaigns array, got ${listResponse.status}: ${JSON.stringify(listResponse.data)}`
+      };
+    }
+
+    // Scope role harus berisi role ID
+    const invalidScopeResponse = await makeRequest('/rbac/access-reviews', {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${adminToken}` },
+      body: {
+        name: 'Invalid scope campaign',
+        scopeType: 'role',
+        scopeValue: 'not-a-role-id',
+        reviewerIds: [1]
+      }
+    });
+
+    if (invalidScopeResponse.status === 400) {
+      return {
+        success: true,
+        details: `Found ${listResponse.data.data.campaigns.length} campaign(s), invalid role scope rejected`
+      };
+    } else {
+      return {
+        success: false,
+        error: `Invalid campaign scope should return 400, got ${invalidScopeResponse.status}`
+      };
+    }
+  }
+
+  /**
+   * Test explain keputusan otorisasi dan validasi target explain
+   */
+  async testAuthorizationExplain() {
+    if (!adminToken || !adminUserId) {
+      return { success: false, error: 'No admin token available' };
+    }
+
+    const response = await makeRequest('/rbac/authorization/explain', {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${adminToken}` },
+      body: { userId: adminUserId, feature: 'user_management', action: 'read' }
+    });
+
+    const explanation = response.data.data?.explanation;
+    if (response.status !== 200 || !explanation?.feature || explanation.allowed !== true) {
+      return {
+        success: false,
+        error: `Expected 200 with allowed explanation, got ${response.status}: ${JSON.stringify(response.data)}`
+      };
+    }
+
+    // Target harus method + path atau feature + action
+    const invalidResponse = await makeRequest('/rbac/authorization/explain', {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${adminToken}` },
+      body: { userId: adminUserId, method: 'GET' }
+    });
+
+    if (invalidResponse.status === 400) {
+      return {
+        success: true,
+        details: `Explained admin access (${explanation.reason}), missing target rejected`
+      };
+    } else {
+      return {
+        success: false,
+        error: `Explain without target should return 400, got ${invalidResponse.status}`
+      };
+    }
+  }
+
+  /**
+   * Test export dokumen policy-as-code lalu dry-run import dokumen yang sama (tanpa perubahan)
+   */
+  async testPolicyDocumentRoundTrip() {
+    if (!adminToken) {
+      return { success: false, error: 'No admin token available' };
+    }
+
+    const exportResponse = await makeRequest('/rbac/policy-as-code/export', {
+      method: 'GET',
+      headers: { 'Authorization': `Bearer ${adminToken}` }
+    });
+
+    if (exportResponse.status !== 200 || exportResponse.data.version !== 1) {
+      return {
+        success: false,
+        error: `Expected 200 with policy document, got ${exportResponse.status}: ${JSON.stringify(exportResponse.data)}`
+      };
+    }
+
+    const dryRunResponse = await makeRequest('/rbac/policy-as-code/import?dryRun=true', {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${adminToken}` },
+      body: exportResponse.data
+    });
+
+    const diff = dryRunResponse.data.data?.diff;
+    if (dryRunResponse.status !== 200 || !diff || diff.changes.length !== 0 || dryRunResponse.data.data.applied) {
+      return {
+        success: false,
+        error: `Dry-run of exported document should have no changes, got ${dryRunResponse.status}: ${JSON.stringify(dryRunResponse.data)}`
+      };
+    }
+
+    // Role feature harus merujuk role yang ada di dokumen
+    const invalidResponse = await makeRequest('/rbac/policy-as-code/import', {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${adminToken}` },
+      body: {
+        ...exportResponse.data,
+        roleFeatures: [...exportResponse.data.roleFeatures, { role: 'missing_role_for_test', feature: 'missing_feature_for_test', allow: ['read'] }]
+      }
+    });
+
+    if (invalidResponse.status === 400 && Array.isArray(invalidResponse.data.errors)) {
+      return {
+        success: true,
+        details: `Exported ${exportResponse.data.roles.length} role(s) and ${exportResponse.data.features.length} feature(s), round trip has no changes, invalid reference rejected`
+      };
+    } else {
+      return {
+        success: false,
+        error: `Invalid document should return 400 with errors, got ${invalidResponse.status}`
+      };
+    }
+  }
+
+  /**
+   * Test export dokumen policy-as-code dalam format YAML (header Accept) lalu dry-run import
+   * dokumen YAML yang sama (header Content-Type) tanpa perubahan; YAML tidak valid ditolak
+   */
+  async testPolicyDocumentYamlRoundTrip() {
+    if (!adminToken) {
+      return { success: false, error: 'No admin token available' };
+    }
+
+    // makeRequest selalu mem-parse response sebagai JSON, export YAML dibaca sebagai teks
+    const exportResponse = await fetch(`${BASE_URL}/api/${API_VERSION}/rbac/policy-as-code/export`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${adminToken}`,
+        'Accept': 'application/yaml'
+      }
+    });
+    const yamlDocument = await exportResponse.text();
+
+    if (exportResponse.status !== 200
+      || !exportResponse.headers.get('content-type')?.includes('application/yaml')
+      || !/^version: 1$/m.test(yamlDocument)) {
+      return {
+        success: false,
+        error: `Expected 200 with YAML policy document, got ${exportResponse.status}: ${yamlDocument.slice(0, 200)}`
+      };
+    }
+
+    const dryRunResponse = await makeRequest('/rbac/policy-as-code/import?dryRun=true', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${adminToken}`,
+        'Content-Type': 'application/yaml'
+      },
+      body: yamlDocument
+    });
+
+    const diff = dryRunResponse.data.data?.diff;
+    if (dryRunResponse.status !== 200 || !diff || diff.changes.length !== 0 || dryRunResponse.data.data.applied) {
+      return {
+        success: false,
+        error: `Dry-run of exported YAML document should have no changes, got ${dryRunResponse.status}: ${JSON.stringify(dryRunResponse.data)}`
+      };
+    }
+
+    const invalidResponse = await makeRequest('/rbac/policy-as-code/import', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${adminToken}`,
+        'Content-Type': 'application/yaml'
+      },
+      body: 'version: 1\nroles: [unclosed'
+    });
+
+    if (invalidResponse.status === 400) {
+      return {
+        success: true,
+        details: 'YAML export round trip has no changes, malformed YAML rejected'
+      };
+    } else {
+      return {
+        success: false,
+        error: `Invalid document should return 400 with errors, got ${invalidResponse.status}`
+      };
+    }
+  }
+
+  /**
+   * Test constraint separation-of-duties: buat constraint antar dua role, cek laporan violation,
+   * dan tolak constraint yang batas rolenya tidak membatasi apa pun
+   */
+  async testSeparationOfDutiesConstraints() {
+    if (!adminToken) {
+      return { success: false, error: 'No admin token available' };
+    }
+
+    const rolesResponse = await makeRequest('/roles', {
+      method: 'GET',
+      headers: { 'Authorization': `Bearer ${adminToken}` }
+    });
+
+    const roleIds = (rolesResponse.data.data?.roles || []).slice(0, 2).map(role => role.id);
+    if (roleIds.length < 2) {
+      return { success: false, error: 'At least two roles are required for separation-of-duties test' };
+    }
+
+    const invalidResponse = await makeRequest('/rbac/sod-constraints', {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${adminToken}` },
+      body: { name: `sod_invalid_${Date.now()}`, roleIds, maxRoles: roleIds.length }
+    });
+
+    if (invalidResponse.status !== 400) {
+      return {
+        success: false,
+        error: `Constraint with maxRoles >= role count should return 400, got ${invalidResponse.status}`
+      };
+    }
+
+    const createResponse = await makeRequest('/rbac/sod-constraints', {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${adminToken}` },
+      body: { name: `sod_test_${Date.now()}`, description: 'Constraint untuk API test', roleIds, maxRoles: 1 }
+    });
+
+    const constraint = createResponse.data.data;
+    if (createResponse.status !== 201 || !constraint || constraint.roles.length !== 2) {
+      return {
+        success: false,
+        error: `Create constraint should return 201, got ${createResponse.status}: ${JSON.stringify(createResponse.data)}`
+      };
+    }
+
+    try {
+      const reportResponse = await makeRequest('/rbac/sod-constraints/violations', {
+        method: 'GET',
+        headers: { 'Authorization': `Bearer ${adminToken}` }
+      });
+
+      const report = reportResponse.data.data;
+      if (reportResponse.status !== 200 || !report || !Array.isArray(report.violations)) {
+        return {
+          success: false,
+          error: `Violation report should return 200, got ${reportResponse.status}: ${JSON.stringify(reportResponse.data)}`
+        };
+      }
+
+      return {
+        success: true,
+        details: `Constraint ${constraint.id} created, report lists ${report.violations.length} violation(s) across ${report.constraints} constraint(s), invalid maxRoles rejected`
+      };
+    } finally {
+      await makeRequest(`/rbac/sod-constraints/${constraint.id}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${adminToken}` }
+      });
+    }
+  }
+
   /**
    * Menjalankan semua test RBAC
    */
@@ -428,12 +909,20 @@ class RBACTestSuite {
     await this.runTest('Get All Roles', () => this.testGetAllRoles());
     await this.runTest('Get Role by ID', () => this.testGetRoleById());
     await this.runTest('Get Role Features', () => this.testGetRoleFeatures());
+    await this.runTest('Get Role Effective Permissions', () => this.testGetRoleEffectivePermissions());
+    await this.runTest('Role Approvers and Access Requests', () => this.testRoleApproversAndAccessRequests());
+    await this.runTest('Access Review Campaigns', () => this.testAccessReviewCampaigns());
+    await this.runTest('Authorization Explain', () => this.testAuthorizationExplain());
+    await this.runTest('Policy Document Round Trip', () => this.testPolicyDocumentRoundTrip());
+    await this.runTest('Policy Document YAML Round Trip', () => this.testPolicyDocumentYamlRoundTrip());
+    await this.runTest('Separation of Duties Constraints', () => this.testSeparationOfDutiesConstraints());
     
     // Features tests
     console.log('\n⚡ Testing Features Endpoints');
     await this.runTest('Get All Features', () => this.testGetAllFeatures());
     await this.runTest('Get Feature by ID', () => this.testGetFeatureById());
     await this.runTest('Get Feature Routes', () => this.testGetFeatureRoutes());
+    await this.runTest('Feature Custom Action', () => this.testFeatureCustomAction());
     
     // Route Features tests
     console.log('\n🛣️  Testing Route Features Endpoints');
@@ -445,6 +934,9 @@ class RBACTestSuite {
     await this.runTest('Unauthorized Access', () => this.testUnauthorizedAccess());
     await this.runTest('Invalid Role ID', () => this.testInvalidRoleId());
     await this.runTest('Invalid Feature ID', () => this.testInvalidFeatureId());
+    await this.runTest('Conflicting Allow/Deny', () => this.testConflictingAllowDeny());
+    await this.runTest('Role Hierarchy Cycle', () => this.testRoleHierarchyCycle());
+    await this.runTest('CRUD-Named Custom Action', () => this.testCrudNamedCustomAction());
 
     // Summary
     console.log('\n📊 Test Results Summary');
@@ -193,6 +193,46 @@ class UserTestSuite {
     }
   }
 
+  /**
+   * Test: Get User Role Assignments (termasuk terjadwal/expired beserta masa berlaku)
+   */
+  async testGetUserRoleAssignments() {
+    if (!adminToken || !testUserId) {
+      return {
+        success: false,
+        error: 'No admin token or test user ID available'
+      };
+    }
+
+    const response = await makeRequest(`/users/${testUserId}/roles?includeInactive=true`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${adminToken}`
+      }
+    });
+
+    if (response.status === 200 && response.data.success) {
+      const roles = response.data.data.roles;
+      const validStatuses = ['active', 'scheduled', 'expired'];
+      if (Array.isArray(roles) && roles.every(role => validStatuses.includes(role.status) && 'validUntil' in role)) {
+        return {
+          success: true,
+          details: `User has ${roles.length} role assignments`
+        };
+      } else {
+        return {
+          success: false,
+          error: 'Role assignments are missing status or validity period'
+        };
+      }
+    } else {
+      return {
+        success: false,
+        error: `Get user role assignments failed: ${response.data.error || 'Unknown error'}`
+      };
+    }
+  }
+
   /**
    * Test: Get User Permissions
    */
@@ -324,6 +364,202 @@ class UserTestSuite {
     }
   }
 
+  /**
+   * Test: Undangan user (buat, tolak duplikat, tampil sebagai pending, cabut)
+   */
+  async testUserInvitationLifecycle() {
+    if (!adminToken) {
+      return {
+        success: false,
+        error: 'No admin token available'
+      };
+    }
+
+    const headers = { 'Authorization': `Bearer ${adminToken}` };
+    const invitationBody = {
+      email: `invitee${Date.now()}@example.com`,
+      name: 'Invited User',
+      attributes: { department: 'IT', region: 'Jakarta', level: 2 }
+    };
+
+    const createResponse = await makeRequest('/users/invitations', {
+      method: 'POST',
+      headers,
+      body: invitationBody
+    });
+    const invitation = createResponse.data.data?.invitation;
+    if (createResponse.status !== 201 || !invitation || invitation.status !== 'pending') {
+      return {
+        success: false,
+        error: `Create invitation failed: ${createResponse.data.message || createResponse.status}`
+      };
+    }
+
+    const duplicateResponse = await makeRequest('/users/invitations', {
+      method: 'POST',
+      headers,
+      body: invitationBody
+    });
+    if (duplicateResponse.status !== 409) {
+      return {
+        success: false,
+        error: `Duplicate pending invitation should return 409, got ${duplicateResponse.status}`
+      };
+    }
+
+    const listResponse = await makeRequest('/users/invitations?status=pending', {
+      method: 'GET',
+      headers
+    });
+    const pendingInvitations = listResponse.data.data?.invitations || [];
+    if (!pendingInvitations.some(item => item.id === invitation.id)) {
+      return {
+        success: false,
+        error: 'Created invitation is not listed as pending'
+      };
+    }
+
+    const revokeResponse = await makeRequest(`/users/invitations/${invitation.id}`, {
+      method: 'DELETE',
+      headers
+    });
+    if (revokeResponse.status !== 200 || !revokeResponse.data.success) {
+      return {
+        success: false,
+        error: `Revoke invitation failed: ${revokeResponse.data.message || revokeResponse.status}`
+      };
+    }
+
+    return {
+      success: true,
+      details: `Invitation ${invitation.id} created, listed as pending, and revoked`
+    };
+  }
+
+  /**
+   * Test: Service account dan personal access token (buat, pakai sesuai scope, tolak di luar scope, cabut)
+   */
+  async testServiceAccountAccessTokenLifecycle() {
+    if (!adminToken) {
+      return {
+        success: false,
+        error: 'No admin token available'
+      };
+    }
+
+    const headers = { 'Authorization': `Bearer ${adminToken}` };
+
+    const accountResponse = await makeRequest('/users/service-accounts', {
+      method: 'POST',
+      headers,
+      body: { name: `CI Bot ${Date.now()}` }
+    });
+    const serviceAccount = accountResponse.data.data?.serviceAccount;
+    if (accountResponse.status !== 201 || !serviceAccount || serviceAccount.isServiceAccount !== true) {
+      return {
+        success: false,
+        error: `Create service account failed: ${accountResponse.data.message || accountResponse.status}`
+      };
+    }
+
+    // Token milik admin agar permission pemilik tidak membatasi; yang diuji adalah scope token
+    const profileResponse = await makeRequest('/users/profile', { method: 'GET', headers });
+    const adminId = profileResponse.data.data?.user?.id;
+    const tokenResponse = await makeRequest(`/users/${adminId}/access-tokens`, {
+      method: 'POST',
+      headers,
+      body: { name: 'users-read', scopes: [{ feature: 'user_management', action: 'read' }], expiresInDays: 1 }
+    });
+    const { token, accessToken } = tokenResponse.data.data || {};
+    if (tokenResponse.status !== 201 || !token || !token.startsWith('ymp_')) {
+      return {
+        success: false,
+        error: `Create access token failed: ${tokenResponse.data.message || tokenResponse.status}`
+      };
+    }
+
+    const tokenHeaders = { 'Authorization': `Bearer ${token}` };
+    const readResponse = await makeRequest('/users', { method: 'GET', headers: tokenHeaders });
+    if (readResponse.status !== 200) {
+      return {
+        success: false,
+        error: `In-scope request should succeed, got ${readResponse.status}`
+      };
+    }
+
+    const outOfScopeResponse = await makeRequest('/users/invitations', {
+      method: 'POST',
+      headers: tokenHeaders,
+      body: { email: `scope${Date.now()}@example.com` }
+    });
+    if (outOfScopeResponse.status !== 403) {
+      return {
+        success: false,
+        error: `Out-of-scope request should return 403, got ${outOfScopeResponse.status}`
+      };
+    }
+
+    await makeRequest(`/users/${adminId}/access-tokens/${accessToken.id}`, { method: 'DELETE', headers });
+    const revokedResponse = await makeRequest('/users', { method: 'GET', headers: tokenHeaders });
+    if (revokedResponse.status !== 401) {
+      return {
+        success: false,
+        error: `Revoked token should return 401, got ${revokedResponse.status}`
+      };
+    }
+
+    return {
+      success: true,
+      details: `Service account ${serviceAccount.id} created; token ${accessToken.id} scoped, enforced, and revoked`
+    };
+  }
+
+  /**
+   * Test: Force sign-out langsung menolak access token yang sudah terbit
+   * Memakai akun admin sendiri lalu login ulang agar test berikutnya tetap punya token
+   */
+  async testForceSignOut() {
+    if (!adminToken) {
+      return {
+        success: false,
+        error: 'No admin token available'
+      };
+    }
+
+    const headers = { 'Authorization': `Bearer ${adminToken}` };
+    const profileResponse = await makeRequest('/users/profile', { method: 'GET', headers });
+    const adminId = profileResponse.data.data?.user?.id;
+
+    const signOutResponse = await makeRequest(`/users/${adminId}/force-sign-out`, {
+      method: 'POST',
+      headers
+    });
+    if (signOutResponse.status !== 200 || !signOutResponse.data.success) {
+      return {
+        success: false,
+        error: `Force sign-out failed: ${signOutResponse.data.message || signOutResponse.status}`
+      };
+    }
+
+    const revokedResponse = await makeRequest('/users', { method: 'GET', headers });
+    if (revokedResponse.status !== 401) {
+      return {
+        success: false,
+        error: `Access token issued before force sign-out should return 401, got ${revokedResponse.status}`
+      };
+    }
+
+    const relogin = await this.setupAdminLogin();
+    if (!relogin.success) {
+      return relogin;
+    }
+
+    return {
+      success: true,
+      details: `User ${adminId} signed out; old access token rejected (token version ${signOutResponse.data.data.tokenVersion})`
+    };
+  }
+
   /**
    * Menjalankan semua test user management
    */
@@ -338,8 +574,12 @@ class UserTestSuite {
     await this.runTest('Get All Users', () => this.testGetAllUsers());
     await this.runTest('Get User by ID', () => this.testGetUserById());
     await this.runTest('Get User Roles', () => this.testGetUserRoles());
+    await this.runTest('Get User Role Assignments', () => this.testGetUserRoleAssignments());
     await this.runTest('Get User Permissions', () => this.testGetUserPermissions());
     await this.runTest('Get User Profile', () => this.testGetUserProfile());
+    await this.runTest('User Invitation Lifecycle', () => this.testUserInvitationLifecycle());
+    await this.runTest('Service Account Access Token Lifecycle', () => this.testServiceAccountAccessTokenLifecycle());
+    await this.runTest('Force Sign-out', () => this.testForceSignOut());
     
     // Error cases
     await this.runTest('Unauthorized Access', () => this.testUnauthorizedAccess());